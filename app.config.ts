@@ -63,7 +63,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
         NSHealthShareUsageDescription:
           "Thrive reads your health data to track progress and auto-complete habits.",
         NSHealthUpdateUsageDescription: false,
-        background: false,
+        background: true,
       },
     ],
     "expo-apple-authentication",
@@ -21,6 +21,7 @@ import { EVENTS, captureEvent } from '@/lib/analytics';
 import { createHabit } from '@/lib/habits';
 import { createIdentityStatements } from '@/lib/identityStatements';
 import { supabase } from '@/lib/supabase';
+import type { HabitType } from '@/lib/types';
 import { normalizePhoneNumber, updateEveningCallPreferences } from '@/lib/eveningCalls';
 import OnboardingProgress from '@/components/OnboardingProgress';
 import SaveContactButton from '@/components/SaveContactButton';
@@ -32,6 +33,9 @@ interface PendingHabit {
   frequency_per_week: number;
   specific_days: number[] | null;
   identity_id?: string;
+  habit_type?: HabitType;
+  reminder_times?: string[] | null;
+  reminder_days?: number[] | null;
 }
 
 interface OnboardingIdentity {
@@ -136,6 +140,9 @@ export default function OnboardingFeaturesScreen() {
           frequency_per_week: habit.frequency_per_week,
           specific_days: habit.specific_days,
           identity_statement_id: identityStatementId,
+          habit_type: habit.habit_type,
+          reminder_times: habit.reminder_times,
+          reminder_days: habit.reminder_days,
         });
       }
 
@@ -20,7 +20,7 @@ import AppHeader from '@/components/AppHeader';
 import OnboardingProgress from '@/components/OnboardingProgress';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { CATEGORY_ICONS } from '@/components/CategoryPicker';
-import type { IdentityStatement } from '@/lib/types';
+import type { HabitType, IdentityStatement } from '@/lib/types';
 import type { SelectedIdentity } from './identity';
 import { getSuggestedHabitsForCategory, type SuggestedHabit } from '@/lib/identityTemplates';
 
@@ -31,6 +31,9 @@ interface PendingHabit {
   frequency_per_week: number;
   specific_days: number[] | null;
   identity_id?: string;
+  habit_type?: HabitType;
+  reminder_times?: string[] | null;
+  reminder_days?: number[] | null;
 }
 
 interface FormModal {
@@ -117,6 +120,9 @@ export default function OnboardingHabitsScreen() {
       frequency_per_week: number;
       specific_days: number[] | null;
       identity_statement_id: string | null;
+      habit_type: HabitType;
+      reminder_times: string[] | null;
+      reminder_days: number[] | null;
     }) => {
       const newHabit: PendingHabit = {
         id: Date.now().toString(),
@@ -125,6 +131,9 @@ export default function OnboardingHabitsScreen() {
         frequency_per_week: data.frequency_per_week,
         specific_days: data.specific_days,
         identity_id: data.identity_statement_id ?? formModal.identityId ?? undefined,
+        habit_type: data.habit_type,
+        reminder_times: data.reminder_times,
+        reminder_days: data.reminder_days,
       };
       setHabits((prev) => [...prev, newHabit]);
       captureEvent(EVENTS.ONBOARDING_HABIT_ADDED, {
@@ -184,6 +193,7 @@ export default function OnboardingHabitsScreen() {
   };
 
   const getDaysLabel = (habit: PendingHabit) => {
+    if (habit.habit_type === 'avoid') return 'Avoid every day';
     if (habit.specific_days && habit.specific_days.length > 0) {
       const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
       return habit.specific_days.map((d) => dayNames[d]).join(', ');
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useState, useMemo } from 'react';
+import React, { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -6,9 +6,10 @@ import {
   FlatList,
   RefreshControl,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from 'expo-router';
+import { useFocusEffect, useLocalSearchParams } from 'expo-router';
 import { useQueryClient } from '@tanstack/react-query';
 import { theme } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
@@ -22,8 +23,20 @@ import {
   getCompletionsForDate,
   getStreak,
   getCompletionsForDateRange,
+  isQuantitativeHabit,
+  isCompletionMet,
+  getLoggedQuantity,
+  getMonthRange,
+  getTargetDaysForRange,
+  isAvoidHabit,
+  computeAbstinenceStats,
 } from '@/lib/habits';
-import { Habit, DayOfWeek, DailyTodo } from '@/lib/types';
+import { computeRoutineProgress, type RoutineProgress } from '@/lib/routines';
+import { getJournalTemplateForDate, isJournalEntryComplete } from '@/lib/journalTemplates';
+import { getEntryReflectionsByDate } from '@/lib/journalReflections';
+import { addDays, getCarryOverCandidates, planCarryOver } from '@/lib/todoCarryOver';
+import { EVENTS, captureEvent } from '@/lib/analytics';
+import { Habit, DayOfWeek, DailyTodo, JournalAnswer, JournalRatings } from '@/lib/types';
 import { useHealth } from '@/contexts/HealthContext';
 import {
   useHabits,
@@ -34,8 +47,12 @@ import {
   useSnoozesForRange,
   useStreak,
   useToggleCompletion,
+  useLogHabitQuantity,
   useSnoozeHabit,
   useUnsnoozeHabit,
+  useSlips,
+  useLogSlip,
+  useDeleteSlip,
   useRefreshAllHabitData,
 } from '@/hooks/useHabitsQuery';
 import {
@@ -44,18 +61,28 @@ import {
   useUpsertDailyTodo,
   useToggleDailyTodo,
   useDeleteDailyTodo,
+  useCarryOverTodos,
 } from '@/hooks/useDailyTodosQuery';
 import {
   useDailyJournal,
   useDailyJournalForRange,
   useUpsertJournalEntry,
+  useJournalTemplates,
+  useJournalReflections,
+  useGenerateJournalReflection,
 } from '@/hooks/useDailyJournalQuery';
+import { useRoutines } from '@/hooks/useRoutinesQuery';
 import { useUserSettings } from '@/contexts/UserSettingsContext';
 import { queryKeys } from '@/lib/queryClient';
 import PriorityItem from '@/components/PriorityItem';
+import AvoidHabitItem from '@/components/AvoidHabitItem';
+import RoutineCard from '@/components/RoutineCard';
+import RoutineRunner from '@/components/RoutineRunner';
 import CalendarStrip from '@/components/CalendarStrip';
 import ThriveLogo from '@/components/ThriveLogo';
 import Top3TodosSection from '@/components/Top3TodosSection';
+import PlanTomorrowSheet from '@/components/PlanTomorrowSheet';
+import LogAmountModal from '@/components/LogAmountModal';
 import DailyJournalSection from '@/components/DailyJournalSection';
 import DefineIdentityCard from '@/components/DefineIdentityCard';
 import { useIdentityStatements } from '@/hooks/useIdentityQuery';
@@ -75,6 +102,13 @@ export default function HomeScreen() {
   // Selected date state
   const [selectedDate, setSelectedDate] = useState(getTodayDate());
 
+  // Opened on a specific day, e.g. from a search result. `at` changes on every
+  // jump so opening the same day again still moves the calendar back to it.
+  const { date: dateParam, at: jumpedAt } = useLocalSearchParams<{ date?: string; at?: string }>();
+  useEffect(() => {
+    if (dateParam && /^\d{4}-\d{2}-\d{2}$/.test(dateParam)) setSelectedDate(dateParam);
+  }, [dateParam, jumpedAt]);
+
   // Derive the selected date's dayOfWeek
   const selectedDayOfWeek = useMemo(() => {
     const d = new Date(selectedDate + 'T12:00:00');
@@ -109,6 +143,9 @@ export default function HomeScreen() {
     };
   }, [selectedDate]);
 
+  // Month range for the selected date (for monthly recurrence tracking)
+  const selectedMonthRange = useMemo(() => getMonthRange(selectedDate), [selectedDate]);
+
   // ── Identity statements ──
   const { data: identityStatements = [] } = useIdentityStatements();
   const identityIconMap = useMemo(() => {
@@ -127,7 +164,14 @@ export default function HomeScreen() {
     selectedWeekRange.start,
     selectedWeekRange.end
   );
+  const { data: monthCompletions = [] } = useCompletionsForRange(
+    selectedMonthRange.start,
+    selectedMonthRange.end
+  );
   const { data: snoozes = [] } = useSnoozesForDate(selectedDate);
+  const { data: slips = [] } = useSlips();
+  const { data: routines = [] } = useRoutines();
+  const [runningRoutineId, setRunningRoutineId] = useState<string | null>(null);
   const { data: streak = { streakCount: 0, earnedToday: false } } = useStreak();
   const { data: calendarCompletions = [] } = useCompletionsForRange(
     calendarRange.start,
@@ -154,16 +198,28 @@ export default function HomeScreen() {
     calendarRange.start,
     calendarRange.end
   );
+  const { data: journalTemplates = [] } = useJournalTemplates();
+  const journalTemplate = getJournalTemplateForDate(journalTemplates, settings, selectedDate);
+  const { data: journalReflections = [] } = useJournalReflections();
+  const journalReflection = useMemo(
+    () => getEntryReflectionsByDate(journalReflections).get(selectedDate)?.content ?? null,
+    [journalReflections, selectedDate]
+  );
 
   // ── Mutations ──
   const toggleMutation = useToggleCompletion();
+  const logQuantityMutation = useLogHabitQuantity();
   const snoozeMutation = useSnoozeHabit();
   const unsnoozeMutation = useUnsnoozeHabit();
+  const logSlipMutation = useLogSlip();
+  const deleteSlipMutation = useDeleteSlip();
   const refreshAll = useRefreshAllHabitData();
   const upsertTodoMutation = useUpsertDailyTodo();
   const toggleTodoMutation = useToggleDailyTodo();
   const deleteTodoMutation = useDeleteDailyTodo();
   const upsertJournalMutation = useUpsertJournalEntry();
+  const carryOverMutation = useCarryOverTodos();
+  const generateReflectionMutation = useGenerateJournalReflection();
 
   // ── Auto-complete from health data ──
   useFocusEffect(
@@ -187,9 +243,29 @@ export default function HomeScreen() {
     }, [user, healthAuthorized, habits, completions, selectedDate, calendarRange])
   );
 
+  const logQuantity = (habit: Habit, amount: number) => {
+    if (!user) return;
+    logQuantityMutation.mutate({
+      habitId: habit.id,
+      userId: user.id,
+      date: selectedDate,
+      amount,
+      targetAmount: habit.target_amount!,
+      habitName: habit.name,
+    });
+  };
+
   const handleToggle = async (habit: Habit) => {
     if (!user) return;
-    const isCompleted = completions.some((c) => c.habit_id === habit.id);
+    const completion = completions.find((c) => c.habit_id === habit.id);
+    const isCompleted = isCompletionMet(habit, completion);
+
+    // Quantitative habits build up one unit per tap until the target is reached
+    if (isQuantitativeHabit(habit) && !isCompleted) {
+      logQuantity(habit, 1);
+      return;
+    }
+
     toggleMutation.mutate({
       habitId: habit.id,
       userId: user.id,
@@ -200,6 +276,47 @@ export default function HomeScreen() {
     });
   };
 
+  // Fire routine completion when this step is the last one left
+  const trackRoutineStep = (progress: RoutineProgress, habit: Habit, guided: boolean) => {
+    if (progress.completedIds.has(habit.id) || progress.done !== progress.total - 1) return;
+    captureEvent(EVENTS.ROUTINE_COMPLETED, {
+      routine_id: progress.routine.id,
+      routine_name: progress.routine.name,
+      step_count: progress.total,
+      guided,
+    });
+  };
+
+  const handleToggleRoutineStep = (progress: RoutineProgress, habit: Habit) => {
+    const completion = completions.find((c) => c.habit_id === habit.id);
+    const remaining = isQuantitativeHabit(habit)
+      ? habit.target_amount! - getLoggedQuantity(completion, habit.target_amount)
+      : 0;
+    if (remaining <= 1) trackRoutineStep(progress, habit, false);
+    handleToggle(habit);
+  };
+
+  // A guided "Done" finishes the step outright, topping quantitative habits up to target
+  const handleCompleteRoutineStep = (progress: RoutineProgress, habit: Habit) => {
+    if (!user || progress.completedIds.has(habit.id)) return;
+    trackRoutineStep(progress, habit, true);
+    if (isQuantitativeHabit(habit)) {
+      const completion = completions.find((c) => c.habit_id === habit.id);
+      logQuantity(habit, habit.target_amount! - getLoggedQuantity(completion, habit.target_amount));
+      return;
+    }
+    handleToggle(habit);
+  };
+
+  // Alert.prompt is iOS-only, so amounts are typed into LogAmountModal
+  const [loggingHabitId, setLoggingHabitId] = useState<string | null>(null);
+  const loggingHabit = habits.find((h) => h.id === loggingHabitId) ?? null;
+
+  const handleLogAmount = (habit: Habit) => {
+    if (!isQuantitativeHabit(habit)) return;
+    setLoggingHabitId(habit.id);
+  };
+
   const handleSnooze = async (habit: Habit) => {
     if (!user) return;
     snoozeMutation.mutate({
@@ -218,6 +335,80 @@ export default function HomeScreen() {
     });
   };
 
+  const handleLogSlip = (habit: Habit) => {
+    if (!user) return;
+    logSlipMutation.mutate({
+      habitId: habit.id,
+      userId: user.id,
+      date: selectedDate,
+      habitName: habit.name,
+    });
+  };
+
+  const handleUndoSlip = (habit: Habit) => {
+    const latest = slips
+      .filter((s) => s.habit_id === habit.id && s.slip_date === selectedDate)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .pop();
+    if (!latest) return;
+    deleteSlipMutation.mutate({ slipId: latest.id });
+  };
+
+  // ── Carry over unfinished intentions ──
+  const [showPlanTomorrow, setShowPlanTomorrow] = useState(false);
+  const [dismissedCarryOverFrom, setDismissedCarryOverFrom] = useState<string | null>(null);
+  const autoCarriedFrom = useRef<string | null>(null);
+  const isToday = selectedDate === getTodayDate();
+  const carryOverMode = settings.todo_carry_over;
+
+  // Planning tomorrow closes out the evening journal; without the journal it
+  // stays on the intentions card
+  const openPlanTomorrow = top3Enabled && isToday ? () => setShowPlanTomorrow(true) : undefined;
+
+  // Unfinished todos from a recent day that still fit into today's free positions
+  const carryOverCandidates = useMemo(() => {
+    if (!top3Enabled || carryOverMode === 'off' || !isToday) return null;
+    const candidates = getCarryOverCandidates(calendarTodos, selectedDate);
+    if (!candidates || planCarryOver(candidates.todos, dailyTodos).moves.length === 0) return null;
+    return candidates;
+  }, [top3Enabled, carryOverMode, isToday, calendarTodos, dailyTodos, selectedDate]);
+
+  const handleCarryOver = (automatic: boolean) => {
+    if (!user || !carryOverCandidates) return;
+    carryOverMutation.mutate(
+      { userId: user.id, fromDate: carryOverCandidates.fromDate, toDate: selectedDate, automatic },
+      {
+        onError: () => {
+          if (!automatic) Alert.alert('Error', "Couldn't carry over your intentions. Please try again.");
+        },
+      }
+    );
+  };
+
+  useEffect(() => {
+    if (carryOverMode !== 'auto' || !carryOverCandidates) return;
+    // Once per source day, so a failed attempt isn't retried on every render
+    if (autoCarriedFrom.current === carryOverCandidates.fromDate) return;
+    autoCarriedFrom.current = carryOverCandidates.fromDate;
+    handleCarryOver(true);
+  }, [carryOverMode, carryOverCandidates]);
+
+  const carryOverPrompt =
+    carryOverMode === 'prompt' &&
+    carryOverCandidates &&
+    carryOverCandidates.fromDate !== dismissedCarryOverFrom
+      ? {
+          count: planCarryOver(carryOverCandidates.todos, dailyTodos).moves.length,
+          label:
+            carryOverCandidates.fromDate === addDays(selectedDate, -1)
+              ? 'yesterday'
+              : new Date(carryOverCandidates.fromDate + 'T12:00:00').toLocaleDateString('en-US', {
+                  weekday: 'long',
+                }),
+          loading: carryOverMutation.isPending,
+        }
+      : null;
+
   const handleSaveTodo = (position: number, text: string) => {
     if (!user) return;
     upsertTodoMutation.mutate({ userId: user.id, date: selectedDate, position, text });
@@ -231,9 +422,22 @@ export default function HomeScreen() {
     deleteTodoMutation.mutate({ todoId: todo.id, date: selectedDate });
   };
 
-  const handleSubmitJournal = (win: string, tension: string, gratitude: string) => {
+  const handleSubmitJournal = (
+    templateId: string | null,
+    answers: JournalAnswer[],
+    ratings: JournalRatings,
+  ) => {
     if (!user) return;
-    upsertJournalMutation.mutate({ userId: user.id, date: selectedDate, win, tension, gratitude });
+    const date = selectedDate;
+    upsertJournalMutation.mutate(
+      { userId: user.id, date, templateId, answers, ratings },
+      {
+        onSuccess: (outcome) => {
+          // Queued saves are reflected on later from the journal history
+          if (!outcome.queued) generateReflectionMutation.mutate({ scope: 'entry', journalDate: date });
+        },
+      }
+    );
   };
 
   const handleRefresh = async () => {
@@ -257,8 +461,9 @@ export default function HomeScreen() {
       const dateStr = formatDate(d);
       const dow = d.getDay() as DayOfWeek;
 
-      const dayHabits = getHabitsForDay(habits, dow)
-        .filter((h) => h.created_at.slice(0, 10) <= dateStr);
+      // Avoid habits have nothing to check off, so they stay out of the day's progress
+      const dayHabits = getHabitsForDay(habits, dow, dateStr)
+        .filter((h) => h.created_at.slice(0, 10) <= dateStr && !isAvoidHabit(h));
       const daySnoozedIds = new Set(
         calendarSnoozes
           .filter((s) => s.snoozed_date === dateStr)
@@ -268,8 +473,9 @@ export default function HomeScreen() {
       const dayCompletions = calendarCompletions.filter(
         (c) => c.completed_date === dateStr
       );
-      const completedHabitIds = new Set(dayCompletions.map((c) => c.habit_id));
-      let completedCount = unsnoozedHabits.filter((h) => completedHabitIds.has(h.id)).length;
+      let completedCount = unsnoozedHabits.filter((h) =>
+        isCompletionMet(h, dayCompletions.find((c) => c.habit_id === h.id))
+      ).length;
       let total = unsnoozedHabits.length;
 
       if (top3Enabled) {
@@ -283,7 +489,7 @@ export default function HomeScreen() {
       if (journalEnabled) {
         total += 1;
         const dayJournal = calendarJournals.find((j) => j.journal_date === dateStr);
-        if (dayJournal && dayJournal.win.trim() && dayJournal.tension.trim() && dayJournal.gratitude.trim()) {
+        if (isJournalEntryComplete(dayJournal)) {
           completedCount += 1;
         }
       }
@@ -294,24 +500,54 @@ export default function HomeScreen() {
     return progress;
   }, [habits, calendarCompletions, calendarSnoozes, top3Enabled, calendarTodos, journalEnabled, calendarJournals]);
 
-  const selectedDayHabits = getHabitsForDay(habits, selectedDayOfWeek)
+  const activeDayHabits = getHabitsForDay(habits, selectedDayOfWeek, selectedDate)
     .filter((h) => h.created_at.slice(0, 10) <= selectedDate);
-  const completedIds = new Set(completions.map((c) => c.habit_id));
+  const selectedDayHabits = activeDayHabits.filter((h) => !isAvoidHabit(h));
+  const avoidHabits = activeDayHabits.filter(isAvoidHabit);
+  const completionByHabit = new Map(completions.map((c) => [c.habit_id, c]));
+  const completedIds = new Set(
+    selectedDayHabits
+      .filter((h) => isCompletionMet(h, completionByHabit.get(h.id)))
+      .map((h) => h.id)
+  );
   const snoozedIds = new Set(snoozes.map((s) => s.habit_id));
 
+  // Routines with at least one step today; their steps live on the routine
+  // card instead of the flat habit lists
+  const routineProgress = routines
+    .map((r) => computeRoutineProgress(r, habits, completions, selectedDayOfWeek, selectedDate, snoozedIds))
+    .filter((p) => p.total > 0);
+  const routineStepIds = new Set(routineProgress.flatMap((p) => p.steps.map((h) => h.id)));
+  const runningRoutine = routineProgress.find((p) => p.routine.id === runningRoutineId) ?? null;
+
   const getWeeklyCompletionCount = (habit: Habit) =>
-    weekCompletions.filter((c) => c.habit_id === habit.id).length;
+    weekCompletions.filter((c) => c.habit_id === habit.id && isCompletionMet(habit, c)).length;
+
+  const getQuantityProgress = (habit: Habit) => {
+    if (!isQuantitativeHabit(habit)) return undefined;
+    const completion = completionByHabit.get(habit.id);
+    return {
+      logged: getLoggedQuantity(completion, habit.target_amount),
+      target: habit.target_amount!,
+      unit: habit.unit ?? null,
+    };
+  };
+
+  const getMonthlyCompletionCount = (habit: Habit) =>
+    monthCompletions.filter((c) => c.habit_id === habit.id && isCompletionMet(habit, c)).length;
 
   const getIsRequired = (habit: Habit) =>
     isHabitRequiredToday(
       habit,
       selectedDayOfWeek,
       getWeeklyCompletionCount(habit),
-      completedIds.has(habit.id)
+      completedIds.has(habit.id),
+      { date: selectedDate, monthCompletionsForHabit: getMonthlyCompletionCount(habit) }
     );
 
   // Separate into incomplete, completed, and snoozed — with required first in incomplete
-  const incompleteHabits = selectedDayHabits
+  const listHabits = selectedDayHabits.filter((h) => !routineStepIds.has(h.id));
+  const incompleteHabits = listHabits
     .filter((h) => !completedIds.has(h.id) && !snoozedIds.has(h.id))
     .sort((a, b) => {
       const aReq = getIsRequired(a);
@@ -321,15 +557,24 @@ export default function HomeScreen() {
       return 0;
     });
 
-  const completedHabits = selectedDayHabits.filter((h) => completedIds.has(h.id));
-  const snoozedHabits = selectedDayHabits.filter(
+  const completedHabits = listHabits.filter((h) => completedIds.has(h.id));
+  const snoozedHabits = listHabits.filter(
     (h) => snoozedIds.has(h.id) && !completedIds.has(h.id)
   );
 
   const getWeeklyProgress = (habit: Habit) => {
+    // Monthly-count habits track progress across the month instead of the week
+    if (habit.recurrence?.type === 'monthly_count') {
+      return {
+        done: getMonthlyCompletionCount(habit),
+        total: habit.recurrence.times_per_month,
+      };
+    }
+    // Fixed-date recurrences have nothing to pace, like specific-day habits
+    if (habit.recurrence) return undefined;
     return {
       done: getWeeklyCompletionCount(habit),
-      total: habit.frequency_per_week,
+      total: getTargetDaysForRange(habit, selectedWeekRange.start, selectedWeekRange.end),
     };
   };
 
@@ -342,17 +587,21 @@ export default function HomeScreen() {
     );
   }
 
-  const journalCompleted = journalEnabled && journalEntry !== null &&
-    journalEntry.win.trim() !== '' && journalEntry.tension.trim() !== '' && journalEntry.gratitude.trim() !== '';
+  const journalCompleted = journalEnabled && isJournalEntryComplete(journalEntry);
+
+  const routinesDone = routineProgress.every((p) => p.isComplete);
 
   const allDone =
     incompleteHabits.length === 0 &&
-    (completedHabits.length > 0 || journalCompleted) &&
+    routinesDone &&
+    (completedHabits.length > 0 || routineProgress.length > 0 || journalCompleted) &&
     (!top3Enabled || dailyTodos.every((t) => t.is_completed)) &&
     (!journalEnabled || journalCompleted);
 
   type ListItem =
     | { type: 'habit'; habit: Habit; state: 'incomplete' | 'completed' | 'snoozed' }
+    | { type: 'avoidHabit'; habit: Habit }
+    | { type: 'routine'; progress: RoutineProgress }
     | { type: 'label'; label: string }
     | { type: 'todosSection' }
     | { type: 'journalSection' }
@@ -372,6 +621,12 @@ export default function HomeScreen() {
       items.push({ type: 'todosSection' });
     }
 
+    // Routines — ordered habit chains, each on its own card
+    if (routineProgress.length > 0) {
+      items.push({ type: 'label', label: 'Routines' });
+      routineProgress.forEach((p) => items.push({ type: 'routine', progress: p }));
+    }
+
     // Daily Habits section
     if (incompleteHabits.length > 0) {
       items.push({ type: 'label', label: 'Daily Habits' });
@@ -380,7 +635,7 @@ export default function HomeScreen() {
       );
     } else if (allDone && snoozedHabits.length === 0) {
       items.push({ type: 'label', label: 'All Done! \u{1F389}' });
-    } else if (incompleteHabits.length === 0 && snoozedHabits.length > 0 && !top3Enabled && !journalEnabled) {
+    } else if (incompleteHabits.length === 0 && routinesDone && snoozedHabits.length > 0 && !top3Enabled && !journalEnabled) {
       items.push({ type: 'label', label: 'All Done! \u{1F389}' });
     }
 
@@ -389,6 +644,12 @@ export default function HomeScreen() {
       items.push({ type: 'journalSection' });
     }
 
+    // Avoid habits — nothing to complete, just the clean run and a slip button
+    if (avoidHabits.length > 0) {
+      items.push({ type: 'label', label: 'Avoiding' });
+      avoidHabits.forEach((h) => items.push({ type: 'avoidHabit', habit: h }));
+    }
+
     // Completed section
     if (completedHabits.length > 0 || journalCompleted) {
       items.push({ type: 'label', label: 'Completed' });
@@ -433,6 +694,10 @@ export default function HomeScreen() {
           onSave={handleSaveTodo}
           onToggle={handleToggleTodo}
           onDelete={handleDeleteTodo}
+          carryOver={carryOverPrompt}
+          onCarryOver={() => handleCarryOver(false)}
+          onDismissCarryOver={() => setDismissedCarryOverFrom(carryOverCandidates?.fromDate ?? null)}
+          onPlanTomorrow={journalEnabled ? undefined : openPlanTomorrow}
         />
       );
     }
@@ -442,6 +707,14 @@ export default function HomeScreen() {
         <DailyJournalSection
           date={selectedDate}
           entry={journalEntry}
+          template={journalTemplate}
+          templates={journalTemplates}
+          reflection={journalReflection}
+          reflecting={
+            generateReflectionMutation.isPending &&
+            generateReflectionMutation.variables.scope === 'entry' &&
+            generateReflectionMutation.variables.journalDate === selectedDate
+          }
           onSubmit={handleSubmitJournal}
         />
       );
@@ -452,11 +725,49 @@ export default function HomeScreen() {
         <DailyJournalSection
           date={selectedDate}
           entry={journalEntry}
+          template={journalTemplate}
+          templates={journalTemplates}
+          reflection={journalReflection}
+          reflecting={
+            generateReflectionMutation.isPending &&
+            generateReflectionMutation.variables.scope === 'entry' &&
+            generateReflectionMutation.variables.journalDate === selectedDate
+          }
           onSubmit={handleSubmitJournal}
+          onPlanTomorrow={openPlanTomorrow}
         />
       );
     }
 
+    if (item.type === 'routine') {
+      const { progress } = item;
+      return (
+        <View style={styles.itemWrapper}>
+          <RoutineCard
+            progress={progress}
+            onStart={() => setRunningRoutineId(progress.routine.id)}
+            onToggleStep={(habit) => handleToggleRoutineStep(progress, habit)}
+          />
+        </View>
+      );
+    }
+
+    if (item.type === 'avoidHabit') {
+      const { habit } = item;
+      return (
+        <View style={styles.itemWrapper}>
+          <AvoidHabitItem
+            habit={habit}
+            daysClean={computeAbstinenceStats(habit, slips, selectedDate).daysSinceLastSlip}
+            slipsOnDay={slips.filter((s) => s.habit_id === habit.id && s.slip_date === selectedDate).length}
+            onLogSlip={() => handleLogSlip(habit)}
+            onUndoSlip={() => handleUndoSlip(habit)}
+            identityIcon={habit.identity_statement_id ? (identityIconMap.get(habit.identity_statement_id) as any) : undefined}
+          />
+        </View>
+      );
+    }
+
     const { habit, state } = item;
     const isCompleted = state === 'completed';
     const isSnoozed = state === 'snoozed';
@@ -469,7 +780,9 @@ export default function HomeScreen() {
           isSnoozed={isSnoozed}
           isRequired={getIsRequired(habit)}
           weeklyProgress={getWeeklyProgress(habit)}
+          quantityProgress={getQuantityProgress(habit)}
           onToggle={() => handleToggle(habit)}
+          onLogAmount={() => handleLogAmount(habit)}
           onSnooze={() => handleSnooze(habit)}
           onUnsnooze={() => handleUnsnooze(habit)}
           identityIcon={habit.identity_statement_id ? (identityIconMap.get(habit.identity_statement_id) as any) : undefined}
@@ -522,7 +835,7 @@ export default function HomeScreen() {
       />
 
 
-      {selectedDayHabits.length === 0 && !top3Enabled && !journalEnabled ? (
+      {activeDayHabits.length === 0 && !top3Enabled && !journalEnabled ? (
         <View style={styles.emptyState}>
           <Text style={styles.emptyEmoji}>🌟</Text>
           <Text style={styles.emptyTitle}>No habits for this day</Text>
@@ -539,6 +852,8 @@ export default function HomeScreen() {
             if (item.type === 'journalSection') return 'journal-section';
             if (item.type === 'completedJournal') return 'completed-journal';
             if (item.type === 'identityCard') return 'identity-card';
+            if (item.type === 'avoidHabit') return `avoid-${item.habit.id}`;
+            if (item.type === 'routine') return `routine-${item.progress.routine.id}`;
             return `habit-${item.habit.id}`;
           }}
           renderItem={renderItem}
@@ -553,6 +868,25 @@ export default function HomeScreen() {
           }
         />
       )}
+
+      <RoutineRunner
+        visible={runningRoutine !== null}
+        progress={runningRoutine}
+        onCompleteStep={(habit) => runningRoutine && handleCompleteRoutineStep(runningRoutine, habit)}
+        onClose={() => setRunningRoutineId(null)}
+      />
+
+      <PlanTomorrowSheet
+        visible={showPlanTomorrow}
+        date={selectedDate}
+        onClose={() => setShowPlanTomorrow(false)}
+      />
+
+      <LogAmountModal
+        habit={loggingHabit}
+        onSubmit={(amount) => loggingHabit && logQuantity(loggingHabit, amount)}
+        onClose={() => setLoggingHabitId(null)}
+      />
     </SafeAreaView>
   );
 }
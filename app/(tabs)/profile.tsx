@@ -36,8 +36,10 @@ import {
 import { EVENTS, captureEvent } from '@/lib/analytics';
 import { getLinkedIdentities, isAppleAuthAvailable } from '@/lib/socialAuth';
 import { useIdentityStatements } from '@/hooks/useIdentityQuery';
-import { useHabits } from '@/hooks/useHabitsQuery';
-import type { ThemePreference } from '@/lib/userSettings';
+import { useHabits, useHabitStreaks } from '@/hooks/useHabitsQuery';
+import { useRoutines } from '@/hooks/useRoutinesQuery';
+import type { ThemePreference, TodoCarryOverMode, UserSettings } from '@/lib/userSettings';
+import { formatReminderTime } from '@/lib/habitReminders';
 import {
   updateEveningCallPreferences,
   triggerEveningCall,
@@ -48,6 +50,8 @@ import {
   CALL_TIME_OPTIONS,
 } from '@/lib/eveningCalls';
 import SaveContactButton from '@/components/SaveContactButton';
+import HabitStreaksSection from '@/components/HabitStreaksSection';
+import ReminderScheduleSection from '@/components/ReminderScheduleSection';
 
 export default function ProfileScreen() {
   const colors = useThemeColors();
@@ -73,6 +77,8 @@ export default function ProfileScreen() {
   const [upgrading, setUpgrading] = useState(false);
   const { data: identityStatements = [] } = useIdentityStatements();
   const { data: habits = [] } = useHabits();
+  const { data: routines = [] } = useRoutines();
+  const { data: streakData } = useHabitStreaks();
   const top3TodosEnabled = settings.top3_todos_enabled;
   const journalEnabled = settings.journal_enabled;
   const preference = settings.theme_preference;
@@ -374,6 +380,27 @@ export default function ProfileScreen() {
     captureEvent(EVENTS.TOP3_TODOS_TOGGLED, { enabled: nextEnabled });
   };
 
+  const handleCarryOverChange = async (mode: TodoCarryOverMode) => {
+    if (mode === settings.todo_carry_over) return;
+    try {
+      await updateSettings({ todo_carry_over: mode });
+      captureEvent(EVENTS.PROFILE_UPDATED);
+    } catch (error) {
+      console.error('Error updating carry-over setting:', error);
+      Alert.alert('Error', 'Failed to update carry-over setting.');
+    }
+  };
+
+  const handleUpdateReminderSchedule = async (partial: Partial<UserSettings>) => {
+    try {
+      await updateSettings(partial);
+      captureEvent(EVENTS.REMINDER_SCHEDULE_UPDATED, { fields_changed: Object.keys(partial) });
+    } catch (error) {
+      console.error('Error updating reminder schedule:', error);
+      Alert.alert('Error', 'Failed to update reminder schedule.');
+    }
+  };
+
   const handleToggleJournal = async () => {
     const nextEnabled = !journalEnabled;
     await updateSettings({ journal_enabled: nextEnabled });
@@ -530,10 +557,47 @@ export default function ProfileScreen() {
             </View>
             <FontAwesome name="chevron-right" size={14} color={colors.textMuted} />
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.healthCard}
+            onPress={() => router.push('/manage-routines')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.healthCardLeft}>
+              <View style={[styles.healthIconContainer, { backgroundColor: colors.primaryLightOverlay30 }]}>
+                <FontAwesome name="link" size={18} color={colors.primary} />
+              </View>
+              <View style={styles.healthInfo}>
+                <Text style={styles.healthTitle}>My Routines</Text>
+                <Text style={styles.healthStatus}>
+                  {routines.length > 0
+                    ? `${routines.length} routine${routines.length === 1 ? '' : 's'}`
+                    : 'Chain habits into a routine'}
+                </Text>
+              </View>
+            </View>
+            <FontAwesome name="chevron-right" size={14} color={colors.textMuted} />
+          </TouchableOpacity>
         </View>
 
         <View style={styles.divider} />
 
+        {/* Streaks */}
+        {habits.length > 0 && (
+          <>
+            <View style={styles.healthSection}>
+              <Text style={styles.sectionLabel}>Streaks</Text>
+              <HabitStreaksSection
+                habits={habits}
+                streaksByHabit={streakData.streaksByHabit}
+                freezeBalance={streakData.freezeBalance}
+              />
+            </View>
+
+            <View style={styles.divider} />
+          </>
+        )}
+
         {/* Features */}
         <View style={styles.healthSection}>
           <Text style={styles.sectionLabel}>Features</Text>
@@ -557,6 +621,39 @@ export default function ProfileScreen() {
               thumbColor="#f4f3f4"
             />
           </View>
+          {top3TodosEnabled && (
+            <View style={{ marginTop: theme.spacing.sm }}>
+              <Text style={[styles.healthStatus, { marginBottom: theme.spacing.xs }]}>
+                Carry over unfinished intentions
+              </Text>
+              <View style={styles.appearanceCard}>
+                {([
+                  { key: 'off', label: 'Off' },
+                  { key: 'prompt', label: 'Ask me' },
+                  { key: 'auto', label: 'Automatically' },
+                ] as const).map((option) => {
+                  const isSelected = settings.todo_carry_over === option.key;
+                  return (
+                    <TouchableOpacity
+                      key={option.key}
+                      style={[styles.appearanceOption, isSelected && styles.appearanceOptionSelected]}
+                      onPress={() => handleCarryOverChange(option.key)}
+                      activeOpacity={0.8}
+                    >
+                      <Text
+                        style={[
+                          styles.appearanceOptionText,
+                          isSelected && styles.appearanceOptionTextSelected,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
           <View style={[styles.healthCard, { marginTop: theme.spacing.sm }]}>
             <View style={styles.healthCardLeft}>
               <View style={[styles.healthIconContainer, { backgroundColor: colors.primaryLightOverlay30 }]}>
@@ -565,7 +662,7 @@ export default function ProfileScreen() {
               <View style={styles.healthInfo}>
                 <Text style={styles.healthTitle}>Daily Journal</Text>
                 <Text style={styles.healthStatus}>
-                  Reflect on wins, tensions & gratitude
+                  Reflect each day with prompts you choose
                 </Text>
               </View>
             </View>
@@ -577,6 +674,24 @@ export default function ProfileScreen() {
               thumbColor="#f4f3f4"
             />
           </View>
+          {journalEnabled && (
+            <TouchableOpacity
+              style={[styles.healthCard, { marginTop: theme.spacing.sm }]}
+              onPress={() => router.push('/journal-templates')}
+              activeOpacity={0.7}
+            >
+              <View style={styles.healthCardLeft}>
+                <View style={[styles.healthIconContainer, { backgroundColor: colors.primaryLightOverlay30 }]}>
+                  <FontAwesome name="list-alt" size={18} color={colors.primary} />
+                </View>
+                <View style={styles.healthInfo}>
+                  <Text style={styles.healthTitle}>Journal Prompts</Text>
+                  <Text style={styles.healthStatus}>Choose templates and a weekly schedule</Text>
+                </View>
+              </View>
+              <FontAwesome name="chevron-right" size={14} color={colors.textMuted} />
+            </TouchableOpacity>
+          )}
           <View style={[styles.healthCard, { marginTop: theme.spacing.sm }]}>
             <View style={styles.healthCardLeft}>
               <View style={[styles.healthIconContainer, { backgroundColor: colors.primaryLightOverlay30 }]}>
@@ -585,7 +700,9 @@ export default function ProfileScreen() {
               <View style={styles.healthInfo}>
                 <Text style={styles.healthTitle}>Daily Reminders</Text>
                 <Text style={styles.healthStatus}>
-                  8am intentions and 8pm habits check-in
+                  {top3TodosEnabled
+                    ? `${formatReminderTime(settings.intentions_reminder_time)} intentions and ${formatReminderTime(settings.checkin_reminder_time)} habits check-in`
+                    : `${formatReminderTime(settings.checkin_reminder_time)} habits check-in`}
                 </Text>
               </View>
             </View>
@@ -597,6 +714,14 @@ export default function ProfileScreen() {
               thumbColor="#f4f3f4"
             />
           </View>
+          {notificationsEnabled && (
+            <View style={{ marginTop: theme.spacing.sm }}>
+              <ReminderScheduleSection
+                settings={settings}
+                onChange={handleUpdateReminderSchedule}
+              />
+            </View>
+          )}
           <View style={[styles.healthCard, styles.eveningCallCard, { marginTop: theme.spacing.sm }]}>
             <View style={styles.eveningCallHeader}>
               <View style={styles.healthCardLeft}>
@@ -14,7 +14,7 @@ import {
 import { useQueryClient } from '@tanstack/react-query';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme, type ThemeColors } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
@@ -25,7 +25,15 @@ import {
 } from '@/lib/health';
 import { getWeekRange } from '@/lib/habits';
 import { getGoalCurrentValue } from '@/lib/goals';
-import { Goal, Habit, QualifyingWeek } from '@/lib/types';
+import {
+  Goal,
+  GoalEntry,
+  GoalMilestoneDefinition,
+  GoalStatus,
+  Habit,
+  LiftSet,
+  QualifyingWeek,
+} from '@/lib/types';
 import {
   ALL_METRICS,
   DEFAULT_VISIBLE_KEYS,
@@ -42,24 +50,32 @@ import {
 } from '@/hooks/useHealthQuery';
 import {
   useGoals,
+  useArchivedGoals,
   useCreateGoal,
   useDeleteGoal,
   useAddGoalEntry,
+  useUpdateGoalMilestones,
+  useUpdateGoalLinkedHabits,
+  useSetGoalStatus,
+  useRestartGoal,
   useRefreshGoals,
 } from '@/hooks/useGoalsQuery';
 import { useRefreshAllHabitData, useWeeklyAdherence } from '@/hooks/useHabitsQuery';
 import { useDailyTodosForRange } from '@/hooks/useDailyTodosQuery';
-import { useDailyJournalForRange } from '@/hooks/useDailyJournalQuery';
+import { useDailyJournalForRange, useJournalTemplates } from '@/hooks/useDailyJournalQuery';
 import { useUserSettings } from '@/contexts/UserSettingsContext';
 import type { HabitWeeklyStats } from '@/lib/habits';
 import GoalCard from '@/components/GoalCard';
 import GoalDetailModal from '@/components/GoalDetailModal';
 import AddGoalSheet from '@/components/AddGoalSheet';
+import GoalArchiveSection from '@/components/GoalArchiveSection';
 import Sparkline from '@/components/Sparkline';
 import MetricDetailModal from '@/components/MetricDetailModal';
 import EditMetricsSheet from '@/components/EditMetricsSheet';
 import HabitsThisWeek from '@/components/HabitsThisWeek';
 import JournalHistorySection from '@/components/JournalHistorySection';
+import MoodTrendSection from '@/components/MoodTrendSection';
+import TodoCarryOverSection from '@/components/TodoCarryOverSection';
 import WeeklyRecapBanner from '@/components/WeeklyRecapBanner';
 import WeeklyRecapDetail from '@/components/WeeklyRecapDetail';
 import WeeklyRecapsHistory from '@/components/WeeklyRecapsHistory';
@@ -189,6 +205,7 @@ export default function ProgressScreen() {
   const { user } = useAuth();
   const { isAvailable, isAuthorized, loading, metrics, connect, refresh, authFailed, missingMetrics } = useHealth();
   const { settings } = useUserSettings();
+  const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
   const [weekOffset, setWeekOffset] = useState(0);
   const [selectedRecapWeek, setSelectedRecapWeek] = useState<QualifyingWeek | null>(null);
@@ -226,6 +243,11 @@ export default function ProgressScreen() {
   const createGoalMutation = useCreateGoal();
   const deleteGoalMutation = useDeleteGoal();
   const addGoalEntryMutation = useAddGoalEntry();
+  const updateGoalMilestonesMutation = useUpdateGoalMilestones();
+  const updateGoalLinkedHabitsMutation = useUpdateGoalLinkedHabits();
+  const { data: archivedGoals = [] } = useArchivedGoals();
+  const setGoalStatusMutation = useSetGoalStatus();
+  const restartGoalMutation = useRestartGoal();
   const refreshGoals = useRefreshGoals();
   const refreshHabitData = useRefreshAllHabitData();
   const weekRange = getWeekRange(weekOffset);
@@ -253,6 +275,7 @@ export default function ProgressScreen() {
     journalHistoryRange.start,
     journalHistoryRange.end
   );
+  const { data: journalTemplates = [] } = useJournalTemplates();
 
   const top3TodoWeeklyStat = React.useMemo((): HabitWeeklyStats | null => {
     if (!top3Enabled || weekTodos.length === 0) return null;
@@ -311,6 +334,7 @@ export default function ProgressScreen() {
   const [selectedMetric, setSelectedMetric] = useState<MetricDefinition | null>(null);
   const [showEditMetrics, setShowEditMetrics] = useState(false);
   const [showJournalHistory, setShowJournalHistory] = useState(false);
+  const [showGoalArchive, setShowGoalArchive] = useState(false);
 
   // Load saved metric preferences on mount
   useEffect(() => {
@@ -377,8 +401,10 @@ export default function ProgressScreen() {
     unit: string;
     start_value?: number | null;
     start_date?: string | null;
+    target_date?: string | null;
     rate?: number | null;
     rate_unit?: string | null;
+    distance_meters?: number | null;
     data_source: 'apple_health' | 'manual';
   }) => {
     if (!user) return;
@@ -402,7 +428,16 @@ export default function ProgressScreen() {
     }
   };
 
-  const handleLogGoalEntry = async (goalId: string, value: number, date: string) => {
+  const handleLogGoalEntry = async (
+    goalId: string,
+    value: number,
+    date: string,
+    details?: {
+      sets?: LiftSet[];
+      run?: Pick<GoalEntry, 'distance_meters' | 'duration_seconds'>;
+      note?: string | null;
+    }
+  ) => {
     if (!user) return;
     try {
       const goal = goals.find((g) => g.id === goalId);
@@ -412,12 +447,72 @@ export default function ProgressScreen() {
         value,
         date,
         goalType: goal?.goal_type,
+        sets: details?.sets,
+        run: details?.run,
+        note: details?.note,
       });
     } catch (error) {
       console.error('Error logging goal entry:', error);
     }
   };
 
+  const handleUpdateGoalMilestones = async (
+    goalId: string,
+    milestones: GoalMilestoneDefinition[],
+    autoMilestones: boolean
+  ) => {
+    try {
+      const updated = await updateGoalMilestonesMutation.mutateAsync({
+        goalId,
+        milestones,
+        autoMilestones,
+      });
+      setSelectedGoal(updated);
+    } catch (error) {
+      console.error('Error updating goal milestones:', error);
+    }
+  };
+
+  const handleChangeGoalStatus = async (
+    goalId: string,
+    status: GoalStatus,
+    finalValue: number | null
+  ) => {
+    try {
+      const goal = goals.find((g) => g.id === goalId);
+      const updated = await setGoalStatusMutation.mutateAsync({
+        goalId,
+        status,
+        finalValue,
+        goalType: goal?.goal_type,
+      });
+      // Paused and resumed goals stay open; achieved and abandoned ones close
+      if (status === 'active' || status === 'paused') setSelectedGoal(updated);
+    } catch (error) {
+      console.error('Error updating goal status:', error);
+    }
+  };
+
+  const handleRestartGoal = async (goal: Goal) => {
+    if (!user) return;
+    try {
+      const restarted = await restartGoalMutation.mutateAsync({ userId: user.id, goal });
+      setShowGoalArchive(false);
+      setSelectedGoal(restarted);
+    } catch (error) {
+      console.error('Error restarting goal:', error);
+    }
+  };
+
+  const handleUpdateGoalLinkedHabits = async (goalId: string, habitIds: string[]) => {
+    try {
+      const updated = await updateGoalLinkedHabitsMutation.mutateAsync({ goalId, habitIds });
+      setSelectedGoal(updated);
+    } catch (error) {
+      console.error('Error updating goal habits:', error);
+    }
+  };
+
   const [connecting, setConnecting] = useState(false);
 
   const handleConnect = async () => {
@@ -446,6 +541,13 @@ export default function ProgressScreen() {
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Progress</Text>
+        <TouchableOpacity
+          onPress={() => router.push('/search')}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityLabel="Search history"
+        >
+          <FontAwesome name="search" size={18} color={colors.textSecondary} />
+        </TouchableOpacity>
       </View>
 
       <ScrollView
@@ -496,7 +598,7 @@ export default function ProgressScreen() {
           weekStart={weekRange.start}
           weekOffset={weekOffset}
           adherencePercent={(() => {
-            const ct = (weeklyAdherence?.completedTotal ?? 0) + (top3TodoWeeklyStat?.completedDays ?? 0);
+            const ct = (weeklyAdherence?.progressTotal ?? 0) + (top3TodoWeeklyStat?.completedDays ?? 0);
             const tt = (weeklyAdherence?.targetTotal ?? 0) + (top3TodoWeeklyStat?.targetDays ?? 0);
             return tt > 0 ? Math.min(100, Math.round((ct / tt) * 100)) : 0;
           })()}
@@ -533,6 +635,12 @@ export default function ProgressScreen() {
           </TouchableOpacity>
         )}
 
+        {/* Mood Trend (hidden until entries have ratings) */}
+        {journalEnabled && <MoodTrendSection entries={journalEntries} />}
+
+        {/* Intentions carried over (hidden until there are todos) */}
+        {top3Enabled && <TodoCarryOverSection />}
+
         {/* Goals Section */}
         <View style={styles.goalsSectionHeader}>
           <Text style={[styles.sectionLabel, { marginTop: 0, marginBottom: 0 }]}>Goals</Text>
@@ -574,6 +682,24 @@ export default function ProgressScreen() {
           </TouchableOpacity>
         )}
 
+        {/* Past Goals Row */}
+        {archivedGoals.length > 0 && (
+          <TouchableOpacity
+            style={styles.journalRow}
+            onPress={() => setShowGoalArchive(true)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.journalRowLeft}>
+              <FontAwesome name="archive" size={16} color={colors.primary} />
+              <Text style={styles.journalRowLabel}>Past Goals</Text>
+              <Text style={styles.journalRowCount}>
+                {archivedGoals.filter((g) => g.status === 'achieved').length} achieved
+              </Text>
+            </View>
+            <FontAwesome name="chevron-right" size={12} color={colors.textMuted} />
+          </TouchableOpacity>
+        )}
+
         {/* Metrics Section — gated by HealthKit access */}
         {healthReady ? (
           <>
@@ -631,6 +757,10 @@ export default function ProgressScreen() {
         onClose={() => setSelectedGoal(null)}
         onDelete={handleDeleteGoal}
         onLogEntry={handleLogGoalEntry}
+        onUpdateMilestones={handleUpdateGoalMilestones}
+        onUpdateLinkedHabits={handleUpdateGoalLinkedHabits}
+        onChangeStatus={handleChangeGoalStatus}
+        onGoalUpdated={setSelectedGoal}
       />
 
       {/* Add Goal Sheet */}
@@ -686,7 +816,30 @@ export default function ProgressScreen() {
             contentContainerStyle={{ paddingHorizontal: theme.spacing.lg, paddingBottom: theme.spacing.xl }}
             showsVerticalScrollIndicator={false}
           >
-            <JournalHistorySection entries={journalEntries} />
+            <JournalHistorySection entries={journalEntries} templates={journalTemplates} />
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Past Goals Modal */}
+      <Modal
+        visible={showGoalArchive}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowGoalArchive(false)}
+      >
+        <SafeAreaView style={styles.container}>
+          <View style={styles.journalModalHeader}>
+            <Text style={styles.headerTitle}>Past Goals</Text>
+            <TouchableOpacity onPress={() => setShowGoalArchive(false)}>
+              <FontAwesome name="times" size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView
+            contentContainerStyle={{ padding: theme.spacing.lg, paddingBottom: theme.spacing.xl }}
+            showsVerticalScrollIndicator={false}
+          >
+            <GoalArchiveSection goals={archivedGoals} onRestart={handleRestartGoal} />
           </ScrollView>
         </SafeAreaView>
       </Modal>
@@ -711,6 +864,9 @@ function createStyles(colors: ThemeColors) {
     justifyContent: 'center',
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     paddingHorizontal: theme.spacing.lg,
     paddingTop: theme.spacing.xs,
     paddingBottom: theme.spacing.sm,
@@ -5,24 +5,36 @@ import { Href, Stack, usePathname, useRouter, useSegments } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect, useRef, useState } from 'react';
-import { Platform, View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AppState, Platform, View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
 import { PostHogProvider } from 'posthog-react-native';
 
 import { QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
-import { HealthProvider } from '@/contexts/HealthContext';
+import { HealthProvider, useHealth } from '@/contexts/HealthContext';
 import { UserSettingsProvider, useUserSettings } from '@/contexts/UserSettingsContext';
 import * as Notifications from 'expo-notifications';
 import { captureEvent, EVENTS, setSuperProperties, trackScreen } from '@/lib/analytics';
 import { getAuthRedirectTarget } from '@/lib/authRouting';
-import { rescheduleNotifications, WEEKLY_RECAP_REMINDER_ID } from '@/lib/notifications';
+import {
+  refreshHabitReminders,
+  rescheduleNotifications,
+  WEEKLY_RECAP_REMINDER_ID,
+} from '@/lib/notifications';
+import {
+  flushReminderActionInvalidations,
+  getHabitReminderAction,
+  handleHabitReminderResponse,
+} from '@/lib/notificationActions';
 import { configureRevenueCat } from '@/lib/revenueCat';
 import { posthogClient } from '@/lib/posthog';
 import { queryClient } from '@/lib/queryClient';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useOTAUpdates } from '@/hooks/useOTAUpdates';
+import { useOutboxSync } from '@/hooks/useOutbox';
+import { useHealthBackgroundSync } from '@/hooks/useHealthSync';
+import { usePersistedQueryCache } from '@/hooks/usePersistedQueryCache';
 import { initSentry, captureError, Sentry } from '@/lib/sentry';
 
 initSentry();
@@ -102,12 +114,19 @@ function RootLayoutNav() {
 
   const { session, profile, loading } = useAuth();
   const { resolvedTheme } = useUserSettings();
+  const { isAuthorized: healthAuthorized } = useHealth();
   const { isActive: subscriptionActive, isLoading: subscriptionLoading } = useSubscription();
   const segments = useSegments();
   const pathname = usePathname();
   const router = useRouter();
   const lastTrackedPath = useRef<string | null>(null);
   const [hasHydratedAuth, setHasHydratedAuth] = useState(false);
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = session?.user?.id ?? null;
+
+  usePersistedQueryCache(session?.user?.id ?? null);
+  useOutboxSync(hasHydratedAuth && !!session?.user);
+  useHealthBackgroundSync(hasHydratedAuth && healthAuthorized ? session?.user?.id ?? null : null);
 
   useEffect(() => {
     configureRevenueCat();
@@ -173,8 +192,42 @@ function RootLayoutNav() {
     });
   }, [hasHydratedAuth]);
 
+  // "Done" / "Snooze" on a habit reminder: write it straight to Supabase, then
+  // refresh the caches once the app is in the foreground
+  const handleReminderAction = async (response: Notifications.NotificationResponse) => {
+    const action = getHabitReminderAction(response.actionIdentifier);
+    const userId = userIdRef.current;
+    if (!action || !userId) return;
+
+    try {
+      const result = await handleHabitReminderResponse(
+        {
+          notificationId: response.notification.request.identifier,
+          actionIdentifier: response.actionIdentifier,
+          data: response.notification.request.content.data,
+        },
+        userId,
+      );
+      if (result === 'ignored') return;
+
+      captureEvent(EVENTS.NOTIFICATION_ACTION_TAKEN, { action, result });
+      if (AppState.currentState === 'active') {
+        flushReminderActionInvalidations(queryClient);
+      }
+      await refreshHabitReminders();
+    } catch (error) {
+      console.error('Error handling reminder action:', error);
+      captureError(error, { tag: 'notifications.action' });
+    }
+  };
+
   useEffect(() => {
     const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      if (getHabitReminderAction(response.actionIdentifier)) {
+        handleReminderAction(response);
+        return;
+      }
+
       const reminderId =
         (response.notification.request.content.data?.reminder_id as string) ?? 'unknown';
       captureEvent(EVENTS.NOTIFICATION_OPENED, { reminder_id: reminderId });
@@ -186,6 +239,29 @@ function RootLayoutNav() {
     return () => subscription.remove();
   }, [router]);
 
+  // An action tapped while the app wasn't running is only delivered here
+  useEffect(() => {
+    if (!hasHydratedAuth || !session?.user) return;
+
+    Notifications.getLastNotificationResponseAsync()
+      .then(async (response) => {
+        if (!response || !getHabitReminderAction(response.actionIdentifier)) return;
+        // Clear it so the same action isn't replayed on the next launch
+        await Notifications.clearLastNotificationResponseAsync();
+        await handleReminderAction(response);
+      })
+      .catch((error) => {
+        console.error('Error reading last notification response:', error);
+      });
+  }, [hasHydratedAuth, session?.user?.id]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') flushReminderActionInvalidations(queryClient);
+    });
+    return () => subscription.remove();
+  }, []);
+
   return (
     <>
       <StatusBar style={resolvedTheme === 'dark' ? 'light' : 'dark'} />
@@ -195,6 +271,9 @@ function RootLayoutNav() {
         <Stack.Screen name="(tabs)" />
         <Stack.Screen name="identity-setup" options={{ presentation: 'modal' }} />
         <Stack.Screen name="manage-habits" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="manage-routines" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="journal-templates" options={{ presentation: 'modal' }} />
+        <Stack.Screen name="search" options={{ presentation: 'modal' }} />
       </Stack>
     </>
   );
@@ -0,0 +1,434 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserSettings } from '@/contexts/UserSettingsContext';
+import { DAY_LABELS_FULL, DayOfWeek, JournalTemplate } from '@/lib/types';
+import { DEFAULT_JOURNAL_TEMPLATE_ID } from '@/lib/journalTemplates';
+import {
+  useJournalTemplates,
+  useCreateJournalTemplate,
+  useUpdateJournalTemplate,
+  useDeleteJournalTemplate,
+} from '@/hooks/useDailyJournalQuery';
+import JournalTemplateForm, { type JournalTemplateFormData } from '@/components/JournalTemplateForm';
+import AppHeader from '@/components/AppHeader';
+
+const WEEKDAYS: DayOfWeek[] = [1, 2, 3, 4, 5, 6, 0];
+
+function describePrompts(template: JournalTemplate): string {
+  const count = template.prompts.length;
+  if (template.prompts_per_day && template.prompts_per_day < count) {
+    return `${template.prompts_per_day} of ${count} prompts a day, rotating`;
+  }
+  if (count === 1) return 'Free-form entry';
+  return template.prompts.map((p) => p.label).join(' · ');
+}
+
+export default function JournalTemplatesScreen() {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { user } = useAuth();
+  const { settings, updateSettings } = useUserSettings();
+  const [showForm, setShowForm] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<JournalTemplate | null>(null);
+  const [schedulingDay, setSchedulingDay] = useState<DayOfWeek | null>(null);
+
+  // ── Queries & mutations (cached) ──
+  const { data: templates = [], isLoading: loading } = useJournalTemplates();
+  const createMutation = useCreateJournalTemplate();
+  const updateMutation = useUpdateJournalTemplate();
+  const deleteMutation = useDeleteJournalTemplate();
+
+  const defaultTemplateId = settings.journal_template_id ?? DEFAULT_JOURNAL_TEMPLATE_ID;
+  const schedule = settings.journal_template_schedule;
+  const templateById = useMemo(() => new Map(templates.map((t) => [t.id, t])), [templates]);
+
+  const handleCreate = async (data: JournalTemplateFormData) => {
+    if (!user) return;
+    try {
+      await createMutation.mutateAsync({
+        userId: user.id,
+        template: { ...data, sort_order: templates.length },
+      });
+      setShowForm(false);
+    } catch (error) {
+      console.error('Error creating journal template:', error);
+      Alert.alert('Error', 'Failed to create template');
+    }
+  };
+
+  const handleUpdate = async (data: JournalTemplateFormData) => {
+    if (!editingTemplate) return;
+    try {
+      await updateMutation.mutateAsync({ id: editingTemplate.id, updates: data });
+      setEditingTemplate(null);
+    } catch (error) {
+      console.error('Error updating journal template:', error);
+      Alert.alert('Error', 'Failed to update template');
+    }
+  };
+
+  const handleDelete = (template: JournalTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete "${template.name}"? Past entries keep their answers.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteMutation.mutateAsync({ id: template.id });
+              // Days that used it fall back to the default template
+              const nextSchedule = Object.fromEntries(
+                Object.entries(schedule).filter(([, id]) => id !== template.id)
+              );
+              await updateSettings({
+                journal_template_id:
+                  settings.journal_template_id === template.id ? null : settings.journal_template_id,
+                journal_template_schedule: nextSchedule,
+              });
+            } catch (error) {
+              console.error('Error deleting journal template:', error);
+              Alert.alert('Error', 'Failed to delete template');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const setDefaultTemplate = (template: JournalTemplate) => {
+    updateSettings({
+      journal_template_id: template.id === DEFAULT_JOURNAL_TEMPLATE_ID ? null : template.id,
+    });
+  };
+
+  const setDayTemplate = (day: DayOfWeek, templateId: string | null) => {
+    const nextSchedule = { ...schedule };
+    if (templateId) nextSchedule[day] = templateId;
+    else delete nextSchedule[day];
+    updateSettings({ journal_template_schedule: nextSchedule });
+    setSchedulingDay(null);
+  };
+
+  // Only show full-screen spinner on very first load (no cached data)
+  if (loading && templates.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <AppHeader
+        title="Journal Prompts"
+        rightAction={{ icon: 'plus', onPress: () => setShowForm(true) }}
+      />
+
+      <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionLabel}>Templates</Text>
+        <Text style={styles.sectionHint}>Tap a template to journal with it by default</Text>
+        {templates.map((template) => {
+          const isDefault = template.id === defaultTemplateId;
+          return (
+            <TouchableOpacity
+              key={template.id}
+              style={[styles.templateCard, isDefault && styles.templateCardSelected]}
+              onPress={() => setDefaultTemplate(template)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.templateHeader}>
+                <Text style={styles.templateEmoji}>{template.emoji}</Text>
+                <Text style={styles.templateName} numberOfLines={1}>
+                  {template.name}
+                </Text>
+                {isDefault && <Text style={styles.defaultBadge}>Default</Text>}
+                {template.user_id && (
+                  <>
+                    <TouchableOpacity
+                      onPress={() => setEditingTemplate(template)}
+                      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    >
+                      <FontAwesome name="pencil" size={16} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleDelete(template)}
+                      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    >
+                      <FontAwesome name="trash-o" size={16} color={colors.textMuted} />
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+              <Text style={styles.templatePrompts} numberOfLines={2}>
+                {describePrompts(template)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setShowForm(true)}
+          activeOpacity={0.8}
+        >
+          <FontAwesome name="plus" size={16} color="#fff" style={{ marginRight: 8 }} />
+          <Text style={styles.addButtonText}>Add Template</Text>
+        </TouchableOpacity>
+
+        <Text style={[styles.sectionLabel, { marginTop: theme.spacing.xl }]}>Weekly Schedule</Text>
+        <Text style={styles.sectionHint}>Use a different template on some days, like a work retro on Fridays</Text>
+        {WEEKDAYS.map((day) => {
+          const scheduled = schedule[day] ? templateById.get(schedule[day]!) : undefined;
+          return (
+            <View key={day} style={styles.scheduleCard}>
+              <TouchableOpacity
+                style={styles.scheduleRow}
+                onPress={() => setSchedulingDay(schedulingDay === day ? null : day)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.scheduleDay}>{DAY_LABELS_FULL[day]}</Text>
+                <Text style={[styles.scheduleValue, !scheduled && styles.scheduleValueMuted]}>
+                  {scheduled ? `${scheduled.emoji} ${scheduled.name}` : 'Default'}
+                </Text>
+                <FontAwesome
+                  name={schedulingDay === day ? 'chevron-up' : 'chevron-down'}
+                  size={12}
+                  color={colors.textMuted}
+                />
+              </TouchableOpacity>
+              {schedulingDay === day && (
+                <View style={styles.chipRow}>
+                  <TouchableOpacity
+                    style={[styles.chip, !scheduled && styles.chipSelected]}
+                    onPress={() => setDayTemplate(day, null)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.chipText}>Default</Text>
+                  </TouchableOpacity>
+                  {templates.map((template) => (
+                    <TouchableOpacity
+                      key={template.id}
+                      style={[styles.chip, scheduled?.id === template.id && styles.chipSelected]}
+                      onPress={() => setDayTemplate(day, template.id)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={styles.chipText}>
+                        {template.emoji} {template.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {/* Add Template Modal */}
+      <Modal
+        visible={showForm}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowForm(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <AppHeader title="New Template" onBack={() => setShowForm(false)} />
+          <View style={styles.modalContent}>
+            <JournalTemplateForm
+              onSubmit={handleCreate}
+              onCancel={() => setShowForm(false)}
+              submitLabel="Create Template"
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Edit Template Modal */}
+      <Modal
+        visible={editingTemplate !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setEditingTemplate(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <AppHeader title="Edit Template" onBack={() => setEditingTemplate(null)} />
+          <View style={styles.modalContent}>
+            {editingTemplate && (
+              <JournalTemplateForm
+                initialData={{
+                  name: editingTemplate.name,
+                  emoji: editingTemplate.emoji,
+                  prompts: editingTemplate.prompts,
+                  prompts_per_day: editingTemplate.prompts_per_day,
+                }}
+                onSubmit={handleUpdate}
+                onCancel={() => setEditingTemplate(null)}
+                submitLabel="Update Template"
+              />
+            )}
+          </View>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.background,
+    },
+    list: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.xl,
+    },
+    sectionLabel: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+      marginBottom: theme.spacing.xs,
+    },
+    sectionHint: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      marginBottom: theme.spacing.md,
+    },
+    templateCard: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      padding: theme.spacing.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: theme.spacing.sm,
+      gap: theme.spacing.xs,
+    },
+    templateCardSelected: {
+      borderColor: colors.primary,
+    },
+    templateHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.md,
+    },
+    templateEmoji: {
+      fontSize: 18,
+    },
+    templateName: {
+      flex: 1,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    defaultBadge: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+    templatePrompts: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    scheduleCard: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: theme.spacing.xs,
+    },
+    scheduleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm + 2,
+    },
+    scheduleDay: {
+      width: 96,
+      fontSize: theme.fontSize.md,
+      color: colors.textPrimary,
+    },
+    scheduleValue: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    scheduleValueMuted: {
+      color: colors.textMuted,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.md,
+      paddingBottom: theme.spacing.md,
+    },
+    chip: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.full,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primaryLightOverlay25,
+    },
+    chipText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+      paddingVertical: theme.spacing.md,
+      paddingHorizontal: theme.spacing.lg,
+      borderRadius: theme.borderRadius.md,
+      marginTop: theme.spacing.sm,
+      ...theme.shadow.md,
+    },
+    addButtonText: {
+      color: '#fff',
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+    },
+    modalContainer: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    modalContent: {
+      flex: 1,
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+    },
+  });
+}
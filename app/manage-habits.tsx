@@ -16,13 +16,17 @@ import { router } from 'expo-router';
 import { theme, type ThemeColors } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
 import { useAuth } from '@/contexts/AuthContext';
-import { Habit, HealthMetricType } from '@/lib/types';
+import { Habit, HabitRecurrence, HabitType, HealthMetricType } from '@/lib/types';
 import {
   useHabits,
   useCreateHabit,
   useUpdateHabit,
   useDeleteHabit,
+  useSlips,
+  useHabitStreaks,
+  useApplyStreakFreeze,
 } from '@/hooks/useHabitsQuery';
+import { computeAbstinenceStats, isAvoidHabit } from '@/lib/habits';
 import HabitItem from '@/components/HabitItem';
 import HabitForm from '@/components/HabitForm';
 import AppHeader from '@/components/AppHeader';
@@ -37,6 +41,9 @@ export default function ManageHabitsScreen() {
 
   // ── Queries & mutations (cached) ──
   const { data: habits = [], isLoading: loading, refetch } = useHabits();
+  const { data: slips = [] } = useSlips();
+  const { data: streakData } = useHabitStreaks();
+  const applyFreezeMutation = useApplyStreakFreeze();
   const createMutation = useCreateHabit();
   const updateMutation = useUpdateHabit();
   const deleteMutation = useDeleteHabit();
@@ -55,6 +62,12 @@ export default function ManageHabitsScreen() {
     metric_type: HealthMetricType | null;
     metric_threshold: number | null;
     auto_complete: boolean;
+    target_amount: number | null;
+    unit: string | null;
+    recurrence: HabitRecurrence | null;
+    habit_type: HabitType;
+    reminder_times: string[] | null;
+    reminder_days: number[] | null;
   }) => {
     if (!user) return;
     try {
@@ -68,6 +81,12 @@ export default function ManageHabitsScreen() {
           metric_type: data.metric_type,
           metric_threshold: data.metric_threshold,
           auto_complete: data.auto_complete,
+          target_amount: data.target_amount,
+          unit: data.unit,
+          recurrence: data.recurrence,
+          habit_type: data.habit_type,
+          reminder_times: data.reminder_times,
+          reminder_days: data.reminder_days,
         },
       });
       setShowForm(false);
@@ -85,6 +104,12 @@ export default function ManageHabitsScreen() {
     metric_type: HealthMetricType | null;
     metric_threshold: number | null;
     auto_complete: boolean;
+    target_amount: number | null;
+    unit: string | null;
+    recurrence: HabitRecurrence | null;
+    habit_type: HabitType;
+    reminder_times: string[] | null;
+    reminder_days: number[] | null;
   }) => {
     if (!editingHabit) return;
     try {
@@ -98,6 +123,12 @@ export default function ManageHabitsScreen() {
           metric_type: data.metric_type,
           metric_threshold: data.metric_threshold,
           auto_complete: data.auto_complete,
+          target_amount: data.target_amount,
+          unit: data.unit,
+          recurrence: data.recurrence,
+          habit_type: data.habit_type,
+          reminder_times: data.reminder_times,
+          reminder_days: data.reminder_days,
         },
       });
       setEditingHabit(null);
@@ -107,6 +138,34 @@ export default function ManageHabitsScreen() {
     }
   };
 
+  const handleUseFreeze = (habit: Habit) => {
+    const streak = streakData.streaksByHabit[habit.id];
+    if (!user || !streak?.repairablePeriod) return;
+    const periodStart = streak.repairablePeriod;
+    Alert.alert(
+      'Use a streak freeze?',
+      `You have ${streakData.freezeBalance} freeze${streakData.freezeBalance === 1 ? '' : 's'}. ` +
+        `Using one covers the missed ${streak.unit} so your "${habit.name}" streak carries on.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Use Freeze',
+          onPress: () =>
+            applyFreezeMutation.mutate(
+              {
+                habitId: habit.id,
+                userId: user.id,
+                periodStart,
+                unit: streak.unit,
+                habitName: habit.name,
+              },
+              { onError: () => Alert.alert('Error', 'Failed to use streak freeze') }
+            ),
+        },
+      ]
+    );
+  };
+
   const handleDelete = (habit: Habit) => {
     Alert.alert('Delete Habit', `Are you sure you want to delete "${habit.name}"?`, [
       { text: 'Cancel', style: 'cancel' },
@@ -168,6 +227,9 @@ export default function ManageHabitsScreen() {
             <View style={styles.itemWrapper}>
               <HabitItem
                 habit={item}
+                abstinence={isAvoidHabit(item) ? computeAbstinenceStats(item, slips) : undefined}
+                streak={isAvoidHabit(item) ? undefined : streakData.streaksByHabit[item.id]}
+                onUseFreeze={streakData.freezeBalance > 0 ? () => handleUseFreeze(item) : undefined}
                 onEdit={() => setEditingHabit(item)}
                 onDelete={() => handleDelete(item)}
               />
@@ -234,6 +296,12 @@ export default function ManageHabitsScreen() {
                   metric_type: editingHabit.metric_type,
                   metric_threshold: editingHabit.metric_threshold,
                   auto_complete: editingHabit.auto_complete,
+                  target_amount: editingHabit.target_amount ?? null,
+                  unit: editingHabit.unit ?? null,
+                  recurrence: editingHabit.recurrence ?? null,
+                  habit_type: editingHabit.habit_type ?? 'build',
+                  reminder_times: editingHabit.reminder_times ?? null,
+                  reminder_days: editingHabit.reminder_days ?? null,
                 }}
                 onSubmit={handleUpdate}
                 onCancel={() => setEditingHabit(null)}
@@ -0,0 +1,314 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useAuth } from '@/contexts/AuthContext';
+import { Routine } from '@/lib/types';
+import { getRoutineHabits } from '@/lib/routines';
+import { useHabits } from '@/hooks/useHabitsQuery';
+import {
+  useRoutines,
+  useCreateRoutine,
+  useUpdateRoutine,
+  useDeleteRoutine,
+} from '@/hooks/useRoutinesQuery';
+import RoutineForm from '@/components/RoutineForm';
+import AppHeader from '@/components/AppHeader';
+
+export default function ManageRoutinesScreen() {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { user } = useAuth();
+  const [showForm, setShowForm] = useState(false);
+  const [editingRoutine, setEditingRoutine] = useState<Routine | null>(null);
+
+  // ── Queries & mutations (cached) ──
+  const { data: routines = [], isLoading: loading } = useRoutines();
+  const { data: habits = [] } = useHabits();
+  const createMutation = useCreateRoutine();
+  const updateMutation = useUpdateRoutine();
+  const deleteMutation = useDeleteRoutine();
+
+  const handleCreate = async (data: { name: string; habitIds: string[] }) => {
+    if (!user) return;
+    try {
+      await createMutation.mutateAsync({
+        userId: user.id,
+        routine: { name: data.name, sort_order: routines.length },
+        habitIds: data.habitIds,
+      });
+      setShowForm(false);
+    } catch (error) {
+      console.error('Error creating routine:', error);
+      Alert.alert('Error', 'Failed to create routine');
+    }
+  };
+
+  const handleUpdate = async (data: { name: string; habitIds: string[] }) => {
+    if (!editingRoutine) return;
+    try {
+      await updateMutation.mutateAsync({
+        id: editingRoutine.id,
+        updates: { name: data.name },
+        habitIds: data.habitIds,
+        previousHabitIds: getRoutineHabits(editingRoutine, habits).map((h) => h.id),
+      });
+      setEditingRoutine(null);
+    } catch (error) {
+      console.error('Error updating routine:', error);
+      Alert.alert('Error', 'Failed to update routine');
+    }
+  };
+
+  const handleDelete = (routine: Routine) => {
+    Alert.alert(
+      'Delete Routine',
+      `Delete "${routine.name}"? Its habits stay on your list.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteMutation.mutateAsync({ id: routine.id });
+            } catch (error) {
+              console.error('Error deleting routine:', error);
+              Alert.alert('Error', 'Failed to delete routine');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Only show full-screen spinner on very first load (no cached data)
+  if (loading && routines.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  const renderRoutine = ({ item }: { item: Routine }) => {
+    const steps = getRoutineHabits(item, habits);
+    return (
+      <View style={styles.routineCard}>
+        <View style={styles.routineHeader}>
+          <Text style={styles.routineName} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <TouchableOpacity
+            onPress={() => setEditingRoutine(item)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <FontAwesome name="pencil" size={16} color={colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleDelete(item)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <FontAwesome name="trash-o" size={16} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.routineSteps} numberOfLines={2}>
+          {steps.length > 0 ? steps.map((h) => h.name).join(' → ') : 'No steps yet'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <AppHeader
+        title="My Routines"
+        rightAction={{ icon: 'plus', onPress: () => setShowForm(true) }}
+      />
+
+      {routines.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyEmoji}>🔗</Text>
+          <Text style={styles.emptyTitle}>No routines yet</Text>
+          <Text style={styles.emptySubtitle}>
+            Chain habits you do together — like a morning or evening routine — and run through them step by step
+          </Text>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => setShowForm(true)}
+            activeOpacity={0.8}
+          >
+            <FontAwesome name="plus" size={16} color="#fff" style={{ marginRight: 8 }} />
+            <Text style={styles.addButtonText}>Add Routine</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={routines}
+          keyExtractor={(item) => item.id}
+          renderItem={renderRoutine}
+          ListFooterComponent={
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setShowForm(true)}
+              activeOpacity={0.8}
+            >
+              <FontAwesome name="plus" size={16} color="#fff" style={{ marginRight: 8 }} />
+              <Text style={styles.addButtonText}>Add Routine</Text>
+            </TouchableOpacity>
+          }
+          contentContainerStyle={styles.list}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+
+      {/* Add Routine Modal */}
+      <Modal
+        visible={showForm}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowForm(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <AppHeader title="New Routine" onBack={() => setShowForm(false)} />
+          <View style={styles.modalContent}>
+            <RoutineForm
+              habits={habits}
+              onSubmit={handleCreate}
+              onCancel={() => setShowForm(false)}
+              submitLabel="Create Routine"
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Edit Routine Modal */}
+      <Modal
+        visible={editingRoutine !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setEditingRoutine(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <AppHeader title="Edit Routine" onBack={() => setEditingRoutine(null)} />
+          <View style={styles.modalContent}>
+            {editingRoutine && (
+              <RoutineForm
+                habits={habits}
+                routineId={editingRoutine.id}
+                initialData={{
+                  name: editingRoutine.name,
+                  habitIds: getRoutineHabits(editingRoutine, habits).map((h) => h.id),
+                }}
+                onSubmit={handleUpdate}
+                onCancel={() => setEditingRoutine(null)}
+                submitLabel="Update Routine"
+              />
+            )}
+          </View>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.background,
+    },
+    list: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.lg,
+    },
+    routineCard: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      padding: theme.spacing.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: theme.spacing.sm,
+      gap: theme.spacing.xs,
+    },
+    routineHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.md,
+    },
+    routineName: {
+      flex: 1,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    routineSteps: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    emptyState: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingHorizontal: theme.spacing.xl,
+    },
+    emptyEmoji: {
+      fontSize: 56,
+      marginBottom: theme.spacing.md,
+    },
+    emptyTitle: {
+      fontSize: theme.fontSize.xl,
+      fontWeight: theme.fontWeight.bold,
+      color: colors.textPrimary,
+      marginBottom: theme.spacing.xs,
+    },
+    emptySubtitle: {
+      fontSize: theme.fontSize.md,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 22,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+      paddingVertical: theme.spacing.md,
+      paddingHorizontal: theme.spacing.lg,
+      borderRadius: theme.borderRadius.md,
+      marginTop: theme.spacing.lg,
+      ...theme.shadow.md,
+    },
+    addButtonText: {
+      color: '#fff',
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+    },
+    modalContainer: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    modalContent: {
+      flex: 1,
+      paddingHorizontal: theme.spacing.lg,
+      paddingTop: theme.spacing.lg,
+    },
+  });
+}
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Keyboard,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, type Href } from 'expo-router';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useHistorySearch } from '@/hooks/useSearchQuery';
+import { useWeeklyRecaps } from '@/hooks/useWeeklyRecapsQuery';
+import { MIN_SEARCH_QUERY_LENGTH, splitSearchSnippet } from '@/lib/search';
+import { captureEvent, EVENTS } from '@/lib/analytics';
+import type { QualifyingWeek, SearchResult, SearchResultKind } from '@/lib/types';
+import AppHeader from '@/components/AppHeader';
+import WeeklyRecapDetail from '@/components/WeeklyRecapDetail';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+type KindFilter = 'all' | SearchResultKind;
+
+const FILTERS: { key: KindFilter; label: string }[] = [
+  { key: 'all', label: 'All' },
+  { key: 'journal', label: 'Journal' },
+  { key: 'todo', label: 'Todos' },
+  { key: 'recap', label: 'Recaps' },
+];
+
+const KIND_ICONS: Record<SearchResultKind, React.ComponentProps<typeof FontAwesome>['name']> = {
+  journal: 'book',
+  todo: 'check-square-o',
+  recap: 'star',
+};
+
+function formatResultDate(result: SearchResult): string {
+  const date = new Date(result.result_date + 'T12:00:00');
+  const label = date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return result.kind === 'recap' ? `Week of ${label}` : label;
+}
+
+export default function SearchScreen() {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const router = useRouter();
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<KindFilter>('all');
+  const [openRecapWeek, setOpenRecapWeek] = useState<QualifyingWeek | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const { data: results = [], isFetching, isError } = useHistorySearch(query);
+  const { data: recaps = [] } = useWeeklyRecaps();
+
+  const visibleResults = useMemo(
+    () => (filter === 'all' ? results : results.filter((r) => r.kind === filter)),
+    [results, filter],
+  );
+  const hasQuery = query.trim().length >= MIN_SEARCH_QUERY_LENGTH;
+
+  const openResult = (result: SearchResult, position: number) => {
+    captureEvent(EVENTS.SEARCH_RESULT_OPENED, { kind: result.kind, position });
+    Keyboard.dismiss();
+
+    if (result.kind === 'recap') {
+      const recap = recaps.find((r) => r.id === result.id);
+      if (!recap) return;
+      setOpenRecapWeek({
+        week_start: recap.week_start,
+        week_end: recap.week_end,
+        active_days: 0,
+        recap,
+      });
+      return;
+    }
+
+    // Back to the Today tab with the day selected in the calendar strip
+    router.dismissTo({
+      pathname: '/(tabs)',
+      params: { date: result.result_date, at: String(Date.now()) },
+    } as Href);
+  };
+
+  const renderResult = ({ item, index }: { item: SearchResult; index: number }) => (
+    <TouchableOpacity
+      style={styles.resultCard}
+      onPress={() => openResult(item, index)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.resultHeader}>
+        <View style={styles.resultIconCircle}>
+          <FontAwesome name={KIND_ICONS[item.kind]} size={11} color={colors.primary} />
+        </View>
+        <Text style={styles.resultDate}>{formatResultDate(item)}</Text>
+        <FontAwesome name="chevron-right" size={12} color={colors.textMuted} />
+      </View>
+      <Text style={styles.resultSnippet} numberOfLines={3}>
+        {splitSearchSnippet(item.snippet).map((part, i) =>
+          part.highlighted ? (
+            <Text key={i} style={styles.resultHighlight}>
+              {part.text}
+            </Text>
+          ) : (
+            part.text
+          ),
+        )}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <AppHeader title="Search" />
+
+      <View style={styles.searchBar}>
+        <FontAwesome name="search" size={14} color={colors.textMuted} />
+        <TextInput
+          style={styles.searchInput}
+          value={input}
+          onChangeText={setInput}
+          placeholder="Search journal, todos and recaps"
+          placeholderTextColor={colors.textMuted}
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+          onSubmitEditing={() => setQuery(input)}
+          clearButtonMode="while-editing"
+        />
+        {isFetching && <ActivityIndicator size="small" color={colors.textMuted} />}
+      </View>
+
+      <View style={styles.filters}>
+        {FILTERS.map((f) => {
+          const selected = f.key === filter;
+          return (
+            <TouchableOpacity
+              key={f.key}
+              style={[styles.filterChip, selected && styles.filterChipSelected]}
+              onPress={() => setFilter(f.key)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.filterText, selected && styles.filterTextSelected]}>
+                {f.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <FlatList
+        data={hasQuery ? visibleResults : []}
+        keyExtractor={(item) => `${item.kind}-${item.id}`}
+        renderItem={renderResult}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {!hasQuery
+              ? 'Find past journal entries, todos and weekly recaps. Use "quotes" for exact phrases.'
+              : isError
+                ? "Couldn't search right now. Check your connection and try again."
+                : isFetching
+                  ? ''
+                  : `No matches for "${query.trim()}"`}
+          </Text>
+        }
+      />
+
+      <WeeklyRecapDetail
+        visible={openRecapWeek !== null}
+        week={openRecapWeek}
+        onClose={() => setOpenRecapWeek(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    searchBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      marginHorizontal: theme.spacing.lg,
+      marginTop: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: theme.spacing.sm,
+      fontSize: theme.fontSize.md,
+      color: colors.textPrimary,
+    },
+    filters: {
+      flexDirection: 'row',
+      gap: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.lg,
+      paddingVertical: theme.spacing.sm,
+    },
+    filterChip: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.xs,
+      borderRadius: theme.borderRadius.full,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    filterChipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primaryLightOverlay25,
+    },
+    filterText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    filterTextSelected: {
+      color: colors.primary,
+      fontWeight: theme.fontWeight.semibold,
+    },
+    list: {
+      paddingHorizontal: theme.spacing.lg,
+      paddingBottom: theme.spacing.xxl,
+      gap: theme.spacing.sm,
+    },
+    resultCard: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      padding: theme.spacing.md,
+      gap: theme.spacing.xs,
+      ...theme.shadow.sm,
+    },
+    resultHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+    },
+    resultIconCircle: {
+      width: 24,
+      height: 24,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primaryLightOverlay25,
+    },
+    resultDate: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    resultSnippet: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      lineHeight: 20,
+    },
+    resultHighlight: {
+      color: colors.textPrimary,
+      fontWeight: theme.fontWeight.semibold,
+      backgroundColor: colors.warningOverlay18,
+    },
+    emptyText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: theme.spacing.xl,
+      paddingHorizontal: theme.spacing.lg,
+    },
+  });
+}
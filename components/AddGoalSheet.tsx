@@ -16,6 +16,7 @@ import { useThemeColors } from '@/hooks/useTheme';
 import type { ThemeColors } from '@/lib/theme';
 import AppHeader from '@/components/AppHeader';
 import { GoalType, GOAL_TYPE_LABELS, GOAL_TYPE_ICONS, GOAL_TYPE_COLORS } from '@/lib/types';
+import { DURATION_UNIT, RUNNING_DISTANCES, formatPace, parseDuration } from '@/lib/goalMath';
 
 // ──────────────────────────────────────────────
 // Goal template definitions
@@ -29,6 +30,8 @@ interface GoalTemplate {
   dataSource: 'apple_health' | 'manual';
   defaultUnit: string;
   description: string;
+  defaultTitle?: string;
+  defaultTarget?: string;
 }
 
 const GOAL_TEMPLATES: GoalTemplate[] = [
@@ -74,9 +77,18 @@ const GOAL_TEMPLATES: GoalTemplate[] = [
     icon: 'clock-o',
     color: '#FF5722',
     dataSource: 'manual',
-    defaultUnit: 'mm:ss',
+    defaultUnit: DURATION_UNIT,
     description: 'Set a target time for a running distance',
   },
+  {
+    type: 'strength_pr',
+    label: 'Lift PR',
+    icon: 'trophy',
+    color: '#8D6E63',
+    dataSource: 'manual',
+    defaultUnit: 'lbs',
+    description: 'Log weight × reps and track your estimated one-rep max',
+  },
   {
     type: 'resting_hr',
     label: 'Resting Heart Rate',
@@ -86,6 +98,37 @@ const GOAL_TEMPLATES: GoalTemplate[] = [
     defaultUnit: 'bpm',
     description: 'Lower your resting heart rate',
   },
+  {
+    type: 'cumulative',
+    label: 'Distance This Year',
+    icon: 'road',
+    color: '#26A69A',
+    dataSource: 'manual',
+    defaultUnit: 'miles',
+    description: 'Add up every run toward a yearly total, e.g. 500 miles',
+    defaultTitle: 'Run 500 miles',
+    defaultTarget: '500',
+  },
+  {
+    type: 'cumulative',
+    label: 'Books This Year',
+    icon: 'book',
+    color: '#26A69A',
+    dataSource: 'manual',
+    defaultUnit: 'books',
+    description: 'Count each book you finish toward a reading goal',
+    defaultTitle: 'Read 24 books',
+    defaultTarget: '24',
+  },
+  {
+    type: 'cumulative',
+    label: 'Running Total',
+    icon: 'plus-circle',
+    color: '#26A69A',
+    dataSource: 'manual',
+    defaultUnit: '',
+    description: 'Anything that adds up over a period — hours practiced, pages written',
+  },
   {
     type: 'custom',
     label: 'Custom Goal',
@@ -97,14 +140,7 @@ const GOAL_TEMPLATES: GoalTemplate[] = [
   },
 ];
 
-const RUNNING_DISTANCES = [
-  { label: '1 Mile', value: '1 Mile' },
-  { label: '3 Miles', value: '3 Miles' },
-  { label: '5K', value: '5K' },
-  { label: '10K', value: '10K' },
-  { label: 'Half Marathon', value: 'Half Marathon' },
-  { label: 'Marathon', value: 'Marathon' },
-];
+const LIFTS = ['Bench Press', 'Squat', 'Deadlift', 'Overhead Press'];
 
 const WEIGHT_RATES = [
   { label: '0.5 lbs/week', value: 0.5 },
@@ -145,6 +181,52 @@ const START_DATE_PRESETS = [
   { id: 'custom', label: 'Custom', getDate: () => new Date() },
 ];
 
+// Periods a cumulative goal can add up over. The goal runs from the period's
+// start (start_date) to its last day (target_date).
+const CUMULATIVE_PERIODS = [
+  {
+    id: 'year',
+    label: 'This year',
+    getRange: () => {
+      const now = new Date();
+      return { start: new Date(now.getFullYear(), 0, 1), end: new Date(now.getFullYear(), 11, 31) };
+    },
+  },
+  {
+    id: 'quarter',
+    label: 'This quarter',
+    getRange: () => {
+      const now = new Date();
+      const firstMonth = Math.floor(now.getMonth() / 3) * 3;
+      return {
+        start: new Date(now.getFullYear(), firstMonth, 1),
+        end: new Date(now.getFullYear(), firstMonth + 3, 0),
+      };
+    },
+  },
+  {
+    id: 'month',
+    label: 'This month',
+    getRange: () => {
+      const now = new Date();
+      return {
+        start: new Date(now.getFullYear(), now.getMonth(), 1),
+        end: new Date(now.getFullYear(), now.getMonth() + 1, 0),
+      };
+    },
+  },
+  {
+    id: '12w',
+    label: 'Next 12 weeks',
+    getRange: () => {
+      const start = new Date();
+      const end = new Date();
+      end.setDate(end.getDate() + 12 * 7 - 1);
+      return { start, end };
+    },
+  },
+];
+
 function parseDateInput(text: string): Date | null {
   // Accept MM/DD/YYYY
   const match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
@@ -183,8 +265,10 @@ interface AddGoalSheetProps {
     unit: string;
     start_value?: number | null;
     start_date?: string | null;
+    target_date?: string | null;
     rate?: number | null;
     rate_unit?: string | null;
+    distance_meters?: number | null;
     data_source: 'apple_health' | 'manual';
   }) => void;
   /** Current weight from Apple Health (auto-fill) */
@@ -221,9 +305,19 @@ export default function AddGoalSheet({
   const [unit, setUnit] = useState('');
   const [selectedRate, setSelectedRate] = useState<number>(1);
   const [selectedDistance, setSelectedDistance] = useState('3 Miles');
+  const [selectedLift, setSelectedLift] = useState(LIFTS[0]);
   const [startDate, setStartDate] = useState<Date>(new Date());
   const [startDatePreset, setStartDatePreset] = useState<string>('today');
   const [customDateText, setCustomDateText] = useState('');
+  const [periodId, setPeriodId] = useState('year');
+
+  const isCumulative = selectedTemplate?.type === 'cumulative';
+  const isRunning = selectedTemplate?.type === 'running_pr';
+  const distanceMeters =
+    RUNNING_DISTANCES.find((d) => d.label === selectedDistance)?.meters ?? null;
+  // Running PR times are entered as m:ss or h:mm:ss and stored in seconds
+  const parseFormValue = (text: string): number =>
+    isRunning ? parseDuration(text) ?? NaN : parseFloat(text);
 
   const resetForm = () => {
     setStep('pick');
@@ -234,9 +328,11 @@ export default function AddGoalSheet({
     setUnit('');
     setSelectedRate(1);
     setSelectedDistance('3 Miles');
+    setSelectedLift(LIFTS[0]);
     setStartDate(new Date());
     setStartDatePreset('today');
     setCustomDateText('');
+    setPeriodId('year');
   };
 
   const handleClose = () => {
@@ -274,6 +370,9 @@ export default function AddGoalSheet({
       case 'running_pr':
         setTitle(`${selectedDistance} PR`);
         break;
+      case 'strength_pr':
+        setTitle(`${selectedLift} 1RM`);
+        break;
       case 'steps':
         setTitle('Daily Steps Goal');
         setTargetValue('10000');
@@ -282,6 +381,11 @@ export default function AddGoalSheet({
         setTitle('Weekly Workout Goal');
         setTargetValue('4');
         break;
+      case 'cumulative':
+        setTitle(tmpl.defaultTitle ?? '');
+        setTargetValue(tmpl.defaultTarget ?? '');
+        setPeriodId('year');
+        break;
       case 'custom':
         setTitle('');
         break;
@@ -290,10 +394,11 @@ export default function AddGoalSheet({
 
   const handleSubmit = () => {
     if (!selectedTemplate) return;
-    const tv = parseFloat(targetValue);
+    const tv = parseFormValue(targetValue);
     if (isNaN(tv)) return;
 
-    const sv = startValue ? parseFloat(startValue) : null;
+    const parsedStart = startValue ? parseFormValue(startValue) : NaN;
+    const sv = isNaN(parsedStart) ? null : parsedStart;
     let goalTitle = title || GOAL_TYPE_LABELS[selectedTemplate.type];
 
     // Running PR: include distance in title
@@ -311,6 +416,20 @@ export default function AddGoalSheet({
       data_source: selectedTemplate.dataSource,
     };
 
+    if (isRunning) {
+      goalData.distance_meters = distanceMeters;
+    }
+
+    // Cumulative goals count up from zero over the chosen period
+    if (selectedTemplate.type === 'cumulative') {
+      const period = CUMULATIVE_PERIODS.find((p) => p.id === periodId) ?? CUMULATIVE_PERIODS[0];
+      const { start, end } = period.getRange();
+      end.setHours(12, 0, 0, 0);
+      goalData.start_value = 0;
+      goalData.start_date = start.toISOString();
+      goalData.target_date = end.toISOString();
+    }
+
     // Add rate for weight goals
     if (selectedTemplate.type === 'weight' && selectedRate > 0) {
       goalData.rate = selectedRate;
@@ -323,9 +442,11 @@ export default function AddGoalSheet({
 
   const canSubmit = (): boolean => {
     if (!selectedTemplate) return false;
-    const tv = parseFloat(targetValue);
+    const tv = parseFormValue(targetValue);
     if (isNaN(tv)) return false;
+    if (isRunning && startValue && isNaN(parseFormValue(startValue))) return false;
     if (selectedTemplate.type === 'custom' && !title.trim()) return false;
+    if (selectedTemplate.type === 'cumulative' && (!title.trim() || tv <= 0)) return false;
     return true;
   };
 
@@ -349,7 +470,7 @@ export default function AddGoalSheet({
           <ScrollView style={styles.templateList} contentContainerStyle={styles.templateListContent}>
             {GOAL_TEMPLATES.map((tmpl) => (
               <TouchableOpacity
-                key={tmpl.type}
+                key={`${tmpl.type}-${tmpl.label}`}
                 style={styles.templateRow}
                 onPress={() => handleSelectTemplate(tmpl)}
                 activeOpacity={0.7}
@@ -374,20 +495,20 @@ export default function AddGoalSheet({
                 <View style={styles.chipRow}>
                   {RUNNING_DISTANCES.map((d) => (
                     <TouchableOpacity
-                      key={d.value}
+                      key={d.label}
                       style={[
                         styles.chip,
-                        selectedDistance === d.value && styles.chipSelected,
+                        selectedDistance === d.label && styles.chipSelected,
                       ]}
                       onPress={() => {
-                        setSelectedDistance(d.value);
-                        setTitle(`${d.value} PR`);
+                        setSelectedDistance(d.label);
+                        setTitle(`${d.label} PR`);
                       }}
                     >
                       <Text
                         style={[
                           styles.chipText,
-                          selectedDistance === d.value && styles.chipTextSelected,
+                          selectedDistance === d.label && styles.chipTextSelected,
                         ]}
                       >
                         {d.label}
@@ -398,22 +519,47 @@ export default function AddGoalSheet({
               </View>
             )}
 
-            {/* Title (editable for custom, pre-filled for others) */}
-            {selectedTemplate?.type === 'custom' && (
+            {/* Lift PR: lift picker */}
+            {selectedTemplate?.type === 'strength_pr' && (
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Lift</Text>
+                <View style={styles.chipRow}>
+                  {LIFTS.map((lift) => (
+                    <TouchableOpacity
+                      key={lift}
+                      style={[styles.chip, selectedLift === lift && styles.chipSelected]}
+                      onPress={() => {
+                        setSelectedLift(lift);
+                        setTitle(`${lift} 1RM`);
+                      }}
+                    >
+                      <Text
+                        style={[styles.chipText, selectedLift === lift && styles.chipTextSelected]}
+                      >
+                        {lift}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Title (editable for custom and cumulative, pre-filled for others) */}
+            {(selectedTemplate?.type === 'custom' || isCumulative) && (
               <View style={styles.formSection}>
                 <Text style={styles.formLabel}>Goal Name</Text>
                 <TextInput
                   style={styles.textInput}
                   value={title}
                   onChangeText={setTitle}
-                  placeholder="e.g. Max Bench Press"
+                  placeholder={isCumulative ? 'e.g. Run 500 miles' : 'e.g. Max Bench Press'}
                   placeholderTextColor={colors.textMuted}
                 />
               </View>
             )}
 
-            {/* Custom: unit */}
-            {selectedTemplate?.type === 'custom' && (
+            {/* Custom and cumulative: unit */}
+            {(selectedTemplate?.type === 'custom' || isCumulative) && (
               <View style={styles.formSection}>
                 <Text style={styles.formLabel}>Unit</Text>
                 <TextInput
@@ -447,7 +593,10 @@ export default function AddGoalSheet({
             )}
 
             {/* Manual goals: current value input */}
-            {selectedTemplate?.dataSource === 'manual' && selectedTemplate?.type !== 'running_pr' && (
+            {selectedTemplate?.dataSource === 'manual' &&
+              selectedTemplate?.type !== 'running_pr' &&
+              selectedTemplate?.type !== 'strength_pr' &&
+              !isCumulative && (
               <View style={styles.formSection}>
                 <Text style={styles.formLabel}>Current Value (optional)</Text>
                 <TextInput
@@ -464,22 +613,47 @@ export default function AddGoalSheet({
             {/* Running PR: current time */}
             {selectedTemplate?.type === 'running_pr' && (
               <View style={styles.formSection}>
-                <Text style={styles.formLabel}>Current Time (minutes)</Text>
+                <Text style={styles.formLabel}>Current Time (optional)</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={startValue}
+                  onChangeText={setStartValue}
+                  placeholder="e.g. 24:30"
+                  placeholderTextColor={colors.textMuted}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+            )}
+
+            {/* Lift PR: current 1RM */}
+            {selectedTemplate?.type === 'strength_pr' && (
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Current 1RM (optional)</Text>
                 <TextInput
                   style={styles.textInput}
                   value={startValue}
                   onChangeText={setStartValue}
-                  placeholder="e.g. 24.5 (for 24:30)"
+                  placeholder={`e.g. 185 ${unit}`}
                   placeholderTextColor={colors.textMuted}
                   keyboardType="decimal-pad"
                 />
+                <Text style={styles.formHint}>
+                  Not sure? Log a set of weight × reps and it will be estimated.
+                </Text>
               </View>
             )}
 
             {/* Target value */}
             <View style={styles.formSection}>
               <Text style={styles.formLabel}>
-                Target {selectedTemplate?.type === 'running_pr' ? 'Time (minutes)' : 'Value'}
+                Target{' '}
+                {selectedTemplate?.type === 'running_pr'
+                  ? 'Time'
+                  : selectedTemplate?.type === 'strength_pr'
+                  ? '1RM'
+                  : isCumulative
+                  ? 'Total'
+                  : 'Value'}
               </Text>
               <TextInput
                 style={styles.textInput}
@@ -487,14 +661,20 @@ export default function AddGoalSheet({
                 onChangeText={setTargetValue}
                 placeholder={
                   selectedTemplate?.type === 'running_pr'
-                    ? 'e.g. 21.0 (for 21:00)'
+                    ? 'e.g. 21:00 or 1:45:00'
                     : selectedTemplate?.type === 'steps'
                     ? '10000'
                     : `Target ${selectedTemplate?.defaultUnit ?? ''}`
                 }
                 placeholderTextColor={colors.textMuted}
-                keyboardType="decimal-pad"
+                keyboardType={isRunning ? 'numbers-and-punctuation' : 'decimal-pad'}
               />
+              {isRunning && distanceMeters !== null && !isNaN(parseFormValue(targetValue)) && (
+                <Text style={styles.formHint}>
+                  Pace {formatPace(parseFormValue(targetValue), distanceMeters, 'mi')} •{' '}
+                  {formatPace(parseFormValue(targetValue), distanceMeters, 'km')}
+                </Text>
+              )}
             </View>
 
             {/* Weight: rate picker */}
@@ -525,54 +705,91 @@ export default function AddGoalSheet({
               </View>
             )}
 
+            {/* Cumulative: period the total adds up over */}
+            {isCumulative && (
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Period</Text>
+                <View style={styles.chipRow}>
+                  {CUMULATIVE_PERIODS.map((period) => (
+                    <TouchableOpacity
+                      key={period.id}
+                      style={[styles.chip, periodId === period.id && styles.chipSelected]}
+                      onPress={() => setPeriodId(period.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          periodId === period.id && styles.chipTextSelected,
+                        ]}
+                      >
+                        {period.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {(() => {
+                  const { start, end } = (
+                    CUMULATIVE_PERIODS.find((p) => p.id === periodId) ?? CUMULATIVE_PERIODS[0]
+                  ).getRange();
+                  return (
+                    <Text style={styles.formHint}>
+                      {formatDisplayDate(start)} – {formatDisplayDate(end)}
+                    </Text>
+                  );
+                })()}
+              </View>
+            )}
+
             {/* Start date */}
-            <View style={styles.formSection}>
-              <Text style={styles.formLabel}>Start Date</Text>
-              <View style={styles.chipRow}>
-                {START_DATE_PRESETS.map((preset) => (
-                  <TouchableOpacity
-                    key={preset.id}
-                    style={[
-                      styles.chip,
-                      startDatePreset === preset.id && styles.chipSelected,
-                    ]}
-                    onPress={() => {
-                      setStartDatePreset(preset.id);
-                      setStartDate(preset.getDate());
-                      setCustomDateText('');
-                    }}
-                  >
-                    <Text
+            {!isCumulative && (
+              <View style={styles.formSection}>
+                <Text style={styles.formLabel}>Start Date</Text>
+                <View style={styles.chipRow}>
+                  {START_DATE_PRESETS.map((preset) => (
+                    <TouchableOpacity
+                      key={preset.id}
                       style={[
-                        styles.chipText,
-                        startDatePreset === preset.id && styles.chipTextSelected,
+                        styles.chip,
+                        startDatePreset === preset.id && styles.chipSelected,
                       ]}
+                      onPress={() => {
+                        setStartDatePreset(preset.id);
+                        setStartDate(preset.getDate());
+                        setCustomDateText('');
+                      }}
                     >
-                      {preset.label}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
+                      <Text
+                        style={[
+                          styles.chipText,
+                          startDatePreset === preset.id && styles.chipTextSelected,
+                        ]}
+                      >
+                        {preset.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {startDatePreset === 'custom' && (
+                  <TextInput
+                    style={[styles.textInput, { marginTop: theme.spacing.sm }]}
+                    value={customDateText}
+                    onChangeText={(text) => {
+                      setCustomDateText(text);
+                      // Try parsing MM/DD/YYYY
+                      const parsed = parseDateInput(text);
+                      if (parsed) setStartDate(parsed);
+                    }}
+                    placeholder="MM/DD/YYYY"
+                    placeholderTextColor={colors.textMuted}
+                    keyboardType="numbers-and-punctuation"
+                    maxLength={10}
+                  />
+                )}
+                <Text style={styles.formHint}>
+                  {formatDisplayDate(startDate)}
+                </Text>
               </View>
-              {startDatePreset === 'custom' && (
-                <TextInput
-                  style={[styles.textInput, { marginTop: theme.spacing.sm }]}
-                  value={customDateText}
-                  onChangeText={(text) => {
-                    setCustomDateText(text);
-                    // Try parsing MM/DD/YYYY
-                    const parsed = parseDateInput(text);
-                    if (parsed) setStartDate(parsed);
-                  }}
-                  placeholder="MM/DD/YYYY"
-                  placeholderTextColor={colors.textMuted}
-                  keyboardType="numbers-and-punctuation"
-                  maxLength={10}
-                />
-              )}
-              <Text style={styles.formHint}>
-                {formatDisplayDate(startDate)}
-              </Text>
-            </View>
+            )}
 
             {/* Submit button */}
             <TouchableOpacity
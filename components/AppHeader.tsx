@@ -4,6 +4,7 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { router } from 'expo-router';
 import { theme } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
+import { usePendingSyncCount } from '@/hooks/useOutbox';
 
 interface RightAction {
   icon?: string;
@@ -29,6 +30,7 @@ export default function AppHeader({
   showBorder = false,
 }: AppHeaderProps) {
   const colors = useThemeColors();
+  const pendingSync = usePendingSyncCount();
 
   return (
     <View
@@ -54,6 +56,14 @@ export default function AppHeader({
             {subtitle}
           </Text>
         ) : null}
+        {pendingSync > 0 ? (
+          <View style={styles.syncRow}>
+            <FontAwesome name="cloud-upload" size={11} color={colors.textMuted} />
+            <Text style={[styles.syncText, { color: colors.textMuted }]} numberOfLines={1}>
+              {pendingSync === 1 ? '1 change pending sync' : `${pendingSync} changes pending sync`}
+            </Text>
+          </View>
+        ) : null}
       </View>
 
       {rightAction ? (
@@ -112,6 +122,15 @@ const styles = StyleSheet.create({
     fontSize: theme.fontSize.xs,
     marginTop: 1,
   },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  syncText: {
+    fontSize: theme.fontSize.xs,
+  },
   rightSlot: {
     width: 40,
     alignItems: 'flex-end',
@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { Habit } from '@/lib/types';
+
+/**
+ * Daily row for an avoid habit ("no alcohol"). There is nothing to check
+ * off — the row shows the current clean run and lets the user log a slip,
+ * or undo the latest one for the day if it was logged by mistake.
+ */
+
+interface AvoidHabitItemProps {
+  habit: Habit;
+  daysClean: number;
+  slipsOnDay: number;
+  onLogSlip: () => void;
+  onUndoSlip?: () => void;
+  identityIcon?: React.ComponentProps<typeof FontAwesome>['name'];
+}
+
+export default function AvoidHabitItem({
+  habit,
+  daysClean,
+  slipsOnDay,
+  onLogSlip,
+  onUndoSlip,
+  identityIcon,
+}: AvoidHabitItemProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const slipped = slipsOnDay > 0;
+
+  return (
+    <View style={[styles.container, slipped && styles.containerSlipped]}>
+      <View style={[styles.icon, slipped && styles.iconSlipped]}>
+        <FontAwesome name="ban" size={14} color={slipped ? colors.warning : colors.success} />
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.nameRow}>
+          {identityIcon && (
+            <FontAwesome name={identityIcon} size={14} color={colors.primary} />
+          )}
+          <Text style={styles.name} numberOfLines={1}>
+            {habit.name}
+          </Text>
+        </View>
+        <Text style={[styles.subtext, slipped && styles.subtextSlipped]}>
+          {slipped
+            ? `Slipped${slipsOnDay > 1 ? ` ${slipsOnDay}x` : ''} — tomorrow is a fresh start`
+            : `${daysClean} ${daysClean === 1 ? 'day' : 'days'} clean`}
+        </Text>
+      </View>
+
+      {slipped && onUndoSlip && (
+        <TouchableOpacity
+          onPress={onUndoSlip}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Text style={styles.undoText}>Undo</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity style={styles.slipButton} onPress={onLogSlip} activeOpacity={0.7}>
+        <Text style={styles.slipButtonText}>Slipped</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: theme.spacing.md,
+    ...theme.shadow.sm,
+  },
+  containerSlipped: {
+    backgroundColor: colors.warningBackground,
+    borderColor: colors.warningBorder,
+    shadowOpacity: 0,
+    elevation: 0,
+  },
+  icon: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: colors.successLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  iconSlipped: {
+    backgroundColor: 'transparent',
+  },
+  content: {
+    flex: 1,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  name: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: colors.textPrimary,
+    flex: 1,
+  },
+  subtext: {
+    fontSize: theme.fontSize.xs,
+    color: colors.success,
+    fontWeight: theme.fontWeight.medium,
+    marginTop: 4,
+  },
+  subtextSlipped: {
+    color: colors.warningText,
+  },
+  undoText: {
+    fontSize: theme.fontSize.xs,
+    color: colors.textMuted,
+    fontWeight: theme.fontWeight.medium,
+  },
+  slipButton: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 6,
+    borderRadius: theme.borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  slipButtonText: {
+    fontSize: theme.fontSize.xs,
+    color: colors.textSecondary,
+    fontWeight: theme.fontWeight.semibold,
+  },
+});
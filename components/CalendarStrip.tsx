@@ -37,12 +37,12 @@ interface CalendarStripProps {
   dayProgress: Record<string, { completed: number; total: number }>; // dateString -> progress
 }
 
-function generateDays(centerDate: Date): DayData[] {
+function generateDays(centerDate: Date, daysBefore: number = BUFFER_DAYS): DayData[] {
   const days: DayData[] = [];
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
-  for (let i = -BUFFER_DAYS; i <= BUFFER_DAYS; i++) {
+  for (let i = -daysBefore; i <= BUFFER_DAYS; i++) {
     const date = new Date(centerDate);
     date.setDate(centerDate.getDate() + i);
     date.setHours(0, 0, 0, 0);
@@ -128,20 +128,38 @@ export default function CalendarStrip({
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
-  const days = generateDays(today);
-
-  // The "today" index in the array
-  const todayIndex = BUFFER_DAYS; // center of the array
+  // Reach further back when an older day is selected (e.g. from search)
+  const daysAgo = Math.round(
+    (today.getTime() - new Date(selectedDate + 'T00:00:00').getTime()) / 86400000
+  );
+  const days = generateDays(today, Math.max(BUFFER_DAYS, daysAgo + 3));
+  const selectedIndex = days.findIndex((day) => day.dateString === selectedDate);
+  const selectedIndexRef = useRef(selectedIndex);
+  selectedIndexRef.current = selectedIndex;
 
-  // Initial scroll so today appears at position 5 (6th item, 0-indexed) in the visible strip
-  const initialScrollX = (todayIndex - 5) * DAY_TOTAL_WIDTH;
+  const scrollX = useRef(0);
+  const hasScrolledInitially = useRef(false);
 
+  // Initial scroll so the selected day (normally today) appears at position 5
+  // (6th item, 0-indexed) in the visible strip
   useEffect(() => {
     const timeout = setTimeout(() => {
-      scrollRef.current?.scrollTo({ x: initialScrollX, animated: false });
+      const x = Math.max(0, (selectedIndexRef.current - 5) * DAY_TOTAL_WIDTH);
+      scrollRef.current?.scrollTo({ x, animated: false });
+      scrollX.current = x;
+      hasScrolledInitially.current = true;
     }, 50);
     return () => clearTimeout(timeout);
-  }, [initialScrollX]);
+  }, []);
+
+  // Bring a day selected from outside the strip into view
+  useEffect(() => {
+    if (!hasScrolledInitially.current || selectedIndex === -1) return;
+    const x = selectedIndex * DAY_TOTAL_WIDTH;
+    if (x >= scrollX.current && x + DAY_TOTAL_WIDTH <= scrollX.current + SCREEN_WIDTH) return;
+    const target = Math.max(0, (selectedIndex - 3) * DAY_TOTAL_WIDTH);
+    scrollRef.current?.scrollTo({ x: target, animated: true });
+  }, [selectedIndex]);
 
   const getProgress = useCallback(
     (dateString: string): number => {
@@ -161,6 +179,10 @@ export default function CalendarStrip({
         contentContainerStyle={styles.scrollContent}
         snapToInterval={DAY_TOTAL_WIDTH}
         decelerationRate="fast"
+        onScroll={(e) => {
+          scrollX.current = e.nativeEvent.contentOffset.x;
+        }}
+        scrollEventThrottle={16}
       >
         {days.map((day) => {
           const isSelected = day.dateString === selectedDate;
@@ -9,83 +9,146 @@ import {
   KeyboardAvoidingView,
   Platform,
   ScrollView,
+  ActivityIndicator,
 } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
 import AppHeader from '@/components/AppHeader';
-import { DailyJournalEntry } from '@/lib/types';
+import JournalReflectionCard from '@/components/JournalReflectionCard';
+import {
+  DailyJournalEntry,
+  JournalAnswer,
+  JournalEntryReflectionContent,
+  JournalPrompt,
+  JournalRatings,
+  JournalTemplate,
+} from '@/lib/types';
+import {
+  buildJournalAnswers,
+  getJournalPromptsForDate,
+  getJournalPromptsForEntry,
+  isJournalEntryComplete,
+  MAX_FREE_WRITE_LENGTH,
+  MAX_JOURNAL_ANSWER_LENGTH,
+} from '@/lib/journalTemplates';
+import { EMOTION_TAGS, JOURNAL_RATING_SCALES, getJournalRatings } from '@/lib/journalMood';
 
 interface DailyJournalSectionProps {
   date: string;
   entry: DailyJournalEntry | null;
-  onSubmit: (win: string, tension: string, gratitude: string) => void;
+  /** The template scheduled for `date` */
+  template: JournalTemplate;
+  /** Templates the user can switch to for this entry */
+  templates: JournalTemplate[];
+  /** The coach's reflection on the saved entry, if one has been generated */
+  reflection?: JournalEntryReflectionContent | null;
+  reflecting?: boolean;
+  onSubmit: (templateId: string | null, answers: JournalAnswer[], ratings: JournalRatings) => void;
+  /** Offered once the entry is saved, as the last step of the evening */
+  onPlanTomorrow?: () => void;
 }
 
-type Draft = { win: string; tension: string; gratitude: string };
+type Draft = { templateId: string | null; values: Record<string, string>; ratings: JournalRatings };
 
 const pendingDrafts = new Map<string, Draft>();
 
+function answersToValues(entry: DailyJournalEntry | null): Record<string, string> {
+  return Object.fromEntries((entry?.answers ?? []).map((a) => [a.prompt_id, a.answer]));
+}
+
+function getSubtitle(prompts: JournalPrompt[]): string {
+  if (prompts.length === 1) return prompts[0].hint ?? prompts[0].label;
+  return prompts.map((p) => p.label).join(' \u00B7 ');
+}
+
 export default function DailyJournalSection({
   date,
   entry,
+  template,
+  templates,
+  reflection = null,
+  reflecting = false,
   onSubmit,
+  onPlanTomorrow,
 }: DailyJournalSectionProps) {
   const colors = useThemeColors();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const [modalVisible, setModalVisible] = useState(false);
-  const [win, setWin] = useState('');
-  const [tension, setTension] = useState('');
-  const [gratitude, setGratitude] = useState('');
+  // null = the entry's own template (or today's scheduled one for a new entry)
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [ratings, setRatings] = useState<JournalRatings>(() => getJournalRatings(entry));
 
   const scrollViewRef = useRef<ScrollView>(null);
   const fieldOffsets = useRef<Record<string, number>>({});
-  const fields = useRef({ win: '', tension: '', gratitude: '' });
+  const fields = useRef<Record<string, string>>({});
+  const ratingsRef = useRef<JournalRatings>(ratings);
 
   useEffect(() => {
     const draft = pendingDrafts.get(date);
-    if (draft) {
-      setWin(draft.win);
-      setTension(draft.tension);
-      setGratitude(draft.gratitude);
-      fields.current = { ...draft };
-    } else {
-      const w = entry?.win ?? '';
-      const t = entry?.tension ?? '';
-      const g = entry?.gratitude ?? '';
-      setWin(w);
-      setTension(t);
-      setGratitude(g);
-      fields.current = { win: w, tension: t, gratitude: g };
-    }
+    const next = draft ? { ...draft.values } : answersToValues(entry);
+    const nextRatings = draft?.ratings ?? getJournalRatings(entry);
+    setTemplateId(draft?.templateId ?? null);
+    setValues(next);
+    setRatings(nextRatings);
+    fields.current = { ...next };
+    ratingsRef.current = nextRatings;
   }, [date, entry]);
 
-  const saveDraft = useCallback(() => {
-    const { win: w, tension: t, gratitude: g } = fields.current;
-    const saved = { win: entry?.win ?? '', tension: entry?.tension ?? '', gratitude: entry?.gratitude ?? '' };
-    if (w !== saved.win || t !== saved.tension || g !== saved.gratitude) {
-      pendingDrafts.set(date, { win: w, tension: t, gratitude: g });
+  const activeTemplate = templateId ? templates.find((t) => t.id === templateId) ?? template : null;
+  const prompts = useMemo(
+    () =>
+      activeTemplate
+        ? getJournalPromptsForDate(activeTemplate, date)
+        : getJournalPromptsForEntry(entry, templates, getJournalPromptsForDate(template, date)),
+    [activeTemplate, entry, templates, template, date],
+  );
+  const submitTemplateId = activeTemplate?.id ?? (entry?.answers.length ? entry.template_id : template.id);
+  const isFreeWrite = prompts.length === 1;
+
+  const saveDraft = useCallback((nextTemplateId: string | null) => {
+    const saved = answersToValues(entry);
+    const current = fields.current;
+    const changed =
+      nextTemplateId !== null ||
+      Object.keys({ ...saved, ...current }).some((id) => (current[id] ?? '') !== (saved[id] ?? '')) ||
+      JSON.stringify(ratingsRef.current) !== JSON.stringify(getJournalRatings(entry));
+    if (changed) {
+      pendingDrafts.set(date, {
+        templateId: nextTemplateId,
+        values: { ...current },
+        ratings: ratingsRef.current,
+      });
     } else {
       pendingDrafts.delete(date);
     }
   }, [date, entry]);
 
-  const updateWin = useCallback((text: string) => {
-    setWin(text);
-    fields.current.win = text;
-    saveDraft();
-  }, [saveDraft]);
+  const updateValue = useCallback((promptId: string, text: string) => {
+    fields.current = { ...fields.current, [promptId]: text };
+    setValues(fields.current);
+    saveDraft(templateId);
+  }, [saveDraft, templateId]);
 
-  const updateTension = useCallback((text: string) => {
-    setTension(text);
-    fields.current.tension = text;
-    saveDraft();
-  }, [saveDraft]);
+  const updateRatings = useCallback((update: Partial<JournalRatings>) => {
+    ratingsRef.current = { ...ratingsRef.current, ...update };
+    setRatings(ratingsRef.current);
+    saveDraft(templateId);
+  }, [saveDraft, templateId]);
+
+  const toggleEmotion = useCallback((emotion: string) => {
+    const current = ratingsRef.current.emotions;
+    updateRatings({
+      emotions: current.includes(emotion)
+        ? current.filter((e) => e !== emotion)
+        : [...current, emotion],
+    });
+  }, [updateRatings]);
 
-  const updateGratitude = useCallback((text: string) => {
-    setGratitude(text);
-    fields.current.gratitude = text;
-    saveDraft();
+  const selectTemplate = useCallback((id: string) => {
+    setTemplateId(id);
+    saveDraft(id);
   }, [saveDraft]);
 
   const scrollToField = useCallback((field: string) => {
@@ -97,22 +160,18 @@ export default function DailyJournalSection({
     }, 350);
   }, []);
 
-  const isCompleted =
-    entry !== null &&
-    entry.win.trim() !== '' &&
-    entry.tension.trim() !== '' &&
-    entry.gratitude.trim() !== '';
+  const isCompleted = isJournalEntryComplete(entry);
 
   const handleOpen = () => {
     setModalVisible(true);
   };
 
-  const canSave = win.trim() && tension.trim() && gratitude.trim();
+  const canSave = prompts.length > 0 && prompts.every((p) => (values[p.id] ?? '').trim() !== '');
 
   const handleSubmit = () => {
     if (!canSave) return;
     pendingDrafts.delete(date);
-    onSubmit(win.trim(), tension.trim(), gratitude.trim());
+    onSubmit(submitTemplateId, buildJournalAnswers(prompts, values), ratings);
     setModalVisible(false);
   };
 
@@ -143,10 +202,8 @@ export default function DailyJournalSection({
             >
               {isCompleted ? 'Journal completed' : 'Journal entry'}
             </Text>
-            <Text style={styles.subtitle}>
-              {isCompleted
-                ? 'Tap to view or edit'
-                : '1 win \u00B7 1 tension \u00B7 1 gratitude'}
+            <Text style={styles.subtitle} numberOfLines={1}>
+              {isCompleted ? 'Tap to view or edit' : getSubtitle(prompts)}
             </Text>
           </View>
           <FontAwesome
@@ -157,6 +214,29 @@ export default function DailyJournalSection({
         </View>
       </TouchableOpacity>
 
+      {isCompleted && reflecting && (
+        <View style={styles.reflectingRow}>
+          <ActivityIndicator size="small" color={colors.primary} />
+          <Text style={styles.subtitle}>Reflecting on your entry…</Text>
+        </View>
+      )}
+      {isCompleted && !reflecting && reflection && (
+        <View style={styles.reflection}>
+          <JournalReflectionCard scope="entry" content={reflection} />
+        </View>
+      )}
+      {isCompleted && onPlanTomorrow && (
+        <TouchableOpacity
+          style={styles.planTomorrowRow}
+          onPress={onPlanTomorrow}
+          activeOpacity={0.7}
+        >
+          <FontAwesome name="list-ol" size={12} color={colors.primary} />
+          <Text style={styles.planTomorrowText}>Plan tomorrow's three</Text>
+          <FontAwesome name="chevron-right" size={10} color={colors.primary} />
+        </TouchableOpacity>
+      )}
+
       <Modal
         visible={modalVisible}
         animationType="slide"
@@ -181,83 +261,100 @@ export default function DailyJournalSection({
             keyboardDismissMode="on-drag"
             automaticallyAdjustKeyboardInsets
           >
-            <View
-              style={styles.promptGroup}
-              onLayout={(e) => {
-                fieldOffsets.current.win = e.nativeEvent.layout.y;
-              }}
-            >
-              <View style={styles.promptLabelRow}>
-                <Text style={styles.promptEmoji}>🏆</Text>
-                <Text style={styles.promptLabel}>One Win</Text>
-              </View>
-              <Text style={styles.promptHint}>What went well today?</Text>
-              <TextInput
-                style={styles.promptInput}
-                value={win}
-                onChangeText={updateWin}
-                placeholder="I accomplished..."
-                placeholderTextColor={colors.textMuted}
-                multiline
-                scrollEnabled={false}
-                maxLength={500}
-                textAlignVertical="top"
-                onFocus={() => scrollToField('win')}
-              />
-            </View>
+            {templates.length > 1 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.templateChips}
+              >
+                {templates.map((t) => {
+                  const selected = t.id === submitTemplateId;
+                  return (
+                    <TouchableOpacity
+                      key={t.id}
+                      style={[styles.templateChip, selected && styles.templateChipSelected]}
+                      onPress={() => selectTemplate(t.id)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.templateChipText, selected && styles.templateChipTextSelected]}>
+                        {t.emoji} {t.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
 
-            <View
-              style={styles.promptGroup}
-              onLayout={(e) => {
-                fieldOffsets.current.tension = e.nativeEvent.layout.y;
-              }}
-            >
-              <View style={styles.promptLabelRow}>
-                <Text style={styles.promptEmoji}>🔥</Text>
-                <Text style={styles.promptLabel}>One Point of Tension</Text>
+            {prompts.map((prompt) => (
+              <View
+                key={prompt.id}
+                style={styles.promptGroup}
+                onLayout={(e) => {
+                  fieldOffsets.current[prompt.id] = e.nativeEvent.layout.y;
+                }}
+              >
+                <View style={styles.promptLabelRow}>
+                  {prompt.emoji ? <Text style={styles.promptEmoji}>{prompt.emoji}</Text> : null}
+                  <Text style={styles.promptLabel}>{prompt.label}</Text>
+                </View>
+                {prompt.hint ? <Text style={styles.promptHint}>{prompt.hint}</Text> : null}
+                <TextInput
+                  style={[styles.promptInput, isFreeWrite && styles.promptInputFreeWrite]}
+                  value={values[prompt.id] ?? ''}
+                  onChangeText={(text) => updateValue(prompt.id, text)}
+                  placeholder={prompt.placeholder}
+                  placeholderTextColor={colors.textMuted}
+                  multiline
+                  scrollEnabled={false}
+                  maxLength={isFreeWrite ? MAX_FREE_WRITE_LENGTH : MAX_JOURNAL_ANSWER_LENGTH}
+                  textAlignVertical="top"
+                  onFocus={() => scrollToField(prompt.id)}
+                />
               </View>
-              <Text style={styles.promptHint}>
-                What challenged you today?
-              </Text>
-              <TextInput
-                style={styles.promptInput}
-                value={tension}
-                onChangeText={updateTension}
-                placeholder="I struggled with..."
-                placeholderTextColor={colors.textMuted}
-                multiline
-                scrollEnabled={false}
-                maxLength={500}
-                textAlignVertical="top"
-                onFocus={() => scrollToField('tension')}
-              />
-            </View>
+            ))}
 
-            <View
-              style={styles.promptGroup}
-              onLayout={(e) => {
-                fieldOffsets.current.gratitude = e.nativeEvent.layout.y;
-              }}
-            >
-              <View style={styles.promptLabelRow}>
-                <Text style={styles.promptEmoji}>🙏</Text>
-                <Text style={styles.promptLabel}>One Gratitude</Text>
+            <View style={styles.ratingsGroup}>
+              <Text style={styles.promptLabel}>How are you feeling?</Text>
+              {JOURNAL_RATING_SCALES.map((scale) => (
+                <View key={scale.key} style={styles.ratingRow}>
+                  <Text style={styles.ratingLabel}>{scale.label}</Text>
+                  <View style={styles.ratingOptions}>
+                    {scale.emojis.map((emoji, i) => {
+                      const value = i + 1;
+                      const selected = ratings[scale.key] === value;
+                      return (
+                        <TouchableOpacity
+                          key={value}
+                          style={[styles.ratingOption, selected && styles.ratingOptionSelected]}
+                          // Tapping the chosen rating again clears it
+                          onPress={() => updateRatings({ [scale.key]: selected ? null : value })}
+                          activeOpacity={0.7}
+                          accessibilityLabel={`${scale.label} ${value} of 5`}
+                        >
+                          <Text style={styles.ratingEmoji}>{emoji}</Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              ))}
+              <View style={styles.emotionChips}>
+                {EMOTION_TAGS.map((emotion) => {
+                  const selected = ratings.emotions.includes(emotion);
+                  return (
+                    <TouchableOpacity
+                      key={emotion}
+                      style={[styles.templateChip, selected && styles.templateChipSelected]}
+                      onPress={() => toggleEmotion(emotion)}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.emotionChipText, selected && styles.templateChipTextSelected]}>
+                        {emotion}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
-              <Text style={styles.promptHint}>
-                What are you grateful for?
-              </Text>
-              <TextInput
-                style={styles.promptInput}
-                value={gratitude}
-                onChangeText={updateGratitude}
-                placeholder="I'm grateful for..."
-                placeholderTextColor={colors.textMuted}
-                multiline
-                scrollEnabled={false}
-                maxLength={500}
-                textAlignVertical="top"
-                onFocus={() => scrollToField('gratitude')}
-              />
             </View>
           </ScrollView>
         </KeyboardAvoidingView>
@@ -321,6 +418,28 @@ function createStyles(colors: import('@/lib/theme').ThemeColors) {
       color: colors.textSecondary,
       marginTop: 1,
     },
+    reflectingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      marginTop: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+    },
+    reflection: {
+      marginTop: theme.spacing.sm,
+    },
+    planTomorrowRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      marginTop: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+    },
+    planTomorrowText: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.semibold as any,
+      color: colors.primary,
+    },
 
     // Modal
     modalContainer: {
@@ -368,5 +487,76 @@ function createStyles(colors: import('@/lib/theme').ThemeColors) {
       minHeight: 80,
       lineHeight: 22,
     },
+    promptInputFreeWrite: {
+      minHeight: 240,
+    },
+    templateChips: {
+      gap: theme.spacing.sm,
+    },
+    templateChip: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.xs,
+      borderRadius: theme.borderRadius.full,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    templateChipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primaryLightOverlay25,
+    },
+    templateChipText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    templateChipTextSelected: {
+      color: colors.primary,
+      fontWeight: theme.fontWeight.semibold as any,
+    },
+    ratingsGroup: {
+      gap: theme.spacing.sm,
+    },
+    ratingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    ratingLabel: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      width: 64,
+    },
+    ratingOptions: {
+      flexDirection: 'row',
+      gap: theme.spacing.xs,
+    },
+    ratingOption: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    ratingOptionSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primaryLightOverlay25,
+    },
+    ratingEmoji: {
+      fontSize: 20,
+    },
+    emotionChips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.xs,
+      marginTop: theme.spacing.xs,
+    },
+    emotionChipText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      textTransform: 'capitalize',
+    },
   });
 }
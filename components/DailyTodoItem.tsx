@@ -130,12 +130,24 @@ const DailyTodoItem = forwardRef<DailyTodoItemHandle, DailyTodoItemProps>(functi
         activeOpacity={0.7}
       >
         <Text
-          style={[styles.todoText, todo!.is_completed && styles.todoTextCompleted]}
+          style={[
+            styles.todoText,
+            todo!.is_completed && styles.todoTextCompleted,
+            !todo!.is_completed && todo!.carried_to_date && styles.todoTextCarried,
+          ]}
           numberOfLines={1}
         >
           {todo!.text}
         </Text>
       </TouchableOpacity>
+      {todo!.carried_to_date && !todo!.is_completed ? (
+        <FontAwesome name="share" size={11} color={colors.textMuted} />
+      ) : todo!.carry_count > 0 && !todo!.is_completed ? (
+        <View style={styles.carryBadge}>
+          <FontAwesome name="repeat" size={9} color={colors.warning} />
+          <Text style={styles.carryBadgeText}>{todo!.carry_count}</Text>
+        </View>
+      ) : null}
     </View>
   );
 });
@@ -203,6 +215,19 @@ function createStyles(colors: import('@/lib/theme').ThemeColors) {
       textDecorationLine: 'line-through',
       color: colors.textMuted,
     },
+    todoTextCarried: {
+      color: colors.textMuted,
+    },
+    carryBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 3,
+    },
+    carryBadgeText: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.semibold as any,
+      color: colors.warning,
+    },
     placeholder: {
       fontSize: theme.fontSize.sm,
       color: colors.textMuted,
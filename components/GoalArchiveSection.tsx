@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useArchivedGoalHistory } from '@/hooks/useGoalsQuery';
+import { formatDuration, isDurationUnit } from '@/lib/goalMath';
+import { Goal, GOAL_TYPE_COLORS, GOAL_TYPE_ICONS } from '@/lib/types';
+import GoalChart from './GoalChart';
+
+const screenWidth = Dimensions.get('window').width;
+
+interface GoalArchiveSectionProps {
+  goals: Goal[];
+  onRestart: (goal: Goal) => void;
+}
+
+function formatArchiveDate(dateStr: string): string {
+  const date = new Date(dateStr + 'T12:00:00');
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatGoalValue(goal: Goal, val: number | null | undefined): string {
+  if (val === null || val === undefined) return '—';
+  if (isDurationUnit(goal.unit)) return formatDuration(val);
+  if (val >= 100) return Math.round(val).toString();
+  return val.toFixed(1);
+}
+
+function ArchivedGoalCard({
+  goal,
+  onRestart,
+  styles,
+  colors,
+}: {
+  goal: Goal;
+  onRestart: (goal: Goal) => void;
+  styles: ReturnType<typeof createStyles>;
+  colors: ThemeColors;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { data: history = [], isLoading } = useArchivedGoalHistory(goal, expanded);
+
+  const color = GOAL_TYPE_COLORS[goal.goal_type] ?? colors.primary;
+  const icon = GOAL_TYPE_ICONS[goal.goal_type] ?? 'star';
+  const achieved = goal.status === 'achieved';
+  const startDate = goal.start_date.split('T')[0];
+  const endDate = goal.achieved_date ?? goal.status_changed_at?.split('T')[0] ?? null;
+  const unit = isDurationUnit(goal.unit) ? '' : ` ${goal.unit}`;
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => setExpanded(!expanded)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.cardHeader}>
+        <View style={[styles.iconContainer, { backgroundColor: color + '18' }]}>
+          <FontAwesome name={icon as any} size={14} color={color} />
+        </View>
+        <View style={styles.cardInfo}>
+          <Text style={styles.title} numberOfLines={1}>{goal.title}</Text>
+          <Text style={styles.dates}>
+            {formatArchiveDate(startDate)}
+            {endDate ? ` – ${formatArchiveDate(endDate)}` : ''}
+          </Text>
+        </View>
+        <View style={[styles.badge, achieved ? styles.badgeAchieved : styles.badgeAbandoned]}>
+          <FontAwesome
+            name={achieved ? 'trophy' : 'archive'}
+            size={10}
+            color={achieved ? colors.success : colors.textMuted}
+          />
+          <Text style={[styles.badgeText, { color: achieved ? colors.success : colors.textMuted }]}>
+            {achieved ? 'Achieved' : 'Abandoned'}
+          </Text>
+        </View>
+      </View>
+
+      <Text style={styles.valueText}>
+        Ended at {formatGoalValue(goal, goal.final_value)}
+        {unit} • Target {formatGoalValue(goal, goal.target_value)}
+        {unit}
+      </Text>
+
+      {expanded && (
+        <View style={styles.expanded}>
+          {isLoading ? (
+            <ActivityIndicator size="small" color={colors.primary} style={styles.loader} />
+          ) : history.length > 0 ? (
+            <GoalChart
+              actualData={history}
+              width={screenWidth - theme.spacing.lg * 2 - theme.spacing.md * 2}
+              height={160}
+              actualColor={color}
+              unit={goal.unit}
+              goalStartDate={startDate}
+              goalEndDate={endDate ?? undefined}
+              targetValue={goal.target_value}
+            />
+          ) : (
+            <Text style={styles.emptyText}>No readings were logged for this goal.</Text>
+          )}
+
+          <TouchableOpacity
+            style={styles.restartButton}
+            onPress={() => onRestart(goal)}
+            activeOpacity={0.7}
+          >
+            <FontAwesome name="refresh" size={12} color={colors.primary} />
+            <Text style={styles.restartText}>Restart from here</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+export default function GoalArchiveSection({ goals, onRestart }: GoalArchiveSectionProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  if (goals.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <FontAwesome name="archive" size={24} color={colors.textMuted} />
+        <Text style={styles.emptyText}>
+          Goals you achieve or stop working on will be kept here.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {goals.map((goal) => (
+        <ArchivedGoalCard
+          key={goal.id}
+          goal={goal}
+          onRestart={onRestart}
+          styles={styles}
+          colors={colors}
+        />
+      ))}
+    </View>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      gap: theme.spacing.sm,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      ...theme.shadow.sm,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+    },
+    iconContainer: {
+      width: 28,
+      height: 28,
+      borderRadius: theme.borderRadius.sm,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    cardInfo: {
+      flex: 1,
+    },
+    title: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    dates: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+      marginTop: 1,
+    },
+    badge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      borderRadius: theme.borderRadius.full,
+      paddingHorizontal: theme.spacing.sm,
+      paddingVertical: 3,
+    },
+    badgeAchieved: {
+      backgroundColor: colors.successLight,
+    },
+    badgeAbandoned: {
+      backgroundColor: colors.borderLight,
+    },
+    badgeText: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.semibold,
+    },
+    valueText: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: theme.spacing.sm,
+    },
+    expanded: {
+      marginTop: theme.spacing.md,
+    },
+    loader: {
+      paddingVertical: theme.spacing.lg,
+    },
+    restartButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      gap: theme.spacing.xs,
+      marginTop: theme.spacing.sm,
+      paddingVertical: theme.spacing.xs,
+    },
+    restartText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+    emptyContainer: {
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      paddingVertical: theme.spacing.xl,
+    },
+    emptyText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+  });
+}
@@ -0,0 +1,471 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme } from '@/lib/theme';
+import type { ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useAuth } from '@/contexts/AuthContext';
+import { useImportGoalEntries } from '@/hooks/useGoalsQuery';
+import {
+  MAX_GOAL_ENTRY_NOTE_LENGTH,
+  parseGoalEntriesCsv,
+  parseGoalEntryRows,
+  planGoalEntryImport,
+} from '@/lib/goalImport';
+import { isCumulativeGoal, isDurationUnit } from '@/lib/goalMath';
+import type { Goal, GoalEntry } from '@/lib/types';
+import AppHeader from '@/components/AppHeader';
+
+type BackfillMode = 'form' | 'csv';
+
+interface BackfillRow {
+  date: string;
+  value: string;
+  note: string;
+}
+
+const EMPTY_ROWS: BackfillRow[] = [
+  { date: '', value: '', note: '' },
+  { date: '', value: '', note: '' },
+  { date: '', value: '', note: '' },
+];
+
+// Issues listed in the preview before the rest are summarized
+const MAX_LISTED_ISSUES = 8;
+
+interface GoalBackfillSheetProps {
+  visible: boolean;
+  goal: Goal;
+  existingEntries: GoalEntry[];
+  onClose: () => void;
+  onImported: (goal: Goal) => void;
+}
+
+export default function GoalBackfillSheet({
+  visible,
+  goal,
+  existingEntries,
+  onClose,
+  onImported,
+}: GoalBackfillSheetProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { user } = useAuth();
+  const importMutation = useImportGoalEntries();
+
+  const [mode, setMode] = useState<BackfillMode>('form');
+  const [step, setStep] = useState<'edit' | 'preview'>('edit');
+  const [rows, setRows] = useState<BackfillRow[]>(EMPTY_ROWS);
+  const [csvText, setCsvText] = useState('');
+
+  const parsed = useMemo(
+    () =>
+      mode === 'csv'
+        ? parseGoalEntriesCsv(csvText, { unit: goal.unit })
+        : parseGoalEntryRows(rows, { unit: goal.unit }),
+    [mode, csvText, rows, goal.unit]
+  );
+  const plan = useMemo(
+    () => planGoalEntryImport(parsed.entries, existingEntries),
+    [parsed, existingEntries]
+  );
+  const toImport = [...plan.added, ...plan.updated];
+  const goalStart = goal.start_date.split('T')[0];
+  const movesStartDate =
+    !isCumulativeGoal(goal) && parsed.entries.length > 0 && parsed.entries[0].date < goalStart;
+
+  const reset = () => {
+    setMode('form');
+    setStep('edit');
+    setRows(EMPTY_ROWS);
+    setCsvText('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const updateRow = (index: number, field: keyof BackfillRow, text: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: text } : row)));
+  };
+
+  const handleImport = async () => {
+    if (!user || toImport.length === 0) return;
+    try {
+      const updatedGoal = await importMutation.mutateAsync({
+        goal,
+        userId: user.id,
+        entries: toImport,
+        source: mode,
+      });
+      reset();
+      onImported(updatedGoal);
+    } catch (error) {
+      console.error('Error importing goal entries:', error);
+    }
+  };
+
+  const issues = [
+    ...parsed.errors.map((issue) => ({ ...issue, isError: true })),
+    ...parsed.warnings.map((issue) => ({ ...issue, isError: false })),
+  ].sort((a, b) => a.line - b.line);
+  const lineLabel = mode === 'csv' ? 'Line' : 'Row';
+  const valueHint = isDurationUnit(goal.unit) ? 'time' : goal.unit || 'value';
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <AppHeader
+          title={step === 'edit' ? 'Backfill Entries' : 'Review Import'}
+          onBack={step === 'preview' ? () => setStep('edit') : handleClose}
+        />
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {step === 'edit' ? (
+            <>
+              <View style={styles.modeRow}>
+                {(['form', 'csv'] as const).map((m) => (
+                  <TouchableOpacity
+                    key={m}
+                    style={[styles.modeChip, mode === m && styles.modeChipSelected]}
+                    onPress={() => setMode(m)}
+                  >
+                    <Text style={[styles.modeText, mode === m && styles.modeTextSelected]}>
+                      {m === 'form' ? 'Enter rows' : 'Paste CSV'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {mode === 'form' ? (
+                <>
+                  {rows.map((row, index) => (
+                    <View key={index} style={styles.row}>
+                      <View style={styles.rowInputs}>
+                        <TextInput
+                          style={[styles.input, styles.dateInput]}
+                          value={row.date}
+                          onChangeText={(text) => updateRow(index, 'date', text)}
+                          placeholder="YYYY-MM-DD"
+                          placeholderTextColor={colors.textMuted}
+                          keyboardType="numbers-and-punctuation"
+                        />
+                        <TextInput
+                          style={[styles.input, styles.valueInput]}
+                          value={row.value}
+                          onChangeText={(text) => updateRow(index, 'value', text)}
+                          placeholder={valueHint}
+                          placeholderTextColor={colors.textMuted}
+                          keyboardType={isDurationUnit(goal.unit) ? 'numbers-and-punctuation' : 'decimal-pad'}
+                        />
+                      </View>
+                      <TextInput
+                        style={styles.input}
+                        value={row.note}
+                        onChangeText={(text) => updateRow(index, 'note', text)}
+                        placeholder="Note (optional)"
+                        placeholderTextColor={colors.textMuted}
+                        maxLength={MAX_GOAL_ENTRY_NOTE_LENGTH}
+                      />
+                    </View>
+                  ))}
+                  <TouchableOpacity
+                    onPress={() => setRows((prev) => [...prev, { date: '', value: '', note: '' }])}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.linkText}>+ Add row</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.hint}>
+                    One entry per line as date,{valueHint}[,note]. A header row is optional, and
+                    dates can be YYYY-MM-DD or MM/DD/YYYY.
+                  </Text>
+                  <TextInput
+                    style={[styles.input, styles.csvInput]}
+                    value={csvText}
+                    onChangeText={setCsvText}
+                    placeholder={'date,value,note\n2025-01-06,182.4,\n2025-01-13,181.0,after vacation'}
+                    placeholderTextColor={colors.textMuted}
+                    multiline
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    textAlignVertical="top"
+                  />
+                </>
+              )}
+
+              <Text style={styles.hint}>
+                Dates that already have an entry are overwritten. You'll see a preview first.
+              </Text>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, parsed.entries.length === 0 && { opacity: 0.5 }]}
+                onPress={() => setStep('preview')}
+                disabled={parsed.entries.length === 0 && parsed.errors.length === 0}
+              >
+                <Text style={styles.primaryButtonText}>Preview</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <View style={styles.summaryRow}>
+                <SummaryStat label="New" value={plan.added.length} styles={styles} />
+                <SummaryStat label="Overwritten" value={plan.updated.length} styles={styles} />
+                <SummaryStat label="Unchanged" value={plan.unchanged.length} styles={styles} />
+                <SummaryStat label="Skipped" value={parsed.errors.length} styles={styles} />
+              </View>
+
+              {movesStartDate && (
+                <View style={styles.noticeRow}>
+                  <FontAwesome name="calendar" size={13} color={colors.textMuted} />
+                  <Text style={styles.noticeText}>
+                    The goal's start date will move back to {parsed.entries[0].date} so this
+                    history counts toward it.
+                  </Text>
+                </View>
+              )}
+
+              {plan.updated.length > 0 && (
+                <View style={styles.previewSection}>
+                  <Text style={styles.previewTitle}>Overwritten</Text>
+                  {plan.updated.map((entry) => (
+                    <Text key={entry.date} style={styles.previewLine}>
+                      {entry.date}: {entry.previousValue} → {entry.value}
+                      {entry.note ? ` (${entry.note})` : ''}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              {issues.length > 0 && (
+                <View style={styles.previewSection}>
+                  <Text style={styles.previewTitle}>Check these</Text>
+                  {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                    <View key={i} style={styles.issueRow}>
+                      <FontAwesome
+                        name={issue.isError ? 'times-circle' : 'exclamation-circle'}
+                        size={13}
+                        color={issue.isError ? colors.danger : colors.warning}
+                      />
+                      <Text style={styles.issueText}>
+                        {lineLabel} {issue.line}: {issue.message}
+                      </Text>
+                    </View>
+                  ))}
+                  {issues.length > MAX_LISTED_ISSUES && (
+                    <Text style={styles.hint}>
+                      …and {issues.length - MAX_LISTED_ISSUES} more
+                    </Text>
+                  )}
+                </View>
+              )}
+
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  (toImport.length === 0 || importMutation.isPending) && { opacity: 0.5 },
+                ]}
+                onPress={handleImport}
+                disabled={toImport.length === 0 || importMutation.isPending}
+              >
+                {importMutation.isPending ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>
+                    {toImport.length === 0
+                      ? 'Nothing to import'
+                      : `Import ${toImport.length} ${toImport.length === 1 ? 'entry' : 'entries'}`}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+function SummaryStat({
+  label,
+  value,
+  styles,
+}: {
+  label: string;
+  value: number;
+  styles: ReturnType<typeof createStyles>;
+}) {
+  return (
+    <View style={styles.summaryStat}>
+      <Text style={styles.summaryValue}>{value}</Text>
+      <Text style={styles.summaryLabel}>{label}</Text>
+    </View>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: theme.spacing.lg,
+      gap: theme.spacing.md,
+      paddingBottom: theme.spacing.xxl,
+    },
+    modeRow: {
+      flexDirection: 'row',
+      gap: theme.spacing.sm,
+    },
+    modeChip: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.full,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    modeChipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    modeText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.medium,
+      color: colors.textSecondary,
+    },
+    modeTextSelected: {
+      color: '#fff',
+    },
+    row: {
+      gap: theme.spacing.xs,
+    },
+    rowInputs: {
+      flexDirection: 'row',
+      gap: theme.spacing.sm,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 10,
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    dateInput: {
+      flex: 3,
+    },
+    valueInput: {
+      flex: 2,
+    },
+    csvInput: {
+      minHeight: 180,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    },
+    hint: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+      lineHeight: 18,
+    },
+    linkText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: theme.borderRadius.md,
+      paddingVertical: 14,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: '#fff',
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      paddingVertical: theme.spacing.md,
+      ...theme.shadow.sm,
+    },
+    summaryStat: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    summaryValue: {
+      fontSize: theme.fontSize.xl,
+      fontWeight: theme.fontWeight.bold,
+      color: colors.textPrimary,
+    },
+    summaryLabel: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    noticeRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: theme.spacing.sm,
+    },
+    noticeText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      lineHeight: 20,
+    },
+    previewSection: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      gap: theme.spacing.xs,
+      ...theme.shadow.sm,
+    },
+    previewTitle: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+      marginBottom: 2,
+    },
+    previewLine: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    issueRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: theme.spacing.sm,
+    },
+    issueText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+    },
+  });
+}
@@ -4,7 +4,13 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme, type ThemeColors } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
 import { Goal, GOAL_TYPE_ICONS, GOAL_TYPE_COLORS } from '@/lib/types';
-import { computeProgressPercent } from '@/lib/goalMath';
+import {
+  computeExpectedToDate,
+  computeProgressPercent,
+  formatDuration,
+  isCumulativeGoal,
+  isDurationUnit,
+} from '@/lib/goalMath';
 
 interface GoalCardProps {
   goal: Goal;
@@ -21,11 +27,7 @@ export default function GoalCard({ goal, currentValue, onPress }: GoalCardProps)
 
   const formatValue = (val: number | null): string => {
     if (val === null) return '—';
-    if (goal.unit === 'mm:ss') {
-      const mins = Math.floor(val);
-      const secs = Math.round((val - mins) * 60);
-      return `${mins}:${secs.toString().padStart(2, '0')}`;
-    }
+    if (isDurationUnit(goal.unit)) return formatDuration(val);
     if (goal.unit === 'steps' && val >= 1000) {
       return `${(val / 1000).toFixed(1)}k`;
     }
@@ -33,13 +35,27 @@ export default function GoalCard({ goal, currentValue, onPress }: GoalCardProps)
     return val.toFixed(1);
   };
 
-  const subtitle = goal.rate && goal.rate_unit
-    ? `${goal.rate} ${goal.rate_unit}`
-    : null;
+  const paceSubtitle = (): string | null => {
+    const expected = computeExpectedToDate(goal);
+    if (expected === null || currentValue === null) return null;
+    const difference = currentValue - expected;
+    const unit = goal.unit ? ` ${goal.unit}` : '';
+    if (Math.abs(difference) < 0.05) return 'Right on pace';
+    return `${formatValue(Math.abs(difference))}${unit} ${difference > 0 ? 'ahead of' : 'behind'} pace`;
+  };
+
+  const isPaused = goal.status === 'paused';
+  const subtitle = isPaused
+    ? 'Paused'
+    : isCumulativeGoal(goal)
+    ? paceSubtitle()
+    : goal.rate && goal.rate_unit
+      ? `${goal.rate} ${goal.rate_unit}`
+      : null;
 
   return (
     <TouchableOpacity
-      style={styles.card}
+      style={[styles.card, isPaused && styles.cardPaused]}
       onPress={onPress}
       activeOpacity={0.7}
     >
@@ -65,7 +81,7 @@ export default function GoalCard({ goal, currentValue, onPress }: GoalCardProps)
       <View style={styles.valueRow}>
         <Text style={styles.currentValue}>{formatValue(currentValue)}</Text>
         <FontAwesome name="long-arrow-right" size={10} color={colors.textMuted} style={styles.arrow} />
-        <Text style={styles.targetValue}>{formatValue(goal.target_value)} {goal.unit !== 'mm:ss' ? goal.unit : ''}</Text>
+        <Text style={styles.targetValue}>{formatValue(goal.target_value)} {isDurationUnit(goal.unit) ? '' : goal.unit}</Text>
       </View>
 
       {subtitle && (
@@ -84,6 +100,9 @@ function createStyles(colors: ThemeColors) {
     width: '100%' as any,
     ...theme.shadow.sm,
   },
+  cardPaused: {
+    opacity: 0.6,
+  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
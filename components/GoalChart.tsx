@@ -18,6 +18,8 @@ import { MetricDataPoint } from '@/lib/health';
 import {
   TrajectoryPoint,
   ProjectionPoint,
+  formatDuration,
+  isDurationUnit,
 } from '@/lib/goalMath';
 
 interface GoalChartProps {
@@ -42,6 +44,12 @@ interface GoalChartProps {
   goalEndDate?: string;
   /** Target value — drawn as a horizontal dashed reference line */
   targetValue?: number;
+  /** Smoothed trend through the readings — when set, raw readings are drawn as dots */
+  trendLine?: TrajectoryPoint[];
+  /** Readings the trend fit ignored as outliers — drawn as hollow dots */
+  outlierDates?: string[];
+  /** First date of a detected plateau — shaded through the last reading */
+  plateauStartDate?: string;
 }
 
 interface DateValue {
@@ -62,6 +70,9 @@ export default function GoalChart({
   goalStartDate,
   goalEndDate,
   targetValue,
+  trendLine = [],
+  outlierDates = [],
+  plateauStartDate,
 }: GoalChartProps) {
   const colors = useThemeColors();
   const resolvedActualColor = actualColor ?? colors.primary;
@@ -72,7 +83,7 @@ export default function GoalChart({
   const chartWidth = width - padding.left - padding.right;
   const chartHeight = height - padding.top - padding.bottom;
 
-  const { actualPoints, projectionPoints, xMin, xMax, yMin, yMax } =
+  const { actualPoints, trendPoints, projectionPoints, xMin, xMax, yMin, yMax } =
     useMemo(() => {
       const msPerDay = 86400000;
 
@@ -81,6 +92,7 @@ export default function GoalChart({
 
       const ap = parsePoints(actualData);
       const tp = parsePoints(trajectory);
+      const sp = parsePoints(trendLine);
       const pp = projection.map((p) => ({
         dateMs: new Date(p.date).getTime(),
         predicted: p.predicted,
@@ -109,6 +121,7 @@ export default function GoalChart({
       if (allDates.length === 0 || allValues.length === 0) {
         return {
           actualPoints: [],
+          trendPoints: [],
           projectionPoints: [],
           xMin: 0,
           xMax: 1,
@@ -134,13 +147,14 @@ export default function GoalChart({
 
       return {
         actualPoints: ap,
+        trendPoints: sp,
         projectionPoints: pp,
         xMin: dateMin,
         xMax: dateMax || dateMin + msPerDay,
         yMin: valMin - yPad,
         yMax: valMax + yPad,
       };
-    }, [actualData, trajectory, projection, goalStartDate, goalEndDate, targetValue]);
+    }, [actualData, trajectory, trendLine, projection, goalStartDate, goalEndDate, targetValue]);
 
   // Coordinate mappers
   const xScale = (dateMs: number) => {
@@ -158,6 +172,15 @@ export default function GoalChart({
     .map((p) => `${xScale(p.dateMs)},${yScale(p.value)}`)
     .join(' ');
 
+  const showTrend = trendPoints.length >= 2;
+  const trendSvgPoints = trendPoints
+    .map((p) => `${xScale(p.dateMs)},${yScale(p.value)}`)
+    .join(' ');
+  const outlierSet = new Set(outlierDates);
+  const outlierPoints = actualData
+    .filter((d) => outlierSet.has(d.date))
+    .map((d) => ({ dateMs: new Date(d.date).getTime(), value: d.value }));
+
   // Bridge the gap between actual data and projection by prepending the last
   // actual point so the projection visually connects to the data line.
   const bridgedProjection = useMemo(() => {
@@ -251,6 +274,32 @@ export default function GoalChart({
 
         {/* All data elements clipped to the chart area */}
         <G clipPath={`url(#${clipId})`}>
+          {/* Plateau region */}
+          {plateauStartDate && actualPoints.length > 0 && (
+            <>
+              <Rect
+                x={xScale(new Date(plateauStartDate).getTime())}
+                y={padding.top}
+                width={Math.max(
+                  0,
+                  xScale(actualPoints[actualPoints.length - 1].dateMs) -
+                    xScale(new Date(plateauStartDate).getTime())
+                )}
+                height={chartHeight}
+                fill={colors.textMuted}
+                opacity={0.1}
+              />
+              <SvgText
+                x={xScale(new Date(plateauStartDate).getTime()) + 4}
+                y={padding.top + 12}
+                fontSize={10}
+                fill={colors.textMuted}
+              >
+                Plateau
+              </SvgText>
+            </>
+          )}
+
           {/* Projection area (filled band) */}
           {projBandPoints && (
             <Polygon
@@ -286,23 +335,62 @@ export default function GoalChart({
             />
           )}
 
-          {/* Actual data line */}
+          {/* Actual data line — faint with dots when a trend line is drawn over it */}
           {actualSvgPoints && actualPoints.length >= 2 && (
             <Polyline
               points={actualSvgPoints}
               fill="none"
               stroke={resolvedActualColor}
+              strokeWidth={showTrend ? 1 : 2.5}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              opacity={showTrend ? 0.35 : 1}
+            />
+          )}
+          {showTrend &&
+            actualPoints
+              .filter((p) => !outlierPoints.some((o) => o.dateMs === p.dateMs))
+              .map((p, i) => (
+                <Circle
+                  key={`reading-${i}`}
+                  cx={xScale(p.dateMs)}
+                  cy={yScale(p.value)}
+                  r={2}
+                  fill={resolvedActualColor}
+                  opacity={0.45}
+                />
+              ))}
+
+          {/* Readings ignored as outliers */}
+          {outlierPoints.map((p, i) => (
+            <Circle
+              key={`outlier-${i}`}
+              cx={xScale(p.dateMs)}
+              cy={yScale(p.value)}
+              r={3}
+              fill="none"
+              stroke={colors.textMuted}
+              strokeWidth={1.5}
+            />
+          ))}
+
+          {/* Smoothed trend line */}
+          {showTrend && (
+            <Polyline
+              points={trendSvgPoints}
+              fill="none"
+              stroke={resolvedActualColor}
               strokeWidth={2.5}
               strokeLinecap="round"
               strokeLinejoin="round"
             />
           )}
 
-          {/* Actual data end dot */}
+          {/* End dot — on the trend when one is drawn */}
           {actualPoints.length > 0 && (
             <Circle
-              cx={xScale(actualPoints[actualPoints.length - 1].dateMs)}
-              cy={yScale(actualPoints[actualPoints.length - 1].value)}
+              cx={xScale((showTrend ? trendPoints : actualPoints).slice(-1)[0].dateMs)}
+              cy={yScale((showTrend ? trendPoints : actualPoints).slice(-1)[0].value)}
               r={dotRadius}
               fill={resolvedActualColor}
             />
@@ -342,6 +430,11 @@ export default function GoalChart({
 }
 
 function formatTickValue(value: number, unit: string): string {
+  // Whole seconds are enough to read an axis; long runs drop the seconds
+  if (isDurationUnit(unit)) {
+    const label = formatDuration(Math.round(value));
+    return value >= 3600 ? label.slice(0, -3) : label;
+  }
   if (unit === 'steps' && value >= 1000) {
     return `${(value / 1000).toFixed(0)}k`;
   }
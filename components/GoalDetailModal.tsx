@@ -16,23 +16,70 @@ import {
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
+import { useCompletionsForRange, useHabits, useSlips } from '@/hooks/useHabitsQuery';
 import type { ThemeColors } from '@/lib/theme';
 import AppHeader from '@/components/AppHeader';
-import { Goal, GOAL_TYPE_COLORS, GOAL_TYPE_ICONS } from '@/lib/types';
+import {
+  Goal,
+  GoalEntry,
+  GoalMilestoneDefinition,
+  GoalStatus,
+  LiftSet,
+  GOAL_TYPE_COLORS,
+  GOAL_TYPE_ICONS,
+} from '@/lib/types';
 import { MetricDataPoint } from '@/lib/health';
-import { getGoalHistoryData, getGoalCurrentValue } from '@/lib/goals';
+import { EVENTS, captureEvent } from '@/lib/analytics';
+import { computeAdherenceByWeek, getMonthRange, getTodayDate, getWeekRange } from '@/lib/habits';
+import {
+  getGoalHistoryData,
+  getGoalCurrentValue,
+  getCelebratedMilestoneIds,
+  markMilestonesCelebrated,
+} from '@/lib/goals';
 import {
+  computeCumulativePace,
+  computeCumulativeProjection,
+  isCumulativeGoal,
+  bestOneRepMaxSet,
+  estimateOneRepMaxTargetDate,
+  isStrengthGoal,
+  MAX_ONE_REP_MAX_REPS,
+  estimateTimeTargetDate,
+  formatDuration,
+  formatPace,
+  formatRunningDistance,
+  isDurationUnit,
+  isRunningGoal,
+  parseDuration,
+  riegelEquivalentTime,
+  RUNNING_DISTANCES,
+  computeGoalMilestones,
+  computeHabitGoalCorrelation,
+  computeWeeklyHabitGoalSeries,
   computeGoalTrajectory,
   computeRateBasedProjection,
   computeProgressPercent,
-  weightedLinearRegression,
+  robustLinearRegression,
+  computeSmoothedTrend,
+  detectPlateau,
   computeWeightedProjection,
-  weightedEstimateCompletionDate,
+  estimateCompletionDate,
   weightedDaysToTarget,
+  GoalMilestone,
+  CumulativePace,
+  PlateauResult,
   TrajectoryPoint,
   ProjectionPoint,
 } from '@/lib/goalMath';
+import { MAX_GOAL_ENTRY_NOTE_LENGTH } from '@/lib/goalImport';
 import GoalChart from './GoalChart';
+import GoalMilestonesSection from './GoalMilestonesSection';
+import GoalHabitsSection from './GoalHabitsSection';
+import GoalEntriesSection from './GoalEntriesSection';
+
+// Full weeks of habit adherence compared against the goal's rate of change
+const CORRELATION_WEEKS = 12;
 
 const screenWidth = Dimensions.get('window').width;
 
@@ -41,7 +88,24 @@ interface GoalDetailModalProps {
   goal: Goal | null;
   onClose: () => void;
   onDelete: (goalId: string) => void;
-  onLogEntry: (goalId: string, value: number, date: string) => void;
+  onLogEntry: (
+    goalId: string,
+    value: number,
+    date: string,
+    details?: {
+      sets?: LiftSet[];
+      run?: Pick<GoalEntry, 'distance_meters' | 'duration_seconds'>;
+      note?: string | null;
+    }
+  ) => void;
+  onUpdateMilestones: (
+    goalId: string,
+    milestones: GoalMilestoneDefinition[],
+    autoMilestones: boolean
+  ) => void;
+  onUpdateLinkedHabits: (goalId: string, habitIds: string[]) => void;
+  onChangeStatus: (goalId: string, status: GoalStatus, finalValue: number | null) => void;
+  onGoalUpdated: (goal: Goal) => void;
 }
 
 export default function GoalDetailModal({
@@ -50,6 +114,10 @@ export default function GoalDetailModal({
   onClose,
   onDelete,
   onLogEntry,
+  onUpdateMilestones,
+  onUpdateLinkedHabits,
+  onChangeStatus,
+  onGoalUpdated,
 }: GoalDetailModalProps) {
   const colors = useThemeColors();
   const styles = useMemo(() => createStyles(colors), [colors]);
@@ -60,6 +128,11 @@ export default function GoalDetailModal({
   const [projection, setProjection] = useState<ProjectionPoint[]>([]);
   const [estimatedDate, setEstimatedDate] = useState<string | null>(null);
   const [projectedEndDate, setProjectedEndDate] = useState<string | null>(null);
+  const [trendLine, setTrendLine] = useState<TrajectoryPoint[]>([]);
+  const [outlierDates, setOutlierDates] = useState<string[]>([]);
+  const [plateau, setPlateau] = useState<PlateauResult | null>(null);
+  const [cumulativePace, setCumulativePace] = useState<CumulativePace | null>(null);
+  const [celebration, setCelebration] = useState<GoalMilestone | null>(null);
 
   // Chart time range
   const [timeRange, setTimeRange] = useState<'1W' | '1M' | '6M'>('6M');
@@ -67,7 +140,12 @@ export default function GoalDetailModal({
   // Log entry form
   const [showLogForm, setShowLogForm] = useState(false);
   const [logValue, setLogValue] = useState('');
+  const [logNote, setLogNote] = useState('');
   const [logDate, setLogDate] = useState(() => new Date());
+  const [logSets, setLogSets] = useState<Array<{ weight: string; reps: string }>>([
+    { weight: '', reps: '' },
+  ]);
+  const [logDistance, setLogDistance] = useState<number | null>(null); // null: the goal's distance
 
   const loadData = useCallback(async () => {
     if (!goal) return;
@@ -89,12 +167,30 @@ export default function GoalDetailModal({
       const traj = computeGoalTrajectory(goal);
       setTrajectory(traj);
 
+      // Running totals only go up: project from the accumulation rate rather
+      // than fitting a trend to the levels
+      if (isCumulativeGoal(goal)) {
+        const pace = computeCumulativePace(goal, filteredHistory);
+        const proj = computeCumulativeProjection(goal, filteredHistory);
+        setCumulativePace(pace);
+        setProjection(proj);
+        setEstimatedDate(pace.projectedCompletionDate);
+        setProjectedEndDate(goal.target_date?.split('T')[0] ?? proj[proj.length - 1]?.date ?? null);
+        return;
+      }
+
       // Compute projection from data trend
       let endDate: string | null = null;
       let projectionComputed = false;
 
+      // Outlier-resistant fit, so a single spike or typo doesn't skew the projection
+      const reg = robustLinearRegression(filteredHistory);
+      const plateauResult = detectPlateau(filteredHistory);
+      setOutlierDates(reg?.outlierDates ?? []);
+      setTrendLine(computeSmoothedTrend(filteredHistory, undefined, reg?.outlierDates));
+      setPlateau(plateauResult);
+
       if (filteredHistory.length >= 2) {
-        const reg = weightedLinearRegression(filteredHistory);
         if (reg) {
           const today = new Date();
 
@@ -115,9 +211,15 @@ export default function GoalDetailModal({
           setProjection(proj);
           projectionComputed = proj.length >= 2;
 
-          const estDate = weightedEstimateCompletionDate(filteredHistory, reg, goal.target_value);
+          // Strength goals count as reached at the first session past the
+          // target, and otherwise project from the trend of session estimates
+          const estDate = isStrengthGoal(goal)
+            ? estimateOneRepMaxTargetDate(filteredHistory, goal.target_value, plateauResult)
+            : isRunningGoal(goal)
+            ? estimateTimeTargetDate(filteredHistory, goal.target_value, plateauResult)
+            : estimateCompletionDate(filteredHistory, reg, goal.target_value, plateauResult);
           setEstimatedDate(estDate);
-          endDate = estDate;
+          endDate = estDate && estDate > getTodayDate() ? estDate : null;
 
           // If no estimated completion date, use the last projection point
           if (!endDate && proj.length > 0) {
@@ -159,12 +261,79 @@ export default function GoalDetailModal({
       setProjection([]);
       setEstimatedDate(null);
       setProjectedEndDate(null);
+      setTrendLine([]);
+      setOutlierDates([]);
+      setPlateau(null);
+      setCumulativePace(null);
+      setCelebration(null);
       setShowLogForm(false);
       setLogValue('');
+      setLogNote('');
+      setLogSets([{ weight: '', reps: '' }]);
+      setLogDistance(null);
       setLogDate(new Date());
     }
   }, [visible, goal, loadData]);
 
+  const milestones = useMemo(
+    () => (goal ? computeGoalMilestones(goal, historyData) : []),
+    [goal, historyData]
+  );
+
+  // Habits linked to this goal, and how their adherence tracks its progress
+  const today = getTodayDate();
+  // From the start of the first week's month, for month-to-date monthly-count targets
+  const correlationStart = useMemo(
+    () => getMonthRange(getWeekRange(-CORRELATION_WEEKS).start).start,
+    [today]
+  );
+  const { data: habits = [] } = useHabits();
+  const { data: rangeCompletions = [] } = useCompletionsForRange(correlationStart, today);
+  const { data: slips = [] } = useSlips();
+  const linkedHabitIds = goal?.linked_habit_ids ?? [];
+
+  const habitAnalysis = useMemo(() => {
+    if (!goal || linkedHabitIds.length === 0) return null;
+    const linked = habits.filter((h) => linkedHabitIds.includes(h.id));
+    const series = computeWeeklyHabitGoalSeries(
+      computeAdherenceByWeek(linked, rangeCompletions, today, CORRELATION_WEEKS, slips),
+      historyData
+    );
+    return computeHabitGoalCorrelation(goal, series);
+  }, [goal, habits, rangeCompletions, slips, historyData, today]);
+
+  // Celebrate milestones reached since this goal was last opened on this device
+  useEffect(() => {
+    if (!visible || !goal || loading) return;
+    const reached = milestones.filter((m) => m.reachedOn);
+    if (reached.length === 0) return;
+
+    let cancelled = false;
+    getCelebratedMilestoneIds(goal.id).then((celebrated) => {
+      if (cancelled) return;
+      const fresh = reached.filter((m) => !celebrated.has(m.id));
+      if (fresh.length === 0) return;
+
+      for (const milestone of fresh) {
+        captureEvent(EVENTS.GOAL_MILESTONE_REACHED, {
+          goal_id: goal.id,
+          goal_type: goal.goal_type,
+          milestone_percent: milestone.percent,
+          is_auto: milestone.isAuto,
+          reached_on: milestone.reachedOn!,
+        });
+      }
+      setCelebration(fresh[fresh.length - 1]);
+      markMilestonesCelebrated(goal.id, fresh.map((m) => m.id)).catch((error) => {
+        console.warn('Error saving celebrated milestones:', error);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, goal, loading, milestones]);
+
   const isToday = useMemo(() => {
     const now = new Date();
     return (
@@ -213,6 +382,7 @@ export default function GoalDetailModal({
     if (timeRange === '6M') {
       return {
         filteredHistory: historyData,
+        filteredTrend: trendLine,
         chartStartDate: goal?.start_date.split('T')[0],
         chartEndDate: projectedEndDate ?? undefined,
       };
@@ -221,10 +391,11 @@ export default function GoalDetailModal({
     const filtered = historyData.filter((d) => d.date >= rangeStartStr);
     return {
       filteredHistory: filtered,
+      filteredTrend: trendLine.filter((d) => d.date >= rangeStartStr),
       chartStartDate: rangeStartStr,
       chartEndDate: todayStr,
     };
-  }, [timeRange, historyData, goal, projectedEndDate]);
+  }, [timeRange, historyData, trendLine, goal, projectedEndDate]);
 
   const chartWidth = screenWidth - theme.spacing.lg * 2 - theme.spacing.md * 2;
 
@@ -236,11 +407,7 @@ export default function GoalDetailModal({
 
   const formatValue = (val: number | null): string => {
     if (val === null) return '—';
-    if (goal.unit === 'mm:ss') {
-      const mins = Math.floor(val);
-      const secs = Math.round((val - mins) * 60);
-      return `${mins}:${secs.toString().padStart(2, '0')}`;
-    }
+    if (isDurationUnit(goal.unit)) return formatDuration(val);
     if (goal.unit === 'steps' && val >= 1000) {
       return `${(val / 1000).toFixed(1)}k`;
     }
@@ -248,6 +415,12 @@ export default function GoalDetailModal({
     return val.toFixed(1);
   };
 
+  // Times read as 19:59, not "19:59 seconds"
+  const unitSuffix = isDurationUnit(goal.unit) ? '' : ` ${goal.unit}`;
+
+  const formatRate = (val: number): string =>
+    val >= 10 ? Math.round(val).toString() : (Math.round(val * 10) / 10).toString();
+
   const handleDelete = () => {
     Alert.alert(
       'Delete Goal',
@@ -266,13 +439,78 @@ export default function GoalDetailModal({
     );
   };
 
+  const isPaused = goal.status === 'paused';
+
+  // Achieving or abandoning a goal moves it to the archive, so the modal closes
+  const handleEndGoal = (status: 'achieved' | 'abandoned') => {
+    const end = () => {
+      onChangeStatus(goal.id, status, currentValue);
+      onClose();
+    };
+    if (status === 'achieved') {
+      end();
+      return;
+    }
+    Alert.alert(
+      'Abandon Goal',
+      `"${goal.title}" will move to your past goals. You can restart it from there.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Abandon', style: 'destructive', onPress: end },
+      ]
+    );
+  };
+
+  // Strength goals log weight × reps sets; the entry's value is their best estimated 1RM
+  const isStrength = isStrengthGoal(goal);
+  const parsedSets: LiftSet[] = logSets
+    .map((s) => ({ weight: parseFloat(s.weight), reps: parseInt(s.reps, 10) }))
+    .filter((s) => !isNaN(s.weight) && !isNaN(s.reps));
+  const bestLoggedSet = isStrength ? bestOneRepMaxSet(parsedSets) : null;
+
+  // Time goals take m:ss or h:mm:ss. A running PR can log a run at another
+  // distance; its value is the equivalent time at the goal's distance.
+  const isDuration = isDurationUnit(goal.unit);
+  const isRunning = isRunningGoal(goal);
+  const goalDistance = goal.distance_meters ?? null;
+  const loggedDuration = isDuration ? parseDuration(logValue) : null;
+  const loggedEquivalent =
+    loggedDuration !== null && logDistance !== null && goalDistance !== null
+      ? riegelEquivalentTime(loggedDuration, logDistance, goalDistance)
+      : loggedDuration;
+  const canSaveLog = isStrength
+    ? bestLoggedSet !== null
+    : isDuration
+    ? loggedEquivalent !== null
+    : !!logValue;
+
+  const updateLogSet = (index: number, field: 'weight' | 'reps', text: string) => {
+    setLogSets((prev) => prev.map((s, i) => (i === index ? { ...s, [field]: text } : s)));
+  };
+
   const handleLogEntry = () => {
-    const val = parseFloat(logValue);
+    const val = isStrength
+      ? bestLoggedSet?.oneRepMax ?? NaN
+      : isDuration
+      ? loggedEquivalent ?? NaN
+      : parseFloat(logValue);
     if (isNaN(val)) return;
 
     const dateStr = `${logDate.getFullYear()}-${String(logDate.getMonth() + 1).padStart(2, '0')}-${String(logDate.getDate()).padStart(2, '0')}`;
-    onLogEntry(goal.id, val, dateStr);
+    onLogEntry(goal.id, val, dateStr, {
+      sets: isStrength ? parsedSets : undefined,
+      run: isRunning
+        ? {
+            distance_meters: logDistance,
+            duration_seconds: logDistance !== null ? loggedDuration : null,
+          }
+        : undefined,
+      note: logNote.trim() || undefined,
+    });
     setLogValue('');
+    setLogNote('');
+    setLogSets([{ weight: '', reps: '' }]);
+    setLogDistance(null);
     setLogDate(new Date());
     setShowLogForm(false);
 
@@ -321,6 +559,43 @@ export default function GoalDetailModal({
             </View>
           ) : (
             <>
+              {/* Milestone celebration */}
+              {celebration && (
+                <View style={[styles.celebrationCard, { borderColor: color }]}>
+                  <Text style={styles.celebrationEmoji}>🎉</Text>
+                  <View style={styles.celebrationInfo}>
+                    <Text style={styles.celebrationTitle}>Milestone reached!</Text>
+                    <Text style={styles.celebrationText}>
+                      {celebration.percent >= 100
+                        ? `You hit your target of ${formatValue(celebration.value)}${unitSuffix}.`
+                        : `${celebration.label}: ${formatValue(celebration.value)}${unitSuffix}.`}
+                    </Text>
+                    {celebration.percent >= 100 && (
+                      <TouchableOpacity onPress={() => handleEndGoal('achieved')} activeOpacity={0.7}>
+                        <Text style={[styles.celebrationAction, { color }]}>Mark as achieved</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => setCelebration(null)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  >
+                    <FontAwesome name="times" size={14} color={colors.textMuted} />
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {/* Paused banner */}
+              {isPaused && (
+                <View style={styles.pausedBanner}>
+                  <FontAwesome name="pause-circle-o" size={16} color={colors.textMuted} />
+                  <Text style={styles.pausedText}>Paused — left out of your weekly recaps</Text>
+                  <TouchableOpacity onPress={() => onChangeStatus(goal.id, 'active', null)} activeOpacity={0.7}>
+                    <Text style={styles.pausedAction}>Resume</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
               {/* Stats row */}
               <View style={styles.statsRow}>
                 <View style={styles.statItem}>
@@ -370,7 +645,7 @@ export default function GoalDetailModal({
                   <View style={styles.chartLegend}>
                     <View style={styles.legendItem}>
                       <View style={[styles.legendDot, { backgroundColor: color }]} />
-                      <Text style={styles.legendText}>Actual</Text>
+                      <Text style={styles.legendText}>{trendLine.length >= 2 ? 'Trend' : 'Actual'}</Text>
                     </View>
                     <View style={styles.legendItem}>
                       <View style={[styles.legendDash, { backgroundColor: colors.success }]} />
@@ -416,6 +691,9 @@ export default function GoalDetailModal({
                   goalStartDate={chartData.chartStartDate}
                   goalEndDate={chartData.chartEndDate}
                   targetValue={goal.target_value}
+                  trendLine={chartData.filteredTrend}
+                  outlierDates={outlierDates}
+                  plateauStartDate={plateau?.isPlateau ? plateau.since ?? undefined : undefined}
                 />
               </View>
 
@@ -430,11 +708,85 @@ export default function GoalDetailModal({
                   </View>
                 )}
 
+                {cumulativePace && cumulativePace.difference !== null && (
+                  <View style={styles.insightRow}>
+                    <FontAwesome
+                      name={cumulativePace.difference >= 0 ? 'check-circle' : 'clock-o'}
+                      size={14}
+                      color={cumulativePace.difference >= 0 ? colors.success : colors.warning}
+                    />
+                    <Text style={styles.insightText}>
+                      {cumulativePace.difference >= 0 ? 'Ahead of pace' : 'Behind pace'} by{' '}
+                      {formatValue(Math.abs(cumulativePace.difference))} {goal.unit} (
+                      {formatValue(cumulativePace.expectedToDate)} expected by today)
+                    </Text>
+                  </View>
+                )}
+
+                {cumulativePace?.requiredDailyRate != null && cumulativePace.total < goal.target_value && (
+                  <View style={styles.insightRow}>
+                    <FontAwesome name="flag-checkered" size={14} color={colors.textMuted} />
+                    <Text style={styles.insightText}>
+                      {formatRate(cumulativePace.requiredDailyRate * 7)} {goal.unit}/week to finish on time
+                      {cumulativePace.projectedTotal !== null &&
+                        ` • on track for ${formatValue(cumulativePace.projectedTotal)}`}
+                    </Text>
+                  </View>
+                )}
+
+                {plateau?.isPlateau && (
+                  <View style={styles.insightRow}>
+                    <FontAwesome name="pause-circle-o" size={14} color={colors.textMuted} />
+                    <Text style={styles.insightText}>
+                      Plateau: flat for {plateau.weeks} weeks. Plateaus are normal — stay consistent
+                      and the trend will move again.
+                    </Text>
+                  </View>
+                )}
+
+                {outlierDates.length > 0 && (
+                  <View style={styles.insightRow}>
+                    <FontAwesome name="circle-o" size={14} color={colors.textMuted} />
+                    <Text style={styles.insightText}>
+                      {outlierDates.length === 1
+                        ? '1 unusual reading is'
+                        : `${outlierDates.length} unusual readings are`}{' '}
+                      left out of the trend
+                    </Text>
+                  </View>
+                )}
+
+                {isStrength && currentValue !== null && (
+                  <View style={styles.insightRow}>
+                    <FontAwesome name="trophy" size={14} color={colors.textMuted} />
+                    <Text style={styles.insightText}>
+                      Best estimated 1RM: {formatValue(currentValue)} {goal.unit} (Epley, sets of up
+                      to {MAX_ONE_REP_MAX_REPS} reps)
+                    </Text>
+                  </View>
+                )}
+
+                {isRunning && goalDistance !== null && (
+                  <View style={styles.insightRow}>
+                    <FontAwesome name="tachometer" size={14} color={colors.textMuted} />
+                    <Text style={styles.insightText}>
+                      {currentValue !== null
+                        ? `Best ${formatValue(currentValue)} (${formatPace(currentValue, goalDistance, 'mi')}) • `
+                        : ''}
+                      Target pace {formatPace(goal.target_value, goalDistance, 'mi')} •{' '}
+                      {formatPace(goal.target_value, goalDistance, 'km')}
+                    </Text>
+                  </View>
+                )}
+
                 {estimatedDate && (
                   <View style={styles.insightRow}>
                     <FontAwesome name="calendar" size={14} color={colors.textMuted} />
                     <Text style={styles.insightText}>
-                      Est. completion: {formatDisplayDate(estimatedDate)}
+                      {(isStrength || isRunning) && estimatedDate <= getTodayDate()
+                        ? 'Target reached'
+                        : 'Est. completion'}
+                      : {formatDisplayDate(estimatedDate)}
                     </Text>
                   </View>
                 )}
@@ -468,6 +820,35 @@ export default function GoalDetailModal({
                 )}
               </View>
 
+              <GoalMilestonesSection
+                milestones={milestones}
+                customMilestones={goal.milestones ?? []}
+                autoMilestones={goal.auto_milestones !== false}
+                unit={goal.unit}
+                color={color}
+                formatValue={formatValue}
+                onChange={(next, auto) => onUpdateMilestones(goal.id, next, auto)}
+              />
+
+              <GoalHabitsSection
+                habits={habits}
+                linkedHabitIds={linkedHabitIds}
+                analysis={habitAnalysis}
+                unit={goal.unit}
+                color={color}
+                onChange={(habitIds) => onUpdateLinkedHabits(goal.id, habitIds)}
+              />
+
+              {/* Entry history and backfill (manual goals; lift PRs are edited through their sets) */}
+              {goal.data_source === 'manual' && !isStrength && (
+                <GoalEntriesSection
+                  goal={goal}
+                  formatValue={formatValue}
+                  onChanged={() => setTimeout(loadData, 300)}
+                  onGoalUpdated={onGoalUpdated}
+                />
+              )}
+
               {/* Log entry (manual goals) */}
               {goal.data_source === 'manual' && (
                 <View style={styles.logSection}>
@@ -495,26 +876,136 @@ export default function GoalDetailModal({
                           <FontAwesome name="chevron-right" size={14} color={colors.primary} />
                         </TouchableOpacity>
                       </View>
+                      {isStrength ? (
+                        <>
+                          {logSets.map((set, index) => (
+                            <View key={index} style={styles.setRow}>
+                              <Text style={styles.setLabel}>Set {index + 1}</Text>
+                              <TextInput
+                                style={[styles.logInput, styles.setInput]}
+                                value={set.weight}
+                                onChangeText={(text) => updateLogSet(index, 'weight', text)}
+                                placeholder={goal.unit}
+                                placeholderTextColor={colors.textMuted}
+                                keyboardType="decimal-pad"
+                                autoFocus={index === 0}
+                              />
+                              <Text style={styles.setTimes}>×</Text>
+                              <TextInput
+                                style={[styles.logInput, styles.setInput]}
+                                value={set.reps}
+                                onChangeText={(text) => updateLogSet(index, 'reps', text)}
+                                placeholder="reps"
+                                placeholderTextColor={colors.textMuted}
+                                keyboardType="number-pad"
+                              />
+                            </View>
+                          ))}
+                          <View style={styles.setFooter}>
+                            <TouchableOpacity
+                              onPress={() => setLogSets((prev) => [...prev, { weight: '', reps: '' }])}
+                              activeOpacity={0.7}
+                            >
+                              <Text style={styles.addSetText}>+ Add set</Text>
+                            </TouchableOpacity>
+                            <Text style={styles.setEstimate}>
+                              {bestLoggedSet
+                                ? `Est. 1RM ${formatValue(bestLoggedSet.oneRepMax)} ${goal.unit}`
+                                : `Sets of 1–${MAX_ONE_REP_MAX_REPS} reps`}
+                            </Text>
+                          </View>
+                        </>
+                      ) : isDuration ? (
+                        <>
+                          {isRunning && goalDistance !== null && (
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                              <View style={styles.distanceRow}>
+                                {[
+                                  { label: formatRunningDistance(goalDistance), meters: null },
+                                  ...RUNNING_DISTANCES.filter(
+                                    (d) => Math.abs(d.meters - goalDistance) >= 1
+                                  ),
+                                ].map((d) => (
+                                  <TouchableOpacity
+                                    key={d.label}
+                                    style={[
+                                      styles.distanceChip,
+                                      logDistance === d.meters && styles.distanceChipSelected,
+                                    ]}
+                                    onPress={() => setLogDistance(d.meters)}
+                                  >
+                                    <Text
+                                      style={[
+                                        styles.distanceChipText,
+                                        logDistance === d.meters && styles.distanceChipTextSelected,
+                                      ]}
+                                    >
+                                      {d.label}
+                                    </Text>
+                                  </TouchableOpacity>
+                                ))}
+                              </View>
+                            </ScrollView>
+                          )}
+                          <TextInput
+                            style={styles.logInput}
+                            value={logValue}
+                            onChangeText={setLogValue}
+                            placeholder="Time (m:ss or h:mm:ss)"
+                            placeholderTextColor={colors.textMuted}
+                            keyboardType="numbers-and-punctuation"
+                            autoFocus
+                          />
+                          {loggedDuration !== null && loggedEquivalent !== null && goalDistance !== null && (
+                            <Text style={styles.setEstimate}>
+                              {logDistance !== null
+                                ? `≈ ${formatDuration(loggedEquivalent)} for ${formatRunningDistance(goalDistance)} (Riegel) • `
+                                : ''}
+                              {formatPace(loggedDuration, logDistance ?? goalDistance, 'mi')} •{' '}
+                              {formatPace(loggedDuration, logDistance ?? goalDistance, 'km')}
+                            </Text>
+                          )}
+                        </>
+                      ) : (
+                        <TextInput
+                          style={styles.logInput}
+                          value={logValue}
+                          onChangeText={setLogValue}
+                          placeholder={
+                            isCumulativeGoal(goal)
+                              ? `Amount to add (${goal.unit})`
+                              : `Enter value (${goal.unit})`
+                          }
+                          placeholderTextColor={colors.textMuted}
+                          keyboardType="decimal-pad"
+                          autoFocus
+                        />
+                      )}
                       <TextInput
                         style={styles.logInput}
-                        value={logValue}
-                        onChangeText={setLogValue}
-                        placeholder={`Enter value (${goal.unit})`}
+                        value={logNote}
+                        onChangeText={setLogNote}
+                        placeholder="Note (optional)"
                         placeholderTextColor={colors.textMuted}
-                        keyboardType="decimal-pad"
-                        autoFocus
+                        maxLength={MAX_GOAL_ENTRY_NOTE_LENGTH}
                       />
                       <View style={styles.logButtons}>
                         <TouchableOpacity
                           style={styles.logCancelButton}
-                          onPress={() => { setShowLogForm(false); setLogDate(new Date()); }}
+                          onPress={() => {
+                            setShowLogForm(false);
+                            setLogDate(new Date());
+                            setLogNote('');
+                            setLogSets([{ weight: '', reps: '' }]);
+                            setLogDistance(null);
+                          }}
                         >
                           <Text style={styles.logCancelText}>Cancel</Text>
                         </TouchableOpacity>
                         <TouchableOpacity
-                          style={[styles.logSubmitButton, !logValue && { opacity: 0.5 }]}
+                          style={[styles.logSubmitButton, !canSaveLog && { opacity: 0.5 }]}
                           onPress={handleLogEntry}
-                          disabled={!logValue}
+                          disabled={!canSaveLog}
                         >
                           <Text style={styles.logSubmitText}>Save</Text>
                         </TouchableOpacity>
@@ -532,6 +1023,38 @@ export default function GoalDetailModal({
                   )}
                 </View>
               )}
+
+              {/* Status */}
+              <View style={styles.statusActions}>
+                <TouchableOpacity
+                  style={styles.statusButton}
+                  onPress={() => handleEndGoal('achieved')}
+                  activeOpacity={0.7}
+                >
+                  <FontAwesome name="trophy" size={13} color={colors.success} />
+                  <Text style={styles.statusButtonText}>Achieved</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.statusButton}
+                  onPress={() => onChangeStatus(goal.id, isPaused ? 'active' : 'paused', null)}
+                  activeOpacity={0.7}
+                >
+                  <FontAwesome
+                    name={isPaused ? 'play-circle-o' : 'pause-circle-o'}
+                    size={13}
+                    color={colors.textSecondary}
+                  />
+                  <Text style={styles.statusButtonText}>{isPaused ? 'Resume' : 'Pause'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.statusButton}
+                  onPress={() => handleEndGoal('abandoned')}
+                  activeOpacity={0.7}
+                >
+                  <FontAwesome name="archive" size={13} color={colors.textSecondary} />
+                  <Text style={styles.statusButtonText}>Abandon</Text>
+                </TouchableOpacity>
+              </View>
             </>
           )}
         </ScrollView>
@@ -673,6 +1196,79 @@ function createStyles(colors: ThemeColors) {
     },
 
     // Insights
+    celebrationCard: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      backgroundColor: colors.successLight,
+      borderRadius: theme.borderRadius.lg,
+      borderWidth: 1,
+      padding: theme.spacing.md,
+      marginBottom: theme.spacing.md,
+    },
+    celebrationEmoji: {
+      fontSize: theme.fontSize.xxl,
+    },
+    celebrationInfo: {
+      flex: 1,
+    },
+    celebrationTitle: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.bold,
+      color: colors.textPrimary,
+    },
+    celebrationText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    celebrationAction: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      marginTop: theme.spacing.xs,
+    },
+    pausedBanner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      marginBottom: theme.spacing.md,
+      ...theme.shadow.sm,
+    },
+    pausedText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    pausedAction: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+    statusActions: {
+      flexDirection: 'row',
+      gap: theme.spacing.sm,
+      marginTop: theme.spacing.lg,
+    },
+    statusButton: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: theme.spacing.xs,
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingVertical: 10,
+    },
+    statusButtonText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.medium,
+      color: colors.textSecondary,
+    },
     insightsContainer: {
       marginTop: theme.spacing.lg,
       backgroundColor: colors.surface,
@@ -750,6 +1346,63 @@ function createStyles(colors: ThemeColors) {
       color: colors.textPrimary,
       marginBottom: theme.spacing.sm,
     },
+    setRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+    },
+    setLabel: {
+      width: 44,
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+      marginBottom: theme.spacing.sm,
+    },
+    setInput: {
+      flex: 1,
+    },
+    setTimes: {
+      fontSize: theme.fontSize.md,
+      color: colors.textMuted,
+      marginBottom: theme.spacing.sm,
+    },
+    setFooter: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: theme.spacing.sm,
+    },
+    addSetText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+    setEstimate: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+    },
+    distanceRow: {
+      flexDirection: 'row',
+      gap: theme.spacing.xs,
+    },
+    distanceChip: {
+      paddingHorizontal: theme.spacing.sm,
+      paddingVertical: 6,
+      borderRadius: theme.borderRadius.full,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    distanceChipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    distanceChipText: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.medium,
+      color: colors.textSecondary,
+    },
+    distanceChipTextSelected: {
+      color: '#fff',
+    },
     logButtons: {
       flexDirection: 'row',
       justifyContent: 'flex-end',
@@ -0,0 +1,299 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme } from '@/lib/theme';
+import type { ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useDeleteGoalEntry, useGoalEntries, useUpdateGoalEntry } from '@/hooks/useGoalsQuery';
+import { MAX_GOAL_ENTRY_NOTE_LENGTH, parseEntryValue } from '@/lib/goalImport';
+import { formatDuration, formatRunningDistance, isDurationUnit, isRunningGoal } from '@/lib/goalMath';
+import type { Goal, GoalEntry } from '@/lib/types';
+import GoalBackfillSheet from './GoalBackfillSheet';
+
+// Most recent entries shown before "Show all"
+const COLLAPSED_ENTRY_COUNT = 5;
+
+interface GoalEntriesSectionProps {
+  goal: Goal;
+  formatValue: (value: number | null) => string;
+  onChanged: () => void;
+  onGoalUpdated: (goal: Goal) => void;
+}
+
+export default function GoalEntriesSection({
+  goal,
+  formatValue,
+  onChanged,
+  onGoalUpdated,
+}: GoalEntriesSectionProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { data: entries = [] } = useGoalEntries(goal.id);
+  const updateEntryMutation = useUpdateGoalEntry();
+  const deleteEntryMutation = useDeleteGoalEntry();
+
+  const [showAll, setShowAll] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [editNote, setEditNote] = useState('');
+  const [showBackfill, setShowBackfill] = useState(false);
+
+  const newestFirst = useMemo(() => [...entries].reverse(), [entries]);
+  const visibleEntries = showAll ? newestFirst : newestFirst.slice(0, COLLAPSED_ENTRY_COUNT);
+  const parsedEditValue = parseEntryValue(editValue, goal.unit);
+
+  const startEditing = (entry: GoalEntry) => {
+    setEditingId(entry.id);
+    setEditValue(
+      isDurationUnit(goal.unit) ? formatValue(Number(entry.value)) : String(entry.value)
+    );
+    setEditNote(entry.note ?? '');
+  };
+
+  const handleSave = async () => {
+    if (!editingId || parsedEditValue === null) return;
+    try {
+      await updateEntryMutation.mutateAsync({
+        entryId: editingId,
+        updates: {
+          value: parsedEditValue,
+          note: editNote.trim() || null,
+          // An edited time is for the goal's own distance
+          ...(isRunningGoal(goal) ? { distance_meters: null, duration_seconds: null } : {}),
+        },
+      });
+      setEditingId(null);
+      onChanged();
+    } catch (error) {
+      console.error('Error updating goal entry:', error);
+    }
+  };
+
+  const handleDelete = (entry: GoalEntry) => {
+    Alert.alert('Delete Entry', `Delete the entry for ${formatEntryDate(entry.recorded_date)}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteEntryMutation.mutateAsync({ entryId: entry.id });
+            setEditingId(null);
+            onChanged();
+          } catch (error) {
+            console.error('Error deleting goal entry:', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Entries</Text>
+        <TouchableOpacity onPress={() => setShowBackfill(true)} activeOpacity={0.7}>
+          <Text style={styles.headerAction}>Backfill / Import</Text>
+        </TouchableOpacity>
+      </View>
+
+      {entries.length === 0 ? (
+        <Text style={styles.emptyText}>
+          No entries yet. Log one below, or backfill past readings.
+        </Text>
+      ) : (
+        visibleEntries.map((entry) =>
+          entry.id === editingId ? (
+            <View key={entry.id} style={styles.editForm}>
+              <Text style={styles.entryDate}>{formatEntryDate(entry.recorded_date)}</Text>
+              <TextInput
+                style={styles.input}
+                value={editValue}
+                onChangeText={setEditValue}
+                placeholder={goal.unit}
+                placeholderTextColor={colors.textMuted}
+                keyboardType={isDurationUnit(goal.unit) ? 'numbers-and-punctuation' : 'decimal-pad'}
+                autoFocus
+              />
+              <TextInput
+                style={styles.input}
+                value={editNote}
+                onChangeText={setEditNote}
+                placeholder="Note (optional)"
+                placeholderTextColor={colors.textMuted}
+                maxLength={MAX_GOAL_ENTRY_NOTE_LENGTH}
+              />
+              <View style={styles.formButtons}>
+                <TouchableOpacity onPress={() => handleDelete(entry)} style={styles.deleteButton}>
+                  <FontAwesome name="trash-o" size={15} color={colors.danger} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setEditingId(null)}>
+                  <Text style={styles.cancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.saveButton, parsedEditValue === null && { opacity: 0.5 }]}
+                  onPress={handleSave}
+                  disabled={parsedEditValue === null}
+                >
+                  <Text style={styles.saveText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity
+              key={entry.id}
+              style={styles.entryRow}
+              onPress={() => startEditing(entry)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.entryInfo}>
+                <Text style={styles.entryDate}>{formatEntryDate(entry.recorded_date)}</Text>
+                {entry.distance_meters && entry.duration_seconds ? (
+                  <Text style={styles.entryNote} numberOfLines={1}>
+                    {formatRunningDistance(Number(entry.distance_meters))} in{' '}
+                    {formatDuration(Number(entry.duration_seconds))}
+                  </Text>
+                ) : null}
+                {entry.note ? (
+                  <Text style={styles.entryNote} numberOfLines={1}>
+                    {entry.note}
+                  </Text>
+                ) : null}
+              </View>
+              <Text style={styles.entryValue}>
+                {formatValue(Number(entry.value))} {isDurationUnit(goal.unit) ? '' : goal.unit}
+              </Text>
+              <FontAwesome name="pencil" size={12} color={colors.textMuted} />
+            </TouchableOpacity>
+          )
+        )
+      )}
+
+      {entries.length > COLLAPSED_ENTRY_COUNT && (
+        <TouchableOpacity onPress={() => setShowAll(!showAll)} activeOpacity={0.7}>
+          <Text style={styles.headerAction}>
+            {showAll ? 'Show fewer' : `Show all ${entries.length}`}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <GoalBackfillSheet
+        visible={showBackfill}
+        goal={goal}
+        existingEntries={entries}
+        onClose={() => setShowBackfill(false)}
+        onImported={(updatedGoal) => {
+          setShowBackfill(false);
+          if (updatedGoal.start_date !== goal.start_date) onGoalUpdated(updatedGoal);
+          onChanged();
+        }}
+      />
+    </View>
+  );
+}
+
+function formatEntryDate(dateStr: string): string {
+  const d = new Date(dateStr + 'T12:00:00');
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      marginTop: theme.spacing.lg,
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      gap: theme.spacing.sm,
+      ...theme.shadow.sm,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    title: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    headerAction: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+    emptyText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+    },
+    entryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      paddingVertical: 4,
+    },
+    entryInfo: {
+      flex: 1,
+    },
+    entryDate: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.medium,
+      color: colors.textPrimary,
+    },
+    entryNote: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+      marginTop: 1,
+    },
+    entryValue: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    editForm: {
+      gap: theme.spacing.xs,
+      paddingVertical: theme.spacing.xs,
+    },
+    input: {
+      backgroundColor: colors.background,
+      borderRadius: theme.borderRadius.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 10,
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    formButtons: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+    },
+    deleteButton: {
+      marginRight: 'auto',
+      padding: theme.spacing.xs,
+    },
+    cancelButton: {
+      paddingVertical: 8,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: theme.borderRadius.md,
+    },
+    cancelText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      fontWeight: theme.fontWeight.medium,
+    },
+    saveButton: {
+      paddingVertical: 8,
+      paddingHorizontal: theme.spacing.md,
+      backgroundColor: colors.primary,
+      borderRadius: theme.borderRadius.md,
+    },
+    saveText: {
+      fontSize: theme.fontSize.sm,
+      color: '#fff',
+      fontWeight: theme.fontWeight.semibold,
+    },
+  });
+}
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme } from '@/lib/theme';
+import type { ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { HIGH_ADHERENCE_PERCENT, type HabitGoalAnalysis } from '@/lib/goalMath';
+import type { Habit } from '@/lib/types';
+
+interface GoalHabitsSectionProps {
+  habits: Habit[];
+  linkedHabitIds: string[];
+  analysis: HabitGoalAnalysis | null;
+  unit: string;
+  color: string;
+  onChange: (habitIds: string[]) => void;
+}
+
+export default function GoalHabitsSection({
+  habits,
+  linkedHabitIds,
+  analysis,
+  unit,
+  color,
+  onChange,
+}: GoalHabitsSectionProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [editing, setEditing] = useState(false);
+
+  const linkedHabits = habits.filter((h) => linkedHabitIds.includes(h.id));
+
+  const toggleHabit = (habitId: string) => {
+    onChange(
+      linkedHabitIds.includes(habitId)
+        ? linkedHabitIds.filter((id) => id !== habitId)
+        : [...linkedHabitIds, habitId]
+    );
+  };
+
+  const best = analysis?.best ?? null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Driving habits</Text>
+        {habits.length > 0 && (
+          <TouchableOpacity onPress={() => setEditing(!editing)} activeOpacity={0.7}>
+            <Text style={styles.editText}>{editing ? 'Done' : 'Edit'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {editing ? (
+        <View style={styles.chipRow}>
+          {habits.map((habit) => {
+            const selected = linkedHabitIds.includes(habit.id);
+            return (
+              <TouchableOpacity
+                key={habit.id}
+                style={[styles.chip, selected && { backgroundColor: color, borderColor: color }]}
+                onPress={() => toggleHabit(habit.id)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {habit.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ) : linkedHabits.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {habits.length > 0
+            ? 'Link the habits you expect to move this goal to see whether they do.'
+            : 'Add a habit to link it to this goal.'}
+        </Text>
+      ) : (
+        <>
+          <View style={styles.chipRow}>
+            {linkedHabits.map((habit) => (
+              <View key={habit.id} style={styles.chip}>
+                <Text style={styles.chipText}>{habit.name}</Text>
+              </View>
+            ))}
+          </View>
+
+          {best ? (
+            <View style={styles.insightRow}>
+              <FontAwesome name="line-chart" size={13} color={color} />
+              <Text style={styles.insightText}>
+                Weeks with ≥{HIGH_ADHERENCE_PERCENT}% adherence averaged{' '}
+                <Text style={styles.insightValue}>
+                  {formatRate(best.highAdherenceRate!)} {unit}/week
+                </Text>{' '}
+                vs {formatRate(best.lowAdherenceRate!)} otherwise
+                {best.lagWeeks > 0
+                  ? `, measured ${best.lagWeeks} week${best.lagWeeks === 1 ? '' : 's'} later`
+                  : ''}
+                .
+              </Text>
+            </View>
+          ) : (
+            <Text style={styles.emptyText}>
+              A few more weeks of data are needed to compare strong and weak weeks.
+            </Text>
+          )}
+          {best && (
+            <Text style={styles.footnote}>
+              Based on {best.pairedWeeks} weeks. Correlation isn't proof, but it's a useful hint.
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+function formatRate(rate: number): string {
+  const rounded = Math.round(rate * 10) / 10;
+  if (rounded === 0) return '0.0';
+  return `${rounded > 0 ? '+' : '−'}${Math.abs(rounded).toFixed(1)}`;
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      marginTop: theme.spacing.lg,
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      gap: theme.spacing.sm,
+      ...theme.shadow.sm,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    title: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    editText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+    emptyText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.xs,
+    },
+    chip: {
+      backgroundColor: colors.background,
+      borderRadius: theme.borderRadius.full,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: theme.spacing.sm,
+      paddingVertical: 5,
+    },
+    chipText: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textSecondary,
+      fontWeight: theme.fontWeight.medium,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+    insightRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: theme.spacing.sm,
+      marginTop: theme.spacing.xs,
+    },
+    insightText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      lineHeight: 20,
+    },
+    insightValue: {
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    footnote: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+    },
+  });
+}
@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Switch } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme } from '@/lib/theme';
+import type { ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { isDurationUnit, parseDuration, type GoalMilestone } from '@/lib/goalMath';
+import type { GoalMilestoneDefinition } from '@/lib/types';
+
+interface GoalMilestonesSectionProps {
+  milestones: GoalMilestone[];
+  customMilestones: GoalMilestoneDefinition[];
+  autoMilestones: boolean;
+  unit: string;
+  color: string;
+  formatValue: (value: number | null) => string;
+  onChange: (milestones: GoalMilestoneDefinition[], autoMilestones: boolean) => void;
+}
+
+export default function GoalMilestonesSection({
+  milestones,
+  customMilestones,
+  autoMilestones,
+  unit,
+  color,
+  formatValue,
+  onChange,
+}: GoalMilestonesSectionProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [showForm, setShowForm] = useState(false);
+  const [label, setLabel] = useState('');
+  const [value, setValue] = useState('');
+
+  const parsedValue = isDurationUnit(unit) ? parseDuration(value) ?? NaN : parseFloat(value);
+  const canSave = Number.isFinite(parsedValue);
+  const nextId = milestones.find((m) => !m.reachedOn)?.id;
+
+  const closeForm = () => {
+    setShowForm(false);
+    setLabel('');
+    setValue('');
+  };
+
+  const handleAdd = () => {
+    if (!canSave) return;
+    const withoutSameValue = customMilestones.filter((m) => m.value !== parsedValue);
+    onChange([...withoutSameValue, { label: label.trim(), value: parsedValue }], autoMilestones);
+    closeForm();
+  };
+
+  const handleRemove = (milestone: GoalMilestone) => {
+    onChange(
+      customMilestones.filter((m) => m.value !== milestone.value),
+      autoMilestones,
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Milestones</Text>
+        <View style={styles.autoToggle}>
+          <Text style={styles.autoLabel}>Every 25%</Text>
+          <Switch
+            value={autoMilestones}
+            onValueChange={(next) => onChange(customMilestones, next)}
+            trackColor={{ false: colors.borderLight, true: colors.primaryLight }}
+            thumbColor="#f4f3f4"
+          />
+        </View>
+      </View>
+
+      {milestones.length === 0 ? (
+        <Text style={styles.emptyText}>
+          Add a checkpoint to celebrate on the way to your target.
+        </Text>
+      ) : (
+        milestones.map((milestone) => {
+          const reached = !!milestone.reachedOn;
+          const isNext = milestone.id === nextId;
+          return (
+            <View key={milestone.id} style={styles.milestoneRow}>
+              <FontAwesome
+                name={reached ? 'check-circle' : isNext ? 'dot-circle-o' : 'circle-o'}
+                size={18}
+                color={reached ? colors.success : isNext ? color : colors.textMuted}
+              />
+              <View style={styles.milestoneInfo}>
+                <Text style={[styles.milestoneLabel, !reached && !isNext && styles.milestoneLabelMuted]}>
+                  {milestone.label}
+                </Text>
+                <Text style={styles.milestoneMeta}>
+                  {formatValue(milestone.value)} {isDurationUnit(unit) ? '' : unit}
+                  {reached
+                    ? ` • Reached ${formatMilestoneDate(milestone.reachedOn!)}`
+                    : isNext
+                      ? ' • Up next'
+                      : ''}
+                </Text>
+              </View>
+              {!milestone.isAuto && (
+                <TouchableOpacity
+                  onPress={() => handleRemove(milestone)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <FontAwesome name="times" size={14} color={colors.textMuted} />
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      )}
+
+      {showForm ? (
+        <View style={styles.form}>
+          <TextInput
+            style={styles.input}
+            value={label}
+            onChangeText={setLabel}
+            placeholder="Name (e.g. Sub-200 lbs)"
+            placeholderTextColor={colors.textMuted}
+            autoFocus
+          />
+          <TextInput
+            style={styles.input}
+            value={value}
+            onChangeText={setValue}
+            placeholder={isDurationUnit(unit) ? 'Time (e.g. 19:59)' : `Value (${unit})`}
+            placeholderTextColor={colors.textMuted}
+            keyboardType={isDurationUnit(unit) ? 'numbers-and-punctuation' : 'decimal-pad'}
+          />
+          <View style={styles.formButtons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={closeForm}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, !canSave && { opacity: 0.5 }]}
+              onPress={handleAdd}
+              disabled={!canSave}
+            >
+              <Text style={styles.saveText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.addButton} onPress={() => setShowForm(true)} activeOpacity={0.7}>
+          <FontAwesome name="flag-o" size={13} color={colors.primary} />
+          <Text style={styles.addButtonText}>Add milestone</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+function formatMilestoneDate(dateStr: string): string {
+  const d = new Date(dateStr + 'T12:00:00');
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      marginTop: theme.spacing.lg,
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      gap: theme.spacing.sm,
+      ...theme.shadow.sm,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    title: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    autoToggle: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.xs,
+    },
+    autoLabel: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+    },
+    emptyText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+    },
+    milestoneRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      paddingVertical: 4,
+    },
+    milestoneInfo: {
+      flex: 1,
+    },
+    milestoneLabel: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.medium,
+      color: colors.textPrimary,
+    },
+    milestoneLabelMuted: {
+      color: colors.textSecondary,
+    },
+    milestoneMeta: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+      marginTop: 1,
+    },
+    form: {
+      marginTop: theme.spacing.xs,
+    },
+    input: {
+      backgroundColor: colors.background,
+      borderRadius: theme.borderRadius.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 10,
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+      marginBottom: theme.spacing.sm,
+    },
+    formButtons: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: theme.spacing.sm,
+    },
+    cancelButton: {
+      paddingVertical: 8,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: theme.borderRadius.md,
+    },
+    cancelText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      fontWeight: theme.fontWeight.medium,
+    },
+    saveButton: {
+      paddingVertical: 8,
+      paddingHorizontal: theme.spacing.md,
+      backgroundColor: colors.primary,
+      borderRadius: theme.borderRadius.md,
+    },
+    saveText: {
+      fontSize: theme.fontSize.sm,
+      color: '#fff',
+      fontWeight: theme.fontWeight.semibold,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.xs,
+      paddingVertical: theme.spacing.xs,
+    },
+    addButtonText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+  });
+}
@@ -3,10 +3,16 @@ import { View, Text, StyleSheet } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme, type ThemeColors } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
-import { HabitWeeklyStats } from '@/lib/habits';
+import { HabitStreak, HabitWeeklyStats } from '@/lib/habits';
 
 interface HabitAdherenceRowProps {
   stat: HabitWeeklyStats;
+  streak?: HabitStreak;
+}
+
+// Partial days on quantitative habits show one decimal (e.g. 3.5/5)
+function formatProgressDays(days: number): string {
+  return Number.isInteger(days) ? String(days) : days.toFixed(1);
 }
 
 function getStatusColor(status: HabitWeeklyStats['status'], colors: ThemeColors): string {
@@ -15,6 +21,10 @@ function getStatusColor(status: HabitWeeklyStats['status'], colors: ThemeColors)
 }
 
 function getStatusLabel(stat: HabitWeeklyStats): string {
+  // Avoid habits report the week's slips rather than a pace
+  if (stat.slipCount !== undefined) {
+    return stat.slipCount === 0 ? 'Clean' : `${stat.slipCount} ${stat.slipCount === 1 ? 'slip' : 'slips'}`;
+  }
   switch (stat.status) {
     case 'behind':
       return 'Behind';
@@ -27,10 +37,11 @@ function getStatusLabel(stat: HabitWeeklyStats): string {
   }
 }
 
-export default function HabitAdherenceRow({ stat }: HabitAdherenceRowProps) {
+export default function HabitAdherenceRow({ stat, streak }: HabitAdherenceRowProps) {
   const colors = useThemeColors();
   const styles = useMemo(() => createStyles(colors), [colors]);
-  const progress = stat.targetDays > 0 ? Math.min(100, Math.round((stat.completedDays / stat.targetDays) * 100)) : 0;
+  const progressDays = stat.progressDays ?? stat.completedDays;
+  const progress = stat.targetDays > 0 ? Math.min(100, Math.round((progressDays / stat.targetDays) * 100)) : 0;
   const statusColor = getStatusColor(stat.status, colors);
 
   return (
@@ -45,6 +56,12 @@ export default function HabitAdherenceRow({ stat }: HabitAdherenceRowProps) {
           <Text style={styles.habitName} numberOfLines={1}>
             {stat.habit.name}
           </Text>
+          {streak && streak.current > 0 && (
+            <View style={styles.streakBadge}>
+              <FontAwesome name="fire" size={10} color={colors.warning} />
+              <Text style={styles.streakText}>{streak.current}</Text>
+            </View>
+          )}
         </View>
         <Text style={[styles.statusText, { color: statusColor }]}>{getStatusLabel(stat)}</Text>
       </View>
@@ -54,7 +71,7 @@ export default function HabitAdherenceRow({ stat }: HabitAdherenceRowProps) {
           <View style={[styles.fill, { width: `${progress}%`, backgroundColor: statusColor }]} />
         </View>
         <Text style={styles.fraction}>
-          {stat.completedDays}/{stat.targetDays}
+          {formatProgressDays(progressDays)}/{stat.targetDays}
         </Text>
       </View>
     </View>
@@ -93,6 +110,17 @@ function createStyles(colors: ThemeColors) {
     fontWeight: theme.fontWeight.semibold,
     color: colors.textPrimary,
   },
+  streakBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    marginLeft: theme.spacing.xs,
+  },
+  streakText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: colors.textSecondary,
+  },
   statusText: {
     fontSize: theme.fontSize.xs,
     fontWeight: theme.fontWeight.semibold,
@@ -18,6 +18,9 @@ import {
   DAY_LABELS,
   DayOfWeek,
   HABIT_LINKABLE_METRICS,
+  HabitRecurrence,
+  HabitRecurrenceType,
+  HabitType,
   HealthMetricType,
   IdentityStatement,
   METRIC_TYPE_LABELS,
@@ -26,6 +29,24 @@ import {
 import { useHealth } from '@/contexts/HealthContext';
 import { CATEGORY_ICONS } from '@/components/CategoryPicker';
 import { getCategoryIdForStatement } from '@/lib/identityTemplates';
+import { getApproximateWeeklyFrequency, getTodayDate } from '@/lib/habits';
+import { formatReminderTime, normalizeReminderTime } from '@/lib/habitReminders';
+
+type ScheduleType = 'weekly' | HabitRecurrenceType;
+
+const SCHEDULE_OPTIONS: { type: ScheduleType; label: string }[] = [
+  { type: 'weekly', label: 'Weekly' },
+  { type: 'interval_days', label: 'Every N days' },
+  { type: 'monthly_count', label: 'Monthly' },
+  { type: 'day_of_month', label: 'Dates' },
+];
+
+const HABIT_TYPE_OPTIONS: { type: HabitType; label: string }[] = [
+  { type: 'build', label: 'Build' },
+  { type: 'avoid', label: 'Avoid' },
+];
+
+const DAYS_OF_MONTH = Array.from({ length: 31 }, (_, i) => i + 1);
 
 interface HabitFormData {
   name: string;
@@ -36,6 +57,12 @@ interface HabitFormData {
   metric_threshold: number | null;
   auto_complete: boolean;
   identity_statement_id: string | null;
+  target_amount: number | null;
+  unit: string | null;
+  recurrence: HabitRecurrence | null;
+  habit_type: HabitType;
+  reminder_times: string[] | null;
+  reminder_days: number[] | null;
 }
 
 interface HabitFormProps {
@@ -63,15 +90,37 @@ export default function HabitForm({
 
   const [name, setName] = useState(initialData?.name || '');
   const [description, setDescription] = useState(initialData?.description || '');
+  const [habitType, setHabitType] = useState<HabitType>(initialData?.habit_type ?? 'build');
+  const isAvoid = habitType === 'avoid';
   const [frequencyPerWeek, setFrequencyPerWeek] = useState(initialData?.frequency_per_week || 7);
   const [useSpecificDays, setUseSpecificDays] = useState(
     initialData?.specific_days != null && initialData.specific_days.length > 0
   );
   const [specificDays, setSpecificDays] = useState<number[]>(initialData?.specific_days || []);
+
+  // Recurrence state (anything beyond the weekly schedule)
+  const initialRecurrence = initialData?.recurrence ?? null;
+  const [scheduleType, setScheduleType] = useState<ScheduleType>(initialRecurrence?.type ?? 'weekly');
+  const [intervalDays, setIntervalDays] = useState(
+    initialRecurrence?.type === 'interval_days' ? initialRecurrence.interval.toString() : '14'
+  );
+  const [timesPerMonth, setTimesPerMonth] = useState(
+    initialRecurrence?.type === 'monthly_count' ? initialRecurrence.times_per_month.toString() : '4'
+  );
+  const [daysOfMonth, setDaysOfMonth] = useState<number[]>(
+    initialRecurrence?.type === 'day_of_month' ? initialRecurrence.days : []
+  );
   const [selectedIdentityId, setSelectedIdentityId] = useState<string | null>(
     initialData?.identity_statement_id ?? defaultIdentityId ?? null,
   );
 
+  // Quantitative target state
+  const [trackAmount, setTrackAmount] = useState(initialData?.target_amount != null);
+  const [targetAmount, setTargetAmount] = useState(
+    initialData?.target_amount?.toString() || ''
+  );
+  const [unit, setUnit] = useState(initialData?.unit || '');
+
   // Health metric linking state
   const [linkMetric, setLinkMetric] = useState(initialData?.auto_complete || false);
   const [metricType, setMetricType] = useState<HealthMetricType | null>(
@@ -81,17 +130,92 @@ export default function HabitForm({
     initialData?.metric_threshold?.toString() || ''
   );
 
+  // Reminder state
+  const [reminderTimes, setReminderTimes] = useState<string[]>(initialData?.reminder_times ?? []);
+  const [newReminderTime, setNewReminderTime] = useState('');
+  const [limitReminderDays, setLimitReminderDays] = useState(initialData?.reminder_days != null);
+  const [reminderDays, setReminderDays] = useState<number[]>(initialData?.reminder_days ?? []);
+  const newReminderValid = normalizeReminderTime(newReminderTime) !== null;
+
   const toggleDay = (day: number) => {
     setSpecificDays((prev) =>
       prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()
     );
   };
 
+  const toggleReminderDay = (day: number) => {
+    setReminderDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()
+    );
+  };
+
+  const addReminderTime = () => {
+    const time = normalizeReminderTime(newReminderTime);
+    if (!time) return;
+    setReminderTimes((prev) => (prev.includes(time) ? prev : [...prev, time].sort()));
+    setNewReminderTime('');
+  };
+
+  const toggleDayOfMonth = (day: number) => {
+    setDaysOfMonth((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
+
+  const buildRecurrence = (): HabitRecurrence | null => {
+    switch (scheduleType) {
+      case 'interval_days': {
+        const interval = parseInt(intervalDays, 10);
+        if (!(interval >= 1)) return null;
+        // Keep the original anchor so editing other fields doesn't shift the cycle
+        const startDate =
+          initialRecurrence?.type === 'interval_days' ? initialRecurrence.start_date : getTodayDate();
+        return { type: 'interval_days', interval, start_date: startDate };
+      }
+      case 'monthly_count': {
+        const times = parseInt(timesPerMonth, 10);
+        if (!(times >= 1 && times <= 31)) return null;
+        return { type: 'monthly_count', times_per_month: times };
+      }
+      case 'day_of_month':
+        return daysOfMonth.length > 0 ? { type: 'day_of_month', days: daysOfMonth } : null;
+      default:
+        return null;
+    }
+  };
+
+  const recurrence = buildRecurrence();
+  const scheduleValid = isAvoid || scheduleType === 'weekly' || recurrence !== null;
+  const canSubmit = !!name.trim() && scheduleValid;
+
   const handleSubmit = () => {
-    if (!name.trim()) return;
+    if (!canSubmit) return;
+
+    // Avoid habits are tracked every day by slips, with no schedule, amount or health link
+    if (isAvoid) {
+      onSubmit({
+        name: name.trim(),
+        description: description.trim(),
+        frequency_per_week: 7,
+        specific_days: null,
+        metric_type: null,
+        metric_threshold: null,
+        auto_complete: false,
+        identity_statement_id: selectedIdentityId,
+        target_amount: null,
+        unit: null,
+        recurrence: null,
+        habit_type: 'avoid',
+        reminder_times: null,
+        reminder_days: null,
+      });
+      return;
+    }
 
-    const days = useSpecificDays ? specificDays : null;
-    const freq = useSpecificDays ? specificDays.length : frequencyPerWeek;
+    const days = recurrence || !useSpecificDays ? null : specificDays;
+    const freq = recurrence
+      ? getApproximateWeeklyFrequency(recurrence)
+      : useSpecificDays ? specificDays.length : frequencyPerWeek;
 
     onSubmit({
       name: name.trim(),
@@ -102,6 +226,12 @@ export default function HabitForm({
       metric_threshold: linkMetric && metricThreshold ? parseFloat(metricThreshold) : null,
       auto_complete: linkMetric,
       identity_statement_id: selectedIdentityId,
+      target_amount: trackAmount && parseFloat(targetAmount) > 0 ? parseFloat(targetAmount) : null,
+      unit: trackAmount && unit.trim() ? unit.trim() : null,
+      recurrence,
+      habit_type: 'build',
+      reminder_times: reminderTimes.length > 0 ? reminderTimes : null,
+      reminder_days: reminderTimes.length > 0 && limitReminderDays ? reminderDays : null,
     });
   };
 
@@ -136,6 +266,37 @@ export default function HabitForm({
         </View>
       )}
 
+      <View style={styles.field}>
+        <Text style={styles.label}>Type</Text>
+        <View style={styles.metricRow}>
+          {HABIT_TYPE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.type}
+              style={[
+                styles.metricButton,
+                habitType === option.type && styles.metricButtonActive,
+              ]}
+              onPress={() => setHabitType(option.type)}
+              activeOpacity={0.7}
+            >
+              <Text
+                style={[
+                  styles.metricButtonText,
+                  habitType === option.type && styles.metricButtonTextActive,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.helperText}>
+          {isAvoid
+            ? 'Log a slip when it happens — every other day counts as a win'
+            : 'Check it off when you do it'}
+        </Text>
+      </View>
+
       {identityStatements && identityStatements.length > 0 && (
         <View style={styles.field}>
           <Text style={styles.label}>Which identity does this represent?</Text>
@@ -187,84 +348,318 @@ export default function HabitForm({
         </View>
       )}
 
-      <View style={styles.field}>
-        <View style={styles.switchRow}>
-          <View style={styles.switchLabelContainer}>
-            <Text style={styles.label}>Specific days</Text>
-            <Text style={styles.helperText}>
-              {useSpecificDays
-                ? 'Choose which days of the week'
-                : 'Any days of the week'}
-            </Text>
-          </View>
-          <Switch
-            value={useSpecificDays}
-            onValueChange={(val) => {
-              setUseSpecificDays(val);
-              if (!val) setSpecificDays([]);
-            }}
-            trackColor={{ false: colors.border, true: colors.primaryLight }}
-            thumbColor="#f4f3f4"
-          />
-        </View>
-      </View>
-
-      {useSpecificDays ? (
+      {!isAvoid && (
         <View style={styles.field}>
-          <Text style={styles.label}>Select Days</Text>
-          <View style={styles.daysRow}>
-            {([0, 1, 2, 3, 4, 5, 6] as DayOfWeek[]).map((day) => (
+          <Text style={styles.label}>Repeat</Text>
+          <View style={styles.metricRow}>
+            {SCHEDULE_OPTIONS.map((option) => (
               <TouchableOpacity
-                key={day}
+                key={option.type}
                 style={[
-                  styles.dayButton,
-                  specificDays.includes(day) && styles.dayButtonActive,
+                  styles.metricButton,
+                  scheduleType === option.type && styles.metricButtonActive,
                 ]}
-                onPress={() => toggleDay(day)}
+                onPress={() => setScheduleType(option.type)}
                 activeOpacity={0.7}
               >
                 <Text
                   style={[
-                    styles.dayButtonText,
-                    specificDays.includes(day) && styles.dayButtonTextActive,
+                    styles.metricButtonText,
+                    scheduleType === option.type && styles.metricButtonTextActive,
                   ]}
                 >
-                  {DAY_LABELS[day]}
+                  {option.label}
                 </Text>
               </TouchableOpacity>
             ))}
           </View>
         </View>
-      ) : (
+      )}
+
+      {!isAvoid && scheduleType === 'weekly' && (
+        <>
+          <View style={styles.field}>
+            <View style={styles.switchRow}>
+              <View style={styles.switchLabelContainer}>
+                <Text style={styles.label}>Specific days</Text>
+                <Text style={styles.helperText}>
+                  {useSpecificDays
+                    ? 'Choose which days of the week'
+                    : 'Any days of the week'}
+                </Text>
+              </View>
+              <Switch
+                value={useSpecificDays}
+                onValueChange={(val) => {
+                  setUseSpecificDays(val);
+                  if (!val) setSpecificDays([]);
+                }}
+                trackColor={{ false: colors.border, true: colors.primaryLight }}
+                thumbColor="#f4f3f4"
+              />
+            </View>
+          </View>
+
+          {useSpecificDays ? (
+            <View style={styles.field}>
+              <Text style={styles.label}>Select Days</Text>
+              <View style={styles.daysRow}>
+                {([0, 1, 2, 3, 4, 5, 6] as DayOfWeek[]).map((day) => (
+                  <TouchableOpacity
+                    key={day}
+                    style={[
+                      styles.dayButton,
+                      specificDays.includes(day) && styles.dayButtonActive,
+                    ]}
+                    onPress={() => toggleDay(day)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        styles.dayButtonText,
+                        specificDays.includes(day) && styles.dayButtonTextActive,
+                      ]}
+                    >
+                      {DAY_LABELS[day]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ) : (
+            <View style={styles.field}>
+              <Text style={styles.label}>Times per week</Text>
+              <View style={styles.frequencyRow}>
+                {[1, 2, 3, 4, 5, 6, 7].map((num) => (
+                  <TouchableOpacity
+                    key={num}
+                    style={[
+                      styles.frequencyButton,
+                      frequencyPerWeek === num && styles.frequencyButtonActive,
+                    ]}
+                    onPress={() => setFrequencyPerWeek(num)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        styles.frequencyButtonText,
+                        frequencyPerWeek === num && styles.frequencyButtonTextActive,
+                      ]}
+                    >
+                      {num}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+        </>
+      )}
+
+      {!isAvoid && scheduleType === 'interval_days' && (
         <View style={styles.field}>
-          <Text style={styles.label}>Times per week</Text>
-          <View style={styles.frequencyRow}>
-            {[1, 2, 3, 4, 5, 6, 7].map((num) => (
+          <Text style={styles.label}>Every how many days?</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="14"
+            placeholderTextColor={colors.textMuted}
+            value={intervalDays}
+            onChangeText={setIntervalDays}
+            keyboardType="number-pad"
+          />
+          <Text style={styles.helperText}>
+            {initialRecurrence?.type === 'interval_days'
+              ? `Counting from ${initialRecurrence.start_date}`
+              : 'Starts today'}
+          </Text>
+        </View>
+      )}
+
+      {!isAvoid && scheduleType === 'monthly_count' && (
+        <View style={styles.field}>
+          <Text style={styles.label}>Times per month</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="4"
+            placeholderTextColor={colors.textMuted}
+            value={timesPerMonth}
+            onChangeText={setTimesPerMonth}
+            keyboardType="number-pad"
+          />
+          <Text style={styles.helperText}>Any days of the month</Text>
+        </View>
+      )}
+
+      {!isAvoid && scheduleType === 'day_of_month' && (
+        <View style={styles.field}>
+          <Text style={styles.label}>Select dates</Text>
+          <View style={styles.monthGrid}>
+            {DAYS_OF_MONTH.map((day) => (
               <TouchableOpacity
-                key={num}
+                key={day}
                 style={[
-                  styles.frequencyButton,
-                  frequencyPerWeek === num && styles.frequencyButtonActive,
+                  styles.monthDayButton,
+                  daysOfMonth.includes(day) && styles.dayButtonActive,
                 ]}
-                onPress={() => setFrequencyPerWeek(num)}
+                onPress={() => toggleDayOfMonth(day)}
                 activeOpacity={0.7}
               >
                 <Text
                   style={[
-                    styles.frequencyButtonText,
-                    frequencyPerWeek === num && styles.frequencyButtonTextActive,
+                    styles.dayButtonText,
+                    daysOfMonth.includes(day) && styles.dayButtonTextActive,
                   ]}
                 >
-                  {num}
+                  {day}
                 </Text>
               </TouchableOpacity>
             ))}
           </View>
+          <Text style={styles.helperText}>
+            Dates past the end of a short month fall on its last day
+          </Text>
+        </View>
+      )}
+
+      {!isAvoid && (
+        <View style={styles.field}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabelContainer}>
+              <Text style={styles.label}>Track an amount</Text>
+              <Text style={styles.helperText}>
+                {trackAmount
+                  ? 'Done once you reach the daily target'
+                  : 'e.g. drink 8 glasses, read 20 pages'}
+              </Text>
+            </View>
+            <Switch
+              value={trackAmount}
+              onValueChange={setTrackAmount}
+              trackColor={{ false: colors.border, true: colors.primaryLight }}
+              thumbColor="#f4f3f4"
+            />
+          </View>
+        </View>
+      )}
+
+      {!isAvoid && trackAmount && (
+        <View style={styles.field}>
+          <Text style={styles.label}>Daily target</Text>
+          <View style={styles.amountRow}>
+            <TextInput
+              style={[styles.input, styles.amountInput]}
+              placeholder="8"
+              placeholderTextColor={colors.textMuted}
+              value={targetAmount}
+              onChangeText={setTargetAmount}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.unitInput]}
+              placeholder="glasses"
+              placeholderTextColor={colors.textMuted}
+              value={unit}
+              onChangeText={setUnit}
+              autoCapitalize="none"
+            />
+          </View>
+        </View>
+      )}
+
+      {!isAvoid && (
+        <View style={styles.field}>
+          <Text style={styles.label}>Reminders</Text>
+          {reminderTimes.length > 0 && (
+            <View style={[styles.metricRow, styles.reminderChips]}>
+              {reminderTimes.map((time) => (
+                <TouchableOpacity
+                  key={time}
+                  style={[styles.metricButton, styles.reminderChip]}
+                  onPress={() => setReminderTimes((prev) => prev.filter((t) => t !== time))}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.metricButtonText}>{formatReminderTime(time)}</Text>
+                  <FontAwesome name="times" size={10} color={colors.textMuted} />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <View style={styles.amountRow}>
+            <TextInput
+              style={[styles.input, styles.unitInput]}
+              placeholder="e.g., 7:30 or 19:00"
+              placeholderTextColor={colors.textMuted}
+              value={newReminderTime}
+              onChangeText={setNewReminderTime}
+              onSubmitEditing={addReminderTime}
+              keyboardType="numbers-and-punctuation"
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              style={[styles.addTimeButton, !newReminderValid && styles.buttonDisabled]}
+              onPress={addReminderTime}
+              disabled={!newReminderValid}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.addTimeButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.helperText}>
+            {reminderTimes.length > 0
+              ? "Skipped on days you've already done or snoozed it"
+              : 'Get a nudge at set times (24-hour)'}
+          </Text>
+        </View>
+      )}
+
+      {!isAvoid && reminderTimes.length > 0 && (
+        <View style={styles.field}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabelContainer}>
+              <Text style={styles.label}>Remind only on certain days</Text>
+              <Text style={styles.helperText}>
+                {limitReminderDays ? 'On the days below, when scheduled' : 'Every day this habit is scheduled'}
+              </Text>
+            </View>
+            <Switch
+              value={limitReminderDays}
+              onValueChange={(val) => {
+                setLimitReminderDays(val);
+                if (!val) setReminderDays([]);
+              }}
+              trackColor={{ false: colors.border, true: colors.primaryLight }}
+              thumbColor="#f4f3f4"
+            />
+          </View>
+          {limitReminderDays && (
+            <View style={[styles.daysRow, styles.reminderDaysRow]}>
+              {([0, 1, 2, 3, 4, 5, 6] as DayOfWeek[]).map((day) => (
+                <TouchableOpacity
+                  key={day}
+                  style={[
+                    styles.dayButton,
+                    reminderDays.includes(day) && styles.dayButtonActive,
+                  ]}
+                  onPress={() => toggleReminderDay(day)}
+                  activeOpacity={0.7}
+                >
+                  <Text
+                    style={[
+                      styles.dayButtonText,
+                      reminderDays.includes(day) && styles.dayButtonTextActive,
+                    ]}
+                  >
+                    {DAY_LABELS[day]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </View>
       )}
 
       {/* Health Metric Linking (only show if Apple Health is connected) */}
-      {healthAvailable && healthAuthorized && (
+      {!isAvoid && healthAvailable && healthAuthorized && (
         <>
           <View style={styles.field}>
             <View style={styles.switchRow}>
@@ -341,9 +736,9 @@ export default function HabitForm({
 
       <View style={styles.actions}>
         <TouchableOpacity
-          style={[styles.submitButton, !name.trim() && styles.buttonDisabled]}
+          style={[styles.submitButton, !canSubmit && styles.buttonDisabled]}
           onPress={handleSubmit}
-          disabled={!name.trim()}
+          disabled={!canSubmit}
           activeOpacity={0.8}
         >
           <Text style={styles.submitButtonText}>{submitLabel}</Text>
@@ -393,6 +788,16 @@ function createStyles(colors: ThemeColors) {
       fontSize: theme.fontSize.md,
       color: colors.textPrimary,
     },
+    amountRow: {
+      flexDirection: 'row',
+      gap: theme.spacing.sm,
+    },
+    amountInput: {
+      flex: 1,
+    },
+    unitInput: {
+      flex: 2,
+    },
     textArea: {
       minHeight: 80,
       paddingTop: 14,
@@ -438,6 +843,43 @@ function createStyles(colors: ThemeColors) {
     dayButtonTextActive: {
       color: '#fff',
     },
+    reminderChips: {
+      marginBottom: theme.spacing.sm,
+    },
+    reminderChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    reminderDaysRow: {
+      marginTop: theme.spacing.sm,
+    },
+    addTimeButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+      borderRadius: theme.borderRadius.md,
+    },
+    addTimeButtonText: {
+      color: '#fff',
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+    },
+    monthGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.xs,
+    },
+    monthDayButton: {
+      width: 40,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.sm,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+    },
     frequencyRow: {
       flexDirection: 'row',
       justifyContent: 'space-between',
@@ -4,17 +4,40 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme, ThemeColors } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
 import { Habit, DAY_LABELS, DayOfWeek } from '@/lib/types';
+import {
+  AbstinenceStats,
+  HabitStreak,
+  formatQuantity,
+  formatStreak,
+  formatRecurrenceLabel,
+  isAvoidHabit,
+  isQuantitativeHabit,
+} from '@/lib/habits';
+import { formatReminderTime } from '@/lib/habitReminders';
 
 interface HabitItemProps {
   habit: Habit;
+  abstinence?: AbstinenceStats; // clean-run stats, for avoid habits
+  streak?: HabitStreak;
+  /** Spend a freeze on the streak's just-missed period; shown only when one can be repaired */
+  onUseFreeze?: () => void;
   onEdit: () => void;
   onDelete: () => void;
 }
 
-export default function HabitItem({ habit, onEdit, onDelete }: HabitItemProps) {
+export default function HabitItem({
+  habit,
+  abstinence,
+  streak,
+  onUseFreeze,
+  onEdit,
+  onDelete,
+}: HabitItemProps) {
   const colors = useThemeColors();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const getDaysLabel = () => {
+    if (isAvoidHabit(habit)) return 'Avoid every day';
+    if (habit.recurrence) return formatRecurrenceLabel(habit.recurrence);
     if (habit.specific_days && habit.specific_days.length > 0) {
       return habit.specific_days.map((d) => DAY_LABELS[d as DayOfWeek]).join(', ');
     }
@@ -38,9 +61,57 @@ export default function HabitItem({ habit, onEdit, onDelete }: HabitItemProps) {
         ) : null}
 
         <View style={styles.scheduleRow}>
-          <FontAwesome name="calendar" size={12} color={colors.textMuted} />
+          <FontAwesome name={isAvoidHabit(habit) ? 'ban' : 'calendar'} size={12} color={colors.textMuted} />
           <Text style={styles.scheduleText}>{getDaysLabel()}</Text>
         </View>
+
+        {abstinence && (
+          <View style={styles.scheduleRow}>
+            <FontAwesome name="leaf" size={12} color={colors.textMuted} />
+            <Text style={styles.scheduleText}>
+              {abstinence.daysSinceLastSlip} {abstinence.daysSinceLastSlip === 1 ? 'day' : 'days'} clean
+              {' · '}best {abstinence.longestCleanRun}
+            </Text>
+          </View>
+        )}
+
+        {streak && (streak.current > 0 || streak.longest > 0) && (
+          <View style={styles.scheduleRow}>
+            <FontAwesome name="fire" size={12} color={streak.current > 0 ? colors.warning : colors.textMuted} />
+            <Text style={styles.scheduleText}>
+              {formatStreak(streak.current, streak.unit)}
+              {streak.longest > streak.current ? ` · best ${streak.longest}` : ''}
+            </Text>
+          </View>
+        )}
+
+        {streak?.repairablePeriod && onUseFreeze && (
+          <TouchableOpacity style={styles.freezeButton} onPress={onUseFreeze} activeOpacity={0.7}>
+            <FontAwesome name="snowflake-o" size={12} color={colors.primary} />
+            <Text style={styles.freezeButtonText}>Use a freeze to save your streak</Text>
+          </TouchableOpacity>
+        )}
+
+        {isQuantitativeHabit(habit) && (
+          <View style={styles.scheduleRow}>
+            <FontAwesome name="bullseye" size={12} color={colors.textMuted} />
+            <Text style={styles.scheduleText}>
+              {formatQuantity(habit.target_amount!, habit.unit)} per day
+            </Text>
+          </View>
+        )}
+
+        {!isAvoidHabit(habit) && habit.reminder_times && habit.reminder_times.length > 0 && (
+          <View style={styles.scheduleRow}>
+            <FontAwesome name="bell-o" size={12} color={colors.textMuted} />
+            <Text style={styles.scheduleText}>
+              {habit.reminder_times.map(formatReminderTime).join(', ')}
+              {habit.reminder_days
+                ? ` · ${habit.reminder_days.map((d) => DAY_LABELS[d as DayOfWeek]).join(', ')}`
+                : ''}
+            </Text>
+          </View>
+        )}
       </View>
 
       <View style={styles.actions}>
@@ -104,6 +175,22 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     fontSize: theme.fontSize.xs,
     color: colors.textMuted,
   },
+  freezeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 4,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: colors.primaryLightOverlay25,
+  },
+  freezeButtonText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: colors.primary,
+  },
   actions: {
     flexDirection: 'row',
     gap: theme.spacing.md,
@@ -0,0 +1,137 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { Habit } from '@/lib/types';
+import {
+  FREEZE_EARN_EVERY,
+  MAX_BANKED_FREEZES,
+  formatStreak,
+  type HabitStreak,
+} from '@/lib/habits';
+
+interface HabitStreaksSectionProps {
+  habits: Habit[];
+  streaksByHabit: Record<string, HabitStreak>;
+  freezeBalance: number;
+}
+
+export default function HabitStreaksSection({
+  habits,
+  streaksByHabit,
+  freezeBalance,
+}: HabitStreaksSectionProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  // Longest-running streaks first; habits that never had one are left out
+  const rows = habits
+    .map((habit) => ({ habit, streak: streaksByHabit[habit.id] }))
+    .filter(({ streak }) => streak && streak.longest > 0)
+    .sort((a, b) => b.streak.current - a.streak.current || b.streak.longest - a.streak.longest);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.freezeRow}>
+        <View style={styles.iconContainer}>
+          <FontAwesome name="snowflake-o" size={16} color={colors.primary} />
+        </View>
+        <View style={styles.freezeInfo}>
+          <Text style={styles.freezeTitle}>
+            {freezeBalance} of {MAX_BANKED_FREEZES} streak freezes
+          </Text>
+          <Text style={styles.freezeSubtitle}>
+            Earn one every {FREEZE_EARN_EVERY.day} days in a row. Use them from My Habits to cover a missed day.
+          </Text>
+        </View>
+      </View>
+
+      {rows.length === 0 ? (
+        <Text style={styles.emptyText}>Complete a habit to start your first streak</Text>
+      ) : (
+        rows.map(({ habit, streak }) => (
+          <View key={habit.id} style={styles.streakRow}>
+            <FontAwesome
+              name="fire"
+              size={14}
+              color={streak.current > 0 ? colors.warning : colors.textMuted}
+            />
+            <Text style={styles.habitName} numberOfLines={1}>
+              {habit.name}
+            </Text>
+            <Text style={styles.streakText}>
+              {formatStreak(streak.current, streak.unit)}
+            </Text>
+            <Text style={styles.bestText}>best {streak.longest}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: theme.spacing.sm,
+  },
+  freezeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    paddingBottom: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.primaryLightOverlay30,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  freezeInfo: {
+    flex: 1,
+  },
+  freezeTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: colors.textPrimary,
+  },
+  freezeSubtitle: {
+    fontSize: theme.fontSize.xs,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: colors.textMuted,
+  },
+  streakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  habitName: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: colors.textPrimary,
+  },
+  streakText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: colors.textPrimary,
+  },
+  bestText: {
+    fontSize: theme.fontSize.xs,
+    color: colors.textMuted,
+    minWidth: 48,
+    textAlign: 'right',
+  },
+});
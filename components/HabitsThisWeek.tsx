@@ -37,12 +37,21 @@ if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental
 
 const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
 
+// Partial days on quantitative habits show one decimal (e.g. 3.5/5)
+function formatProgressDays(days: number): string {
+  return Number.isInteger(days) ? String(days) : days.toFixed(1);
+}
+
 function getStatusColor(status: HabitWeeklyStats['status'], colors: ThemeColors): string {
   if (status === 'behind' || status === 'missed') return colors.danger;
   return colors.success;
 }
 
 function getStatusLabel(stat: HabitWeeklyStats): string {
+  // Avoid habits report the week's slips rather than a pace
+  if (stat.slipCount !== undefined) {
+    return stat.slipCount === 0 ? 'Clean' : `${stat.slipCount} ${stat.slipCount === 1 ? 'slip' : 'slips'}`;
+  }
   switch (stat.status) {
     case 'behind': return 'Behind';
     case 'met': return 'Met';
@@ -62,9 +71,10 @@ function ExpandableHabitRow({
 }) {
   const colors = useThemeColors();
   const styles = useMemo(() => createRowStyles(colors), [colors]);
-  const progress = stat.targetDays > 0 ? Math.min(100, Math.round((stat.completedDays / stat.targetDays) * 100)) : 0;
+  const progressDays = stat.progressDays ?? stat.completedDays;
+  const progress = stat.targetDays > 0 ? Math.min(100, Math.round((progressDays / stat.targetDays) * 100)) : 0;
   const statusColor = getStatusColor(stat.status, colors);
-  const scheduledDays = stat.habit.specific_days ?? [0, 1, 2, 3, 4, 5, 6];
+  const scheduledDays = stat.scheduledDays ?? stat.habit.specific_days ?? [0, 1, 2, 3, 4, 5, 6];
   const completedDayIndices = useMemo(() => {
     const indices = new Set<number>();
     for (const dateStr of stat.completedDates ?? []) {
@@ -72,6 +82,15 @@ function ExpandableHabitRow({
     }
     return indices;
   }, [stat.completedDates]);
+  const partialDayIndices = useMemo(() => {
+    const indices = new Set<number>();
+    for (const [dateStr, dayProgress] of Object.entries(stat.dayProgress ?? {})) {
+      if (dayProgress > 0 && dayProgress < 1) {
+        indices.add(new Date(dateStr + 'T12:00:00').getDay());
+      }
+    }
+    return indices;
+  }, [stat.dayProgress]);
 
   return (
     <TouchableOpacity
@@ -105,7 +124,7 @@ function ExpandableHabitRow({
           <View style={[styles.fill, { width: `${progress}%`, backgroundColor: statusColor }]} />
         </View>
         <Text style={styles.fraction}>
-          {stat.completedDays}/{stat.targetDays}
+          {formatProgressDays(progressDays)}/{stat.targetDays}
         </Text>
       </View>
 
@@ -122,6 +141,7 @@ function ExpandableHabitRow({
             {DAY_LABELS.map((_, dayIndex) => {
               const isScheduled = scheduledDays.includes(dayIndex);
               const isFilled = completedDayIndices.has(dayIndex);
+              const isPartial = !isFilled && partialDayIndices.has(dayIndex);
 
               return (
                 <View key={dayIndex} style={styles.dayCol}>
@@ -131,9 +151,11 @@ function ExpandableHabitRow({
                       !isScheduled && !isFilled && { backgroundColor: colors.borderLight, borderColor: colors.borderLight },
                       isScheduled && !isFilled && { borderColor: statusColor, borderWidth: 1.5, backgroundColor: 'transparent' },
                       isFilled && { backgroundColor: statusColor, borderColor: statusColor, borderWidth: 1.5 },
+                      isPartial && { borderColor: statusColor, borderWidth: 1.5, backgroundColor: 'transparent' },
                     ]}
                   >
                     {isFilled && <FontAwesome name="check" size={9} color="#fff" />}
+                    {isPartial && <View style={[styles.partialDot, { backgroundColor: statusColor }]} />}
                   </View>
                 </View>
               );
@@ -322,6 +344,11 @@ function createRowStyles(colors: ThemeColors) {
       textTransform: 'uppercase',
       marginBottom: 2,
     },
+    partialDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+    },
     dayCircle: {
       width: 24,
       height: 24,
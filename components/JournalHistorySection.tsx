@@ -4,14 +4,34 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme, type ThemeColors } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
-import { DailyJournalEntry } from '@/lib/types';
+import { DailyJournalEntry, JournalReflection, JournalTemplate } from '@/lib/types';
+import { getJournalPreview } from '@/lib/journalTemplates';
+import { JOURNAL_RATING_SCALES } from '@/lib/journalMood';
+import { getTodayDate } from '@/lib/habits';
+import {
+  MIN_RANGE_REFLECTION_ENTRIES,
+  REFLECTION_RANGE_PRESETS,
+  formatReflectionRange,
+  getEntryReflectionsByDate,
+  getReflectionRange,
+} from '@/lib/journalReflections';
+import {
+  useDeleteJournalReflection,
+  useGenerateJournalReflection,
+  useJournalReflections,
+} from '@/hooks/useDailyJournalQuery';
+import JournalReflectionCard from './JournalReflectionCard';
 
 interface JournalHistorySectionProps {
   entries: DailyJournalEntry[];
+  /** Used for each prompt's emoji; entries keep their own prompt labels */
+  templates?: JournalTemplate[];
 }
 
 function formatJournalDate(dateStr: string): string {
@@ -23,8 +43,61 @@ function formatJournalDate(dateStr: string): string {
   });
 }
 
-function JournalEntryCard({ entry, styles, colors }: { entry: DailyJournalEntry; styles: ReturnType<typeof createStyles>; colors: ThemeColors }) {
+function formatPresetLabel(days: number): string {
+  return days === 365 ? 'Last year' : `Last ${days} days`;
+}
+
+function RangeReflectionCard({ reflection, onDelete, styles, colors }: { reflection: JournalReflection & { scope: 'range' }; onDelete: () => void; styles: ReturnType<typeof createStyles>; colors: ThemeColors }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <TouchableOpacity
+      style={styles.entryCard}
+      onPress={() => setExpanded(!expanded)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.entryHeader}>
+        <View style={styles.entryDateRow}>
+          <View style={styles.entryIconCircle}>
+            <FontAwesome name="magic" size={11} color={colors.primary} />
+          </View>
+          <Text style={styles.entryDate}>
+            {formatReflectionRange(reflection.start_date, reflection.end_date)}
+          </Text>
+          <Text style={styles.entryTemplate}>{reflection.entry_count} entries</Text>
+        </View>
+        <FontAwesome
+          name={expanded ? 'chevron-up' : 'chevron-down'}
+          size={12}
+          color={colors.textMuted}
+        />
+      </View>
+
+      {!expanded && (
+        <Text style={styles.entryPreview} numberOfLines={1}>
+          {reflection.content.summary}
+        </Text>
+      )}
+
+      {expanded && (
+        <View style={styles.entryBody}>
+          <JournalReflectionCard scope="range" content={reflection.content} />
+          <TouchableOpacity onPress={onDelete} activeOpacity={0.7} style={styles.reflectLink}>
+            <Text style={styles.deleteText}>Delete reflection</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+function JournalEntryCard({ entry, template, reflection, reflecting, onReflect, styles, colors }: { entry: DailyJournalEntry; template: JournalTemplate | undefined; reflection: (JournalReflection & { scope: 'entry' }) | undefined; reflecting: boolean; onReflect: () => void; styles: ReturnType<typeof createStyles>; colors: ThemeColors }) {
   const [expanded, setExpanded] = useState(false);
+  const answered = entry.answers.filter((a) => a.answer.trim() !== '');
+  const ratings = JOURNAL_RATING_SCALES.filter((scale) => entry[scale.key] != null).map(
+    (scale) => `${scale.emojis[entry[scale.key]! - 1]} ${scale.label} ${entry[scale.key]}`
+  );
+  const emotions = entry.emotions ?? [];
 
   return (
     <TouchableOpacity
@@ -38,6 +111,9 @@ function JournalEntryCard({ entry, styles, colors }: { entry: DailyJournalEntry;
             <FontAwesome name="book" size={11} color={colors.primary} />
           </View>
           <Text style={styles.entryDate}>{formatJournalDate(entry.journal_date)}</Text>
+          {template && (
+            <Text style={styles.entryTemplate}>{template.emoji} {template.name}</Text>
+          )}
         </View>
         <FontAwesome
           name={expanded ? 'chevron-up' : 'chevron-down'}
@@ -48,33 +124,38 @@ function JournalEntryCard({ entry, styles, colors }: { entry: DailyJournalEntry;
 
       {!expanded && (
         <Text style={styles.entryPreview} numberOfLines={1}>
-          {entry.win}
+          {getJournalPreview(entry)}
         </Text>
       )}
 
       {expanded && (
         <View style={styles.entryBody}>
-          <View style={styles.promptRow}>
-            <Text style={styles.promptIcon}>🏆</Text>
-            <View style={styles.promptContent}>
-              <Text style={styles.promptTitle}>Win</Text>
-              <Text style={styles.promptText}>{entry.win}</Text>
-            </View>
-          </View>
-          <View style={styles.promptRow}>
-            <Text style={styles.promptIcon}>🔥</Text>
-            <View style={styles.promptContent}>
-              <Text style={styles.promptTitle}>Tension</Text>
-              <Text style={styles.promptText}>{entry.tension}</Text>
-            </View>
-          </View>
-          <View style={styles.promptRow}>
-            <Text style={styles.promptIcon}>🙏</Text>
-            <View style={styles.promptContent}>
-              <Text style={styles.promptTitle}>Gratitude</Text>
-              <Text style={styles.promptText}>{entry.gratitude}</Text>
-            </View>
-          </View>
+          {answered.map((answer) => {
+            const emoji = template?.prompts.find((p) => p.id === answer.prompt_id)?.emoji ?? '📝';
+            return (
+              <View key={answer.prompt_id} style={styles.promptRow}>
+                <Text style={styles.promptIcon}>{emoji}</Text>
+                <View style={styles.promptContent}>
+                  {answered.length > 1 && <Text style={styles.promptTitle}>{answer.prompt}</Text>}
+                  <Text style={styles.promptText}>{answer.answer}</Text>
+                </View>
+              </View>
+            );
+          })}
+          {(ratings.length > 0 || emotions.length > 0) && (
+            <Text style={styles.entryRatings}>
+              {[...ratings, emotions.join(', ')].filter(Boolean).join(' \u00B7 ')}
+            </Text>
+          )}
+          {reflection ? (
+            <JournalReflectionCard scope="entry" content={reflection.content} />
+          ) : reflecting ? (
+            <ActivityIndicator size="small" color={colors.primary} style={styles.reflectLink} />
+          ) : (
+            <TouchableOpacity onPress={onReflect} activeOpacity={0.7} style={styles.reflectLink}>
+              <Text style={styles.reflectLinkText}>Reflect on this entry</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
     </TouchableOpacity>
@@ -84,10 +165,65 @@ function JournalEntryCard({ entry, styles, colors }: { entry: DailyJournalEntry;
 const INITIAL_SHOW = 7;
 const LOAD_MORE_COUNT = 14;
 
-export default function JournalHistorySection({ entries }: JournalHistorySectionProps) {
+export default function JournalHistorySection({ entries, templates = [] }: JournalHistorySectionProps) {
   const colors = useThemeColors();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const [showCount, setShowCount] = useState(INITIAL_SHOW);
+  const [rangeMessage, setRangeMessage] = useState<string | null>(null);
+
+  const { data: reflections = [] } = useJournalReflections();
+  const generateReflection = useGenerateJournalReflection();
+  const deleteReflection = useDeleteJournalReflection();
+
+  const entryReflections = useMemo(() => getEntryReflectionsByDate(reflections), [reflections]);
+  const rangeReflections = useMemo(
+    () => reflections.filter((r): r is JournalReflection & { scope: 'range' } => r.scope === 'range'),
+    [reflections],
+  );
+  const pending = generateReflection.isPending ? generateReflection.variables : undefined;
+
+  const handleReflectOnEntry = (entry: DailyJournalEntry) => {
+    generateReflection.mutate(
+      { scope: 'entry', journalDate: entry.journal_date },
+      {
+        onSuccess: (result) => {
+          if (result.error) {
+            Alert.alert('Reflection failed', "Couldn't reflect on this entry right now. Please try again.");
+          }
+        },
+      },
+    );
+  };
+
+  const handleReflectOnRange = (days: number) => {
+    const { startDate, endDate } = getReflectionRange(days, getTodayDate());
+    setRangeMessage(null);
+    generateReflection.mutate(
+      { scope: 'range', startDate, endDate },
+      {
+        onSuccess: (result) => {
+          if (result.skipped) {
+            setRangeMessage(
+              `Write at least ${MIN_RANGE_REFLECTION_ENTRIES} entries in a range to reflect on it.`
+            );
+          } else if (result.error) {
+            setRangeMessage("Couldn't create a reflection right now. Please try again.");
+          }
+        },
+      },
+    );
+  };
+
+  const handleDeleteReflection = (reflection: JournalReflection) => {
+    Alert.alert('Delete reflection?', 'You can create a new one any time.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteReflection.mutate({ id: reflection.id }),
+      },
+    ]);
+  };
 
   const visibleEntries = entries.slice(0, showCount);
   const hasMore = showCount < entries.length;
@@ -108,10 +244,57 @@ export default function JournalHistorySection({ entries }: JournalHistorySection
 
   return (
     <>
+      <Text style={styles.sectionLabel}>Reflections</Text>
+      <View style={styles.entriesList}>
+        <View style={styles.reflectCard}>
+          <Text style={styles.reflectTitle}>Reflect on your journal</Text>
+          <View style={styles.presetRow}>
+            {REFLECTION_RANGE_PRESETS.map((days) => {
+              const { startDate } = getReflectionRange(days, getTodayDate());
+              const loading = pending?.scope === 'range' && pending.startDate === startDate;
+              return (
+                <TouchableOpacity
+                  key={days}
+                  style={styles.presetChip}
+                  onPress={() => handleReflectOnRange(days)}
+                  disabled={generateReflection.isPending}
+                  activeOpacity={0.7}
+                >
+                  {loading ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <Text style={styles.presetText}>{formatPresetLabel(days)}</Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {rangeMessage && <Text style={styles.reflectMessage}>{rangeMessage}</Text>}
+        </View>
+        {rangeReflections.map((reflection) => (
+          <RangeReflectionCard
+            key={reflection.id}
+            reflection={reflection}
+            onDelete={() => handleDeleteReflection(reflection)}
+            styles={styles}
+            colors={colors}
+          />
+        ))}
+      </View>
+
       <Text style={styles.sectionLabel}>Journal</Text>
       <View style={styles.entriesList}>
         {visibleEntries.map((entry) => (
-          <JournalEntryCard key={entry.id} entry={entry} styles={styles} colors={colors} />
+          <JournalEntryCard
+            key={entry.id}
+            entry={entry}
+            template={templates.find((t) => t.id === entry.template_id)}
+            reflection={entryReflections.get(entry.journal_date)}
+            reflecting={pending?.scope === 'entry' && pending.journalDate === entry.journal_date}
+            onReflect={() => handleReflectOnEntry(entry)}
+            styles={styles}
+            colors={colors}
+          />
         ))}
       </View>
       {hasMore && (
@@ -172,6 +355,14 @@ function createStyles(colors: ThemeColors) {
     fontWeight: theme.fontWeight.semibold as any,
     color: colors.textPrimary,
   },
+  entryTemplate: {
+    fontSize: theme.fontSize.xs,
+    color: colors.textMuted,
+  },
+  entryRatings: {
+    fontSize: theme.fontSize.xs,
+    color: colors.textMuted,
+  },
   entryPreview: {
     fontSize: theme.fontSize.sm,
     color: colors.textSecondary,
@@ -220,6 +411,53 @@ function createStyles(colors: ThemeColors) {
     textAlign: 'center',
     lineHeight: 20,
   },
+  reflectCard: {
+    backgroundColor: colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    gap: theme.spacing.sm,
+    ...theme.shadow.sm,
+  },
+  reflectTitle: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold as any,
+    color: colors.textPrimary,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  presetChip: {
+    minWidth: 72,
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  presetText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold as any,
+    color: colors.primary,
+  },
+  reflectMessage: {
+    fontSize: theme.fontSize.xs,
+    color: colors.textMuted,
+  },
+  reflectLink: {
+    alignSelf: 'flex-start',
+  },
+  reflectLinkText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold as any,
+    color: colors.primary,
+  },
+  deleteText: {
+    fontSize: theme.fontSize.sm,
+    color: colors.danger,
+  },
   loadMoreButton: {
     alignItems: 'center',
     paddingVertical: theme.spacing.sm,
@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import type {
+  JournalEntryReflectionContent,
+  JournalRangeReflectionContent,
+} from '@/lib/types';
+
+type JournalReflectionCardProps =
+  | { scope: 'entry'; content: JournalEntryReflectionContent }
+  | { scope: 'range'; content: JournalRangeReflectionContent };
+
+/** The coach's reflection on one journal entry or on a range of entries. */
+export default function JournalReflectionCard(props: JournalReflectionCardProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  if (props.scope === 'entry') {
+    const { reflection, highlight, question } = props.content;
+    return (
+      <View style={styles.container}>
+        <View style={styles.headerRow}>
+          <FontAwesome name="magic" size={12} color={colors.primary} />
+          <Text style={styles.headerText}>Reflection</Text>
+        </View>
+        <Text style={styles.body}>{reflection}</Text>
+        {highlight && <Text style={styles.body}>✨ {highlight}</Text>}
+        {question && <Text style={styles.question}>{question}</Text>}
+      </View>
+    );
+  }
+
+  const { summary, themes, mood_trend, wins, growth_opportunity, looking_ahead } = props.content;
+  return (
+    <View style={styles.container}>
+      <Text style={styles.body}>{summary}</Text>
+
+      {themes.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Themes</Text>
+          {themes.map((t) => (
+            <Text key={t.title} style={styles.body}>
+              <Text style={styles.bold}>{t.title}.</Text> {t.detail}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {mood_trend && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Mood</Text>
+          <Text style={styles.body}>{mood_trend}</Text>
+        </View>
+      )}
+
+      {wins.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Wins</Text>
+          {wins.map((win, i) => (
+            <View key={i} style={styles.bulletRow}>
+              <FontAwesome name="check" size={11} color={colors.success} style={styles.bulletIcon} />
+              <Text style={styles.bulletText}>{win}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {growth_opportunity && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Room to grow</Text>
+          <Text style={styles.body}>{growth_opportunity}</Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Looking ahead</Text>
+        <Text style={styles.body}>{looking_ahead}</Text>
+      </View>
+    </View>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      backgroundColor: colors.primaryLightOverlay25,
+      borderRadius: theme.borderRadius.md,
+      padding: theme.spacing.md,
+      gap: theme.spacing.sm,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.xs,
+    },
+    headerText: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.3,
+    },
+    section: {
+      gap: theme.spacing.xs,
+    },
+    sectionTitle: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.3,
+    },
+    body: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+      lineHeight: 20,
+    },
+    bold: {
+      fontWeight: theme.fontWeight.semibold,
+    },
+    question: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      fontStyle: 'italic',
+      lineHeight: 20,
+    },
+    bulletRow: {
+      flexDirection: 'row',
+      gap: theme.spacing.sm,
+    },
+    bulletIcon: {
+      marginTop: 4,
+    },
+    bulletText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+      lineHeight: 20,
+    },
+  });
+}
@@ -0,0 +1,408 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Keyboard,
+  Pressable,
+  Switch,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { JournalPrompt } from '@/lib/types';
+
+export interface JournalTemplateFormData {
+  name: string;
+  emoji: string;
+  prompts: JournalPrompt[];
+  prompts_per_day: number | null;
+}
+
+interface JournalTemplateFormProps {
+  initialData?: JournalTemplateFormData;
+  onSubmit: (data: JournalTemplateFormData) => void;
+  onCancel?: () => void;
+  submitLabel?: string;
+}
+
+// Ids only need to be unique within the template; existing prompts keep
+// theirs so past answers still match up after an edit
+function newPromptId(): string {
+  return `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export default function JournalTemplateForm({
+  initialData,
+  onSubmit,
+  onCancel,
+  submitLabel = 'Save Template',
+}: JournalTemplateFormProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [name, setName] = useState(initialData?.name ?? '');
+  const [emoji, setEmoji] = useState(initialData?.emoji ?? '📓');
+  const [prompts, setPrompts] = useState<JournalPrompt[]>(
+    initialData?.prompts ?? [{ id: newPromptId(), label: '' }]
+  );
+  const [promptsPerDay, setPromptsPerDay] = useState<number | null>(
+    initialData?.prompts_per_day ?? null
+  );
+
+  const updatePrompt = (index: number, updates: Partial<JournalPrompt>) => {
+    setPrompts((prev) => prev.map((p, i) => (i === index ? { ...p, ...updates } : p)));
+  };
+
+  const move = (index: number, delta: number) => {
+    setPrompts((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const filledPrompts = prompts.filter((p) => p.label.trim().length > 0);
+  // Rotation only makes sense when there are more prompts than shown per day
+  const canRotate = filledPrompts.length > 1;
+  const perDay = canRotate && promptsPerDay
+    ? Math.min(promptsPerDay, filledPrompts.length - 1)
+    : null;
+
+  const canSubmit = name.trim().length > 0 && filledPrompts.length > 0;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({
+      name: name.trim(),
+      emoji: emoji.trim() || '📓',
+      prompts: filledPrompts.map((p) => ({
+        id: p.id,
+        label: p.label.trim(),
+        ...(p.hint?.trim() ? { hint: p.hint.trim() } : {}),
+        ...(p.placeholder ? { placeholder: p.placeholder } : {}),
+        ...(p.emoji ? { emoji: p.emoji } : {}),
+      })),
+      prompts_per_day: perDay,
+    });
+  };
+
+  return (
+    <Pressable style={{ flex: 1 }} onPress={Keyboard.dismiss}>
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled" keyboardDismissMode="on-drag">
+      <View style={styles.field}>
+        <Text style={styles.label}>Template Name</Text>
+        <View style={styles.nameRow}>
+          <TextInput
+            style={[styles.input, styles.emojiInput]}
+            value={emoji}
+            onChangeText={setEmoji}
+            maxLength={4}
+          />
+          <TextInput
+            style={[styles.input, styles.nameInput]}
+            placeholder="e.g., Evening wind-down"
+            placeholderTextColor={colors.textMuted}
+            value={name}
+            onChangeText={setName}
+            autoCapitalize="sentences"
+          />
+        </View>
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Prompts</Text>
+        {prompts.map((prompt, index) => (
+          <View key={prompt.id} style={styles.promptCard}>
+            <View style={styles.promptHeader}>
+              <Text style={styles.promptNumber}>{index + 1}</Text>
+              <TextInput
+                style={styles.promptLabelInput}
+                placeholder="Prompt, e.g. What drained my energy?"
+                placeholderTextColor={colors.textMuted}
+                value={prompt.label}
+                onChangeText={(label) => updatePrompt(index, { label })}
+                autoCapitalize="sentences"
+              />
+              <TouchableOpacity
+                onPress={() => move(index, -1)}
+                disabled={index === 0}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                style={styles.iconButton}
+              >
+                <FontAwesome
+                  name="chevron-up"
+                  size={12}
+                  color={index === 0 ? colors.borderLight : colors.textSecondary}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => move(index, 1)}
+                disabled={index === prompts.length - 1}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                style={styles.iconButton}
+              >
+                <FontAwesome
+                  name="chevron-down"
+                  size={12}
+                  color={index === prompts.length - 1 ? colors.borderLight : colors.textSecondary}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setPrompts((prev) => prev.filter((p) => p.id !== prompt.id))}
+                disabled={prompts.length === 1}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                style={styles.iconButton}
+              >
+                <FontAwesome
+                  name="times"
+                  size={14}
+                  color={prompts.length === 1 ? colors.borderLight : colors.textMuted}
+                />
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={styles.promptHintInput}
+              placeholder="Hint (optional)"
+              placeholderTextColor={colors.textMuted}
+              value={prompt.hint ?? ''}
+              onChangeText={(hint) => updatePrompt(index, { hint })}
+              autoCapitalize="sentences"
+            />
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.chip}
+          onPress={() => setPrompts((prev) => [...prev, { id: newPromptId(), label: '' }])}
+          activeOpacity={0.7}
+        >
+          <FontAwesome name="plus" size={10} color={colors.primary} />
+          <Text style={styles.chipText}>Add prompt</Text>
+        </TouchableOpacity>
+        {filledPrompts.length === 1 && (
+          <Text style={styles.helperText}>A single prompt gives you a free-form entry</Text>
+        )}
+      </View>
+
+      {canRotate && (
+        <View style={styles.field}>
+          <View style={styles.toggleRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>Rotate prompts</Text>
+              <Text style={styles.helperText}>
+                Ask a few prompts each day, working through the list over time
+              </Text>
+            </View>
+            <Switch
+              value={perDay !== null}
+              onValueChange={(enabled) => setPromptsPerDay(enabled ? 1 : null)}
+              trackColor={{ false: colors.borderLight, true: colors.primaryLight }}
+              thumbColor="#f4f3f4"
+            />
+          </View>
+          {perDay !== null && (
+            <View style={styles.stepperRow}>
+              <Text style={styles.stepperLabel}>Prompts per day</Text>
+              <TouchableOpacity
+                onPress={() => setPromptsPerDay(Math.max(1, perDay - 1))}
+                disabled={perDay <= 1}
+                style={styles.iconButton}
+              >
+                <FontAwesome
+                  name="minus"
+                  size={12}
+                  color={perDay <= 1 ? colors.borderLight : colors.textSecondary}
+                />
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>{perDay}</Text>
+              <TouchableOpacity
+                onPress={() => setPromptsPerDay(perDay + 1)}
+                disabled={perDay >= filledPrompts.length - 1}
+                style={styles.iconButton}
+              >
+                <FontAwesome
+                  name="plus"
+                  size={12}
+                  color={perDay >= filledPrompts.length - 1 ? colors.borderLight : colors.textSecondary}
+                />
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.submitButtonText}>{submitLabel}</Text>
+        </TouchableOpacity>
+
+        {onCancel && (
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={onCancel}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+    </Pressable>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    field: {
+      marginBottom: theme.spacing.lg,
+    },
+    label: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+      marginBottom: theme.spacing.xs,
+    },
+    helperText: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 14,
+      fontSize: theme.fontSize.md,
+      color: colors.textPrimary,
+    },
+    nameRow: {
+      flexDirection: 'row',
+      gap: theme.spacing.sm,
+    },
+    emojiInput: {
+      width: 56,
+      textAlign: 'center',
+    },
+    nameInput: {
+      flex: 1,
+    },
+    promptCard: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      marginBottom: theme.spacing.xs,
+      gap: theme.spacing.xs,
+    },
+    promptHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+    },
+    promptNumber: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+      minWidth: 16,
+    },
+    promptLabelInput: {
+      flex: 1,
+      fontSize: theme.fontSize.md,
+      color: colors.textPrimary,
+      paddingVertical: 4,
+    },
+    promptHintInput: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      paddingVertical: 2,
+      marginLeft: 16 + theme.spacing.sm,
+    },
+    iconButton: {
+      padding: 4,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      gap: 6,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.full,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      marginTop: theme.spacing.xs,
+    },
+    chipText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    toggleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.md,
+    },
+    stepperRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      marginTop: theme.spacing.sm,
+    },
+    stepperLabel: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    stepperValue: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+      minWidth: 20,
+      textAlign: 'center',
+    },
+    actions: {
+      marginTop: theme.spacing.md,
+      marginBottom: theme.spacing.xl,
+    },
+    submitButton: {
+      backgroundColor: colors.primary,
+      borderRadius: theme.borderRadius.md,
+      paddingVertical: 16,
+      alignItems: 'center',
+      ...theme.shadow.md,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    submitButtonText: {
+      color: '#fff',
+      fontSize: theme.fontSize.lg,
+      fontWeight: theme.fontWeight.semibold,
+    },
+    cancelButton: {
+      paddingVertical: 16,
+      alignItems: 'center',
+    },
+    cancelButtonText: {
+      color: colors.textSecondary,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.medium,
+    },
+  });
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import type { Habit } from '@/lib/types';
+
+interface LogAmountModalProps {
+  /** The quantitative habit being logged; the modal is hidden while null */
+  habit: Habit | null;
+  onSubmit: (amount: number) => void;
+  onClose: () => void;
+}
+
+/** Asks for an amount to log on a quantitative habit. Negative amounts undo earlier logs. */
+export default function LogAmountModal({ habit, onSubmit, onClose }: LogAmountModalProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [value, setValue] = useState('');
+
+  const habitId = habit?.id;
+  useEffect(() => {
+    if (habitId) setValue('');
+  }, [habitId]);
+
+  const amount = parseFloat(value.replace(',', '.'));
+  const isValid = Number.isFinite(amount) && amount !== 0;
+
+  const handleSubmit = () => {
+    if (!isValid) return;
+    onSubmit(amount);
+    onClose();
+  };
+
+  return (
+    <Modal visible={habit !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.modalOverlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>{habit?.name}</Text>
+          <Text style={styles.prompt}>
+            How many {habit?.unit || 'units'} do you want to log?
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={value}
+            onChangeText={setValue}
+            keyboardType="decimal-pad"
+            placeholder="0"
+            placeholderTextColor={colors.textMuted}
+            onSubmitEditing={handleSubmit}
+            autoFocus
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose} activeOpacity={0.8}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.logButton, !isValid && styles.logButtonDisabled]}
+              onPress={handleSubmit}
+              disabled={!isValid}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.logText}>Log</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.lg,
+    width: '80%',
+    gap: theme.spacing.md,
+  },
+  modalTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  prompt: {
+    fontSize: theme.fontSize.sm,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: 14,
+    fontSize: theme.fontSize.md,
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: theme.spacing.md,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: theme.fontSize.md,
+    color: colors.textMuted,
+  },
+  logButton: {
+    flex: 1,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: colors.primary,
+    alignItems: 'center',
+  },
+  logButtonDisabled: {
+    opacity: 0.5,
+  },
+  logText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: '#fff',
+  },
+});
@@ -0,0 +1,352 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Dimensions,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme } from '@/lib/theme';
+import type { ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useCompletionsForRange, useHabits, useSlips } from '@/hooks/useHabitsQuery';
+import { getMonthRange, getTodayDate, getWeekRange } from '@/lib/habits';
+import { HIGH_ADHERENCE_PERCENT } from '@/lib/goalMath';
+import {
+  JOURNAL_RATING_SCALES,
+  averageRating,
+  computeMoodAdherenceCorrelation,
+  computeWeeklyMoodSeries,
+  getRatingSeries,
+  getTopEmotions,
+  type JournalRatingKey,
+} from '@/lib/journalMood';
+import type { DailyJournalEntry } from '@/lib/types';
+import AppHeader from '@/components/AppHeader';
+import MetricChart from './MetricChart';
+import Sparkline from './Sparkline';
+
+const screenWidth = Dimensions.get('window').width;
+
+const CORRELATION_WEEKS = 12;
+const SPARKLINE_DAYS = 14;
+
+interface MoodTrendSectionProps {
+  /** Journal entries, newest first */
+  entries: DailyJournalEntry[];
+}
+
+export default function MoodTrendSection({ entries }: MoodTrendSectionProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [showDetail, setShowDetail] = useState(false);
+  const [scaleKey, setScaleKey] = useState<JournalRatingKey>('mood');
+
+  const today = getTodayDate();
+  // From the start of the first week's month, for month-to-date monthly-count targets
+  const correlationStart = useMemo(
+    () => getMonthRange(getWeekRange(-CORRELATION_WEEKS).start).start,
+    [today]
+  );
+  const { data: habits = [] } = useHabits();
+  const { data: rangeCompletions = [] } = useCompletionsForRange(correlationStart, today);
+  const { data: slips = [] } = useSlips();
+
+  const scaleColors: Record<JournalRatingKey, string> = {
+    mood: colors.primary,
+    energy: colors.warning,
+    stress: colors.danger,
+  };
+
+  const moodSeries = useMemo(() => getRatingSeries(entries, 'mood'), [entries]);
+  const averageMood = useMemo(() => averageRating(entries, 'mood'), [entries]);
+
+  const correlation = useMemo(() => {
+    if (habits.length === 0) return null;
+    const series = computeWeeklyMoodSeries(
+      habits,
+      rangeCompletions,
+      entries,
+      today,
+      CORRELATION_WEEKS,
+      slips
+    );
+    return computeMoodAdherenceCorrelation(series);
+  }, [habits, rangeCompletions, entries, slips, today]);
+
+  const scale = JOURNAL_RATING_SCALES.find((s) => s.key === scaleKey)!;
+  const scaleSeries = useMemo(() => getRatingSeries(entries, scaleKey), [entries, scaleKey]);
+  const scaleAverage = useMemo(() => averageRating(entries, scaleKey), [entries, scaleKey]);
+  const topEmotions = useMemo(() => getTopEmotions(entries), [entries]);
+
+  if (moodSeries.length === 0 || averageMood === null) return null;
+
+  const color = scaleColors[scaleKey];
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => setShowDetail(true)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.rowLeft}>
+          <Text style={styles.rowEmoji}>{emojiFor('mood', averageMood)}</Text>
+          <Text style={styles.rowLabel}>Mood</Text>
+          <Text style={styles.rowValue}>{averageMood.toFixed(1)} avg</Text>
+        </View>
+        {moodSeries.length >= 2 && (
+          <Sparkline
+            data={moodSeries.slice(-SPARKLINE_DAYS).map((p) => p.value)}
+            width={80}
+            height={28}
+            color={colors.primary}
+          />
+        )}
+        <FontAwesome name="chevron-right" size={12} color={colors.textMuted} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={showDetail}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowDetail(false)}
+      >
+        <View style={styles.container}>
+          <AppHeader title="Mood & Energy" onBack={() => setShowDetail(false)} />
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Rating Selector */}
+            <View style={styles.scaleSelector}>
+              {JOURNAL_RATING_SCALES.map((s) => {
+                const selected = s.key === scaleKey;
+                return (
+                  <TouchableOpacity
+                    key={s.key}
+                    style={[
+                      styles.scaleButton,
+                      selected && { backgroundColor: scaleColors[s.key] + '18' },
+                    ]}
+                    onPress={() => setScaleKey(s.key)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        styles.scaleText,
+                        selected && [styles.scaleTextActive, { color: scaleColors[s.key] }],
+                      ]}
+                    >
+                      {s.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Chart */}
+            <View style={styles.card}>
+              {scaleSeries.length > 0 ? (
+                <MetricChart
+                  data={scaleSeries}
+                  width={screenWidth - theme.spacing.lg * 2 - theme.spacing.md * 2}
+                  height={200}
+                  color={color}
+                />
+              ) : (
+                <Text style={styles.emptyText}>
+                  No {scale.label.toLowerCase()} ratings yet. Add them when you journal.
+                </Text>
+              )}
+              {scaleAverage !== null && (
+                <Text style={styles.footnote}>
+                  {emojiFor(scaleKey, scaleAverage)} {scaleAverage.toFixed(1)} average over{' '}
+                  {scaleSeries.length} day{scaleSeries.length === 1 ? '' : 's'} (1 {scale.lowLabel} – 5{' '}
+                  {scale.highLabel})
+                </Text>
+              )}
+            </View>
+
+            {/* Habits */}
+            {correlation && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Mood and habits</Text>
+                {correlation.comparable ? (
+                  <>
+                    <View style={styles.insightRow}>
+                      <FontAwesome name="line-chart" size={13} color={colors.primary} />
+                      <Text style={styles.insightText}>
+                        Weeks with ≥{HIGH_ADHERENCE_PERCENT}% habit adherence averaged a mood of{' '}
+                        <Text style={styles.insightValue}>
+                          {correlation.highAdherenceMood!.toFixed(1)}
+                        </Text>{' '}
+                        vs {correlation.lowAdherenceMood!.toFixed(1)} otherwise.
+                      </Text>
+                    </View>
+                    <Text style={styles.footnote}>
+                      Based on {correlation.pairedWeeks} weeks. Correlation isn't proof, but it's a
+                      useful hint.
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={styles.emptyText}>
+                    A few more weeks of mood ratings are needed to compare strong and weak habit
+                    weeks.
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {/* Emotions */}
+            {topEmotions.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Most common feelings</Text>
+                <View style={styles.chipRow}>
+                  {topEmotions.map((emotion) => (
+                    <View key={emotion} style={styles.chip}>
+                      <Text style={styles.chipText}>{emotion}</Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+function emojiFor(key: JournalRatingKey, value: number): string {
+  const scale = JOURNAL_RATING_SCALES.find((s) => s.key === key)!;
+  return scale.emojis[Math.min(4, Math.max(0, Math.round(value) - 1))];
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: theme.spacing.sm,
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      padding: theme.spacing.md,
+      marginTop: theme.spacing.sm,
+      ...theme.shadow.sm,
+    },
+    rowLeft: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+    },
+    rowEmoji: {
+      fontSize: 16,
+    },
+    rowLabel: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    rowValue: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+    },
+
+    // Modal
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: theme.spacing.lg,
+      paddingBottom: 120,
+      gap: theme.spacing.md,
+    },
+    scaleSelector: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      padding: 4,
+      ...theme.shadow.sm,
+    },
+    scaleButton: {
+      flex: 1,
+      paddingVertical: 10,
+      alignItems: 'center',
+      borderRadius: theme.borderRadius.sm,
+    },
+    scaleText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.medium,
+      color: colors.textMuted,
+    },
+    scaleTextActive: {
+      fontWeight: theme.fontWeight.bold,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      gap: theme.spacing.sm,
+      ...theme.shadow.sm,
+    },
+    cardTitle: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    emptyText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+    },
+    footnote: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+    },
+    insightRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: theme.spacing.sm,
+    },
+    insightText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textSecondary,
+      lineHeight: 20,
+    },
+    insightValue: {
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.xs,
+    },
+    chip: {
+      backgroundColor: colors.background,
+      borderRadius: theme.borderRadius.full,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: theme.spacing.sm,
+      paddingVertical: 5,
+    },
+    chipText: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textSecondary,
+      fontWeight: theme.fontWeight.medium,
+      textTransform: 'capitalize',
+    },
+  });
+}
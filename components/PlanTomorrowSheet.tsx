@@ -0,0 +1,176 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useDailyTodos,
+  useUpsertDailyTodo,
+  useToggleDailyTodo,
+  useDeleteDailyTodo,
+  useCarryOverTodos,
+} from '@/hooks/useDailyTodosQuery';
+import { addDays, isCarryOverCandidate, planCarryOver } from '@/lib/todoCarryOver';
+import type { DailyTodo } from '@/lib/types';
+import AppHeader from '@/components/AppHeader';
+import Top3TodosSection from './Top3TodosSection';
+
+interface PlanTomorrowSheetProps {
+  visible: boolean;
+  /** The day being planned from; tomorrow is the day after */
+  date: string;
+  onClose: () => void;
+}
+
+/** Edits the next day's three intentions, like the evening call's set_tomorrow_intentions. */
+export default function PlanTomorrowSheet({ visible, date, onClose }: PlanTomorrowSheetProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { user } = useAuth();
+  const tomorrow = addDays(date, 1);
+
+  const { data: todayTodos = [] } = useDailyTodos(date);
+  const { data: tomorrowTodos = [] } = useDailyTodos(tomorrow);
+  const upsertTodoMutation = useUpsertDailyTodo();
+  const toggleTodoMutation = useToggleDailyTodo();
+  const deleteTodoMutation = useDeleteDailyTodo();
+  const carryOverMutation = useCarryOverTodos();
+
+  const carryPlan = useMemo(
+    () => planCarryOver(todayTodos.filter(isCarryOverCandidate), tomorrowTodos),
+    [todayTodos, tomorrowTodos],
+  );
+
+  const tomorrowLabel = new Date(tomorrow + 'T12:00:00').toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  });
+
+  const handleSave = (position: number, text: string) => {
+    if (!user) return;
+    upsertTodoMutation.mutate({ userId: user.id, date: tomorrow, position, text });
+  };
+
+  const handleToggle = (todo: DailyTodo) => {
+    toggleTodoMutation.mutate({ todoId: todo.id, isCompleted: todo.is_completed, date: tomorrow, position: todo.position });
+  };
+
+  const handleDelete = (todo: DailyTodo) => {
+    deleteTodoMutation.mutate({ todoId: todo.id, date: tomorrow });
+  };
+
+  const handleMoveUnfinished = () => {
+    if (!user) return;
+    carryOverMutation.mutate(
+      { userId: user.id, fromDate: date, toDate: tomorrow, automatic: false },
+      {
+        onError: () => {
+          Alert.alert('Error', "Couldn't move your intentions. Please try again.");
+        },
+      },
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <AppHeader title="Plan Tomorrow" onBack={onClose} />
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          automaticallyAdjustKeyboardInsets
+        >
+          <Text style={styles.dateLabel}>{tomorrowLabel}</Text>
+
+          {carryPlan.moves.length > 0 && (
+            <TouchableOpacity
+              style={styles.moveButton}
+              onPress={handleMoveUnfinished}
+              disabled={carryOverMutation.isPending}
+              activeOpacity={0.7}
+            >
+              {carryOverMutation.isPending ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <FontAwesome name="repeat" size={13} color={colors.primary} />
+              )}
+              <Text style={styles.moveButtonText}>
+                Move {carryPlan.moves.length} unfinished from today
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <Top3TodosSection
+            title="Tomorrow's Intentions"
+            todos={tomorrowTodos}
+            onSave={handleSave}
+            onToggle={handleToggle}
+            onDelete={handleDelete}
+          />
+
+          <Text style={styles.footnote}>
+            Tomorrow starts with these three. You can still change them in the morning.
+          </Text>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: theme.spacing.lg,
+      paddingBottom: 120,
+      gap: theme.spacing.sm,
+    },
+    dateLabel: {
+      fontSize: theme.fontSize.lg,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    moveButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      backgroundColor: colors.primaryLightOverlay25,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+    },
+    moveButtonText: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+    },
+    footnote: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+    },
+  });
+}
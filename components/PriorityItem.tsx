@@ -5,6 +5,7 @@ import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme, ThemeColors } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
 import { Habit } from '@/lib/types';
+import { formatQuantity } from '@/lib/habits';
 
 /**
  * Completed items use the app's purple palette for a cohesive, on-brand
@@ -18,7 +19,10 @@ interface PriorityItemProps {
   isSnoozed?: boolean;
   isRequired: boolean;
   weeklyProgress?: { done: number; total: number };
+  /** Today's logged amount on quantitative habits; tapping adds one unit */
+  quantityProgress?: { logged: number; target: number; unit: string | null };
   onToggle: () => void;
+  onLogAmount?: () => void;
   onSnooze?: () => void;
   onUnsnooze?: () => void;
   identityIcon?: React.ComponentProps<typeof FontAwesome>['name'];
@@ -30,7 +34,9 @@ export default function PriorityItem({
   isSnoozed,
   isRequired,
   weeklyProgress,
+  quantityProgress,
   onToggle,
+  onLogAmount,
   onSnooze,
   onUnsnooze,
   identityIcon,
@@ -96,12 +102,16 @@ export default function PriorityItem({
         isCompleted && styles.containerCompleted,
       ]}
       onPress={onToggle}
+      onLongPress={onLogAmount}
       activeOpacity={0.7}
     >
       {isRequired && !isCompleted && <View style={styles.accentBar} />}
 
       <View style={[styles.checkbox, isCompleted && styles.checkboxChecked]}>
         {isCompleted && <FontAwesome name="check" size={12} color="#fff" />}
+        {!isCompleted && quantityProgress && (
+          <FontAwesome name="plus" size={10} color={colors.primary} />
+        )}
       </View>
 
       <View style={styles.content}>
@@ -114,6 +124,25 @@ export default function PriorityItem({
           </Text>
         </View>
 
+        {quantityProgress && (
+          <View style={styles.progressRow}>
+            <View style={styles.progressBar}>
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    width: `${Math.min(100, (quantityProgress.logged / quantityProgress.target) * 100)}%`,
+                  },
+                  quantityProgress.logged >= quantityProgress.target && styles.progressComplete,
+                ]}
+              />
+            </View>
+            <Text style={[styles.progressText, isCompleted && styles.progressTextCompleted]}>
+              {formatQuantity(quantityProgress.logged)}/{formatQuantity(quantityProgress.target, quantityProgress.unit)}
+            </Text>
+          </View>
+        )}
+
         {weeklyProgress && !habit.specific_days && (
           <View style={styles.progressRow}>
             <View style={styles.progressBar}>
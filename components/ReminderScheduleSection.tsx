@@ -0,0 +1,283 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  FlatList,
+  Switch,
+} from 'react-native';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { DAY_LABELS, DayOfWeek } from '@/lib/types';
+import type { UserSettings } from '@/lib/userSettings';
+import { formatReminderTime } from '@/lib/habitReminders';
+
+type TimeSettingKey =
+  | 'checkin_reminder_time'
+  | 'intentions_reminder_time'
+  | 'recap_reminder_time'
+  | 'quiet_hours_start'
+  | 'quiet_hours_end';
+
+const TIME_SETTING_TITLES: Record<TimeSettingKey, string> = {
+  checkin_reminder_time: 'Habits Check-In',
+  intentions_reminder_time: 'Intentions Prompt',
+  recap_reminder_time: 'Weekly Recap',
+  quiet_hours_start: 'Quiet Hours Start',
+  quiet_hours_end: 'Quiet Hours End',
+};
+
+// Every half hour, 00:00–23:30
+const REMINDER_TIME_OPTIONS: string[] = Array.from({ length: 48 }, (_, i) => {
+  const h = Math.floor(i / 2);
+  const m = (i % 2) * 30;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+});
+
+const TIME_OPTION_HEIGHT = 48;
+
+interface ReminderScheduleSectionProps {
+  settings: UserSettings;
+  onChange: (partial: Partial<UserSettings>) => void;
+}
+
+export default function ReminderScheduleSection({ settings, onChange }: ReminderScheduleSectionProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [editingKey, setEditingKey] = useState<TimeSettingKey | null>(null);
+
+  const renderTimeRow = (key: TimeSettingKey, label: string) => (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <TouchableOpacity
+        style={styles.timeButton}
+        onPress={() => setEditingKey(key)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.timeButtonText}>{formatReminderTime(settings[key])}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.card}>
+      {renderTimeRow('checkin_reminder_time', 'Habits check-in')}
+      {settings.top3_todos_enabled && renderTimeRow('intentions_reminder_time', 'Intentions prompt')}
+      {renderTimeRow('recap_reminder_time', 'Weekly recap')}
+
+      <View style={styles.daysRow}>
+        {([0, 1, 2, 3, 4, 5, 6] as DayOfWeek[]).map((day) => (
+          <TouchableOpacity
+            key={day}
+            style={[styles.dayButton, settings.recap_weekday === day && styles.dayButtonActive]}
+            onPress={() => onChange({ recap_weekday: day })}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.dayButtonText,
+                settings.recap_weekday === day && styles.dayButtonTextActive,
+              ]}
+            >
+              {DAY_LABELS[day]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.divider} />
+
+      <View style={styles.row}>
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowLabel}>Quiet hours</Text>
+          <Text style={styles.helperText}>Reminders in this window are skipped</Text>
+        </View>
+        <Switch
+          value={settings.quiet_hours_enabled}
+          onValueChange={(value) => onChange({ quiet_hours_enabled: value })}
+          trackColor={{ false: colors.borderLight, true: colors.primaryLight }}
+          thumbColor="#f4f3f4"
+        />
+      </View>
+      {settings.quiet_hours_enabled && (
+        <>
+          {renderTimeRow('quiet_hours_start', 'From')}
+          {renderTimeRow('quiet_hours_end', 'Until')}
+        </>
+      )}
+
+      {/* Time Picker Modal */}
+      <Modal
+        visible={editingKey !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setEditingKey(null)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setEditingKey(null)}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {editingKey ? TIME_SETTING_TITLES[editingKey] : ''}
+            </Text>
+            <FlatList
+              data={REMINDER_TIME_OPTIONS}
+              keyExtractor={(item) => item}
+              initialScrollIndex={
+                editingKey ? Math.max(0, REMINDER_TIME_OPTIONS.indexOf(settings[editingKey])) : 0
+              }
+              getItemLayout={(_, index) => ({ length: TIME_OPTION_HEIGHT, offset: TIME_OPTION_HEIGHT * index, index })}
+              renderItem={({ item }) => {
+                const selected = editingKey !== null && item === settings[editingKey];
+                return (
+                  <TouchableOpacity
+                    style={[styles.timeOption, selected && styles.timeOptionSelected]}
+                    onPress={() => {
+                      if (editingKey) onChange({ [editingKey]: item });
+                      setEditingKey(null);
+                    }}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.timeOptionText, selected && styles.timeOptionTextSelected]}>
+                      {formatReminderTime(item)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              }}
+              showsVerticalScrollIndicator={false}
+            />
+            <TouchableOpacity
+              style={styles.modalCancel}
+              onPress={() => setEditingKey(null)}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.modalCancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: theme.spacing.md,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: theme.fontSize.md,
+    color: colors.textPrimary,
+  },
+  helperText: {
+    fontSize: theme.fontSize.xs,
+    color: colors.textMuted,
+    marginTop: 2,
+  },
+  timeButton: {
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: colors.primaryLightOverlay30,
+  },
+  timeButtonText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: colors.primary,
+  },
+  daysRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: theme.spacing.xs,
+  },
+  dayButton: {
+    flex: 1,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+  },
+  dayButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  dayButtonText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.medium,
+    color: colors.textSecondary,
+  },
+  dayButtonTextActive: {
+    color: '#fff',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: colors.borderLight,
+    marginVertical: theme.spacing.xs,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.lg,
+    width: '80%',
+    maxHeight: '60%',
+  },
+  modalTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  timeOption: {
+    height: TIME_OPTION_HEIGHT,
+    justifyContent: 'center',
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.sm,
+  },
+  timeOptionSelected: {
+    backgroundColor: colors.primaryLightOverlay30,
+  },
+  timeOptionText: {
+    fontSize: theme.fontSize.md,
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  timeOptionTextSelected: {
+    color: colors.primary,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  modalCancel: {
+    paddingVertical: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+    alignItems: 'center',
+  },
+  modalCancelText: {
+    fontSize: theme.fontSize.md,
+    color: colors.textMuted,
+    fontWeight: theme.fontWeight.medium,
+  },
+});
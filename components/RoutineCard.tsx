@@ -0,0 +1,184 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { Habit } from '@/lib/types';
+import type { RoutineProgress } from '@/lib/routines';
+
+/**
+ * Today-screen card for a routine: its ordered steps with check state, a
+ * progress bar, and a button that starts (or resumes) the guided run.
+ * Steps can also be checked off directly from the card.
+ */
+
+interface RoutineCardProps {
+  progress: RoutineProgress;
+  onStart: () => void;
+  onToggleStep: (habit: Habit) => void;
+}
+
+export default function RoutineCard({ progress, onStart, onToggleStep }: RoutineCardProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { routine, steps, completedIds, done, total, isComplete } = progress;
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+
+  return (
+    <View style={[styles.container, isComplete && styles.containerComplete]}>
+      <View style={styles.header}>
+        <FontAwesome name="list-ol" size={14} color={colors.primary} />
+        <Text style={styles.name} numberOfLines={1}>
+          {routine.name}
+        </Text>
+        <Text style={styles.count}>
+          {done}/{total}
+        </Text>
+      </View>
+
+      <View style={styles.progressBar}>
+        <View style={[styles.progressFill, { width: `${percent}%` }]} />
+      </View>
+
+      {steps.map((habit, index) => {
+        const checked = completedIds.has(habit.id);
+        return (
+          <TouchableOpacity
+            key={habit.id}
+            style={styles.step}
+            onPress={() => onToggleStep(habit)}
+            activeOpacity={0.7}
+          >
+            <View style={[styles.stepCheck, checked && styles.stepCheckDone]}>
+              {checked ? (
+                <FontAwesome name="check" size={10} color="#fff" />
+              ) : (
+                <Text style={styles.stepNumber}>{index + 1}</Text>
+              )}
+            </View>
+            <Text style={[styles.stepName, checked && styles.stepNameDone]} numberOfLines={1}>
+              {habit.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {isComplete ? (
+        <View style={styles.completeRow}>
+          <FontAwesome name="check-circle" size={16} color={colors.primary} />
+          <Text style={styles.completeText}>Routine complete</Text>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.startButton} onPress={onStart} activeOpacity={0.8}>
+          <FontAwesome name="play" size={12} color="#fff" />
+          <Text style={styles.startButtonText}>{done > 0 ? 'Continue routine' : 'Start routine'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: theme.spacing.sm,
+    ...theme.shadow.sm,
+  },
+  containerComplete: {
+    backgroundColor: colors.primaryLightOverlay25,
+    borderColor: colors.primaryLightOverlay30,
+    shadowOpacity: 0,
+    elevation: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  name: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: colors.textPrimary,
+  },
+  count: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.medium,
+    color: colors.textMuted,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: colors.borderLight,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+    borderRadius: 2,
+  },
+  step: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: 2,
+  },
+  stepCheck: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepCheckDone: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  stepNumber: {
+    fontSize: 10,
+    fontWeight: theme.fontWeight.semibold,
+    color: colors.textMuted,
+  },
+  stepName: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: colors.textPrimary,
+  },
+  stepNameDone: {
+    color: colors.primaryDark,
+    textDecorationLine: 'line-through',
+    opacity: 0.8,
+  },
+  startButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: colors.primary,
+    borderRadius: theme.borderRadius.sm,
+    paddingVertical: theme.spacing.sm,
+    marginTop: theme.spacing.xs,
+  },
+  startButtonText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: '#fff',
+  },
+  completeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.xs,
+  },
+  completeText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Keyboard,
+  Pressable,
+} from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { Habit } from '@/lib/types';
+import { isAvoidHabit } from '@/lib/habits';
+
+interface RoutineFormData {
+  name: string;
+  habitIds: string[];
+}
+
+interface RoutineFormProps {
+  /** Active habits to pick steps from */
+  habits: Habit[];
+  initialData?: RoutineFormData;
+  /** Routine being edited, so its own steps stay selectable */
+  routineId?: string;
+  onSubmit: (data: RoutineFormData) => void;
+  onCancel?: () => void;
+  submitLabel?: string;
+}
+
+export default function RoutineForm({
+  habits,
+  initialData,
+  routineId,
+  onSubmit,
+  onCancel,
+  submitLabel = 'Save Routine',
+}: RoutineFormProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [name, setName] = useState(initialData?.name ?? '');
+  const [habitIds, setHabitIds] = useState<string[]>(initialData?.habitIds ?? []);
+
+  const habitById = useMemo(() => new Map(habits.map((h) => [h.id, h])), [habits]);
+
+  // A habit belongs to at most one routine, and avoid habits have nothing to check off
+  const available = habits.filter(
+    (h) =>
+      !isAvoidHabit(h) &&
+      !habitIds.includes(h.id) &&
+      (!h.routine_id || h.routine_id === routineId)
+  );
+
+  const move = (index: number, delta: number) => {
+    setHabitIds((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const canSubmit = name.trim().length > 0 && habitIds.length > 0;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({ name: name.trim(), habitIds });
+  };
+
+  return (
+    <Pressable style={{ flex: 1 }} onPress={Keyboard.dismiss}>
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled" keyboardDismissMode="on-drag">
+      <View style={styles.field}>
+        <Text style={styles.label}>Routine Name</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., Morning routine"
+          placeholderTextColor={colors.textMuted}
+          value={name}
+          onChangeText={setName}
+          autoCapitalize="sentences"
+        />
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Steps</Text>
+        {habitIds.length === 0 ? (
+          <Text style={styles.helperText}>Add habits below in the order you do them</Text>
+        ) : (
+          habitIds.map((id, index) => (
+            <View key={id} style={styles.stepRow}>
+              <Text style={styles.stepNumber}>{index + 1}</Text>
+              <Text style={styles.stepName} numberOfLines={1}>
+                {habitById.get(id)?.name ?? 'Deleted habit'}
+              </Text>
+              <TouchableOpacity
+                onPress={() => move(index, -1)}
+                disabled={index === 0}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                style={styles.iconButton}
+              >
+                <FontAwesome
+                  name="chevron-up"
+                  size={12}
+                  color={index === 0 ? colors.borderLight : colors.textSecondary}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => move(index, 1)}
+                disabled={index === habitIds.length - 1}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                style={styles.iconButton}
+              >
+                <FontAwesome
+                  name="chevron-down"
+                  size={12}
+                  color={index === habitIds.length - 1 ? colors.borderLight : colors.textSecondary}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setHabitIds((prev) => prev.filter((h) => h !== id))}
+                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                style={styles.iconButton}
+              >
+                <FontAwesome name="times" size={14} color={colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </View>
+
+      {available.length > 0 && (
+        <View style={styles.field}>
+          <Text style={styles.label}>Add Habits</Text>
+          <View style={styles.chipRow}>
+            {available.map((habit) => (
+              <TouchableOpacity
+                key={habit.id}
+                style={styles.chip}
+                onPress={() => setHabitIds((prev) => [...prev, habit.id])}
+                activeOpacity={0.7}
+              >
+                <FontAwesome name="plus" size={10} color={colors.primary} />
+                <Text style={styles.chipText}>{habit.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.submitButton, !canSubmit && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.submitButtonText}>{submitLabel}</Text>
+        </TouchableOpacity>
+
+        {onCancel && (
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={onCancel}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+    </Pressable>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    field: {
+      marginBottom: theme.spacing.lg,
+    },
+    label: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+      marginBottom: theme.spacing.xs,
+    },
+    helperText: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: 14,
+      fontSize: theme.fontSize.md,
+      color: colors.textPrimary,
+    },
+    stepRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      marginBottom: theme.spacing.xs,
+      gap: theme.spacing.sm,
+    },
+    stepNumber: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.primary,
+      minWidth: 16,
+    },
+    stepName: {
+      flex: 1,
+      fontSize: theme.fontSize.md,
+      color: colors.textPrimary,
+    },
+    iconButton: {
+      padding: 4,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.xs,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.full,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipText: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    actions: {
+      marginTop: theme.spacing.md,
+      marginBottom: theme.spacing.xl,
+    },
+    submitButton: {
+      backgroundColor: colors.primary,
+      borderRadius: theme.borderRadius.md,
+      paddingVertical: 16,
+      alignItems: 'center',
+      ...theme.shadow.md,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    submitButtonText: {
+      color: '#fff',
+      fontSize: theme.fontSize.lg,
+      fontWeight: theme.fontWeight.semibold,
+    },
+    cancelButton: {
+      paddingVertical: 16,
+      alignItems: 'center',
+    },
+    cancelButtonText: {
+      color: colors.textSecondary,
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.medium,
+    },
+  });
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { Habit } from '@/lib/types';
+import { isQuantitativeHabit } from '@/lib/habits';
+import type { RoutineProgress } from '@/lib/routines';
+import AppHeader from '@/components/AppHeader';
+
+/**
+ * Guided, one-step-at-a-time run through a routine. Progress comes from the
+ * day's completions, so closing and reopening the runner picks up at the
+ * first unfinished step. Skips only last for the current run.
+ */
+
+interface RoutineRunnerProps {
+  visible: boolean;
+  progress: RoutineProgress | null;
+  onCompleteStep: (habit: Habit) => void;
+  onClose: () => void;
+}
+
+export default function RoutineRunner({
+  visible,
+  progress,
+  onCompleteStep,
+  onClose,
+}: RoutineRunnerProps) {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [skippedIds, setSkippedIds] = useState<Set<string>>(new Set());
+
+  // Each run starts fresh
+  useEffect(() => {
+    if (visible) setSkippedIds(new Set());
+  }, [visible]);
+
+  if (!progress) return null;
+
+  const { routine, steps, completedIds, done, total, isComplete } = progress;
+  const current = steps.find((h) => !completedIds.has(h.id) && !skippedIds.has(h.id)) ?? null;
+  const currentIndex = current ? steps.indexOf(current) : -1;
+
+  const handleSkip = () => {
+    if (!current) return;
+    setSkippedIds((prev) => new Set(prev).add(current.id));
+  };
+
+  const renderStep = (habit: Habit) => (
+    <View style={styles.stepContent}>
+      <Text style={styles.stepCounter}>
+        Step {currentIndex + 1} of {total}
+      </Text>
+      <Text style={styles.stepName}>{habit.name}</Text>
+      {habit.description ? (
+        <Text style={styles.stepDescription}>{habit.description}</Text>
+      ) : null}
+      {isQuantitativeHabit(habit) && (
+        <Text style={styles.stepTarget}>
+          Target: {habit.target_amount} {habit.unit || 'units'}
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={styles.doneButton}
+          onPress={() => onCompleteStep(habit)}
+          activeOpacity={0.8}
+        >
+          <FontAwesome name="check" size={16} color="#fff" />
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.skipButton} onPress={handleSkip} activeOpacity={0.7}>
+          <Text style={styles.skipButtonText}>Skip for now</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderFinished = () => (
+    <View style={styles.stepContent}>
+      <FontAwesome
+        name={isComplete ? 'check-circle' : 'flag-checkered'}
+        size={48}
+        color={isComplete ? colors.primary : colors.textMuted}
+      />
+      <Text style={styles.stepName}>
+        {isComplete ? 'Routine complete!' : 'End of routine'}
+      </Text>
+      <Text style={styles.stepDescription}>
+        {isComplete
+          ? `All ${total} steps of ${routine.name} are done.`
+          : `${done} of ${total} steps done. Skipped steps are still on your list for today.`}
+      </Text>
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.doneButton} onPress={onClose} activeOpacity={0.8}>
+          <Text style={styles.doneButtonText}>Finish</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <AppHeader title={routine.name} onBack={onClose} />
+
+        {/* One segment per step */}
+        <View style={styles.segments}>
+          {steps.map((habit) => (
+            <View
+              key={habit.id}
+              style={[
+                styles.segment,
+                completedIds.has(habit.id) && styles.segmentDone,
+                habit.id === current?.id && styles.segmentCurrent,
+              ]}
+            />
+          ))}
+        </View>
+
+        {current ? renderStep(current) : renderFinished()}
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  segments: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.sm,
+  },
+  segment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.borderLight,
+  },
+  segmentDone: {
+    backgroundColor: colors.primary,
+  },
+  segmentCurrent: {
+    backgroundColor: colors.primaryLight,
+  },
+  stepContent: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: theme.spacing.xl,
+    gap: theme.spacing.md,
+  },
+  stepCounter: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  stepName: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  stepDescription: {
+    fontSize: theme.fontSize.md,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  stepTarget: {
+    fontSize: theme.fontSize.sm,
+    color: colors.textMuted,
+  },
+  actions: {
+    alignSelf: 'stretch',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.lg,
+  },
+  doneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: colors.primary,
+    borderRadius: theme.borderRadius.md,
+    paddingVertical: theme.spacing.md,
+  },
+  doneButtonText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: '#fff',
+  },
+  skipButton: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+  },
+  skipButtonText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: colors.textMuted,
+  },
+});
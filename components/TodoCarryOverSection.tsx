@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
+import { theme, type ThemeColors } from '@/lib/theme';
+import { useThemeColors } from '@/hooks/useTheme';
+import { useDailyTodosForRange } from '@/hooks/useDailyTodosQuery';
+import { getTodayDate, getWeekRange } from '@/lib/habits';
+import { computeCarryOverStats } from '@/lib/todoCarryOver';
+import AppHeader from '@/components/AppHeader';
+
+const HISTORY_WEEKS = 8;
+
+function formatWeekStart(date: string): string {
+  return new Date(date + 'T12:00:00').toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/** How often daily intentions were carried over to another day. */
+export default function TodoCarryOverSection() {
+  const colors = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [showDetail, setShowDetail] = useState(false);
+
+  const today = getTodayDate();
+  const start = useMemo(() => getWeekRange(-(HISTORY_WEEKS - 1)).start, [today]);
+  const { data: todos = [] } = useDailyTodosForRange(start, today);
+  const stats = useMemo(
+    () => computeCarryOverStats(todos, today, HISTORY_WEEKS),
+    [todos, today],
+  );
+
+  if (stats.total === 0) return null;
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => setShowDetail(true)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.rowLeft}>
+          <FontAwesome name="repeat" size={16} color={colors.primary} />
+          <Text style={styles.rowLabel}>Carried over</Text>
+          <Text style={styles.rowValue}>{stats.carryRate}% of intentions</Text>
+        </View>
+        <FontAwesome name="chevron-right" size={12} color={colors.textMuted} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={showDetail}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowDetail(false)}
+      >
+        <View style={styles.container}>
+          <AppHeader title="Carried Over" onBack={() => setShowDetail(false)} />
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+          >
+            <View style={styles.card}>
+              <Text style={styles.summaryValue}>
+                {stats.carriedOver} of {stats.total}
+              </Text>
+              <Text style={styles.footnote}>
+                intentions rolled over to another day in the last {HISTORY_WEEKS} weeks
+              </Text>
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>By week</Text>
+              {stats.weekly.map((week) => (
+                <View key={week.weekStart} style={styles.weekRow}>
+                  <Text style={styles.weekLabel}>{formatWeekStart(week.weekStart)}</Text>
+                  <View style={styles.barTrack}>
+                    {week.total > 0 && (
+                      <View
+                        style={[
+                          styles.barFill,
+                          { width: `${(week.carriedOver / week.total) * 100}%` },
+                        ]}
+                      />
+                    )}
+                  </View>
+                  <Text style={styles.weekValue}>
+                    {week.total > 0 ? `${week.carriedOver}/${week.total}` : '–'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {stats.mostCarried.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Most carried</Text>
+                {stats.mostCarried.map((todo) => (
+                  <View key={todo.id} style={styles.itemRow}>
+                    <Text style={styles.itemText} numberOfLines={1}>
+                      {todo.text}
+                    </Text>
+                    <Text style={styles.itemCount}>
+                      {todo.carry_count} {todo.carry_count === 1 ? 'day' : 'days'}
+                    </Text>
+                  </View>
+                ))}
+                <Text style={styles.footnote}>
+                  Something that keeps moving may need a smaller first step.
+                </Text>
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.md,
+      padding: theme.spacing.md,
+      marginTop: theme.spacing.sm,
+      ...theme.shadow.sm,
+    },
+    rowLeft: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+    },
+    rowLabel: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    rowValue: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+    },
+
+    // Modal
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: theme.spacing.lg,
+      paddingBottom: 120,
+      gap: theme.spacing.md,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: theme.borderRadius.lg,
+      padding: theme.spacing.md,
+      gap: theme.spacing.sm,
+      ...theme.shadow.sm,
+    },
+    cardTitle: {
+      fontSize: theme.fontSize.md,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.textPrimary,
+    },
+    summaryValue: {
+      fontSize: theme.fontSize.xl,
+      fontWeight: theme.fontWeight.bold,
+      color: colors.textPrimary,
+    },
+    footnote: {
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+    },
+    weekRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+    },
+    weekLabel: {
+      width: 52,
+      fontSize: theme.fontSize.xs,
+      color: colors.textSecondary,
+    },
+    barTrack: {
+      flex: 1,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.borderLight,
+      overflow: 'hidden',
+    },
+    barFill: {
+      height: '100%',
+      borderRadius: 4,
+      backgroundColor: colors.warning,
+    },
+    weekValue: {
+      width: 40,
+      textAlign: 'right',
+      fontSize: theme.fontSize.xs,
+      color: colors.textMuted,
+    },
+    itemRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: theme.spacing.sm,
+    },
+    itemText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    itemCount: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold,
+      color: colors.warning,
+    },
+  });
+}
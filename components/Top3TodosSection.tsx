@@ -1,5 +1,6 @@
 import React, { useMemo, useRef, useCallback } from 'react';
-import { View, Text, StyleSheet, Alert } from 'react-native';
+import { View, Text, StyleSheet, Alert, TouchableOpacity, ActivityIndicator } from 'react-native';
+import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { theme } from '@/lib/theme';
 import { useThemeColors } from '@/hooks/useTheme';
 import { DailyTodo } from '@/lib/types';
@@ -7,16 +8,27 @@ import DailyTodoItem, { DailyTodoItemHandle } from './DailyTodoItem';
 
 interface Top3TodosSectionProps {
   todos: DailyTodo[];
+  title?: string;
   onSave: (position: number, text: string) => void;
   onToggle: (todo: DailyTodo) => void;
   onDelete: (todo: DailyTodo) => void;
+  /** Unfinished todos from an earlier day that could move into this one */
+  carryOver?: { count: number; label: string; loading: boolean } | null;
+  onCarryOver?: () => void;
+  onDismissCarryOver?: () => void;
+  onPlanTomorrow?: () => void;
 }
 
 export default function Top3TodosSection({
   todos,
+  title = 'Daily Intentions',
   onSave,
   onToggle,
   onDelete,
+  carryOver = null,
+  onCarryOver,
+  onDismissCarryOver,
+  onPlanTomorrow,
 }: Top3TodosSectionProps) {
   const colors = useThemeColors();
   const styles = useMemo(() => createStyles(colors), [colors]);
@@ -42,7 +54,34 @@ export default function Top3TodosSection({
 
   return (
     <View style={styles.container}>
-      <Text style={styles.sectionLabel}>Daily Intentions</Text>
+      <View style={styles.header}>
+        <Text style={styles.sectionLabel}>{title}</Text>
+        {onPlanTomorrow && (
+          <TouchableOpacity onPress={onPlanTomorrow} activeOpacity={0.7} hitSlop={8}>
+            <Text style={styles.headerAction}>Plan tomorrow</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {carryOver && (
+        <View style={styles.carryOverBanner}>
+          <FontAwesome name="repeat" size={12} color={colors.primary} />
+          <Text style={styles.carryOverText}>
+            {carryOver.count} unfinished from {carryOver.label}
+          </Text>
+          {carryOver.loading ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <>
+              <TouchableOpacity onPress={onDismissCarryOver} activeOpacity={0.7} hitSlop={8}>
+                <Text style={styles.carryOverDismiss}>Dismiss</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={onCarryOver} activeOpacity={0.7} hitSlop={8}>
+                <Text style={styles.carryOverAction}>Carry over</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
       <View style={styles.card}>
         {[1, 2, 3].map((pos) => (
           <DailyTodoItem
@@ -66,14 +105,48 @@ function createStyles(colors: import('@/lib/theme').ThemeColors) {
     container: {
       marginBottom: theme.spacing.xs,
     },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: theme.spacing.sm,
+      marginTop: theme.spacing.sm,
+    },
     sectionLabel: {
       fontSize: theme.fontSize.xs,
       fontWeight: theme.fontWeight.semibold as any,
       color: colors.textMuted,
       textTransform: 'uppercase',
       letterSpacing: 0.5,
+    },
+    headerAction: {
+      fontSize: theme.fontSize.xs,
+      fontWeight: theme.fontWeight.semibold as any,
+      color: colors.primary,
+    },
+    carryOverBanner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.sm,
+      backgroundColor: colors.primaryLightOverlay25,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
       marginBottom: theme.spacing.sm,
-      marginTop: theme.spacing.sm,
+    },
+    carryOverText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      color: colors.textPrimary,
+    },
+    carryOverDismiss: {
+      fontSize: theme.fontSize.sm,
+      color: colors.textMuted,
+    },
+    carryOverAction: {
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.semibold as any,
+      color: colors.primary,
     },
     card: {
       backgroundColor: colors.surface,
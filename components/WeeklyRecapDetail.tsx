@@ -260,6 +260,28 @@ function RecapContent({
             <View key={index} style={styles.goalCard}>
               <Text style={styles.goalTitle}>{goal.title}</Text>
               <Text style={styles.narrativeText}>{goal.narrative}</Text>
+              {goal.achieved_on && (
+                <View style={styles.milestoneRow}>
+                  <FontAwesome name="trophy" size={12} color={colors.success} />
+                  <Text style={styles.milestoneText}>
+                    Goal achieved
+                    <Text style={styles.milestoneDate}>
+                      {' '}• {formatMilestoneDate(goal.achieved_on)}
+                    </Text>
+                  </Text>
+                </View>
+              )}
+              {goal.milestones?.map((milestone, i) => (
+                <View key={i} style={styles.milestoneRow}>
+                  <FontAwesome name="flag" size={12} color={colors.success} />
+                  <Text style={styles.milestoneText}>
+                    {milestone.label}
+                    <Text style={styles.milestoneDate}>
+                      {' '}• Reached {formatMilestoneDate(milestone.reached_on)}
+                    </Text>
+                  </Text>
+                </View>
+              ))}
             </View>
           ))}
         </View>
@@ -313,6 +335,11 @@ function RecapContent({
   );
 }
 
+function formatMilestoneDate(dateStr: string): string {
+  const d = new Date(dateStr + 'T12:00:00');
+  return d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
 function createStyles(colors: ThemeColors) {
   return StyleSheet.create({
     container: {
@@ -443,6 +470,22 @@ function createStyles(colors: ThemeColors) {
       color: colors.textPrimary,
       marginBottom: 4,
     },
+    milestoneRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: theme.spacing.xs,
+      marginTop: theme.spacing.xs,
+    },
+    milestoneText: {
+      flex: 1,
+      fontSize: theme.fontSize.sm,
+      fontWeight: theme.fontWeight.medium,
+      color: colors.textPrimary,
+    },
+    milestoneDate: {
+      fontWeight: theme.fontWeight.normal,
+      color: colors.textMuted,
+    },
     lookingAheadSection: {
       backgroundColor: colors.primaryLightOverlay15,
       borderWidth: 1,
@@ -3,6 +3,9 @@ import { AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Session, User } from '@supabase/supabase-js';
 import { EVENTS, captureEvent, identifyUser, resetUser, setUserProperties } from '@/lib/analytics';
+import { clearOutbox, flushOutbox } from '@/lib/outbox';
+import { queryClient } from '@/lib/queryClient';
+import { clearPersistedQueryCache } from '@/lib/queryPersistence';
 import { configureRevenueCat, loginRevenueCat, logoutRevenueCat } from '@/lib/revenueCat';
 import { captureError } from '@/lib/sentry';
 import {
@@ -14,6 +17,19 @@ import {
 import { supabase } from '@/lib/supabase';
 import { Profile } from '@/lib/types';
 
+// Drop cached query data, in memory and on disk, and any queued offline
+// writes, so the next account to sign in on this device never sees (or
+// replays) the previous one's habits or journal
+function purgeQueryCache() {
+  queryClient.clear();
+  clearPersistedQueryCache().catch((err) => {
+    console.warn('[Auth] Could not clear persisted query cache:', err);
+  });
+  clearOutbox().catch((err) => {
+    console.warn('[Auth] Could not clear the offline outbox:', err);
+  });
+}
+
 interface AuthContextType {
   session: Session | null;
   user: User | null;
@@ -155,6 +171,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           captureEvent(EVENTS.USER_SIGNED_OUT);
           resetUser();
           setProfile(null);
+          purgeQueryCache();
           cacheProfile(null).catch(() => {
             // no-op: cacheProfile already logs details
           });
@@ -331,6 +348,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
+    // Last chance to send offline writes while the session is still valid
+    await flushOutbox().catch((err) => {
+      console.warn('[Auth] Could not sync offline changes before sign-out:', err);
+    });
     await supabase.auth.signOut();
     logoutRevenueCat().catch((err) => {
       console.warn('[RevenueCat] logout failed:', err);
@@ -352,6 +373,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } catch {
       // Expected — user no longer exists on the server
     }
+    purgeQueryCache();
     logoutRevenueCat().catch((err) => {
       console.warn('[RevenueCat] logout failed:', err);
     });
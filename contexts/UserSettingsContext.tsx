@@ -3,6 +3,7 @@ import React, { createContext, useCallback, useContext, useEffect, useMemo, useR
 import { Appearance, useColorScheme } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { captureError } from '@/lib/sentry';
+import { rescheduleNotifications } from '@/lib/notifications';
 import { supabase } from '@/lib/supabase';
 import {
   coerceThemePreference,
@@ -49,6 +50,7 @@ async function migrateLegacySettingsIfNeeded(): Promise<UserSettings> {
   ]);
 
   const migratedSettings: UserSettings = {
+    ...DEFAULT_USER_SETTINGS,
     top3_todos_enabled: parseBooleanString(top3Raw),
     journal_enabled: parseBooleanString(journalRaw),
     theme_preference: coerceThemePreference(themeRaw),
@@ -65,13 +67,24 @@ async function migrateLegacySettingsIfNeeded(): Promise<UserSettings> {
 }
 
 function areSettingsEqual(a: UserSettings, b: UserSettings) {
-  return (
-    a.top3_todos_enabled === b.top3_todos_enabled &&
-    a.journal_enabled === b.journal_enabled &&
-    a.theme_preference === b.theme_preference
+  // journal_template_schedule is an object, so compare serialized values
+  return (Object.keys(a) as (keyof UserSettings)[]).every(
+    (key) => JSON.stringify(a[key]) === JSON.stringify(b[key]),
   );
 }
 
+// Everything but the theme feeds into scheduled notifications
+function affectsNotifications(a: UserSettings, b: UserSettings) {
+  return !areSettingsEqual({ ...a, theme_preference: b.theme_preference }, b);
+}
+
+function rescheduleForSettings() {
+  rescheduleNotifications().catch((error) => {
+    console.error('Error rescheduling notifications after settings change:', error);
+    captureError(error, { tag: 'notifications.reschedule' });
+  });
+}
+
 export function UserSettingsProvider({ children }: { children: React.ReactNode }) {
   const { user, profile, loading: authLoading } = useAuth();
   const systemScheme = useColorScheme();
@@ -133,14 +146,19 @@ export function UserSettingsProvider({ children }: { children: React.ReactNode }
   }, [settings.theme_preference]);
 
   const updateSettings = useCallback(async (partial: Partial<UserSettings>) => {
+    const previousSettings = settingsRef.current;
     const nextSettings: UserSettings = {
-      ...settingsRef.current,
+      ...previousSettings,
       ...partial,
-      theme_preference: coerceThemePreference(partial.theme_preference ?? settingsRef.current.theme_preference),
+      theme_preference: coerceThemePreference(partial.theme_preference ?? previousSettings.theme_preference),
     };
     setSettings(nextSettings);
     settingsRef.current = nextSettings;
     await AsyncStorage.setItem(USER_SETTINGS_STORAGE_KEY, JSON.stringify(nextSettings));
+    // The scheduler reads settings from storage, so reschedule once they're written
+    if (affectsNotifications(previousSettings, nextSettings)) {
+      rescheduleForSettings();
+    }
     if (user?.id) {
       await persistSettingsToRemote(user.id, nextSettings);
     }
@@ -169,11 +187,16 @@ export function UserSettingsProvider({ children }: { children: React.ReactNode }
 
     if (hasRemoteSettings) {
       // Server is source of truth for signed-in users across devices.
-      if (!areSettingsEqual(remoteSettings, localSettings)) {
+      const changed = !areSettingsEqual(remoteSettings, localSettings);
+      if (changed) {
         setSettings(remoteSettings);
         settingsRef.current = remoteSettings;
       }
-      AsyncStorage.setItem(USER_SETTINGS_STORAGE_KEY, JSON.stringify(remoteSettings)).catch((error) => {
+      AsyncStorage.setItem(USER_SETTINGS_STORAGE_KEY, JSON.stringify(remoteSettings)).then(() => {
+        if (changed && affectsNotifications(localSettings, remoteSettings)) {
+          rescheduleForSettings();
+        }
+      }).catch((error) => {
         console.error('Error caching remote user settings locally:', error);
         captureError(error, { tag: 'userSettings.cacheRemote' });
       });
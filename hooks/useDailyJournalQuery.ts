@@ -1,16 +1,30 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { EVENTS, captureEvent } from '@/lib/analytics';
 import { queryKeys } from '@/lib/queryClient';
-import type { DailyJournalEntry } from '@/lib/types';
+import type { DailyJournalEntry, JournalAnswer, JournalRatings } from '@/lib/types';
 import {
   getJournalForDate,
   getJournalForDateRange,
   upsertJournalEntry,
   deleteJournalEntry,
+  getJournalTemplates,
+  createJournalTemplate,
+  updateJournalTemplate,
+  deleteJournalTemplate,
+  type JournalTemplateInput,
 } from '@/lib/dailyJournal';
+import {
+  getJournalReflections,
+  requestJournalReflection,
+  deleteJournalReflection,
+  type JournalReflectionRequest,
+} from '@/lib/journalReflections';
+import { runOrQueue } from '@/lib/outbox';
 
 const STALE = {
   journal: 1000 * 30,
+  templates: 1000 * 60 * 5, // 5 min – templates rarely change
+  reflections: 1000 * 60 * 5, // 5 min
 } as const;
 
 export function useDailyJournal(date: string) {
@@ -35,16 +49,20 @@ export function useUpsertJournalEntry() {
     mutationFn: ({
       userId,
       date,
-      win,
-      tension,
-      gratitude,
+      templateId,
+      answers,
+      ratings,
     }: {
       userId: string;
       date: string;
-      win: string;
-      tension: string;
-      gratitude: string;
-    }) => upsertJournalEntry(userId, date, win, tension, gratitude),
+      templateId: string | null;
+      answers: JournalAnswer[];
+      ratings: JournalRatings;
+    }) =>
+      runOrQueue(
+        { kind: 'journal_upsert', userId, date, templateId, answers, ratings },
+        () => upsertJournalEntry(userId, date, templateId, answers, ratings),
+      ),
     onMutate: async (variables) => {
       const key = queryKeys.dailyJournal.forDate(variables.date);
       await qc.cancelQueries({ queryKey: key });
@@ -54,9 +72,9 @@ export function useUpsertJournalEntry() {
         id: old?.id ?? `optimistic-journal`,
         user_id: variables.userId,
         journal_date: variables.date,
-        win: variables.win,
-        tension: variables.tension,
-        gratitude: variables.gratitude,
+        template_id: variables.templateId,
+        answers: variables.answers,
+        ...variables.ratings,
         created_at: old?.created_at ?? new Date().toISOString(),
         updated_at: new Date().toISOString(),
       }));
@@ -67,6 +85,8 @@ export function useUpsertJournalEntry() {
       captureEvent(EVENTS.JOURNAL_SUBMITTED, {
         is_edit: context?.previous != null,
         date: variables.date,
+        template_id: variables.templateId,
+        has_mood: variables.ratings.mood !== null,
       });
     },
     onError: (_err, variables, context) => {
@@ -74,8 +94,9 @@ export function useUpsertJournalEntry() {
         qc.setQueryData(queryKeys.dailyJournal.forDate(variables.date), context.previous);
       }
     },
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: ['dailyJournal'] });
+    onSettled: (outcome) => {
+      // Queued writes keep the optimistic data until the outbox replays them
+      if (!outcome?.queued) qc.invalidateQueries({ queryKey: ['dailyJournal'] });
     },
   });
 }
@@ -106,3 +127,99 @@ export function useDeleteJournalEntry() {
     },
   });
 }
+
+// ── Templates ──────────────────────────────────
+
+export function useJournalTemplates() {
+  return useQuery({
+    queryKey: queryKeys.dailyJournal.templates,
+    queryFn: getJournalTemplates,
+    staleTime: STALE.templates,
+  });
+}
+
+export function useCreateJournalTemplate() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      userId,
+      template,
+    }: {
+      userId: string;
+      template: JournalTemplateInput & { sort_order: number };
+    }) => createJournalTemplate(userId, template),
+    onSuccess: (created) => {
+      qc.invalidateQueries({ queryKey: queryKeys.dailyJournal.templates });
+      captureEvent(EVENTS.JOURNAL_TEMPLATE_CREATED, {
+        prompt_count: created.prompts.length,
+        rotating: created.prompts_per_day != null,
+      });
+    },
+  });
+}
+
+export function useUpdateJournalTemplate() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<JournalTemplateInput> }) =>
+      updateJournalTemplate(id, updates),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.dailyJournal.templates });
+    },
+  });
+}
+
+export function useDeleteJournalTemplate() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id }: { id: string }) => deleteJournalTemplate(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.dailyJournal.templates });
+    },
+  });
+}
+
+// ── Reflections ────────────────────────────────
+
+export function useJournalReflections() {
+  return useQuery({
+    queryKey: queryKeys.dailyJournal.reflections,
+    queryFn: getJournalReflections,
+    staleTime: STALE.reflections,
+  });
+}
+
+export function useGenerateJournalReflection() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: (request: JournalReflectionRequest) => requestJournalReflection(request),
+    onSuccess: (data, variables) => {
+      if (data.reflection) {
+        qc.invalidateQueries({ queryKey: queryKeys.dailyJournal.reflections });
+        if (!data.already_existed) {
+          captureEvent(EVENTS.JOURNAL_REFLECTION_GENERATED, {
+            scope: variables.scope,
+            entry_count: data.reflection.entry_count,
+            generation_time_ms: data.generation_time_ms ?? 0,
+          });
+        }
+      }
+      if (data.error) {
+        captureEvent(EVENTS.JOURNAL_REFLECTION_FAILED, {
+          scope: variables.scope,
+          error_type: data.error,
+        });
+      }
+    },
+  });
+}
+
+export function useDeleteJournalReflection() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id }: { id: string }) => deleteJournalReflection(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.dailyJournal.reflections });
+    },
+  });
+}
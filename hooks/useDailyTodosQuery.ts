@@ -10,6 +10,9 @@ import {
   updateDailyTodoText,
   deleteDailyTodo,
 } from '@/lib/dailyTodos';
+import { carryOverTodos } from '@/lib/todoCarryOver';
+import { getTodayDate } from '@/lib/habits';
+import { runOrQueue } from '@/lib/outbox';
 
 const STALE = {
   todos: 1000 * 30,
@@ -44,7 +47,11 @@ export function useUpsertDailyTodo() {
       date: string;
       position: number;
       text: string;
-    }) => upsertDailyTodo(userId, date, position, text),
+    }) =>
+      runOrQueue(
+        { kind: 'todo_upsert', userId, date, position, text },
+        () => upsertDailyTodo(userId, date, position, text),
+      ),
     onMutate: async (variables) => {
       const key = queryKeys.dailyTodos.forDate(variables.date);
       await qc.cancelQueries({ queryKey: key });
@@ -68,6 +75,8 @@ export function useUpsertDailyTodo() {
             text: variables.text,
             is_completed: false,
             position: variables.position,
+            carried_to_date: null,
+            carry_count: 0,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
           },
@@ -81,6 +90,7 @@ export function useUpsertDailyTodo() {
         captureEvent(EVENTS.TODO_CREATED, {
           position: variables.position,
           day_of_week: new Date(`${variables.date}T12:00:00`).getDay(),
+          for_tomorrow: variables.date > getTodayDate(),
         });
       }
     },
@@ -89,8 +99,9 @@ export function useUpsertDailyTodo() {
         qc.setQueryData(queryKeys.dailyTodos.forDate(variables.date), context.previous);
       }
     },
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: ['dailyTodos'] });
+    onSettled: (outcome) => {
+      // Queued writes keep the optimistic data until the outbox replays them
+      if (!outcome?.queued) qc.invalidateQueries({ queryKey: ['dailyTodos'] });
     },
   });
 }
@@ -101,12 +112,17 @@ export function useToggleDailyTodo() {
     mutationFn: ({
       todoId,
       isCompleted,
+      date,
     }: {
       todoId: string;
       isCompleted: boolean;
       date: string;
       position?: number;
-    }) => toggleDailyTodo(todoId, isCompleted),
+    }) =>
+      runOrQueue(
+        { kind: 'todo_toggle', todoId, date, isCompleted },
+        () => toggleDailyTodo(todoId, isCompleted),
+      ),
     onMutate: async (variables) => {
       const key = queryKeys.dailyTodos.forDate(variables.date);
       await qc.cancelQueries({ queryKey: key });
@@ -138,8 +154,9 @@ export function useToggleDailyTodo() {
         qc.setQueryData(queryKeys.dailyTodos.forDate(variables.date), context.previous);
       }
     },
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: ['dailyTodos'] });
+    onSettled: (outcome) => {
+      // Queued writes keep the optimistic data until the outbox replays them
+      if (!outcome?.queued) qc.invalidateQueries({ queryKey: ['dailyTodos'] });
     },
   });
 }
@@ -150,11 +167,16 @@ export function useUpdateDailyTodoText() {
     mutationFn: ({
       todoId,
       text,
+      date,
     }: {
       todoId: string;
       text: string;
       date: string;
-    }) => updateDailyTodoText(todoId, text),
+    }) =>
+      runOrQueue(
+        { kind: 'todo_text', todoId, date, text },
+        () => updateDailyTodoText(todoId, text),
+      ),
     onMutate: async (variables) => {
       const key = queryKeys.dailyTodos.forDate(variables.date);
       await qc.cancelQueries({ queryKey: key });
@@ -173,8 +195,9 @@ export function useUpdateDailyTodoText() {
         qc.setQueryData(queryKeys.dailyTodos.forDate(variables.date), context.previous);
       }
     },
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: ['dailyTodos'] });
+    onSettled: (outcome) => {
+      // Queued writes keep the optimistic data until the outbox replays them
+      if (!outcome?.queued) qc.invalidateQueries({ queryKey: ['dailyTodos'] });
     },
   });
 }
@@ -184,10 +207,15 @@ export function useDeleteDailyTodo() {
   return useMutation({
     mutationFn: ({
       todoId,
+      date,
     }: {
       todoId: string;
       date: string;
-    }) => deleteDailyTodo(todoId),
+    }) =>
+      runOrQueue(
+        { kind: 'todo_delete', todoId, date },
+        () => deleteDailyTodo(todoId),
+      ),
     onMutate: async (variables) => {
       const key = queryKeys.dailyTodos.forDate(variables.date);
       await qc.cancelQueries({ queryKey: key });
@@ -207,6 +235,33 @@ export function useDeleteDailyTodo() {
         qc.setQueryData(queryKeys.dailyTodos.forDate(variables.date), context.previous);
       }
     },
+    onSettled: (outcome) => {
+      // Queued writes keep the optimistic data until the outbox replays them
+      if (!outcome?.queued) qc.invalidateQueries({ queryKey: ['dailyTodos'] });
+    },
+  });
+}
+
+export function useCarryOverTodos() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      userId,
+      fromDate,
+      toDate,
+    }: {
+      userId: string;
+      fromDate: string;
+      toDate: string;
+      automatic: boolean;
+    }) => carryOverTodos(userId, fromDate, toDate),
+    onSuccess: (result, variables) => {
+      captureEvent(EVENTS.TODOS_CARRIED_OVER, {
+        carried: result.carried,
+        leftover: result.leftover,
+        automatic: variables.automatic,
+      });
+    },
     onSettled: () => {
       qc.invalidateQueries({ queryKey: ['dailyTodos'] });
     },
@@ -2,17 +2,31 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { EVENTS, captureEvent } from '@/lib/analytics';
 import {
   getGoals,
+  getArchivedGoals,
+  getArchivedGoalHistory,
   createGoal,
+  updateGoal,
   deleteGoal,
   addGoalEntry,
+  addCumulativeGoalEntry,
+  addStrengthGoalEntry,
+  addRunningGoalEntry,
+  getGoalEntries,
+  updateGoalEntry,
+  deleteGoalEntry,
+  importGoalEntries,
   getGoalCurrentValue,
+  setGoalStatus,
+  restartGoal,
 } from '@/lib/goals';
-import type { Goal, GoalType } from '@/lib/types';
+import type { GoalEntryDraft } from '@/lib/goalImport';
+import type { Goal, GoalEntry, GoalMilestoneDefinition, GoalStatus, GoalType, LiftSet } from '@/lib/types';
 
 // ── Stale times ────────────────────────────────
 
 const STALE = {
   goals: 1000 * 60 * 5, // 5 min – goals rarely change
+  archive: 1000 * 60 * 30, // 30 min – archived goals only change on status updates
   currentValues: 1000 * 60 * 2, // 2 min – health data changes slowly
 } as const;
 
@@ -21,6 +35,9 @@ const STALE = {
 export const goalKeys = {
   all: ['goals'] as const,
   currentValue: (goalId: string) => ['goals', 'currentValue', goalId] as const,
+  entries: (goalId: string) => ['goals', 'entries', goalId] as const,
+  archived: ['goals', 'archived'] as const,
+  archivedHistory: (goalId: string) => ['goals', 'archivedHistory', goalId] as const,
 } as const;
 
 // ── Query hooks ────────────────────────────────
@@ -42,6 +59,32 @@ export function useGoalCurrentValue(goal: Goal | null) {
   });
 }
 
+export function useGoalEntries(goalId: string | null) {
+  return useQuery({
+    queryKey: goalKeys.entries(goalId ?? ''),
+    queryFn: () => getGoalEntries(goalId!),
+    staleTime: STALE.goals,
+    enabled: !!goalId,
+  });
+}
+
+export function useArchivedGoals() {
+  return useQuery({
+    queryKey: goalKeys.archived,
+    queryFn: getArchivedGoals,
+    staleTime: STALE.archive,
+  });
+}
+
+export function useArchivedGoalHistory(goal: Goal | null, enabled: boolean = true) {
+  return useQuery({
+    queryKey: goalKeys.archivedHistory(goal?.id ?? ''),
+    queryFn: () => getArchivedGoalHistory(goal!),
+    staleTime: STALE.archive,
+    enabled: !!goal && enabled,
+  });
+}
+
 // ── Mutation hooks ─────────────────────────────
 
 export function useCreateGoal() {
@@ -62,6 +105,7 @@ export function useCreateGoal() {
         target_date?: string | null;
         rate?: number | null;
         rate_unit?: string | null;
+        distance_meters?: number | null;
         data_source: 'apple_health' | 'manual';
       };
     }) => createGoal(userId, goal),
@@ -78,6 +122,73 @@ export function useCreateGoal() {
   });
 }
 
+export function useUpdateGoalMilestones() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      goalId,
+      milestones,
+      autoMilestones,
+    }: {
+      goalId: string;
+      milestones: GoalMilestoneDefinition[];
+      autoMilestones: boolean;
+    }) => updateGoal(goalId, { milestones, auto_milestones: autoMilestones }),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+}
+
+export function useUpdateGoalLinkedHabits() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ goalId, habitIds }: { goalId: string; habitIds: string[] }) =>
+      updateGoal(goalId, { linked_habit_ids: habitIds }),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+}
+
+export function useSetGoalStatus() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      goalId,
+      status,
+      finalValue,
+    }: {
+      goalId: string;
+      status: GoalStatus;
+      finalValue?: number | null;
+      goalType?: GoalType;
+    }) => setGoalStatus(goalId, status, finalValue ?? null),
+    onSuccess: (_result, variables) => {
+      qc.invalidateQueries({ queryKey: goalKeys.all });
+      captureEvent(EVENTS.GOAL_STATUS_CHANGED, {
+        goal_id: variables.goalId,
+        goal_type: variables.goalType,
+        status: variables.status,
+      });
+    },
+  });
+}
+
+export function useRestartGoal() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, goal }: { userId: string; goal: Goal }) => restartGoal(userId, goal),
+    onSuccess: (_result, variables) => {
+      qc.invalidateQueries({ queryKey: goalKeys.all });
+      captureEvent(EVENTS.GOAL_RESTARTED, {
+        goal_id: variables.goal.id,
+        goal_type: variables.goal.goal_type,
+      });
+    },
+  });
+}
+
 export function useDeleteGoal() {
   const qc = useQueryClient();
   return useMutation({
@@ -101,13 +212,30 @@ export function useAddGoalEntry() {
       userId,
       value,
       date,
+      goalType,
+      sets,
+      run,
+      note,
     }: {
       goalId: string;
       userId: string;
       value: number;
       date: string;
       goalType?: GoalType;
-    }) => addGoalEntry(goalId, userId, value, date),
+      sets?: LiftSet[];
+      run?: Pick<GoalEntry, 'distance_meters' | 'duration_seconds'>;
+      note?: string | null;
+    }) =>
+      // Cumulative goals add to the day's amount rather than replacing it;
+      // strength goals add sets and keep the day's best estimated 1RM;
+      // running PRs keep the day's fastest run
+      goalType === 'cumulative'
+        ? addCumulativeGoalEntry(goalId, userId, value, date, note)
+        : goalType === 'strength_pr' && sets && sets.length > 0
+        ? addStrengthGoalEntry(goalId, userId, sets, date, note)
+        : goalType === 'running_pr' && run
+        ? addRunningGoalEntry(goalId, userId, value, run, date, note)
+        : addGoalEntry(goalId, userId, value, date, note),
     onSuccess: (_result, variables) => {
       qc.invalidateQueries({ queryKey: ['goals'] });
       captureEvent(EVENTS.GOAL_ENTRY_ADDED, {
@@ -119,6 +247,57 @@ export function useAddGoalEntry() {
   });
 }
 
+export function useUpdateGoalEntry() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      entryId,
+      updates,
+    }: {
+      entryId: string;
+      updates: Partial<Pick<GoalEntry, 'value' | 'note' | 'distance_meters' | 'duration_seconds'>>;
+    }) => updateGoalEntry(entryId, updates),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+}
+
+export function useDeleteGoalEntry() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ entryId }: { entryId: string }) => deleteGoalEntry(entryId),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+}
+
+export function useImportGoalEntries() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      goal,
+      userId,
+      entries,
+    }: {
+      goal: Goal;
+      userId: string;
+      entries: GoalEntryDraft[];
+      source: 'form' | 'csv';
+    }) => importGoalEntries(goal, userId, entries),
+    onSuccess: (_result, variables) => {
+      qc.invalidateQueries({ queryKey: goalKeys.all });
+      captureEvent(EVENTS.GOAL_ENTRIES_IMPORTED, {
+        goal_id: variables.goal.id,
+        goal_type: variables.goal.goal_type,
+        source: variables.source,
+        entry_count: variables.entries.length,
+      });
+    },
+  });
+}
+
 /** Invalidate all goal caches (useful for pull-to-refresh) */
 export function useRefreshGoals() {
   const qc = useQueryClient();
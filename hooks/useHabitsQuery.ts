@@ -1,6 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { EVENTS, captureEvent } from '@/lib/analytics';
 import { queryKeys } from '@/lib/queryClient';
+import { captureError } from '@/lib/sentry';
+import { refreshHabitReminders } from '@/lib/notifications';
+import { runOrQueue } from '@/lib/outbox';
 import {
   getHabits,
   getCompletionsForDate,
@@ -10,6 +13,8 @@ import {
   getSnoozesForDateRange,
   getStreak,
   toggleHabitCompletion,
+  logHabitQuantity,
+  getLoggedQuantity,
   snoozeHabit,
   unsnoozeHabit,
   createHabit,
@@ -17,8 +22,20 @@ import {
   deleteHabit,
   computeWeeklyAdherence,
   getTodayDate,
+  getMonthRange,
+  getSlips,
+  logSlip,
+  deleteSlip,
+  getAllCompletions,
+  getAllSnoozes,
+  getStreakFreezes,
+  applyStreakFreeze,
+  computeHabitStreak,
+  getFreezeBalance,
+  type HabitStreak,
+  type StreakUnit,
 } from '@/lib/habits';
-import type { HealthMetricType } from '@/lib/types';
+import type { HabitCompletion, HabitRecurrence, HabitType, HealthMetricType } from '@/lib/types';
 
 // ── Stale times ────────────────────────────────
 
@@ -26,6 +43,7 @@ const STALE = {
   habits: 1000 * 60 * 5, // 5 min – habit list rarely changes
   completions: 1000 * 30, // 30 sec – changes when user interacts
   snoozes: 1000 * 30,
+  slips: 1000 * 30,
   streak: 1000 * 60, // 1 min
 } as const;
 
@@ -79,6 +97,14 @@ export function useSnoozesForRange(start: string, end: string) {
   });
 }
 
+export function useSlips() {
+  return useQuery({
+    queryKey: queryKeys.slips.all,
+    queryFn: getSlips,
+    staleTime: STALE.slips,
+  });
+}
+
 export function useStreak() {
   return useQuery({
     queryKey: queryKeys.streak,
@@ -87,45 +113,112 @@ export function useStreak() {
   });
 }
 
+/** Per-habit current/longest streaks and the spendable freeze balance */
+export function useHabitStreaks() {
+  const habitsQuery = useHabits();
+  const completionsQuery = useQuery({
+    queryKey: queryKeys.completions.all,
+    queryFn: getAllCompletions,
+    staleTime: STALE.completions,
+  });
+  const snoozesQuery = useQuery({
+    queryKey: queryKeys.snoozes.all,
+    queryFn: getAllSnoozes,
+    staleTime: STALE.snoozes,
+  });
+  const freezesQuery = useQuery({
+    queryKey: queryKeys.streakFreezes,
+    queryFn: getStreakFreezes,
+    staleTime: STALE.streak,
+  });
+  const slipsQuery = useSlips();
+
+  const habits = habitsQuery.data ?? [];
+  const freezes = freezesQuery.data ?? [];
+  const today = getTodayDate();
+
+  const streaks = habits.map((habit) =>
+    computeHabitStreak(
+      habit,
+      completionsQuery.data ?? [],
+      snoozesQuery.data ?? [],
+      freezes,
+      today,
+      slipsQuery.data ?? []
+    )
+  );
+  const streaksByHabit: Record<string, HabitStreak> = Object.fromEntries(
+    streaks.map((s) => [s.habitId, s])
+  );
+
+  return {
+    data: {
+      streaks,
+      streaksByHabit,
+      freezeBalance: getFreezeBalance(streaks, freezes),
+    },
+    isLoading:
+      habitsQuery.isLoading ||
+      completionsQuery.isLoading ||
+      snoozesQuery.isLoading ||
+      freezesQuery.isLoading,
+  };
+}
+
 export function useWeeklyAdherence(weekStart: string, weekEnd: string) {
   const habitsQuery = useHabits();
-  const completionsQuery = useCompletionsForWeek(weekStart, weekEnd);
+  // From the start of the month, so monthly-count habits see month-to-date progress
+  const completionsQuery = useCompletionsForRange(getMonthRange(weekStart).start, weekEnd);
+  const slipsQuery = useSlips();
 
   const habits = habitsQuery.data ?? [];
   const completions = completionsQuery.data ?? [];
+  const slips = slipsQuery.data ?? [];
   const today = getTodayDate();
   const weekEnded = weekEnd < today;
 
-  const stats = computeWeeklyAdherence(habits, completions, weekEnd, today);
+  const stats = computeWeeklyAdherence(habits, completions, weekEnd, today, slips);
   const completedTotal = stats.reduce((sum, s) => sum + s.completedDays, 0);
+  // Partial days on quantitative habits count fractionally toward adherence
+  const progressTotal = stats.reduce((sum, s) => sum + (s.progressDays ?? s.completedDays), 0);
   const targetTotal = stats.reduce((sum, s) => sum + s.targetDays, 0);
-  const adherencePercent = targetTotal > 0 ? Math.min(100, Math.round((completedTotal / targetTotal) * 100)) : 0;
+  const adherencePercent = targetTotal > 0 ? Math.min(100, Math.round((progressTotal / targetTotal) * 100)) : 0;
 
   return {
     data: {
       stats,
       completedTotal,
+      progressTotal,
       targetTotal,
       adherencePercent,
       weekEnded,
     },
-    isLoading: habitsQuery.isLoading || completionsQuery.isLoading,
-    isFetching: habitsQuery.isFetching || completionsQuery.isFetching,
-    error: habitsQuery.error ?? completionsQuery.error ?? null,
+    isLoading: habitsQuery.isLoading || completionsQuery.isLoading || slipsQuery.isLoading,
+    isFetching: habitsQuery.isFetching || completionsQuery.isFetching || slipsQuery.isFetching,
+    error: habitsQuery.error ?? completionsQuery.error ?? slipsQuery.error ?? null,
     refetch: async () => {
-      await Promise.all([habitsQuery.refetch(), completionsQuery.refetch()]);
+      await Promise.all([habitsQuery.refetch(), completionsQuery.refetch(), slipsQuery.refetch()]);
     },
   };
 }
 
 // ── Mutation hooks ─────────────────────────────
 
+/** Re-plan per-habit reminders after anything that changes which ones are due */
+function refreshReminders() {
+  refreshHabitReminders().catch((error) => {
+    console.warn('Error refreshing habit reminders:', error);
+    captureError(error, { tag: 'notifications.habit-reminders' });
+  });
+}
+
 /** Invalidate all queries that could be affected by a completion change */
 function useInvalidateOnCompletionChange() {
   const qc = useQueryClient();
   return () => {
     qc.invalidateQueries({ queryKey: ['completions'] });
     qc.invalidateQueries({ queryKey: queryKeys.streak });
+    refreshReminders();
   };
 }
 
@@ -134,17 +227,56 @@ function useInvalidateOnSnoozeChange() {
   const qc = useQueryClient();
   return () => {
     qc.invalidateQueries({ queryKey: ['snoozes'] });
+    refreshReminders();
+  };
+}
+
+/**
+ * Optimistically update the day's completions so check-offs show immediately,
+ * including ones queued while offline. Returns the previous data for rollback.
+ */
+function useOptimisticCompletions() {
+  const qc = useQueryClient();
+  return {
+    apply: async (date: string, update: (old: HabitCompletion[]) => HabitCompletion[]) => {
+      const key = queryKeys.completions.forDate(date);
+      await qc.cancelQueries({ queryKey: key });
+      const previous = qc.getQueryData<HabitCompletion[]>(key);
+      qc.setQueryData<HabitCompletion[]>(key, (old = []) => update(old));
+      return previous;
+    },
+    rollback: (date: string, previous: HabitCompletion[] | undefined) => {
+      if (previous) qc.setQueryData(queryKeys.completions.forDate(date), previous);
+    },
+  };
+}
+
+function makeOptimisticCompletion(
+  habitId: string,
+  userId: string,
+  date: string,
+  quantity: number | null = null,
+): HabitCompletion {
+  return {
+    id: `optimistic-${habitId}`,
+    habit_id: habitId,
+    user_id: userId,
+    completed_date: date,
+    quantity,
+    created_at: new Date().toISOString(),
   };
 }
 
 export function useToggleCompletion() {
   const invalidate = useInvalidateOnCompletionChange();
+  const optimistic = useOptimisticCompletions();
   return useMutation({
     mutationFn: ({
       habitId,
       userId,
       date,
       isCompleted,
+      isAutoComplete,
     }: {
       habitId: string;
       userId: string;
@@ -152,9 +284,32 @@ export function useToggleCompletion() {
       isCompleted: boolean;
       habitName?: string;
       isAutoComplete?: boolean;
-    }) => toggleHabitCompletion(habitId, userId, date, isCompleted),
-    onSuccess: (_, variables) => {
-      invalidate();
+    }) =>
+      runOrQueue(
+        {
+          kind: 'habit_completion',
+          habitId,
+          userId,
+          date,
+          completed: !isCompleted,
+          autoComplete: isAutoComplete,
+        },
+        () => toggleHabitCompletion(habitId, userId, date, isCompleted, isAutoComplete),
+      ),
+    onMutate: async (variables) => {
+      const previous = await optimistic.apply(variables.date, (old) =>
+        variables.isCompleted
+          ? old.filter((c) => c.habit_id !== variables.habitId)
+          : [
+              ...old.filter((c) => c.habit_id !== variables.habitId),
+              makeOptimisticCompletion(variables.habitId, variables.userId, variables.date),
+            ]
+      );
+      return { previous };
+    },
+    onSuccess: (outcome, variables) => {
+      // Queued writes keep the optimistic data until the outbox replays them
+      if (!outcome.queued) invalidate();
       if (variables.isCompleted) {
         captureEvent(EVENTS.HABIT_UNCOMPLETED, {
           habit_id: variables.habitId,
@@ -170,6 +325,129 @@ export function useToggleCompletion() {
         day_of_week: new Date(`${variables.date}T12:00:00`).getDay(),
       });
     },
+    onError: (_err, variables, context) => {
+      optimistic.rollback(variables.date, context?.previous);
+    },
+  });
+}
+
+export function useLogHabitQuantity() {
+  const invalidate = useInvalidateOnCompletionChange();
+  const optimistic = useOptimisticCompletions();
+  return useMutation({
+    mutationFn: ({
+      habitId,
+      userId,
+      date,
+      amount,
+    }: {
+      habitId: string;
+      userId: string;
+      date: string;
+      amount: number;
+      targetAmount: number;
+      habitName?: string;
+    }) =>
+      runOrQueue(
+        { kind: 'habit_quantity', habitId, userId, date, amount },
+        () => logHabitQuantity(habitId, userId, date, amount),
+      ),
+    onMutate: async (variables) => {
+      let previousTotal = 0;
+      const previous = await optimistic.apply(variables.date, (old) => {
+        const existing = old.find((c) => c.habit_id === variables.habitId);
+        previousTotal = getLoggedQuantity(existing, variables.targetAmount);
+        const total = Math.max(0, previousTotal + variables.amount);
+        const others = old.filter((c) => c.habit_id !== variables.habitId);
+        if (total === 0) return others;
+        return [
+          ...others,
+          existing
+            ? { ...existing, quantity: total }
+            : makeOptimisticCompletion(variables.habitId, variables.userId, variables.date, total),
+        ];
+      });
+      return { previous, previousTotal };
+    },
+    onSuccess: (outcome, variables, context) => {
+      if (!outcome.queued) invalidate();
+      const total = outcome.queued
+        ? Math.max(0, (context?.previousTotal ?? 0) + variables.amount)
+        : outcome.result;
+      // Only the log that crosses the daily target counts as completing the habit
+      const previousTotal = total - variables.amount;
+      if (previousTotal < variables.targetAmount && total >= variables.targetAmount) {
+        captureEvent(EVENTS.HABIT_COMPLETED, {
+          habit_id: variables.habitId,
+          habit_name: variables.habitName,
+          is_auto_complete: false,
+          day_of_week: new Date(`${variables.date}T12:00:00`).getDay(),
+        });
+      }
+    },
+    onError: (_err, variables, context) => {
+      optimistic.rollback(variables.date, context?.previous);
+    },
+  });
+}
+
+export function useLogSlip() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      habitId,
+      userId,
+      date,
+      note,
+    }: {
+      habitId: string;
+      userId: string;
+      date: string;
+      note?: string | null;
+      habitName?: string;
+    }) => logSlip(habitId, userId, date, note),
+    onSuccess: (_, variables) => {
+      qc.invalidateQueries({ queryKey: queryKeys.slips.all });
+      captureEvent(EVENTS.HABIT_SLIP_LOGGED, {
+        habit_id: variables.habitId,
+        habit_name: variables.habitName,
+      });
+    },
+  });
+}
+
+export function useDeleteSlip() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ slipId }: { slipId: string }) => deleteSlip(slipId),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.slips.all });
+    },
+  });
+}
+
+export function useApplyStreakFreeze() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      habitId,
+      userId,
+      periodStart,
+    }: {
+      habitId: string;
+      userId: string;
+      periodStart: string;
+      unit: StreakUnit;
+      habitName?: string;
+    }) => applyStreakFreeze(habitId, userId, periodStart),
+    onSuccess: (_, variables) => {
+      qc.invalidateQueries({ queryKey: queryKeys.streakFreezes });
+      captureEvent(EVENTS.STREAK_FREEZE_USED, {
+        habit_id: variables.habitId,
+        habit_name: variables.habitName,
+        streak_unit: variables.unit,
+      });
+    },
   });
 }
 
@@ -227,16 +505,24 @@ export function useCreateHabit() {
         metric_type?: HealthMetricType | null;
         metric_threshold?: number | null;
         auto_complete?: boolean;
+        target_amount?: number | null;
+        unit?: string | null;
+        recurrence?: HabitRecurrence | null;
+        habit_type?: HabitType;
+        reminder_times?: string[] | null;
+        reminder_days?: number[] | null;
       };
     }) => createHabit(userId, habit),
     onSuccess: (createdHabit, variables) => {
       qc.invalidateQueries({ queryKey: queryKeys.habits.all });
+      refreshReminders();
       captureEvent(EVENTS.HABIT_CREATED, {
         habit_name: createdHabit.name || variables.habit.name,
         frequency_per_week: variables.habit.frequency_per_week,
         has_specific_days: !!variables.habit.specific_days?.length,
         auto_complete: !!variables.habit.auto_complete,
         metric_type: variables.habit.metric_type ?? null,
+        habit_type: variables.habit.habit_type ?? 'build',
       });
     },
   });
@@ -259,10 +545,17 @@ export function useUpdateHabit() {
         metric_type?: HealthMetricType | null;
         metric_threshold?: number | null;
         auto_complete?: boolean;
+        target_amount?: number | null;
+        unit?: string | null;
+        recurrence?: HabitRecurrence | null;
+        habit_type?: HabitType;
+        reminder_times?: string[] | null;
+        reminder_days?: number[] | null;
       };
     }) => updateHabit(habitId, updates),
     onSuccess: (_updatedHabit, variables) => {
       qc.invalidateQueries({ queryKey: queryKeys.habits.all });
+      refreshReminders();
       captureEvent(EVENTS.HABIT_UPDATED, {
         habit_id: variables.habitId,
         fields_changed: Object.keys(variables.updates),
@@ -283,6 +576,7 @@ export function useDeleteHabit() {
     }) => deleteHabit(habitId),
     onSuccess: (_result, variables) => {
       qc.invalidateQueries({ queryKey: queryKeys.habits.all });
+      refreshReminders();
       captureEvent(EVENTS.HABIT_DELETED, {
         habit_id: variables.habitId,
         habit_name: variables.habitName,
@@ -298,6 +592,8 @@ export function useRefreshAllHabitData() {
     qc.invalidateQueries({ queryKey: queryKeys.habits.all });
     qc.invalidateQueries({ queryKey: ['completions'] });
     qc.invalidateQueries({ queryKey: ['snoozes'] });
+    qc.invalidateQueries({ queryKey: queryKeys.slips.all });
+    qc.invalidateQueries({ queryKey: queryKeys.streakFreezes });
     qc.invalidateQueries({ queryKey: queryKeys.streak });
   };
 }
@@ -0,0 +1,55 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryClient';
+import { captureError } from '@/lib/sentry';
+import { subscribeToHealthChanges } from '@/lib/health';
+import { syncHealthData } from '@/lib/healthSync';
+
+// HealthKit observers fire for every new sample (steps arrive constantly),
+// so syncs they trigger are spaced at least this far apart
+const MIN_OBSERVER_SYNC_INTERVAL_MS = 1000 * 60 * 15;
+
+/**
+ * Keep Supabase's copy of HealthKit data current: sync on launch, when the
+ * app returns to the foreground, and when HealthKit reports new samples —
+ * including background wake-ups from HealthKit background delivery. Pass the
+ * signed-in user's id once Health access is granted, null otherwise.
+ */
+export function useHealthBackgroundSync(userId: string | null) {
+  const qc = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let lastSyncAt = 0;
+    const sync = () => {
+      lastSyncAt = Date.now();
+      syncHealthData(userId)
+        .then((result) => {
+          if (result.written === 0) return;
+          qc.invalidateQueries({ queryKey: ['goals'] });
+          qc.invalidateQueries({ queryKey: ['completions'] });
+          qc.invalidateQueries({ queryKey: queryKeys.streak });
+        })
+        .catch((error) => {
+          console.warn('Error syncing health data:', error);
+          captureError(error, { tag: 'healthSync.run' });
+        });
+    };
+
+    sync();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') sync();
+    });
+    const unsubscribe = subscribeToHealthChanges(() => {
+      if (Date.now() - lastSyncAt >= MIN_OBSERVER_SYNC_INTERVAL_MS) sync();
+    });
+
+    return () => {
+      subscription.remove();
+      unsubscribe();
+    };
+  }, [userId, qc]);
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryClient';
+import { captureError } from '@/lib/sentry';
+import { refreshHabitReminders } from '@/lib/notifications';
+import { flushOutbox, getPendingCount, subscribeToOutbox } from '@/lib/outbox';
+
+// How often to retry while writes are waiting and the app is open
+const RETRY_INTERVAL_MS = 1000 * 30;
+
+/** Number of writes waiting in the offline outbox */
+export function usePendingSyncCount() {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    getPendingCount().then((pending) => {
+      if (mounted) setCount(pending);
+    });
+    const unsubscribe = subscribeToOutbox(setCount);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return count;
+}
+
+/**
+ * Replay the offline outbox on launch, whenever the app returns to the
+ * foreground, and periodically while writes are pending. Only runs with a
+ * signed-in session so replayed writes pass row-level security.
+ */
+export function useOutboxSync(enabled: boolean) {
+  const qc = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const sync = () => {
+      flushOutbox()
+        .then((applied) => {
+          if (applied === 0) return;
+          qc.invalidateQueries({ queryKey: ['completions'] });
+          qc.invalidateQueries({ queryKey: queryKeys.streak });
+          qc.invalidateQueries({ queryKey: ['dailyTodos'] });
+          qc.invalidateQueries({ queryKey: ['dailyJournal'] });
+          return refreshHabitReminders();
+        })
+        .catch((error) => {
+          console.warn('Error syncing offline changes:', error);
+          captureError(error, { tag: 'outbox.sync' });
+        });
+    };
+
+    sync();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') sync();
+    });
+    const interval = setInterval(() => {
+      if (AppState.currentState !== 'active') return;
+      getPendingCount().then((pending) => {
+        if (pending > 0) sync();
+      });
+    }, RETRY_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }, [enabled, qc]);
+}
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  getQueryCacheBuster,
+  restoreQueryCache,
+  subscribeToQueryCachePersistence,
+} from '@/lib/queryPersistence';
+
+/**
+ * Restore the signed-in user's query cache from disk, then keep it written
+ * back as it changes. Fresher data already fetched is never overwritten.
+ */
+export function usePersistedQueryCache(userId: string | null) {
+  const qc = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const buster = getQueryCacheBuster(userId);
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+
+    restoreQueryCache(qc, buster)
+      .catch((error) => {
+        console.warn('Could not restore the query cache:', error);
+        return false;
+      })
+      .then(() => {
+        if (cancelled) return;
+        unsubscribe = subscribeToQueryCachePersistence(qc, buster);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [userId, qc]);
+}
@@ -0,0 +1,87 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { EVENTS, captureEvent } from '@/lib/analytics';
+import { queryKeys } from '@/lib/queryClient';
+import {
+  getRoutines,
+  createRoutine,
+  updateRoutine,
+  deleteRoutine,
+  setRoutineHabits,
+} from '@/lib/routines';
+
+const STALE = {
+  routines: 1000 * 60 * 5, // 5 min – routines rarely change
+} as const;
+
+export function useRoutines() {
+  return useQuery({
+    queryKey: queryKeys.routines.all,
+    queryFn: getRoutines,
+    staleTime: STALE.routines,
+  });
+}
+
+/** Create a routine and assign its habits in order */
+export function useCreateRoutine() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      userId,
+      routine,
+      habitIds,
+    }: {
+      userId: string;
+      routine: { name: string; sort_order: number };
+      habitIds: string[];
+    }) => {
+      const created = await createRoutine(userId, routine);
+      await setRoutineHabits(created.id, habitIds);
+      return created;
+    },
+    onSuccess: (created, variables) => {
+      qc.invalidateQueries({ queryKey: queryKeys.routines.all });
+      qc.invalidateQueries({ queryKey: queryKeys.habits.all });
+      captureEvent(EVENTS.ROUTINE_CREATED, {
+        routine_name: created.name,
+        step_count: variables.habitIds.length,
+      });
+    },
+  });
+}
+
+/** Rename a routine and/or replace its ordered steps */
+export function useUpdateRoutine() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      updates,
+      habitIds,
+      previousHabitIds,
+    }: {
+      id: string;
+      updates: { name?: string; sort_order?: number };
+      habitIds?: string[];
+      previousHabitIds?: string[];
+    }) => {
+      const updated = await updateRoutine(id, updates);
+      if (habitIds) await setRoutineHabits(id, habitIds, previousHabitIds);
+      return updated;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.routines.all });
+      qc.invalidateQueries({ queryKey: queryKeys.habits.all });
+    },
+  });
+}
+
+export function useDeleteRoutine() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id }: { id: string }) => deleteRoutine(id),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.routines.all });
+      qc.invalidateQueries({ queryKey: queryKeys.habits.all });
+    },
+  });
+}
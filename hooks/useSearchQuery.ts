@@ -0,0 +1,20 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryClient';
+import { MIN_SEARCH_QUERY_LENGTH, searchHistory } from '@/lib/search';
+
+const STALE = {
+  search: 1000 * 30,
+} as const;
+
+// Results aren't persisted (lib/queryPersistence), so each launch searches afresh
+export function useHistorySearch(query: string) {
+  const trimmed = query.trim();
+  return useQuery({
+    queryKey: queryKeys.search.forQuery(trimmed),
+    queryFn: () => searchHistory(trimmed),
+    enabled: trimmed.length >= MIN_SEARCH_QUERY_LENGTH,
+    // Keep showing the last results while the next query loads
+    placeholderData: keepPreviousData,
+    staleTime: STALE.search,
+  });
+}
@@ -8,6 +8,7 @@ import {
   triggerRecapGeneration,
 } from '@/lib/weeklyRecaps';
 import { syncHealthGoalEntries } from '@/lib/goals';
+import { syncHealthData } from '@/lib/healthSync';
 import { queryKeys } from '@/lib/queryClient';
 import { useAuth } from '@/contexts/AuthContext';
 import { captureEvent, EVENTS } from '@/lib/analytics';
@@ -57,6 +58,8 @@ export function useGenerateRecap() {
     }) => {
       if (!user) throw new Error('Not authenticated');
       await syncHealthGoalEntries(user.id, weekStart, weekEnd);
+      // Brings the sync cursors up to today so the recap sees the week as complete
+      await syncHealthData(user.id);
       return triggerRecapGeneration(user.id, weekStart, weekEnd);
     },
     onSuccess: (data, variables) => {
@@ -5,3 +5,24 @@ export interface MetricDataPoint {
 
 export const isHealthKitAvailable = jest.fn().mockReturnValue(false);
 export const getCurrentMetricValue = jest.fn().mockResolvedValue(null);
+
+// Goal health sources (lib/goalSources.ts)
+export const getWeightHistory = jest.fn().mockResolvedValue([]);
+export const getBodyFatHistory = jest.fn().mockResolvedValue([]);
+export const getBMIHistory = jest.fn().mockResolvedValue([]);
+export const getLeanMassHistory = jest.fn().mockResolvedValue([]);
+export const getRHRHistory = jest.fn().mockResolvedValue([]);
+export const getStepHistory = jest.fn().mockResolvedValue([]);
+export const getWorkoutCountHistory = jest.fn().mockResolvedValue([]);
+export const getLatestWeight = jest.fn().mockResolvedValue(null);
+export const getLatestBodyFatPercentage = jest.fn().mockResolvedValue(null);
+export const getLatestBMI = jest.fn().mockResolvedValue(null);
+export const getLatestLeanBodyMass = jest.fn().mockResolvedValue(null);
+export const getTodayRestingHeartRate = jest.fn().mockResolvedValue(null);
+export const getTodaySteps = jest.fn().mockResolvedValue(null);
+export const getRecentWorkouts = jest.fn().mockResolvedValue([]);
+
+// Background sync (lib/healthSync.ts)
+export const checkHealthAuthorization = jest.fn().mockResolvedValue(false);
+export const getHabitMetricHistory = jest.fn().mockResolvedValue([]);
+export const subscribeToHealthChanges = jest.fn().mockReturnValue(() => {});
@@ -2,7 +2,7 @@ const createChain = () => {
   const chain: any = {};
   const methods = [
     'select', 'insert', 'update', 'delete', 'upsert',
-    'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in',
     'order', 'single', 'limit', 'range',
   ];
   methods.forEach((method) => {
@@ -23,6 +23,10 @@ const mockChain = createChain();
 
 export const supabase = {
   from: jest.fn().mockReturnValue(mockChain),
+  rpc: jest.fn().mockResolvedValue({ data: [], error: null }),
+  functions: {
+    invoke: jest.fn().mockResolvedValue({ data: null, error: null }),
+  },
   _chain: mockChain,
   _resetChain: () => {
     Object.values(mockChain).forEach((fn: any) => {
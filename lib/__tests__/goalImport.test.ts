@@ -0,0 +1,132 @@
+// goalImport parses times with goalMath, which imports supabase via habits
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import {
+  MAX_GOAL_ENTRY_NOTE_LENGTH,
+  parseEntryDate,
+  parseEntryValue,
+  parseGoalEntriesCsv,
+  parseGoalEntryRows,
+  planGoalEntryImport,
+} from '../goalImport';
+
+const TODAY = '2025-06-15';
+
+describe('parseEntryDate', () => {
+  it('accepts ISO and US dates', () => {
+    expect(parseEntryDate('2025-03-04')).toBe('2025-03-04');
+    expect(parseEntryDate('2025/3/4')).toBe('2025-03-04');
+    expect(parseEntryDate('3/4/2025')).toBe('2025-03-04');
+    expect(parseEntryDate(' 12/31/2024 ')).toBe('2024-12-31');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseEntryDate('2025-02-30')).toBeNull();
+    expect(parseEntryDate('13/01/2025')).toBeNull();
+    expect(parseEntryDate('yesterday')).toBeNull();
+  });
+});
+
+describe('parseEntryValue', () => {
+  it('parses plain numbers and thousands separators', () => {
+    expect(parseEntryValue('182.4')).toBe(182.4);
+    expect(parseEntryValue('1,250')).toBe(1250);
+    expect(parseEntryValue('-3')).toBe(-3);
+  });
+
+  it('parses times for time goals as seconds', () => {
+    expect(parseEntryValue('24:30', 'seconds')).toBe(1470);
+    expect(parseEntryValue('1:45:00.5', 'seconds')).toBe(6300.5);
+    expect(parseEntryValue('24:30')).toBeNull();
+  });
+
+  it('rejects text', () => {
+    expect(parseEntryValue('')).toBeNull();
+    expect(parseEntryValue('about 180')).toBeNull();
+  });
+});
+
+describe('parseGoalEntriesCsv', () => {
+  it('parses rows without a header', () => {
+    const result = parseGoalEntriesCsv('2025-01-02,181.2\n2025-01-01,182\n', { today: TODAY });
+    expect(result.errors).toEqual([]);
+    expect(result.entries).toEqual([
+      { date: '2025-01-01', value: 182, note: null },
+      { date: '2025-01-02', value: 181.2, note: null },
+    ]);
+  });
+
+  it('maps header columns in any order, with quoted notes', () => {
+    const csv = 'Note,Weight (lbs),Date\r\n"after vacation, ugh",185.5,01/10/2025\r\n,184,01/11/2025';
+    const result = parseGoalEntriesCsv(csv, { today: TODAY });
+    expect(result.entries).toEqual([
+      { date: '2025-01-10', value: 185.5, note: 'after vacation, ugh' },
+      { date: '2025-01-11', value: 184, note: null },
+    ]);
+  });
+
+  it('accepts semicolon and tab separators', () => {
+    expect(parseGoalEntriesCsv('2025-01-01;5', { today: TODAY }).entries).toHaveLength(1);
+    expect(parseGoalEntriesCsv('2025-01-01\t5\tnote', { today: TODAY }).entries[0].note).toBe('note');
+  });
+
+  it('reports invalid rows by line and keeps the rest', () => {
+    const csv = ['date,value', '2025-01-01,180', 'Jan 2,179', '2025-01-03,n/a', '2025-07-01,178'].join('\n');
+    const result = parseGoalEntriesCsv(csv, { today: TODAY });
+    expect(result.entries.map((e) => e.date)).toEqual(['2025-01-01']);
+    expect(result.errors.map((e) => e.line)).toEqual([3, 4, 5]);
+    expect(result.errors[2].message).toContain('future');
+  });
+
+  it('keeps the last row for a repeated date and warns', () => {
+    const result = parseGoalEntriesCsv('2025-01-01,180\n2025-01-01,179', { today: TODAY });
+    expect(result.entries).toEqual([{ date: '2025-01-01', value: 179, note: null }]);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].line).toBe(2);
+  });
+
+  it('shortens long notes', () => {
+    const note = 'x'.repeat(MAX_GOAL_ENTRY_NOTE_LENGTH + 20);
+    const result = parseGoalEntriesCsv(`2025-01-01,1,${note}`, { today: TODAY });
+    expect(result.entries[0].note).toHaveLength(MAX_GOAL_ENTRY_NOTE_LENGTH);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe('parseGoalEntryRows', () => {
+  it('skips empty form rows and numbers issues by row', () => {
+    const result = parseGoalEntryRows(
+      [
+        { date: '2025-01-01', value: '180', note: ' ' },
+        { date: '', value: '' },
+        { date: '2025-01-03', value: '' },
+      ],
+      { today: TODAY }
+    );
+    expect(result.entries).toEqual([{ date: '2025-01-01', value: 180, note: null }]);
+    expect(result.errors).toEqual([{ line: 3, message: '"" isn\'t a number' }]);
+  });
+});
+
+describe('planGoalEntryImport', () => {
+  it('splits drafts into added, updated and unchanged dates', () => {
+    const plan = planGoalEntryImport(
+      [
+        { date: '2025-01-01', value: 180, note: null },
+        { date: '2025-01-02', value: 179, note: null },
+        { date: '2025-01-03', value: 178, note: 'new note' },
+      ],
+      [
+        { recorded_date: '2025-01-01', value: 180, note: null },
+        { recorded_date: '2025-01-03', value: 178, note: null },
+      ]
+    );
+    expect(plan.added.map((e) => e.date)).toEqual(['2025-01-02']);
+    expect(plan.unchanged.map((e) => e.date)).toEqual(['2025-01-01']);
+    expect(plan.updated).toEqual([
+      { date: '2025-01-03', value: 178, note: 'new note', previousValue: 178 },
+    ]);
+  });
+});
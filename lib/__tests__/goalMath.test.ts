@@ -10,6 +10,31 @@ import {
   weightedDaysToTarget,
   computeProgressPercent,
   computeRateBasedProjection,
+  computeGoalMilestones,
+  robustLinearRegression,
+  computeSmoothedTrend,
+  detectPlateau,
+  computeWeeklyHabitGoalSeries,
+  computeHabitGoalCorrelation,
+  isCumulativeGoal,
+  computeCumulativeTotals,
+  computeExpectedToDate,
+  computeCumulativePace,
+  computeCumulativeProjection,
+  isStrengthGoal,
+  estimateOneRepMax,
+  bestOneRepMaxSet,
+  computeBestOneRepMaxHistory,
+  estimateOneRepMaxTargetDate,
+  isDurationUnit,
+  formatDuration,
+  parseDuration,
+  formatPace,
+  formatRunningDistance,
+  riegelEquivalentTime,
+  estimateTimeTargetDate,
+  METERS_PER_MILE,
+  WeeklyHabitGoalPoint,
   RegressionResult,
   WeightedRegressionResult,
 } from '../goalMath';
@@ -569,3 +594,598 @@ describe('computeRateBasedProjection', () => {
     });
   });
 });
+
+describe('computeGoalMilestones', () => {
+  it('places auto milestones every 25% toward a decreasing target', () => {
+    const milestones = computeGoalMilestones(makeGoal());
+
+    expect(milestones.map((m) => m.id)).toEqual(['auto-25', 'auto-50', 'auto-75', 'auto-100']);
+    expect(milestones.map((m) => m.value)).toEqual([195, 190, 185, 180]);
+    expect(milestones[3].label).toBe('Goal reached');
+    milestones.forEach((m) => expect(m.reachedOn).toBeNull());
+  });
+
+  it('records the first date each milestone was reached', () => {
+    const history = makeDataPoints('2025-01-01', [200, 196, 194, 191, 189]);
+    const milestones = computeGoalMilestones(makeGoal(), history);
+
+    expect(milestones[0].reachedOn).toBe('2025-01-03');
+    expect(milestones[1].reachedOn).toBe('2025-01-05');
+    expect(milestones[2].reachedOn).toBeNull();
+  });
+
+  it('keeps a milestone reached after the value slips back', () => {
+    const history = makeDataPoints('2025-01-01', [200, 194, 197, 198]);
+    const milestones = computeGoalMilestones(makeGoal(), history);
+
+    expect(milestones[0].reachedOn).toBe('2025-01-02');
+  });
+
+  it('ignores data from before the goal started', () => {
+    const history = makeDataPoints('2024-12-30', [190, 199, 199]);
+    const milestones = computeGoalMilestones(makeGoal(), history);
+
+    milestones.forEach((m) => expect(m.reachedOn).toBeNull());
+  });
+
+  it('sorts user-defined milestones in among the auto ones', () => {
+    const goal = makeGoal({
+      start_value: 100,
+      target_value: 200,
+      milestones: [{ label: 'Triple digits+', value: 110 }],
+    });
+    const milestones = computeGoalMilestones(goal, makeDataPoints('2025-01-01', [112]));
+
+    expect(milestones[0]).toMatchObject({
+      id: 'custom-110',
+      label: 'Triple digits+',
+      percent: 10,
+      isAuto: false,
+      reachedOn: '2025-01-01',
+    });
+    expect(milestones).toHaveLength(5);
+  });
+
+  it('only returns user-defined milestones when auto milestones are off', () => {
+    const goal = makeGoal({
+      auto_milestones: false,
+      milestones: [{ label: 'Sub-190', value: 189.9 }],
+    });
+
+    expect(computeGoalMilestones(goal).map((m) => m.id)).toEqual(['custom-189.9']);
+  });
+
+  it('uses the first data point when the goal has no start value', () => {
+    const goal = makeGoal({ start_value: null, target_value: 50 });
+    const milestones = computeGoalMilestones(goal, makeDataPoints('2025-01-01', [10, 20]));
+
+    expect(milestones.map((m) => m.value)).toEqual([20, 30, 40, 50]);
+    expect(milestones[0].reachedOn).toBe('2025-01-02');
+  });
+
+  it('returns nothing when start and target are equal', () => {
+    expect(computeGoalMilestones(makeGoal({ start_value: 180 }))).toEqual([]);
+  });
+});
+
+describe('computeWeeklyHabitGoalSeries', () => {
+  function week(weekEnd: string, ...adherence: number[]) {
+    return { weekEnd, stats: adherence.map((adherencePercent) => ({ adherencePercent })) };
+  }
+
+  it('pairs each week’s adherence with the goal’s change that week', () => {
+    const history = [
+      { date: '2025-05-24', value: 200 },
+      { date: '2025-05-31', value: 199.5 },
+      { date: '2025-06-07', value: 198 },
+    ];
+
+    const series = computeWeeklyHabitGoalSeries(
+      [week('2025-05-31', 0), week('2025-06-07', 100, 50)],
+      history
+    );
+
+    expect(series.map((w) => w.weekEnd)).toEqual(['2025-05-31', '2025-06-07']);
+    expect(series.map((w) => w.adherencePercent)).toEqual([0, 75]);
+    expect(series[0].rateOfChange).toBeCloseTo(-0.5);
+    expect(series[1].rateOfChange).toBeCloseTo(-1.5);
+  });
+
+  it('scales sparse data to a weekly rate and skips weeks with nothing new', () => {
+    const history = [
+      { date: '2025-05-17', value: 200 },
+      { date: '2025-05-31', value: 198 },
+    ];
+
+    const series = computeWeeklyHabitGoalSeries(
+      [week('2025-05-24', 0), week('2025-05-31', 0), week('2025-06-07', 0)],
+      history
+    );
+
+    expect(series[0].rateOfChange).toBeNull(); // week ending 05-24
+    expect(series[1].rateOfChange).toBeCloseTo(-1); // -2 over 14 days
+    expect(series[2].rateOfChange).toBeNull(); // week ending 06-07
+  });
+
+  it('leaves out weeks without any habits', () => {
+    const series = computeWeeklyHabitGoalSeries(
+      [week('2025-05-24'), week('2025-05-31'), week('2025-06-07', 100)],
+      []
+    );
+
+    expect(series.map((w) => w.weekEnd)).toEqual(['2025-06-07']);
+  });
+});
+
+describe('computeHabitGoalCorrelation', () => {
+  function week(adherencePercent: number, rateOfChange: number | null): WeeklyHabitGoalPoint {
+    return { weekEnd: '2025-06-07', adherencePercent, rateOfChange };
+  }
+
+  it('averages the change in high- and low-adherence weeks', () => {
+    const series = [week(90, -1.2), week(40, -0.2), week(100, -1.0), week(20, -0.2)];
+
+    const { windows } = computeHabitGoalCorrelation(makeGoal(), series, [0]);
+
+    expect(windows[0].highAdherenceRate).toBeCloseTo(-1.1);
+    expect(windows[0].lowAdherenceRate).toBeCloseTo(-0.2);
+    expect(windows[0].highAdherenceWeeks).toBe(2);
+    expect(windows[0].correlation!).toBeLessThan(-0.9);
+  });
+
+  it('picks the lag where good weeks move the goal most toward its target', () => {
+    // The scale catches up a week after the habits
+    const series = [
+      week(100, -0.1),
+      week(20, -1.5),
+      week(100, -0.1),
+      week(20, -1.5),
+      week(100, -0.1),
+      week(20, -1.5),
+    ];
+
+    const { best } = computeHabitGoalCorrelation(makeGoal(), series);
+
+    expect(best?.lagWeeks).toBe(1);
+    expect(best?.highAdherenceRate).toBeCloseTo(-1.5);
+  });
+
+  it('has no best window without enough weeks on both sides', () => {
+    const series = [week(100, -1), week(90, -1), week(30, 0)];
+
+    expect(computeHabitGoalCorrelation(makeGoal(), series).best).toBeNull();
+  });
+});
+
+describe('robustLinearRegression', () => {
+  it('ignores a single mis-entered value', () => {
+    const values = [200, 199.5, 199, 198.5, 198, 197.5, 197, 196.5, 196, 195.5];
+    values[6] = 219; // typo for 197
+    const data = makeDataPoints('2025-01-01', values);
+
+    const robust = robustLinearRegression(data)!;
+    const plain = weightedLinearRegression(data)!;
+
+    expect(robust.outlierDates).toEqual(['2025-01-07']);
+    expect(robust.slope).toBeCloseTo(-0.5, 2);
+    expect(Math.abs(plain.slope + 0.5)).toBeGreaterThan(0.1);
+  });
+
+  it('matches the weighted fit on clean data', () => {
+    const data = makeDataPoints('2025-01-01', [200, 199.4, 199.1, 198.4, 198.1, 197.6]);
+
+    const robust = robustLinearRegression(data)!;
+
+    expect(robust.outlierDates).toEqual([]);
+    expect(robust.slope).toBeCloseTo(weightedLinearRegression(data)!.slope, 1);
+  });
+
+  it('keeps a projected completion date steady despite a spike', () => {
+    const clean = makeDataPoints('2025-01-01', [200, 199, 198, 197, 196, 195, 194, 193]);
+    const spiked = clean.map((p, i) => (i === 5 ? { ...p, value: 205 } : p));
+
+    const cleanDate = estimateCompletionDate(clean, robustLinearRegression(clean)!, 180);
+    const spikedDate = estimateCompletionDate(spiked, robustLinearRegression(spiked)!, 180);
+
+    expect(spikedDate).toBe(cleanDate);
+  });
+
+  it('returns null with fewer than two points', () => {
+    expect(robustLinearRegression(makeDataPoints('2025-01-01', [200]))).toBeNull();
+  });
+});
+
+describe('computeSmoothedTrend', () => {
+  it('moves a tenth of the way toward each daily reading', () => {
+    const trend = computeSmoothedTrend(makeDataPoints('2025-01-01', [200, 190, 190]));
+
+    expect(trend.map((p) => p.value)).toEqual([200, 199, 198.1]);
+  });
+
+  it('catches up further after a gap between readings', () => {
+    const daily = computeSmoothedTrend(makeDataPoints('2025-01-01', [200, 190]));
+    const weekly = computeSmoothedTrend(makeDataPoints('2025-01-01', [200, 190], 7));
+
+    expect(weekly[1].value).toBeLessThan(daily[1].value);
+  });
+
+  it('skips excluded readings', () => {
+    const data = makeDataPoints('2025-01-01', [200, 230, 200]);
+
+    const trend = computeSmoothedTrend(data, 0.1, ['2025-01-02']);
+
+    expect(trend.map((p) => p.date)).toEqual(['2025-01-01', '2025-01-03']);
+    expect(trend[1].value).toBe(200);
+  });
+});
+
+describe('detectPlateau', () => {
+  // Flat around 190 with a little day-to-day noise
+  const noise = [0.3, -0.2, 0.1, -0.3, 0.2, 0, -0.1];
+  const flatDays = (days: number) =>
+    makeDataPoints('2025-03-01', Array.from({ length: days }, (_, i) => 190 + noise[i % noise.length]));
+
+  it('flags readings that have been flat for the minimum number of weeks', () => {
+    const result = detectPlateau(flatDays(22));
+
+    expect(result.isPlateau).toBe(true);
+    expect(result.weeks).toBeGreaterThanOrEqual(3);
+    expect(Math.abs(result.weeklyChange)).toBeLessThan(0.2);
+  });
+
+  it('reports how long the plateau has lasted', () => {
+    const losing = makeDataPoints('2025-02-01', Array.from({ length: 28 }, (_, i) => 204 - i * 0.5));
+    const data = [...losing, ...flatDays(35)];
+
+    const result = detectPlateau(data);
+
+    expect(result.isPlateau).toBe(true);
+    expect(result.weeks).toBe(5);
+    expect(result.since! >= '2025-03-01').toBe(true);
+  });
+
+  it('tolerates a stray reading inside a plateau', () => {
+    const data = flatDays(22).map((p, i) => (i === 10 ? { ...p, value: 196 } : p));
+
+    expect(detectPlateau(data).isPlateau).toBe(true);
+  });
+
+  it('does not flag steady progress', () => {
+    const data = makeDataPoints('2025-03-01', Array.from({ length: 28 }, (_, i) => 200 - i * 0.15));
+
+    const result = detectPlateau(data);
+
+    expect(result.isPlateau).toBe(false);
+    expect(result.weeklyChange).toBeCloseTo(-1.05, 1);
+  });
+
+  it('does not flag noisy or sparse data', () => {
+    const noisy = makeDataPoints('2025-03-01', [190, 194, 187, 193, 186, 195, 189, 191, 186, 194]);
+    const sparse = makeDataPoints('2025-03-01', [190, 190, 190], 7);
+
+    expect(detectPlateau(noisy, 1).isPlateau).toBe(false);
+    expect(detectPlateau(sparse).isPlateau).toBe(false);
+  });
+
+  it('suppresses the completion estimate while on a plateau', () => {
+    const data = flatDays(22);
+    const plateau = detectPlateau(data);
+    const stalled = { slope: -0.01, intercept: 190 };
+
+    expect(estimateCompletionDate(data, stalled, 185)).not.toBeNull();
+    expect(estimateCompletionDate(data, stalled, 185, plateau)).toBeNull();
+  });
+});
+
+// ──────────────────────────────────────────────
+// Cumulative Goals
+// ──────────────────────────────────────────────
+
+describe('cumulative goals', () => {
+  // 2025 has 365 days; 500 miles is ~1.37 miles/day
+  const yearGoal = makeGoal({
+    goal_type: 'cumulative',
+    title: 'Run 500 miles',
+    unit: 'miles',
+    start_value: 0,
+    target_value: 500,
+    start_date: '2025-01-01T00:00:00Z',
+    target_date: '2025-12-31T12:00:00Z',
+  });
+
+  it('identifies cumulative goals', () => {
+    expect(isCumulativeGoal(yearGoal)).toBe(true);
+    expect(isCumulativeGoal(makeGoal())).toBe(false);
+  });
+
+  describe('computeCumulativeTotals', () => {
+    it('sums same-day entries into a running total', () => {
+      const totals = computeCumulativeTotals(
+        [
+          { date: '2025-01-03', value: 3.1 },
+          { date: '2025-01-01', value: 5 },
+          { date: '2025-01-03', value: 2 },
+        ],
+        '2025-01-01'
+      );
+      expect(totals).toEqual([
+        { date: '2025-01-01', value: 5 },
+        { date: '2025-01-03', value: 10.1 },
+      ]);
+    });
+
+    it('ignores entries outside the period', () => {
+      const totals = computeCumulativeTotals(
+        [
+          { date: '2024-12-31', value: 10 },
+          { date: '2025-06-01', value: 4 },
+          { date: '2026-01-01', value: 10 },
+        ],
+        '2025-01-01',
+        '2025-12-31'
+      );
+      expect(totals).toEqual([{ date: '2025-06-01', value: 4 }]);
+    });
+  });
+
+  describe('computeExpectedToDate', () => {
+    it('scales the target by the share of the period elapsed', () => {
+      expect(computeExpectedToDate(yearGoal, '2025-01-01')).toBeCloseTo(500 / 365, 1);
+      // Day 183 of 365
+      expect(computeExpectedToDate(yearGoal, '2025-07-02')).toBe(250.7);
+      expect(computeExpectedToDate(yearGoal, '2026-03-01')).toBe(500);
+    });
+
+    it('returns null without a target date', () => {
+      expect(computeExpectedToDate(makeGoal({ goal_type: 'cumulative', target_date: null }))).toBeNull();
+    });
+  });
+
+  describe('computeCumulativePace', () => {
+    it('reports being ahead of pace', () => {
+      const totals = [{ date: '2025-01-10', value: 30 }];
+      const pace = computeCumulativePace(yearGoal, totals, '2025-01-10');
+      // 10 days in, an even pace expects ~13.7
+      expect(pace.total).toBe(30);
+      expect(pace.difference!).toBeGreaterThan(15);
+      expect(pace.dailyRate).toBeCloseTo(3, 5);
+      expect(pace.requiredDailyRate!).toBeCloseTo(470 / 355, 5);
+      expect(pace.projectedTotal!).toBeCloseTo(30 + 3 * 355, 0);
+      // 470 remaining at 3/day is 157 more days
+      expect(pace.projectedCompletionDate).toBe('2025-06-16');
+    });
+
+    it('reports being behind pace', () => {
+      const totals = [{ date: '2025-03-01', value: 20 }];
+      const pace = computeCumulativePace(yearGoal, totals, '2025-04-10');
+      expect(pace.total).toBe(20);
+      expect(pace.difference!).toBeLessThan(-100);
+      expect(pace.projectedTotal!).toBeLessThan(500);
+    });
+
+    it('uses the date the target was first reached', () => {
+      const totals = [
+        { date: '2025-05-01', value: 450 },
+        { date: '2025-05-20', value: 505 },
+      ];
+      const pace = computeCumulativePace(yearGoal, totals, '2025-06-01');
+      expect(pace.projectedCompletionDate).toBe('2025-05-20');
+    });
+
+    it('has no completion date without any progress', () => {
+      const pace = computeCumulativePace(yearGoal, [], '2025-02-01');
+      expect(pace.total).toBe(0);
+      expect(pace.dailyRate).toBe(0);
+      expect(pace.projectedCompletionDate).toBeNull();
+    });
+  });
+
+  describe('computeCumulativeProjection', () => {
+    const totals = computeCumulativeTotals(
+      [
+        { date: '2025-01-02', value: 4 },
+        { date: '2025-01-05', value: 6 },
+        { date: '2025-01-09', value: 3 },
+        { date: '2025-01-12', value: 5 },
+      ],
+      '2025-01-01'
+    );
+
+    it('starts at the current total and never drops below it', () => {
+      const projection = computeCumulativeProjection(yearGoal, totals, '2025-01-14');
+      expect(projection.length).toBeGreaterThan(0);
+      expect(projection[0].date).toBe('2025-01-14');
+      expect(projection[0].predicted).toBe(18);
+      expect(projection[projection.length - 1].date).toBe('2025-12-31');
+      for (const point of projection) {
+        expect(point.lower).toBeGreaterThanOrEqual(18);
+        expect(point.upper).toBeGreaterThanOrEqual(point.predicted);
+      }
+    });
+
+    it('is empty without progress or past the target date', () => {
+      expect(computeCumulativeProjection(yearGoal, [], '2025-01-14')).toEqual([]);
+      expect(computeCumulativeProjection(yearGoal, totals, '2026-01-05')).toEqual([]);
+    });
+  });
+});
+
+// ──────────────────────────────────────────────
+// Strength Goals
+// ──────────────────────────────────────────────
+
+describe('strength goals', () => {
+  it('identifies strength goals', () => {
+    expect(isStrengthGoal(makeGoal({ goal_type: 'strength_pr' }))).toBe(true);
+    expect(isStrengthGoal(makeGoal({ goal_type: 'running_pr' }))).toBe(false);
+  });
+
+  describe('estimateOneRepMax', () => {
+    it('uses the Epley formula by default', () => {
+      // 200 × (1 + 5/30)
+      expect(estimateOneRepMax(200, 5)).toBe(233.3);
+    });
+
+    it('supports the Brzycki formula', () => {
+      // 200 × 36 / 32
+      expect(estimateOneRepMax(200, 5, 'brzycki')).toBe(225);
+    });
+
+    it('treats a single as its own 1RM', () => {
+      expect(estimateOneRepMax(315, 1)).toBe(315);
+      expect(estimateOneRepMax(315, 1, 'brzycki')).toBe(315);
+    });
+
+    it('rejects invalid sets and high-rep sets', () => {
+      expect(estimateOneRepMax(0, 5)).toBeNull();
+      expect(estimateOneRepMax(135, 0)).toBeNull();
+      expect(estimateOneRepMax(135, 2.5)).toBeNull();
+      expect(estimateOneRepMax(95, 20)).toBeNull();
+    });
+  });
+
+  describe('bestOneRepMaxSet', () => {
+    it('picks the set with the highest estimate', () => {
+      const best = bestOneRepMaxSet([
+        { weight: 225, reps: 1 },
+        { weight: 205, reps: 5 },
+        { weight: 95, reps: 25 },
+      ]);
+      expect(best).toEqual({ set: { weight: 205, reps: 5 }, oneRepMax: 239.2 });
+    });
+
+    it('returns null when no set can be estimated', () => {
+      expect(bestOneRepMaxSet([])).toBeNull();
+      expect(bestOneRepMaxSet([{ weight: 45, reps: 30 }])).toBeNull();
+    });
+  });
+
+  describe('computeBestOneRepMaxHistory', () => {
+    it('carries the personal record forward', () => {
+      const best = computeBestOneRepMaxHistory([
+        { date: '2025-01-08', value: 210 },
+        { date: '2025-01-01', value: 200 },
+        { date: '2025-01-15', value: 205 },
+        { date: '2025-01-22', value: 215 },
+      ]);
+      expect(best.map((p) => p.value)).toEqual([200, 210, 210, 215]);
+    });
+  });
+
+  describe('estimateOneRepMaxTargetDate', () => {
+    const sessions = [
+      { date: '2025-01-01', value: 200 },
+      { date: '2025-01-08', value: 202.5 },
+      { date: '2025-01-15', value: 205 },
+      { date: '2025-01-22', value: 207.5 },
+      { date: '2025-01-29', value: 210 },
+    ];
+
+    it('projects the date the target will be reached from the session trend', () => {
+      // +2.5 per week, 15 to go from 210: six weeks after the last session
+      const date = estimateOneRepMaxTargetDate(sessions, 225);
+      expect(date).not.toBeNull();
+      expect(date! >= '2025-03-10' && date! <= '2025-03-14').toBe(true);
+    });
+
+    it('returns the first session at or past the target', () => {
+      expect(estimateOneRepMaxTargetDate(sessions, 205)).toBe('2025-01-15');
+    });
+
+    it('returns null while the trend is flat or falling', () => {
+      const falling = sessions.map((p) => ({ ...p, value: 420 - p.value }));
+      expect(estimateOneRepMaxTargetDate(falling, 250)).toBeNull();
+    });
+  });
+});
+
+describe('time goals', () => {
+  it('recognises the duration unit', () => {
+    expect(isDurationUnit('seconds')).toBe(true);
+    expect(isDurationUnit('mm:ss')).toBe(false);
+    expect(isDurationUnit(undefined)).toBe(false);
+  });
+
+  describe('formatDuration', () => {
+    it('formats m:ss and h:mm:ss', () => {
+      expect(formatDuration(1470)).toBe('24:30');
+      expect(formatDuration(65)).toBe('1:05');
+      expect(formatDuration(6300)).toBe('1:45:00');
+      expect(formatDuration(-30)).toBe('-0:30');
+    });
+
+    it('keeps tenths under an hour and rounds longer times', () => {
+      expect(formatDuration(299.5)).toBe('4:59.5');
+      expect(formatDuration(299.96)).toBe('5:00');
+      expect(formatDuration(12601.4)).toBe('3:30:01');
+    });
+  });
+
+  describe('parseDuration', () => {
+    it('parses m:ss, h:mm:ss and fractional seconds', () => {
+      expect(parseDuration('24:30')).toBe(1470);
+      expect(parseDuration('1:45:00')).toBe(6300);
+      expect(parseDuration(' 4:59.52 ')).toBe(299.52);
+      expect(parseDuration('95:00')).toBe(5700);
+      expect(parseDuration('90')).toBe(90);
+    });
+
+    it('rejects malformed times', () => {
+      expect(parseDuration('24:75')).toBeNull();
+      expect(parseDuration('1:75:00')).toBeNull();
+      expect(parseDuration('24:3')).toBeNull();
+      expect(parseDuration('0:00')).toBeNull();
+      expect(parseDuration('fast')).toBeNull();
+    });
+  });
+
+  it('formats pace per mile and per kilometer', () => {
+    expect(formatPace(1200, 5000, 'km')).toBe('4:00 /km');
+    expect(formatPace(420, METERS_PER_MILE, 'mi')).toBe('7:00 /mi');
+  });
+
+  it('names standard distances', () => {
+    expect(formatRunningDistance(21097.5)).toBe('Half Marathon');
+    expect(formatRunningDistance(12500)).toBe('12.5 km');
+  });
+
+  describe('riegelEquivalentTime', () => {
+    it('scales time by the distance ratio to the 1.06 power', () => {
+      // 20:00 5K → 10K: 1200 × 2^1.06 ≈ 2501.9 s (41:42)
+      expect(riegelEquivalentTime(1200, 5000, 10000)).toBe(2501.9);
+      expect(riegelEquivalentTime(2501.9, 10000, 5000)).toBeCloseTo(1200, 0);
+    });
+
+    it('returns the same time at the same distance and null for invalid input', () => {
+      expect(riegelEquivalentTime(1200, 5000, 5000)).toBe(1200);
+      expect(riegelEquivalentTime(0, 5000, 10000)).toBeNull();
+      expect(riegelEquivalentTime(1200, 0, 10000)).toBeNull();
+    });
+  });
+
+  describe('estimateTimeTargetDate', () => {
+    const runs = [
+      { date: '2025-01-01', value: 1320 },
+      { date: '2025-01-08', value: 1310 },
+      { date: '2025-01-15', value: 1300 },
+      { date: '2025-01-22', value: 1290 },
+      { date: '2025-01-29', value: 1280 },
+    ];
+
+    it('returns the first run at or under the target', () => {
+      expect(estimateTimeTargetDate(runs, 1300)).toBe('2025-01-15');
+    });
+
+    it('projects forward while times are falling', () => {
+      // −10 s per week, 80 s to go from 1280: eight weeks after the last run
+      const date = estimateTimeTargetDate(runs, 1200);
+      expect(date).not.toBeNull();
+      expect(date! >= '2025-03-24' && date! <= '2025-03-28').toBe(true);
+    });
+
+    it('returns null while times are flat or rising', () => {
+      const rising = runs.map((p) => ({ ...p, value: 2600 - p.value }));
+      expect(estimateTimeTargetDate(rising, 1200)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import {
+  GOAL_HEALTH_SOURCES,
+  aggregateDailyValues,
+  getGoalHealthSource,
+  toLeanMassPercent,
+} from '../goalSources';
+import { getGoalCurrentValue, getGoalHistoryData, syncHealthGoalEntries } from '../goals';
+import { ALL_METRICS, getMetricByKey } from '../metricsConfig';
+import { Goal, GoalType } from '../types';
+
+const health = jest.requireMock('../health');
+const { supabase: mockSupabase } = jest.requireMock('../supabase');
+
+function makeGoal(overrides: Partial<Goal> = {}): Goal {
+  return {
+    id: 'goal-1',
+    user_id: 'user-1',
+    goal_type: 'weight',
+    title: 'Target Weight',
+    target_value: 180,
+    unit: 'lbs',
+    start_value: 200,
+    start_date: '2025-01-01T00:00:00.000Z',
+    target_date: null,
+    rate: null,
+    rate_unit: null,
+    data_source: 'apple_health',
+    is_active: true,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSupabase._resetChain();
+});
+
+describe('GOAL_HEALTH_SOURCES', () => {
+  it('has a source for every Apple Health goal type', () => {
+    const healthTypes: GoalType[] = [
+      'weight',
+      'body_fat',
+      'bmi',
+      'lean_body_mass_pct',
+      'resting_hr',
+      'steps',
+      'weekly_workouts',
+      'lean_body_mass',
+    ];
+    for (const type of healthTypes) {
+      expect(getGoalHealthSource(type)).not.toBeNull();
+    }
+  });
+
+  it('has no source for manual goal types', () => {
+    for (const type of ['running_pr', 'strength_pr', 'cumulative', 'custom'] as GoalType[]) {
+      expect(getGoalHealthSource(type)).toBeNull();
+    }
+  });
+
+  it('links each metric card to at most one goal type', () => {
+    const keys = Object.values(GOAL_HEALTH_SOURCES)
+      .map((s) => s?.metricKey)
+      .filter(Boolean);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe('aggregateDailyValues', () => {
+  const readings = [
+    { date: '2025-03-02', value: 60 },
+    { date: '2025-03-01', value: 58 },
+    { date: '2025-03-01', value: 62 },
+  ];
+
+  it('keeps the last reading of the day for latest', () => {
+    expect(aggregateDailyValues(readings, 'latest')).toEqual([
+      { date: '2025-03-01', value: 62 },
+      { date: '2025-03-02', value: 60 },
+    ]);
+  });
+
+  it('averages and totals same-day readings', () => {
+    expect(aggregateDailyValues(readings, 'average')[0]).toEqual({ date: '2025-03-01', value: 60 });
+    expect(aggregateDailyValues(readings, 'total')[0]).toEqual({ date: '2025-03-01', value: 120 });
+  });
+});
+
+describe('toLeanMassPercent', () => {
+  it('divides by the latest weight on or before each reading', () => {
+    const lean = [
+      { date: '2025-03-01', value: 140 },
+      { date: '2025-03-10', value: 141 },
+    ];
+    const weights = [
+      { date: '2025-02-28', value: 200 },
+      { date: '2025-03-05', value: 188 },
+      { date: '2025-03-12', value: 180 },
+    ];
+    expect(toLeanMassPercent(lean, weights)).toEqual([
+      { date: '2025-03-01', value: 70 },
+      { date: '2025-03-10', value: 75 },
+    ]);
+  });
+
+  it('skips readings with no weight yet', () => {
+    expect(toLeanMassPercent([{ date: '2025-03-01', value: 140 }], [])).toEqual([]);
+  });
+});
+
+describe('getGoalHistoryData', () => {
+  it('reads lean body mass % goals from lean mass and weight', async () => {
+    health.getLeanMassHistory.mockResolvedValueOnce([{ date: '2025-03-01', value: 150 }]);
+    health.getWeightHistory.mockResolvedValueOnce([{ date: '2025-03-01', value: 200 }]);
+
+    const goal = makeGoal({ goal_type: 'lean_body_mass_pct', unit: '%', target_value: 80 });
+    expect(await getGoalHistoryData(goal, 60)).toEqual([{ date: '2025-03-01', value: 75 }]);
+    expect(health.getLeanMassHistory).toHaveBeenCalledWith(60);
+  });
+
+  it('caps day-by-day sources', async () => {
+    await getGoalHistoryData(makeGoal({ goal_type: 'steps', unit: 'steps' }), 90);
+    expect(health.getStepHistory).toHaveBeenCalledWith(30);
+  });
+
+  it('reads BMI through its own history fetcher', async () => {
+    health.getBMIHistory.mockResolvedValueOnce([{ date: '2025-03-01', value: 24.1 }]);
+    const goal = makeGoal({ goal_type: 'bmi', unit: 'kg/m²' });
+    expect(await getGoalHistoryData(goal)).toEqual([{ date: '2025-03-01', value: 24.1 }]);
+  });
+});
+
+describe('getGoalCurrentValue', () => {
+  it('uses the source latest-value fetcher', async () => {
+    health.getLatestBMI.mockResolvedValueOnce(23.8);
+    expect(await getGoalCurrentValue(makeGoal({ goal_type: 'bmi' }))).toBe(23.8);
+  });
+
+  it('computes lean body mass % from the latest readings', async () => {
+    health.getLatestLeanBodyMass.mockResolvedValueOnce(146);
+    health.getLatestWeight.mockResolvedValueOnce(200);
+    expect(await getGoalCurrentValue(makeGoal({ goal_type: 'lean_body_mass_pct' }))).toBe(73);
+  });
+});
+
+describe('syncHealthGoalEntries', () => {
+  it('upserts one aggregated entry per day within the week', async () => {
+    const goal = makeGoal({ goal_type: 'resting_hr', unit: 'bpm' });
+    mockSupabase._chain._mockResolvedValue = { data: [goal], error: null };
+    health.getRHRHistory.mockResolvedValueOnce([
+      { date: '2025-03-02', value: 58 },
+      { date: '2025-03-03', value: 60 },
+      { date: '2025-03-03', value: 64 },
+      { date: '2025-03-10', value: 55 },
+    ]);
+
+    await syncHealthGoalEntries('user-1', '2025-03-03', '2025-03-09');
+
+    expect(mockSupabase._chain.upsert).toHaveBeenCalledWith(
+      [{ goal_id: 'goal-1', user_id: 'user-1', value: 62, recorded_date: '2025-03-03' }],
+      { onConflict: 'goal_id,recorded_date' }
+    );
+  });
+});
+
+describe('metricsConfig', () => {
+  it('takes units for goal-backed metrics from their health source', () => {
+    expect(getMetricByKey('leanMass')).toMatchObject({ unit: '%', goalType: 'lean_body_mass_pct' });
+    expect(getMetricByKey('bmi')?.unit).toBe('');
+    expect(getMetricByKey('hrv')?.unit).toBe('ms');
+    expect(getMetricByKey('hrv')?.goalType).toBeUndefined();
+    expect(ALL_METRICS.every((m) => typeof m.unit === 'string')).toBe(true);
+  });
+});
@@ -0,0 +1,267 @@
+import { Habit, IdentityStatement } from '../types';
+
+// Mock supabase before importing habits
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import {
+  parseReminderTime,
+  normalizeReminderTime,
+  formatReminderTime,
+  isWithinQuietHours,
+  planHabitReminders,
+  planHabitReminderSchedule,
+} from '../habitReminders';
+
+// ── Test helpers ──────────────────────────────────
+
+function makeHabit(overrides: Partial<Habit> = {}): Habit {
+  return {
+    id: 'habit-1',
+    user_id: 'user-1',
+    name: 'Meditate',
+    description: null,
+    frequency_per_week: 7,
+    specific_days: null,
+    is_active: true,
+    metric_type: null,
+    metric_threshold: null,
+    auto_complete: false,
+    reminder_times: ['07:30'],
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const identity: IdentityStatement = {
+  id: 'identity-1',
+  user_id: 'user-1',
+  statement: 'I am calm',
+  emoji: '🧘',
+  sort_order: 0,
+  is_active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+// Monday 2025-06-09, 6am local
+const NOW = new Date(2025, 5, 9, 6, 0);
+
+function plan(habits: Habit[], opts: { completed?: string[]; snoozed?: string[]; windowDays?: number } = {}) {
+  return planHabitReminders({
+    habits,
+    identityStatements: [identity],
+    completedTodayIds: new Set(opts.completed ?? []),
+    snoozedTodayIds: new Set(opts.snoozed ?? []),
+    now: NOW,
+    windowDays: opts.windowDays ?? 3,
+  });
+}
+
+// ── Time parsing ─────────────────────────────────
+
+describe('reminder times', () => {
+  it('parses and normalizes HH:MM', () => {
+    expect(parseReminderTime('7:05')).toEqual({ hour: 7, minute: 5 });
+    expect(normalizeReminderTime(' 7:05 ')).toBe('07:05');
+    expect(normalizeReminderTime('24:00')).toBeNull();
+    expect(normalizeReminderTime('7pm')).toBeNull();
+  });
+
+  it('formats for display', () => {
+    expect(formatReminderTime('07:30')).toBe('7:30 AM');
+    expect(formatReminderTime('00:15')).toBe('12:15 AM');
+    expect(formatReminderTime('19:00')).toBe('7:00 PM');
+  });
+});
+
+describe('isWithinQuietHours', () => {
+  it('handles a same-day window', () => {
+    const quiet = { start: '13:00', end: '14:00' };
+    expect(isWithinQuietHours('13:00', quiet)).toBe(true);
+    expect(isWithinQuietHours('13:59', quiet)).toBe(true);
+    expect(isWithinQuietHours('14:00', quiet)).toBe(false);
+  });
+
+  it('handles a window that wraps past midnight', () => {
+    const quiet = { start: '22:00', end: '07:00' };
+    expect(isWithinQuietHours('23:30', quiet)).toBe(true);
+    expect(isWithinQuietHours('06:59', quiet)).toBe(true);
+    expect(isWithinQuietHours('07:00', quiet)).toBe(false);
+    expect(isWithinQuietHours('12:00', quiet)).toBe(false);
+  });
+
+  it('is never quiet without a window', () => {
+    expect(isWithinQuietHours('23:00', null)).toBe(false);
+    expect(isWithinQuietHours('23:00', { start: '08:00', end: '08:00' })).toBe(false);
+  });
+});
+
+// ── planHabitReminders ───────────────────────────
+
+describe('planHabitReminders', () => {
+  it('creates one reminder per occurrence and time, soonest first', () => {
+    const reminders = plan([makeHabit({ reminder_times: ['19:00', '07:30'] })]);
+
+    expect(reminders.map((r) => `${r.date} ${r.time}`)).toEqual([
+      '2025-06-09 07:30',
+      '2025-06-09 19:00',
+      '2025-06-10 07:30',
+      '2025-06-10 19:00',
+      '2025-06-11 07:30',
+      '2025-06-11 19:00',
+    ]);
+  });
+
+  it('skips today when the habit is already completed or snoozed', () => {
+    const done = makeHabit({ id: 'done' });
+    const snoozed = makeHabit({ id: 'snoozed' });
+
+    const reminders = plan([done, snoozed], { completed: ['done'], snoozed: ['snoozed'] });
+
+    expect(reminders.some((r) => r.date === '2025-06-09')).toBe(false);
+    expect(reminders.filter((r) => r.date === '2025-06-10')).toHaveLength(2);
+  });
+
+  it('skips times that already passed today', () => {
+    const reminders = plan([makeHabit({ reminder_times: ['05:00'] })]);
+
+    expect(reminders[0].date).toBe('2025-06-10');
+  });
+
+  it('follows the habit schedule', () => {
+    // Tue + Thu only
+    const reminders = plan([makeHabit({ specific_days: [2, 4] })], { windowDays: 7 });
+
+    expect(reminders.map((r) => r.date)).toEqual(['2025-06-10', '2025-06-12']);
+  });
+
+  it('narrows to reminder_days when set', () => {
+    const reminders = plan([makeHabit({ reminder_days: [1, 3] })], { windowDays: 7 });
+
+    expect(reminders.map((r) => r.date)).toEqual(['2025-06-09', '2025-06-11']);
+  });
+
+  it('ignores avoid habits and habits without times', () => {
+    const reminders = plan([
+      makeHabit({ id: 'avoid', habit_type: 'avoid' }),
+      makeHabit({ id: 'none', reminder_times: null }),
+    ]);
+
+    expect(reminders).toEqual([]);
+  });
+
+  it('drops times inside quiet hours', () => {
+    const reminders = planHabitReminders({
+      habits: [makeHabit({ reminder_times: ['06:30', '07:30'] })],
+      identityStatements: [],
+      completedTodayIds: new Set(),
+      snoozedTodayIds: new Set(),
+      quietHours: { start: '22:00', end: '07:00' },
+      now: NOW,
+      windowDays: 2,
+    });
+
+    expect(reminders.map((r) => r.time)).toEqual(['07:30', '07:30']);
+  });
+
+  it('names the habit and its identity', () => {
+    const [linked] = plan([makeHabit({ identity_statement_id: 'identity-1' })]);
+    const [plain] = plan([makeHabit()]);
+
+    expect(linked.title).toBe('Time for Meditate');
+    expect(linked.body).toContain('I am calm');
+    expect(plain.body).toContain('Meditate');
+  });
+
+  it('caps the number of reminders', () => {
+    const habits = Array.from({ length: 10 }, (_, i) =>
+      makeHabit({ id: `h${i}`, reminder_times: ['08:00', '12:00', '18:00'] })
+    );
+
+    const reminders = planHabitReminders({
+      habits,
+      identityStatements: [],
+      completedTodayIds: new Set(),
+      snoozedTodayIds: new Set(),
+      now: NOW,
+      limit: 20,
+    });
+
+    expect(reminders).toHaveLength(20);
+    expect(reminders[19].date).toBe('2025-06-09');
+  });
+});
+
+describe('planHabitReminderSchedule', () => {
+  function schedule(habits: Habit[], opts: { completed?: string[]; limit?: number } = {}) {
+    return planHabitReminderSchedule({
+      habits,
+      identityStatements: [identity],
+      completedTodayIds: new Set(opts.completed ?? []),
+      snoozedTodayIds: new Set(),
+      now: NOW,
+      limit: opts.limit,
+    });
+  }
+
+  it('repeats daily habits every day and weekly ones on their days', () => {
+    const { repeating, occurrences } = schedule([
+      makeHabit({ id: 'daily' }),
+      makeHabit({ id: 'weekdays', specific_days: [2, 4], reminder_times: ['19:00'] }),
+    ]);
+
+    expect(occurrences).toEqual([]);
+    expect(repeating.map((r) => [r.habitId, r.weekday, r.hour, r.minute])).toEqual([
+      ['daily', null, 7, 30],
+      ['weekdays', 2, 19, 0],
+      ['weekdays', 4, 19, 0],
+    ]);
+  });
+
+  it('moves today\'s reminder a week out once the habit is done', () => {
+    const { repeating, occurrences } = schedule([makeHabit()], { completed: ['habit-1'] });
+
+    expect(repeating.map((r) => r.weekday)).toEqual([0, 2, 3, 4, 5, 6]);
+    expect(occurrences.map((o) => [o.date, o.time])).toEqual([['2025-06-16', '07:30']]);
+  });
+
+  it('keeps the repeating reminder when today\'s already fired', () => {
+    const { repeating, occurrences } = schedule(
+      [makeHabit({ reminder_times: ['05:00'] })],
+      { completed: ['habit-1'] }
+    );
+
+    expect(repeating.map((r) => r.weekday)).toEqual([null]);
+    expect(occurrences).toEqual([]);
+  });
+
+  it('plans one-off reminders for recurring habits', () => {
+    const { repeating, occurrences } = schedule([
+      makeHabit({ recurrence: { type: 'interval_days', interval: 2, start_date: '2025-06-09' } }),
+    ]);
+
+    expect(repeating).toEqual([]);
+    expect(occurrences.map((o) => o.date)).toEqual([
+      '2025-06-09',
+      '2025-06-11',
+      '2025-06-13',
+      '2025-06-15',
+    ]);
+  });
+
+  it('caps repeating and one-off reminders together', () => {
+    const { repeating, occurrences } = schedule(
+      [
+        makeHabit({ id: 'weekly', specific_days: [1, 2, 3] }),
+        makeHabit({ id: 'recurring', recurrence: { type: 'interval_days', interval: 1, start_date: '2025-06-01' } }),
+      ],
+      { limit: 5 }
+    );
+
+    expect(repeating).toHaveLength(3);
+    expect(occurrences.map((o) => o.date)).toEqual(['2025-06-09', '2025-06-10']);
+  });
+});
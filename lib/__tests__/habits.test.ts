@@ -1,4 +1,4 @@
-import { Habit } from '../types';
+import { Habit, HabitCompletion, HabitSlip, HabitSnooze, StreakFreeze } from '../types';
 
 // Mock supabase before importing habits
 jest.mock('../supabase');
@@ -14,7 +14,23 @@ import {
   getHabits,
   toggleHabitCompletion,
   getStreak,
+  getCompletionProgress,
+  isCompletionMet,
+  computeAdherenceByWeek,
+  computeWeeklyAdherence,
+  logHabitQuantity,
+  isRecurrenceDueOn,
+  getTargetDaysForRange,
+  getApproximateWeeklyFrequency,
+  formatRecurrenceLabel,
+  computeAbstinenceStats,
+  computeHabitStreak,
+  getFreezeBalance,
+  getAllCompletions,
+  checkAutoCompletions,
+  getLoggedQuantity,
 } from '../habits';
+import { getCurrentMetricValue, isHealthKitAvailable } from '../health';
 import { supabase } from '../supabase';
 
 // ── Test helpers ──────────────────────────────────
@@ -37,6 +53,29 @@ function makeHabit(overrides: Partial<Habit> = {}): Habit {
   };
 }
 
+function makeCompletion(overrides: Partial<HabitCompletion> = {}): HabitCompletion {
+  return {
+    id: 'completion-1',
+    habit_id: 'habit-1',
+    user_id: 'user-1',
+    completed_date: '2025-06-09',
+    created_at: '2025-06-09T08:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeSlip(overrides: Partial<HabitSlip> = {}): HabitSlip {
+  return {
+    id: 'slip-1',
+    habit_id: 'habit-1',
+    user_id: 'user-1',
+    slip_date: '2025-06-10',
+    note: null,
+    created_at: '2025-06-10T21:00:00Z',
+    ...overrides,
+  };
+}
+
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 
 // ── formatDate ───────────────────────────────────
@@ -237,6 +276,48 @@ describe('getHabits', () => {
   });
 });
 
+describe('getAllCompletions', () => {
+  const mockFrom = supabase.from as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('pages through histories longer than one response', async () => {
+    const firstPage = Array.from({ length: 1000 }, (_, i) =>
+      makeCompletion({ id: `completion-${i}` })
+    );
+    const lastPage = [makeCompletion({ id: 'completion-newest', completed_date: '2025-06-10' })];
+    const range = jest
+      .fn()
+      .mockResolvedValueOnce({ data: firstPage, error: null })
+      .mockResolvedValueOnce({ data: lastPage, error: null });
+    const chain = {
+      select: jest.fn().mockReturnThis(),
+      order: jest.fn().mockReturnThis(),
+      range,
+    };
+    mockFrom.mockReturnValue(chain);
+
+    const result = await getAllCompletions();
+    expect(result).toHaveLength(1001);
+    expect(result[1000].id).toBe('completion-newest');
+    expect(range).toHaveBeenNthCalledWith(1, 0, 999);
+    expect(range).toHaveBeenNthCalledWith(2, 1000, 1999);
+  });
+
+  it('throws when a page fails', async () => {
+    const chain = {
+      select: jest.fn().mockReturnThis(),
+      order: jest.fn().mockReturnThis(),
+      range: jest.fn().mockResolvedValue({ data: null, error: new Error('DB error') }),
+    };
+    mockFrom.mockReturnValue(chain);
+
+    await expect(getAllCompletions()).rejects.toThrow('DB error');
+  });
+});
+
 // ── toggleHabitCompletion (Supabase mock) ────────
 
 describe('toggleHabitCompletion', () => {
@@ -250,6 +331,7 @@ describe('toggleHabitCompletion', () => {
     const chain = {
       delete: jest.fn().mockReturnThis(),
       eq: jest.fn().mockReturnThis(),
+      upsert: jest.fn().mockResolvedValue({ error: null }),
     };
     // Last eq in chain resolves
     chain.eq.mockReturnValueOnce(chain).mockResolvedValueOnce({ error: null });
@@ -261,10 +343,46 @@ describe('toggleHabitCompletion', () => {
     expect(chain.delete).toHaveBeenCalled();
   });
 
-  it('inserts completion when not completed', async () => {
+  it('remembers the uncheck of an auto-complete habit so health data leaves the day alone', async () => {
+    const chain = {
+      delete: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      upsert: jest.fn().mockResolvedValue({ error: null }),
+    };
+    chain.eq.mockReturnValueOnce(chain).mockResolvedValueOnce({ error: null });
+    mockFrom.mockReturnValue(chain);
+
+    await toggleHabitCompletion('habit-1', 'user-1', '2025-01-15', true, true);
+
+    expect(mockFrom).toHaveBeenCalledWith('habit_auto_complete_skips');
+    expect(chain.upsert).toHaveBeenCalledWith(
+      { habit_id: 'habit-1', user_id: 'user-1', skip_date: '2025-01-15' },
+      { onConflict: 'habit_id,skip_date', ignoreDuplicates: true }
+    );
+  });
+
+  it('records no skip when unchecking other habits', async () => {
+    const chain = {
+      delete: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      upsert: jest.fn().mockResolvedValue({ error: null }),
+    };
+    chain.eq.mockReturnValueOnce(chain).mockResolvedValueOnce({ error: null });
+    mockFrom.mockReturnValue(chain);
+
+    await toggleHabitCompletion('habit-1', 'user-1', '2025-01-15', true);
+
+    expect(mockFrom).not.toHaveBeenCalledWith('habit_auto_complete_skips');
+    expect(chain.upsert).not.toHaveBeenCalled();
+  });
+
+  it('inserts completion when not completed and lifts the day\'s skip', async () => {
     const chain = {
       insert: jest.fn().mockResolvedValue({ error: null }),
+      delete: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
     };
+    chain.eq.mockReturnValueOnce(chain).mockResolvedValueOnce({ error: null });
     mockFrom.mockReturnValue(chain);
 
     await toggleHabitCompletion('habit-1', 'user-1', '2025-01-15', false);
@@ -275,6 +393,62 @@ describe('toggleHabitCompletion', () => {
       user_id: 'user-1',
       completed_date: '2025-01-15',
     });
+    expect(mockFrom).toHaveBeenCalledWith('habit_auto_complete_skips');
+    expect(chain.eq).toHaveBeenCalledWith('skip_date', '2025-01-15');
+  });
+});
+
+describe('checkAutoCompletions', () => {
+  const mockFrom = supabase.from as jest.Mock;
+  const stepsHabit = makeHabit({
+    id: 'steps',
+    auto_complete: true,
+    metric_type: 'steps',
+    metric_threshold: 10000,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (isHealthKitAvailable as jest.Mock).mockReturnValue(true);
+    (getCurrentMetricValue as jest.Mock).mockResolvedValue(12000);
+  });
+
+  afterEach(() => {
+    (isHealthKitAvailable as jest.Mock).mockReturnValue(false);
+    (getCurrentMetricValue as jest.Mock).mockResolvedValue(null);
+  });
+
+  function mockSkips(skips: { habit_id: string; skip_date: string }[]) {
+    const chain = {
+      select: jest.fn().mockReturnThis(),
+      gte: jest.fn().mockResolvedValue({ data: skips, error: null }),
+      insert: jest.fn().mockResolvedValue({ error: null }),
+    };
+    mockFrom.mockReturnValue(chain);
+    return chain;
+  }
+
+  it('completes habits whose metric meets the threshold', async () => {
+    const chain = mockSkips([]);
+
+    await expect(
+      checkAutoCompletions('user-1', [stepsHabit], new Set(), '2025-06-10')
+    ).resolves.toEqual(['steps']);
+    expect(chain.insert).toHaveBeenCalledWith({
+      habit_id: 'steps',
+      user_id: 'user-1',
+      completed_date: '2025-06-10',
+    });
+  });
+
+  it('leaves habits the user unchecked today alone', async () => {
+    const chain = mockSkips([{ habit_id: 'steps', skip_date: '2025-06-10' }]);
+
+    await expect(
+      checkAutoCompletions('user-1', [stepsHabit], new Set(), '2025-06-10')
+    ).resolves.toEqual([]);
+    expect(chain.gte).toHaveBeenCalledWith('skip_date', '2025-06-10');
+    expect(chain.insert).not.toHaveBeenCalled();
   });
 });
 
@@ -382,3 +556,482 @@ describe('getStreak', () => {
     expect(result.earnedToday).toBe(true);
   });
 });
+
+// ── Quantitative habits ──────────────────────────
+
+describe('getCompletionProgress', () => {
+  it('returns 0 when there is no completion', () => {
+    expect(getCompletionProgress(makeHabit(), undefined)).toBe(0);
+  });
+
+  it('treats any completion on a boolean habit as fully done', () => {
+    expect(getCompletionProgress(makeHabit(), makeCompletion({ quantity: 2 }))).toBe(1);
+  });
+
+  it('returns the fraction of the daily target on quantitative habits', () => {
+    const habit = makeHabit({ target_amount: 8, unit: 'glasses' });
+    expect(getCompletionProgress(habit, makeCompletion({ quantity: 2 }))).toBe(0.25);
+    expect(getCompletionProgress(habit, makeCompletion({ quantity: 12 }))).toBe(1);
+  });
+
+  it('counts completions without a quantity as fully done', () => {
+    const habit = makeHabit({ target_amount: 8 });
+    expect(isCompletionMet(habit, makeCompletion({ quantity: null }))).toBe(true);
+  });
+});
+
+describe('getLoggedQuantity', () => {
+  it('reads a row without a quantity as the target amount', () => {
+    expect(getLoggedQuantity(makeCompletion({ quantity: null }), 8)).toBe(8);
+    expect(getLoggedQuantity(makeCompletion({ quantity: 3 }), 8)).toBe(3);
+    expect(getLoggedQuantity(undefined, 8)).toBe(0);
+  });
+});
+
+describe('computeWeeklyAdherence (quantitative)', () => {
+  it('only counts days that reached the target as completed, but credits partial progress', () => {
+    const habit = makeHabit({ frequency_per_week: 4, target_amount: 8 });
+    const completions = [
+      makeCompletion({ completed_date: '2025-06-09', quantity: 8 }),
+      makeCompletion({ completed_date: '2025-06-10', quantity: 4 }),
+      makeCompletion({ completed_date: '2025-06-11', quantity: 10 }),
+    ];
+
+    const [stat] = computeWeeklyAdherence([habit], completions, '2025-06-14', '2025-06-15');
+
+    expect(stat.completedDays).toBe(2);
+    expect(stat.completedDates.sort()).toEqual(['2025-06-09', '2025-06-11']);
+    expect(stat.progressDays).toBe(2.5);
+    expect(stat.adherencePercent).toBe(63);
+    expect(stat.dayProgress?.['2025-06-10']).toBe(0.5);
+    expect(stat.status).toBe('missed');
+  });
+
+  it('leaves boolean habits unchanged', () => {
+    const habit = makeHabit({ frequency_per_week: 2 });
+    const completions = [
+      makeCompletion({ completed_date: '2025-06-09' }),
+      makeCompletion({ completed_date: '2025-06-10' }),
+    ];
+
+    const [stat] = computeWeeklyAdherence([habit], completions, '2025-06-14', '2025-06-15');
+
+    expect(stat.completedDays).toBe(2);
+    expect(stat.progressDays).toBe(2);
+    expect(stat.adherencePercent).toBe(100);
+    expect(stat.status).toBe('met');
+  });
+});
+
+describe('computeWeeklyAdherence (monthly counts)', () => {
+  const habit = makeHabit({ recurrence: { type: 'monthly_count', times_per_month: 2 } });
+
+  it('leaves a monthly habit out of weeks that owe nothing yet', () => {
+    expect(computeWeeklyAdherence([habit], [], '2025-06-14', '2025-06-15')).toEqual([]);
+  });
+
+  it('builds on completions earlier in the month without counting them this week', () => {
+    const completions = [
+      makeCompletion({ id: 'c-1', completed_date: '2025-06-03' }),
+      makeCompletion({ id: 'c-2', completed_date: '2025-06-29' }),
+    ];
+
+    const [stat] = computeWeeklyAdherence([habit], completions, '2025-07-05', '2025-07-06');
+
+    expect(stat.targetDays).toBe(1);
+    expect(stat.completedDays).toBe(1);
+    expect(stat.status).toBe('met');
+  });
+
+  it('misses the week in which the month runs out', () => {
+    const completions = [makeCompletion({ completed_date: '2025-06-03' })];
+
+    const [stat] = computeWeeklyAdherence([habit], completions, '2025-07-05', '2025-07-06');
+
+    expect(stat.targetDays).toBe(1);
+    expect(stat.completedDays).toBe(0);
+    expect(stat.status).toBe('missed');
+  });
+});
+
+describe('computeAdherenceByWeek', () => {
+  it('computes adherence for each full week before the reference date', () => {
+    const habit = makeHabit({ frequency_per_week: 7 });
+    // Week of June 1–7 fully done; week of May 25–31 untouched
+    const completions = ['01', '02', '03', '04', '05', '06', '07'].map((day) =>
+      makeCompletion({ id: `c-${day}`, completed_date: `2025-06-${day}` })
+    );
+
+    const weeks = computeAdherenceByWeek([habit], completions, '2025-06-08', 2);
+
+    expect(weeks.map((w) => [w.weekStart, w.weekEnd])).toEqual([
+      ['2025-05-25', '2025-05-31'],
+      ['2025-06-01', '2025-06-07'],
+    ]);
+    expect(weeks.map((w) => w.stats[0].adherencePercent)).toEqual([0, 100]);
+  });
+
+  it('leaves habits out of weeks before they existed', () => {
+    const habit = makeHabit({ created_at: '2025-06-01T00:00:00Z' });
+
+    const weeks = computeAdherenceByWeek([habit], [], '2025-06-08', 3);
+
+    expect(weeks.map((w) => w.stats.length)).toEqual([0, 0, 1]);
+  });
+});
+
+describe('logHabitQuantity', () => {
+  const mockRpc = supabase.rpc as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('adds to the day\'s quantity in a single server-side call', async () => {
+    mockRpc.mockResolvedValueOnce({ data: 5, error: null });
+
+    const total = await logHabitQuantity('habit-1', 'user-1', '2025-01-15', 2);
+
+    expect(total).toBe(5);
+    expect(mockRpc).toHaveBeenCalledWith('log_habit_quantity', {
+      log_habit_id: 'habit-1',
+      log_user_id: 'user-1',
+      log_date: '2025-01-15',
+      amount: 2,
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('reports zero once the total is used up', async () => {
+    mockRpc.mockResolvedValueOnce({ data: 0, error: null });
+
+    await expect(logHabitQuantity('habit-1', 'user-1', '2025-01-15', -1)).resolves.toBe(0);
+  });
+
+  it('throws when the server rejects the log', async () => {
+    mockRpc.mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } });
+
+    await expect(logHabitQuantity('habit-1', 'user-1', '2025-01-15', 1)).rejects.toEqual({
+      message: 'permission denied',
+    });
+  });
+});
+
+// ── Recurrence ───────────────────────────────────
+
+describe('isRecurrenceDueOn', () => {
+  it('matches every N days from the start date', () => {
+    const rule = { type: 'interval_days' as const, interval: 14, start_date: '2025-06-01' };
+    expect(isRecurrenceDueOn(rule, '2025-06-01')).toBe(true);
+    expect(isRecurrenceDueOn(rule, '2025-06-15')).toBe(true);
+    expect(isRecurrenceDueOn(rule, '2025-06-08')).toBe(false);
+    expect(isRecurrenceDueOn(rule, '2025-05-18')).toBe(false); // before start
+  });
+
+  it('matches days of the month, clamping to the last day of short months', () => {
+    const rule = { type: 'day_of_month' as const, days: [1, 31] };
+    expect(isRecurrenceDueOn(rule, '2025-06-01')).toBe(true);
+    expect(isRecurrenceDueOn(rule, '2025-06-30')).toBe(true); // June has 30 days
+    expect(isRecurrenceDueOn(rule, '2025-07-30')).toBe(false);
+    expect(isRecurrenceDueOn(rule, '2025-07-31')).toBe(true);
+  });
+
+  it('treats monthly-count habits as doable any day', () => {
+    expect(isRecurrenceDueOn({ type: 'monthly_count', times_per_month: 4 }, '2025-06-17')).toBe(true);
+  });
+});
+
+describe('getHabitsForDay (recurrence)', () => {
+  it('evaluates recurrence rules when a date is passed', () => {
+    const habits = [
+      makeHabit({ id: '1', recurrence: { type: 'day_of_month', days: [1] } }),
+      makeHabit({ id: '2' }),
+    ];
+    expect(getHabitsForDay(habits, 0, '2025-06-01').map((h) => h.id)).toEqual(['1', '2']);
+    expect(getHabitsForDay(habits, 1, '2025-06-02').map((h) => h.id)).toEqual(['2']);
+  });
+});
+
+describe('getTargetDaysForRange', () => {
+  it('uses the weekly schedule when there is no recurrence', () => {
+    expect(getTargetDaysForRange(makeHabit({ frequency_per_week: 3 }), '2025-06-08', '2025-06-14')).toBe(3);
+  });
+
+  it('counts interval due dates in the range', () => {
+    const habit = makeHabit({
+      recurrence: { type: 'interval_days', interval: 3, start_date: '2025-06-08' },
+    });
+    expect(getTargetDaysForRange(habit, '2025-06-08', '2025-06-14')).toBe(3); // 8th, 11th, 14th
+  });
+
+  it('owes monthly counts only once the rest of the month has no slack', () => {
+    const habit = makeHabit({ recurrence: { type: 'monthly_count', times_per_month: 4 } });
+    // June has 30 days: the week of the 8th leaves 16 days to fit four completions
+    expect(getTargetDaysForRange(habit, '2025-06-08', '2025-06-14')).toBe(0);
+    // The 24th–30th must hold all four when nothing was done before
+    expect(getTargetDaysForRange(habit, '2025-06-24', '2025-06-30')).toBe(4);
+    expect(getTargetDaysForRange(habit, '2025-06-01', '2025-06-30')).toBe(4);
+  });
+
+  it('counts month-to-date completions toward monthly counts', () => {
+    const habit = makeHabit({ recurrence: { type: 'monthly_count', times_per_month: 4 } });
+    expect(
+      getTargetDaysForRange(habit, '2025-06-24', '2025-06-30', ['2025-05-30', '2025-06-03', '2025-06-10'])
+    ).toBe(2);
+    expect(
+      getTargetDaysForRange(habit, '2025-06-24', '2025-06-30', ['2025-06-03', '2025-06-10', '2025-06-17', '2025-06-20'])
+    ).toBe(0);
+  });
+
+  it('does not ask a 1x per month habit for a completion every week', () => {
+    const once = makeHabit({ recurrence: { type: 'monthly_count', times_per_month: 1 } });
+    expect(getTargetDaysForRange(once, '2025-06-08', '2025-06-14')).toBe(0);
+    expect(getTargetDaysForRange(once, '2025-06-29', '2025-07-05')).toBe(1); // June 30 is the last chance
+    expect(getTargetDaysForRange(once, '2025-06-29', '2025-07-05', ['2025-06-02'])).toBe(0);
+  });
+});
+
+describe('isHabitRequiredToday (recurrence)', () => {
+  it('requires fixed-date recurrences on their due dates', () => {
+    const habit = makeHabit({ recurrence: { type: 'day_of_month', days: [15] } });
+    expect(
+      isHabitRequiredToday(habit, 0, 0, false, { date: '2025-06-15', monthCompletionsForHabit: 0 })
+    ).toBe(true);
+  });
+
+  it('requires monthly-count habits once every remaining day is needed', () => {
+    const habit = makeHabit({ recurrence: { type: 'monthly_count', times_per_month: 4 } });
+    // June 28: 3 days left (28, 29, 30), 1 done → 3 still needed
+    expect(
+      isHabitRequiredToday(habit, 6, 0, false, { date: '2025-06-28', monthCompletionsForHabit: 1 })
+    ).toBe(true);
+    // June 10: plenty of days left
+    expect(
+      isHabitRequiredToday(habit, 2, 0, false, { date: '2025-06-10', monthCompletionsForHabit: 1 })
+    ).toBe(false);
+  });
+});
+
+describe('getApproximateWeeklyFrequency', () => {
+  it('keeps the legacy weekly frequency within 1–7', () => {
+    expect(getApproximateWeeklyFrequency({ type: 'interval_days', interval: 14, start_date: '2025-06-01' })).toBe(1);
+    expect(getApproximateWeeklyFrequency({ type: 'interval_days', interval: 2, start_date: '2025-06-01' })).toBe(4);
+    expect(getApproximateWeeklyFrequency({ type: 'monthly_count', times_per_month: 30 })).toBe(7);
+  });
+});
+
+describe('formatRecurrenceLabel', () => {
+  it('describes each rule type', () => {
+    expect(formatRecurrenceLabel({ type: 'interval_days', interval: 14, start_date: '2025-06-01' })).toBe('Every 14 days');
+    expect(formatRecurrenceLabel({ type: 'monthly_count', times_per_month: 4 })).toBe('4x per month (any days)');
+    expect(formatRecurrenceLabel({ type: 'day_of_month', days: [15, 1, 22] })).toBe('On the 1st, 15th, 22nd');
+  });
+});
+
+// ── Avoid habits ─────────────────────────────────
+
+describe('computeAbstinenceStats', () => {
+  const habit = makeHabit({ habit_type: 'avoid', created_at: '2025-06-01T09:00:00Z' });
+
+  it('counts clean days from creation when there are no slips', () => {
+    expect(computeAbstinenceStats(habit, [], '2025-06-11')).toEqual({
+      daysSinceLastSlip: 10,
+      longestCleanRun: 10,
+      lastSlipDate: null,
+      totalSlips: 0,
+    });
+  });
+
+  it('tracks the current run and the longest run between slips', () => {
+    const slips = [
+      makeSlip({ id: 's1', slip_date: '2025-06-03' }),
+      makeSlip({ id: 's2', slip_date: '2025-06-10' }),
+      makeSlip({ id: 's3', slip_date: '2025-06-10' }),
+    ];
+    const stats = computeAbstinenceStats(habit, slips, '2025-06-12');
+    expect(stats.daysSinceLastSlip).toBe(2);
+    expect(stats.longestCleanRun).toBe(6); // June 4–9
+    expect(stats.lastSlipDate).toBe('2025-06-10');
+    expect(stats.totalSlips).toBe(3);
+  });
+
+  it('resets the current run on a slip today and ignores slips after the reference date', () => {
+    const slips = [
+      makeSlip({ id: 's1', slip_date: '2025-06-05' }),
+      makeSlip({ id: 's2', slip_date: '2025-06-20' }),
+    ];
+    const stats = computeAbstinenceStats(habit, slips, '2025-06-05');
+    expect(stats.daysSinceLastSlip).toBe(0);
+    expect(stats.longestCleanRun).toBe(4);
+    expect(stats.totalSlips).toBe(1);
+  });
+});
+
+describe('computeWeeklyAdherence (avoid habits)', () => {
+  const habit = makeHabit({ habit_type: 'avoid', created_at: '2025-01-01T00:00:00Z' });
+
+  it('counts elapsed clean days instead of completions', () => {
+    const [stat] = computeWeeklyAdherence([habit], [], '2025-06-14', '2025-06-11');
+    expect(stat.targetDays).toBe(7);
+    expect(stat.completedDays).toBe(4); // Sun–Wed
+    expect(stat.adherencePercent).toBe(100);
+    expect(stat.slipCount).toBe(0);
+    expect(stat.status).toBe('on_track');
+  });
+
+  it('reports slips and excludes slip days from the clean days', () => {
+    const slips = [
+      makeSlip({ id: 's1', slip_date: '2025-06-09' }),
+      makeSlip({ id: 's2', slip_date: '2025-06-09' }),
+    ];
+    const [stat] = computeWeeklyAdherence([habit], [], '2025-06-14', '2025-06-20', slips);
+    expect(stat.completedDays).toBe(6);
+    expect(stat.completedDates).not.toContain('2025-06-09');
+    expect(stat.slipCount).toBe(2);
+    expect(stat.slipDates).toEqual(['2025-06-09']);
+    expect(stat.status).toBe('missed');
+  });
+
+  it('only counts days since the habit was created', () => {
+    const newHabit = makeHabit({ habit_type: 'avoid', created_at: '2025-06-12T10:00:00Z' });
+    const [stat] = computeWeeklyAdherence([newHabit], [], '2025-06-14', '2025-06-20');
+    expect(stat.targetDays).toBe(3);
+    expect(stat.completedDays).toBe(3);
+    expect(stat.status).toBe('met');
+  });
+
+  it('ignores completions logged against an avoid habit', () => {
+    const [stat] = computeWeeklyAdherence(
+      [habit],
+      [makeCompletion({ completed_date: '2025-06-09' })],
+      '2025-06-14',
+      '2025-06-20'
+    );
+    expect(stat.completedDays).toBe(7);
+    expect(stat.slipCount).toBe(0);
+  });
+});
+
+describe('isHabitRequiredToday (avoid habits)', () => {
+  it('never marks an avoid habit as required', () => {
+    const habit = makeHabit({ habit_type: 'avoid', frequency_per_week: 7 });
+    expect(isHabitRequiredToday(habit, 6, 0, false)).toBe(false);
+  });
+});
+
+// ── Per-habit streaks ────────────────────────────
+
+function completionsOn(dates: string[], habitId = 'habit-1'): HabitCompletion[] {
+  return dates.map((date, i) =>
+    makeCompletion({ id: `c-${habitId}-${i}`, habit_id: habitId, completed_date: date })
+  );
+}
+
+function snoozeOn(date: string): HabitSnooze {
+  return { id: `sn-${date}`, habit_id: 'habit-1', user_id: 'user-1', snoozed_date: date, created_at: `${date}T08:00:00Z` };
+}
+
+function freezeOn(date: string): StreakFreeze {
+  return { id: `fr-${date}`, habit_id: 'habit-1', user_id: 'user-1', freeze_date: date, created_at: `${date}T08:00:00Z` };
+}
+
+describe('computeHabitStreak', () => {
+  // June 2025: 2nd, 9th and 16th are Mondays
+  const mwf = makeHabit({ specific_days: [1, 3, 5], frequency_per_week: 3, created_at: '2025-06-01T00:00:00Z' });
+
+  it('skips unscheduled days on specific-day habits', () => {
+    const completions = completionsOn(['2025-06-02', '2025-06-04', '2025-06-06', '2025-06-09']);
+    const streak = computeHabitStreak(mwf, completions, [], [], '2025-06-10');
+    expect(streak.unit).toBe('day');
+    expect(streak.current).toBe(4);
+    expect(streak.longest).toBe(4);
+  });
+
+  it('does not break on today or on a snoozed day', () => {
+    const completions = completionsOn(['2025-06-02', '2025-06-06', '2025-06-09']);
+    const streak = computeHabitStreak(mwf, completions, [snoozeOn('2025-06-04')], [], '2025-06-11');
+    expect(streak.current).toBe(3);
+  });
+
+  it('breaks on a missed scheduled day and offers it for a freeze shortly after', () => {
+    const completions = completionsOn(['2025-06-02', '2025-06-04', '2025-06-09']);
+    const streak = computeHabitStreak(mwf, completions, [], [], '2025-06-10');
+    expect(streak.current).toBe(1);
+    expect(streak.longest).toBe(2);
+    expect(streak.repairablePeriod).toBeNull(); // June 6 is more than 2 days ago
+
+    const fresh = computeHabitStreak(mwf, completionsOn(['2025-06-02', '2025-06-04']), [], [], '2025-06-07');
+    expect(fresh.current).toBe(0);
+    expect(fresh.repairablePeriod).toBe('2025-06-06');
+  });
+
+  it('carries the streak across a frozen day', () => {
+    const completions = completionsOn(['2025-06-02', '2025-06-04', '2025-06-09']);
+    const streak = computeHabitStreak(mwf, completions, [], [freezeOn('2025-06-06')], '2025-06-10');
+    expect(streak.current).toBe(3);
+    expect(streak.repairablePeriod).toBeNull();
+  });
+
+  it('counts weeks for "any N days" habits', () => {
+    const habit = makeHabit({ frequency_per_week: 2, created_at: '2025-06-01T00:00:00Z' });
+    const completions = completionsOn([
+      '2025-06-02', '2025-06-05', // week 1 met
+      '2025-06-10', '2025-06-13', // week 2 met
+      '2025-06-16', // week 3 in progress
+    ]);
+    const streak = computeHabitStreak(habit, completions, [], [], '2025-06-17');
+    expect(streak.unit).toBe('week');
+    expect(streak.current).toBe(2);
+  });
+
+  it('earns a freeze every seven scheduled days in a row', () => {
+    const daily = makeHabit({ frequency_per_week: 7, created_at: '2025-06-01T00:00:00Z' });
+    const dates = Array.from({ length: 15 }, (_, i) => `2025-06-${String(i + 1).padStart(2, '0')}`);
+    const streak = computeHabitStreak(daily, completionsOn(dates), [], [], '2025-06-16');
+    expect(streak.current).toBe(15);
+    expect(streak.freezesEarnedOn).toEqual(['2025-06-07', '2025-06-14']);
+  });
+
+  it('uses the clean run for avoid habits', () => {
+    const habit = makeHabit({ habit_type: 'avoid', created_at: '2025-06-01T00:00:00Z' });
+    const streak = computeHabitStreak(habit, [], [], [], '2025-06-10', [makeSlip({ slip_date: '2025-06-06' })]);
+    expect(streak.current).toBe(4);
+    expect(streak.longest).toBe(5);
+  });
+});
+
+describe('getFreezeBalance', () => {
+  const streak = (freezesEarnedOn: string[]) => ({
+    habitId: 'habit-1',
+    unit: 'day' as const,
+    current: 0,
+    longest: 0,
+    freezesEarnedOn,
+    repairablePeriod: null,
+  });
+  // One freeze earned on each of the first `count` days of May
+  const earnedInMay = (count: number) =>
+    Array.from({ length: count }, (_, i) => `2025-05-${String(i + 1).padStart(2, '0')}`);
+
+  it('subtracts used freezes and caps the bank', () => {
+    expect(
+      getFreezeBalance([streak(['2025-06-01', '2025-06-02']), streak(['2025-06-03'])], [freezeOn('2025-06-06')])
+    ).toBe(2);
+    expect(getFreezeBalance([streak(earnedInMay(10))], [])).toBe(3);
+    expect(getFreezeBalance([streak([])], [freezeOn('2025-06-06')])).toBe(0);
+  });
+
+  it('lowers a full bank when a freeze is used', () => {
+    // Ten earned before the spend, but only three could be held
+    expect(getFreezeBalance([streak(earnedInMay(10))], [freezeOn('2025-06-06')])).toBe(2);
+  });
+
+  it('drops freezes earned while the bank is full', () => {
+    const earned = ['2025-06-01', '2025-06-02', '2025-06-03', '2025-06-04', '2025-06-10'];
+    // Full after the 3rd, the 4th is lost; a spend on the 6th makes room for the 10th
+    expect(getFreezeBalance([streak(earned)], [freezeOn('2025-06-06')])).toBe(3);
+    expect(
+      getFreezeBalance([streak(earned)], [freezeOn('2025-06-06'), freezeOn('2025-06-07')])
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,293 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import {
+  HEALTH_SYNC_INITIAL_DAYS,
+  HEALTH_SYNC_MAX_DAYS,
+  getSyncWindowDays,
+  syncHealthData,
+} from '../healthSync';
+import { Goal, Habit, HealthSyncStatus } from '../types';
+
+const health = jest.requireMock('../health');
+const { supabase: mockSupabase } = jest.requireMock('../supabase');
+
+// ── Test helpers ──────────────────────────────────
+
+function makeGoal(overrides: Partial<Goal> = {}): Goal {
+  return {
+    id: 'goal-1',
+    user_id: 'user-1',
+    goal_type: 'weight',
+    title: 'Target Weight',
+    target_value: 180,
+    unit: 'lbs',
+    start_value: 200,
+    start_date: '2025-03-01T00:00:00.000Z',
+    target_date: null,
+    rate: null,
+    rate_unit: null,
+    data_source: 'apple_health',
+    is_active: true,
+    created_at: '2025-03-01T00:00:00.000Z',
+    updated_at: '2025-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeHabit(overrides: Partial<Habit> = {}): Habit {
+  return {
+    id: 'habit-1',
+    user_id: 'user-1',
+    name: '10k steps',
+    description: null,
+    frequency_per_week: 7,
+    specific_days: null,
+    is_active: true,
+    metric_type: 'steps',
+    metric_threshold: 10000,
+    auto_complete: true,
+    created_at: '2025-03-01T12:00:00Z',
+    updated_at: '2025-03-01T12:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeStatus(overrides: Partial<HealthSyncStatus> = {}): HealthSyncStatus {
+  return {
+    user_id: 'user-1',
+    source: 'goal:weight',
+    synced_through: null,
+    last_synced_at: null,
+    last_error: null,
+    updated_at: '2025-03-01T12:00:00Z',
+    ...overrides,
+  };
+}
+
+// Resolve the next awaited queries in order: goals, habits, sync statuses, then any writes
+function mockQueries(...results: { data?: unknown; error?: unknown }[]) {
+  for (const result of results) {
+    mockSupabase._chain.then.mockImplementationOnce((resolve: any) =>
+      resolve({ data: null, error: null, ...result })
+    );
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockSupabase._resetChain();
+  jest.useFakeTimers({ now: new Date('2025-03-12T10:00:00') });
+  health.isHealthKitAvailable.mockReturnValue(true);
+  health.checkHealthAuthorization.mockResolvedValue(true);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  health.isHealthKitAvailable.mockReturnValue(false);
+});
+
+// ── getSyncWindowDays ─────────────────────────────
+
+describe('getSyncWindowDays', () => {
+  it('reads the initial window on a first sync', () => {
+    expect(getSyncWindowDays(null, '2025-03-12')).toBe(HEALTH_SYNC_INITIAL_DAYS);
+  });
+
+  it('re-reads the last synced day', () => {
+    expect(getSyncWindowDays('2025-03-12', '2025-03-12')).toBe(1);
+    expect(getSyncWindowDays('2025-03-09', '2025-03-12')).toBe(4);
+  });
+
+  it('caps the catch-up after a long gap', () => {
+    expect(getSyncWindowDays('2024-12-01', '2025-03-12')).toBe(HEALTH_SYNC_MAX_DAYS);
+  });
+});
+
+// ── syncHealthData ────────────────────────────────
+
+describe('syncHealthData', () => {
+  it('does nothing without Health access', async () => {
+    health.checkHealthAuthorization.mockResolvedValueOnce(false);
+
+    const result = await syncHealthData('user-1');
+
+    expect(result).toEqual({ synced: [], failed: [], written: 0 });
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('shares one run between overlapping calls', async () => {
+    const first = syncHealthData('user-1');
+    expect(syncHealthData('user-1')).toBe(first);
+    await first;
+  });
+
+  it('syncs goal entries from the cursor and advances it', async () => {
+    mockQueries(
+      { data: [makeGoal()] },
+      { data: [] },
+      { data: [makeStatus({ synced_through: '2025-03-10' })] }
+    );
+    health.getWeightHistory.mockResolvedValueOnce([
+      { date: '2025-03-09', value: 190 },
+      { date: '2025-03-10', value: 189.4 },
+      { date: '2025-03-11', value: 189 },
+      { date: '2025-03-11', value: 188.6 },
+    ]);
+
+    const result = await syncHealthData('user-1');
+
+    expect(health.getWeightHistory).toHaveBeenCalledWith(3);
+    expect(mockSupabase._chain.upsert).toHaveBeenNthCalledWith(
+      1,
+      [
+        { goal_id: 'goal-1', user_id: 'user-1', value: 189.4, recorded_date: '2025-03-10' },
+        { goal_id: 'goal-1', user_id: 'user-1', value: 188.6, recorded_date: '2025-03-11' },
+      ],
+      { onConflict: 'goal_id,recorded_date' }
+    );
+    expect(mockSupabase._chain.upsert).toHaveBeenNthCalledWith(
+      2,
+      [
+        expect.objectContaining({
+          user_id: 'user-1',
+          source: 'goal:weight',
+          synced_through: '2025-03-12',
+          last_error: null,
+        }),
+      ],
+      { onConflict: 'user_id,source' }
+    );
+    expect(result).toEqual({ synced: ['goal:weight'], failed: [], written: 2 });
+  });
+
+  it('backfills a goal added since the last sync from its start date', async () => {
+    mockQueries(
+      {
+        data: [
+          makeGoal({ id: 'goal-1' }),
+          makeGoal({
+            id: 'goal-2',
+            start_date: '2025-03-05T00:00:00.000Z',
+            created_at: '2025-03-11T18:00:00.000Z',
+            updated_at: '2025-03-11T18:00:00.000Z',
+          }),
+        ],
+      },
+      { data: [] },
+      { data: [makeStatus({ synced_through: '2025-03-10' })] }
+    );
+    health.getWeightHistory.mockResolvedValueOnce([
+      { date: '2025-03-04', value: 191 },
+      { date: '2025-03-06', value: 190 },
+    ]);
+
+    await syncHealthData('user-1');
+
+    expect(health.getWeightHistory).toHaveBeenCalledWith(8);
+    expect(mockSupabase._chain.upsert.mock.calls[0][0]).toEqual([
+      { goal_id: 'goal-1', user_id: 'user-1', value: 190, recorded_date: '2025-03-06' },
+      { goal_id: 'goal-2', user_id: 'user-1', value: 190, recorded_date: '2025-03-06' },
+    ]);
+  });
+
+  it('skips manual goals and days before a goal started', async () => {
+    mockQueries(
+      {
+        data: [
+          makeGoal({ id: 'goal-1', start_date: '2025-03-11T00:00:00.000Z' }),
+          makeGoal({ id: 'goal-2', data_source: 'manual' }),
+        ],
+      },
+      { data: [] },
+      { data: [] }
+    );
+    health.getWeightHistory.mockResolvedValueOnce([
+      { date: '2025-03-10', value: 189.4 },
+      { date: '2025-03-11', value: 189 },
+    ]);
+
+    await syncHealthData('user-1');
+
+    expect(mockSupabase._chain.upsert.mock.calls[0][0]).toEqual([
+      { goal_id: 'goal-1', user_id: 'user-1', value: 189, recorded_date: '2025-03-11' },
+    ]);
+  });
+
+  it('auto-completes habits on past days that met the threshold', async () => {
+    mockQueries({ data: [] }, { data: [makeHabit()] }, { data: [] });
+    health.getHabitMetricHistory.mockResolvedValueOnce([
+      { date: '2025-02-28', value: 15000 },
+      { date: '2025-03-10', value: 12000 },
+      { date: '2025-03-11', value: 8000 },
+    ]);
+
+    const result = await syncHealthData('user-1');
+
+    expect(health.getHabitMetricHistory).toHaveBeenCalledWith('steps', HEALTH_SYNC_INITIAL_DAYS);
+    expect(mockSupabase.from).toHaveBeenCalledWith('habit_completions');
+    expect(mockSupabase._chain.upsert).toHaveBeenNthCalledWith(
+      1,
+      [{ habit_id: 'habit-1', user_id: 'user-1', completed_date: '2025-03-10' }],
+      { onConflict: 'habit_id,completed_date', ignoreDuplicates: true }
+    );
+    expect(result.synced).toEqual(['habit:steps']);
+  });
+
+  it('leaves days the user unchecked alone', async () => {
+    mockQueries(
+      { data: [] },
+      { data: [makeHabit()] },
+      { data: [] },
+      { data: [{ habit_id: 'habit-1', skip_date: '2025-03-10' }] }
+    );
+    health.getHabitMetricHistory.mockResolvedValueOnce([
+      { date: '2025-03-10', value: 12000 },
+      { date: '2025-03-11', value: 12000 },
+    ]);
+
+    await syncHealthData('user-1');
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('habit_auto_complete_skips');
+    expect(mockSupabase._chain.upsert.mock.calls[0][0]).toEqual([
+      { habit_id: 'habit-1', user_id: 'user-1', completed_date: '2025-03-11' },
+    ]);
+  });
+
+  it('only auto-completes habits on their scheduled days', async () => {
+    // 2025-03-10 is a Monday, 2025-03-11 a Tuesday
+    mockQueries({ data: [] }, { data: [makeHabit({ specific_days: [2] })] }, { data: [] });
+    health.getHabitMetricHistory.mockResolvedValueOnce([
+      { date: '2025-03-10', value: 12000 },
+      { date: '2025-03-11', value: 12000 },
+    ]);
+
+    await syncHealthData('user-1');
+
+    expect(mockSupabase._chain.upsert.mock.calls[0][0]).toEqual([
+      { habit_id: 'habit-1', user_id: 'user-1', completed_date: '2025-03-11' },
+    ]);
+  });
+
+  it('records a failure without moving the cursor', async () => {
+    mockQueries(
+      { data: [makeGoal()] },
+      { data: [] },
+      { data: [] },
+      { error: { message: 'permission denied' } }
+    );
+    health.getWeightHistory.mockResolvedValueOnce([{ date: '2025-03-11', value: 189 }]);
+
+    const result = await syncHealthData('user-1');
+
+    expect(result).toEqual({ synced: [], failed: ['goal:weight'], written: 0 });
+    expect(mockSupabase._chain.upsert).toHaveBeenLastCalledWith(
+      [{ user_id: 'user-1', source: 'goal:weight', last_error: 'permission denied' }],
+      { onConflict: 'user_id,source' }
+    );
+  });
+});
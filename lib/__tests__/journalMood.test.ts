@@ -0,0 +1,157 @@
+// journalMood reads weekly adherence from habits, which imports supabase
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import {
+  averageRating,
+  computeMoodAdherenceCorrelation,
+  computeWeeklyMoodSeries,
+  getJournalRatings,
+  getRatingSeries,
+  getTopEmotions,
+  WeeklyMoodPoint,
+} from '../journalMood';
+import { DailyJournalEntry, Habit, HabitCompletion } from '../types';
+
+function makeEntry(date: string, overrides: Partial<DailyJournalEntry> = {}): DailyJournalEntry {
+  return {
+    id: `entry-${date}`,
+    user_id: 'user-1',
+    journal_date: date,
+    template_id: null,
+    answers: [],
+    mood: null,
+    energy: null,
+    stress: null,
+    emotions: [],
+    created_at: `${date}T20:00:00Z`,
+    updated_at: `${date}T20:00:00Z`,
+    ...overrides,
+  };
+}
+
+const habit: Habit = {
+  id: 'habit-1',
+  user_id: 'user-1',
+  name: 'Walk',
+  description: null,
+  frequency_per_week: 7,
+  specific_days: null,
+  is_active: true,
+  metric_type: null,
+  metric_threshold: null,
+  auto_complete: false,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+function completion(date: string): HabitCompletion {
+  return {
+    id: `completion-${date}`,
+    habit_id: 'habit-1',
+    user_id: 'user-1',
+    completed_date: date,
+    created_at: `${date}T08:00:00Z`,
+  };
+}
+
+function week(adherencePercent: number | null, mood: number | null): WeeklyMoodPoint {
+  return { weekEnd: '2025-06-07', adherencePercent, mood, energy: null, stress: null, ratedDays: 1 };
+}
+
+describe('getJournalRatings', () => {
+  it('defaults entries cached before ratings existed', () => {
+    const legacy = { ...makeEntry('2025-06-01') } as Partial<DailyJournalEntry>;
+    delete legacy.mood;
+    delete legacy.emotions;
+    expect(getJournalRatings(legacy as DailyJournalEntry)).toEqual({
+      mood: null,
+      energy: null,
+      stress: null,
+      emotions: [],
+    });
+  });
+});
+
+describe('getRatingSeries', () => {
+  it('returns rated days oldest first', () => {
+    const entries = [
+      makeEntry('2025-06-03', { mood: 4 }),
+      makeEntry('2025-06-02'),
+      makeEntry('2025-06-01', { mood: 2 }),
+    ];
+    expect(getRatingSeries(entries, 'mood')).toEqual([
+      { date: '2025-06-01', value: 2 },
+      { date: '2025-06-03', value: 4 },
+    ]);
+    expect(averageRating(entries, 'mood')).toBe(3);
+    expect(averageRating(entries, 'stress')).toBeNull();
+  });
+});
+
+describe('getTopEmotions', () => {
+  it('ranks by frequency, breaking ties in tag order', () => {
+    const entries = [
+      makeEntry('2025-06-01', { emotions: ['tired', 'anxious'] }),
+      makeEntry('2025-06-02', { emotions: ['anxious', 'calm'] }),
+      makeEntry('2025-06-03', { emotions: ['tired'] }),
+    ];
+    expect(getTopEmotions(entries, 3)).toEqual(['tired', 'anxious', 'calm']);
+  });
+});
+
+describe('computeWeeklyMoodSeries', () => {
+  it('pairs each full week’s adherence with its average ratings', () => {
+    // Weeks end Sat 2025-05-31 and Sat 2025-06-07 before Sunday 2025-06-08
+    const completions = ['01', '02', '03', '04', '05', '06', '07'].map((d) => completion(`2025-06-${d}`));
+    const entries = [
+      makeEntry('2025-05-27', { mood: 2, stress: 4 }),
+      makeEntry('2025-06-02', { mood: 4, energy: 3 }),
+      makeEntry('2025-06-05', { mood: 5, energy: 5 }),
+    ];
+
+    const series = computeWeeklyMoodSeries([habit], completions, entries, '2025-06-08', 2);
+
+    expect(series).toEqual([
+      { weekEnd: '2025-05-31', adherencePercent: 0, mood: 2, energy: null, stress: 4, ratedDays: 1 },
+      { weekEnd: '2025-06-07', adherencePercent: 100, mood: 4.5, energy: 4, stress: null, ratedDays: 2 },
+    ]);
+  });
+
+  it('keeps weeks before any habit existed without adherence', () => {
+    const series = computeWeeklyMoodSeries(
+      [{ ...habit, created_at: '2025-06-04T00:00:00Z' }],
+      [],
+      [makeEntry('2025-05-27', { mood: 3 })],
+      '2025-06-08',
+      2
+    );
+    expect(series[0]).toMatchObject({ adherencePercent: null, mood: 3 });
+    expect(series[1].adherencePercent).not.toBeNull();
+  });
+});
+
+describe('computeMoodAdherenceCorrelation', () => {
+  it('compares mood in strong and weak habit weeks', () => {
+    const result = computeMoodAdherenceCorrelation([
+      week(100, 4.5),
+      week(90, 4),
+      week(40, 3),
+      week(20, 2.5),
+      week(60, null),
+      week(null, 3),
+    ]);
+
+    expect(result.pairedWeeks).toBe(4);
+    expect(result.highAdherenceMood).toBeCloseTo(4.25);
+    expect(result.lowAdherenceMood).toBeCloseTo(2.75);
+    expect(result.correlation).toBeGreaterThan(0.9);
+    expect(result.comparable).toBe(true);
+  });
+
+  it('needs two weeks on each side to compare', () => {
+    const result = computeMoodAdherenceCorrelation([week(100, 4), week(90, 4), week(20, 2)]);
+    expect(result.comparable).toBe(false);
+  });
+});
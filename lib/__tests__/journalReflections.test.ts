@@ -0,0 +1,114 @@
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import {
+  getEntryReflectionsByDate,
+  getReflectionRange,
+  requestJournalReflection,
+} from '../journalReflections';
+import { supabase } from '../supabase';
+import type { JournalReflection } from '../types';
+
+const mockSupabase = supabase as any;
+
+function makeReflection(overrides: Partial<JournalReflection>): JournalReflection {
+  return {
+    id: 'reflection-1',
+    user_id: 'user-1',
+    scope: 'entry',
+    start_date: '2025-06-02',
+    end_date: '2025-06-02',
+    journal_entry_id: 'entry-1',
+    entry_count: 1,
+    content: { reflection: 'You showed up for yourself.', highlight: null, question: null },
+    created_at: '2025-06-02T20:00:00Z',
+    updated_at: '2025-06-02T20:00:00Z',
+    ...overrides,
+  } as JournalReflection;
+}
+
+describe('requestJournalReflection', () => {
+  beforeEach(() => {
+    mockSupabase.functions.invoke.mockClear();
+  });
+
+  it('sends an entry reflection request for the journal date', async () => {
+    const reflection = makeReflection({});
+    mockSupabase.functions.invoke.mockResolvedValueOnce({
+      data: { reflection, generation_time_ms: 900 },
+      error: null,
+    });
+
+    await expect(
+      requestJournalReflection({ scope: 'entry', journalDate: '2025-06-02' })
+    ).resolves.toEqual({ reflection, generation_time_ms: 900 });
+    expect(mockSupabase.functions.invoke).toHaveBeenCalledWith('generate-journal-reflection', {
+      body: { scope: 'entry', journal_date: '2025-06-02', regenerate: undefined },
+    });
+  });
+
+  it('sends a range reflection request with both dates', async () => {
+    mockSupabase.functions.invoke.mockResolvedValueOnce({
+      data: { skipped: true, reason: 'insufficient_data', entry_count: 2 },
+      error: null,
+    });
+
+    await expect(
+      requestJournalReflection({
+        scope: 'range',
+        startDate: '2025-05-04',
+        endDate: '2025-06-02',
+        regenerate: true,
+      })
+    ).resolves.toEqual({ skipped: true, reason: 'insufficient_data', entry_count: 2 });
+    expect(mockSupabase.functions.invoke).toHaveBeenCalledWith('generate-journal-reflection', {
+      body: { scope: 'range', start_date: '2025-05-04', end_date: '2025-06-02', regenerate: true },
+    });
+  });
+
+  it('reports invoke failures as retryable', async () => {
+    mockSupabase.functions.invoke.mockResolvedValueOnce({
+      data: null,
+      error: { message: 'Edge Function returned a non-2xx status code' },
+    });
+
+    await expect(
+      requestJournalReflection({ scope: 'entry', journalDate: '2025-06-02' })
+    ).resolves.toEqual({
+      error: 'Edge Function returned a non-2xx status code',
+      retryable: true,
+    });
+  });
+});
+
+describe('getReflectionRange', () => {
+  it('includes the end date in the day count', () => {
+    expect(getReflectionRange(30, '2025-06-02')).toEqual({
+      startDate: '2025-05-04',
+      endDate: '2025-06-02',
+    });
+    expect(getReflectionRange(1, '2025-06-02').startDate).toBe('2025-06-02');
+  });
+
+  it('crosses year boundaries', () => {
+    expect(getReflectionRange(7, '2025-01-03').startDate).toBe('2024-12-28');
+  });
+});
+
+describe('getEntryReflectionsByDate', () => {
+  it('keys entry reflections by date and ignores range reports', () => {
+    const entry = makeReflection({ id: 'entry-reflection' });
+    const range = makeReflection({
+      id: 'range-reflection',
+      scope: 'range',
+      start_date: '2025-05-04',
+      journal_entry_id: null,
+      entry_count: 12,
+    });
+
+    const byDate = getEntryReflectionsByDate([range, entry]);
+    expect(byDate.size).toBe(1);
+    expect(byDate.get('2025-06-02')?.id).toBe('entry-reflection');
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  DEFAULT_JOURNAL_TEMPLATE,
+  DEFAULT_JOURNAL_TEMPLATE_ID,
+  buildJournalAnswers,
+  getJournalPromptsForDate,
+  getJournalPromptsForEntry,
+  getJournalTemplateForDate,
+  isJournalEntryComplete,
+} from '../journalTemplates';
+import { DEFAULT_USER_SETTINGS } from '../userSettings';
+import { DailyJournalEntry, JournalTemplate } from '../types';
+
+// ── Test helpers ──────────────────────────────────
+
+function makeTemplate(overrides: Partial<JournalTemplate> = {}): JournalTemplate {
+  return {
+    id: 'tpl-retro',
+    user_id: 'user-1',
+    name: 'Work Retro',
+    emoji: '💼',
+    prompts: [
+      { id: 'went_well', label: 'Went Well' },
+      { id: 'improve', label: 'To Improve' },
+      { id: 'next', label: 'Next Up' },
+    ],
+    prompts_per_day: null,
+    sort_order: 1,
+    is_active: true,
+    created_at: '2025-03-01T00:00:00Z',
+    updated_at: '2025-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeEntry(overrides: Partial<DailyJournalEntry> = {}): DailyJournalEntry {
+  return {
+    id: 'entry-1',
+    user_id: 'user-1',
+    journal_date: '2025-03-14',
+    template_id: 'tpl-retro',
+    answers: [
+      { prompt_id: 'went_well', prompt: 'Went Well', answer: 'Shipped the release' },
+      { prompt_id: 'improve', prompt: 'To Improve', answer: 'Fewer meetings' },
+    ],
+    mood: null,
+    energy: null,
+    stress: null,
+    emotions: [],
+    created_at: '2025-03-14T20:00:00Z',
+    updated_at: '2025-03-14T20:00:00Z',
+    ...overrides,
+  };
+}
+
+const rotating = makeTemplate({
+  id: 'tpl-rotating',
+  prompts: ['a', 'b', 'c', 'd', 'e'].map((id) => ({ id, label: id.toUpperCase() })),
+  prompts_per_day: 2,
+});
+
+// ── getJournalTemplateForDate ─────────────────────
+
+describe('getJournalTemplateForDate', () => {
+  const retro = makeTemplate();
+  const templates = [DEFAULT_JOURNAL_TEMPLATE, retro];
+
+  it('uses the built-in template by default', () => {
+    expect(getJournalTemplateForDate(templates, DEFAULT_USER_SETTINGS, '2025-03-14').id).toBe(
+      DEFAULT_JOURNAL_TEMPLATE_ID
+    );
+  });
+
+  it('prefers the weekday schedule over the chosen default', () => {
+    const settings = {
+      journal_template_id: 'tpl-other',
+      journal_template_schedule: { 5: 'tpl-retro' },
+    };
+    // 2025-03-14 is a Friday
+    expect(getJournalTemplateForDate(templates, settings, '2025-03-14')).toBe(retro);
+  });
+
+  it('falls back to the built-in template when the chosen one is gone', () => {
+    const settings = { journal_template_id: 'tpl-deleted', journal_template_schedule: {} };
+    expect(getJournalTemplateForDate([], settings, '2025-03-14')).toBe(DEFAULT_JOURNAL_TEMPLATE);
+  });
+});
+
+// ── getJournalPromptsForDate ──────────────────────
+
+describe('getJournalPromptsForDate', () => {
+  it('shows every prompt when the template does not rotate', () => {
+    const template = makeTemplate();
+    expect(getJournalPromptsForDate(template, '2025-03-14')).toBe(template.prompts);
+  });
+
+  it('shows prompts_per_day prompts, moving on each day', () => {
+    const ids = (date: string) => getJournalPromptsForDate(rotating, date).map((p) => p.id);
+
+    const today = ids('2025-03-14');
+    const tomorrow = ids('2025-03-15');
+    expect(today).toHaveLength(2);
+    expect(tomorrow).toHaveLength(2);
+    expect(tomorrow).not.toEqual(today);
+  });
+
+  it('works through the whole list over consecutive days', () => {
+    const seen = new Set<string>();
+    for (const date of ['2025-03-14', '2025-03-15', '2025-03-16']) {
+      getJournalPromptsForDate(rotating, date).forEach((p) => seen.add(p.id));
+    }
+    expect(seen.size).toBe(5);
+  });
+});
+
+// ── getJournalPromptsForEntry ─────────────────────
+
+describe('getJournalPromptsForEntry', () => {
+  it('reopens an entry with the prompts it answered', () => {
+    const prompts = getJournalPromptsForEntry(makeEntry(), [makeTemplate()], []);
+    expect(prompts.map((p) => p.id)).toEqual(['went_well', 'improve']);
+  });
+
+  it('keeps prompts whose template was deleted', () => {
+    const prompts = getJournalPromptsForEntry(makeEntry(), [], []);
+    expect(prompts[0]).toEqual({ id: 'went_well', label: 'Went Well' });
+  });
+
+  it('uses the fallback prompts for a new entry', () => {
+    const fallback = makeTemplate().prompts;
+    expect(getJournalPromptsForEntry(null, [], fallback)).toBe(fallback);
+  });
+});
+
+// ── buildJournalAnswers / isJournalEntryComplete ──
+
+describe('buildJournalAnswers', () => {
+  it('pairs each prompt with its trimmed answer', () => {
+    expect(
+      buildJournalAnswers(makeTemplate().prompts.slice(0, 2), { went_well: '  Demo went great ' })
+    ).toEqual([
+      { prompt_id: 'went_well', prompt: 'Went Well', answer: 'Demo went great' },
+      { prompt_id: 'improve', prompt: 'To Improve', answer: '' },
+    ]);
+  });
+});
+
+describe('isJournalEntryComplete', () => {
+  it('needs every prompt answered', () => {
+    expect(isJournalEntryComplete(makeEntry())).toBe(true);
+    expect(
+      isJournalEntryComplete(
+        makeEntry({ answers: [{ prompt_id: 'went_well', prompt: 'Went Well', answer: ' ' }] })
+      )
+    ).toBe(false);
+  });
+
+  it('treats missing and empty entries as incomplete', () => {
+    expect(isJournalEntryComplete(null)).toBe(false);
+    expect(isJournalEntryComplete(makeEntry({ answers: [] }))).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+// Mock supabase before importing notificationActions
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import { supabase } from '../supabase';
+import {
+  HABIT_DONE_ACTION_ID,
+  HABIT_SNOOZE_ACTION_ID,
+  flushReminderActionInvalidations,
+  getHabitReminderAction,
+  handleHabitReminderResponse,
+} from '../notificationActions';
+
+const mockSupabase = supabase as any;
+const chain = mockSupabase._chain;
+
+let responseCount = 0;
+
+// Each response gets its own notification id so dedupe doesn't interfere
+function respond(actionIdentifier: string, data: Record<string, unknown> = {}) {
+  responseCount += 1;
+  return handleHabitReminderResponse(
+    {
+      notificationId: `habit-occurrence:habit-1:2025-06-09:07:30#${responseCount}`,
+      actionIdentifier,
+      data: { reminder_id: 'habit-occurrence', habit_id: 'habit-1', date: '2025-06-09', ...data },
+    },
+    'user-1',
+  );
+}
+
+function makeQueryClient() {
+  return { invalidateQueries: jest.fn() } as any;
+}
+
+beforeEach(() => {
+  mockSupabase._resetChain();
+  mockSupabase.from.mockClear();
+  // Start every test with no pending invalidations
+  flushReminderActionInvalidations(makeQueryClient());
+});
+
+describe('getHabitReminderAction', () => {
+  it('maps the action buttons and ignores plain taps', () => {
+    expect(getHabitReminderAction(HABIT_DONE_ACTION_ID)).toBe('done');
+    expect(getHabitReminderAction(HABIT_SNOOZE_ACTION_ID)).toBe('snooze');
+    expect(getHabitReminderAction('expo.modules.notifications.actions.DEFAULT')).toBeNull();
+  });
+});
+
+describe('handleHabitReminderResponse', () => {
+  it('completes the habit for the reminder\'s date', async () => {
+    await expect(respond(HABIT_DONE_ACTION_ID)).resolves.toBe('completed');
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('habit_completions');
+    expect(chain.insert).toHaveBeenCalledWith({
+      habit_id: 'habit-1',
+      user_id: 'user-1',
+      completed_date: '2025-06-09',
+    });
+  });
+
+  it('leaves an existing completion alone', async () => {
+    chain._mockResolvedValue = { data: [{ quantity: null }], error: null };
+
+    await expect(respond(HABIT_DONE_ACTION_ID)).resolves.toBe('already_completed');
+
+    expect(chain.insert).not.toHaveBeenCalled();
+    expect(chain.delete).not.toHaveBeenCalled();
+  });
+
+  it('tops quantitative habits up to their target', async () => {
+    chain._mockResolvedValue = { data: [{ quantity: 3 }], error: null };
+
+    await expect(respond(HABIT_DONE_ACTION_ID, { target_amount: 8 })).resolves.toBe('completed');
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('log_habit_quantity', {
+      log_habit_id: 'habit-1',
+      log_user_id: 'user-1',
+      log_date: '2025-06-09',
+      amount: 5,
+    });
+  });
+
+  it('snoozes the habit for the reminder\'s date', async () => {
+    await expect(respond(HABIT_SNOOZE_ACTION_ID)).resolves.toBe('snoozed');
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('habit_snoozes');
+    expect(chain.insert).toHaveBeenCalledWith({
+      habit_id: 'habit-1',
+      user_id: 'user-1',
+      snoozed_date: '2025-06-09',
+    });
+  });
+
+  it('ignores plain taps and payloads without a habit', async () => {
+    await expect(respond('expo.modules.notifications.actions.DEFAULT')).resolves.toBe('ignored');
+    await expect(respond(HABIT_DONE_ACTION_ID, { habit_id: undefined })).resolves.toBe('ignored');
+
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('handles the same response only once', async () => {
+    const response = {
+      notificationId: 'habit-occurrence:habit-1:2025-06-09:19:00',
+      actionIdentifier: HABIT_SNOOZE_ACTION_ID,
+      data: { habit_id: 'habit-1', date: '2025-06-09' },
+    };
+
+    await expect(handleHabitReminderResponse(response, 'user-1')).resolves.toBe('snoozed');
+    await expect(handleHabitReminderResponse(response, 'user-1')).resolves.toBe('ignored');
+
+    expect(chain.insert).toHaveBeenCalledTimes(1);
+  });
+
+  it('allows a retry after a failure', async () => {
+    const response = {
+      notificationId: 'habit-occurrence:habit-1:2025-06-10:07:30',
+      actionIdentifier: HABIT_SNOOZE_ACTION_ID,
+      data: { habit_id: 'habit-1', date: '2025-06-10' },
+    };
+    chain._mockResolvedValue = { data: null, error: new Error('offline') };
+
+    await expect(handleHabitReminderResponse(response, 'user-1')).rejects.toThrow('offline');
+
+    chain._mockResolvedValue = { data: [], error: null };
+    await expect(handleHabitReminderResponse(response, 'user-1')).resolves.toBe('snoozed');
+  });
+});
+
+describe('flushReminderActionInvalidations', () => {
+  it('invalidates completions, snoozes and the streak after an action', async () => {
+    await respond(HABIT_DONE_ACTION_ID);
+    const qc = makeQueryClient();
+
+    expect(flushReminderActionInvalidations(qc)).toBe(true);
+    expect(qc.invalidateQueries).toHaveBeenCalledWith({ queryKey: ['completions'] });
+    expect(qc.invalidateQueries).toHaveBeenCalledWith({ queryKey: ['snoozes'] });
+    expect(qc.invalidateQueries).toHaveBeenCalledWith({ queryKey: ['streak'] });
+
+    // Nothing left to flush on the next resume
+    expect(flushReminderActionInvalidations(qc)).toBe(false);
+  });
+
+  it('does nothing when no action changed data', async () => {
+    chain._mockResolvedValue = { data: [{ quantity: null }], error: null };
+    await respond(HABIT_DONE_ACTION_ID);
+    const qc = makeQueryClient();
+
+    expect(flushReminderActionInvalidations(qc)).toBe(false);
+    expect(qc.invalidateQueries).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,283 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+// Mock supabase before importing outbox
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import type { OutboxMutation } from '../outbox';
+
+const NETWORK_ERROR = { message: 'TypeError: Network request failed', details: '', hint: '', code: '' };
+
+// The outbox keeps its queue in module state; load a fresh copy per test
+let outbox: typeof import('../outbox');
+let mockSupabase: any;
+let AsyncStorage: any;
+
+function completion(habitId: string, completed = true): OutboxMutation {
+  return { kind: 'habit_completion', habitId, userId: 'user-1', date: '2025-06-09', completed };
+}
+
+beforeEach(() => {
+  jest.resetModules();
+  outbox = require('../outbox');
+  mockSupabase = require('../supabase').supabase;
+  AsyncStorage = require('@react-native-async-storage/async-storage');
+  mockSupabase._resetChain();
+});
+
+afterEach(async () => {
+  await AsyncStorage.clear();
+});
+
+// ── runOrQueue ───────────────────────────────────
+
+describe('runOrQueue', () => {
+  it('runs the write right away when nothing is pending', async () => {
+    const run = jest.fn().mockResolvedValue('ok');
+
+    await expect(outbox.runOrQueue(completion('habit-1'), run)).resolves.toEqual({
+      queued: false,
+      result: 'ok',
+    });
+    expect(await outbox.getPendingCount()).toBe(0);
+  });
+
+  it('queues the write when the network is down', async () => {
+    const run = jest.fn().mockRejectedValue(NETWORK_ERROR);
+
+    await expect(outbox.runOrQueue(completion('habit-1'), run)).resolves.toEqual({ queued: true });
+
+    const entries = await outbox.getOutboxEntries();
+    expect(entries.map((e) => e.mutation)).toEqual([completion('habit-1')]);
+    expect(JSON.parse(await AsyncStorage.getItem(outbox.OUTBOX_STORAGE_KEY))).toHaveLength(1);
+  });
+
+  it('still fails on server errors', async () => {
+    const run = jest.fn().mockRejectedValue({ message: 'permission denied', code: '42501' });
+
+    await expect(outbox.runOrQueue(completion('habit-1'), run)).rejects.toMatchObject({
+      code: '42501',
+    });
+    expect(await outbox.getPendingCount()).toBe(0);
+  });
+
+  it('queues behind pending writes to keep them in order', async () => {
+    mockSupabase._chain._mockResolvedValue = { data: null, error: NETWORK_ERROR };
+    await outbox.enqueueMutation(completion('habit-1'));
+    const run = jest.fn();
+
+    await expect(outbox.runOrQueue(completion('habit-2'), run)).resolves.toEqual({ queued: true });
+    await outbox.flushOutbox();
+
+    expect(run).not.toHaveBeenCalled();
+    expect((await outbox.getOutboxEntries()).map((e) => (e.mutation as any).habitId)).toEqual([
+      'habit-1',
+      'habit-2',
+    ]);
+  });
+});
+
+// ── enqueueMutation ──────────────────────────────
+
+describe('enqueueMutation', () => {
+  it('keeps only the latest state of a habit for a day', async () => {
+    await outbox.enqueueMutation(completion('habit-1', true));
+    await outbox.enqueueMutation(completion('habit-2', true));
+    await outbox.enqueueMutation(completion('habit-1', false));
+
+    const entries = await outbox.getOutboxEntries();
+    expect(entries.map((e) => e.mutation)).toEqual([
+      completion('habit-2', true),
+      completion('habit-1', false),
+    ]);
+  });
+
+  it('keeps every quantity log', async () => {
+    const log: OutboxMutation = {
+      kind: 'habit_quantity',
+      habitId: 'habit-1',
+      userId: 'user-1',
+      date: '2025-06-09',
+      amount: 1,
+    };
+    await outbox.enqueueMutation(log);
+    await outbox.enqueueMutation(log);
+
+    expect(await outbox.getPendingCount()).toBe(2);
+  });
+
+  it('survives an app restart', async () => {
+    await outbox.enqueueMutation(completion('habit-1'));
+    const stored = await AsyncStorage.getItem(outbox.OUTBOX_STORAGE_KEY);
+
+    jest.resetModules();
+    await require('@react-native-async-storage/async-storage').setItem(outbox.OUTBOX_STORAGE_KEY, stored);
+    const reloaded: typeof import('../outbox') = require('../outbox');
+
+    expect(await reloaded.getPendingCount()).toBe(1);
+  });
+});
+
+// ── flushOutbox ──────────────────────────────────
+
+describe('flushOutbox', () => {
+  it('replays queued writes in order', async () => {
+    await outbox.enqueueMutation(completion('habit-1', true));
+    await outbox.enqueueMutation(completion('habit-2', false));
+
+    await expect(outbox.flushOutbox()).resolves.toBe(2);
+
+    expect(mockSupabase._chain.insert).toHaveBeenCalledWith({
+      habit_id: 'habit-1',
+      user_id: 'user-1',
+      completed_date: '2025-06-09',
+    });
+    // The check lifts the day's auto-complete skip; the uncheck removes the completion
+    expect(mockSupabase._chain.delete).toHaveBeenCalledTimes(2);
+    expect(mockSupabase._chain.eq).toHaveBeenCalledWith('habit_id', 'habit-2');
+    expect(await outbox.getPendingCount()).toBe(0);
+  });
+
+  it('stops at the first network failure and keeps the rest', async () => {
+    await outbox.enqueueMutation(completion('habit-1'));
+    await outbox.enqueueMutation(completion('habit-2'));
+    mockSupabase._chain._mockResolvedValue = { data: null, error: NETWORK_ERROR };
+
+    await expect(outbox.flushOutbox()).resolves.toBe(0);
+
+    expect(mockSupabase._chain.insert).toHaveBeenCalledTimes(1);
+    expect(await outbox.getPendingCount()).toBe(2);
+  });
+
+  it('treats an existing completion for the day as synced', async () => {
+    await outbox.enqueueMutation(completion('habit-1'));
+    mockSupabase._chain._mockResolvedValue = {
+      data: null,
+      error: { message: 'duplicate key value violates unique constraint', code: '23505' },
+    };
+
+    await expect(outbox.flushOutbox()).resolves.toBe(1);
+    expect(await outbox.getPendingCount()).toBe(0);
+  });
+
+  it('sets aside writes the server rejects', async () => {
+    const { captureError } = require('../sentry');
+    await outbox.enqueueMutation(completion('habit-1'));
+    mockSupabase._chain._mockResolvedValue = {
+      data: null,
+      error: { message: 'violates foreign key constraint', code: '23503' },
+    };
+
+    await expect(outbox.flushOutbox()).resolves.toBe(0);
+    expect(await outbox.getPendingCount()).toBe(0);
+    expect(captureError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: '23503' }),
+      expect.objectContaining({ tag: 'outbox.replay' }),
+    );
+
+    const failed = await outbox.getFailedOutboxEntries();
+    expect(failed).toHaveLength(1);
+    expect(failed[0].mutation).toEqual(completion('habit-1'));
+    expect(failed[0].error).toBe('violates foreign key constraint');
+  });
+
+  it('points later todo writes at the id of a todo created offline', async () => {
+    await outbox.enqueueMutation({
+      kind: 'todo_upsert',
+      userId: 'user-1',
+      date: '2025-06-09',
+      position: 2,
+      text: 'Call mom',
+    });
+    await outbox.enqueueMutation({
+      kind: 'todo_toggle',
+      todoId: 'optimistic-2',
+      date: '2025-06-09',
+      isCompleted: false,
+    });
+    mockSupabase._chain._mockResolvedValue = { data: { id: 'todo-42' }, error: null };
+
+    await expect(outbox.flushOutbox()).resolves.toBe(2);
+
+    expect(mockSupabase._chain.update).toHaveBeenCalledWith({ is_completed: true });
+    expect(mockSupabase._chain.eq).toHaveBeenCalledWith('id', 'todo-42');
+  });
+
+  it('replays journal entries queued before journal templates', async () => {
+    await AsyncStorage.setItem(
+      outbox.OUTBOX_STORAGE_KEY,
+      JSON.stringify([
+        {
+          id: 'legacy-1',
+          queuedAt: '2025-06-09T20:00:00.000Z',
+          mutation: {
+            kind: 'journal_upsert',
+            userId: 'user-1',
+            date: '2025-06-09',
+            win: 'Ran 5k',
+            tension: 'Late meeting',
+            gratitude: 'Sunshine',
+          },
+        },
+      ])
+    );
+
+    await expect(outbox.flushOutbox()).resolves.toBe(1);
+
+    expect(mockSupabase._chain.upsert).toHaveBeenCalledWith(
+      {
+        user_id: 'user-1',
+        journal_date: '2025-06-09',
+        template_id: '00000000-0000-4000-8000-000000000001',
+        answers: [
+          { prompt_id: 'win', prompt: 'One Win', answer: 'Ran 5k' },
+          { prompt_id: 'tension', prompt: 'One Point of Tension', answer: 'Late meeting' },
+          { prompt_id: 'gratitude', prompt: 'One Gratitude', answer: 'Sunshine' },
+        ],
+      },
+      { onConflict: 'user_id,journal_date' }
+    );
+  });
+
+  it('notifies subscribers as the queue drains', async () => {
+    const listener = jest.fn();
+    outbox.subscribeToOutbox(listener);
+
+    await outbox.enqueueMutation(completion('habit-1'));
+    await outbox.flushOutbox();
+
+    expect(listener.mock.calls.map(([count]) => count)).toEqual([1, 0]);
+  });
+});
+
+describe('clearOutbox', () => {
+  it('drops queued and rejected writes so another account cannot replay them', async () => {
+    await outbox.enqueueMutation(completion('habit-1'));
+    mockSupabase._chain._mockResolvedValue = {
+      data: null,
+      error: { message: 'violates foreign key constraint', code: '23503' },
+    };
+    await outbox.flushOutbox();
+    await outbox.enqueueMutation(completion('habit-2'));
+    const listener = jest.fn();
+    outbox.subscribeToOutbox(listener);
+
+    await outbox.clearOutbox();
+
+    expect(listener).toHaveBeenCalledWith(0);
+    expect(await outbox.getPendingCount()).toBe(0);
+    expect(await outbox.getFailedOutboxEntries()).toEqual([]);
+    expect(await AsyncStorage.getItem(outbox.OUTBOX_STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe('isNetworkError', () => {
+  it('recognizes failed fetches but not server errors', () => {
+    expect(outbox.isNetworkError(NETWORK_ERROR)).toBe(true);
+    expect(outbox.isNetworkError(new TypeError('Network request failed'))).toBe(true);
+    expect(outbox.isNetworkError({ message: 'JWT expired', code: 'PGRST301' })).toBe(false);
+    expect(outbox.isNetworkError(null)).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QueryClient } from '@tanstack/react-query';
+import {
+  QUERY_CACHE_MAX_AGE,
+  QUERY_CACHE_STORAGE_KEY,
+  getQueryCacheBuster,
+  persistQueryCache,
+  restoreQueryCache,
+  shouldPersistQuery,
+} from '../queryPersistence';
+
+const BUSTER = getQueryCacheBuster('user-1', '1.2.0');
+
+function makeClient() {
+  return new QueryClient({ defaultOptions: { queries: { gcTime: Infinity } } });
+}
+
+afterEach(async () => {
+  await AsyncStorage.clear();
+  jest.useRealTimers();
+});
+
+describe('getQueryCacheBuster', () => {
+  it('changes with the app version and the user', () => {
+    expect(BUSTER).toBe('1.2.0:user-1');
+    expect(getQueryCacheBuster('user-2', '1.2.0')).not.toBe(BUSTER);
+    expect(getQueryCacheBuster('user-1', '1.3.0')).not.toBe(BUSTER);
+  });
+});
+
+describe('shouldPersistQuery', () => {
+  it('keeps app data but not device or billing state', () => {
+    expect(shouldPersistQuery(['habits'])).toBe(true);
+    expect(shouldPersistQuery(['completions', '2025-06-09'])).toBe(true);
+    expect(shouldPersistQuery(['goals', 'currentValue', 'goal-1'])).toBe(true);
+    expect(shouldPersistQuery(['health', 'metrics'])).toBe(false);
+    expect(shouldPersistQuery(['subscription'])).toBe(false);
+  });
+});
+
+describe('persist and restore', () => {
+  it('round-trips persisted queries into a fresh client', async () => {
+    const source = makeClient();
+    source.setQueryData(['habits'], [{ id: 'habit-1', name: 'Meditate' }]);
+    source.setQueryData(['subscription'], { isActive: true });
+
+    await persistQueryCache(source, BUSTER);
+
+    const target = makeClient();
+    await expect(restoreQueryCache(target, BUSTER)).resolves.toBe(true);
+    expect(target.getQueryData(['habits'])).toEqual([{ id: 'habit-1', name: 'Meditate' }]);
+    expect(target.getQueryData(['subscription'])).toBeUndefined();
+  });
+
+  it('discards a cache written for another user', async () => {
+    const source = makeClient();
+    source.setQueryData(['habits'], [{ id: 'habit-1' }]);
+    await persistQueryCache(source, BUSTER);
+
+    const target = makeClient();
+    await expect(restoreQueryCache(target, getQueryCacheBuster('user-2', '1.2.0'))).resolves.toBe(false);
+
+    expect(target.getQueryData(['habits'])).toBeUndefined();
+    expect(await AsyncStorage.getItem(QUERY_CACHE_STORAGE_KEY)).toBeNull();
+  });
+
+  it('discards a cache past its max age', async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-06-01T12:00:00'));
+    const source = makeClient();
+    source.setQueryData(['habits'], [{ id: 'habit-1' }]);
+    await persistQueryCache(source, BUSTER);
+
+    jest.setSystemTime(new Date(Date.now() + QUERY_CACHE_MAX_AGE + 1));
+
+    await expect(restoreQueryCache(makeClient(), BUSTER)).resolves.toBe(false);
+  });
+
+  it('does not overwrite data fetched since the cache was written', async () => {
+    const source = makeClient();
+    source.setQueryData(['streak'], { streak: 3 }, { updatedAt: 1000 });
+    await persistQueryCache(source, BUSTER);
+
+    const target = makeClient();
+    target.setQueryData(['streak'], { streak: 4 }, { updatedAt: 2000 });
+    await restoreQueryCache(target, BUSTER);
+
+    expect(target.getQueryData(['streak'])).toEqual({ streak: 4 });
+  });
+});
@@ -0,0 +1,168 @@
+import { Habit, HabitCompletion, Routine } from '../types';
+
+// Mock supabase before importing routines
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import { getRoutineHabits, computeRoutineProgress } from '../routines';
+
+// ── Test helpers ──────────────────────────────────
+
+function makeRoutine(overrides: Partial<Routine> = {}): Routine {
+  return {
+    id: 'routine-1',
+    user_id: 'user-1',
+    name: 'Morning',
+    sort_order: 0,
+    is_active: true,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeHabit(overrides: Partial<Habit> = {}): Habit {
+  return {
+    id: 'habit-1',
+    user_id: 'user-1',
+    name: 'Exercise',
+    description: null,
+    frequency_per_week: 7,
+    specific_days: null,
+    is_active: true,
+    metric_type: null,
+    metric_threshold: null,
+    auto_complete: false,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeCompletion(overrides: Partial<HabitCompletion> = {}): HabitCompletion {
+  return {
+    id: 'completion-1',
+    habit_id: 'habit-1',
+    user_id: 'user-1',
+    completed_date: '2025-06-09',
+    created_at: '2025-06-09T08:00:00Z',
+    ...overrides,
+  };
+}
+
+const routine = makeRoutine();
+const water = makeHabit({ id: 'water', name: 'Drink water', routine_id: 'routine-1', routine_position: 0 });
+const stretch = makeHabit({ id: 'stretch', name: 'Stretch', routine_id: 'routine-1', routine_position: 1 });
+const journal = makeHabit({ id: 'journal', name: 'Journal', routine_id: 'routine-1', routine_position: 2 });
+
+// 2025-06-09 is a Monday
+const MONDAY = '2025-06-09';
+
+// ── getRoutineHabits ─────────────────────────────
+
+describe('getRoutineHabits', () => {
+  it('returns only the routine\'s habits, in step order', () => {
+    const other = makeHabit({ id: 'other', routine_id: 'routine-2', routine_position: 0 });
+    const loose = makeHabit({ id: 'loose' });
+
+    const steps = getRoutineHabits(routine, [journal, other, water, loose, stretch]);
+
+    expect(steps.map((h) => h.id)).toEqual(['water', 'stretch', 'journal']);
+  });
+
+  it('leaves out avoid habits', () => {
+    const avoid = makeHabit({ id: 'avoid', habit_type: 'avoid', routine_id: 'routine-1', routine_position: 3 });
+
+    expect(getRoutineHabits(routine, [water, avoid]).map((h) => h.id)).toEqual(['water']);
+  });
+});
+
+// ── computeRoutineProgress ───────────────────────
+
+describe('computeRoutineProgress', () => {
+  const habits = [water, stretch, journal];
+
+  it('starts at the first step with nothing done', () => {
+    const progress = computeRoutineProgress(routine, habits, [], 1, MONDAY);
+
+    expect(progress.done).toBe(0);
+    expect(progress.total).toBe(3);
+    expect(progress.isComplete).toBe(false);
+    expect(progress.nextStep?.id).toBe('water');
+  });
+
+  it('picks up at the first unfinished step', () => {
+    const completions = [
+      makeCompletion({ habit_id: 'water' }),
+      makeCompletion({ habit_id: 'journal' }),
+    ];
+
+    const progress = computeRoutineProgress(routine, habits, completions, 1, MONDAY);
+
+    expect(progress.done).toBe(2);
+    expect(progress.nextStep?.id).toBe('stretch');
+  });
+
+  it('is complete when every step is done', () => {
+    const completions = habits.map((h) => makeCompletion({ id: `c-${h.id}`, habit_id: h.id }));
+
+    const progress = computeRoutineProgress(routine, habits, completions, 1, MONDAY);
+
+    expect(progress.isComplete).toBe(true);
+    expect(progress.nextStep).toBeNull();
+  });
+
+  it('ignores completions from other days', () => {
+    const completions = [makeCompletion({ habit_id: 'water', completed_date: '2025-06-08' })];
+
+    expect(computeRoutineProgress(routine, habits, completions, 1, MONDAY).done).toBe(0);
+  });
+
+  it('drops steps not scheduled that day', () => {
+    const weekendOnly = makeHabit({
+      id: 'weekend',
+      specific_days: [0, 6],
+      routine_id: 'routine-1',
+      routine_position: 3,
+    });
+
+    const progress = computeRoutineProgress(routine, [...habits, weekendOnly], [], 1, MONDAY);
+
+    expect(progress.total).toBe(3);
+    expect(progress.steps.map((h) => h.id)).not.toContain('weekend');
+  });
+
+  it('treats snoozed steps as skipped', () => {
+    const completions = [
+      makeCompletion({ habit_id: 'water' }),
+      makeCompletion({ habit_id: 'journal' }),
+    ];
+
+    const progress = computeRoutineProgress(
+      routine, habits, completions, 1, MONDAY, new Set(['stretch'])
+    );
+
+    expect(progress.total).toBe(2);
+    expect(progress.isComplete).toBe(true);
+  });
+
+  it('only counts quantitative steps once their target is met', () => {
+    const glasses = makeHabit({ ...water, target_amount: 8, unit: 'glasses' });
+    const completions = [makeCompletion({ habit_id: 'water', quantity: 3 })];
+
+    const progress = computeRoutineProgress(routine, [glasses, stretch], completions, 1, MONDAY);
+
+    expect(progress.done).toBe(0);
+    expect(progress.nextStep?.id).toBe('water');
+  });
+
+  it('has no steps before its habits were created', () => {
+    const newHabits = habits.map((h) => ({ ...h, created_at: '2025-06-10T00:00:00Z' }));
+
+    const progress = computeRoutineProgress(routine, newHabits, [], 1, MONDAY);
+
+    expect(progress.total).toBe(0);
+    expect(progress.isComplete).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+jest.mock('../supabase');
+
+import { searchHistory, splitSearchSnippet } from '../search';
+import { supabase } from '../supabase';
+
+const mockSupabase = supabase as any;
+
+describe('searchHistory', () => {
+  beforeEach(() => {
+    mockSupabase.rpc.mockClear();
+  });
+
+  it('searches with the trimmed query', async () => {
+    const result = {
+      kind: 'journal',
+      id: 'entry-1',
+      result_date: '2025-06-02',
+      snippet: 'My «knee» felt better',
+      rank: 0.1,
+    };
+    mockSupabase.rpc.mockResolvedValueOnce({ data: [result], error: null });
+
+    await expect(searchHistory('  knee  ')).resolves.toEqual([result]);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('search_history', {
+      search_query: 'knee',
+      max_results: 50,
+    });
+  });
+
+  it('skips queries that are too short', async () => {
+    await expect(searchHistory(' k ')).resolves.toEqual([]);
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('throws database errors', async () => {
+    const error = { message: 'syntax error in tsquery' };
+    mockSupabase.rpc.mockResolvedValueOnce({ data: null, error });
+    await expect(searchHistory('knee')).rejects.toBe(error);
+  });
+});
+
+describe('splitSearchSnippet', () => {
+  it('splits matches from the surrounding text', () => {
+    expect(splitSearchSnippet('Ran 5k, «knee» held up … iced the «knee»')).toEqual([
+      { text: 'Ran 5k, ', highlighted: false },
+      { text: 'knee', highlighted: true },
+      { text: ' held up … iced the ', highlighted: false },
+      { text: 'knee', highlighted: true },
+    ]);
+  });
+
+  it('returns text without markers as one plain part', () => {
+    expect(splitSearchSnippet('Call the physio')).toEqual([
+      { text: 'Call the physio', highlighted: false },
+    ]);
+  });
+
+  it('leaves an unclosed marker as plain text', () => {
+    expect(splitSearchSnippet('«knee» and «sore')).toEqual([
+      { text: 'knee', highlighted: true },
+      { text: ' and «sore', highlighted: false },
+    ]);
+  });
+});
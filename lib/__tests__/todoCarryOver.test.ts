@@ -0,0 +1,170 @@
+jest.mock('../supabase');
+jest.mock('../health');
+jest.mock('../sentry');
+
+import {
+  carryOverTodos,
+  computeCarryOverStats,
+  getCarryOverCandidates,
+  planCarryOver,
+} from '../todoCarryOver';
+import { supabase } from '../supabase';
+import type { DailyTodo } from '../types';
+
+const mockSupabase = supabase as any;
+const chain = mockSupabase._chain;
+
+function makeTodo(overrides: Partial<DailyTodo>): DailyTodo {
+  return {
+    id: 'todo-1',
+    user_id: 'user-1',
+    todo_date: '2025-06-02',
+    text: 'Write the report',
+    is_completed: false,
+    position: 1,
+    carried_to_date: null,
+    carry_count: 0,
+    created_at: '2025-06-02T08:00:00Z',
+    updated_at: '2025-06-02T08:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('getCarryOverCandidates', () => {
+  it('picks the latest earlier day with unfinished, uncarried todos', () => {
+    const todos = [
+      makeTodo({ id: 'a', todo_date: '2025-05-30', position: 1 }),
+      makeTodo({ id: 'b', todo_date: '2025-06-01', position: 2 }),
+      makeTodo({ id: 'c', todo_date: '2025-06-01', position: 1 }),
+      makeTodo({ id: 'd', todo_date: '2025-06-01', position: 3, is_completed: true }),
+      makeTodo({ id: 'e', todo_date: '2025-06-02', position: 1 }),
+    ];
+
+    expect(getCarryOverCandidates(todos, '2025-06-02')).toEqual({
+      fromDate: '2025-06-01',
+      todos: [todos[2], todos[1]],
+    });
+  });
+
+  it('skips todos that were already carried over', () => {
+    const todos = [
+      makeTodo({ id: 'a', todo_date: '2025-05-31' }),
+      makeTodo({ id: 'b', todo_date: '2025-06-01', carried_to_date: '2025-06-02' }),
+    ];
+
+    expect(getCarryOverCandidates(todos, '2025-06-02')?.fromDate).toBe('2025-05-31');
+  });
+
+  it('ignores days outside the lookback', () => {
+    const todos = [makeTodo({ todo_date: '2025-05-20' })];
+    expect(getCarryOverCandidates(todos, '2025-06-02')).toBeNull();
+  });
+});
+
+describe('planCarryOver', () => {
+  it('fills free positions in order and reports what does not fit', () => {
+    const candidates = [
+      makeTodo({ id: 'a', position: 3 }),
+      makeTodo({ id: 'b', position: 1 }),
+    ];
+    const target = [
+      makeTodo({ id: 't1', todo_date: '2025-06-03', position: 1 }),
+      makeTodo({ id: 't3', todo_date: '2025-06-03', position: 3 }),
+    ];
+
+    const plan = planCarryOver(candidates, target);
+    expect(plan.moves).toEqual([{ todo: candidates[1], position: 2 }]);
+    expect(plan.leftover).toEqual([candidates[0]]);
+  });
+});
+
+describe('carryOverTodos', () => {
+  beforeEach(() => {
+    mockSupabase._resetChain();
+    mockSupabase.rpc.mockClear();
+  });
+
+  it('copies unfinished todos forward and marks the originals', async () => {
+    chain._mockResolvedValue = {
+      data: [
+        makeTodo({ id: 'a', todo_date: '2025-06-01', position: 1, carry_count: 1 }),
+        makeTodo({ id: 'b', todo_date: '2025-06-01', position: 2, is_completed: true }),
+        makeTodo({ id: 't1', todo_date: '2025-06-02', position: 1, text: 'Gym' }),
+      ],
+      error: null,
+    };
+
+    mockSupabase.rpc.mockResolvedValueOnce({ data: 1, error: null });
+
+    await expect(carryOverTodos('user-1', '2025-06-01', '2025-06-02')).resolves.toEqual({
+      carried: 1,
+      leftover: 0,
+    });
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('carry_over_todos', {
+      carry_user_id: 'user-1',
+      target_date: '2025-06-02',
+      moves: [{ id: 'a', position: 2 }],
+    });
+    expect(chain.insert).not.toHaveBeenCalled();
+    expect(chain.update).not.toHaveBeenCalled();
+  });
+
+  it('reports only the todos the server actually carried', async () => {
+    chain._mockResolvedValue = {
+      data: [
+        makeTodo({ id: 'a', todo_date: '2025-06-01', position: 1 }),
+        makeTodo({ id: 'b', todo_date: '2025-06-01', position: 2 }),
+      ],
+      error: null,
+    };
+    // Another device carried one of them in the meantime
+    mockSupabase.rpc.mockResolvedValueOnce({ data: 1, error: null });
+
+    await expect(carryOverTodos('user-1', '2025-06-01', '2025-06-02')).resolves.toEqual({
+      carried: 1,
+      leftover: 0,
+    });
+  });
+
+  it('writes nothing when the day is already full', async () => {
+    chain._mockResolvedValue = {
+      data: [
+        makeTodo({ id: 'a', todo_date: '2025-06-01' }),
+        ...[1, 2, 3].map((position) =>
+          makeTodo({ id: `t${position}`, todo_date: '2025-06-02', position })
+        ),
+      ],
+      error: null,
+    };
+
+    await expect(carryOverTodos('user-1', '2025-06-01', '2025-06-02')).resolves.toEqual({
+      carried: 0,
+      leftover: 1,
+    });
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('computeCarryOverStats', () => {
+  it('counts carried todos overall, per week and by item', () => {
+    const todos = [
+      // Week of May 25
+      makeTodo({ id: 'a', todo_date: '2025-05-30', carried_to_date: '2025-05-31' }),
+      makeTodo({ id: 'b', todo_date: '2025-05-31', carry_count: 1, carried_to_date: '2025-06-01' }),
+      makeTodo({ id: 'c', todo_date: '2025-05-31', text: 'Gym', is_completed: true }),
+      // Week of Jun 1
+      makeTodo({ id: 'd', todo_date: '2025-06-01', carry_count: 2 }),
+      makeTodo({ id: 'e', todo_date: '2025-06-02', text: 'Call mom', carry_count: 1 }),
+    ];
+
+    const stats = computeCarryOverStats(todos, '2025-06-02', 2);
+    expect(stats.total).toBe(5);
+    expect(stats.carriedOver).toBe(2);
+    expect(stats.carryRate).toBe(40);
+    expect(stats.weekly).toEqual([
+      { weekStart: '2025-05-25', total: 3, carriedOver: 2 },
+      { weekStart: '2025-06-01', total: 2, carriedOver: 0 },
+    ]);
+    expect(stats.mostCarried.map((t) => t.id)).toEqual(['d', 'e']);
+  });
+});
@@ -15,21 +15,36 @@ export const EVENTS = {
   HABIT_UNCOMPLETED: 'habit_uncompleted',
   HABIT_SNOOZED: 'habit_snoozed',
   HABIT_UNSNOOZED: 'habit_unsnoozed',
+  HABIT_SLIP_LOGGED: 'habit_slip_logged',
+  STREAK_FREEZE_USED: 'streak_freeze_used',
+  ROUTINE_CREATED: 'routine_created',
+  ROUTINE_COMPLETED: 'routine_completed',
   GOAL_CREATED: 'goal_created',
   GOAL_DELETED: 'goal_deleted',
   GOAL_ENTRY_ADDED: 'goal_entry_added',
+  GOAL_MILESTONE_REACHED: 'goal_milestone_reached',
+  GOAL_STATUS_CHANGED: 'goal_status_changed',
+  GOAL_RESTARTED: 'goal_restarted',
+  GOAL_ENTRIES_IMPORTED: 'goal_entries_imported',
   HEALTH_CONNECTED: 'health_connected',
   HEALTH_PERMISSIONS_REQUESTED: 'health_permissions_requested',
   TODO_CREATED: 'todo_created',
   TODO_COMPLETED: 'todo_completed',
   TODO_UNCOMPLETED: 'todo_uncompleted',
   TODO_DELETED: 'todo_deleted',
+  TODOS_CARRIED_OVER: 'todos_carried_over',
   TOP3_TODOS_TOGGLED: 'top3_todos_toggled',
   JOURNAL_SUBMITTED: 'journal_submitted',
   JOURNAL_TOGGLED: 'journal_toggled',
+  JOURNAL_TEMPLATE_CREATED: 'journal_template_created',
+  JOURNAL_REFLECTION_GENERATED: 'journal_reflection_generated',
+  JOURNAL_REFLECTION_FAILED: 'journal_reflection_failed',
   NOTIFICATION_OPENED: 'notification_opened',
+  NOTIFICATION_ACTION_TAKEN: 'notification_action_taken',
   NOTIFICATIONS_TOGGLED: 'notifications_toggled',
+  REMINDER_SCHEDULE_UPDATED: 'reminder_schedule_updated',
   SCREEN_VIEWED: 'screen_viewed',
+  SEARCH_RESULT_OPENED: 'search_result_opened',
   AVATAR_UPLOADED: 'avatar_uploaded',
   PROFILE_UPDATED: 'profile_updated',
   RECAP_GENERATED: 'recap_generated',
@@ -81,6 +96,7 @@ type EventPropertiesMap = {
     has_specific_days: boolean;
     auto_complete: boolean;
     metric_type: string | null;
+    habit_type?: 'build' | 'avoid';
   };
   habit_updated: {
     habit_id: string;
@@ -108,6 +124,25 @@ type EventPropertiesMap = {
     habit_id: string;
     habit_name?: string;
   };
+  habit_slip_logged: {
+    habit_id: string;
+    habit_name?: string;
+  };
+  streak_freeze_used: {
+    habit_id: string;
+    habit_name?: string;
+    streak_unit: string;
+  };
+  routine_created: {
+    routine_name: string;
+    step_count: number;
+  };
+  routine_completed: {
+    routine_id: string;
+    routine_name: string;
+    step_count: number;
+    guided: boolean;
+  };
   goal_created: {
     goal_type: string;
     target_value: number;
@@ -124,9 +159,32 @@ type EventPropertiesMap = {
     goal_type?: string;
     value: number;
   };
+  goal_milestone_reached: {
+    goal_id: string;
+    goal_type: string;
+    milestone_percent: number;
+    is_auto: boolean;
+    reached_on: string;
+  };
+  goal_status_changed: {
+    goal_id: string;
+    goal_type?: string;
+    status: string;
+  };
+  goal_restarted: {
+    goal_id: string;
+    goal_type: string;
+  };
+  goal_entries_imported: {
+    goal_id: string;
+    goal_type: string;
+    source: 'form' | 'csv';
+    entry_count: number;
+  };
   todo_created: {
     position: number;
     day_of_week: number;
+    for_tomorrow: boolean;
   };
   todo_completed: {
     todo_id: string;
@@ -139,22 +197,49 @@ type EventPropertiesMap = {
   todo_deleted: {
     todo_id: string;
   };
+  todos_carried_over: {
+    carried: number;
+    leftover: number;
+    automatic: boolean;
+  };
   top3_todos_toggled: {
     enabled: boolean;
   };
   journal_submitted: {
     is_edit: boolean;
     date: string;
+    template_id: string | null;
+    has_mood: boolean;
   };
   journal_toggled: {
     enabled: boolean;
   };
+  journal_template_created: {
+    prompt_count: number;
+    rotating: boolean;
+  };
+  journal_reflection_generated: {
+    scope: 'entry' | 'range';
+    entry_count: number;
+    generation_time_ms: number;
+  };
+  journal_reflection_failed: {
+    scope: 'entry' | 'range';
+    error_type: string;
+  };
   notification_opened: {
     reminder_id: string;
   };
+  notification_action_taken: {
+    action: 'done' | 'snooze';
+    result: 'completed' | 'already_completed' | 'snoozed' | 'ignored';
+  };
   notifications_toggled: {
     enabled: boolean;
   };
+  reminder_schedule_updated: {
+    fields_changed: string[];
+  };
   health_connected: undefined;
   health_permissions_requested: {
     metrics: string[];
@@ -162,6 +247,10 @@ type EventPropertiesMap = {
   screen_viewed: {
     screen_name: string;
   };
+  search_result_opened: {
+    kind: 'journal' | 'todo' | 'recap';
+    position: number;
+  };
   avatar_uploaded: undefined;
   profile_updated: undefined;
   recap_generated: {
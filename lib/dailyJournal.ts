@@ -1,5 +1,5 @@
 import { supabase } from './supabase';
-import { DailyJournalEntry } from './types';
+import { DailyJournalEntry, JournalAnswer, JournalPrompt, JournalRatings, JournalTemplate } from './types';
 
 export async function getJournalForDate(
   date: string
@@ -32,9 +32,10 @@ export async function getJournalForDateRange(
 export async function upsertJournalEntry(
   userId: string,
   date: string,
-  win: string,
-  tension: string,
-  gratitude: string
+  templateId: string | null,
+  answers: JournalAnswer[],
+  // Omitted by writes queued before ratings existed, leaving any saved ones alone
+  ratings?: JournalRatings
 ): Promise<DailyJournalEntry> {
   const { data, error } = await supabase
     .from('daily_journal_entries')
@@ -42,9 +43,9 @@ export async function upsertJournalEntry(
       {
         user_id: userId,
         journal_date: date,
-        win,
-        tension,
-        gratitude,
+        template_id: templateId,
+        answers,
+        ...ratings,
       },
       { onConflict: 'user_id,journal_date' }
     )
@@ -63,3 +64,66 @@ export async function deleteJournalEntry(entryId: string): Promise<void> {
 
   if (error) throw error;
 }
+
+// ──────────────────────────────────────────────
+// Templates
+// ──────────────────────────────────────────────
+
+// Built-in templates (no user_id) and the user's own
+export async function getJournalTemplates(): Promise<JournalTemplate[]> {
+  const { data, error } = await supabase
+    .from('journal_templates')
+    .select('*')
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export type JournalTemplateInput = {
+  name: string;
+  emoji: string;
+  prompts: JournalPrompt[];
+  prompts_per_day: number | null;
+};
+
+export async function createJournalTemplate(
+  userId: string,
+  template: JournalTemplateInput & { sort_order: number }
+): Promise<JournalTemplate> {
+  const { data, error } = await supabase
+    .from('journal_templates')
+    .insert({ user_id: userId, ...template })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateJournalTemplate(
+  id: string,
+  updates: Partial<JournalTemplateInput>
+): Promise<JournalTemplate> {
+  const { data, error } = await supabase
+    .from('journal_templates')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Soft delete so past entries keep their template_id
+export async function deleteJournalTemplate(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('journal_templates')
+    .update({ is_active: false })
+    .eq('id', id);
+
+  if (error) throw error;
+}
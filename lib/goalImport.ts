@@ -0,0 +1,258 @@
+import { isDurationUnit, parseDuration } from './goalMath';
+import type { GoalEntry } from './types';
+
+// Parsing and validation for backfilling manual goal entries, either from the
+// bulk form or from pasted CSV. Nothing here touches the database: the result
+// is previewed first (a dry run) and then upserted by importGoalEntries.
+
+export const MAX_GOAL_ENTRY_NOTE_LENGTH = 280;
+
+// Entries older than this are almost certainly a mistyped year
+const MAX_BACKFILL_YEARS = 10;
+
+export interface GoalEntryDraft {
+  date: string; // YYYY-MM-DD
+  value: number;
+  note: string | null;
+}
+
+export interface GoalImportIssue {
+  line: number; // 1-based line (or form row) the issue was found on
+  message: string;
+}
+
+export interface ParsedGoalEntries {
+  entries: GoalEntryDraft[]; // valid rows, one per date, sorted by date
+  errors: GoalImportIssue[]; // rows that were skipped
+  warnings: GoalImportIssue[]; // rows that were kept, but worth a look
+}
+
+export interface GoalImportPlan {
+  added: GoalEntryDraft[]; // dates with no entry yet
+  updated: Array<GoalEntryDraft & { previousValue: number }>; // dates whose value or note changes
+  unchanged: GoalEntryDraft[]; // identical to what's already stored
+}
+
+interface ParseOptions {
+  unit?: string; // time goals ('seconds') may be written as 24:30 or 1:45:00
+  today?: string; // YYYY-MM-DD; dates after it are rejected
+}
+
+/**
+ * Parse a date written as YYYY-MM-DD, YYYY/MM/DD or M/D/YYYY (US order, as
+ * spreadsheets export it). Returns YYYY-MM-DD or null if it isn't a real date.
+ */
+export function parseEntryDate(text: string): string | null {
+  const trimmed = text.trim();
+  let year: number, month: number, day: number;
+
+  let match = trimmed.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (!match) return null;
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a value such as "182.4", "1,250" or, for time goals, "24:30" or
+ * "1:45:00.5" (stored as seconds). Returns null if it isn't a number.
+ */
+export function parseEntryValue(text: string, unit?: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (isDurationUnit(unit)) return parseDuration(trimmed);
+
+  const normalized = trimmed.replace(/,(?=\d{3}(\D|$))/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+/**
+ * Validate entries typed into the bulk backfill form. Rows left completely
+ * empty are ignored; `line` in issues is the 1-based form row.
+ */
+export function parseGoalEntryRows(
+  rows: Array<{ date: string; value: string; note?: string }>,
+  options: ParseOptions = {}
+): ParsedGoalEntries {
+  const collector = createCollector(options);
+  rows.forEach((row, index) => {
+    if (!row.date.trim() && !row.value.trim() && !row.note?.trim()) return;
+    collector.add(index + 1, row.date, row.value, row.note ?? '');
+  });
+  return collector.result();
+}
+
+/**
+ * Parse pasted CSV of date,value[,note] rows. A header row is optional; when
+ * present its "date", "value" and "note" columns may come in any order.
+ * Commas, semicolons and tabs are accepted as separators, and quoted fields
+ * may contain them. A date that appears twice keeps its last row.
+ */
+export function parseGoalEntriesCsv(text: string, options: ParseOptions = {}): ParsedGoalEntries {
+  const lines = text.split(/\r?\n/);
+  const delimiter = detectDelimiter(lines.find((l) => l.trim()) ?? '');
+  const collector = createCollector(options);
+
+  let columns = { date: 0, value: 1, note: 2 };
+  let headerChecked = false;
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const fields = splitCsvLine(line, delimiter);
+
+    if (!headerChecked) {
+      headerChecked = true;
+      const header = fields.map((f) => f.trim().toLowerCase());
+      if (parseEntryDate(fields[0] ?? '') === null && header.some((h) => h.includes('date'))) {
+        const find = (names: string[]) => header.findIndex((h) => names.some((n) => h.includes(n)));
+        columns = {
+          date: find(['date']),
+          value: find(['value', 'amount', 'weight', 'time', 'total']),
+          note: find(['note', 'comment']),
+        };
+        if (columns.value === -1) columns.value = columns.date === 0 ? 1 : 0;
+        return;
+      }
+    }
+
+    collector.add(
+      index + 1,
+      fields[columns.date] ?? '',
+      fields[columns.value] ?? '',
+      columns.note >= 0 ? fields[columns.note] ?? '' : ''
+    );
+  });
+
+  return collector.result();
+}
+
+/**
+ * Dry run of an import against the goal's existing entries: which dates are
+ * new, which would be overwritten (and from what), and which already match.
+ */
+export function planGoalEntryImport(
+  drafts: GoalEntryDraft[],
+  existing: Array<Pick<GoalEntry, 'recorded_date' | 'value' | 'note'>>
+): GoalImportPlan {
+  const byDate = new Map(existing.map((e) => [e.recorded_date, e]));
+  const plan: GoalImportPlan = { added: [], updated: [], unchanged: [] };
+
+  for (const draft of drafts) {
+    const current = byDate.get(draft.date);
+    if (!current) {
+      plan.added.push(draft);
+    } else if (Number(current.value) === draft.value && (current.note ?? null) === draft.note) {
+      plan.unchanged.push(draft);
+    } else {
+      plan.updated.push({ ...draft, previousValue: Number(current.value) });
+    }
+  }
+  return plan;
+}
+
+// ── Helpers ────────────────────────────────────
+
+function createCollector({ unit, today = formatDateLocal(new Date()) }: ParseOptions) {
+  const byDate = new Map<string, { entry: GoalEntryDraft; line: number }>();
+  const errors: GoalImportIssue[] = [];
+  const warnings: GoalImportIssue[] = [];
+
+  const earliest = new Date(today + 'T12:00:00');
+  earliest.setFullYear(earliest.getFullYear() - MAX_BACKFILL_YEARS);
+  const earliestDate = formatDateLocal(earliest);
+
+  return {
+    add(line: number, dateText: string, valueText: string, noteText: string) {
+      const date = parseEntryDate(dateText);
+      if (!date) {
+        errors.push({ line, message: `"${dateText.trim()}" isn't a date (use YYYY-MM-DD or MM/DD/YYYY)` });
+        return;
+      }
+      if (date > today) {
+        errors.push({ line, message: `${date} is in the future` });
+        return;
+      }
+      if (date < earliestDate) {
+        errors.push({ line, message: `${date} is more than ${MAX_BACKFILL_YEARS} years ago` });
+        return;
+      }
+
+      const value = parseEntryValue(valueText, unit);
+      if (value === null) {
+        errors.push({ line, message: `"${valueText.trim()}" isn't a number` });
+        return;
+      }
+
+      let note: string | null = noteText.trim() || null;
+      if (note && note.length > MAX_GOAL_ENTRY_NOTE_LENGTH) {
+        note = note.slice(0, MAX_GOAL_ENTRY_NOTE_LENGTH);
+        warnings.push({ line, message: `Note shortened to ${MAX_GOAL_ENTRY_NOTE_LENGTH} characters` });
+      }
+
+      const previous = byDate.get(date);
+      if (previous) {
+        warnings.push({ line, message: `${date} also appears on line ${previous.line}; this row is used` });
+      }
+      byDate.set(date, { entry: { date, value, note }, line });
+    },
+    result(): ParsedGoalEntries {
+      const entries = [...byDate.values()]
+        .map((v) => v.entry)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      return { entries, errors, warnings };
+    },
+  };
+}
+
+function detectDelimiter(line: string): string {
+  if (line.includes('\t')) return '\t';
+  if (line.includes(';') && !line.includes(',')) return ';';
+  return ',';
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function formatDateLocal(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -1,5 +1,5 @@
 import { MetricDataPoint } from './health';
-import { Goal } from './types';
+import { Goal, GoalMilestoneDefinition, LiftSet } from './types';
 
 // ──────────────────────────────────────────────
 // Linear Regression
@@ -188,14 +188,17 @@ export function computeProjection(
 
 /**
  * Estimate when the trend line will reach the target value.
- * Returns a date string or null if unreachable / moving away.
+ * Accepts any fit (plain, weighted or robust). Returns a date string or null
+ * if unreachable / moving away, or while `plateau` says progress has stalled.
  */
 export function estimateCompletionDate(
   data: MetricDataPoint[],
-  regression: RegressionResult,
-  targetValue: number
+  regression: Pick<RegressionResult, 'slope' | 'intercept'>,
+  targetValue: number,
+  plateau?: PlateauResult | null
 ): string | null {
   if (data.length < 2) return null;
+  if (plateau?.isPlateau) return null;
 
   const { slope, intercept } = regression;
   if (slope === 0) return null;
@@ -335,6 +338,438 @@ export function computeProgressPercent(
   return Math.max(0, Math.min(100, Math.round(percent)));
 }
 
+// ──────────────────────────────────────────────
+// Cumulative Goals
+// ──────────────────────────────────────────────
+
+// Cumulative goals ("run 500 miles this year") add each entry to a running
+// total over the period from start_date to target_date, instead of treating
+// the latest entry as the current level.
+export function isCumulativeGoal(goal: Pick<Goal, 'goal_type'>): boolean {
+  return goal.goal_type === 'cumulative';
+}
+
+/**
+ * Turn per-day amounts into a running total, one point per day with an entry.
+ * Entries outside [startDate, endDate] don't count toward the total.
+ */
+export function computeCumulativeTotals(
+  entries: MetricDataPoint[],
+  startDate: string,
+  endDate?: string | null
+): MetricDataPoint[] {
+  const byDate = new Map<string, number>();
+  for (const e of entries) {
+    if (e.date < startDate || (endDate && e.date > endDate)) continue;
+    byDate.set(e.date, (byDate.get(e.date) ?? 0) + e.value);
+  }
+
+  let total = 0;
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, amount]) => {
+      total += amount;
+      return { date, value: Math.round(total * 100) / 100 };
+    });
+}
+
+/**
+ * Where an even pace from start_date to target_date puts the total on
+ * `referenceDate`. Null without a target date.
+ */
+export function computeExpectedToDate(
+  goal: Goal,
+  referenceDate: string = formatDateLocal(new Date())
+): number | null {
+  if (!goal.target_date) return null;
+  const start = goal.start_date.split('T')[0];
+  const end = goal.target_date.split('T')[0];
+  const totalDays = daysBetween(start, end) + 1;
+  if (totalDays <= 0) return null;
+  const elapsedDays = Math.min(totalDays, Math.max(0, daysBetween(start, referenceDate) + 1));
+  return Math.round(goal.target_value * (elapsedDays / totalDays) * 10) / 10;
+}
+
+export interface CumulativePace {
+  total: number;
+  expectedToDate: number | null; // null without a target date
+  difference: number | null; // total − expected; positive means ahead of pace
+  dailyRate: number; // average accumulated per day so far
+  requiredDailyRate: number | null; // needed per day for the rest of the period
+  projectedTotal: number | null; // at the target date if the current rate holds
+  projectedCompletionDate: string | null; // when the total reaches the target
+}
+
+/**
+ * Pace of a cumulative goal: expected-to-date vs actual, plus a projection
+ * from the average accumulation rate since the start date.
+ */
+export function computeCumulativePace(
+  goal: Goal,
+  totals: MetricDataPoint[],
+  referenceDate: string = formatDateLocal(new Date())
+): CumulativePace {
+  const start = goal.start_date.split('T')[0];
+  const end = goal.target_date ? goal.target_date.split('T')[0] : null;
+  const asOf = end && referenceDate > end ? end : referenceDate;
+  const reached = totals.filter((p) => p.date <= asOf);
+  const total = reached.length > 0 ? reached[reached.length - 1].value : 0;
+
+  const elapsedDays = Math.max(1, daysBetween(start, asOf) + 1);
+  const dailyRate = total / elapsedDays;
+  const remainingDays = end ? Math.max(0, daysBetween(asOf, end)) : null;
+  const remaining = Math.max(0, goal.target_value - total);
+
+  const expectedToDate = computeExpectedToDate(goal, asOf);
+
+  let projectedCompletionDate: string | null = null;
+  const firstReached = totals.find((p) => p.value >= goal.target_value);
+  if (firstReached) {
+    projectedCompletionDate = firstReached.date;
+  } else if (dailyRate > 0) {
+    const daysNeeded = Math.ceil(remaining / dailyRate);
+    if (daysNeeded <= 730) projectedCompletionDate = addDaysLocal(asOf, daysNeeded);
+  }
+
+  return {
+    total,
+    expectedToDate,
+    difference: expectedToDate !== null ? Math.round((total - expectedToDate) * 10) / 10 : null,
+    dailyRate,
+    requiredDailyRate:
+      remainingDays === null ? null : remainingDays > 0 ? remaining / remainingDays : null,
+    projectedTotal:
+      remainingDays === null ? null : Math.round((total + dailyRate * remainingDays) * 10) / 10,
+    projectedCompletionDate,
+  };
+}
+
+/**
+ * Project a cumulative total forward at its average daily rate, through the
+ * target date (or `futureDays` without one). The band widens with the
+ * day-to-day variability of the amounts logged, and never dips below the
+ * total already reached.
+ */
+export function computeCumulativeProjection(
+  goal: Goal,
+  totals: MetricDataPoint[],
+  referenceDate: string = formatDateLocal(new Date()),
+  futureDays: number = 90,
+  confidenceMultiplier: number = 1.96
+): ProjectionPoint[] {
+  const start = goal.start_date.split('T')[0];
+  const end = goal.target_date ? goal.target_date.split('T')[0] : null;
+  if (end && referenceDate >= end) return [];
+
+  const pace = computeCumulativePace(goal, totals, referenceDate);
+  if (pace.dailyRate <= 0) return [];
+
+  // Daily amounts since the start, counting days without entries as zero
+  const elapsedDays = Math.max(1, daysBetween(start, referenceDate) + 1);
+  const amounts = new Array(elapsedDays).fill(0);
+  let previous = 0;
+  for (const p of totals) {
+    const index = daysBetween(start, p.date);
+    if (index < 0 || index >= elapsedDays) continue;
+    amounts[index] += p.value - previous;
+    previous = p.value;
+  }
+  const variance =
+    amounts.reduce((sum, a) => sum + (a - pace.dailyRate) ** 2, 0) / Math.max(1, elapsedDays - 1);
+  const dailySd = Math.sqrt(variance);
+
+  const horizon = end ? daysBetween(referenceDate, end) : futureDays;
+  const numPoints = Math.min(horizon, 120);
+  if (numPoints <= 0) return [];
+
+  const points: ProjectionPoint[] = [];
+  for (let i = 0; i <= numPoints; i++) {
+    const days = (i / numPoints) * horizon;
+    const predicted = pace.total + pace.dailyRate * days;
+    const interval = confidenceMultiplier * dailySd * Math.sqrt(days);
+    points.push({
+      date: addDaysLocal(referenceDate, Math.round(days)),
+      predicted: Math.round(predicted * 10) / 10,
+      upper: Math.round((predicted + interval) * 10) / 10,
+      lower: Math.round(Math.max(pace.total, predicted - interval) * 10) / 10,
+    });
+  }
+  return points;
+}
+
+// ──────────────────────────────────────────────
+// Strength Goals
+// ──────────────────────────────────────────────
+
+// Strength goals ("bench 225") are logged as sets of weight × reps. Each set
+// is converted to an estimated one-rep max, and the day's entry stores the
+// best of them.
+export function isStrengthGoal(goal: Pick<Goal, 'goal_type'>): boolean {
+  return goal.goal_type === 'strength_pr';
+}
+
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+// Rep-max formulas drift badly past ~12 reps, so longer sets aren't estimated
+export const MAX_ONE_REP_MAX_REPS = 12;
+
+/**
+ * Estimate a one-rep max from a set of `reps` at `weight`.
+ * Epley: w × (1 + r/30). Brzycki: w × 36 / (37 − r). A single is its own 1RM.
+ * Returns null for invalid sets or more than MAX_ONE_REP_MAX_REPS reps.
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = 'epley'
+): number | null {
+  if (!Number.isFinite(weight) || weight <= 0) return null;
+  if (!Number.isInteger(reps) || reps < 1 || reps > MAX_ONE_REP_MAX_REPS) return null;
+  if (reps === 1) return weight;
+
+  const estimate =
+    formula === 'brzycki' ? (weight * 36) / (37 - reps) : weight * (1 + reps / 30);
+  return Math.round(estimate * 10) / 10;
+}
+
+/** The set with the highest estimated 1RM, or null if none can be estimated. */
+export function bestOneRepMaxSet(
+  sets: LiftSet[],
+  formula: OneRepMaxFormula = 'epley'
+): { set: LiftSet; oneRepMax: number } | null {
+  let best: { set: LiftSet; oneRepMax: number } | null = null;
+  for (const set of sets) {
+    const oneRepMax = estimateOneRepMax(set.weight, set.reps, formula);
+    if (oneRepMax !== null && (!best || oneRepMax > best.oneRepMax)) {
+      best = { set, oneRepMax };
+    }
+  }
+  return best;
+}
+
+/**
+ * Best estimated 1RM to date: one point per session, carrying the personal
+ * record forward through sessions that didn't beat it.
+ */
+export function computeBestOneRepMaxHistory(history: MetricDataPoint[]): MetricDataPoint[] {
+  let best = -Infinity;
+  return [...history]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((p) => {
+      best = Math.max(best, p.value);
+      return { date: p.date, value: best };
+    });
+}
+
+/**
+ * When the target 1RM will be reached: the first session at or past it, or
+ * a projection from the outlier-resistant trend of session estimates. Null
+ * while the trend is flat or falling.
+ */
+export function estimateOneRepMaxTargetDate(
+  history: MetricDataPoint[],
+  targetValue: number,
+  plateau?: PlateauResult | null
+): string | null {
+  const sorted = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  const reached = sorted.find((p) => p.value >= targetValue);
+  if (reached) return reached.date;
+
+  const reg = robustLinearRegression(sorted);
+  if (!reg || reg.slope <= 0) return null;
+  return estimateCompletionDate(sorted, reg, targetValue, plateau);
+}
+
+// ──────────────────────────────────────────────
+// Time Goals
+// ──────────────────────────────────────────────
+
+// Time goals ("sub-20 5K") store durations in seconds, against the distance in
+// goal.distance_meters. A run at any other distance is converted to an
+// equivalent time at the goal's distance, so every race or workout counts.
+export const DURATION_UNIT = 'seconds';
+
+export function isDurationUnit(unit: string | null | undefined): boolean {
+  return unit === DURATION_UNIT;
+}
+
+export function isRunningGoal(goal: Pick<Goal, 'goal_type'>): boolean {
+  return goal.goal_type === 'running_pr';
+}
+
+export const METERS_PER_MILE = 1609.344;
+
+export const RUNNING_DISTANCES = [
+  { label: '1 Mile', meters: METERS_PER_MILE },
+  { label: '3 Miles', meters: 3 * METERS_PER_MILE },
+  { label: '5K', meters: 5000 },
+  { label: '10K', meters: 10000 },
+  { label: 'Half Marathon', meters: 21097.5 },
+  { label: 'Marathon', meters: 42195 },
+] as const;
+
+/** "5K" for a standard distance, otherwise kilometers ("12.5 km"). */
+export function formatRunningDistance(meters: number): string {
+  const standard = RUNNING_DISTANCES.find((d) => Math.abs(d.meters - meters) < 1);
+  if (standard) return standard.label;
+  return `${Math.round(meters / 10) / 100} km`;
+}
+
+// Riegel's fatigue exponent: each doubling of distance costs ~6% in pace
+export const RIEGEL_EXPONENT = 1.06;
+
+/**
+ * Equivalent time at `toMeters` for a run of `seconds` over `fromMeters`
+ * (Riegel: t2 = t1 × (d2 / d1)^1.06), to the tenth of a second. Most reliable
+ * between roughly 1 mile and the marathon.
+ */
+export function riegelEquivalentTime(
+  seconds: number,
+  fromMeters: number,
+  toMeters: number,
+  exponent: number = RIEGEL_EXPONENT
+): number | null {
+  if (!(seconds > 0) || !(fromMeters > 0) || !(toMeters > 0)) return null;
+  return Math.round(seconds * Math.pow(toMeters / fromMeters, exponent) * 10) / 10;
+}
+
+/**
+ * Format seconds as m:ss or h:mm:ss. Times under an hour keep tenths when
+ * they have them ("4:59.5"); longer ones round to the second.
+ */
+export function formatDuration(seconds: number): string {
+  const sign = seconds < 0 ? '-' : '';
+  const tenths = Math.round(Math.abs(seconds) * 10);
+  const showTenths = tenths % 10 !== 0 && tenths < 36000;
+  const whole = showTenths ? Math.floor(tenths / 10) : Math.round(tenths / 10);
+
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = String(whole % 60).padStart(2, '0') + (showTenths ? `.${tenths % 10}` : '');
+  return h > 0 ? `${sign}${h}:${String(m).padStart(2, '0')}:${s}` : `${sign}${m}:${s}`;
+}
+
+/**
+ * Parse "m:ss", "h:mm:ss" (either with fractional seconds, e.g. "4:59.52")
+ * or a plain number of seconds. Returns seconds to the hundredth, or null.
+ */
+export function parseDuration(text: string): number | null {
+  const trimmed = text.trim();
+  let total: number;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    total = Number(trimmed);
+  } else {
+    const match = trimmed.match(/^(?:(\d+):)?(\d+):(\d{2}(?:\.\d+)?)$/);
+    if (!match) return null;
+    const [hours, minutes, secs] = [Number(match[1] ?? 0), Number(match[2]), Number(match[3])];
+    if (secs >= 60 || (match[1] !== undefined && minutes >= 60)) return null;
+    total = hours * 3600 + minutes * 60 + secs;
+  }
+
+  return total > 0 ? Math.round(total * 100) / 100 : null;
+}
+
+/** Pace for a run as "7:04 /mi" or "4:23 /km". */
+export function formatPace(seconds: number, meters: number, per: 'mi' | 'km'): string {
+  const perMeters = per === 'mi' ? METERS_PER_MILE : 1000;
+  return `${formatDuration(Math.round((seconds / meters) * perMeters))} /${per}`;
+}
+
+/**
+ * Time goals count as reached at the first run at or under the target, and
+ * otherwise project from the trend of equivalent times.
+ */
+export function estimateTimeTargetDate(
+  history: MetricDataPoint[],
+  targetValue: number,
+  plateau?: PlateauResult | null
+): string | null {
+  const sorted = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  const reached = sorted.find((p) => p.value <= targetValue);
+  if (reached) return reached.date;
+
+  const reg = robustLinearRegression(sorted);
+  if (!reg || reg.slope >= 0) return null;
+  return estimateCompletionDate(sorted, reg, targetValue, plateau);
+}
+
+// ──────────────────────────────────────────────
+// Milestones
+// ──────────────────────────────────────────────
+
+export const AUTO_MILESTONE_PERCENTS = [25, 50, 75, 100] as const;
+
+export interface GoalMilestone {
+  id: string; // stable per definition, e.g. "auto-50" or "custom-199.9"
+  label: string;
+  value: number;
+  percent: number; // share of the way from start to target, 0-100
+  isAuto: boolean;
+  reachedOn: string | null; // YYYY-MM-DD of the first data point at or past the value
+}
+
+/**
+ * Build a goal's milestones and detect when each was first reached.
+ * Auto milestones sit every 25% from start to target; user-defined ones are
+ * added alongside. A milestone stays reached even if the value later slips
+ * back. Without a start value the first data point stands in for it.
+ */
+export function computeGoalMilestones(
+  goal: Goal,
+  history: MetricDataPoint[] = []
+): GoalMilestone[] {
+  const goalStart = goal.start_date.split('T')[0];
+  const points = history
+    .filter((p) => p.date >= goalStart)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const startValue = goal.start_value ?? points[0]?.value ?? null;
+  if (startValue === null) return [];
+  const direction = Math.sign(goal.target_value - startValue);
+  if (direction === 0) return [];
+
+  const definitions: Array<Omit<GoalMilestone, 'reachedOn'>> = [];
+
+  if (goal.auto_milestones !== false) {
+    for (const percent of AUTO_MILESTONE_PERCENTS) {
+      const value = Math.round((startValue + (goal.target_value - startValue) * (percent / 100)) * 10) / 10;
+      definitions.push({
+        id: `auto-${percent}`,
+        label: percent === 100 ? 'Goal reached' : `${percent}% of the way`,
+        value: percent === 100 ? goal.target_value : value,
+        percent,
+        isAuto: true,
+      });
+    }
+  }
+
+  for (const custom of goal.milestones ?? []) {
+    if (!isValidMilestone(custom)) continue;
+    definitions.push({
+      id: `custom-${custom.value}`,
+      label: custom.label.trim() || `${custom.value}`,
+      value: custom.value,
+      percent: computeProgressPercent(startValue, custom.value, goal.target_value),
+      isAuto: false,
+    });
+  }
+
+  const isPast = (value: number, milestone: number) =>
+    direction < 0 ? value <= milestone : value >= milestone;
+
+  return definitions
+    .map((m) => ({
+      ...m,
+      reachedOn: points.find((p) => isPast(p.value, m.value))?.date ?? null,
+    }))
+    .sort((a, b) => a.percent - b.percent || direction * (a.value - b.value));
+}
+
+function isValidMilestone(m: GoalMilestoneDefinition | null | undefined): m is GoalMilestoneDefinition {
+  return !!m && typeof m.label === 'string' && typeof m.value === 'number' && Number.isFinite(m.value);
+}
+
 // ──────────────────────────────────────────────
 // Exponential Weighted Least Squares (recency-biased)
 // ──────────────────────────────────────────────
@@ -365,22 +800,35 @@ export function weightedLinearRegression(
 ): WeightedRegressionResult | null {
   if (data.length < 2) return null;
 
+  return fitWeightedPoints(recencyWeightedPoints(data, halfLifeDays));
+}
+
+interface WeightedPoint {
+  x: number; // days since the first data point
+  y: number;
+  w: number;
+}
+
+function recencyWeightedPoints(data: MetricDataPoint[], halfLifeDays: number): WeightedPoint[] {
   const baseDate = new Date(data[0].date).getTime();
   const msPerDay = 86400000;
   const lambda = Math.LN2 / halfLifeDays;
   const lastDate = new Date(data[data.length - 1].date).getTime();
 
-  const points = data.map((d) => {
+  return data.map((d) => {
     const dateMs = new Date(d.date).getTime();
     const x = (dateMs - baseDate) / msPerDay;
     const age = (lastDate - dateMs) / msPerDay; // days before most recent
     const w = Math.exp(-lambda * age);
     return { x, y: d.value, w };
   });
+}
 
+function fitWeightedPoints(points: WeightedPoint[]): WeightedRegressionResult | null {
   // Total weight & effective sample size
   const W = points.reduce((s, p) => s + p.w, 0);
   const W2 = points.reduce((s, p) => s + p.w * p.w, 0);
+  if (W === 0) return null;
   const nEff = (W * W) / W2;
   if (nEff < 2) return null;
 
@@ -543,10 +991,354 @@ export function weightedDaysToTarget(
   return Math.ceil(futureDays);
 }
 
+// ──────────────────────────────────────────────
+// Robust Trend (outliers, smoothing, plateaus)
+// ──────────────────────────────────────────────
+
+export interface RobustRegressionResult extends WeightedRegressionResult {
+  outlierDates: string[]; // readings ignored by the fit, e.g. a mis-entered value
+}
+
+const HUBER_K = 1.345; // keeps ~95% efficiency on clean, normally distributed data
+const OUTLIER_CUTOFF = 3.5; // robust z-score beyond which a reading is ignored
+const MIN_ROBUST_POINTS = 4;
+const MAX_IRLS_ITERATIONS = 20;
+
+/**
+ * Recency-weighted regression that resists outliers (Huber IRLS).
+ * Residuals are scaled by their median absolute deviation; large ones get
+ * proportionally less weight and readings beyond 3.5 robust standard
+ * deviations are dropped, so one water-weight spike or typo no longer drags
+ * the projection. The result works wherever a WeightedRegressionResult does.
+ */
+export function robustLinearRegression(
+  data: MetricDataPoint[],
+  halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS
+): RobustRegressionResult | null {
+  if (data.length < 2) return null;
+
+  const points = recencyWeightedPoints(data, halfLifeDays);
+  let fit = fitWeightedPoints(points);
+  if (!fit) return null;
+  if (data.length < MIN_ROBUST_POINTS) return { ...fit, outlierDates: [] };
+
+  let robustWeights = points.map(() => 1);
+  for (let iter = 0; iter < MAX_IRLS_ITERATIONS; iter++) {
+    const current: WeightedRegressionResult = fit;
+    const residuals = points.map((p) => p.y - (current.slope * p.x + current.intercept));
+    const absResiduals = residuals.map(Math.abs);
+    // MAD is 0 when most points sit exactly on the line; fall back to the mean
+    const scale =
+      1.4826 * median(absResiduals) ||
+      1.2533 * (absResiduals.reduce((sum, r) => sum + r, 0) / absResiduals.length);
+    if (scale === 0) break;
+
+    const weights = residuals.map((r) => {
+      const z = Math.abs(r) / scale;
+      if (z > OUTLIER_CUTOFF) return 0;
+      return z <= HUBER_K ? 1 : HUBER_K / z;
+    });
+    const next = fitWeightedPoints(points.map((p, i) => ({ ...p, w: p.w * weights[i] })));
+    if (!next) break;
+
+    const converged =
+      Math.abs(next.slope - current.slope) < 1e-9 &&
+      Math.abs(next.intercept - current.intercept) < 1e-9;
+    fit = next;
+    robustWeights = weights;
+    if (converged) break;
+  }
+
+  return {
+    ...fit,
+    outlierDates: data.filter((_, i) => robustWeights[i] === 0).map((d) => d.date),
+  };
+}
+
+/**
+ * Exponentially smoothed trend line, like the "trend weight" weight-tracking
+ * apps draw through noisy daily readings. Each reading pulls the trend
+ * `smoothing` of the way toward it per day elapsed since the previous one.
+ * Readings on `excludeDates` (e.g. outliers from robustLinearRegression) are skipped.
+ */
+export function computeSmoothedTrend(
+  data: MetricDataPoint[],
+  smoothing: number = 0.1,
+  excludeDates: string[] = []
+): TrajectoryPoint[] {
+  const excluded = new Set(excludeDates);
+  const points = data.filter((d) => !excluded.has(d.date));
+  if (points.length === 0) return [];
+
+  const msPerDay = 86400000;
+  let trend = points[0].value;
+  let prevMs = new Date(points[0].date).getTime();
+
+  return points.map((p, i) => {
+    const ms = new Date(p.date).getTime();
+    if (i > 0) {
+      const days = Math.max(1, (ms - prevMs) / msPerDay);
+      const alpha = 1 - (1 - smoothing) ** days;
+      trend += alpha * (p.value - trend);
+      prevMs = ms;
+    }
+    return { date: p.date, value: Math.round(trend * 10) / 10 };
+  });
+}
+
+export interface PlateauResult {
+  isPlateau: boolean;
+  weeks: number; // whole weeks the trend has been flat, 0 when not on a plateau
+  since: string | null; // first reading of the flat stretch
+  weeklyChange: number; // fitted change per week over the most recent window
+}
+
+export const DEFAULT_PLATEAU_WEEKS = 3;
+const MIN_PLATEAU_POINTS = 4;
+const MAX_PLATEAU_WEEKS = 52;
+const MAX_PLATEAU_OUTLIER_SHARE = 0.1;
+
+/**
+ * Flag a plateau when the last `minWeeks` weeks of readings are statistically
+ * flat: the 95% confidence interval of the robust weekly slope lies within
+ * ±`tolerance` per week (default 0.2% of the recent average, about 0.4 lb/week
+ * at 200 lb). A flat stretch is extended back a week at a time to report how
+ * long it has lasted. Noisy or sparse data is never called a plateau.
+ */
+export function detectPlateau(
+  data: MetricDataPoint[],
+  minWeeks: number = DEFAULT_PLATEAU_WEEKS,
+  tolerance?: number
+): PlateauResult {
+  const sorted = [...data].sort((a, b) => a.date.localeCompare(b.date));
+  const notPlateau = (weeklyChange: number): PlateauResult => ({
+    isPlateau: false,
+    weeks: 0,
+    since: null,
+    weeklyChange,
+  });
+  if (sorted.length < MIN_PLATEAU_POINTS) return notPlateau(0);
+
+  const msPerDay = 86400000;
+  const firstMs = new Date(sorted[0].date).getTime();
+  const lastMs = new Date(sorted[sorted.length - 1].date).getTime();
+
+  // Returns the fit for the trailing window, or null if data doesn't cover it
+  const checkWindow = (weeks: number) => {
+    const windowStartMs = lastMs - weeks * 7 * msPerDay;
+    if (firstMs > windowStartMs + 3.5 * msPerDay) return null;
+    const window = sorted.filter((d) => new Date(d.date).getTime() > windowStartMs);
+    if (window.length < MIN_PLATEAU_POINTS) return null;
+
+    const fit = robustLinearRegression(window, Infinity);
+    if (!fit) return null;
+    const weeklyChange = fit.slope * 7;
+    const weeklyInterval = 1.96 * (fit.standardError / Math.sqrt(fit.sumWeightedSquaredX)) * 7;
+    const meanValue = window.reduce((sum, d) => sum + Math.abs(d.value), 0) / window.length;
+    const limit = tolerance ?? meanValue * 0.002;
+    // A stray reading is an outlier; many of them mean the level has moved
+    const mostlyInliers = fit.outlierDates.length <= window.length * MAX_PLATEAU_OUTLIER_SHARE;
+    return {
+      flat: mostlyInliers && Math.abs(weeklyChange) + weeklyInterval <= limit,
+      weeklyChange,
+      since: window[0].date,
+    };
+  };
+
+  const recent = checkWindow(minWeeks);
+  if (!recent) return notPlateau(0);
+  if (!recent.flat) return notPlateau(recent.weeklyChange);
+
+  let weeks = minWeeks;
+  let since = recent.since;
+  while (weeks < MAX_PLATEAU_WEEKS) {
+    const longer = checkWindow(weeks + 1);
+    if (!longer?.flat) break;
+    weeks += 1;
+    since = longer.since;
+  }
+
+  return { isPlateau: true, weeks, since, weeklyChange: recent.weeklyChange };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+// ──────────────────────────────────────────────
+// Habit ↔ Goal Correlation
+// ──────────────────────────────────────────────
+
+export const HIGH_ADHERENCE_PERCENT = 80;
+const MIN_WEEKS_PER_GROUP = 2;
+
+export interface WeeklyHabitGoalPoint {
+  weekEnd: string; // Saturday, YYYY-MM-DD
+  adherencePercent: number; // mean adherence across the linked habits
+  rateOfChange: number | null; // goal units per week, null without data
+}
+
+export interface HabitGoalCorrelation {
+  lagWeeks: number; // adherence in week w is compared with change in week w + lag
+  pairedWeeks: number;
+  correlation: number | null; // Pearson r between adherence and rate of change
+  highAdherenceRate: number | null; // mean change/week in weeks at or above the threshold
+  lowAdherenceRate: number | null; // mean change/week in the other weeks
+  highAdherenceWeeks: number;
+  lowAdherenceWeeks: number;
+}
+
+export interface HabitGoalAnalysis {
+  weeks: WeeklyHabitGoalPoint[];
+  windows: HabitGoalCorrelation[];
+  best: HabitGoalCorrelation | null; // window where adherence helps the goal most
+}
+
+// One week of linked-habit adherence, e.g. from computeAdherenceByWeek in
+// lib/habits
+export interface WeeklyAdherenceInput {
+  weekEnd: string; // Saturday, YYYY-MM-DD
+  stats: { adherencePercent: number }[];
+}
+
+/**
+ * Weekly adherence of the linked habits alongside the goal's weekly rate of
+ * change, one point per week in `weeklyAdherence` that tracked any habits.
+ * A week's rate is the change between its last data point and the previous
+ * week's, scaled to 7 days; weeks with no new data have no rate.
+ */
+export function computeWeeklyHabitGoalSeries(
+  weeklyAdherence: WeeklyAdherenceInput[],
+  history: MetricDataPoint[]
+): WeeklyHabitGoalPoint[] {
+  const points = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  const lastPointOnOrBefore = (date: string) => {
+    let last: MetricDataPoint | null = null;
+    for (const p of points) {
+      if (p.date > date) break;
+      last = p;
+    }
+    return last;
+  };
+
+  const series: WeeklyHabitGoalPoint[] = [];
+  for (const { weekEnd, stats } of weeklyAdherence) {
+    if (stats.length === 0) continue;
+    const adherencePercent =
+      stats.reduce((sum, s) => sum + s.adherencePercent, 0) / stats.length;
+
+    const prevEnd = new Date(`${weekEnd}T12:00:00`);
+    prevEnd.setDate(prevEnd.getDate() - 7);
+    const close = lastPointOnOrBefore(weekEnd);
+    const prevClose = lastPointOnOrBefore(formatDateLocal(prevEnd));
+    let rateOfChange: number | null = null;
+    if (close && prevClose && close.date !== prevClose.date) {
+      const days = (new Date(close.date).getTime() - new Date(prevClose.date).getTime()) / 86400000;
+      rateOfChange = ((close.value - prevClose.value) / days) * 7;
+    }
+
+    series.push({ weekEnd, adherencePercent, rateOfChange });
+  }
+  return series;
+}
+
+/**
+ * Compare weekly habit adherence with the goal's weekly rate of change,
+ * with the change lagged 0, 1 and 2 weeks behind the habits by default.
+ * The best window is the one where high-adherence weeks moved the goal
+ * furthest toward its target compared with the rest.
+ */
+export function computeHabitGoalCorrelation(
+  goal: Goal,
+  series: WeeklyHabitGoalPoint[],
+  lags: number[] = [0, 1, 2],
+  threshold: number = HIGH_ADHERENCE_PERCENT
+): HabitGoalAnalysis {
+  const direction =
+    goal.start_value !== null ? Math.sign(goal.target_value - goal.start_value) : 0;
+
+  const windows = lags.map((lagWeeks): HabitGoalCorrelation => {
+    const pairs: Array<{ adherence: number; rate: number }> = [];
+    for (let i = 0; i + lagWeeks < series.length; i++) {
+      const rate = series[i + lagWeeks].rateOfChange;
+      if (rate === null) continue;
+      pairs.push({ adherence: series[i].adherencePercent, rate });
+    }
+
+    const high = pairs.filter((p) => p.adherence >= threshold).map((p) => p.rate);
+    const low = pairs.filter((p) => p.adherence < threshold).map((p) => p.rate);
+
+    return {
+      lagWeeks,
+      pairedWeeks: pairs.length,
+      correlation: pearsonCorrelation(
+        pairs.map((p) => p.adherence),
+        pairs.map((p) => p.rate)
+      ),
+      highAdherenceRate: mean(high),
+      lowAdherenceRate: mean(low),
+      highAdherenceWeeks: high.length,
+      lowAdherenceWeeks: low.length,
+    };
+  });
+
+  const comparable = windows.filter(
+    (w) => w.highAdherenceWeeks >= MIN_WEEKS_PER_GROUP && w.lowAdherenceWeeks >= MIN_WEEKS_PER_GROUP
+  );
+  // Without a known direction, the biggest difference either way wins
+  const benefit = (w: HabitGoalCorrelation) => {
+    const diff = w.highAdherenceRate! - w.lowAdherenceRate!;
+    return direction !== 0 ? direction * diff : Math.abs(diff);
+  };
+  const best = comparable.reduce<HabitGoalCorrelation | null>(
+    (top, w) => (!top || benefit(w) > benefit(top) ? w : top),
+    null
+  );
+
+  return { weeks: series, windows, best };
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 3) return null;
+  const xMean = xs.reduce((s, x) => s + x, 0) / n;
+  const yMean = ys.reduce((s, y) => s + y, 0) / n;
+
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - xMean) * (ys[i] - yMean);
+    sxx += (xs[i] - xMean) ** 2;
+    syy += (ys[i] - yMean) ** 2;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
 // ──────────────────────────────────────────────
 // Helpers
 // ──────────────────────────────────────────────
 
+function daysBetween(startDate: string, endDate: string): number {
+  const start = new Date(`${startDate}T12:00:00`).getTime();
+  const end = new Date(`${endDate}T12:00:00`).getTime();
+  return Math.round((end - start) / 86400000);
+}
+
+function addDaysLocal(dateStr: string, days: number): string {
+  const d = new Date(`${dateStr}T12:00:00`);
+  d.setDate(d.getDate() + days);
+  return formatDateLocal(d);
+}
+
 function formatDateLocal(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -0,0 +1,200 @@
+import { GoalType } from './types';
+import {
+  getBMIHistory,
+  getBodyFatHistory,
+  getLatestBMI,
+  getLatestBodyFatPercentage,
+  getLatestLeanBodyMass,
+  getLatestWeight,
+  getLeanMassHistory,
+  getRecentWorkouts,
+  getRHRHistory,
+  getStepHistory,
+  getTodayRestingHeartRate,
+  getTodaySteps,
+  getWeightHistory,
+  getWorkoutCountHistory,
+  MetricDataPoint,
+} from './health';
+
+// ──────────────────────────────────────────────
+// Goal health sources
+// ──────────────────────────────────────────────
+
+/**
+ * How a day's HealthKit readings become the one goal entry for that day:
+ * - latest:  the last reading wins (weight, body composition)
+ * - average: mean of the day's readings (resting heart rate)
+ * - total:   sum of the day's readings (steps, workouts)
+ */
+export type HealthAggregation = 'latest' | 'average' | 'total';
+
+export interface GoalHealthSource {
+  metricKey: string | null; // matching metric in metricsConfig, if it has a card
+  unit: string; // unit the fetchers return values in
+  aggregation: HealthAggregation;
+  maxHistoryDays?: number; // cap for fetchers that query HealthKit day by day
+  getHistory: (days: number) => Promise<MetricDataPoint[]>;
+  getLatest: () => Promise<number | null>;
+}
+
+/**
+ * Where each goal type reads its HealthKit data from. Manual goal types map
+ * to null; every GoalType must be listed, so a new type can't be added
+ * without deciding where its data comes from.
+ */
+export const GOAL_HEALTH_SOURCES: Record<GoalType, GoalHealthSource | null> = {
+  weight: {
+    metricKey: 'weight',
+    unit: 'lbs',
+    aggregation: 'latest',
+    getHistory: getWeightHistory,
+    getLatest: getLatestWeight,
+  },
+  body_fat: {
+    metricKey: 'bodyFat',
+    unit: '%',
+    aggregation: 'latest',
+    getHistory: getBodyFatHistory,
+    getLatest: getLatestBodyFatPercentage,
+  },
+  bmi: {
+    metricKey: 'bmi',
+    unit: '', // BMI is shown as a bare number
+    aggregation: 'latest',
+    getHistory: getBMIHistory,
+    getLatest: getLatestBMI,
+  },
+  lean_body_mass_pct: {
+    metricKey: 'leanMass',
+    unit: '%',
+    aggregation: 'latest',
+    getHistory: getLeanMassPercentHistory,
+    getLatest: getLatestLeanMassPercent,
+  },
+  resting_hr: {
+    metricKey: 'restingHR',
+    unit: 'bpm',
+    aggregation: 'average',
+    getHistory: getRHRHistory,
+    getLatest: getTodayRestingHeartRate,
+  },
+  steps: {
+    metricKey: 'steps',
+    unit: 'steps',
+    aggregation: 'total',
+    maxHistoryDays: 30,
+    getHistory: getStepHistory,
+    getLatest: getTodaySteps,
+  },
+  weekly_workouts: {
+    metricKey: 'workouts',
+    unit: 'workouts',
+    aggregation: 'total',
+    getHistory: getWorkoutCountHistory,
+    getLatest: async () => (await getRecentWorkouts(7)).length,
+  },
+  lean_body_mass: {
+    metricKey: null, // the Lean Mass card shows the percentage
+    unit: 'lbs',
+    aggregation: 'latest',
+    getHistory: getLeanMassHistory,
+    getLatest: getLatestLeanBodyMass,
+  },
+  running_pr: null,
+  strength_pr: null,
+  cumulative: null,
+  custom: null,
+};
+
+export function getGoalHealthSource(goalType: GoalType): GoalHealthSource | null {
+  return GOAL_HEALTH_SOURCES[goalType] ?? null;
+}
+
+/** The health source behind a metricsConfig card, if a goal type tracks it. */
+export function getHealthSourceForMetric(
+  metricKey: string
+): { goalType: GoalType; source: GoalHealthSource } | null {
+  for (const [goalType, source] of Object.entries(GOAL_HEALTH_SOURCES)) {
+    if (source?.metricKey === metricKey) return { goalType: goalType as GoalType, source };
+  }
+  return null;
+}
+
+/**
+ * History for a goal backed by HealthKit, reduced to one point per day with
+ * the source's aggregation.
+ */
+export async function getHealthSourceHistory(
+  source: GoalHealthSource,
+  days: number
+): Promise<MetricDataPoint[]> {
+  const history = await source.getHistory(
+    source.maxHistoryDays ? Math.min(days, source.maxHistoryDays) : days
+  );
+  return aggregateDailyValues(history, source.aggregation);
+}
+
+/** One point per date, sorted by date, combining same-day readings. */
+export function aggregateDailyValues(
+  points: MetricDataPoint[],
+  aggregation: HealthAggregation
+): MetricDataPoint[] {
+  const byDate = new Map<string, number[]>();
+  for (const p of points) {
+    const values = byDate.get(p.date) ?? [];
+    values.push(p.value);
+    byDate.set(p.date, values);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, values]) => {
+      let value: number;
+      if (aggregation === 'latest') {
+        value = values[values.length - 1];
+      } else {
+        const total = values.reduce((sum, v) => sum + v, 0);
+        value = aggregation === 'total' ? total : total / values.length;
+      }
+      return { date, value: Math.round(value * 10) / 10 };
+    });
+}
+
+// ──────────────────────────────────────────────
+// Lean body mass %
+// ──────────────────────────────────────────────
+
+/**
+ * Lean mass as a percentage of body weight, pairing each lean mass reading
+ * with the most recent weight on or before its date. Readings with no weight
+ * yet are skipped.
+ */
+export function toLeanMassPercent(
+  leanMass: MetricDataPoint[],
+  weights: MetricDataPoint[]
+): MetricDataPoint[] {
+  const sortedWeights = [...weights].sort((a, b) => a.date.localeCompare(b.date));
+  const result: MetricDataPoint[] = [];
+
+  for (const lean of [...leanMass].sort((a, b) => a.date.localeCompare(b.date))) {
+    let weight: number | null = null;
+    for (const w of sortedWeights) {
+      if (w.date > lean.date) break;
+      weight = w.value;
+    }
+    if (weight) result.push({ date: lean.date, value: Math.round((lean.value / weight) * 1000) / 10 });
+  }
+  return result;
+}
+
+async function getLeanMassPercentHistory(days: number): Promise<MetricDataPoint[]> {
+  const [leanMass, weights] = await Promise.all([getLeanMassHistory(days), getWeightHistory(days)]);
+  return toLeanMassPercent(leanMass, weights);
+}
+
+async function getLatestLeanMassPercent(): Promise<number | null> {
+  const [leanMass, weight] = await Promise.all([getLatestLeanBodyMass(), getLatestWeight()]);
+  if (leanMass === null || !weight) return null;
+  return Math.round((leanMass / weight) * 1000) / 10;
+}
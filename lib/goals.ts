@@ -1,35 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { captureError } from './sentry';
 import { supabase } from './supabase';
-import { Goal, GoalEntry, GoalType } from './types';
+import { Goal, GoalEntry, GoalMilestoneDefinition, GoalStatus, GoalType, LiftSet } from './types';
 import {
-  getWeightHistory,
-  getStepHistory,
-  getRHRHistory,
-  getBodyFatHistory,
-  getLatestWeight,
-  getLatestBodyFatPercentage,
-  getLatestBMI,
-  getLatestLeanBodyMass,
-  getTodaySteps,
-  getTodayRestingHeartRate,
-  MetricDataPoint,
-} from './health';
+  bestOneRepMaxSet,
+  computeCumulativeTotals,
+  isCumulativeGoal,
+  isRunningGoal,
+  isStrengthGoal,
+} from './goalMath';
+import type { GoalEntryDraft } from './goalImport';
+import { getGoalHealthSource, getHealthSourceHistory } from './goalSources';
+import { MetricDataPoint } from './health';
 
 // ──────────────────────────────────────────────
 // Goal CRUD
 // ──────────────────────────────────────────────
 
+// Goals shown on the Progress tab: active and paused
 export async function getGoals(): Promise<Goal[]> {
   const { data, error } = await supabase
     .from('goals')
     .select('*')
     .eq('is_active', true)
+    .in('status', ['active', 'paused'])
     .order('created_at', { ascending: true });
 
   if (error) throw error;
   return data || [];
 }
 
+// Achieved and abandoned goals, most recently ended first
+export async function getArchivedGoals(): Promise<Goal[]> {
+  const { data, error } = await supabase
+    .from('goals')
+    .select('*')
+    .eq('is_active', true)
+    .in('status', ['achieved', 'abandoned'])
+    .order('status_changed_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
 export async function createGoal(
   userId: string,
   goal: {
@@ -42,7 +55,11 @@ export async function createGoal(
     target_date?: string | null;
     rate?: number | null;
     rate_unit?: string | null;
+    distance_meters?: number | null;
     data_source: 'apple_health' | 'manual';
+    auto_milestones?: boolean;
+    milestones?: GoalMilestoneDefinition[] | null;
+    linked_habit_ids?: string[] | null;
   }
 ): Promise<Goal> {
   const insertData: Record<string, any> = {
@@ -55,6 +72,7 @@ export async function createGoal(
     target_date: goal.target_date ?? null,
     rate: goal.rate ?? null,
     rate_unit: goal.rate_unit ?? null,
+    distance_meters: goal.distance_meters ?? null,
     data_source: goal.data_source,
   };
 
@@ -62,6 +80,10 @@ export async function createGoal(
   if (goal.start_date) {
     insertData.start_date = goal.start_date;
   }
+  // Milestone and habit settings also keep their column defaults unless given
+  if (goal.auto_milestones !== undefined) insertData.auto_milestones = goal.auto_milestones;
+  if (goal.milestones !== undefined) insertData.milestones = goal.milestones;
+  if (goal.linked_habit_ids !== undefined) insertData.linked_habit_ids = goal.linked_habit_ids;
 
   const { data, error } = await supabase
     .from('goals')
@@ -75,7 +97,26 @@ export async function createGoal(
 
 export async function updateGoal(
   goalId: string,
-  updates: Partial<Pick<Goal, 'title' | 'target_value' | 'unit' | 'target_date' | 'rate' | 'rate_unit' | 'is_active'>>
+  updates: Partial<
+    Pick<
+      Goal,
+      | 'title'
+      | 'start_date'
+      | 'target_value'
+      | 'unit'
+      | 'target_date'
+      | 'rate'
+      | 'rate_unit'
+      | 'is_active'
+      | 'status'
+      | 'status_changed_at'
+      | 'achieved_date'
+      | 'final_value'
+      | 'auto_milestones'
+      | 'milestones'
+      | 'linked_habit_ids'
+    >
+  >
 ): Promise<Goal> {
   const { data, error } = await supabase
     .from('goals')
@@ -97,6 +138,93 @@ export async function deleteGoal(goalId: string): Promise<void> {
   if (error) throw error;
 }
 
+// ──────────────────────────────────────────────
+// Goal status
+// ──────────────────────────────────────────────
+
+/**
+ * Move a goal to a new status. Achieving records the date and final value;
+ * abandoning records the final value. Going back to active or paused keeps
+ * the goal's history and clears the end-of-goal fields.
+ */
+export async function setGoalStatus(
+  goalId: string,
+  status: GoalStatus,
+  finalValue: number | null = null,
+  achievedDate: string = formatDate(new Date())
+): Promise<Goal> {
+  const ended = status === 'achieved' || status === 'abandoned';
+  return updateGoal(goalId, {
+    status,
+    status_changed_at: new Date().toISOString(),
+    achieved_date: status === 'achieved' ? achievedDate : null,
+    final_value: ended ? finalValue : null,
+  });
+}
+
+/**
+ * Start a new goal picking up where an archived one ended: same target and
+ * settings (milestones and linked habits included), starting today from its
+ * final value. A goal with a target date
+ * keeps the same length; cumulative goals start a fresh period from zero.
+ */
+export async function restartGoal(userId: string, goal: Goal): Promise<Goal> {
+  const start = new Date();
+  let targetDate: string | null = null;
+  if (goal.target_date) {
+    const lengthMs = new Date(goal.target_date).getTime() - new Date(goal.start_date).getTime();
+    targetDate = new Date(start.getTime() + Math.max(0, lengthMs)).toISOString();
+  }
+
+  return createGoal(userId, {
+    goal_type: goal.goal_type,
+    title: goal.title,
+    target_value: goal.target_value,
+    unit: goal.unit,
+    start_value: isCumulativeGoal(goal) ? 0 : goal.final_value ?? goal.start_value,
+    start_date: start.toISOString(),
+    target_date: targetDate,
+    rate: goal.rate,
+    rate_unit: goal.rate_unit,
+    distance_meters: goal.distance_meters,
+    data_source: goal.data_source,
+    auto_milestones: goal.auto_milestones,
+    milestones: goal.milestones,
+    linked_habit_ids: goal.linked_habit_ids,
+  });
+}
+
+// ──────────────────────────────────────────────
+// Milestone celebrations
+// ──────────────────────────────────────────────
+
+const CELEBRATED_MILESTONES_STORAGE_KEY = '@celebrated_goal_milestones';
+
+// Milestone ids (see computeGoalMilestones) already celebrated on this device,
+// keyed by goal id, so each one is only celebrated once
+async function readCelebratedMilestones(): Promise<Record<string, string[]>> {
+  try {
+    const raw = await AsyncStorage.getItem(CELEBRATED_MILESTONES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function getCelebratedMilestoneIds(goalId: string): Promise<Set<string>> {
+  const celebrated = await readCelebratedMilestones();
+  return new Set(celebrated[goalId] ?? []);
+}
+
+export async function markMilestonesCelebrated(goalId: string, milestoneIds: string[]): Promise<void> {
+  if (milestoneIds.length === 0) return;
+  const celebrated = await readCelebratedMilestones();
+  const ids = new Set([...(celebrated[goalId] ?? []), ...milestoneIds]);
+  celebrated[goalId] = [...ids];
+  await AsyncStorage.setItem(CELEBRATED_MILESTONES_STORAGE_KEY, JSON.stringify(celebrated));
+}
+
 // ──────────────────────────────────────────────
 // Goal Entry CRUD (manual data points)
 // ──────────────────────────────────────────────
@@ -122,11 +250,13 @@ export async function getGoalEntries(
   return data || [];
 }
 
+// A note left undefined keeps any note already on the day's entry
 export async function addGoalEntry(
   goalId: string,
   userId: string,
   value: number,
-  date: string
+  date: string,
+  note?: string | null
 ): Promise<GoalEntry> {
   const { data, error } = await supabase
     .from('goal_entries')
@@ -136,6 +266,7 @@ export async function addGoalEntry(
         user_id: userId,
         value,
         recorded_date: date,
+        ...(note !== undefined ? { note } : {}),
       },
       { onConflict: 'goal_id,recorded_date' }
     )
@@ -146,6 +277,136 @@ export async function addGoalEntry(
   return data;
 }
 
+// Add an amount to a cumulative goal's entry for the day. Repeated logs on the
+// same day accumulate on the single (goal_id, recorded_date) row; the addition
+// happens server-side (add_goal_entry_amount) so concurrent logs all count.
+export async function addCumulativeGoalEntry(
+  goalId: string,
+  userId: string,
+  amount: number,
+  date: string,
+  note?: string | null
+): Promise<GoalEntry> {
+  const { data, error } = await supabase.rpc('add_goal_entry_amount', {
+    entry_goal_id: goalId,
+    entry_user_id: userId,
+    entry_date: date,
+    amount,
+    entry_note: note ?? null,
+    set_note: note !== undefined,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Log lift sets for a strength goal. The day's entry keeps every set logged
+// that day, and its value is the best estimated one-rep max among them. The
+// sets are appended server-side (append_goal_entry_sets) so sets logged close
+// together all stay on the entry.
+export async function addStrengthGoalEntry(
+  goalId: string,
+  userId: string,
+  sets: LiftSet[],
+  date: string,
+  note?: string | null
+): Promise<GoalEntry> {
+  const best = bestOneRepMaxSet(sets);
+  if (!best) throw new Error('No set can be used to estimate a one-rep max');
+
+  const { data, error } = await supabase.rpc('append_goal_entry_sets', {
+    entry_goal_id: goalId,
+    entry_user_id: userId,
+    entry_date: date,
+    new_sets: sets,
+    best_value: best.oneRepMax,
+    entry_note: note ?? null,
+    set_note: note !== undefined,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Log a run for a time goal. `value` is the run's equivalent time at the goal's
+// distance; of several runs on one day, the entry keeps the fastest. The
+// comparison happens server-side (log_running_goal_entry) so runs logged at
+// once can't overwrite each other's best time.
+export async function addRunningGoalEntry(
+  goalId: string,
+  userId: string,
+  value: number,
+  run: Pick<GoalEntry, 'distance_meters' | 'duration_seconds'>,
+  date: string,
+  note?: string | null
+): Promise<GoalEntry> {
+  const { data, error } = await supabase.rpc('log_running_goal_entry', {
+    entry_goal_id: goalId,
+    entry_user_id: userId,
+    entry_date: date,
+    entry_value: value,
+    entry_distance_meters: run.distance_meters ?? null,
+    entry_duration_seconds: run.duration_seconds ?? null,
+    entry_note: note ?? null,
+    set_note: note !== undefined,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateGoalEntry(
+  entryId: string,
+  updates: Partial<Pick<GoalEntry, 'value' | 'note' | 'distance_meters' | 'duration_seconds'>>
+): Promise<GoalEntry> {
+  const { data, error } = await supabase
+    .from('goal_entries')
+    .update(updates)
+    .eq('id', entryId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Backfill entries from the bulk form or a CSV import. Dates that already
+ * have an entry are overwritten, using the same upsert on
+ * (goal_id, recorded_date) as syncHealthGoalEntries. History from before the
+ * goal started moves its start date back so the entries count; cumulative
+ * goals keep their period. Returns the goal as it is after the import.
+ */
+export async function importGoalEntries(
+  goal: Goal,
+  userId: string,
+  entries: GoalEntryDraft[]
+): Promise<Goal> {
+  if (entries.length === 0) return goal;
+
+  const rows = entries.map((e) => ({
+    goal_id: goal.id,
+    user_id: userId,
+    value: e.value,
+    recorded_date: e.date,
+    note: e.note,
+    // Imported times are already at the goal's distance
+    ...(isRunningGoal(goal) ? { distance_meters: null, duration_seconds: null } : {}),
+  }));
+
+  const { error } = await supabase
+    .from('goal_entries')
+    .upsert(rows, { onConflict: 'goal_id,recorded_date' });
+
+  if (error) throw error;
+
+  const earliest = entries.reduce((min, e) => (e.date < min ? e.date : min), entries[0].date);
+  if (!isCumulativeGoal(goal) && earliest < goal.start_date.split('T')[0]) {
+    return updateGoal(goal.id, { start_date: new Date(earliest + 'T00:00:00').toISOString() });
+  }
+  return goal;
+}
+
 export async function deleteGoalEntry(entryId: string): Promise<void> {
   const { error } = await supabase
     .from('goal_entries')
@@ -161,30 +422,28 @@ export async function deleteGoalEntry(entryId: string): Promise<void> {
 
 /**
  * Fetch historical data points for a goal.
- * For Apple Health goals, reads from HealthKit.
+ * For Apple Health goals, reads from HealthKit via the goal type's health
+ * source (one point per day).
  * For manual goals, reads from goal_entries.
+ * For cumulative goals, returns the running total over the goal's period.
  */
 export async function getGoalHistoryData(
   goal: Goal,
   days: number = 90
 ): Promise<MetricDataPoint[]> {
+  // Cumulative goals chart the running total, so every entry in the period counts
+  if (isCumulativeGoal(goal)) {
+    const entries = await getGoalEntries(goal.id);
+    return computeCumulativeTotals(
+      entries.map((e) => ({ date: e.recorded_date, value: Number(e.value) })),
+      goal.start_date.split('T')[0],
+      goal.target_date?.split('T')[0]
+    );
+  }
+
   if (goal.data_source === 'apple_health') {
-    switch (goal.goal_type) {
-      case 'weight':
-        return getWeightHistory(days);
-      case 'steps':
-        return getStepHistory(Math.min(days, 30)); // steps is per-day sequential, limit for perf
-      case 'resting_hr':
-        return getRHRHistory(days);
-      case 'body_fat':
-        return getBodyFatHistory(days);
-      case 'bmi':
-        return getBMIOrLeanMassHistory('bmi', days);
-      case 'lean_body_mass':
-        return getBMIOrLeanMassHistory('lean_body_mass', days);
-      default:
-        return [];
-    }
+    const source = getGoalHealthSource(goal.goal_type);
+    return source ? getHealthSourceHistory(source, days) : [];
   }
 
   // Manual goals — read from goal_entries table
@@ -193,34 +452,48 @@ export async function getGoalHistoryData(
 }
 
 /**
- * Get the current (latest) value for a goal.
+ * Get the current (latest) value for a goal — the running total for cumulative
+ * goals, and the best estimated 1RM so far for strength goals.
  */
 export async function getGoalCurrentValue(goal: Goal): Promise<number | null> {
+  if (isCumulativeGoal(goal)) {
+    const totals = await getGoalHistoryData(goal);
+    return totals.length > 0 ? totals[totals.length - 1].value : 0;
+  }
+
   if (goal.data_source === 'apple_health') {
-    switch (goal.goal_type) {
-      case 'weight':
-        return getLatestWeight();
-      case 'steps':
-        return getTodaySteps();
-      case 'resting_hr':
-        return getTodayRestingHeartRate();
-      case 'body_fat':
-        return getLatestBodyFatPercentage();
-      case 'bmi':
-        return getLatestBMI();
-      case 'lean_body_mass':
-        return getLatestLeanBodyMass();
-      default:
-        return null;
-    }
+    return getGoalHealthSource(goal.goal_type)?.getLatest() ?? null;
   }
 
   // Manual: return latest entry
   const entries = await getGoalEntries(goal.id);
+  if (isStrengthGoal(goal)) {
+    if (entries.length === 0) return goal.start_value;
+    return Math.max(goal.start_value ?? 0, ...entries.map((e) => Number(e.value)));
+  }
+  // Running PRs: the fastest equivalent time so far
+  if (isRunningGoal(goal)) {
+    const times = entries.map((e) => Number(e.value));
+    if (goal.start_value !== null) times.push(goal.start_value);
+    return times.length > 0 ? Math.min(...times) : null;
+  }
   if (entries.length === 0) return goal.start_value;
   return entries[entries.length - 1].value;
 }
 
+/**
+ * History of an archived goal from its start date to the day it ended, for
+ * the archive's final charts.
+ */
+export async function getArchivedGoalHistory(goal: Goal): Promise<MetricDataPoint[]> {
+  const start = goal.start_date.split('T')[0];
+  const end =
+    goal.achieved_date ?? goal.status_changed_at?.split('T')[0] ?? formatDate(new Date());
+  const days = Math.ceil((Date.now() - new Date(start + 'T00:00:00').getTime()) / 86_400_000) + 1;
+  const history = await getGoalHistoryData(goal, days);
+  return history.filter((p) => p.date >= start && p.date <= end);
+}
+
 // ──────────────────────────────────────────────
 // Apple Health → goal_entries sync
 // ──────────────────────────────────────────────
@@ -251,17 +524,11 @@ export async function syncHealthGoalEntries(
   await Promise.all(
     healthGoals.map(async (goal) => {
       try {
+        // Already one point per day, combined with the source's aggregation
         const history = await getGoalHistoryData(goal, daysBack);
-        const inRange = history.filter((p) => p.date >= weekStart && p.date <= weekEnd);
-
-        // Deduplicate: keep the last value per date (latest sample wins)
-        const byDate = new Map<string, number>();
-        for (const p of inRange) {
-          byDate.set(p.date, p.value);
-        }
-
-        for (const [date, value] of byDate) {
-          rows.push({ goal_id: goal.id, user_id: userId, value, recorded_date: date });
+        for (const p of history) {
+          if (p.date < weekStart || p.date > weekEnd) continue;
+          rows.push({ goal_id: goal.id, user_id: userId, value: p.value, recorded_date: p.date });
         }
       } catch (e) {
         console.warn(`[syncHealthGoalEntries] Failed for goal "${goal.title}":`, e);
@@ -291,41 +558,3 @@ function formatDate(date: Date): string {
   const day = String(date.getDate()).padStart(2, '0');
   return `${year}-${month}-${day}`;
 }
-
-/**
- * Generic history fetcher for BMI and lean body mass using queryQuantitySamples.
- * These don't have dedicated history functions in health.ts yet, so we reuse the pattern.
- */
-async function getBMIOrLeanMassHistory(
-  type: 'bmi' | 'lean_body_mass',
-  days: number
-): Promise<MetricDataPoint[]> {
-  // Try importing health module dynamically
-  try {
-    const mod = require('@kingstinct/react-native-healthkit');
-    const qti =
-      type === 'bmi'
-        ? 'HKQuantityTypeIdentifierBodyMassIndex'
-        : 'HKQuantityTypeIdentifierLeanBodyMass';
-    const unit = type === 'bmi' ? undefined : 'lb';
-
-    const end = new Date();
-    const start = new Date();
-    start.setDate(start.getDate() - days);
-    start.setHours(0, 0, 0, 0);
-
-    const opts: any = {
-      limit: 0,
-      filter: { date: { startDate: start, endDate: end } },
-    };
-    if (unit) opts.unit = unit;
-
-    const samples = await mod.queryQuantitySamples(qti, opts);
-    return samples.map((s: any) => ({
-      date: formatDate(new Date(s.startDate)),
-      value: Math.round(s.quantity * 10) / 10,
-    }));
-  } catch {
-    return [];
-  }
-}
@@ -0,0 +1,264 @@
+import { Habit, IdentityStatement } from './types';
+import { formatDate, getHabitsForDay, isAvoidHabit } from './habits';
+
+// Habits on a weekly schedule get repeating daily/weekly notifications, so
+// they keep firing even if the app isn't opened for a while. Habits with a
+// recurrence (every N days, N times or fixed days a month) can't be expressed
+// that way and get one-off notifications for the next HABIT_REMINDER_WINDOW_DAYS
+// days instead; there is no background refresh, so those stop until the app
+// is opened again.
+// iOS keeps at most 64 pending notifications; the fixed daily/weekly reminders
+// need the rest.
+export const HABIT_REMINDER_WINDOW_DAYS = 7;
+export const MAX_HABIT_REMINDERS = 48;
+
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface HabitReminderOccurrence {
+  habitId: string;
+  /** Local date of the occurrence, YYYY-MM-DD */
+  date: string;
+  /** Reminder time as stored on the habit, HH:MM */
+  time: string;
+  fireAt: Date;
+  /** Daily target for quantitative habits, so "Done" can log the full amount */
+  targetAmount: number | null;
+  title: string;
+  body: string;
+}
+
+export interface HabitReminderPlanOptions {
+  habits: Habit[];
+  identityStatements: IdentityStatement[];
+  completedTodayIds: Set<string>;
+  snoozedTodayIds: Set<string>;
+  quietHours?: QuietHours | null;
+  now?: Date;
+  windowDays?: number;
+  limit?: number;
+}
+
+export interface HabitRepeatingReminder {
+  habitId: string;
+  /** Day of the week it repeats on (0 = Sunday), or null for every day */
+  weekday: number | null;
+  /** Reminder time as stored on the habit, HH:MM */
+  time: string;
+  hour: number;
+  minute: number;
+  targetAmount: number | null;
+  title: string;
+  body: string;
+}
+
+export interface HabitReminderSchedule {
+  repeating: HabitRepeatingReminder[];
+  occurrences: HabitReminderOccurrence[];
+}
+
+// Parse a stored "HH:MM" reminder time; null when malformed
+export function parseReminderTime(value: string): { hour: number; minute: number } | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+// Normalize user input like "7:30" to the stored "07:30"; null when invalid
+export function normalizeReminderTime(value: string): string | null {
+  const parsed = parseReminderTime(value);
+  if (!parsed) return null;
+  return `${String(parsed.hour).padStart(2, '0')}:${String(parsed.minute).padStart(2, '0')}`;
+}
+
+// "07:30" → "7:30 AM"
+export function formatReminderTime(value: string): string {
+  const parsed = parseReminderTime(value);
+  if (!parsed) return value;
+  const suffix = parsed.hour < 12 ? 'AM' : 'PM';
+  const hour12 = parsed.hour % 12 === 0 ? 12 : parsed.hour % 12;
+  return `${hour12}:${String(parsed.minute).padStart(2, '0')} ${suffix}`;
+}
+
+// Whether an "HH:MM" time falls in quiet hours. The window is [start, end) and
+// may wrap past midnight (22:00–07:00); start === end means no quiet hours.
+export function isWithinQuietHours(time: string, quietHours: QuietHours | null): boolean {
+  if (!quietHours) return false;
+  const toMinutes = (value: string) => {
+    const parsed = parseReminderTime(value);
+    return parsed ? parsed.hour * 60 + parsed.minute : null;
+  };
+  const t = toMinutes(time);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (t === null || start === null || end === null || start === end) return false;
+  return start < end ? t >= start && t < end : t >= start || t < end;
+}
+
+export function getHabitReminderCopy(
+  habit: Habit,
+  identity: IdentityStatement | undefined,
+): { title: string; body: string } {
+  return {
+    title: `Time for ${habit.name}`,
+    body: identity
+      ? `${identity.emoji} ${identity.statement}. ${habit.name} is how you show it today.`
+      : `Check off ${habit.name} once it's done.`,
+  };
+}
+
+// Upcoming reminder occurrences, soonest first. A habit is reminded on days it
+// is scheduled (narrowed to reminder_days when set), never before it existed,
+// and not today if it's already completed or snoozed. Times inside quiet hours
+// are dropped.
+export function planHabitReminders({
+  habits,
+  identityStatements,
+  completedTodayIds,
+  snoozedTodayIds,
+  quietHours = null,
+  now = new Date(),
+  windowDays = HABIT_REMINDER_WINDOW_DAYS,
+  limit = MAX_HABIT_REMINDERS,
+}: HabitReminderPlanOptions): HabitReminderOccurrence[] {
+  const identityById = new Map(identityStatements.map((i) => [i.id, i]));
+  const withReminders = habits.filter(
+    (h) => !isAvoidHabit(h) && h.reminder_times && h.reminder_times.length > 0,
+  );
+  const today = formatDate(now);
+  const occurrences: HabitReminderOccurrence[] = [];
+
+  for (let offset = 0; offset < windowDays; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const date = formatDate(day);
+    const dayOfWeek = day.getDay();
+
+    for (const habit of getHabitsForDay(withReminders, dayOfWeek, date)) {
+      if (habit.created_at.slice(0, 10) > date) continue;
+      if (habit.reminder_days && !habit.reminder_days.includes(dayOfWeek)) continue;
+      if (date === today && (completedTodayIds.has(habit.id) || snoozedTodayIds.has(habit.id))) {
+        continue;
+      }
+
+      const identity = habit.identity_statement_id
+        ? identityById.get(habit.identity_statement_id)
+        : undefined;
+      const copy = getHabitReminderCopy(habit, identity);
+
+      for (const time of habit.reminder_times!) {
+        const parsed = parseReminderTime(time);
+        if (!parsed || isWithinQuietHours(time, quietHours)) continue;
+        const fireAt = new Date(day.getFullYear(), day.getMonth(), day.getDate(), parsed.hour, parsed.minute);
+        if (fireAt <= now) continue;
+        occurrences.push({
+          habitId: habit.id,
+          date,
+          time,
+          fireAt,
+          targetAmount: habit.target_amount ?? null,
+          ...copy,
+        });
+      }
+    }
+  }
+
+  return occurrences
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, limit);
+}
+
+// Whether a habit's reminders can repeat weekly, i.e. it has no recurrence
+export function hasWeeklyReminderSchedule(habit: Habit): boolean {
+  return !habit.recurrence;
+}
+
+// Every habit reminder to schedule: repeating ones for weekly habits, plus
+// one-off occurrences for recurring habits. A repeating reminder can't skip a
+// single day, so when a weekly habit is already done or snoozed today, its
+// reminder for today's weekday becomes a one-off a week out instead; the next
+// refresh after that day puts the repeating one back.
+export function planHabitReminderSchedule({
+  habits,
+  identityStatements,
+  completedTodayIds,
+  snoozedTodayIds,
+  quietHours = null,
+  now = new Date(),
+  windowDays = HABIT_REMINDER_WINDOW_DAYS,
+  limit = MAX_HABIT_REMINDERS,
+}: HabitReminderPlanOptions): HabitReminderSchedule {
+  const identityById = new Map(identityStatements.map((i) => [i.id, i]));
+  const todayDayOfWeek = now.getDay();
+  const repeating: HabitRepeatingReminder[] = [];
+  const deferred: HabitReminderOccurrence[] = [];
+
+  const weekly = habits.filter(
+    (h) =>
+      h.is_active &&
+      hasWeeklyReminderSchedule(h) &&
+      !isAvoidHabit(h) &&
+      h.reminder_times &&
+      h.reminder_times.length > 0,
+  );
+
+  for (const habit of weekly) {
+    const weekdays = [0, 1, 2, 3, 4, 5, 6].filter(
+      (day) =>
+        getHabitsForDay([habit], day).length > 0 &&
+        (!habit.reminder_days || habit.reminder_days.includes(day)),
+    );
+    const skippedToday = completedTodayIds.has(habit.id) || snoozedTodayIds.has(habit.id);
+    const identity = habit.identity_statement_id
+      ? identityById.get(habit.identity_statement_id)
+      : undefined;
+    const copy = getHabitReminderCopy(habit, identity);
+    const targetAmount = habit.target_amount ?? null;
+
+    for (const time of habit.reminder_times!) {
+      const parsed = parseReminderTime(time);
+      if (!parsed || isWithinQuietHours(time, quietHours)) continue;
+
+      let days = weekdays;
+      const todayFireAt = new Date(
+        now.getFullYear(), now.getMonth(), now.getDate(), parsed.hour, parsed.minute,
+      );
+      if (skippedToday && weekdays.includes(todayDayOfWeek) && todayFireAt > now) {
+        days = weekdays.filter((day) => day !== todayDayOfWeek);
+        const fireAt = new Date(todayFireAt);
+        fireAt.setDate(fireAt.getDate() + 7);
+        deferred.push({ habitId: habit.id, date: formatDate(fireAt), time, fireAt, targetAmount, ...copy });
+      }
+
+      const base = { habitId: habit.id, time, ...parsed, targetAmount, ...copy };
+      if (days.length === 7) {
+        repeating.push({ ...base, weekday: null });
+      } else {
+        repeating.push(...days.map((weekday) => ({ ...base, weekday })));
+      }
+    }
+  }
+
+  const cappedRepeating = repeating.slice(0, limit);
+  const occurrences = [
+    ...planHabitReminders({
+      habits: habits.filter((h) => !hasWeeklyReminderSchedule(h)),
+      identityStatements,
+      completedTodayIds,
+      snoozedTodayIds,
+      quietHours,
+      now,
+      windowDays,
+      limit,
+    }),
+    ...deferred,
+  ]
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, limit - cappedRepeating.length);
+
+  return { repeating: cappedRepeating, occurrences };
+}
@@ -1,6 +1,15 @@
 import { captureError } from './sentry';
 import { supabase } from './supabase';
-import { Habit, HabitCompletion, HabitSnooze, HealthMetricType } from './types';
+import {
+  Habit,
+  HabitCompletion,
+  HabitRecurrence,
+  HabitSlip,
+  HabitSnooze,
+  HabitType,
+  HealthMetricType,
+  StreakFreeze,
+} from './types';
 import { getCurrentMetricValue, isHealthKitAvailable } from './health';
 
 export type HabitWeeklyStatus = 'on_track' | 'behind' | 'met' | 'missed';
@@ -12,6 +21,22 @@ export interface HabitWeeklyStats {
   adherencePercent: number;
   status: HabitWeeklyStatus;
   completedDates: string[];
+  /** Fraction of the daily target reached per logged date (0–1). Below 1 only on quantitative habits. */
+  dayProgress?: Record<string, number>;
+  /** Sum of dayProgress, so partial days count fractionally toward targetDays */
+  progressDays?: number;
+  /** Days of the week (0=Sun) the habit is due this week, for recurrence-based habits */
+  scheduledDays?: number[];
+  /** Slips logged this week on avoid habits. completedDates then holds the clean days. */
+  slipCount?: number;
+  slipDates?: string[];
+}
+
+export interface AbstinenceStats {
+  daysSinceLastSlip: number;
+  longestCleanRun: number;
+  lastSlipDate: string | null;
+  totalSlips: number;
 }
 
 // Get all active habits for the current user
@@ -26,10 +51,15 @@ export async function getHabits(): Promise<Habit[]> {
   return data || [];
 }
 
-// Get habits scheduled for a specific day
-export function getHabitsForDay(habits: Habit[], dayOfWeek: number): Habit[] {
+// Get habits scheduled for a specific day.
+// Pass the date to evaluate recurrence rules (every N days, day of month);
+// without it only the weekly schedule is checked.
+export function getHabitsForDay(habits: Habit[], dayOfWeek: number, date?: string): Habit[] {
   return habits.filter((habit) => {
     if (!habit.is_active) return false;
+    if (habit.recurrence && date) {
+      return isRecurrenceDueOn(habit.recurrence, date);
+    }
     // If specific_days is set, check if today is one of them
     if (habit.specific_days && habit.specific_days.length > 0) {
       return habit.specific_days.includes(dayOfWeek);
@@ -65,12 +95,14 @@ export async function getCompletionsForWeek(
   return data || [];
 }
 
-// Toggle habit completion for a day
+// Toggle habit completion for a day. `autoComplete` marks habits completed
+// from health data, whose unchecks are remembered as auto-complete skips.
 export async function toggleHabitCompletion(
   habitId: string,
   userId: string,
   date: string,
-  isCompleted: boolean
+  isCompleted: boolean,
+  autoComplete = false
 ): Promise<void> {
   if (isCompleted) {
     // Remove completion
@@ -81,6 +113,17 @@ export async function toggleHabitCompletion(
       .eq('completed_date', date);
 
     if (error) throw error;
+    if (!autoComplete) return;
+
+    // Remember the uncheck so health data doesn't complete the day again
+    const { error: skipError } = await supabase
+      .from('habit_auto_complete_skips')
+      .upsert(
+        { habit_id: habitId, user_id: userId, skip_date: date },
+        { onConflict: 'habit_id,skip_date', ignoreDuplicates: true }
+      );
+
+    if (skipError) throw skipError;
   } else {
     // Add completion
     const { error } = await supabase.from('habit_completions').insert({
@@ -90,7 +133,278 @@ export async function toggleHabitCompletion(
     });
 
     if (error) throw error;
+
+    // Checking the habit again by hand lifts an earlier skip for the day
+    const { error: skipError } = await supabase
+      .from('habit_auto_complete_skips')
+      .delete()
+      .eq('habit_id', habitId)
+      .eq('skip_date', date);
+
+    if (skipError) throw skipError;
+  }
+}
+
+// Days the user unchecked an auto-complete habit, from `fromDate` on, keyed
+// "habitId:date". Health data must not complete these days again.
+export async function getAutoCompleteSkips(fromDate: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('habit_auto_complete_skips')
+    .select('habit_id, skip_date')
+    .gte('skip_date', fromDate);
+
+  if (error) throw error;
+  return new Set((data ?? []).map((s: { habit_id: string; skip_date: string }) => `${s.habit_id}:${s.skip_date}`));
+}
+
+// ──────────────────────────────────────────────
+// Recurrence
+// ──────────────────────────────────────────────
+
+// Whether a recurrence rule puts the habit on the schedule for a given date.
+// Monthly-count habits can be done on any day, like "any N days" weekly habits.
+export function isRecurrenceDueOn(recurrence: HabitRecurrence, date: string): boolean {
+  switch (recurrence.type) {
+    case 'interval_days': {
+      const diff = dayDiff(recurrence.start_date, date);
+      return diff >= 0 && diff % Math.max(1, recurrence.interval) === 0;
+    }
+    case 'monthly_count':
+      return true;
+    case 'day_of_month': {
+      const d = parseLocalDate(date);
+      const lastDay = getDaysInMonth(date);
+      return recurrence.days.some((day) => Math.min(day, lastDay) === d.getDate());
+    }
+  }
+}
+
+// Number of completions a habit needs within [startDate, endDate].
+// Monthly-count habits are judged against month-to-date progress, like
+// isHabitRequiredToday: the range only owes the completions the rest of its
+// month can no longer make up. `completedDates` are the habit's met completion
+// dates; those earlier in the same month than the range count toward the month.
+// Mirrored by getWeeklyTargetDays in supabase/functions/generate-weekly-recap.
+export function getTargetDaysForRange(
+  habit: Habit,
+  startDate: string,
+  endDate: string,
+  completedDates: string[] = []
+): number {
+  const recurrence = habit.recurrence;
+  if (!recurrence) {
+    return habit.specific_days && habit.specific_days.length > 0
+      ? habit.specific_days.length
+      : habit.frequency_per_week;
+  }
+
+  if (recurrence.type === 'monthly_count') {
+    let target = 0;
+    // One segment per calendar month the range touches
+    for (let segmentStart = startDate; segmentStart <= endDate; ) {
+      const month = getMonthRange(segmentStart);
+      const segmentEnd = month.end < endDate ? month.end : endDate;
+      const doneBefore = completedDates.filter((d) => d >= month.start && d < segmentStart).length;
+      const daysAfter = dayDiff(segmentEnd, month.end);
+      const owed = recurrence.times_per_month - doneBefore - daysAfter;
+      target += Math.min(dayDiff(segmentStart, segmentEnd) + 1, Math.max(0, owed));
+      segmentStart = addDays(segmentEnd, 1);
+    }
+    return target;
+  }
+  return getDatesInRange(startDate, endDate).filter((date) => isRecurrenceDueOn(recurrence, date)).length;
+}
+
+// Approximate weekly frequency for a recurrence, stored in frequency_per_week
+// so clients without recurrence support still show a sensible schedule.
+export function getApproximateWeeklyFrequency(recurrence: HabitRecurrence): number {
+  let perWeek: number;
+  switch (recurrence.type) {
+    case 'interval_days':
+      perWeek = 7 / Math.max(1, recurrence.interval);
+      break;
+    case 'monthly_count':
+      perWeek = (recurrence.times_per_month * 7) / 30;
+      break;
+    case 'day_of_month':
+      perWeek = (recurrence.days.length * 7) / 30;
+      break;
   }
+  return Math.min(7, Math.max(1, Math.round(perWeek)));
+}
+
+function formatOrdinal(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+// Human-readable schedule label, e.g. "Every 14 days" or "On the 1st, 15th"
+export function formatRecurrenceLabel(recurrence: HabitRecurrence): string {
+  switch (recurrence.type) {
+    case 'interval_days':
+      return recurrence.interval === 1 ? 'Every day' : `Every ${recurrence.interval} days`;
+    case 'monthly_count':
+      return `${recurrence.times_per_month}x per month (any days)`;
+    case 'day_of_month':
+      return `On the ${[...recurrence.days].sort((a, b) => a - b).map(formatOrdinal).join(', ')}`;
+  }
+}
+
+// ──────────────────────────────────────────────
+// Quantitative habits
+// ──────────────────────────────────────────────
+
+// A habit is quantitative when it carries a daily target amount (e.g. 8 glasses)
+export function isQuantitativeHabit(habit: Habit): boolean {
+  return habit.target_amount != null && habit.target_amount > 0;
+}
+
+// Amount logged on a completion row of a quantitative habit. Rows without a
+// quantity (auto-completions, older clients) mean the target was met, here,
+// in log_habit_quantity and in optimistic updates alike.
+export function getLoggedQuantity(
+  completion: Pick<HabitCompletion, 'quantity'> | null | undefined,
+  targetAmount: number | null | undefined
+): number {
+  if (!completion) return 0;
+  return completion.quantity == null ? targetAmount ?? 0 : Number(completion.quantity);
+}
+
+// Fraction (0–1) of the daily target reached by a completion row.
+// Boolean habits and rows without a quantity count as fully done.
+export function getCompletionProgress(
+  habit: Habit,
+  completion: HabitCompletion | undefined
+): number {
+  if (!completion) return 0;
+  if (!isQuantitativeHabit(habit)) return 1;
+  const logged = getLoggedQuantity(completion, habit.target_amount);
+  return Math.min(1, Math.max(0, logged / habit.target_amount!));
+}
+
+// Whether a completion row means the habit is done for that day
+export function isCompletionMet(habit: Habit, completion: HabitCompletion | undefined): boolean {
+  return getCompletionProgress(habit, completion) >= 1;
+}
+
+// Format a quantity with its unit, e.g. "8 glasses" or "2.5 L"
+export function formatQuantity(amount: number, unit?: string | null): string {
+  const rounded = Math.round(amount * 100) / 100;
+  return unit ? `${rounded} ${unit}` : `${rounded}`;
+}
+
+// Add an amount to the day's logged quantity for a quantitative habit.
+// Repeated logs accumulate on the single (habit_id, completed_date) row; the
+// addition happens in one statement server-side (log_habit_quantity) so
+// concurrent logs never overwrite each other. Returns the new total for the day.
+export async function logHabitQuantity(
+  habitId: string,
+  userId: string,
+  date: string,
+  amount: number
+): Promise<number> {
+  const { data, error } = await supabase.rpc('log_habit_quantity', {
+    log_habit_id: habitId,
+    log_user_id: userId,
+    log_date: date,
+    amount,
+  });
+
+  if (error) throw error;
+  return Number(data ?? 0);
+}
+
+// ──────────────────────────────────────────────
+// Avoid habits
+// ──────────────────────────────────────────────
+
+// Avoid habits ("no alcohol") succeed on days without a slip instead of on completion
+export function isAvoidHabit(habit: Habit): boolean {
+  return habit.habit_type === 'avoid';
+}
+
+// Get every slip for the current user (needed for clean-run history)
+export async function getSlips(): Promise<HabitSlip[]> {
+  const { data, error } = await supabase
+    .from('habit_slips')
+    .select('*')
+    .order('slip_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Log a slip on an avoid habit
+export async function logSlip(
+  habitId: string,
+  userId: string,
+  date: string,
+  note?: string | null
+): Promise<HabitSlip> {
+  const { data, error } = await supabase
+    .from('habit_slips')
+    .insert({
+      habit_id: habitId,
+      user_id: userId,
+      slip_date: date,
+      note: note || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Remove a slip (e.g. logged by mistake)
+export async function deleteSlip(slipId: string): Promise<void> {
+  const { error } = await supabase.from('habit_slips').delete().eq('id', slipId);
+
+  if (error) throw error;
+}
+
+// Days since the last slip and the longest clean run for an avoid habit,
+// counted from the day the habit was created up to referenceDate.
+// A slip today resets the current run to 0; a slip yesterday leaves 1 clean day.
+export function computeAbstinenceStats(
+  habit: Habit,
+  slips: HabitSlip[],
+  referenceDate: string = getTodayDate()
+): AbstinenceStats {
+  const slipDates = Array.from(
+    new Set(
+      slips
+        .filter((s) => s.habit_id === habit.id && s.slip_date <= referenceDate)
+        .map((s) => s.slip_date)
+    )
+  ).sort();
+  const createdDate = habit.created_at.slice(0, 10);
+
+  if (slipDates.length === 0) {
+    const cleanDays = Math.max(dayDiff(createdDate, referenceDate), 0);
+    return { daysSinceLastSlip: cleanDays, longestCleanRun: cleanDays, lastSlipDate: null, totalSlips: 0 };
+  }
+
+  // Clean run before the first slip (slips may be backdated before creation)
+  let longestCleanRun = Math.max(dayDiff(createdDate, slipDates[0]), 0);
+  for (let i = 1; i < slipDates.length; i++) {
+    longestCleanRun = Math.max(longestCleanRun, dayDiff(slipDates[i - 1], slipDates[i]) - 1);
+  }
+  const lastSlipDate = slipDates[slipDates.length - 1];
+  const daysSinceLastSlip = dayDiff(lastSlipDate, referenceDate);
+
+  return {
+    daysSinceLastSlip,
+    longestCleanRun: Math.max(longestCleanRun, daysSinceLastSlip),
+    lastSlipDate,
+    totalSlips: slips.filter((s) => s.habit_id === habit.id && s.slip_date <= referenceDate).length,
+  };
 }
 
 // Determine if a habit is required today based on its schedule and weekly progress.
@@ -98,12 +412,30 @@ export async function toggleHabitCompletion(
 // - Frequency-based habits: required when the remaining days in the week (including today)
 //   equal the number of completions still needed. e.g. 5x/week allows 2 skips;
 //   once 2 days have been skipped, every remaining day is required.
+// - Recurrence habits: interval and day-of-month rules are required on their due dates;
+//   monthly-count habits apply the same skip logic over the rest of the month.
+// - Avoid habits: never required — there is nothing to complete.
 export function isHabitRequiredToday(
   habit: Habit,
   dayOfWeek: number,
   weekCompletionsForHabit: number,
-  isCompletedToday: boolean
+  isCompletedToday: boolean,
+  recurrenceContext?: { date: string; monthCompletionsForHabit: number }
 ): boolean {
+  if (isAvoidHabit(habit)) return false;
+
+  if (habit.recurrence && recurrenceContext) {
+    const { date, monthCompletionsForHabit } = recurrenceContext;
+    if (habit.recurrence.type !== 'monthly_count') {
+      return isRecurrenceDueOn(habit.recurrence, date);
+    }
+    const completionsExcludingToday = monthCompletionsForHabit - (isCompletedToday ? 1 : 0);
+    const stillNeeded = habit.recurrence.times_per_month - completionsExcludingToday;
+    const remainingDaysIncludingToday = getDaysInMonth(date) - parseLocalDate(date).getDate() + 1;
+    if (stillNeeded <= 0) return false;
+    return stillNeeded >= remainingDaysIncludingToday;
+  }
+
   // If specific days are set and today is one of them, it's required
   if (habit.specific_days && habit.specific_days.length > 0) {
     return habit.specific_days.includes(dayOfWeek);
@@ -132,6 +464,12 @@ export async function createHabit(
     metric_threshold?: number | null;
     auto_complete?: boolean;
     identity_statement_id?: string | null;
+    target_amount?: number | null;
+    unit?: string | null;
+    recurrence?: HabitRecurrence | null;
+    habit_type?: HabitType;
+    reminder_times?: string[] | null;
+    reminder_days?: number[] | null;
   }
 ): Promise<Habit> {
   const { data, error } = await supabase
@@ -146,6 +484,12 @@ export async function createHabit(
       metric_threshold: habit.metric_threshold || null,
       auto_complete: habit.auto_complete || false,
       identity_statement_id: habit.identity_statement_id || null,
+      target_amount: habit.target_amount || null,
+      unit: habit.target_amount ? habit.unit || null : null,
+      recurrence: habit.recurrence ?? null,
+      habit_type: habit.habit_type ?? 'build',
+      reminder_times: habit.reminder_times?.length ? habit.reminder_times : null,
+      reminder_days: habit.reminder_times?.length ? habit.reminder_days ?? null : null,
     })
     .select()
     .single();
@@ -167,6 +511,12 @@ export async function updateHabit(
     metric_threshold?: number | null;
     auto_complete?: boolean;
     identity_statement_id?: string | null;
+    target_amount?: number | null;
+    unit?: string | null;
+    recurrence?: HabitRecurrence | null;
+    habit_type?: HabitType;
+    reminder_times?: string[] | null;
+    reminder_days?: number[] | null;
   }
 ): Promise<Habit> {
   const { data, error } = await supabase
@@ -271,6 +621,268 @@ export async function getStreak(): Promise<{ streakCount: number; earnedToday: b
   return { streakCount, earnedToday };
 }
 
+// ──────────────────────────────────────────────
+// Per-habit streaks
+// ──────────────────────────────────────────────
+
+export type StreakUnit = 'day' | 'week' | 'month';
+
+export interface HabitStreak {
+  habitId: string;
+  /** Scheduled days, or weeks/months for "N times per week/month" habits */
+  unit: StreakUnit;
+  current: number;
+  longest: number;
+  /** Days freezes were earned from this habit's streak milestones, oldest first */
+  freezesEarnedOn: string[];
+  /** Start of a just-missed period a freeze can still cover, or null */
+  repairablePeriod: string | null;
+}
+
+// A freeze is earned every N periods of an unbroken streak, and at most
+// MAX_BANKED_FREEZES can be held at once.
+export const FREEZE_EARN_EVERY: Record<StreakUnit, number> = { day: 7, week: 4, month: 3 };
+export const MAX_BANKED_FREEZES = 3;
+
+// How long after a missed period it can still be covered by a freeze
+const FREEZE_GRACE_DAYS = 2;
+
+type PeriodResult = 'met' | 'neutral' | 'missed';
+
+interface StreakPeriod {
+  start: string;
+  result: PeriodResult;
+}
+
+function getPeriodEnd(start: string, unit: StreakUnit): string {
+  if (unit === 'day') return start;
+  return unit === 'week' ? addDays(start, 6) : getMonthRange(start).end;
+}
+
+function getStreakUnit(habit: Habit): StreakUnit {
+  if (habit.recurrence?.type === 'monthly_count') return 'month';
+  if (habit.recurrence) return 'day';
+  if (habit.specific_days && habit.specific_days.length > 0) return 'day';
+  return habit.frequency_per_week >= 7 ? 'day' : 'week';
+}
+
+// Walk a habit's history period by period. Snoozed, frozen and still-open
+// periods are neutral: they neither extend nor break the streak.
+function buildStreakPeriods(
+  habit: Habit,
+  unit: StreakUnit,
+  completions: HabitCompletion[],
+  snoozedDates: Set<string>,
+  frozenPeriods: Set<string>,
+  referenceDate: string
+): StreakPeriod[] {
+  const createdDate = habit.created_at.slice(0, 10);
+  const metDates = new Set(
+    completions
+      .filter((c) => c.habit_id === habit.id && isCompletionMet(habit, c))
+      .map((c) => c.completed_date)
+  );
+
+  if (unit === 'day') {
+    return getDatesInRange(createdDate, referenceDate)
+      .filter((date) => getHabitsForDay([habit], parseLocalDate(date).getDay(), date).length > 0)
+      .map((date) => {
+        if (metDates.has(date)) return { start: date, result: 'met' };
+        if (date === referenceDate || snoozedDates.has(date) || frozenPeriods.has(date)) {
+          return { start: date, result: 'neutral' };
+        }
+        return { start: date, result: 'missed' };
+      });
+  }
+
+  const periods: StreakPeriod[] = [];
+  let start =
+    unit === 'week'
+      ? addDays(createdDate, -parseLocalDate(createdDate).getDay())
+      : getMonthRange(createdDate).start;
+
+  while (start <= referenceDate) {
+    const end = unit === 'week' ? addDays(start, 6) : getMonthRange(start).end;
+    const target =
+      unit === 'week'
+        ? habit.frequency_per_week
+        : habit.recurrence?.type === 'monthly_count' ? habit.recurrence.times_per_month : 0;
+    // Days before the habit existed or snoozed days can't be expected to count
+    const availableDays = getDatesInRange(start > createdDate ? start : createdDate, end).filter(
+      (date) => !snoozedDates.has(date)
+    ).length;
+    const required = Math.min(target, availableDays);
+    const met = getDatesInRange(start, end).filter((date) => metDates.has(date)).length;
+
+    let result: PeriodResult;
+    if (required <= 0 || frozenPeriods.has(start)) result = met > 0 ? 'met' : 'neutral';
+    else if (met >= required) result = 'met';
+    else result = end >= referenceDate ? 'neutral' : 'missed';
+
+    periods.push({ start, result });
+    start = addDays(end, 1);
+  }
+  return periods;
+}
+
+// Current and longest streak for one habit, respecting its schedule:
+// a Mon/Wed/Fri habit isn't broken by an empty Tuesday, snoozed days are
+// skipped, and frozen periods carry the streak across a miss.
+// Avoid habits use their clean run (days since the last slip).
+export function computeHabitStreak(
+  habit: Habit,
+  completions: HabitCompletion[],
+  snoozes: HabitSnooze[],
+  freezes: StreakFreeze[],
+  referenceDate: string = getTodayDate(),
+  slips: HabitSlip[] = []
+): HabitStreak {
+  if (isAvoidHabit(habit)) {
+    const { daysSinceLastSlip, longestCleanRun } = computeAbstinenceStats(habit, slips, referenceDate);
+    return {
+      habitId: habit.id,
+      unit: 'day',
+      current: daysSinceLastSlip,
+      longest: longestCleanRun,
+      freezesEarnedOn: [],
+      repairablePeriod: null,
+    };
+  }
+
+  const unit = getStreakUnit(habit);
+  const snoozedDates = new Set(
+    snoozes.filter((s) => s.habit_id === habit.id).map((s) => s.snoozed_date)
+  );
+  const frozenPeriods = new Set(
+    freezes.filter((f) => f.habit_id === habit.id).map((f) => f.freeze_date)
+  );
+  const periods = buildStreakPeriods(
+    habit,
+    unit,
+    completions,
+    snoozedDates,
+    frozenPeriods,
+    referenceDate
+  );
+
+  const earnEvery = FREEZE_EARN_EVERY[unit];
+  let current = 0;
+  let longest = 0;
+  const freezesEarnedOn: string[] = [];
+  let lastMiss: { start: string; runBefore: number } | null = null;
+
+  for (const period of periods) {
+    if (period.result === 'met') {
+      current++;
+      longest = Math.max(longest, current);
+      if (current % earnEvery === 0) {
+        // A week or month can be met before it ends
+        const end = getPeriodEnd(period.start, unit);
+        freezesEarnedOn.push(end < referenceDate ? end : referenceDate);
+      }
+    } else if (period.result === 'missed') {
+      lastMiss = { start: period.start, runBefore: current };
+      current = 0;
+    }
+  }
+
+  // Only the most recent miss, shortly after it happened, and only if it broke a real streak
+  let repairablePeriod: string | null = null;
+  if (lastMiss && lastMiss.runBefore > 0) {
+    if (dayDiff(getPeriodEnd(lastMiss.start, unit), referenceDate) <= FREEZE_GRACE_DAYS) {
+      repairablePeriod = lastMiss.start;
+    }
+  }
+
+  return { habitId: habit.id, unit, current, longest, freezesEarnedOn, repairablePeriod };
+}
+
+// Freezes available to spend. The bank is replayed day by day: a freeze earned
+// while MAX_BANKED_FREEZES are already held is lost, and each freeze used
+// takes one out. Freezes earned on a day count before those used that day.
+export function getFreezeBalance(streaks: HabitStreak[], freezes: StreakFreeze[]): number {
+  const events = [
+    ...streaks.flatMap((s) => s.freezesEarnedOn.map((date) => ({ date, change: 1 }))),
+    ...freezes.map((f) => ({ date: formatDate(new Date(f.created_at)), change: -1 })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.change - a.change);
+
+  let balance = 0;
+  for (const event of events) {
+    balance = Math.max(0, Math.min(MAX_BANKED_FREEZES, balance + event.change));
+  }
+  return balance;
+}
+
+// Format a streak for display, e.g. "5-day streak" or "3-week streak"
+export function formatStreak(count: number, unit: StreakUnit): string {
+  return `${count}-${unit} streak`;
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Reads every page of an ordered query; `fetchPage` selects rows from..to inclusive
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// All completions and snoozes (streaks need the full history)
+export async function getAllCompletions(): Promise<HabitCompletion[]> {
+  return fetchAllPages<HabitCompletion>((from, to) =>
+    supabase
+      .from('habit_completions')
+      .select('*')
+      .order('completed_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+export async function getAllSnoozes(): Promise<HabitSnooze[]> {
+  return fetchAllPages<HabitSnooze>((from, to) =>
+    supabase
+      .from('habit_snoozes')
+      .select('*')
+      .order('snoozed_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+}
+
+// Get the streak freezes the user has used
+export async function getStreakFreezes(): Promise<StreakFreeze[]> {
+  const { data, error } = await supabase
+    .from('streak_freezes')
+    .select('*')
+    .order('freeze_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Spend a freeze to cover a missed period of a habit's streak
+export async function applyStreakFreeze(
+  habitId: string,
+  userId: string,
+  periodStart: string
+): Promise<void> {
+  const { error } = await supabase.from('streak_freezes').insert({
+    habit_id: habitId,
+    user_id: userId,
+    freeze_date: periodStart,
+  });
+
+  if (error) throw error;
+}
+
 // Get completions for a range of dates (for calendar strip)
 export async function getCompletionsForDateRange(
   startDate: string,
@@ -331,6 +943,34 @@ function dayDiff(startDate: string, endDate: string): number {
   return Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
 }
 
+function addDays(dateStr: string, days: number): string {
+  const d = parseLocalDate(dateStr);
+  d.setDate(d.getDate() + days);
+  return formatDate(d);
+}
+
+function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+function getDaysInMonth(dateStr: string): number {
+  const d = parseLocalDate(dateStr);
+  return new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+}
+
+// Helper: get the first and last day of the month containing a date
+export function getMonthRange(dateStr: string): { start: string; end: string } {
+  const d = parseLocalDate(dateStr);
+  return {
+    start: formatDate(new Date(d.getFullYear(), d.getMonth(), 1)),
+    end: formatDate(new Date(d.getFullYear(), d.getMonth() + 1, 0)),
+  };
+}
+
 export function getWeekRange(weekOffset: number): {
   start: string;
   end: string;
@@ -355,36 +995,82 @@ export function getWeekRange(weekOffset: number): {
   };
 }
 
+// Per-habit stats for the week ending `weekEnd`. Only the week's completions
+// are counted; pass completions from the start of weekStart's month so
+// monthly-count habits are judged against month-to-date progress.
 export function computeWeeklyAdherence(
   habits: Habit[],
   completions: HabitCompletion[],
   weekEnd: string,
-  referenceDate: string = getTodayDate()
+  referenceDate: string = getTodayDate(),
+  slips: HabitSlip[] = []
 ): HabitWeeklyStats[] {
   const weekEnded = weekEnd < referenceDate;
-  const completionDatesByHabit = new Map<string, Set<string>>();
+  const habitsById = new Map(habits.map((h) => [h.id, h]));
+  const progressByHabit = new Map<string, Map<string, number>>();
+
+  const weekStart = addDays(weekEnd, -6);
+  // Met completions earlier in the month, which monthly-count targets build on
+  const monthMetDates = new Map<string, string[]>();
 
   for (const completion of completions) {
-    if (!completionDatesByHabit.has(completion.habit_id)) {
-      completionDatesByHabit.set(completion.habit_id, new Set<string>());
+    const habit = habitsById.get(completion.habit_id);
+    if (!habit || completion.completed_date > weekEnd) continue;
+    if (completion.completed_date < weekStart) {
+      if (isCompletionMet(habit, completion)) {
+        const dates = monthMetDates.get(habit.id) ?? [];
+        dates.push(completion.completed_date);
+        monthMetDates.set(habit.id, dates);
+      }
+      continue;
     }
-    completionDatesByHabit.get(completion.habit_id)!.add(completion.completed_date);
+    if (!progressByHabit.has(completion.habit_id)) {
+      progressByHabit.set(completion.habit_id, new Map<string, number>());
+    }
+    progressByHabit
+      .get(completion.habit_id)!
+      .set(completion.completed_date, getCompletionProgress(habit, completion));
   }
 
   const stats = habits.map((habit): HabitWeeklyStats => {
-    const targetDays =
-      habit.specific_days && habit.specific_days.length > 0
-        ? habit.specific_days.length
-        : habit.frequency_per_week;
-    const completedDays = completionDatesByHabit.get(habit.id)?.size ?? 0;
-    const adherencePercent = targetDays > 0 ? Math.min(100, Math.round((completedDays / targetDays) * 100)) : 0;
+    if (isAvoidHabit(habit)) {
+      return computeAvoidWeeklyStats(habit, slips, weekStart, weekEnd, referenceDate);
+    }
+
+    const recurrence = habit.recurrence;
+    const scheduledDays =
+      recurrence && recurrence.type !== 'monthly_count'
+        ? getDatesInRange(weekStart, weekEnd)
+            .filter((date) => isRecurrenceDueOn(recurrence, date))
+            .map((date) => parseLocalDate(date).getDay())
+        : undefined;
+    const dayProgress = Object.fromEntries(progressByHabit.get(habit.id) ?? []);
+    const completedDates = Object.keys(dayProgress).filter((date) => dayProgress[date] >= 1);
+    const completedDays = completedDates.length;
+    const targetDays = getTargetDaysForRange(
+      habit,
+      weekStart,
+      weekEnd,
+      monthMetDates.get(habit.id) ?? []
+    );
+    const progressDays = Math.min(
+      targetDays,
+      Object.values(dayProgress).reduce((sum, p) => sum + p, 0)
+    );
+    const adherencePercent =
+      targetDays > 0
+        ? Math.min(100, Math.round((progressDays / targetDays) * 100))
+        : completedDays > 0 ? 100 : 0;
 
     let status: HabitWeeklyStatus;
     if (weekEnded) {
       status = completedDays >= targetDays ? 'met' : 'missed';
     } else {
       const remainingNeeded = Math.max(targetDays - completedDays, 0);
-      const remainingDaysIncludingToday = Math.max(dayDiff(referenceDate, weekEnd) + 1, 0);
+      const remainingDaysIncludingToday =
+        recurrence && recurrence.type !== 'monthly_count'
+          ? getDatesInRange(referenceDate, weekEnd).filter((date) => isRecurrenceDueOn(recurrence, date)).length
+          : Math.max(dayDiff(referenceDate, weekEnd) + 1, 0);
 
       if (remainingNeeded > remainingDaysIncludingToday) {
         status = 'behind';
@@ -399,7 +1085,10 @@ export function computeWeeklyAdherence(
       targetDays,
       adherencePercent,
       status,
-      completedDates: Array.from(completionDatesByHabit.get(habit.id) ?? []),
+      completedDates,
+      dayProgress,
+      progressDays,
+      scheduledDays,
     };
   });
 
@@ -410,20 +1099,105 @@ export function computeWeeklyAdherence(
     met: 3,
   };
 
-  return stats.sort((a, b) => {
+  // Recurring habits with nothing due (e.g. every 14 days, off week) drop out unless logged
+  return stats.filter((s) => s.targetDays > 0 || s.completedDays > 0).sort((a, b) => {
     if (rank[a.status] !== rank[b.status]) return rank[a.status] - rank[b.status];
     if (a.adherencePercent !== b.adherencePercent) return a.adherencePercent - b.adherencePercent;
     return a.habit.name.localeCompare(b.habit.name);
   });
 }
 
+export interface WeeklyAdherencePoint {
+  weekStart: string; // Sunday, YYYY-MM-DD
+  weekEnd: string; // Saturday, YYYY-MM-DD
+  stats: HabitWeeklyStats[];
+}
+
+// computeWeeklyAdherence for each of the `weeks` full weeks before
+// `referenceDate`, oldest first. Weeks before a habit existed would read as
+// misses, so each week only covers the habits created by its end.
+export function computeAdherenceByWeek(
+  habits: Habit[],
+  completions: HabitCompletion[],
+  referenceDate: string,
+  weeks: number = 12,
+  slips: HabitSlip[] = []
+): WeeklyAdherencePoint[] {
+  // Saturday ending the week before the reference date's week
+  const ref = parseLocalDate(referenceDate);
+  const lastWeekEnd = addDays(referenceDate, -ref.getDay() - 1);
+
+  const points: WeeklyAdherencePoint[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const weekEnd = addDays(lastWeekEnd, -i * 7);
+    const weekStart = addDays(weekEnd, -6);
+    const existing = habits.filter((h) => h.created_at.slice(0, 10) <= weekEnd);
+    const weekCompletions = completions.filter(
+      (c) => c.completed_date >= getMonthRange(weekStart).start && c.completed_date <= weekEnd
+    );
+    points.push({
+      weekStart,
+      weekEnd,
+      stats: computeWeeklyAdherence(existing, weekCompletions, weekEnd, referenceDate, slips),
+    });
+  }
+  return points;
+}
+
+// Weekly stats for an avoid habit: every day since the habit was created is a
+// target day, and each elapsed day without a slip counts as completed.
+// A week with no slips is on track (or met once it ends); any slip puts it behind.
+function computeAvoidWeeklyStats(
+  habit: Habit,
+  slips: HabitSlip[],
+  weekStart: string,
+  weekEnd: string,
+  referenceDate: string
+): HabitWeeklyStats {
+  const createdDate = habit.created_at.slice(0, 10);
+  const trackedStart = createdDate > weekStart ? createdDate : weekStart;
+  const elapsedEnd = referenceDate < weekEnd ? referenceDate : weekEnd;
+
+  const weekSlips = slips.filter(
+    (s) => s.habit_id === habit.id && s.slip_date >= weekStart && s.slip_date <= weekEnd
+  );
+  const slipDates = Array.from(new Set(weekSlips.map((s) => s.slip_date))).sort();
+  const completedDates = getDatesInRange(trackedStart, elapsedEnd).filter(
+    (date) => !slipDates.includes(date)
+  );
+  const targetDays = getDatesInRange(trackedStart, weekEnd).length;
+  const completedDays = completedDates.length;
+  const elapsedDays = getDatesInRange(trackedStart, elapsedEnd).length;
+
+  let status: HabitWeeklyStatus;
+  if (weekEnd < referenceDate) {
+    status = slipDates.length === 0 ? 'met' : 'missed';
+  } else {
+    status = slipDates.length === 0 ? 'on_track' : 'behind';
+  }
+
+  return {
+    habit,
+    completedDays,
+    targetDays,
+    adherencePercent: elapsedDays > 0 ? Math.round((completedDays / elapsedDays) * 100) : 100,
+    status,
+    completedDates,
+    dayProgress: Object.fromEntries(completedDates.map((date) => [date, 1])),
+    progressDays: completedDays,
+    slipCount: weekSlips.length,
+    slipDates,
+  };
+}
+
 // ──────────────────────────────────────────────
 // Auto-completion from Health Data
 // ──────────────────────────────────────────────
 
 /**
  * Check all auto-complete habits for today and insert completions
- * for any that meet their health metric thresholds.
+ * for any that meet their health metric thresholds, except habits the
+ * user unchecked today.
  * Returns the list of habit IDs that were auto-completed.
  */
 export async function checkAutoCompletions(
@@ -444,9 +1218,19 @@ export async function checkAutoCompletions(
 
   if (autoCompleteHabits.length === 0) return [];
 
+  let skipped: Set<string>;
+  try {
+    skipped = await getAutoCompleteSkips(date);
+  } catch (error) {
+    console.error('Error loading auto-complete skips:', error);
+    captureError(error, { tag: 'habits.autoCompleteSkips' });
+    return [];
+  }
+
   const autoCompletedIds: string[] = [];
 
   for (const habit of autoCompleteHabits) {
+    if (skipped.has(`${habit.id}:${date}`)) continue;
     try {
       const currentValue = await getCurrentMetricValue(habit.metric_type!);
       if (currentValue === null) continue;
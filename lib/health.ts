@@ -1061,6 +1061,29 @@ export async function getWorkoutCountHistory(days: number = 30): Promise<MetricD
   }
 }
 
+/**
+ * Get total workout minutes per day history
+ */
+export async function getWorkoutMinutesHistory(days: number = 30): Promise<MetricDataPoint[]> {
+  try {
+    const workouts = await getRecentWorkouts(days);
+    const minutesByDay: Record<string, number> = {};
+
+    for (const w of workouts) {
+      const date = formatDateLocal(new Date(w.date));
+      minutesByDay[date] = (minutesByDay[date] || 0) + w.duration;
+    }
+
+    return Object.entries(minutesByDay)
+      .map(([date, value]) => ({ date, value }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error('Error fetching workout minutes history:', error);
+    captureError(error, { tag: 'health.workoutMinutesHistory' });
+    return [];
+  }
+}
+
 /**
  * Universal metric history dispatcher — fetches history for any metric by key.
  */
@@ -1114,6 +1137,84 @@ export async function getCurrentMetricValue(metricType: HealthMetricType): Promi
   }
 }
 
+/**
+ * Day-by-day history for a habit's linked metric, so auto-completion can be
+ * checked for days the app wasn't opened.
+ */
+export async function getHabitMetricHistory(
+  metricType: HealthMetricType,
+  days: number
+): Promise<MetricDataPoint[]> {
+  switch (metricType) {
+    case 'steps':
+      return getStepHistory(days);
+    case 'weight':
+      return getWeightHistory(days);
+    case 'resting_heart_rate':
+      return getRHRHistory(days);
+    case 'workout_minutes':
+      return getWorkoutMinutesHistory(days);
+    case 'body_fat_percentage':
+      return getBodyFatHistory(days);
+    case 'lean_body_mass':
+      return getLeanMassHistory(days);
+    case 'bmi':
+      return getBMIHistory(days);
+    case 'exercise_minutes':
+      return getExerciseHistory(days);
+    case 'time_in_daylight':
+      return getDaylightHistory(days);
+    case 'hrv':
+      return getHRVHistory(days);
+    default:
+      return [];
+  }
+}
+
+// ──────────────────────────────────────────────
+// Background delivery
+// ──────────────────────────────────────────────
+
+// HKUpdateFrequency.hourly — iOS batches wake-ups, so more often buys little
+const BACKGROUND_UPDATE_FREQUENCY = 2;
+
+/**
+ * Ask HealthKit to wake the app when new samples arrive for any type we read,
+ * and call onChange with the changed type identifier. Wake-ups only happen
+ * with the background-delivery entitlement (healthkit plugin `background`).
+ * Returns an unsubscribe function.
+ */
+export function subscribeToHealthChanges(onChange: (typeIdentifier: string) => void): () => void {
+  const mod = getModule();
+  if (!mod || !isIOS) return () => {};
+
+  const subscriptions: { remove: () => void }[] = [];
+  for (const identifier of READ_PERMISSIONS) {
+    try {
+      subscriptions.push(
+        mod.subscribeToChanges(identifier, (args: { typeIdentifier: string; errorMessage?: string }) => {
+          if (args.errorMessage) {
+            console.warn(`[HealthKit] Observer error for ${identifier}:`, args.errorMessage);
+            return;
+          }
+          onChange(args.typeIdentifier);
+        })
+      );
+      mod.enableBackgroundDelivery(identifier, BACKGROUND_UPDATE_FREQUENCY).catch((error: any) => {
+        if (!isAuthError(error)) {
+          captureError(error, { tag: 'health.backgroundDelivery', extra: { identifier } });
+        }
+      });
+    } catch (error) {
+      console.warn(`[HealthKit] Could not observe ${identifier}:`, error);
+    }
+  }
+
+  return () => {
+    for (const subscription of subscriptions) subscription.remove();
+  };
+}
+
 // ──────────────────────────────────────────────
 // Helpers
 // ──────────────────────────────────────────────
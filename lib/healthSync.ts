@@ -0,0 +1,265 @@
+import { captureError } from './sentry';
+import { supabase } from './supabase';
+import { getGoals } from './goals';
+import { aggregateDailyValues, getGoalHealthSource, getHealthSourceHistory } from './goalSources';
+import {
+  formatDate,
+  getAutoCompleteSkips,
+  getHabits,
+  getHabitsForDay,
+  getTodayDate,
+} from './habits';
+import { checkHealthAuthorization, getHabitMetricHistory, isHealthKitAvailable } from './health';
+import type { Goal, GoalType, Habit, HealthMetricType, HealthSyncStatus } from './types';
+
+// ──────────────────────────────────────────────
+// Background HealthKit → Supabase sync
+// ──────────────────────────────────────────────
+// Server-side features (weekly recaps, evening calls) can't read HealthKit,
+// so the app pushes new data as it arrives: Apple Health goals into
+// goal_entries and auto-complete habits into habit_completions (except on
+// days the user unchecked them, see habit_auto_complete_skips). Each source
+// keeps a cursor in health_sync_status (synced_through) so a sync only reads
+// the days since the last one. A goal added or edited since then reads back to
+// its start date instead, since the shared cursor says nothing about it.
+
+// Days read on a source's first sync — covers last week's recap
+export const HEALTH_SYNC_INITIAL_DAYS = 14;
+// Longest catch-up after a gap; older days are left as they were
+export const HEALTH_SYNC_MAX_DAYS = 30;
+
+export interface HealthSyncResult {
+  synced: string[]; // sources now synced through today
+  failed: string[];
+  written: number; // goal entries and habit completions sent
+}
+
+export function goalSyncSource(goalType: GoalType): string {
+  return `goal:${goalType}`;
+}
+
+export function habitSyncSource(metricType: HealthMetricType): string {
+  return `habit:${metricType}`;
+}
+
+export async function getHealthSyncStatuses(): Promise<HealthSyncStatus[]> {
+  const { data, error } = await supabase.from('health_sync_status').select('*');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Days a source's next sync reads, today included. The day of the last sync
+ * is read again because it was probably still in progress.
+ */
+export function getSyncWindowDays(syncedThrough: string | null, today: string): number {
+  if (!syncedThrough) return HEALTH_SYNC_INITIAL_DAYS;
+  const gap = Math.round(
+    (new Date(today + 'T12:00:00').getTime() - new Date(syncedThrough + 'T12:00:00').getTime()) /
+      86_400_000
+  );
+  return Math.min(Math.max(gap + 1, 1), HEALTH_SYNC_MAX_DAYS);
+}
+
+let syncing: Promise<HealthSyncResult> | null = null;
+
+/**
+ * Push HealthKit data recorded since each source's last sync. Overlapping
+ * calls (several observers firing at once) share one run. Safe to repeat:
+ * goal entries upsert on (goal_id, recorded_date) and existing habit
+ * completions are left alone.
+ */
+export function syncHealthData(userId: string): Promise<HealthSyncResult> {
+  if (!syncing) {
+    syncing = runHealthSync(userId).finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+interface SyncJob {
+  source: string;
+  // Pushes data for `days` days ending today, from `fromDate` on; returns rows sent
+  run: (days: number, fromDate: string) => Promise<number>;
+  // Earliest day the source's cursor doesn't cover yet, if any
+  backfillFrom?: (syncedThrough: string) => string | null;
+}
+
+async function runHealthSync(userId: string): Promise<HealthSyncResult> {
+  const result: HealthSyncResult = { synced: [], failed: [], written: 0 };
+  if (!isHealthKitAvailable()) return result;
+  // Without read access every fetcher returns nothing, which would look synced
+  if (!(await checkHealthAuthorization())) return result;
+
+  const [goals, habits, statuses] = await Promise.all([
+    getGoals(),
+    getHabits(),
+    getHealthSyncStatuses(),
+  ]);
+  const cursors = new Map(statuses.map((s) => [s.source, s.synced_through]));
+  const jobs = [...getGoalSyncJobs(userId, goals), ...getHabitSyncJobs(userId, habits)];
+  if (jobs.length === 0) return result;
+
+  const today = getTodayDate();
+  const failures: { source: string; message: string }[] = [];
+
+  await Promise.all(
+    jobs.map(async (job) => {
+      const syncedThrough = cursors.get(job.source) ?? null;
+      const days = getSyncWindowDays(
+        (syncedThrough && job.backfillFrom?.(syncedThrough)) || syncedThrough,
+        today
+      );
+      const fromDate = addDays(today, -(days - 1));
+      try {
+        result.written += await job.run(days, fromDate);
+        result.synced.push(job.source);
+      } catch (error) {
+        console.warn(`[healthSync] ${job.source} failed:`, error);
+        captureError(error, { tag: 'healthSync.source', extra: { source: job.source } });
+        result.failed.push(job.source);
+        failures.push({ source: job.source, message: getErrorMessage(error) });
+      }
+    })
+  );
+
+  await recordSyncStatus(userId, today, result.synced, failures);
+  return result;
+}
+
+// One job per goal type with active Apple Health goals
+function getGoalSyncJobs(userId: string, goals: Goal[]): SyncJob[] {
+  const goalsByType = new Map<GoalType, Goal[]>();
+  for (const goal of goals) {
+    if (goal.data_source !== 'apple_health' || !getGoalHealthSource(goal.goal_type)) continue;
+    goalsByType.set(goal.goal_type, [...(goalsByType.get(goal.goal_type) ?? []), goal]);
+  }
+
+  return [...goalsByType.entries()].map(([goalType, typeGoals]) => ({
+    source: goalSyncSource(goalType),
+    backfillFrom: (syncedThrough) => {
+      let earliest: string | null = null;
+      for (const goal of typeGoals) {
+        const startDate = goal.start_date.split('T')[0];
+        const changedOn = goal.updated_at.split('T')[0];
+        if (startDate >= syncedThrough || changedOn < syncedThrough) continue;
+        if (earliest === null || startDate < earliest) earliest = startDate;
+      }
+      return earliest;
+    },
+    run: async (days, fromDate) => {
+      const history = await getHealthSourceHistory(getGoalHealthSource(goalType)!, days);
+      const rows = typeGoals.flatMap((goal) => {
+        const startDate = goal.start_date.split('T')[0];
+        return history
+          .filter((p) => p.date >= fromDate && p.date >= startDate)
+          .map((p) => ({ goal_id: goal.id, user_id: userId, value: p.value, recorded_date: p.date }));
+      });
+      if (rows.length === 0) return 0;
+
+      const { error } = await supabase
+        .from('goal_entries')
+        .upsert(rows, { onConflict: 'goal_id,recorded_date' });
+      if (error) throw error;
+      return rows.length;
+    },
+  }));
+}
+
+// One job per health metric linked to auto-complete habits
+function getHabitSyncJobs(userId: string, habits: Habit[]): SyncJob[] {
+  const habitsByMetric = new Map<HealthMetricType, Habit[]>();
+  for (const habit of habits) {
+    if (!habit.auto_complete || !habit.metric_type || habit.metric_threshold == null) continue;
+    habitsByMetric.set(habit.metric_type, [...(habitsByMetric.get(habit.metric_type) ?? []), habit]);
+  }
+
+  return [...habitsByMetric.entries()].map(([metricType, metricHabits]) => ({
+    source: habitSyncSource(metricType),
+    run: async (days, fromDate) => {
+      const history = aggregateDailyValues(await getHabitMetricHistory(metricType, days), 'latest');
+      const skipped = await getAutoCompleteSkips(fromDate);
+      const rows: { habit_id: string; user_id: string; completed_date: string }[] = [];
+
+      for (const point of history) {
+        if (point.date < fromDate) continue;
+        const dayOfWeek = new Date(point.date + 'T12:00:00').getDay();
+        for (const habit of getHabitsForDay(metricHabits, dayOfWeek, point.date)) {
+          if (formatDate(new Date(habit.created_at)) > point.date) continue;
+          if (point.value < habit.metric_threshold!) continue;
+          if (skipped.has(`${habit.id}:${point.date}`)) continue;
+          rows.push({ habit_id: habit.id, user_id: userId, completed_date: point.date });
+        }
+      }
+      if (rows.length === 0) return 0;
+
+      // ignoreDuplicates keeps logged quantities on days already completed
+      const { error } = await supabase
+        .from('habit_completions')
+        .upsert(rows, { onConflict: 'habit_id,completed_date', ignoreDuplicates: true });
+      if (error) throw error;
+      return rows.length;
+    },
+  }));
+}
+
+async function recordSyncStatus(
+  userId: string,
+  today: string,
+  synced: string[],
+  failures: { source: string; message: string }[]
+): Promise<void> {
+  const now = new Date().toISOString();
+  const writes = [];
+
+  if (synced.length > 0) {
+    writes.push(
+      supabase.from('health_sync_status').upsert(
+        synced.map((source) => ({
+          user_id: userId,
+          source,
+          synced_through: today,
+          last_synced_at: now,
+          last_error: null,
+        })),
+        { onConflict: 'user_id,source' }
+      )
+    );
+  }
+  // Failed sources keep their cursor so the next sync retries the same days
+  if (failures.length > 0) {
+    writes.push(
+      supabase.from('health_sync_status').upsert(
+        failures.map(({ source, message }) => ({ user_id: userId, source, last_error: message })),
+        { onConflict: 'user_id,source' }
+      )
+    );
+  }
+
+  for (const { error } of await Promise.all(writes)) {
+    if (error) {
+      console.error('[healthSync] Failed to record sync status:', error);
+      captureError(error, { tag: 'healthSync.status' });
+    }
+  }
+}
+
+// ──────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────
+
+// Days the user unchecked an auto-complete habit, as `${habit_id}:${date}`
+function addDays(dateStr: string, days: number): string {
+  const date = new Date(dateStr + 'T12:00:00');
+  date.setDate(date.getDate() + days);
+  return formatDate(date);
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
@@ -0,0 +1,209 @@
+import { MetricDataPoint } from './health';
+import { computeWeeklyAdherence, getMonthRange } from './habits';
+import { HIGH_ADHERENCE_PERCENT, pearsonCorrelation } from './goalMath';
+import type { DailyJournalEntry, Habit, HabitCompletion, HabitSlip, JournalRatings } from './types';
+
+// ──────────────────────────────────────────────
+// Ratings
+// ──────────────────────────────────────────────
+
+export type JournalRatingKey = 'mood' | 'energy' | 'stress';
+
+export interface JournalRatingScale {
+  key: JournalRatingKey;
+  label: string;
+  emojis: [string, string, string, string, string]; // for ratings 1–5
+  lowLabel: string;
+  highLabel: string;
+}
+
+export const JOURNAL_RATING_SCALES: JournalRatingScale[] = [
+  { key: 'mood', label: 'Mood', emojis: ['😞', '🙁', '😐', '🙂', '😄'], lowLabel: 'Low', highLabel: 'Great' },
+  { key: 'energy', label: 'Energy', emojis: ['😴', '🥱', '😐', '🙂', '⚡'], lowLabel: 'Drained', highLabel: 'Energized' },
+  { key: 'stress', label: 'Stress', emojis: ['😌', '🙂', '😐', '😬', '😫'], lowLabel: 'Calm', highLabel: 'Stressed' },
+];
+
+// Stored lowercase in daily_journal_entries.emotions
+export const EMOTION_TAGS = [
+  'happy',
+  'calm',
+  'grateful',
+  'proud',
+  'excited',
+  'hopeful',
+  'content',
+  'tired',
+  'anxious',
+  'stressed',
+  'frustrated',
+  'sad',
+  'lonely',
+  'overwhelmed',
+] as const;
+
+export const EMPTY_JOURNAL_RATINGS: JournalRatings = {
+  mood: null,
+  energy: null,
+  stress: null,
+  emotions: [],
+};
+
+/** An entry's ratings; entries cached before ratings existed have none */
+export function getJournalRatings(entry: DailyJournalEntry | null | undefined): JournalRatings {
+  return {
+    mood: entry?.mood ?? null,
+    energy: entry?.energy ?? null,
+    stress: entry?.stress ?? null,
+    emotions: entry?.emotions ?? [],
+  };
+}
+
+export function hasJournalRatings(ratings: JournalRatings): boolean {
+  return (
+    ratings.mood !== null ||
+    ratings.energy !== null ||
+    ratings.stress !== null ||
+    ratings.emotions.length > 0
+  );
+}
+
+/** One point per rated day, oldest first */
+export function getRatingSeries(entries: DailyJournalEntry[], key: JournalRatingKey): MetricDataPoint[] {
+  return entries
+    .filter((e) => e[key] != null)
+    .map((e) => ({ date: e.journal_date, value: e[key]! }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function averageRating(entries: DailyJournalEntry[], key: JournalRatingKey): number | null {
+  return mean(getRatingSeries(entries, key).map((p) => p.value));
+}
+
+/** Most-tagged emotions, most frequent first (ties keep EMOTION_TAGS order) */
+export function getTopEmotions(entries: DailyJournalEntry[], limit: number = 3): string[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const emotion of entry.emotions ?? []) {
+      counts.set(emotion, (counts.get(emotion) ?? 0) + 1);
+    }
+  }
+  const order = (emotion: string) => {
+    const index = (EMOTION_TAGS as readonly string[]).indexOf(emotion);
+    return index === -1 ? EMOTION_TAGS.length : index;
+  };
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || order(a[0]) - order(b[0]))
+    .slice(0, limit)
+    .map(([emotion]) => emotion);
+}
+
+// ──────────────────────────────────────────────
+// Mood ↔ Habit Adherence
+// ──────────────────────────────────────────────
+
+const MIN_WEEKS_PER_GROUP = 2;
+
+export interface WeeklyMoodPoint {
+  weekEnd: string; // Saturday, YYYY-MM-DD
+  adherencePercent: number | null; // mean across habits, null before any existed
+  mood: number | null; // mean rating over the week's rated days
+  energy: number | null;
+  stress: number | null;
+  ratedDays: number;
+}
+
+export interface MoodAdherenceCorrelation {
+  pairedWeeks: number;
+  correlation: number | null; // Pearson r between adherence and mood
+  highAdherenceMood: number | null; // mean mood in weeks at or above the threshold
+  lowAdherenceMood: number | null; // mean mood in the other weeks
+  highAdherenceWeeks: number;
+  lowAdherenceWeeks: number;
+  comparable: boolean; // enough weeks on both sides to compare
+}
+
+/**
+ * Habit adherence (from computeWeeklyAdherence) alongside the week's average
+ * journal ratings, for the `weeks` full weeks before `referenceDate`.
+ */
+export function computeWeeklyMoodSeries(
+  habits: Habit[],
+  completions: HabitCompletion[],
+  entries: DailyJournalEntry[],
+  referenceDate: string,
+  weeks: number = 12,
+  slips: HabitSlip[] = []
+): WeeklyMoodPoint[] {
+  // Saturday ending the week before the reference date's week
+  const ref = new Date(`${referenceDate}T12:00:00`);
+  ref.setDate(ref.getDate() - ref.getDay() - 1);
+
+  const series: WeeklyMoodPoint[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const end = new Date(ref);
+    end.setDate(ref.getDate() - i * 7);
+    const start = new Date(end);
+    start.setDate(end.getDate() - 6);
+    const weekEnd = formatDateLocal(end);
+    const weekStart = formatDateLocal(start);
+
+    // Weeks before a habit existed would read as misses
+    const existing = habits.filter((h) => h.created_at.slice(0, 10) <= weekEnd);
+    const weekCompletions = completions.filter(
+      (c) => c.completed_date >= getMonthRange(weekStart).start && c.completed_date <= weekEnd
+    );
+    const stats = computeWeeklyAdherence(existing, weekCompletions, weekEnd, referenceDate, slips);
+    const adherencePercent = mean(stats.map((s) => s.adherencePercent));
+
+    const weekEntries = entries.filter(
+      (e) => e.journal_date >= weekStart && e.journal_date <= weekEnd
+    );
+    series.push({
+      weekEnd,
+      adherencePercent,
+      mood: averageRating(weekEntries, 'mood'),
+      energy: averageRating(weekEntries, 'energy'),
+      stress: averageRating(weekEntries, 'stress'),
+      ratedDays: weekEntries.filter((e) => e.mood != null).length,
+    });
+  }
+  return series;
+}
+
+/** Compares mood in weeks of strong habit adherence with the rest */
+export function computeMoodAdherenceCorrelation(
+  series: WeeklyMoodPoint[],
+  threshold: number = HIGH_ADHERENCE_PERCENT
+): MoodAdherenceCorrelation {
+  const pairs = series
+    .filter((w) => w.adherencePercent !== null && w.mood !== null)
+    .map((w) => ({ adherence: w.adherencePercent!, mood: w.mood! }));
+
+  const high = pairs.filter((p) => p.adherence >= threshold).map((p) => p.mood);
+  const low = pairs.filter((p) => p.adherence < threshold).map((p) => p.mood);
+
+  return {
+    pairedWeeks: pairs.length,
+    correlation: pearsonCorrelation(
+      pairs.map((p) => p.adherence),
+      pairs.map((p) => p.mood)
+    ),
+    highAdherenceMood: mean(high),
+    lowAdherenceMood: mean(low),
+    highAdherenceWeeks: high.length,
+    lowAdherenceWeeks: low.length,
+    comparable: high.length >= MIN_WEEKS_PER_GROUP && low.length >= MIN_WEEKS_PER_GROUP,
+  };
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function formatDateLocal(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,107 @@
+import { supabase } from './supabase';
+import { formatDate } from './habits';
+import type { JournalReflection } from './types';
+
+// Mirrored in supabase/functions/generate-journal-reflection
+export const MIN_RANGE_REFLECTION_ENTRIES = 3;
+export const MAX_REFLECTION_RANGE_DAYS = 366;
+
+// Range lengths offered in the journal history
+export const REFLECTION_RANGE_PRESETS = [7, 30, 90, 365] as const;
+
+export type JournalReflectionRequest =
+  | { scope: 'entry'; journalDate: string; regenerate?: boolean }
+  | { scope: 'range'; startDate: string; endDate: string; regenerate?: boolean };
+
+export interface JournalReflectionResult {
+  reflection?: JournalReflection;
+  already_existed?: boolean;
+  skipped?: boolean;
+  reason?: string;
+  entry_count?: number;
+  error?: string;
+  retryable?: boolean;
+  generation_time_ms?: number;
+}
+
+export async function getJournalReflections(): Promise<JournalReflection[]> {
+  const { data, error } = await supabase
+    .from('journal_reflections')
+    .select('*')
+    .order('end_date', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function deleteJournalReflection(reflectionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('journal_reflections')
+    .delete()
+    .eq('id', reflectionId);
+
+  if (error) throw error;
+}
+
+export async function requestJournalReflection(
+  request: JournalReflectionRequest,
+): Promise<JournalReflectionResult> {
+  const body =
+    request.scope === 'entry'
+      ? { scope: 'entry', journal_date: request.journalDate, regenerate: request.regenerate }
+      : {
+          scope: 'range',
+          start_date: request.startDate,
+          end_date: request.endDate,
+          regenerate: request.regenerate,
+        };
+
+  const { data, error } = await supabase.functions.invoke(
+    'generate-journal-reflection',
+    { body },
+  );
+
+  if (error) {
+    return { error: error.message, retryable: true };
+  }
+
+  return data;
+}
+
+/** The `days`-long range ending on (and including) `endDate`. */
+export function getReflectionRange(
+  days: number,
+  endDate: string,
+): { startDate: string; endDate: string } {
+  const start = new Date(endDate + 'T12:00:00');
+  start.setDate(start.getDate() - (days - 1));
+  return { startDate: formatDate(start), endDate };
+}
+
+/** Reflections for single entries, keyed by journal date. */
+export function getEntryReflectionsByDate(
+  reflections: JournalReflection[],
+): Map<string, JournalReflection & { scope: 'entry' }> {
+  const byDate = new Map<string, JournalReflection & { scope: 'entry' }>();
+  for (const reflection of reflections) {
+    if (reflection.scope === 'entry') byDate.set(reflection.start_date, reflection);
+  }
+  return byDate;
+}
+
+export function formatReflectionRange(startDate: string, endDate: string): string {
+  const start = new Date(startDate + 'T12:00:00');
+  const end = new Date(endDate + 'T12:00:00');
+  const sameYear = start.getFullYear() === end.getFullYear();
+  const startLabel = start.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(sameYear ? {} : { year: 'numeric' }),
+  });
+  const endLabel = end.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return `${startLabel} – ${endLabel}`;
+}
@@ -0,0 +1,128 @@
+import type { UserSettings } from './userSettings';
+import type { DailyJournalEntry, JournalAnswer, JournalPrompt, JournalTemplate } from './types';
+
+// Built-in "Win · Tension · Gratitude" template, seeded with this id in
+// migration 025. Used when no template is chosen and as the offline fallback.
+export const DEFAULT_JOURNAL_TEMPLATE_ID = '00000000-0000-4000-8000-000000000001';
+
+export const DEFAULT_JOURNAL_TEMPLATE: JournalTemplate = {
+  id: DEFAULT_JOURNAL_TEMPLATE_ID,
+  user_id: null,
+  name: 'Win · Tension · Gratitude',
+  emoji: '🏆',
+  prompts: [
+    { id: 'win', label: 'One Win', hint: 'What went well today?', placeholder: 'I accomplished...', emoji: '🏆' },
+    {
+      id: 'tension',
+      label: 'One Point of Tension',
+      hint: 'What challenged you today?',
+      placeholder: 'I struggled with...',
+      emoji: '🔥',
+    },
+    {
+      id: 'gratitude',
+      label: 'One Gratitude',
+      hint: 'What are you grateful for?',
+      placeholder: "I'm grateful for...",
+      emoji: '🙏',
+    },
+  ],
+  prompts_per_day: null,
+  sort_order: 0,
+  is_active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+export const MAX_JOURNAL_ANSWER_LENGTH = 500;
+// Single-prompt (free-form) templates get a longer entry
+export const MAX_FREE_WRITE_LENGTH = 5000;
+
+/** The template id that applies on a weekday: schedule override, then the default */
+export function getJournalTemplateId(
+  settings: Pick<UserSettings, 'journal_template_id' | 'journal_template_schedule'>,
+  dayOfWeek: number,
+): string {
+  return (
+    settings.journal_template_schedule[dayOfWeek] ??
+    settings.journal_template_id ??
+    DEFAULT_JOURNAL_TEMPLATE_ID
+  );
+}
+
+/**
+ * The template to journal with on `date`. Falls back to the built-in default
+ * when the chosen template was deleted or hasn't loaded.
+ */
+export function getJournalTemplateForDate(
+  templates: JournalTemplate[],
+  settings: Pick<UserSettings, 'journal_template_id' | 'journal_template_schedule'>,
+  date: string,
+): JournalTemplate {
+  const dayOfWeek = new Date(date + 'T12:00:00').getDay();
+  const templateId = getJournalTemplateId(settings, dayOfWeek);
+  return (
+    templates.find((t) => t.id === templateId && t.is_active) ??
+    templates.find((t) => t.id === DEFAULT_JOURNAL_TEMPLATE_ID) ??
+    DEFAULT_JOURNAL_TEMPLATE
+  );
+}
+
+/**
+ * The prompts a template asks on `date`. Templates with prompts_per_day show
+ * that many consecutive prompts, moving on by the same amount each day and
+ * wrapping around, so the whole list comes up in turn.
+ */
+export function getJournalPromptsForDate(template: JournalTemplate, date: string): JournalPrompt[] {
+  const { prompts, prompts_per_day: perDay } = template;
+  if (!perDay || perDay >= prompts.length) return prompts;
+
+  const dayNumber = Math.floor(Date.parse(date + 'T00:00:00Z') / 86_400_000);
+  const start = (((dayNumber * perDay) % prompts.length) + prompts.length) % prompts.length;
+  return Array.from({ length: perDay }, (_, i) => prompts[(start + i) % prompts.length]);
+}
+
+/**
+ * The prompts to show when opening an entry: the ones it already answered
+ * (with their hints if the template still has them), otherwise `fallback`.
+ */
+export function getJournalPromptsForEntry(
+  entry: DailyJournalEntry | null,
+  templates: JournalTemplate[],
+  fallback: JournalPrompt[],
+): JournalPrompt[] {
+  if (!entry || entry.answers.length === 0) return fallback;
+  const template = templates.find((t) => t.id === entry.template_id);
+  return entry.answers.map((answer) => {
+    const prompt = template?.prompts.find((p) => p.id === answer.prompt_id);
+    return prompt ? { ...prompt, label: answer.prompt } : { id: answer.prompt_id, label: answer.prompt };
+  });
+}
+
+export function buildJournalAnswers(
+  prompts: JournalPrompt[],
+  values: Record<string, string>,
+): JournalAnswer[] {
+  return prompts.map((p) => ({
+    prompt_id: p.id,
+    prompt: p.label,
+    answer: (values[p.id] ?? '').trim(),
+  }));
+}
+
+/** Converts the original win / tension / gratitude shape, e.g. from older queued writes */
+export function legacyJournalAnswers(win: string, tension: string, gratitude: string): JournalAnswer[] {
+  return buildJournalAnswers(DEFAULT_JOURNAL_TEMPLATE.prompts, { win, tension, gratitude });
+}
+
+/** An entry is complete once every prompt it asked has an answer */
+export function isJournalEntryComplete(entry: DailyJournalEntry | null | undefined): boolean {
+  return (
+    !!entry && entry.answers.length > 0 && entry.answers.every((a) => a.answer.trim() !== '')
+  );
+}
+
+/** First non-empty answer, for one-line previews */
+export function getJournalPreview(entry: DailyJournalEntry): string {
+  return entry.answers.find((a) => a.answer.trim() !== '')?.answer ?? '';
+}
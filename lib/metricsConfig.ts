@@ -1,6 +1,8 @@
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { HealthMetrics } from './health';
+import { getHealthSourceForMetric } from './goalSources';
 import { theme } from './theme';
+import type { GoalType } from './types';
 
 // ──────────────────────────────────────────────
 // Metric Definitions
@@ -15,15 +17,16 @@ export interface MetricDefinition {
   getValue: (metrics: HealthMetrics) => number | null;
   formatValue: (value: number | null) => string;
   getSubtitle?: (metrics: HealthMetrics) => string | undefined;
+  goalType?: GoalType; // goal type whose health source tracks this metric
 }
 
-export const ALL_METRICS: MetricDefinition[] = [
+// Metrics backed by a goal health source leave out `unit`; it comes from the source
+const METRIC_DEFINITIONS: Array<Omit<MetricDefinition, 'unit'> & { unit?: string }> = [
   {
     key: 'steps',
     title: 'Steps',
     icon: 'road',
     color: '#4CAF50',
-    unit: 'steps',
     getValue: (m) => m.steps,
     formatValue: (v) => {
       if (v === null) return '—';
@@ -45,7 +48,6 @@ export const ALL_METRICS: MetricDefinition[] = [
     title: 'Weight',
     icon: 'balance-scale',
     color: '#2196F3',
-    unit: 'lbs',
     getValue: (m) => m.weight,
     formatValue: (v) => (v === null ? '—' : `${v} lbs`),
   },
@@ -54,7 +56,6 @@ export const ALL_METRICS: MetricDefinition[] = [
     title: 'BMI',
     icon: 'calculator',
     color: '#607D8B',
-    unit: '',
     getValue: (m) => m.bodyMassIndex,
     formatValue: (v) => (v === null ? '—' : `${v}`),
   },
@@ -63,7 +64,6 @@ export const ALL_METRICS: MetricDefinition[] = [
     title: 'Body Fat',
     icon: 'pie-chart',
     color: '#9C27B0',
-    unit: '%',
     getValue: (m) => m.bodyFatPercentage,
     formatValue: (v) => (v === null ? '—' : `${v}%`),
   },
@@ -72,7 +72,6 @@ export const ALL_METRICS: MetricDefinition[] = [
     title: 'Lean Mass %',
     icon: 'child',
     color: '#00BCD4',
-    unit: '%',
     getValue: (m) => {
       if (m.leanBodyMass === null || m.weight === null || m.weight === 0) return null;
       return Math.round((m.leanBodyMass / m.weight) * 1000) / 10;
@@ -84,7 +83,6 @@ export const ALL_METRICS: MetricDefinition[] = [
     title: 'Resting HR',
     icon: 'heartbeat',
     color: '#E91E63',
-    unit: 'bpm',
     getValue: (m) => m.restingHeartRate,
     formatValue: (v) => (v === null ? '—' : `${v} bpm`),
   },
@@ -111,7 +109,6 @@ export const ALL_METRICS: MetricDefinition[] = [
     title: 'Workouts',
     icon: 'bolt',
     color: theme.colors.warning,
-    unit: 'workouts',
     getValue: (m) => m.workoutsThisWeek.length,
     formatValue: (v) => (v === null ? '—' : `${v}`),
     getSubtitle: (m) => {
@@ -121,6 +118,17 @@ export const ALL_METRICS: MetricDefinition[] = [
   },
 ];
 
+/**
+ * All metric cards. Metrics that a goal type reads from HealthKit take their
+ * unit from GOAL_HEALTH_SOURCES, so a metric and its goal always agree.
+ */
+export const ALL_METRICS: MetricDefinition[] = METRIC_DEFINITIONS.map((metric) => {
+  const match = getHealthSourceForMetric(metric.key);
+  return match
+    ? { ...metric, unit: match.source.unit, goalType: match.goalType }
+    : { ...metric, unit: metric.unit ?? '' };
+});
+
 /** Default visible metrics — excludes daylight and workouts */
 export const DEFAULT_VISIBLE_KEYS = ALL_METRICS
   .filter((m) => m.key !== 'daylight' && m.key !== 'workouts')
@@ -0,0 +1,111 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { supabase } from './supabase';
+import { queryKeys } from './queryClient';
+import {
+  getLoggedQuantity,
+  getTodayDate,
+  logHabitQuantity,
+  snoozeHabit,
+  toggleHabitCompletion,
+} from './habits';
+
+// Per-habit reminders carry "Done" and "Snooze" buttons. The actions run
+// without opening the app, so this module only talks to Supabase; the React
+// Query caches are refreshed once the app is back in the foreground.
+
+export const HABIT_REMINDER_CATEGORY_ID = 'habit-reminder';
+export const HABIT_DONE_ACTION_ID = 'habit-done';
+export const HABIT_SNOOZE_ACTION_ID = 'habit-snooze';
+
+export type HabitReminderAction = 'done' | 'snooze';
+export type HabitReminderActionResult = 'completed' | 'already_completed' | 'snoozed' | 'ignored';
+
+export interface HabitReminderResponse {
+  /** Identifier of the notification request the action came from */
+  notificationId: string;
+  actionIdentifier: string;
+  /** Notification payload as scheduled: habit_id, date, target_amount */
+  data: Record<string, unknown> | undefined;
+}
+
+// A response can reach us twice (live listener, then last-response on launch)
+const handledResponses = new Set<string>();
+let cachesStale = false;
+
+export function getHabitReminderAction(actionIdentifier: string): HabitReminderAction | null {
+  if (actionIdentifier === HABIT_DONE_ACTION_ID) return 'done';
+  if (actionIdentifier === HABIT_SNOOZE_ACTION_ID) return 'snooze';
+  return null;
+}
+
+// Mark the habit done for the reminder's day. Quantitative habits are topped
+// up to their target, matching a guided "Done" in the app.
+async function completeFromReminder(
+  habitId: string,
+  userId: string,
+  date: string,
+  targetAmount: number | null,
+): Promise<HabitReminderActionResult> {
+  const { data: existing, error } = await supabase
+    .from('habit_completions')
+    .select('quantity')
+    .eq('habit_id', habitId)
+    .eq('completed_date', date);
+
+  if (error) throw error;
+
+  const completion = existing && existing.length > 0 ? existing[0] : null;
+
+  if (targetAmount) {
+    const logged = getLoggedQuantity(completion, targetAmount);
+    if (logged >= targetAmount) return 'already_completed';
+    await logHabitQuantity(habitId, userId, date, targetAmount - logged);
+    return 'completed';
+  }
+
+  if (completion) return 'already_completed';
+  await toggleHabitCompletion(habitId, userId, date, false);
+  return 'completed';
+}
+
+export async function handleHabitReminderResponse(
+  response: HabitReminderResponse,
+  userId: string,
+): Promise<HabitReminderActionResult> {
+  const action = getHabitReminderAction(response.actionIdentifier);
+  const habitId = response.data?.habit_id;
+  if (!action || typeof habitId !== 'string') return 'ignored';
+
+  // Repeating reminders carry no date and keep their id from week to week
+  const date = typeof response.data?.date === 'string' ? response.data.date : getTodayDate();
+  const key = `${response.notificationId}:${response.actionIdentifier}:${date}`;
+  if (handledResponses.has(key)) return 'ignored';
+  handledResponses.add(key);
+
+  const targetAmount =
+    typeof response.data?.target_amount === 'number' ? response.data.target_amount : null;
+
+  try {
+    const result =
+      action === 'done'
+        ? await completeFromReminder(habitId, userId, date, targetAmount)
+        : (await snoozeHabit(habitId, userId, date), 'snoozed' as const);
+    if (result !== 'already_completed') cachesStale = true;
+    return result;
+  } catch (error) {
+    // Let a retry of the same response through
+    handledResponses.delete(key);
+    throw error;
+  }
+}
+
+// Invalidate the habit caches if an action changed data while the app was in
+// the background. Returns whether anything was invalidated.
+export function flushReminderActionInvalidations(qc: QueryClient): boolean {
+  if (!cachesStale) return false;
+  cachesStale = false;
+  qc.invalidateQueries({ queryKey: ['completions'] });
+  qc.invalidateQueries({ queryKey: ['snoozes'] });
+  qc.invalidateQueries({ queryKey: queryKeys.streak });
+  return true;
+}
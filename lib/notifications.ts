@@ -2,11 +2,26 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import {
+  DEFAULT_USER_SETTINGS,
   LEGACY_JOURNAL_STORAGE_KEY,
   LEGACY_TOP3_TODOS_STORAGE_KEY,
   normalizeUserSettings,
+  UserSettings,
   USER_SETTINGS_STORAGE_KEY,
 } from '@/lib/userSettings';
+import { getCompletionsForDate, getHabits, getSnoozesForDate, getTodayDate, isCompletionMet } from '@/lib/habits';
+import { getIdentityStatements } from '@/lib/identityStatements';
+import {
+  isWithinQuietHours,
+  parseReminderTime,
+  planHabitReminderSchedule,
+  type QuietHours,
+} from '@/lib/habitReminders';
+import {
+  HABIT_DONE_ACTION_ID,
+  HABIT_REMINDER_CATEGORY_ID,
+  HABIT_SNOOZE_ACTION_ID,
+} from '@/lib/notificationActions';
 
 export const NOTIFICATIONS_ENABLED_STORAGE_KEY = '@notifications_enabled';
 
@@ -14,6 +29,7 @@ const REMINDER_CHANNEL_ID = 'daily-reminders';
 const HABIT_REMINDER_ID = 'habit-reminder';
 const TODO_REMINDER_ID = 'todo-reminder';
 export const WEEKLY_RECAP_REMINDER_ID = 'weekly-recap';
+export const HABIT_OCCURRENCE_REMINDER_ID = 'habit-occurrence';
 
 async function ensureNotificationChannel() {
   if (Platform.OS !== 'android') return;
@@ -36,14 +52,11 @@ async function getSettings() {
     AsyncStorage.getItem(USER_SETTINGS_STORAGE_KEY),
   ]);
 
-  let top3TodosEnabled = false;
-  let journalEnabled = false;
+  let userSettings: UserSettings = { ...DEFAULT_USER_SETTINGS };
 
   if (userSettingsRaw) {
     try {
-      const userSettings = normalizeUserSettings(JSON.parse(userSettingsRaw));
-      top3TodosEnabled = userSettings.top3_todos_enabled;
-      journalEnabled = userSettings.journal_enabled;
+      userSettings = normalizeUserSettings(JSON.parse(userSettingsRaw));
     } catch (error) {
       console.warn('Invalid user settings payload while scheduling notifications.', error);
     }
@@ -52,17 +65,22 @@ async function getSettings() {
       AsyncStorage.getItem(LEGACY_TOP3_TODOS_STORAGE_KEY),
       AsyncStorage.getItem(LEGACY_JOURNAL_STORAGE_KEY),
     ]);
-    top3TodosEnabled = asBoolean(legacyTop3Value);
-    journalEnabled = asBoolean(legacyJournalValue);
+    userSettings.top3_todos_enabled = asBoolean(legacyTop3Value);
+    userSettings.journal_enabled = asBoolean(legacyJournalValue);
   }
 
   return {
     notificationsEnabled: asBoolean(notificationsEnabledValue),
-    top3TodosEnabled,
-    journalEnabled,
+    userSettings,
   };
 }
 
+function getQuietHours(settings: UserSettings): QuietHours | null {
+  return settings.quiet_hours_enabled
+    ? { start: settings.quiet_hours_start, end: settings.quiet_hours_end }
+    : null;
+}
+
 async function scheduleReminder({
   reminderId,
   title,
@@ -129,6 +147,134 @@ async function scheduleWeeklyReminder({
   });
 }
 
+// "Done" / "Snooze" buttons on per-habit reminders. Both run in the background;
+// the response is handled in lib/notificationActions.
+async function ensureHabitReminderCategory() {
+  if (Platform.OS === 'web') return;
+  await Notifications.setNotificationCategoryAsync(HABIT_REMINDER_CATEGORY_ID, [
+    {
+      identifier: HABIT_DONE_ACTION_ID,
+      buttonTitle: 'Done',
+      options: { opensAppToForeground: false },
+    },
+    {
+      identifier: HABIT_SNOOZE_ACTION_ID,
+      buttonTitle: 'Snooze for today',
+      options: { opensAppToForeground: false },
+    },
+  ]);
+}
+
+// Repeating reminders for weekly habits and one-off reminders for recurring
+// ones (see lib/habitReminders)
+async function scheduleHabitReminders(quietHours: QuietHours | null) {
+  const today = getTodayDate();
+  let schedule;
+  try {
+    const [habits, completions, snoozes, identityStatements] = await Promise.all([
+      getHabits(),
+      getCompletionsForDate(today),
+      getSnoozesForDate(today),
+      getIdentityStatements(),
+    ]);
+    const habitById = new Map(habits.map((h) => [h.id, h]));
+    schedule = planHabitReminderSchedule({
+      habits,
+      identityStatements,
+      completedTodayIds: new Set(
+        completions
+          .filter((c) => {
+            const habit = habitById.get(c.habit_id);
+            return habit ? isCompletionMet(habit, c) : false;
+          })
+          .map((c) => c.habit_id)
+      ),
+      snoozedTodayIds: new Set(snoozes.map((s) => s.habit_id)),
+      quietHours,
+    });
+  } catch (error) {
+    console.warn('Could not load habits while scheduling habit reminders.', error);
+    return;
+  }
+
+  const { repeating, occurrences } = schedule;
+  if (repeating.length > 0 || occurrences.length > 0) {
+    try {
+      await ensureHabitReminderCategory();
+    } catch (error) {
+      // Reminders still work without buttons
+      console.warn('Could not register habit reminder actions.', error);
+    }
+  }
+
+  for (const occurrence of occurrences) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${HABIT_OCCURRENCE_REMINDER_ID}:${occurrence.habitId}:${occurrence.date}:${occurrence.time}`,
+      content: {
+        title: occurrence.title,
+        body: occurrence.body,
+        sound: 'default',
+        categoryIdentifier: HABIT_REMINDER_CATEGORY_ID,
+        data: {
+          reminder_id: HABIT_OCCURRENCE_REMINDER_ID,
+          habit_id: occurrence.habitId,
+          date: occurrence.date,
+          target_amount: occurrence.targetAmount,
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: occurrence.fireAt,
+        ...(Platform.OS === 'android' ? { channelId: REMINDER_CHANNEL_ID } : {}),
+      },
+    });
+  }
+
+  // No date in the payload: actions apply to the day the reminder fired
+  for (const reminder of repeating) {
+    const channel = Platform.OS === 'android' ? { channelId: REMINDER_CHANNEL_ID } : {};
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${HABIT_OCCURRENCE_REMINDER_ID}:${reminder.habitId}:${reminder.weekday ?? 'daily'}:${reminder.time}`,
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        sound: 'default',
+        categoryIdentifier: HABIT_REMINDER_CATEGORY_ID,
+        data: {
+          reminder_id: HABIT_OCCURRENCE_REMINDER_ID,
+          habit_id: reminder.habitId,
+          target_amount: reminder.targetAmount,
+        },
+      },
+      trigger:
+        reminder.weekday === null
+          ? {
+              type: Notifications.SchedulableTriggerInputTypes.DAILY,
+              hour: reminder.hour,
+              minute: reminder.minute,
+              ...channel,
+            }
+          : {
+              type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+              // expo-notifications weekday is 1-based from Sunday
+              weekday: reminder.weekday + 1,
+              hour: reminder.hour,
+              minute: reminder.minute,
+              ...channel,
+            },
+    });
+  }
+}
+
+async function cancelHabitReminders() {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => request.content.data?.reminder_id === HABIT_OCCURRENCE_REMINDER_ID)
+      .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+}
+
 export async function requestNotificationPermissions() {
   await ensureNotificationChannel();
 
@@ -150,49 +296,77 @@ export async function cancelAllScheduledNotifications() {
   await Notifications.cancelAllScheduledNotificationsAsync();
 }
 
+// Re-plan only the per-habit reminders, e.g. after a habit is completed or
+// snoozed, without touching the fixed daily/weekly ones
+export async function refreshHabitReminders() {
+  const { notificationsEnabled, userSettings } = await getSettings();
+  if (!notificationsEnabled) return;
+
+  const permissions = await Notifications.getPermissionsAsync();
+  if (!permissions.granted) return;
+
+  await cancelHabitReminders();
+  await scheduleHabitReminders(getQuietHours(userSettings));
+}
+
 export async function rescheduleNotifications() {
   await ensureNotificationChannel();
 
   await cancelAllScheduledNotifications();
 
-  const { notificationsEnabled, top3TodosEnabled, journalEnabled } = await getSettings();
+  const { notificationsEnabled, userSettings } = await getSettings();
   if (!notificationsEnabled) return;
 
   const permissions = await Notifications.getPermissionsAsync();
   if (!permissions.granted) return;
 
-  // 8pm daily habit check-in
-  await scheduleReminder({
-    reminderId: HABIT_REMINDER_ID,
-    title: 'Daily habits check-in',
-    body: journalEnabled
-      ? "Time to check off your daily habits. Don't forget your journal entry."
-      : 'Time to check off your daily habits.',
-    hour: 20,
-    minute: 0,
-  });
+  // Reminders set inside quiet hours are skipped rather than moved
+  const quietHours = getQuietHours(userSettings);
+  const timeFor = (time: string) =>
+    isWithinQuietHours(time, quietHours) ? null : parseReminderTime(time);
+
+  // Daily habit check-in
+  const checkin = timeFor(userSettings.checkin_reminder_time);
+  if (checkin) {
+    await scheduleReminder({
+      reminderId: HABIT_REMINDER_ID,
+      title: 'Daily habits check-in',
+      body: userSettings.journal_enabled
+        ? "Time to check off your daily habits. Don't forget your journal entry."
+        : 'Time to check off your daily habits.',
+      ...checkin,
+    });
+  }
+
+  // expo-notifications weekday is 1-based from Sunday
+  const recapWeekday = userSettings.recap_weekday + 1;
 
-  // 8am Mon-Sat: Top 3 Todos (only when enabled)
-  if (top3TodosEnabled) {
-    for (let weekday = 2; weekday <= 7; weekday++) {
+  // Top 3 Todos, every day but the recap day (only when enabled)
+  const intentions = timeFor(userSettings.intentions_reminder_time);
+  if (userSettings.top3_todos_enabled && intentions) {
+    for (let weekday = 1; weekday <= 7; weekday++) {
+      if (weekday === recapWeekday) continue;
       await scheduleWeeklyReminder({
         reminderId: TODO_REMINDER_ID,
         title: 'Set today\'s intentions',
         body: 'What are the 3 things that matter most today?',
         weekday,
-        hour: 8,
-        minute: 0,
+        ...intentions,
       });
     }
   }
 
-  // 8am Sunday: Weekly Recap notification (always, replaces todo on Sundays)
-  await scheduleWeeklyReminder({
-    reminderId: WEEKLY_RECAP_REMINDER_ID,
-    title: 'Your weekly recap is ready',
-    body: 'See how your week went — habits, goals, and reflections.',
-    weekday: 1, // Sunday
-    hour: 8,
-    minute: 0,
-  });
+  // Weekly Recap notification (always, replaces todo on the recap day)
+  const recap = timeFor(userSettings.recap_reminder_time);
+  if (recap) {
+    await scheduleWeeklyReminder({
+      reminderId: WEEKLY_RECAP_REMINDER_ID,
+      title: 'Your weekly recap is ready',
+      body: 'See how your week went — habits, goals, and reflections.',
+      weekday: recapWeekday,
+      ...recap,
+    });
+  }
+
+  await scheduleHabitReminders(quietHours);
 }
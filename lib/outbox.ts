@@ -0,0 +1,336 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { captureError } from './sentry';
+import { logHabitQuantity, toggleHabitCompletion } from './habits';
+import { deleteDailyTodo, toggleDailyTodo, updateDailyTodoText, upsertDailyTodo } from './dailyTodos';
+import { upsertJournalEntry } from './dailyJournal';
+import { DEFAULT_JOURNAL_TEMPLATE_ID, legacyJournalAnswers } from './journalTemplates';
+import type { JournalAnswer, JournalRatings } from './types';
+
+// Writes made without a connection are kept in a persisted outbox and replayed
+// in order once the app can reach Supabase again. Only writes that are safe to
+// replay later live here: habit check-offs, daily todos and journal entries.
+
+export const OUTBOX_STORAGE_KEY = '@mutation_outbox';
+export const OUTBOX_FAILED_STORAGE_KEY = '@mutation_outbox_failed';
+
+// Rejected writes kept for inspection; the oldest go first past this
+const MAX_FAILED_ENTRIES = 50;
+
+export type OutboxMutation =
+  | {
+      kind: 'habit_completion';
+      habitId: string;
+      userId: string;
+      date: string;
+      completed: boolean;
+      autoComplete?: boolean;
+    }
+  | { kind: 'habit_quantity'; habitId: string; userId: string; date: string; amount: number }
+  | { kind: 'todo_upsert'; userId: string; date: string; position: number; text: string }
+  | { kind: 'todo_toggle'; todoId: string; date: string; isCompleted: boolean }
+  | { kind: 'todo_text'; todoId: string; date: string; text: string }
+  | { kind: 'todo_delete'; todoId: string; date: string }
+  | {
+      kind: 'journal_upsert';
+      userId: string;
+      date: string;
+      templateId: string | null;
+      answers: JournalAnswer[];
+      ratings?: JournalRatings; // missing on entries queued before ratings
+    };
+
+// journal_upsert as queued by builds before journal templates
+type LegacyJournalUpsert = {
+  kind: 'journal_upsert';
+  userId: string;
+  date: string;
+  win: string;
+  tension: string;
+  gratitude: string;
+};
+
+export interface OutboxEntry {
+  id: string;
+  queuedAt: string;
+  mutation: OutboxMutation;
+}
+
+/** A queued write the server rejected, kept instead of silently dropped */
+export interface FailedOutboxEntry extends OutboxEntry {
+  failedAt: string;
+  error: string;
+}
+
+export type OutboxSubmitResult<T> = { queued: true } | { queued: false; result: T };
+
+type OutboxListener = (pendingCount: number) => void;
+
+let entries: OutboxEntry[] | null = null;
+let loading: Promise<OutboxEntry[]> | null = null;
+let flushing: Promise<number> | null = null;
+let nextId = 0;
+const listeners = new Set<OutboxListener>();
+
+// ── Error classification ───────────────────────
+
+// supabase-js reports a failed fetch as an error whose message names the
+// underlying TypeError rather than throwing it
+export function isNetworkError(error: unknown): boolean {
+  if (!error) return false;
+  const message =
+    typeof error === 'object' ? String((error as { message?: unknown }).message ?? '') : String(error);
+  return /network request failed|failed to fetch|fetcherror|load failed|network error/i.test(message);
+}
+
+// Postgres unique violation
+function isDuplicateError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === '23505';
+}
+
+// ── Storage ────────────────────────────────────
+
+async function loadEntries(): Promise<OutboxEntry[]> {
+  if (entries) return entries;
+  if (!loading) {
+    loading = AsyncStorage.getItem(OUTBOX_STORAGE_KEY)
+      .then((raw) => {
+        const parsed = raw ? JSON.parse(raw) : [];
+        entries = Array.isArray(parsed) ? parsed : [];
+        return entries;
+      })
+      .catch((error) => {
+        console.warn('Could not read the mutation outbox.', error);
+        entries = [];
+        return entries;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+async function saveEntries(next: OutboxEntry[]) {
+  entries = next;
+  listeners.forEach((listener) => listener(next.length));
+  await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(next));
+}
+
+export async function getFailedOutboxEntries(): Promise<FailedOutboxEntry[]> {
+  try {
+    const raw = await AsyncStorage.getItem(OUTBOX_FAILED_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Could not read rejected outbox writes.', error);
+    return [];
+  }
+}
+
+async function recordFailedEntry(entry: OutboxEntry, error: unknown) {
+  const failed = await getFailedOutboxEntries();
+  const message =
+    typeof error === 'object' && error !== null
+      ? String((error as { message?: unknown }).message ?? error)
+      : String(error);
+  failed.push({ ...entry, failedAt: new Date().toISOString(), error: message });
+  await AsyncStorage.setItem(
+    OUTBOX_FAILED_STORAGE_KEY,
+    JSON.stringify(failed.slice(-MAX_FAILED_ENTRIES)),
+  );
+}
+
+// Queued writes belong to whoever was signed in when they were made; drop
+// them (and any rejected ones) before another account can replay them
+export async function clearOutbox(): Promise<void> {
+  entries = [];
+  listeners.forEach((listener) => listener(0));
+  await AsyncStorage.multiRemove([OUTBOX_STORAGE_KEY, OUTBOX_FAILED_STORAGE_KEY]);
+}
+
+// A newer write to the same thing makes a still-queued one pointless.
+// Quantity logs are deltas and always replay.
+function supersedes(next: OutboxMutation, queued: OutboxMutation): boolean {
+  if (next.kind !== queued.kind) return false;
+  switch (next.kind) {
+    case 'habit_completion': {
+      const q = queued as typeof next;
+      return q.habitId === next.habitId && q.date === next.date;
+    }
+    case 'todo_text':
+    case 'todo_toggle': {
+      const q = queued as typeof next;
+      return q.todoId === next.todoId;
+    }
+    case 'journal_upsert': {
+      const q = queued as typeof next;
+      return q.date === next.date;
+    }
+    default:
+      return false;
+  }
+}
+
+export async function enqueueMutation(mutation: OutboxMutation): Promise<void> {
+  const current = await loadEntries();
+  nextId += 1;
+  await saveEntries([
+    ...current.filter((entry) => !supersedes(mutation, entry.mutation)),
+    { id: `${Date.now()}-${nextId}`, queuedAt: new Date().toISOString(), mutation },
+  ]);
+}
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  return [...(await loadEntries())];
+}
+
+export async function getPendingCount(): Promise<number> {
+  return (await loadEntries()).length;
+}
+
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ── Replay ─────────────────────────────────────
+
+// Todos created offline only have an `optimistic-<position>` id in the cache;
+// once the row exists, point later queued writes at its real id.
+function rewriteOptimisticTodoIds(queue: OutboxEntry[], date: string, position: number, todoId: string) {
+  const optimisticId = `optimistic-${position}`;
+  return queue.map((entry) => {
+    const m = entry.mutation;
+    if ('todoId' in m && m.todoId === optimisticId && m.date === date) {
+      return { ...entry, mutation: { ...m, todoId } };
+    }
+    return entry;
+  });
+}
+
+async function applyMutation(mutation: OutboxMutation): Promise<string | void> {
+  switch (mutation.kind) {
+    case 'habit_completion':
+      try {
+        await toggleHabitCompletion(
+          mutation.habitId,
+          mutation.userId,
+          mutation.date,
+          !mutation.completed,
+          mutation.autoComplete
+        );
+      } catch (error) {
+        // Already completed elsewhere, e.g. on another device
+        if (mutation.completed && isDuplicateError(error)) return;
+        throw error;
+      }
+      return;
+    case 'habit_quantity':
+      await logHabitQuantity(mutation.habitId, mutation.userId, mutation.date, mutation.amount);
+      return;
+    case 'todo_upsert': {
+      const todo = await upsertDailyTodo(mutation.userId, mutation.date, mutation.position, mutation.text);
+      return todo.id;
+    }
+    case 'todo_toggle':
+      await toggleDailyTodo(mutation.todoId, mutation.isCompleted);
+      return;
+    case 'todo_text':
+      await updateDailyTodoText(mutation.todoId, mutation.text);
+      return;
+    case 'todo_delete':
+      await deleteDailyTodo(mutation.todoId);
+      return;
+    case 'journal_upsert': {
+      if ('answers' in mutation) {
+        await upsertJournalEntry(
+          mutation.userId,
+          mutation.date,
+          mutation.templateId,
+          mutation.answers,
+          mutation.ratings,
+        );
+        return;
+      }
+      const legacy = mutation as LegacyJournalUpsert;
+      await upsertJournalEntry(
+        legacy.userId,
+        legacy.date,
+        DEFAULT_JOURNAL_TEMPLATE_ID,
+        legacyJournalAnswers(legacy.win, legacy.tension, legacy.gratitude),
+      );
+      return;
+    }
+  }
+}
+
+async function replayQueue(): Promise<number> {
+  let applied = 0;
+
+  while (true) {
+    const queue = await loadEntries();
+    if (queue.length === 0) break;
+    const entry = queue[0];
+
+    try {
+      const createdId = await applyMutation(entry.mutation);
+      let remaining = (entries ?? []).filter((e) => e.id !== entry.id);
+      if (entry.mutation.kind === 'todo_upsert' && createdId) {
+        remaining = rewriteOptimisticTodoIds(
+          remaining,
+          entry.mutation.date,
+          entry.mutation.position,
+          createdId,
+        );
+      }
+      await saveEntries(remaining);
+      applied += 1;
+    } catch (error) {
+      // Still offline: keep this and everything after it for the next attempt
+      if (isNetworkError(error)) break;
+
+      // The server rejected it (deleted habit, policy...). Retrying won't help,
+      // so move it aside where it can still be inspected.
+      console.warn('Setting aside a queued mutation the server rejected.', error);
+      captureError(error, { tag: 'outbox.replay', extra: { kind: entry.mutation.kind } });
+      await recordFailedEntry(entry, error);
+      await saveEntries((entries ?? []).filter((e) => e.id !== entry.id));
+    }
+  }
+
+  return applied;
+}
+
+// Replay queued writes in order. Resolves with how many reached the server;
+// concurrent calls share one run.
+export function flushOutbox(): Promise<number> {
+  if (!flushing) {
+    flushing = replayQueue().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+// Run a write now, or queue it when offline. Anything already waiting goes
+// first so writes reach the server in the order they were made.
+export async function runOrQueue<T>(
+  mutation: OutboxMutation,
+  run: () => Promise<T>,
+): Promise<OutboxSubmitResult<T>> {
+  if ((await getPendingCount()) > 0) {
+    await enqueueMutation(mutation);
+    flushOutbox().catch(() => {});
+    return { queued: true };
+  }
+
+  try {
+    return { queued: false, result: await run() };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    await enqueueMutation(mutation);
+    return { queued: true };
+  }
+}
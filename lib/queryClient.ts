@@ -15,7 +15,9 @@ export const queryClient = new QueryClient({
     queries: {
       // Show cached data immediately, refetch in background if stale
       staleTime: 1000 * 60, // 1 minute default
-      gcTime: 1000 * 60 * 10, // Keep unused cache for 10 minutes
+      // Keep unused cache for a day so data restored from disk on launch
+      // (lib/queryPersistence) isn't collected before a screen asks for it
+      gcTime: 1000 * 60 * 60 * 24,
       retry: 2,
       refetchOnWindowFocus: true,
       refetchOnReconnect: true,
@@ -34,12 +36,18 @@ export const queryKeys = {
     forDate: (date: string) => ['completions', date] as const,
     forWeek: (start: string, end: string) => ['completions', 'week', start, end] as const,
     forRange: (start: string, end: string) => ['completions', 'range', start, end] as const,
+    all: ['completions', 'all'] as const,
   },
   snoozes: {
     forDate: (date: string) => ['snoozes', date] as const,
     forRange: (start: string, end: string) => ['snoozes', 'range', start, end] as const,
+    all: ['snoozes', 'all'] as const,
+  },
+  slips: {
+    all: ['slips'] as const,
   },
   streak: ['streak'] as const,
+  streakFreezes: ['streakFreezes'] as const,
   health: {
     metrics: ['health', 'metrics'] as const,
     history: (type: string, days: number) => ['health', 'history', type, days] as const,
@@ -51,14 +59,22 @@ export const queryKeys = {
   dailyJournal: {
     forDate: (date: string) => ['dailyJournal', date] as const,
     forRange: (start: string, end: string) => ['dailyJournal', 'range', start, end] as const,
+    templates: ['dailyJournal', 'templates'] as const,
+    reflections: ['dailyJournal', 'reflections'] as const,
   },
   weeklyRecaps: {
     all: ['weeklyRecaps'] as const,
     unread: ['weeklyRecaps', 'unread'] as const,
     qualifyingWeeks: ['weeklyRecaps', 'qualifyingWeeks'] as const,
   },
+  search: {
+    forQuery: (query: string) => ['search', query] as const,
+  },
   subscription: ['subscription'] as const,
   identity: {
     all: ['identity'] as const,
   },
+  routines: {
+    all: ['routines'] as const,
+  },
 } as const;
@@ -0,0 +1,115 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { dehydrate, hydrate, type DehydratedState, type QueryClient } from '@tanstack/react-query';
+
+// The query cache is written to disk and restored on launch so the app can
+// show the last known habits, goals and recaps before the first refetch.
+
+export const QUERY_CACHE_STORAGE_KEY = '@query_cache';
+
+// Restored data older than this is thrown away rather than shown
+export const QUERY_CACHE_MAX_AGE = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+// Roots of the keys in `queryKeys` worth keeping across launches. Health data
+// comes from the device and the subscription must always be re-checked.
+const PERSISTED_QUERY_ROOTS = new Set([
+  'habits',
+  'completions',
+  'snoozes',
+  'slips',
+  'streak',
+  'streakFreezes',
+  'dailyTodos',
+  'dailyJournal',
+  'weeklyRecaps',
+  'identity',
+  'routines',
+  'goals',
+]);
+
+const PERSIST_THROTTLE_MS = 1000;
+
+interface PersistedQueryCache {
+  buster: string;
+  timestamp: number;
+  state: DehydratedState;
+}
+
+// A cache is only restored for the same user on the same app version, so an
+// update that changes data shapes or a different account never sees it.
+export function getQueryCacheBuster(
+  userId: string,
+  appVersion: string = Constants.expoConfig?.version ?? 'unknown',
+): string {
+  return `${appVersion}:${userId}`;
+}
+
+export function shouldPersistQuery(queryKey: readonly unknown[]): boolean {
+  return typeof queryKey[0] === 'string' && PERSISTED_QUERY_ROOTS.has(queryKey[0]);
+}
+
+export async function persistQueryCache(qc: QueryClient, buster: string): Promise<void> {
+  const state = dehydrate(qc, {
+    shouldDehydrateQuery: (query) =>
+      query.state.status === 'success' && shouldPersistQuery(query.queryKey),
+  });
+  const payload: PersistedQueryCache = { buster, timestamp: Date.now(), state };
+  await AsyncStorage.setItem(QUERY_CACHE_STORAGE_KEY, JSON.stringify(payload));
+}
+
+// Hydrate the client from disk. Returns whether anything was restored; a cache
+// for another user/version, or one past its max age, is deleted instead.
+export async function restoreQueryCache(qc: QueryClient, buster: string): Promise<boolean> {
+  const raw = await AsyncStorage.getItem(QUERY_CACHE_STORAGE_KEY);
+  if (!raw) return false;
+
+  let persisted: PersistedQueryCache | null = null;
+  try {
+    persisted = JSON.parse(raw);
+  } catch {
+    persisted = null;
+  }
+
+  if (
+    !persisted ||
+    persisted.buster !== buster ||
+    Date.now() - persisted.timestamp > QUERY_CACHE_MAX_AGE
+  ) {
+    await clearPersistedQueryCache();
+    return false;
+  }
+
+  hydrate(qc, persisted.state);
+  return true;
+}
+
+export async function clearPersistedQueryCache(): Promise<void> {
+  await AsyncStorage.removeItem(QUERY_CACHE_STORAGE_KEY);
+}
+
+// Write the cache to disk whenever it changes, at most once per second.
+// Returns an unsubscribe function that also flushes a pending write.
+export function subscribeToQueryCachePersistence(qc: QueryClient, buster: string): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const write = () => {
+    timer = null;
+    persistQueryCache(qc, buster).catch((error) => {
+      console.warn('Could not persist the query cache.', error);
+    });
+  };
+
+  const unsubscribe = qc.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' && event.type !== 'removed') return;
+    if (!shouldPersistQuery(event.query.queryKey)) return;
+    if (!timer) timer = setTimeout(write, PERSIST_THROTTLE_MS);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) {
+      clearTimeout(timer);
+      write();
+    }
+  };
+}
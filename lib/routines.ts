@@ -0,0 +1,145 @@
+import { supabase } from './supabase';
+import { Habit, HabitCompletion, Routine } from './types';
+import { getHabitsForDay, isAvoidHabit, isCompletionMet } from './habits';
+
+export interface RoutineProgress {
+  routine: Routine;
+  /** The routine's habits scheduled for the day, in order */
+  steps: Habit[];
+  completedIds: Set<string>;
+  done: number;
+  total: number;
+  isComplete: boolean;
+  /** First step not yet done or skipped, where a guided run picks up */
+  nextStep: Habit | null;
+}
+
+export async function getRoutines(): Promise<Routine[]> {
+  const { data, error } = await supabase
+    .from('routines')
+    .select('*')
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createRoutine(
+  userId: string,
+  routine: { name: string; sort_order: number },
+): Promise<Routine> {
+  const { data, error } = await supabase
+    .from('routines')
+    .insert({
+      user_id: userId,
+      name: routine.name,
+      sort_order: routine.sort_order,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateRoutine(
+  id: string,
+  updates: { name?: string; sort_order?: number; is_active?: boolean },
+): Promise<Routine> {
+  const { data, error } = await supabase
+    .from('routines')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Soft delete a routine and release its habits back to the plain habit list
+export async function deleteRoutine(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('routines')
+    .update({ is_active: false })
+    .eq('id', id);
+
+  if (error) throw error;
+
+  const { error: habitsError } = await supabase
+    .from('habits')
+    .update({ routine_id: null, routine_position: null })
+    .eq('routine_id', id);
+
+  if (habitsError) throw habitsError;
+}
+
+// Make habitIds (in order) the routine's steps. Habits that were in the
+// routine but aren't listed any more are removed from it.
+export async function setRoutineHabits(
+  routineId: string,
+  habitIds: string[],
+  previousHabitIds: string[] = [],
+): Promise<void> {
+  const removed = previousHabitIds.filter((id) => !habitIds.includes(id));
+
+  const results = await Promise.all([
+    ...habitIds.map((habitId, position) =>
+      supabase
+        .from('habits')
+        .update({ routine_id: routineId, routine_position: position })
+        .eq('id', habitId),
+    ),
+    ...removed.map((habitId) =>
+      supabase
+        .from('habits')
+        .update({ routine_id: null, routine_position: null })
+        .eq('id', habitId),
+    ),
+  ]);
+
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+}
+
+// All habits in a routine, in step order
+export function getRoutineHabits(routine: Routine, habits: Habit[]): Habit[] {
+  return habits
+    .filter((h) => h.routine_id === routine.id && !isAvoidHabit(h))
+    .sort((a, b) => (a.routine_position ?? 0) - (b.routine_position ?? 0));
+}
+
+// Progress through a routine on a given day. Steps not scheduled that day
+// (e.g. a Mon/Wed/Fri habit on Tuesday) drop out; snoozed steps count as
+// skipped, so they neither block completion nor count as done.
+export function computeRoutineProgress(
+  routine: Routine,
+  habits: Habit[],
+  completions: HabitCompletion[],
+  dayOfWeek: number,
+  date: string,
+  snoozedIds: Set<string> = new Set(),
+): RoutineProgress {
+  const scheduled = getHabitsForDay(getRoutineHabits(routine, habits), dayOfWeek, date).filter(
+    (h) => h.created_at.slice(0, 10) <= date,
+  );
+  const completionByHabit = new Map(
+    completions.filter((c) => c.completed_date === date).map((c) => [c.habit_id, c]),
+  );
+  const completedIds = new Set(
+    scheduled.filter((h) => isCompletionMet(h, completionByHabit.get(h.id))).map((h) => h.id),
+  );
+  const steps = scheduled.filter((h) => !snoozedIds.has(h.id) || completedIds.has(h.id));
+  const done = steps.filter((h) => completedIds.has(h.id)).length;
+
+  return {
+    routine,
+    steps,
+    completedIds,
+    done,
+    total: steps.length,
+    isComplete: steps.length > 0 && done === steps.length,
+    nextStep: steps.find((h) => !completedIds.has(h.id)) ?? null,
+  };
+}
@@ -0,0 +1,57 @@
+import { supabase } from './supabase';
+import type { SearchResult } from './types';
+
+// Markers search_history() wraps matches in (migration 027)
+export const SEARCH_HIGHLIGHT_START = '«';
+export const SEARCH_HIGHLIGHT_END = '»';
+
+// Shorter queries match too much to be useful
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+const DEFAULT_MAX_RESULTS = 50;
+
+/**
+ * Full-text search over the user's journal answers, daily todos and weekly
+ * recaps, best matches first. Accepts web-search syntax: "quoted phrases",
+ * `or` and -excluded words.
+ */
+export async function searchHistory(
+  query: string,
+  maxResults: number = DEFAULT_MAX_RESULTS
+): Promise<SearchResult[]> {
+  const trimmed = query.trim();
+  if (trimmed.length < MIN_SEARCH_QUERY_LENGTH) return [];
+
+  const { data, error } = await supabase.rpc('search_history', {
+    search_query: trimmed,
+    max_results: maxResults,
+  });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/** Splits a result snippet into plain and matched runs for rendering */
+export function splitSearchSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let rest = snippet;
+  while (rest.length > 0) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START);
+    const end = start === -1 ? -1 : rest.indexOf(SEARCH_HIGHLIGHT_END, start + 1);
+    // Text after an unmatched marker is shown as is
+    if (end === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), highlighted: false });
+    const match = rest.slice(start + SEARCH_HIGHLIGHT_START.length, end);
+    if (match) parts.push({ text: match, highlighted: true });
+    rest = rest.slice(end + SEARCH_HIGHLIGHT_END.length);
+  }
+  return parts;
+}
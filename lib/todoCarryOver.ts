@@ -0,0 +1,171 @@
+import { supabase } from './supabase';
+import { formatDate } from './habits';
+import type { DailyTodo } from './types';
+
+// Unfinished intentions older than this are left where they are
+export const CARRY_OVER_LOOKBACK_DAYS = 7;
+
+const TODO_POSITIONS = [1, 2, 3];
+
+export interface CarryOverCandidates {
+  fromDate: string;
+  todos: DailyTodo[];
+}
+
+export interface CarryOverPlan {
+  /** Unfinished todos with the free position each one moves into */
+  moves: Array<{ todo: DailyTodo; position: number }>;
+  /** Unfinished todos that don't fit because the day is already full */
+  leftover: DailyTodo[];
+}
+
+export function isCarryOverCandidate(todo: DailyTodo): boolean {
+  return !todo.is_completed && !todo.carried_to_date && todo.text.trim() !== '';
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(date + 'T12:00:00');
+  d.setDate(d.getDate() + days);
+  return formatDate(d);
+}
+
+/**
+ * The most recent day before `date` (within the lookback) that still has
+ * unfinished todos which haven't been carried over yet.
+ */
+export function getCarryOverCandidates(
+  todos: DailyTodo[],
+  date: string,
+  lookbackDays = CARRY_OVER_LOOKBACK_DAYS,
+): CarryOverCandidates | null {
+  const earliest = addDays(date, -lookbackDays);
+  let fromDate: string | null = null;
+  for (const todo of todos) {
+    if (todo.todo_date >= date || todo.todo_date < earliest) continue;
+    if (!isCarryOverCandidate(todo)) continue;
+    if (fromDate === null || todo.todo_date > fromDate) fromDate = todo.todo_date;
+  }
+  if (fromDate === null) return null;
+
+  return {
+    fromDate,
+    todos: todos
+      .filter((t) => t.todo_date === fromDate && isCarryOverCandidate(t))
+      .sort((a, b) => a.position - b.position),
+  };
+}
+
+/** Fills the target day's free positions in order, keeping the source order. */
+export function planCarryOver(candidates: DailyTodo[], targetTodos: DailyTodo[]): CarryOverPlan {
+  const taken = new Set(targetTodos.map((t) => t.position));
+  const free = TODO_POSITIONS.filter((p) => !taken.has(p));
+  const ordered = [...candidates].sort((a, b) => a.position - b.position);
+
+  return {
+    moves: ordered.slice(0, free.length).map((todo, i) => ({ todo, position: free[i] })),
+    leftover: ordered.slice(free.length),
+  };
+}
+
+/**
+ * Copies `fromDate`'s unfinished todos into `toDate`'s free positions and
+ * marks the originals as carried, both in one server-side statement
+ * (carry_over_todos). Returns how many moved and how many didn't fit.
+ */
+export async function carryOverTodos(
+  userId: string,
+  fromDate: string,
+  toDate: string,
+): Promise<{ carried: number; leftover: number }> {
+  const { data, error } = await supabase
+    .from('daily_todos')
+    .select('*')
+    .in('todo_date', [fromDate, toDate]);
+
+  if (error) throw error;
+  const todos = (data ?? []) as DailyTodo[];
+  const { moves, leftover } = planCarryOver(
+    todos.filter((t) => t.todo_date === fromDate && isCarryOverCandidate(t)),
+    todos.filter((t) => t.todo_date === toDate),
+  );
+  if (moves.length === 0) return { carried: 0, leftover: leftover.length };
+
+  const { data: carried, error: carryError } = await supabase.rpc('carry_over_todos', {
+    carry_user_id: userId,
+    target_date: toDate,
+    moves: moves.map(({ todo, position }) => ({ id: todo.id, position })),
+  });
+  if (carryError) throw carryError;
+
+  return { carried: Number(carried ?? 0), leftover: leftover.length };
+}
+
+// ── History ──────────────────────────────────
+
+export interface WeeklyCarryOverPoint {
+  weekStart: string; // YYYY-MM-DD (Sunday)
+  total: number;
+  carriedOver: number;
+}
+
+export interface CarryOverStats {
+  total: number;
+  carriedOver: number;
+  /** Share of todos that were rolled over, 0–100 */
+  carryRate: number;
+  /** The most-carried todos, newest copy of each, highest carry_count first */
+  mostCarried: DailyTodo[];
+  weekly: WeeklyCarryOverPoint[];
+}
+
+function getWeekStart(date: string): string {
+  const d = new Date(date + 'T12:00:00');
+  d.setDate(d.getDate() - d.getDay());
+  return formatDate(d);
+}
+
+/**
+ * How often todos in `todos` were carried over, overall and per week for the
+ * `weeks` weeks ending with `referenceDate`'s week.
+ */
+export function computeCarryOverStats(
+  todos: DailyTodo[],
+  referenceDate: string,
+  weeks = 8,
+  mostCarriedLimit = 3,
+): CarryOverStats {
+  const carriedOver = todos.filter((t) => t.carried_to_date).length;
+
+  const currentWeekStart = getWeekStart(referenceDate);
+  const weekly: WeeklyCarryOverPoint[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    weekly.push({ weekStart: addDays(currentWeekStart, -7 * i), total: 0, carriedOver: 0 });
+  }
+  const byWeek = new Map(weekly.map((w) => [w.weekStart, w]));
+  for (const todo of todos) {
+    const point = byWeek.get(getWeekStart(todo.todo_date));
+    if (!point) continue;
+    point.total++;
+    if (todo.carried_to_date) point.carriedOver++;
+  }
+
+  // A todo carried three times has four rows; keep the one with the highest count
+  const latestByText = new Map<string, DailyTodo>();
+  for (const todo of todos) {
+    if (todo.carry_count === 0) continue;
+    const key = todo.text.trim().toLowerCase();
+    const existing = latestByText.get(key);
+    if (!existing || todo.carry_count > existing.carry_count) latestByText.set(key, todo);
+  }
+  const mostCarried = [...latestByText.values()]
+    .sort((a, b) => b.carry_count - a.carry_count || b.todo_date.localeCompare(a.todo_date))
+    .slice(0, mostCarriedLimit);
+
+  return {
+    total: todos.length,
+    carriedOver,
+    carryRate: todos.length > 0 ? Math.round((carriedOver / todos.length) * 100) : 0,
+    mostCarried,
+    weekly,
+  };
+}
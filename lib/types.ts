@@ -55,6 +55,18 @@ export type HealthMetricType =
   | 'time_in_daylight'
   | 'hrv';
 
+// Recurrence rules for schedules beyond the weekly model. When a habit has a
+// recurrence it takes precedence over frequency_per_week / specific_days.
+export type HabitRecurrence =
+  | { type: 'interval_days'; interval: number; start_date: string } // every N days counted from start_date (YYYY-MM-DD)
+  | { type: 'monthly_count'; times_per_month: number } // any N days each calendar month
+  | { type: 'day_of_month'; days: number[] }; // 1–31; days past a month's end fall on its last day
+
+export type HabitRecurrenceType = HabitRecurrence['type'];
+
+// 'build' habits succeed when completed; 'avoid' habits succeed on days without a slip
+export type HabitType = 'build' | 'avoid';
+
 export interface Habit {
   id: string;
   user_id: string;
@@ -67,6 +79,30 @@ export interface Habit {
   metric_threshold: number | null; // threshold to auto-complete
   auto_complete: boolean; // whether to auto-complete from health data
   identity_statement_id?: string | null; // linked identity statement
+  target_amount?: number | null; // daily target for quantitative habits (e.g. 8 glasses). null = done/not-done
+  unit?: string | null; // unit label for target_amount (e.g. 'glasses', 'pages')
+  recurrence?: HabitRecurrence | null; // overrides the weekly schedule when set
+  habit_type?: HabitType; // defaults to 'build'
+  routine_id?: string | null; // routine this habit is a step of
+  routine_position?: number | null; // order within the routine (0-based)
+  reminder_times?: string[] | null; // local "HH:MM" reminder times. null/empty = no reminders
+  reminder_days?: number[] | null; // weekdays reminders fire on (0=Sun). null = follow the schedule
+  created_at: string;
+  updated_at: string;
+}
+
+// ──────────────────────────────────────────────
+// Routines
+// ──────────────────────────────────────────────
+
+// A named, ordered group of habits (habit stacking). Steps are the habits whose
+// routine_id points here, ordered by routine_position.
+export interface Routine {
+  id: string;
+  user_id: string;
+  name: string;
+  sort_order: number;
+  is_active: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -119,6 +155,7 @@ export interface HabitCompletion {
   habit_id: string;
   user_id: string;
   completed_date: string; // YYYY-MM-DD
+  quantity?: number | null; // amount logged on quantitative habits. null = fully completed
   created_at: string;
 }
 
@@ -130,6 +167,25 @@ export interface HabitSnooze {
   created_at: string;
 }
 
+// A logged lapse on an avoid habit. Several slips can share a day.
+export interface HabitSlip {
+  id: string;
+  habit_id: string;
+  user_id: string;
+  slip_date: string; // YYYY-MM-DD
+  note: string | null;
+  created_at: string;
+}
+
+// A used streak freeze: covers one missed period of a habit's streak
+export interface StreakFreeze {
+  id: string;
+  user_id: string;
+  habit_id: string;
+  freeze_date: string; // YYYY-MM-DD — the missed day, or the first day of the missed week/month
+  created_at: string;
+}
+
 // ──────────────────────────────────────────────
 // Goals
 // ──────────────────────────────────────────────
@@ -142,10 +198,14 @@ export type GoalType =
   | 'bmi'
   | 'lean_body_mass_pct'
   | 'custom'
+  | 'cumulative'        // entries add up toward a total by target_date
+  | 'strength_pr'       // best estimated one-rep max from logged sets
   | 'steps'             // deprecated — existing goals still render
   | 'weekly_workouts'   // deprecated — existing goals still render
   | 'lean_body_mass';   // deprecated — replaced by lean_body_mass_pct
 
+export type GoalStatus = 'active' | 'paused' | 'achieved' | 'abandoned';
+
 export interface Goal {
   id: string;
   user_id: string;
@@ -158,21 +218,43 @@ export interface Goal {
   target_date: string | null; // ISO timestamptz
   rate: number | null;
   rate_unit: string | null;
+  distance_meters?: number | null; // time goals: the distance the target time is for
   data_source: 'apple_health' | 'manual';
-  is_active: boolean;
+  is_active: boolean; // false once deleted
+  status?: GoalStatus; // default 'active'; achieved and abandoned goals are archived
+  status_changed_at?: string | null; // ISO timestamptz
+  achieved_date?: string | null; // YYYY-MM-DD
+  final_value?: number | null; // value when achieved or abandoned
+  auto_milestones?: boolean; // checkpoints every 25% toward the target (default true)
+  milestones?: GoalMilestoneDefinition[] | null; // user-defined checkpoints
+  linked_habit_ids?: string[] | null; // habits expected to drive this goal
   created_at: string;
   updated_at: string;
 }
 
+export interface GoalMilestoneDefinition {
+  label: string; // e.g. "Sub-200 lbs"
+  value: number;
+}
+
 export interface GoalEntry {
   id: string;
   goal_id: string;
   user_id: string;
   value: number;
   recorded_date: string; // YYYY-MM-DD
+  sets?: LiftSet[] | null; // strength goals: the sets behind the day's value
+  distance_meters?: number | null; // time goals: distance run, if not the goal's distance
+  duration_seconds?: number | null; // time goals: time run; value is the equivalent at the goal's distance
+  note?: string | null; // e.g. "after vacation"
   created_at: string;
 }
 
+export interface LiftSet {
+  weight: number;
+  reps: number;
+}
+
 export const GOAL_TYPE_LABELS: Record<GoalType, string> = {
   weight: 'Target Weight',
   running_pr: 'Running PR',
@@ -181,6 +263,8 @@ export const GOAL_TYPE_LABELS: Record<GoalType, string> = {
   bmi: 'BMI',
   lean_body_mass_pct: 'Lean Body Mass %',
   custom: 'Custom Goal',
+  cumulative: 'Running Total',
+  strength_pr: 'Lift PR',
   steps: 'Daily Steps',
   weekly_workouts: 'Weekly Workouts',
   lean_body_mass: 'Lean Body Mass',
@@ -194,6 +278,8 @@ export const GOAL_TYPE_ICONS: Record<GoalType, string> = {
   bmi: 'calculator',
   lean_body_mass_pct: 'child',
   custom: 'star',
+  cumulative: 'plus-circle',
+  strength_pr: 'trophy',
   steps: 'road',
   weekly_workouts: 'bolt',
   lean_body_mass: 'child',
@@ -207,26 +293,68 @@ export const GOAL_TYPE_COLORS: Record<GoalType, string> = {
   bmi: '#607D8B',
   lean_body_mass_pct: '#00BCD4',
   custom: '#6C63FF',
+  cumulative: '#26A69A',
+  strength_pr: '#8D6E63',
   steps: '#4CAF50',
   weekly_workouts: '#F39C12',
   lean_body_mass: '#00BCD4',
 };
 
 export const CREATABLE_GOAL_TYPES: GoalType[] = [
-  'weight', 'running_pr', 'resting_hr', 'body_fat', 'bmi', 'lean_body_mass_pct', 'custom',
+  'weight', 'running_pr', 'resting_hr', 'body_fat', 'bmi', 'lean_body_mass_pct', 'cumulative', 'strength_pr', 'custom',
 ];
 
+// ──────────────────────────────────────────────
+// Daily Journal
+// ──────────────────────────────────────────────
+
+export interface JournalPrompt {
+  id: string; // stable within its template, e.g. 'win'
+  label: string;
+  hint?: string;
+  placeholder?: string;
+  emoji?: string;
+}
+
+// A named set of journal prompts. Built-in templates have no user_id.
+// With prompts_per_day set, a day shows that many prompts, rotating through
+// the list by date.
+export interface JournalTemplate {
+  id: string;
+  user_id: string | null;
+  name: string;
+  emoji: string;
+  prompts: JournalPrompt[];
+  prompts_per_day: number | null;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// The prompt's label is stored with the answer so history survives template edits
+export interface JournalAnswer {
+  prompt_id: string;
+  prompt: string;
+  answer: string;
+}
+
 export interface DailyJournalEntry {
   id: string;
   user_id: string;
   journal_date: string; // YYYY-MM-DD
-  win: string;
-  tension: string;
-  gratitude: string;
+  template_id: string | null;
+  answers: JournalAnswer[];
+  mood: number | null; // 1–5, higher is better
+  energy: number | null; // 1–5, higher is more energy
+  stress: number | null; // 1–5, higher is more stressed
+  emotions: string[];
   created_at: string;
   updated_at: string;
 }
 
+export type JournalRatings = Pick<DailyJournalEntry, 'mood' | 'energy' | 'stress' | 'emotions'>;
+
 export interface DailyTodo {
   id: string;
   user_id: string;
@@ -234,10 +362,27 @@ export interface DailyTodo {
   text: string;
   is_completed: boolean;
   position: number; // 1, 2, or 3
+  carried_to_date: string | null; // YYYY-MM-DD this unfinished todo was rolled over to
+  carry_count: number; // how many days in a row this todo has been rolled over
   created_at: string;
   updated_at: string;
 }
 
+// ──────────────────────────────────────────────
+// Health Sync
+// ──────────────────────────────────────────────
+
+// Background HealthKit sync progress for one source: 'goal:<GoalType>' for
+// Apple Health goals, 'habit:<HealthMetricType>' for auto-complete habits.
+export interface HealthSyncStatus {
+  user_id: string;
+  source: string;
+  synced_through: string | null; // YYYY-MM-DD; days before this are final in Supabase
+  last_synced_at: string | null;
+  last_error: string | null;
+  updated_at: string;
+}
+
 // ──────────────────────────────────────────────
 // Weekly Recaps
 // ──────────────────────────────────────────────
@@ -253,6 +398,12 @@ export interface WeeklyRecapContent {
   goal_progress: Array<{
     title: string;
     narrative: string;
+    achieved_on?: string; // YYYY-MM-DD, when the goal was achieved this week
+    milestones?: Array<{
+      label: string;
+      value: number;
+      reached_on: string; // YYYY-MM-DD, within the recap week
+    }>;
   }>;
   reflection_themes: {
     narrative: string | null;
@@ -290,6 +441,58 @@ export interface QualifyingWeek {
   recap: WeeklyRecap | null;
 }
 
+// ──────────────────────────────────────────────
+// Journal Reflections
+// ──────────────────────────────────────────────
+
+// 'entry' reflects on a single day's journal; 'range' on any span of days
+export type JournalReflectionScope = 'entry' | 'range';
+
+export interface JournalEntryReflectionContent {
+  reflection: string;
+  highlight: string | null;
+  question: string | null;
+}
+
+export interface JournalRangeReflectionContent {
+  summary: string;
+  themes: Array<{ title: string; detail: string }>;
+  mood_trend: string | null;
+  wins: string[];
+  growth_opportunity: string | null;
+  looking_ahead: string;
+}
+
+interface JournalReflectionBase {
+  id: string;
+  user_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD; equals start_date for an entry reflection
+  journal_entry_id: string | null;
+  entry_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type JournalReflection =
+  | (JournalReflectionBase & { scope: 'entry'; content: JournalEntryReflectionContent })
+  | (JournalReflectionBase & { scope: 'range'; content: JournalRangeReflectionContent });
+
+// ──────────────────────────────────────────────
+// Search
+// ──────────────────────────────────────────────
+
+export type SearchResultKind = 'journal' | 'todo' | 'recap';
+
+// A row from the search_history() database function
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string;
+  result_date: string; // YYYY-MM-DD: the journal or todo date, or the recap's week_start
+  snippet: string; // matches wrapped in SEARCH_HIGHLIGHT_START / _END
+  rank: number;
+}
+
 export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
 
 export const DAY_LABELS: Record<DayOfWeek, string> = {
@@ -1,10 +1,26 @@
 export type ThemePreference = 'light' | 'dark' | 'system';
 export type ResolvedTheme = 'light' | 'dark';
+// What happens to yesterday's unfinished intentions when today starts
+export type TodoCarryOverMode = 'off' | 'prompt' | 'auto';
 
 export type UserSettings = {
   top3_todos_enabled: boolean;
+  todo_carry_over: TodoCarryOverMode;
   journal_enabled: boolean;
+  // Journal template used by default (null = built-in Win · Tension · Gratitude),
+  // and per-weekday overrides (0=Sun, ..., 6=Sat)
+  journal_template_id: string | null;
+  journal_template_schedule: Partial<Record<number, string>>;
   theme_preference: ThemePreference;
+  // Reminder schedule — local times as "HH:MM" (24h)
+  checkin_reminder_time: string;
+  intentions_reminder_time: string;
+  recap_reminder_time: string;
+  recap_weekday: number; // 0=Sun, ..., 6=Sat
+  // No notifications between start and end; the window may wrap past midnight
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
 };
 
 export const USER_SETTINGS_STORAGE_KEY = '@user_settings';
@@ -14,8 +30,19 @@ export const LEGACY_THEME_STORAGE_KEY = '@theme_preference';
 
 export const DEFAULT_USER_SETTINGS: UserSettings = {
   top3_todos_enabled: false,
+  // Opt-in, so unfinished intentions stay on their day as they always have
+  todo_carry_over: 'off',
   journal_enabled: false,
+  journal_template_id: null,
+  journal_template_schedule: {},
   theme_preference: 'system',
+  checkin_reminder_time: '20:00',
+  intentions_reminder_time: '08:00',
+  recap_reminder_time: '08:00',
+  recap_weekday: 0,
+  quiet_hours_enabled: false,
+  quiet_hours_start: '22:00',
+  quiet_hours_end: '07:00',
 };
 
 export function coerceThemePreference(value: unknown): ThemePreference {
@@ -25,6 +52,38 @@ export function coerceThemePreference(value: unknown): ThemePreference {
   return 'system';
 }
 
+function coerceTodoCarryOver(value: unknown): TodoCarryOverMode {
+  if (value === 'off' || value === 'prompt' || value === 'auto') {
+    return value;
+  }
+  return DEFAULT_USER_SETTINGS.todo_carry_over;
+}
+
+export function coerceTimeOfDay(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match || parseInt(match[1], 10) > 23 || parseInt(match[2], 10) > 59) return fallback;
+  return value;
+}
+
+function coerceWeekday(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6
+    ? value
+    : fallback;
+}
+
+function coerceTemplateSchedule(value: unknown): Partial<Record<number, string>> {
+  if (!value || typeof value !== 'object') return {};
+  const schedule: Partial<Record<number, string>> = {};
+  for (const [day, templateId] of Object.entries(value)) {
+    const weekday = Number(day);
+    if (coerceWeekday(weekday, -1) === weekday && typeof templateId === 'string' && templateId) {
+      schedule[weekday] = templateId;
+    }
+  }
+  return schedule;
+}
+
 export function normalizeUserSettings(value: unknown): UserSettings {
   if (!value || typeof value !== 'object') {
     return { ...DEFAULT_USER_SETTINGS };
@@ -33,7 +92,32 @@ export function normalizeUserSettings(value: unknown): UserSettings {
   const settings = value as Partial<UserSettings>;
   return {
     top3_todos_enabled: settings.top3_todos_enabled === true,
+    todo_carry_over: coerceTodoCarryOver(settings.todo_carry_over),
     journal_enabled: settings.journal_enabled === true,
+    journal_template_id:
+      typeof settings.journal_template_id === 'string' && settings.journal_template_id
+        ? settings.journal_template_id
+        : null,
+    journal_template_schedule: coerceTemplateSchedule(settings.journal_template_schedule),
     theme_preference: coerceThemePreference(settings.theme_preference),
+    checkin_reminder_time: coerceTimeOfDay(
+      settings.checkin_reminder_time,
+      DEFAULT_USER_SETTINGS.checkin_reminder_time,
+    ),
+    intentions_reminder_time: coerceTimeOfDay(
+      settings.intentions_reminder_time,
+      DEFAULT_USER_SETTINGS.intentions_reminder_time,
+    ),
+    recap_reminder_time: coerceTimeOfDay(
+      settings.recap_reminder_time,
+      DEFAULT_USER_SETTINGS.recap_reminder_time,
+    ),
+    recap_weekday: coerceWeekday(settings.recap_weekday, DEFAULT_USER_SETTINGS.recap_weekday),
+    quiet_hours_enabled: settings.quiet_hours_enabled === true,
+    quiet_hours_start: coerceTimeOfDay(
+      settings.quiet_hours_start,
+      DEFAULT_USER_SETTINGS.quiet_hours_start,
+    ),
+    quiet_hours_end: coerceTimeOfDay(settings.quiet_hours_end, DEFAULT_USER_SETTINGS.quiet_hours_end),
   };
 }
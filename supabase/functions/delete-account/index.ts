@@ -75,7 +75,8 @@ Deno.serve(async (req: Request) => {
     // Deleting the auth user cascades to all tables via ON DELETE CASCADE:
     // profiles, habits, habit_completions, habit_snoozes, goals, goal_entries,
     // daily_todos, daily_journal_entries, weekly_recaps, subscriptions,
-    // discount_redemptions, evening_call_log
+    // discount_redemptions, evening_call_log, habit_slips, streak_freezes, routines,
+    // health_sync_status, journal_templates, journal_reflections
     const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(userId);
 
     if (deleteError) {
@@ -0,0 +1,201 @@
+import { handleReflectionRequest } from "../handler.ts";
+import {
+  createStubModel,
+  ReflectionModel,
+  ReflectionModelError,
+  ReflectionModelRequest,
+} from "../model.ts";
+
+const ENTRY = {
+  id: "entry-1",
+  journal_date: "2025-06-02",
+  answers: [
+    { prompt: "What went well today?", answer: "Finished the report early." },
+    { prompt: "What was hard?", answer: "  " },
+  ],
+  mood: 4,
+  energy: null,
+  stress: 2,
+  emotions: ["calm"],
+  updated_at: "2025-06-02T21:00:00Z",
+  journal_templates: { name: "Evening" },
+};
+
+// A query builder whose every filter returns itself and which resolves to `result`
+function makeQuery(result: { data: unknown; error: unknown }) {
+  const query: any = {};
+  for (const method of ["select", "eq", "gte", "lte", "order"]) {
+    query[method] = () => query;
+  }
+  query.maybeSingle = async () => result;
+  query.single = async () => result;
+  query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+  return query;
+}
+
+function makeSupabase(entries: unknown[], existing: unknown = null) {
+  const upserts: any[] = [];
+  const client: any = {
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1" } }, error: null }),
+    },
+    from: (table: string) => {
+      if (table === "daily_journal_entries") {
+        return makeQuery({ data: entries, error: null });
+      }
+      return {
+        ...makeQuery({ data: existing, error: null }),
+        upsert: (row: any) => {
+          upserts.push(row);
+          return makeQuery({ data: { id: "reflection-1", ...row }, error: null });
+        },
+      };
+    },
+  };
+  return { client, upserts };
+}
+
+// Wraps `model` so the test can read back what the handler asked it
+function recordRequests(model: ReflectionModel) {
+  const requests: ReflectionModelRequest[] = [];
+  return {
+    requests,
+    model: {
+      complete: (request: ReflectionModelRequest) => {
+        requests.push(request);
+        return model.complete(request);
+      },
+    },
+  };
+}
+
+function makeRequest(body: Record<string, unknown>) {
+  return new Request("http://localhost/generate-journal-reflection", {
+    method: "POST",
+    headers: { authorization: "Bearer token", "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("handleReflectionRequest", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends the entry prompt to the model and stores the parsed reflection", async () => {
+    const { client, upserts } = makeSupabase([ENTRY]);
+    const { model, requests } = recordRequests(createStubModel());
+
+    const response = await handleReflectionRequest(
+      makeRequest({ scope: "entry", journal_date: "2025-06-02" }),
+      { supabase: client, model },
+    );
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].maxTokens).toBe(512);
+    expect(requests[0].system).toContain("just saved a journal entry");
+    expect(requests[0].prompt).toContain("journal entry for 2025-06-02");
+
+    const sent = JSON.parse(requests[0].prompt.slice(requests[0].prompt.indexOf("{")));
+    expect(sent).toEqual({
+      journal_date: "2025-06-02",
+      template: "Evening",
+      answers: [{ prompt: "What went well today?", answer: "Finished the report early." }],
+      mood: 4,
+      stress: 2,
+      emotions: ["calm"],
+    });
+
+    expect(upserts).toHaveLength(1);
+    expect(upserts[0]).toMatchObject({
+      user_id: "user-1",
+      scope: "entry",
+      journal_entry_id: "entry-1",
+      entry_count: 1,
+    });
+    expect(Object.keys(upserts[0].content)).toEqual(["reflection", "highlight", "question"]);
+  });
+
+  it("reports an unparseable reply as ai_parse_failed without storing it", async () => {
+    const { client, upserts } = makeSupabase([ENTRY]);
+
+    const response = await handleReflectionRequest(
+      makeRequest({ scope: "entry", journal_date: "2025-06-02" }),
+      { supabase: client, model: createStubModel("Here is your reflection!") },
+    );
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({
+      error: "ai_parse_failed",
+      retryable: true,
+    });
+    expect(upserts).toHaveLength(0);
+  });
+
+  it("reports a model failure as ai_generation_failed", async () => {
+    const { client, upserts } = makeSupabase([ENTRY]);
+    const model: ReflectionModel = {
+      complete: async () => {
+        throw new ReflectionModelError("Claude API returned 529", 529);
+      },
+    };
+
+    const response = await handleReflectionRequest(
+      makeRequest({ scope: "entry", journal_date: "2025-06-02" }),
+      { supabase: client, model },
+    );
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toEqual({
+      error: "ai_generation_failed",
+      retryable: true,
+      detail: "Claude API returned 529",
+    });
+    expect(upserts).toHaveLength(0);
+  });
+
+  it("refuses to regenerate a current reflection during the cooldown", async () => {
+    const existing = {
+      id: "reflection-1",
+      entry_count: 1,
+      updated_at: new Date(Date.now() - 60 * 1000).toISOString(),
+    };
+    const { client, upserts } = makeSupabase([ENTRY], existing);
+    const { model, requests } = recordRequests(createStubModel());
+
+    const response = await handleReflectionRequest(
+      makeRequest({ scope: "entry", journal_date: "2025-06-02", regenerate: true }),
+      { supabase: client, model },
+    );
+
+    expect(response.status).toBe(429);
+    const body = await response.json();
+    expect(body).toMatchObject({ error: "regenerate_cooldown", retryable: false });
+    expect(body.retry_after_seconds).toBeGreaterThan(500);
+    expect(requests).toHaveLength(0);
+    expect(upserts).toHaveLength(0);
+  });
+
+  it("regenerates once the cooldown has passed", async () => {
+    const existing = {
+      id: "reflection-1",
+      entry_count: 1,
+      updated_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    };
+    const { client, upserts } = makeSupabase([ENTRY], existing);
+
+    const response = await handleReflectionRequest(
+      makeRequest({ scope: "entry", journal_date: "2025-06-02", regenerate: true }),
+      { supabase: client, model: createStubModel() },
+    );
+
+    expect(response.status).toBe(200);
+    expect(upserts).toHaveLength(1);
+  });
+});
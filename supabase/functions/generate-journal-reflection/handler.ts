@@ -0,0 +1,334 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { COACH_VOICE } from "../_shared/coach.ts";
+import { ReflectionModel, ReflectionModelError } from "./model.ts";
+
+// Mirrors MIN_RANGE_REFLECTION_ENTRIES and MAX_REFLECTION_RANGE_DAYS in lib/journalReflections.ts
+const MIN_RANGE_ENTRIES = 3;
+const MAX_RANGE_DAYS = 366;
+
+// A reflection that is still current can only be regenerated once it is this
+// old, so repeated regenerate requests can't run up model calls
+const REGENERATE_COOLDOWN_MINUTES = 10;
+
+type ReflectionRequest =
+  | { scope: "entry"; journal_date: string; regenerate?: boolean }
+  | { scope: "range"; start_date: string; end_date: string; regenerate?: boolean };
+
+const RATINGS_RULE =
+  "Mood (higher is better), energy (higher is more energy) and stress (higher is more stressed) are 1–5 ratings. Acknowledge a hard day with compassion — never shame a low rating.";
+
+const SAFETY_RULE =
+  "You are a coach, not a therapist. If the writing mentions self-harm or a crisis, gently encourage reaching out to someone they trust or a local crisis line.";
+
+const ENTRY_SYSTEM_PROMPT = `You are the user's personal life coach inside a habit-tracking app called Thrive. They have just saved a journal entry, and you write a short reflection on it.
+
+${COACH_VOICE}
+
+You will receive the entry: the prompts they answered with their answers, and (optionally) mood, energy and stress ratings and emotion tags. Respond with a reflection that follows the exact JSON schema below. Do NOT include any text outside the JSON object.
+
+Output JSON schema:
+{
+  "reflection": "<2-4 sentences responding to what they wrote. Mirror back what you notice — a pattern, a strength, a feeling worth naming — and reference their own words. Warm, personal, specific.>",
+  "highlight": "<1 sentence celebrating the most encouraging thing in the entry, or null if nothing stands out>",
+  "question": "<one gentle, open question to sit with tomorrow, tied to what they wrote, or null>"
+}
+
+Rules:
+- Only use what is in the entry. Never invent events, people or feelings.
+- Read each answer in light of its prompt. Prompts vary by template (e.g. a CBT thought record, a work retro, a sleep log, free writing).
+- ${RATINGS_RULE}
+- ${SAFETY_RULE}
+- Write like you're talking directly to the person — use "you" and "your."
+- Keep the total response under 120 words.
+- Return ONLY the JSON object, no markdown fencing.`;
+
+const RANGE_SYSTEM_PROMPT = `You are the user's personal life coach inside a habit-tracking app called Thrive. You write a reflection on their journal over a span of days they chose — a look back at what they wrote and how they felt.
+
+${COACH_VOICE}
+
+You will receive their journal entries for the period, each with the prompts they answered and (optionally) mood, energy and stress ratings and emotion tags, plus rating averages in mood_summary. Synthesise them into a reflection that follows the exact JSON schema below. Do NOT include any text outside the JSON object.
+
+Output JSON schema:
+{
+  "summary": "<2-3 sentences on the period as a whole: what they kept coming back to and how it felt. Lead with what went well.>",
+  "themes": [{ "title": "<2-4 word theme>", "detail": "<1-2 sentences on how the theme showed up, referencing specific days or their own words>" }],
+  "mood_trend": "<1-2 sentences on how mood, energy and stress moved over the period and what seemed to go with the better days. null if there are no ratings.>",
+  "wins": ["<a specific win from the entries worth celebrating>", "...more if applicable"],
+  "growth_opportunity": "<reframe a recurring tension, challenge or unhelpful thought as an exciting opportunity for growth — be specific and optimistic. null if nothing recurs.>",
+  "looking_ahead": "<2-3 sentences of specific, actionable encouragement for the days ahead, tied back to the themes. End on an energising, forward-looking note.>"
+}
+
+Rules:
+- Give 2-4 themes, drawn from patterns across several entries rather than a single day.
+- Only use what is in the entries. Never invent events, people or feelings.
+- Read each answer in light of its prompt. Prompts vary by day and template.
+- ${RATINGS_RULE}
+- ${SAFETY_RULE}
+- Write like you're talking directly to the person — use "you" and "your."
+- Keep the total response under 400 words.
+- Return ONLY the JSON object, no markdown fencing.`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function daysBetween(start: string, end: string): number {
+  return Math.round(
+    (new Date(`${end}T12:00:00Z`).getTime() - new Date(`${start}T12:00:00Z`).getTime()) / 86400000,
+  );
+}
+
+// Mirrors the journal entry shape sent by generate-weekly-recap
+function toReflectionEntry(j: any) {
+  return {
+    journal_date: j.journal_date,
+    template: j.journal_templates?.name ?? null,
+    answers: (j.answers ?? [])
+      .filter((a: any) => typeof a.answer === "string" && a.answer.trim() !== "")
+      .map((a: any) => ({ prompt: a.prompt, answer: a.answer })),
+    ...(j.mood != null ? { mood: j.mood } : {}),
+    ...(j.energy != null ? { energy: j.energy } : {}),
+    ...(j.stress != null ? { stress: j.stress } : {}),
+    ...(j.emotions?.length ? { emotions: j.emotions } : {}),
+  };
+}
+
+function averageRating(entries: any[], key: "mood" | "energy" | "stress"): number | null {
+  const values = entries.map((j) => j[key]).filter((v): v is number => v != null);
+  return values.length > 0
+    ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+    : null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === "string" && value.trim() !== "" ? value : null;
+}
+
+// Keeps only the schema's fields, so the stored content has a known shape
+function parseEntryReflection(raw: any) {
+  const reflection = stringOrNull(raw?.reflection);
+  if (!reflection) return null;
+  return {
+    reflection,
+    highlight: stringOrNull(raw.highlight),
+    question: stringOrNull(raw.question),
+  };
+}
+
+function parseRangeReflection(raw: any) {
+  const summary = stringOrNull(raw?.summary);
+  const lookingAhead = stringOrNull(raw?.looking_ahead);
+  if (!summary || !lookingAhead) return null;
+  return {
+    summary,
+    themes: (Array.isArray(raw.themes) ? raw.themes : [])
+      .filter((t: any) => stringOrNull(t?.title) && stringOrNull(t?.detail))
+      .map((t: any) => ({ title: t.title, detail: t.detail })),
+    mood_trend: stringOrNull(raw.mood_trend),
+    wins: (Array.isArray(raw.wins) ? raw.wins : []).filter((w: unknown) => stringOrNull(w)),
+    growth_opportunity: stringOrNull(raw.growth_opportunity),
+    looking_ahead: lookingAhead,
+  };
+}
+
+export function corsHeaders() {
+  return {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type",
+  };
+}
+
+export function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders(), "Content-Type": "application/json" },
+  });
+}
+
+export interface ReflectionHandlerDeps {
+  /** Service-role client; the caller is identified from the request's JWT */
+  supabase: SupabaseClient;
+  model: ReflectionModel;
+}
+
+// Everything after configuration, so tests can run it against a fake client
+// and the stub model
+export async function handleReflectionRequest(
+  req: Request,
+  { supabase, model }: ReflectionHandlerDeps,
+): Promise<Response> {
+  try {
+    // Authenticate caller via JWT
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user: caller }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !caller) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+    const user_id = caller.id;
+
+    const body: ReflectionRequest = await req.json();
+    const scope = body?.scope;
+    const start_date = scope === "entry" ? body.journal_date : body?.start_date;
+    const end_date = scope === "entry" ? body.journal_date : body?.end_date;
+    console.log("Request:", { user_id, scope, start_date, end_date });
+
+    if (
+      (scope !== "entry" && scope !== "range") ||
+      !DATE_PATTERN.test(start_date ?? "") ||
+      !DATE_PATTERN.test(end_date ?? "") ||
+      end_date < start_date
+    ) {
+      return jsonResponse({ error: "invalid_request", retryable: false }, 400);
+    }
+    if (daysBetween(start_date, end_date) >= MAX_RANGE_DAYS) {
+      return jsonResponse(
+        { error: "invalid_request", retryable: false, detail: `Ranges are limited to ${MAX_RANGE_DAYS} days` },
+        400,
+      );
+    }
+
+    const [journalResult, existingResult] = await Promise.all([
+      supabase
+        .from("daily_journal_entries")
+        .select("id, journal_date, answers, mood, energy, stress, emotions, updated_at, journal_templates(name)")
+        .eq("user_id", user_id)
+        .gte("journal_date", start_date)
+        .lte("journal_date", end_date)
+        .order("journal_date", { ascending: true }),
+      supabase
+        .from("journal_reflections")
+        .select("*")
+        .eq("user_id", user_id)
+        .eq("scope", scope)
+        .eq("start_date", start_date)
+        .eq("end_date", end_date)
+        .maybeSingle(),
+    ]);
+
+    if (journalResult.error) throw journalResult.error;
+    const rows = (journalResult.data ?? []).filter((j: any) =>
+      (j.answers ?? []).some((a: any) => typeof a.answer === "string" && a.answer.trim() !== "")
+    );
+
+    if (scope === "entry" && rows.length === 0) {
+      return jsonResponse({ error: "entry_not_found", retryable: false }, 404);
+    }
+    if (scope === "range" && rows.length < MIN_RANGE_ENTRIES) {
+      console.log(`Only ${rows.length} entries, skipping`);
+      return jsonResponse({ skipped: true, reason: "insufficient_data", entry_count: rows.length });
+    }
+
+    // A stored reflection stands until an entry it covers is saved again
+    const existing = existingResult.data;
+    const lastEdited = rows.reduce((latest: string, j: any) => (j.updated_at > latest ? j.updated_at : latest), "");
+    const isCurrent = existing && existing.entry_count === rows.length && existing.updated_at >= lastEdited;
+    if (isCurrent && !body.regenerate) {
+      return jsonResponse({ reflection: existing, already_existed: true });
+    }
+    if (isCurrent) {
+      const ageSeconds = (Date.now() - new Date(existing.updated_at).getTime()) / 1000;
+      const cooldownSeconds = REGENERATE_COOLDOWN_MINUTES * 60;
+      if (ageSeconds < cooldownSeconds) {
+        return jsonResponse(
+          {
+            error: "regenerate_cooldown",
+            retryable: false,
+            retry_after_seconds: Math.ceil(cooldownSeconds - ageSeconds),
+          },
+          429,
+        );
+      }
+    }
+
+    const entries = rows.map(toReflectionEntry);
+    const userPrompt = scope === "entry"
+      ? `Here is the user's journal entry for ${start_date}:\n\n${JSON.stringify(entries[0], null, 2)}`
+      : `Here are the user's journal entries from ${start_date} to ${end_date}:\n\n${
+        JSON.stringify(
+          {
+            period: { start: start_date, end: end_date, days: daysBetween(start_date, end_date) + 1 },
+            journal_entries: entries,
+            mood_summary: {
+              avg_mood: averageRating(rows, "mood"),
+              avg_energy: averageRating(rows, "energy"),
+              avg_stress: averageRating(rows, "stress"),
+              rated_days: rows.filter((j: any) => j.mood != null).length,
+            },
+          },
+          null,
+          2,
+        )
+      }`;
+
+    console.log("Calling reflection model...");
+    const startTime = Date.now();
+    let rawText: string;
+    try {
+      rawText = await model.complete({
+        system: scope === "entry" ? ENTRY_SYSTEM_PROMPT : RANGE_SYSTEM_PROMPT,
+        prompt: userPrompt,
+        maxTokens: scope === "entry" ? 512 : 2048,
+      });
+    } catch (err) {
+      if (err instanceof ReflectionModelError) {
+        return jsonResponse(
+          { error: "ai_generation_failed", retryable: true, detail: err.message },
+          500,
+        );
+      }
+      throw err;
+    }
+    const generationTimeMs = Date.now() - startTime;
+    console.log("Model response received in", generationTimeMs, "ms");
+
+    let content;
+    try {
+      const parsed = JSON.parse(rawText);
+      content = scope === "entry" ? parseEntryReflection(parsed) : parseRangeReflection(parsed);
+    } catch {
+      content = null;
+    }
+    if (!content) {
+      console.error("Failed to parse model response:", rawText.slice(0, 500));
+      return jsonResponse(
+        { error: "ai_parse_failed", retryable: true, detail: "Model returned invalid JSON" },
+        500,
+      );
+    }
+
+    const { data: reflection, error: upsertError } = await supabase
+      .from("journal_reflections")
+      .upsert(
+        {
+          user_id,
+          scope,
+          start_date,
+          end_date,
+          journal_entry_id: scope === "entry" ? rows[0].id : null,
+          entry_count: rows.length,
+          content,
+        },
+        { onConflict: "user_id,scope,start_date,end_date" },
+      )
+      .select("*")
+      .single();
+
+    if (upsertError) {
+      console.error("Upsert error:", upsertError);
+      throw upsertError;
+    }
+
+    console.log("Reflection saved for", scope, start_date, end_date);
+    return jsonResponse({ reflection, generation_time_ms: generationTimeMs });
+  } catch (err) {
+    console.error("Unexpected error:", err);
+    return jsonResponse(
+      { error: "internal_error", retryable: true },
+      500,
+    );
+  }
+}
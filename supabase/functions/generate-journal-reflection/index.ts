@@ -0,0 +1,37 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, handleReflectionRequest, jsonResponse } from "./handler.ts";
+import { createAnthropicModel, createStubModel, ReflectionModel } from "./model.ts";
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders() });
+  }
+
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const ANTHROPIC_API_KEY = Deno.env.get("ANTHROPIC_API_KEY");
+  const useStubModel = Deno.env.get("REFLECTION_MODEL") === "stub";
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse(
+      { error: "server_config_error", retryable: false, detail: "Missing Supabase env vars" },
+      500,
+    );
+  }
+
+  if (!ANTHROPIC_API_KEY && !useStubModel) {
+    return jsonResponse(
+      { error: "server_config_error", retryable: false, detail: "Missing ANTHROPIC_API_KEY" },
+      500,
+    );
+  }
+
+  const model: ReflectionModel = useStubModel
+    ? createStubModel()
+    : createAnthropicModel(ANTHROPIC_API_KEY!);
+
+  return handleReflectionRequest(req, {
+    supabase: createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY),
+    model,
+  });
+});
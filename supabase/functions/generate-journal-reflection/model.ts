@@ -0,0 +1,74 @@
+// The language model behind journal reflections. The handler only talks to
+// this interface, so it can run against the stub below (set
+// REFLECTION_MODEL=stub when serving functions locally) without an API key.
+
+export interface ReflectionModelRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+}
+
+export interface ReflectionModel {
+  /** The model's text reply */
+  complete(request: ReflectionModelRequest): Promise<string>;
+}
+
+export class ReflectionModelError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "ReflectionModelError";
+  }
+}
+
+export function createAnthropicModel(
+  apiKey: string,
+  model = "claude-sonnet-4-20250514",
+): ReflectionModel {
+  return {
+    async complete({ system, prompt, maxTokens }) {
+      const response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          system,
+          messages: [{ role: "user", content: prompt }],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error("Claude API error:", response.status, errorBody);
+        throw new ReflectionModelError(`Claude API returned ${response.status}`, response.status);
+      }
+
+      const result = await response.json();
+      return result.content?.[0]?.text ?? "";
+    },
+  };
+}
+
+// Answers every request with the same reply. The default one fills in both
+// the entry and the range schema, so either kind of reflection parses.
+export function createStubModel(reply: string = DEFAULT_STUB_REPLY): ReflectionModel {
+  return {
+    complete: async () => reply,
+  };
+}
+
+const DEFAULT_STUB_REPLY = JSON.stringify({
+  reflection: "Stub reflection: you showed up and wrote today, and that matters.",
+  highlight: "You named what went well.",
+  question: "What would make tomorrow a little easier?",
+  summary: "Stub summary: you kept coming back to your journal.",
+  themes: [{ title: "Consistency", detail: "You journaled on most days." }],
+  mood_trend: null,
+  wins: ["You kept journaling."],
+  growth_opportunity: null,
+  looking_ahead: "Keep the habit going next week.",
+});
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { COACH_VOICE } from "../_shared/coach.ts";
 
 const MIN_ACTIVE_DAYS = 4;
 
@@ -10,9 +11,7 @@ interface RecapRequest {
 
 const RECAP_SYSTEM_PROMPT = `You are the user's personal life coach inside a habit-tracking app called Thrive. You write their weekly recap — a motivational, inspiring, and encouraging summary of their week.
 
-Your voice is that of a coach who genuinely believes in the person reading this. You celebrate their wins with real enthusiasm. When things didn't go perfectly, you give gentle nudges — never guilt or criticism. You reframe setbacks as stepping stones. You push them forward with energy and optimism while staying grounded in their actual data.
-
-Think: "I see you, I'm proud of you, and here's how we keep the momentum going."
+${COACH_VOICE}
 
 You will receive structured data about the user's week: habit completions, goal progress, and (optionally) journal entries. Synthesise this into a recap that follows the exact JSON schema below. Do NOT include any text outside the JSON object.
 
@@ -28,14 +27,14 @@ Output JSON schema:
   "goal_progress": [
     {
       "title": "<goal title>",
-      "narrative": "<1-2 sentences about movement this week — include numbers where available. Acknowledge even small progress as meaningful.>"
+      "narrative": "<1-2 sentences about movement this week — include numbers where available. Acknowledge even small progress as meaningful. If milestones_reached_this_week is non-empty, celebrate those milestones by name.>"
     }
   ],
   "reflection_themes": {
-    "narrative": "<2-3 sentences synthesising themes from journal entries. Highlight the user's self-awareness as a strength. null if no journal data.>",
-    "wins": ["<a win worth celebrating from this week — be specific and enthusiastic>", "...more if applicable"],
-    "growth_opportunity": "<reframe a recurring tension or challenge as an exciting opportunity for growth — be specific and optimistic, e.g. 'Your sleep struggles are a clear signal that a wind-down routine could unlock better energy and focus.' null if nothing stands out.>",
-    "gratitude_highlight": "<a meaningful gratitude theme or specific entry that stood out, or null>"
+    "narrative": "<2-3 sentences synthesising themes from journal entries, across whatever prompts they answered and any mood, energy or stress ratings. Highlight the user's self-awareness as a strength. null if no journal data.>",
+    "wins": ["<a win worth celebrating from this week, drawn from answers about what went well, what they're proud of or what worked — be specific and enthusiastic>", "...more if applicable"],
+    "growth_opportunity": "<reframe a recurring tension, challenge, unhelpful thought or thing to improve as an exciting opportunity for growth — be specific and optimistic, e.g. 'Your sleep struggles are a clear signal that a wind-down routine could unlock better energy and focus.' null if nothing stands out.>",
+    "gratitude_highlight": "<a meaningful gratitude theme or specific entry that stood out, or null if no answers touch on gratitude>"
   },
   "looking_ahead": "<2-3 sentences of actionable, specific encouragement for next week. Tie back to any growth opportunities surfaced in reflections — the purpose of reflection is awareness and mindful attention, so inspire the user to focus on areas that deserve it. End on an energising, forward-looking note that makes them excited for the week ahead.>"
 }
@@ -45,11 +44,219 @@ Rules:
 - Always lead with positivity. Celebrate effort and progress, not just perfection.
 - When addressing missed targets, be gentle and reframe as opportunity — never use words like "failed," "poor," or "disappointing."
 - Write like you're talking directly to the person — use "you" and "your."
+- Journal entries pair each answer with the prompt it responds to. Prompts vary by day and template (e.g. a CBT thought record, a work retro, a sleep log, free writing), so read each answer in light of its prompt.
+- Journal entries may carry 1–5 ratings: mood (higher is better), energy (higher is more energy) and stress (higher is more stressed), plus emotion tags; mood_summary averages them for the week. Cite them where they add insight — e.g. how mood tracked with the days habits were done, or an energy dip mid-week — and never shame a low rating.
 - If no journal data is provided, set reflection_themes fields to null (wins to empty array).
 - If no goals exist, return an empty array for goal_progress.
 - Keep the total response under 500 words.
 - Return ONLY the JSON object, no markdown fencing.`;
 
+// Mirrors computeGoalMilestones in lib/goalMath.ts: auto milestones every 25%
+// from start to target plus the user's own, each with the first date an entry
+// reached it.
+function computeGoalMilestones(
+  goal: any,
+  entries: Array<{ value: number; recorded_date: string }>,
+): Array<{ label: string; value: number; percent: number; reached_on: string | null }> {
+  const goalStart = String(goal.start_date).slice(0, 10);
+  const points = entries
+    .filter((e) => e.recorded_date >= goalStart)
+    .sort((a, b) => a.recorded_date.localeCompare(b.recorded_date));
+
+  const startValue = goal.start_value ?? points[0]?.value ?? null;
+  if (startValue === null) return [];
+  const totalChange = goal.target_value - startValue;
+  const direction = Math.sign(totalChange);
+  if (direction === 0) return [];
+
+  const definitions: Array<{ label: string; value: number; percent: number }> = [];
+  if (goal.auto_milestones !== false) {
+    for (const percent of [25, 50, 75, 100]) {
+      definitions.push({
+        label: percent === 100 ? "Goal reached" : `${percent}% of the way`,
+        value: percent === 100
+          ? goal.target_value
+          : Math.round((startValue + totalChange * (percent / 100)) * 10) / 10,
+        percent,
+      });
+    }
+  }
+  for (const custom of Array.isArray(goal.milestones) ? goal.milestones : []) {
+    if (typeof custom?.value !== "number" || !Number.isFinite(custom.value)) continue;
+    const percent = Math.round(((custom.value - startValue) / totalChange) * 100);
+    definitions.push({
+      label: String(custom.label ?? "").trim() || `${custom.value}`,
+      value: custom.value,
+      percent: Math.max(0, Math.min(100, percent)),
+    });
+  }
+
+  const isPast = (value: number, milestone: number) =>
+    direction < 0 ? value <= milestone : value >= milestone;
+
+  return definitions
+    .map((m) => ({
+      ...m,
+      reached_on: points.find((p) => isPast(p.value, m.value))?.recorded_date ?? null,
+    }))
+    .sort((a, b) => a.percent - b.percent);
+}
+
+// Mirrors computeCumulativeTotals in lib/goalMath.ts: cumulative goals add
+// each day's amount to a running total over start_date..target_date.
+function toCumulativeTotals(
+  goal: any,
+  entries: Array<{ value: number; recorded_date: string }>,
+): Array<{ value: number; recorded_date: string }> {
+  const start = String(goal.start_date).slice(0, 10);
+  const end = goal.target_date ? String(goal.target_date).slice(0, 10) : null;
+  let total = 0;
+  return entries
+    .filter((e) => e.recorded_date >= start && (!end || e.recorded_date <= end))
+    .sort((a, b) => a.recorded_date.localeCompare(b.recorded_date))
+    .map((e) => {
+      total += Number(e.value);
+      return { recorded_date: e.recorded_date, value: Math.round(total * 100) / 100 };
+    });
+}
+
+// Mirrors formatDuration in lib/goalMath.ts: time goals store seconds, shown
+// as m:ss or h:mm:ss (tenths kept under an hour).
+function formatDuration(seconds: number): string {
+  const sign = seconds < 0 ? "-" : "";
+  const tenths = Math.round(Math.abs(seconds) * 10);
+  const showTenths = tenths % 10 !== 0 && tenths < 36000;
+  const whole = showTenths ? Math.floor(tenths / 10) : Math.round(tenths / 10);
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = String(whole % 60).padStart(2, "0") + (showTenths ? `.${tenths % 10}` : "");
+  return h > 0 ? `${sign}${h}:${String(m).padStart(2, "0")}:${s}` : `${sign}${m}:${s}`;
+}
+
+// Mirrors formatRunningDistance in lib/goalMath.ts
+const RUNNING_DISTANCES = [
+  { label: "1 Mile", meters: 1609.344 },
+  { label: "3 Miles", meters: 4828.032 },
+  { label: "5K", meters: 5000 },
+  { label: "10K", meters: 10000 },
+  { label: "Half Marathon", meters: 21097.5 },
+  { label: "Marathon", meters: 42195 },
+];
+
+function formatRunningDistance(meters: number): string {
+  const standard = RUNNING_DISTANCES.find((d) => Math.abs(d.meters - meters) < 1);
+  if (standard) return standard.label;
+  return `${Math.round(meters / 10) / 100} km`;
+}
+
+// Background HealthKit sync progress (see lib/healthSync.ts). Days before a
+// source's synced_through are final, so a week's data is complete only once
+// synced_through is past week_end.
+function isHealthDataComplete(
+  syncedThrough: Map<string, string | null>,
+  source: string,
+  weekEnd: string,
+): boolean {
+  const through = syncedThrough.get(source);
+  return !!through && through > weekEnd;
+}
+
+// Mirrors getTargetDaysForRange in lib/habits.ts: completions a habit needs in
+// the week, honouring recurrence rules. Monthly counts only owe what the rest
+// of the month can no longer make up, given `completedDates` (met completions
+// earlier in the month).
+function getWeeklyTargetDays(
+  habit: any,
+  weekStart: string,
+  weekEnd: string,
+  completedDates: string[] = [],
+): number {
+  const recurrence = habit.recurrence;
+  if (!recurrence) {
+    return habit.specific_days && habit.specific_days.length > 0
+      ? habit.specific_days.length
+      : habit.frequency_per_week;
+  }
+
+  const dates = getDatesInRange(weekStart, weekEnd);
+  const daysInMonth = (date: string) => {
+    const [year, month] = date.split("-").map(Number);
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+  };
+
+  if (recurrence.type === "monthly_count") {
+    let target = 0;
+    // One segment per calendar month the week touches
+    for (let segmentStart = weekStart; segmentStart <= weekEnd;) {
+      const month = getMonthRange(segmentStart);
+      const segmentEnd = month.end < weekEnd ? month.end : weekEnd;
+      const doneBefore = completedDates.filter((d) => d >= month.start && d < segmentStart).length;
+      const daysAfter = getDatesInRange(segmentEnd, month.end).length - 1;
+      const owed = recurrence.times_per_month - doneBefore - daysAfter;
+      target += Math.min(getDatesInRange(segmentStart, segmentEnd).length, Math.max(0, owed));
+      segmentStart = addDays(segmentEnd, 1);
+    }
+    return target;
+  }
+  if (recurrence.type === "interval_days") {
+    const start = new Date(`${recurrence.start_date}T12:00:00Z`).getTime();
+    return dates.filter((date) => {
+      const diff = Math.round((new Date(`${date}T12:00:00Z`).getTime() - start) / 86400000);
+      return diff >= 0 && diff % Math.max(1, recurrence.interval) === 0;
+    }).length;
+  }
+  if (recurrence.type === "day_of_month") {
+    return dates.filter((date) => {
+      const day = Number(date.slice(8, 10));
+      return recurrence.days.some((d: number) => Math.min(d, daysInMonth(date)) === day);
+    }).length;
+  }
+  return habit.frequency_per_week;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// First and last day of the date's calendar month
+function getMonthRange(date: string): { start: string; end: string } {
+  const [year, month] = date.split("-").map(Number);
+  return {
+    start: `${date.slice(0, 7)}-01`,
+    end: new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10),
+  };
+}
+
+function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (
+    let d = new Date(`${startDate}T12:00:00Z`);
+    d <= new Date(`${endDate}T12:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1)
+  ) {
+    dates.push(d.toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Reads every page of an ordered query; `fetchPage` selects rows from..to inclusive
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
 function corsHeaders() {
   return {
     "Access-Control-Allow-Origin": "*",
@@ -142,32 +349,35 @@ Deno.serve(async (req: Request) => {
       goalEntriesResult,
       journalResult,
       identityResult,
+      slipsResult,
+      healthSyncResult,
     ] = await Promise.all([
       supabase
         .from("habits")
-        .select("id, name, frequency_per_week, specific_days, identity_statement_id")
+        .select("id, name, frequency_per_week, specific_days, identity_statement_id, target_amount, unit, recurrence, habit_type, auto_complete, metric_type, created_at")
         .eq("user_id", user_id)
         .eq("is_active", true),
       supabase
         .from("habit_completions")
-        .select("habit_id, completed_date")
+        .select("habit_id, completed_date, quantity")
         .eq("user_id", user_id)
-        .gte("completed_date", week_start)
+        // From the start of the month, for month-to-date monthly-count targets
+        .gte("completed_date", getMonthRange(week_start).start)
         .lte("completed_date", week_end),
       supabase
         .from("goals")
-        .select("id, title, goal_type, target_value, unit, start_value, data_source")
+        .select("id, title, goal_type, target_value, unit, start_value, start_date, target_date, data_source, auto_milestones, milestones, status, achieved_date, final_value, distance_meters")
         .eq("user_id", user_id)
         .eq("is_active", true),
       supabase
         .from("goal_entries")
-        .select("goal_id, value, recorded_date")
+        .select("goal_id, value, recorded_date, distance_meters, duration_seconds")
         .eq("user_id", user_id)
         .gte("recorded_date", week_start)
         .lte("recorded_date", week_end),
       supabase
         .from("daily_journal_entries")
-        .select("journal_date, win, tension, gratitude")
+        .select("journal_date, answers, mood, energy, stress, emotions, journal_templates(name)")
         .eq("user_id", user_id)
         .gte("journal_date", week_start)
         .lte("journal_date", week_end),
@@ -176,14 +386,83 @@ Deno.serve(async (req: Request) => {
         .select("id, statement, emoji")
         .eq("user_id", user_id)
         .eq("is_active", true),
+      supabase
+        .from("habit_slips")
+        .select("habit_id, slip_date")
+        .eq("user_id", user_id)
+        .gte("slip_date", week_start)
+        .lte("slip_date", week_end),
+      supabase
+        .from("health_sync_status")
+        .select("source, synced_through")
+        .eq("user_id", user_id),
     ]);
 
     const habits = habitsResult.data ?? [];
-    const completions = completionsResult.data ?? [];
-    const goals = goalsResult.data ?? [];
+    const monthCompletions = completionsResult.data ?? [];
+    const completions = monthCompletions.filter((c) => c.completed_date >= week_start);
+    // Active goals, plus goals achieved during the week. Paused and abandoned
+    // goals are left out.
+    const goals = (goalsResult.data ?? []).filter(
+      (g) =>
+        (g.status ?? "active") === "active" ||
+        (g.status === "achieved" && !!g.achieved_date && g.achieved_date >= week_start && g.achieved_date <= week_end),
+    );
     const goalEntries = goalEntriesResult.data ?? [];
-    const journalEntries = journalResult.data ?? [];
+    // Each goal's entries from its start up to the week's end, to tell when
+    // milestones were first reached. Health-synced goals log daily, so page
+    // past PostgREST's row cap.
+    const goalHistory = (
+      await Promise.all(
+        goals.map((goal) =>
+          fetchAllPages<{ goal_id: string; value: number; recorded_date: string }>((from, to) =>
+            supabase
+              .from("goal_entries")
+              .select("goal_id, value, recorded_date")
+              .eq("user_id", user_id)
+              .eq("goal_id", goal.id)
+              .gte("recorded_date", String(goal.start_date).slice(0, 10))
+              .lte("recorded_date", week_end)
+              .order("recorded_date", { ascending: true })
+              .order("id", { ascending: true })
+              .range(from, to)
+          )
+        ),
+      )
+    ).flat();
+    // Each entry lists the prompts it answered; prompts depend on the user's
+    // journal template (win/tension/gratitude, thought records, free writing...).
+    // Mood, energy and stress are 1–5 ratings, left out when not given.
+    const journalEntries = (journalResult.data ?? [])
+      .map((j: any) => ({
+        journal_date: j.journal_date,
+        template: j.journal_templates?.name ?? null,
+        answers: (j.answers ?? [])
+          .filter((a: any) => typeof a.answer === "string" && a.answer.trim() !== "")
+          .map((a: any) => ({ prompt: a.prompt, answer: a.answer })),
+        ...(j.mood != null ? { mood: j.mood } : {}),
+        ...(j.energy != null ? { energy: j.energy } : {}),
+        ...(j.stress != null ? { stress: j.stress } : {}),
+        ...(j.emotions?.length ? { emotions: j.emotions } : {}),
+      }))
+      .filter((j) => j.answers.length > 0 || j.mood != null || j.energy != null || j.stress != null);
+    const averageRating = (key: "mood" | "energy" | "stress") => {
+      const values = journalEntries.map((j) => j[key]).filter((v): v is number => v != null);
+      return values.length > 0
+        ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10
+        : null;
+    };
+    const moodSummary = {
+      avg_mood: averageRating("mood"),
+      avg_energy: averageRating("energy"),
+      avg_stress: averageRating("stress"),
+      rated_days: journalEntries.filter((j) => j.mood != null).length,
+    };
     const identityStatements = identityResult.data ?? [];
+    const slips = slipsResult.data ?? [];
+    const healthSyncedThrough = new Map<string, string | null>(
+      (healthSyncResult.data ?? []).map((s) => [s.source, s.synced_through]),
+    );
 
     console.log("Data fetched:", {
       habits: habits.length,
@@ -194,6 +473,15 @@ Deno.serve(async (req: Request) => {
       identityStatements: identityStatements.length,
     });
 
+    // Health-backed goals and auto-complete habits whose HealthKit data for
+    // the week hasn't fully reached Supabase yet
+    const isGoalHealthIncomplete = (goal: { goal_type: string; data_source: string | null }) =>
+      goal.data_source === "apple_health" &&
+      !isHealthDataComplete(healthSyncedThrough, `goal:${goal.goal_type}`, week_end);
+    const isHabitHealthIncomplete = (habit: { auto_complete: boolean | null; metric_type: string | null }) =>
+      !!habit.auto_complete && !!habit.metric_type &&
+      !isHealthDataComplete(healthSyncedThrough, `habit:${habit.metric_type}`, week_end);
+
     // Count distinct active days (4-day minimum threshold)
     const activeDays = new Set<string>();
     for (const c of completions) activeDays.add(c.completed_date);
@@ -205,37 +493,154 @@ Deno.serve(async (req: Request) => {
       return jsonResponse({ skipped: true, reason: "insufficient_data", active_days: activeDays.size });
     }
 
+    // Fraction of the daily target a completion reached. Completions without a
+    // quantity (boolean habits, auto-completions) count as fully done.
+    const completionProgress = (
+      habit: { target_amount: number | null },
+      completion: { quantity: number | null },
+    ) => {
+      if (!habit.target_amount || completion.quantity == null) return 1;
+      return Math.min(1, completion.quantity / habit.target_amount);
+    };
+
     // Build structured data for the prompt
     const habitSummaries = habits.map((habit) => {
+      // Avoid habits: every day since creation is a target day, clean days count as completed
+      if (habit.habit_type === "avoid") {
+        const createdDate = String(habit.created_at).slice(0, 10);
+        const trackedDates = getDatesInRange(
+          createdDate > week_start ? createdDate : week_start,
+          week_end,
+        );
+        const habitSlips = slips.filter((s) => s.habit_id === habit.id);
+        const slipDates = new Set(habitSlips.map((s) => s.slip_date));
+        const cleanDays = trackedDates.filter((date) => !slipDates.has(date)).length;
+        return {
+          name: habit.name,
+          habit_type: "avoid",
+          target_days: trackedDates.length,
+          completed_days: cleanDays,
+          slip_count: habitSlips.length,
+          slip_dates: Array.from(slipDates).sort(),
+        };
+      }
+
       const habitCompletions = completions.filter(
         (c) => c.habit_id === habit.id,
       );
+      const metCompletions = habitCompletions.filter(
+        (c) => completionProgress(habit, c) >= 1,
+      );
+      const targetDays = getWeeklyTargetDays(
+        habit,
+        week_start,
+        week_end,
+        monthCompletions
+          .filter((c) =>
+            c.habit_id === habit.id && c.completed_date < week_start && completionProgress(habit, c) >= 1
+          )
+          .map((c) => c.completed_date),
+      );
+      const progressDays = Math.min(
+        targetDays,
+        habitCompletions.reduce((sum, c) => sum + completionProgress(habit, c), 0),
+      );
       return {
         name: habit.name,
-        target_days: habit.frequency_per_week,
-        completed_days: habitCompletions.length,
-        completed_dates: habitCompletions.map((c) => c.completed_date),
+        target_days: targetDays,
+        completed_days: metCompletions.length,
+        completed_dates: metCompletions.map((c) => c.completed_date),
+        ...(isHabitHealthIncomplete(habit) ? { health_data_incomplete: true } : {}),
+        ...(habit.target_amount
+          ? {
+            daily_target: habit.target_amount,
+            unit: habit.unit,
+            progress_days: Math.round(progressDays * 10) / 10,
+            partial_days: habitCompletions
+              .filter((c) => completionProgress(habit, c) < 1)
+              .map((c) => ({ date: c.completed_date, logged: c.quantity })),
+          }
+          : {}),
       };
     });
 
     const totalTarget = habitSummaries.reduce((sum, h) => sum + h.target_days, 0);
-    const totalCompleted = habitSummaries.reduce((sum, h) => sum + h.completed_days, 0);
+    const totalCompleted = habitSummaries.reduce(
+      (sum, h) => sum + ("progress_days" in h ? h.progress_days : h.completed_days),
+      0,
+    );
     const overallAdherence = totalTarget > 0 ? Math.round((totalCompleted / totalTarget) * 100) : 0;
+    const hasQuantitativeHabits = habits.some((h) => !!h.target_amount);
+    const hasAvoidHabits = habits.some((h) => h.habit_type === "avoid");
+    const summaryByHabitId = new Map(habits.map((h, i) => [h.id, habitSummaries[i]]));
+
+    const historyByGoalId = new Map(
+      goals.map((goal) => {
+        const entries = goalHistory.filter((e) => e.goal_id === goal.id);
+        return [goal.id, goal.goal_type === "cumulative" ? toCumulativeTotals(goal, entries) : entries];
+      }),
+    );
+    const milestonesByGoalId = new Map(
+      goals.map((goal) => [goal.id, computeGoalMilestones(goal, historyByGoalId.get(goal.id) ?? [])]),
+    );
+    const isInWeek = (date: string | null) => !!date && date >= week_start && date <= week_end;
 
     const goalSummaries = goals.map((goal) => {
       const entries = goalEntries.filter((e) => e.goal_id === goal.id);
+      const milestones = milestonesByGoalId.get(goal.id) ?? [];
+      const nextMilestone = milestones.find((m) => !m.reached_on);
       return {
         title: goal.title,
         goal_type: goal.goal_type,
         target_value: goal.target_value,
         unit: goal.unit,
         start_value: goal.start_value,
+        ...(isGoalHealthIncomplete(goal) ? { health_data_incomplete: true } : {}),
         entries_this_week: entries.map((e) => ({
           date: e.recorded_date,
           value: e.value,
+          ...(goal.unit === "seconds" ? { time: formatDuration(Number(e.value)) } : {}),
+          ...(e.distance_meters && e.duration_seconds
+            ? {
+              ran: `${formatRunningDistance(Number(e.distance_meters))} in ${formatDuration(Number(e.duration_seconds))}`,
+            }
+            : {}),
         })),
+        milestones_reached_this_week: milestones
+          .filter((m) => isInWeek(m.reached_on))
+          .map((m) => ({ label: m.label, value: m.value, reached_on: m.reached_on })),
+        next_milestone: nextMilestone
+          ? { label: nextMilestone.label, value: nextMilestone.value }
+          : null,
+        ...(goal.status === "achieved"
+          ? { achieved_on: goal.achieved_date, final_value: goal.final_value }
+          : {}),
+        ...(goal.unit === "seconds"
+          ? {
+            kind: "time",
+            distance: goal.distance_meters ? formatRunningDistance(Number(goal.distance_meters)) : null,
+            target_time: formatDuration(Number(goal.target_value)),
+            start_time: goal.start_value !== null ? formatDuration(Number(goal.start_value)) : null,
+          }
+          : {}),
+        ...(goal.goal_type === "cumulative"
+          ? {
+            kind: "cumulative",
+            target_date: goal.target_date ? String(goal.target_date).slice(0, 10) : null,
+            total_so_far: historyByGoalId.get(goal.id)?.slice(-1)[0]?.value ?? 0,
+          }
+          : {}),
       };
     });
+    const hasCumulativeGoals = goals.some((g) => g.goal_type === "cumulative");
+    const hasTimeGoals = goals.some((g) => g.unit === "seconds");
+    const hasAchievedGoals = goals.some((g) => g.status === "achieved");
+    const hasIncompleteHealthData =
+      goals.some(isGoalHealthIncomplete) ||
+      habits.some((h) => h.habit_type !== "avoid" && isHabitHealthIncomplete(h));
+    if (hasIncompleteHealthData) {
+      console.log("Health data not synced through", week_end);
+    }
 
     // Build identity context only when the user has identity statements
     let identityContext = null;
@@ -244,16 +649,12 @@ Deno.serve(async (req: Request) => {
         const mappedHabits = habits.filter(
           (h) => h.identity_statement_id === identity.id,
         );
-        const totalTarget = mappedHabits.reduce(
-          (sum, h) => sum + h.frequency_per_week,
+        const mappedSummaries = mappedHabits.map((h) => summaryByHabitId.get(h.id)!);
+        const totalTarget = mappedSummaries.reduce((sum, h) => sum + h.target_days, 0);
+        const totalCompleted = mappedSummaries.reduce(
+          (sum, h) => sum + ("progress_days" in h ? h.progress_days : h.completed_days),
           0,
         );
-        const totalCompleted = mappedHabits.reduce((sum, h) => {
-          return (
-            sum +
-            completions.filter((c) => c.habit_id === h.id).length
-          );
-        }, 0);
         return {
           statement: identity.statement,
           emoji: identity.emoji,
@@ -273,6 +674,7 @@ Deno.serve(async (req: Request) => {
         habits: habitSummaries,
         goals: goalSummaries,
         journal_entries: journalEntries.length > 0 ? journalEntries : null,
+        ...(moodSummary.rated_days > 0 ? { mood_summary: moodSummary } : {}),
         ...(identityContext ? { identities: identityContext } : {}),
       },
       null,
@@ -285,6 +687,34 @@ Deno.serve(async (req: Request) => {
       systemPrompt += `\n\nThe user has defined identity statements — "I am ___" declarations that represent who they want to become. Habits are mapped to these identities. When identities are present in the data:\n- Include an "identity_review" field in your JSON output with this schema:\n  "identity_review": {\n    "identities": [{ "statement": "<identity>", "emoji": "<emoji>", "adherence_pct": <number>, "mapped_habit_count": <number> }],\n    "narrative": "<2-3 sentences weaving identity progress into the motivational narrative. Celebrate identities where adherence is high — 'You really showed up as [identity] this week.' Gently encourage identities that slipped — 'Next week, let's channel more energy into being [identity].' Use their emojis.>"\n  }\n- Reference their identities in week_summary and looking_ahead naturally.\n- If no identities are in the data, omit identity_review entirely.`;
     }
 
+    if (hasQuantitativeHabits) {
+      systemPrompt += `\n\nSome habits track an amount toward a daily target (they include "daily_target", "unit", "progress_days" and "partial_days"). A day only counts in completed_days when the full target was reached; partial_days lists days where some amount was logged but the target wasn't met. Credit partial effort — e.g. "you logged water on 6 days and hit all 8 glasses on 4 of them" — rather than treating partial days as misses.`;
+    }
+
+    if (hasAvoidHabits) {
+      systemPrompt += `\n\nSome habits are things the user is trying to avoid (they have "habit_type": "avoid"). For these, completed_days counts clean days and slip_count / slip_dates list the slips. A clean week is a real achievement — celebrate it. Never describe clean days as missed, and treat slips with compassion: acknowledge them briefly and focus on the clean days around them.`;
+    }
+
+    if (hasCumulativeGoals) {
+      systemPrompt += `\n\nSome goals are cumulative (they have "kind": "cumulative"): each entry is an amount added toward a total by target_date, and total_so_far is the running total. For these, entries_this_week are amounts done this week — talk about what was added and whether the total is on pace for the target date, not about the value going up or down.`;
+    }
+
+    if (hasTimeGoals) {
+      systemPrompt += `\n\nSome goals are target times (they have "kind": "time"), stored in seconds — lower is better. Always write times as they appear in "time", "target_time" and "start_time" (e.g. 21:34), never as seconds. An entry with "ran" was a run at another distance; its time is the equivalent for the goal's distance, so mention what was actually run.`;
+    }
+
+    if (hasIncompleteHealthData) {
+      systemPrompt += `\n\nSome goals and habits are tracked from Apple Health, and their data for this week hasn't finished syncing (they have "health_data_incomplete": true). Missing entries or unchecked days on these may just not have arrived yet — never call them misses or a lapse. Talk about what is there, and don't judge their trend from a partial week.`;
+    }
+
+    if (hasAchievedGoals) {
+      systemPrompt += `\n\nSome goals were achieved this week (they have "achieved_on" and "final_value"). This is the biggest news of the week — lead week_summary with it, and make that goal's narrative a celebration of the whole journey from start_value to final_value rather than a progress update.`;
+    }
+
+    if (goalSummaries.some((g) => g.milestones_reached_this_week.length > 0)) {
+      systemPrompt += `\n\nSome goals crossed a milestone this week (listed in "milestones_reached_this_week"). These are big moments — open that goal's narrative by celebrating the milestone, and mention the biggest one in week_summary. Where a goal has a "next_milestone", you may point to it in looking_ahead.`;
+    }
+
     // Call Claude API
     console.log("Calling Claude API...");
     const startTime = Date.now();
@@ -340,6 +770,26 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Milestones and achieved goals come from the data, not the model, so the
+    // recap always lists exactly what was reached this week
+    if (Array.isArray(recapContent.goal_progress)) {
+      recapContent.goal_progress = recapContent.goal_progress.map((item: any) => {
+        const goal = goals.find((g) => g.title === item?.title);
+        const reached = goal
+          ? (milestonesByGoalId.get(goal.id) ?? []).filter((m) => isInWeek(m.reached_on))
+          : [];
+        return {
+          ...item,
+          ...(goal?.status === "achieved" ? { achieved_on: goal.achieved_date } : {}),
+          ...(reached.length > 0
+            ? {
+              milestones: reached.map((m) => ({ label: m.label, value: m.value, reached_on: m.reached_on })),
+            }
+            : {}),
+        };
+      });
+    }
+
     // Insert the recap
     console.log("Inserting recap into database...");
     const { data: recap, error: insertError } = await supabase
@@ -57,6 +57,29 @@ function getDayOfWeekInTimezone(tz: string): number {
   return map[dateStr] ?? new Date().getDay();
 }
 
+// Mirrors isRecurrenceDueOn/getHabitsForDay in lib/habits.ts. Monthly-count
+// habits can be done any day, like "any N days" weekly habits.
+function isHabitDueOn(habit: any, date: string, dayOfWeek: number): boolean {
+  const recurrence = habit.recurrence;
+  if (recurrence?.type === "interval_days") {
+    const diff = Math.round(
+      (new Date(`${date}T12:00:00Z`).getTime() -
+        new Date(`${recurrence.start_date}T12:00:00Z`).getTime()) / 86400000,
+    );
+    return diff >= 0 && diff % Math.max(1, recurrence.interval) === 0;
+  }
+  if (recurrence?.type === "day_of_month") {
+    const [year, month, day] = date.split("-").map(Number);
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return recurrence.days.some((d: number) => Math.min(d, lastDay) === day);
+  }
+  if (recurrence?.type === "monthly_count") return true;
+  if (habit.specific_days && habit.specific_days.length > 0) {
+    return habit.specific_days.includes(dayOfWeek);
+  }
+  return true;
+}
+
 function getCurrentTimeInTimezone(tz: string): { hours: number; minutes: number } {
   const timeStr = new Date().toLocaleTimeString("en-US", {
     timeZone: tz,
@@ -85,10 +108,70 @@ function isWithinCallWindow(
   return current >= call && current < call + windowMinutes;
 }
 
+interface JournalPrompt {
+  id: string;
+  label: string;
+  hint?: string;
+}
+
+const DEFAULT_JOURNAL_TEMPLATE_ID = "00000000-0000-4000-8000-000000000001";
+
+// The built-in default template's prompts, in case it can't be read
+const DEFAULT_JOURNAL_PROMPTS: JournalPrompt[] = [
+  { id: "win", label: "One Win", hint: "What went well today?" },
+  { id: "tension", label: "One Point of Tension", hint: "What challenged you today?" },
+  { id: "gratitude", label: "One Gratitude", hint: "What are you grateful for?" },
+];
+
+// Mirrors getJournalTemplateForDate/getJournalPromptsForDate in
+// lib/journalTemplates.ts: the weekday's scheduled template, else the chosen
+// default, with rotating templates showing prompts_per_day prompts.
+async function loadJournalPrompts(
+  supabase: ReturnType<typeof createClient>,
+  settings: Record<string, any> | null | undefined,
+  date: string,
+): Promise<{ templateId: string; prompts: JournalPrompt[] }> {
+  const dayOfWeek = new Date(`${date}T12:00:00Z`).getUTCDay();
+  const templateId: string =
+    settings?.journal_template_schedule?.[dayOfWeek] ??
+    settings?.journal_template_id ??
+    DEFAULT_JOURNAL_TEMPLATE_ID;
+
+  const { data } = await supabase
+    .from("journal_templates")
+    .select("id, prompts, prompts_per_day, is_active")
+    .in("id", [templateId, DEFAULT_JOURNAL_TEMPLATE_ID]);
+
+  const template =
+    (data ?? []).find((t: any) => t.id === templateId && t.is_active) ??
+    (data ?? []).find((t: any) => t.id === DEFAULT_JOURNAL_TEMPLATE_ID);
+  if (!template) {
+    return { templateId: DEFAULT_JOURNAL_TEMPLATE_ID, prompts: DEFAULT_JOURNAL_PROMPTS };
+  }
+
+  const prompts: JournalPrompt[] = template.prompts ?? [];
+  const perDay: number | null = template.prompts_per_day;
+  if (!perDay || perDay >= prompts.length) return { templateId: template.id, prompts };
+
+  const dayNumber = Math.floor(Date.parse(`${date}T00:00:00Z`) / 86400000);
+  const start = (dayNumber * perDay) % prompts.length;
+  return {
+    templateId: template.id,
+    prompts: Array.from({ length: perDay }, (_, i) => prompts[(start + i) % prompts.length]),
+  };
+}
+
+function formatJournalPrompts(prompts: JournalPrompt[]): string {
+  return prompts
+    .map((p) => `- ${p.label} (id: ${p.id})${p.hint ? ` — ${p.hint}` : ""}`)
+    .join("\n");
+}
+
 function buildSystemPrompt(
   userName: string,
   habits: Array<{ id: string; name: string }>,
   todos: Array<{ id: string; text: string; position: number }>,
+  journalPrompts: JournalPrompt[],
   top3Enabled = false,
 ): string {
   const todosSection =
@@ -123,12 +206,12 @@ If they don't want to, that's totally fine — move to wrap up.`
 
   const topicsList = top3Enabled
     ? `Your job is to have a warm, natural conversation covering these topics in order:
-1. Daily Journal (win, tension, gratitude)
+1. Daily Journal (${journalPrompts.map((p) => p.label).join(", ")})
 2. Daily intentions
 3. Habit check-in
 4. Tomorrow's intentions (optional)`
     : `Your job is to have a warm, natural conversation covering three topics in order:
-1. Daily Journal (win, tension, gratitude)
+1. Daily Journal (${journalPrompts.map((p) => p.label).join(", ")})
 2. Daily intentions
 3. Habit check-in`;
 
@@ -142,12 +225,11 @@ ${topicsList}
 Start with a brief, warm greeting using their name, then transition naturally through each section.
 
 ### Journal
-Ask conversationally:
-- First, their win — what went well today, what they're proud of.
-- Then tensions — anything challenging or stressful.
-- Then gratitude — what they're thankful for.
+Today's journal prompts:
+${formatJournalPrompts(journalPrompts)}
 
-After getting all three, call save_journal with concise but faithful 1-3 sentence summaries of each. This will overwrite any existing journal entry for today.
+Ask about each prompt conversationally, in order.
+After covering them, call save_journal with a concise but faithful 1-3 sentence summary for each prompt_id. This will overwrite any existing journal entry for today.
 
 ${todosSection}
 
@@ -174,24 +256,29 @@ function buildTools(serverUrl: string, top3Enabled = false) {
       function: {
         name: "save_journal",
         description:
-          "Save the user's journal entry with their win, tension, and gratitude for today.",
+          "Save the user's journal entry for today, with one answer per journal prompt.",
         parameters: {
           type: "object",
           properties: {
-            win: {
-              type: "string",
-              description: "Summary of the user's win for today",
-            },
-            tension: {
-              type: "string",
-              description: "Summary of the user's tension or challenge",
-            },
-            gratitude: {
-              type: "string",
-              description: "What the user is grateful for today",
+            answers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  prompt_id: {
+                    type: "string",
+                    description: "The ID of the journal prompt",
+                  },
+                  answer: {
+                    type: "string",
+                    description: "Summary of the user's answer to the prompt",
+                  },
+                },
+                required: ["prompt_id", "answer"],
+              },
             },
           },
-          required: ["win", "tension", "gratitude"],
+          required: ["answers"],
         },
       },
       server: { url: serverUrl },
@@ -307,7 +394,7 @@ async function initiateCall(
   const [habitsResult, todosResult, completionsResult] = await Promise.all([
     supabase
       .from("habits")
-      .select("id, name, specific_days")
+      .select("id, name, specific_days, recurrence, habit_type")
       .eq("user_id", user.user_id)
       .eq("is_active", true),
     supabase
@@ -324,12 +411,10 @@ async function initiateCall(
   ]);
 
   const allHabits = habitsResult.data ?? [];
-  const todaysHabits = allHabits.filter((h: any) => {
-    if (h.specific_days && h.specific_days.length > 0) {
-      return h.specific_days.includes(dayOfWeek);
-    }
-    return true;
-  });
+  // Avoid habits are tracked by slips, so there is nothing to check off on the call
+  const todaysHabits = allHabits.filter((h: any) =>
+    h.habit_type !== "avoid" && isHabitDueOn(h, today, dayOfWeek)
+  );
 
   const completedIds = new Set(
     (completionsResult.data ?? []).map((c: any) => c.habit_id),
@@ -342,6 +427,7 @@ async function initiateCall(
   );
 
   const top3Enabled = user.settings?.top3_todos_enabled === true;
+  const { prompts: journalPrompts } = await loadJournalPrompts(supabase, user.settings, today);
 
   const systemPrompt = buildSystemPrompt(
     user.full_name || "",
@@ -351,6 +437,7 @@ async function initiateCall(
       text: t.text,
       position: t.position,
     })),
+    journalPrompts,
     top3Enabled,
   );
 
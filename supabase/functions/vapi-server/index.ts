@@ -160,16 +160,20 @@ async function handleToolCalls(
     try {
       switch (fnName) {
         case "save_journal": {
-          const { win, tension, gratitude } = args;
+          const { data: profile } = await supabase
+            .from("profiles")
+            .select("settings")
+            .eq("user_id", userId)
+            .maybeSingle();
+          const { templateId, prompts } = await loadJournalPrompts(supabase, profile?.settings, callDate);
           const { error } = await supabase
             .from("daily_journal_entries")
             .upsert(
               {
                 user_id: userId,
                 journal_date: callDate,
-                win: win || "",
-                tension: tension || "",
-                gratitude: gratitude || "",
+                template_id: templateId,
+                answers: toJournalAnswers(prompts, args),
               },
               { onConflict: "user_id,journal_date" },
             );
@@ -185,6 +189,7 @@ async function handleToolCalls(
             capturePosthogEvent(posthogKey, userId, "journal_submitted", {
               is_edit: false,
               date: callDate,
+              template_id: templateId,
               source: "evening_call",
             });
             result = "Journal entry saved successfully.";
@@ -461,7 +466,7 @@ async function handleAssistantRequest(
   const [habitsResult, todosResult, completionsResult] = await Promise.all([
     supabase
       .from("habits")
-      .select("id, name, specific_days")
+      .select("id, name, specific_days, recurrence, habit_type")
       .eq("user_id", user.user_id)
       .eq("is_active", true),
     supabase
@@ -478,12 +483,10 @@ async function handleAssistantRequest(
   ]);
 
   const allHabits = habitsResult.data ?? [];
-  const todaysHabits = allHabits.filter((h: any) => {
-    if (h.specific_days && h.specific_days.length > 0) {
-      return h.specific_days.includes(dayOfWeek);
-    }
-    return true;
-  });
+  // Avoid habits are tracked by slips, so there is nothing to check off on the call
+  const todaysHabits = allHabits.filter((h: any) =>
+    h.habit_type !== "avoid" && isHabitDueOn(h, today, dayOfWeek)
+  );
   const completedIds = new Set(
     (completionsResult.data ?? []).map((c: any) => c.habit_id),
   );
@@ -495,6 +498,7 @@ async function handleAssistantRequest(
   );
 
   const serverUrl = `${supabaseUrl}/functions/v1/vapi-server`;
+  const { prompts: journalPrompts } = await loadJournalPrompts(supabase, (user as any).settings, today);
 
   const todosSection =
     uncompletedTodos.length > 0
@@ -528,12 +532,12 @@ If they don't want to, that's totally fine — move to wrap up.`
 
   const topicsList = top3Enabled
     ? `Walk through these topics in order:
-1. Daily Journal (win, tension, gratitude)
+1. Daily Journal (${journalPrompts.map((p) => p.label).join(", ")})
 2. Daily intentions
 3. Habit check-in
 4. Tomorrow's intentions (optional)`
     : `Walk through three topics in order:
-1. Daily Journal (win, tension, gratitude)
+1. Daily Journal (${journalPrompts.map((p) => p.label).join(", ")})
 2. Daily intentions
 3. Habit check-in`;
 
@@ -543,8 +547,11 @@ If they don't want to, that's totally fine — move to wrap up.`
 ${topicsList}
 
 ### Journal
-Ask conversationally about their win, then tension, then gratitude.
-After getting all three, call save_journal with concise 1-3 sentence summaries. This will overwrite any existing journal entry for today.
+Today's journal prompts:
+${formatJournalPrompts(journalPrompts)}
+
+Ask about each prompt conversationally, in order.
+After covering them, call save_journal with a concise 1-3 sentence summary for each prompt_id. This will overwrite any existing journal entry for today.
 
 ${todosSection}
 
@@ -567,15 +574,23 @@ End with brief encouragement. Keep the call to 3-5 minutes.
       type: "function",
       function: {
         name: "save_journal",
-        description: "Save the user's journal entry for today.",
+        description: "Save the user's journal entry for today, one answer per journal prompt.",
         parameters: {
           type: "object",
           properties: {
-            win: { type: "string", description: "Summary of their win" },
-            tension: { type: "string", description: "Summary of their tension" },
-            gratitude: { type: "string", description: "What they're grateful for" },
+            answers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  prompt_id: { type: "string", description: "The journal prompt ID" },
+                  answer: { type: "string", description: "Summary of their answer" },
+                },
+                required: ["prompt_id", "answer"],
+              },
+            },
           },
-          required: ["win", "tension", "gratitude"],
+          required: ["answers"],
         },
       },
       server: { url: serverUrl },
@@ -684,6 +699,29 @@ End with brief encouragement. Keep the call to 3-5 minutes.
   });
 }
 
+// Mirrors isRecurrenceDueOn/getHabitsForDay in lib/habits.ts. Monthly-count
+// habits can be done any day, like "any N days" weekly habits.
+function isHabitDueOn(habit: any, date: string, dayOfWeek: number): boolean {
+  const recurrence = habit.recurrence;
+  if (recurrence?.type === "interval_days") {
+    const diff = Math.round(
+      (new Date(`${date}T12:00:00Z`).getTime() -
+        new Date(`${recurrence.start_date}T12:00:00Z`).getTime()) / 86400000,
+    );
+    return diff >= 0 && diff % Math.max(1, recurrence.interval) === 0;
+  }
+  if (recurrence?.type === "day_of_month") {
+    const [year, month, day] = date.split("-").map(Number);
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return recurrence.days.some((d: number) => Math.min(d, lastDay) === day);
+  }
+  if (recurrence?.type === "monthly_count") return true;
+  if (habit.specific_days && habit.specific_days.length > 0) {
+    return habit.specific_days.includes(dayOfWeek);
+  }
+  return true;
+}
+
 function buildFallbackAssistant(firstMessage: string) {
   return {
     model: {
@@ -707,3 +745,77 @@ function buildFallbackAssistant(firstMessage: string) {
     maxDurationSeconds: 30,
   };
 }
+
+// ─── Journal prompts ───
+
+interface JournalPrompt {
+  id: string;
+  label: string;
+  hint?: string;
+}
+
+const DEFAULT_JOURNAL_TEMPLATE_ID = "00000000-0000-4000-8000-000000000001";
+
+// The built-in default template's prompts, in case it can't be read
+const DEFAULT_JOURNAL_PROMPTS: JournalPrompt[] = [
+  { id: "win", label: "One Win", hint: "What went well today?" },
+  { id: "tension", label: "One Point of Tension", hint: "What challenged you today?" },
+  { id: "gratitude", label: "One Gratitude", hint: "What are you grateful for?" },
+];
+
+// Mirrors getJournalTemplateForDate/getJournalPromptsForDate in
+// lib/journalTemplates.ts: the weekday's scheduled template, else the chosen
+// default, with rotating templates showing prompts_per_day prompts.
+async function loadJournalPrompts(
+  supabase: ReturnType<typeof createClient>,
+  settings: Record<string, any> | null | undefined,
+  date: string,
+): Promise<{ templateId: string; prompts: JournalPrompt[] }> {
+  const dayOfWeek = new Date(`${date}T12:00:00Z`).getUTCDay();
+  const templateId: string =
+    settings?.journal_template_schedule?.[dayOfWeek] ??
+    settings?.journal_template_id ??
+    DEFAULT_JOURNAL_TEMPLATE_ID;
+
+  const { data } = await supabase
+    .from("journal_templates")
+    .select("id, prompts, prompts_per_day, is_active")
+    .in("id", [templateId, DEFAULT_JOURNAL_TEMPLATE_ID]);
+
+  const template =
+    (data ?? []).find((t: any) => t.id === templateId && t.is_active) ??
+    (data ?? []).find((t: any) => t.id === DEFAULT_JOURNAL_TEMPLATE_ID);
+  if (!template) {
+    return { templateId: DEFAULT_JOURNAL_TEMPLATE_ID, prompts: DEFAULT_JOURNAL_PROMPTS };
+  }
+
+  const prompts: JournalPrompt[] = template.prompts ?? [];
+  const perDay: number | null = template.prompts_per_day;
+  if (!perDay || perDay >= prompts.length) return { templateId: template.id, prompts };
+
+  const dayNumber = Math.floor(Date.parse(`${date}T00:00:00Z`) / 86400000);
+  const start = (dayNumber * perDay) % prompts.length;
+  return {
+    templateId: template.id,
+    prompts: Array.from({ length: perDay }, (_, i) => prompts[(start + i) % prompts.length]),
+  };
+}
+
+function formatJournalPrompts(prompts: JournalPrompt[]): string {
+  return prompts
+    .map((p) => `- ${p.label} (id: ${p.id})${p.hint ? ` — ${p.hint}` : ""}`)
+    .join("\n");
+}
+
+// Mirrors buildJournalAnswers in lib/journalTemplates.ts. Calls set up
+// before journal templates pass win / tension / gratitude directly.
+function toJournalAnswers(prompts: JournalPrompt[], args: any) {
+  const given: Record<string, unknown> = Array.isArray(args.answers)
+    ? Object.fromEntries(args.answers.map((a: any) => [a?.prompt_id, a?.answer]))
+    : args;
+  return prompts.map((p) => ({
+    prompt_id: p.id,
+    prompt: p.label,
+    answer: typeof given[p.id] === "string" ? (given[p.id] as string).trim() : "",
+  }));
+}
@@ -0,0 +1,29 @@
+-- ============================================
+-- Quantitative Habits
+-- ============================================
+-- Habits can carry a daily target amount and unit (e.g. 8 glasses, 20 pages).
+-- A completion row records the quantity logged for that day; repeated logs
+-- accumulate on the same (habit_id, completed_date) row, and the habit only
+-- counts as done once quantity >= target_amount.
+--
+-- Older clients keep inserting completions without a quantity. Those rows
+-- (quantity null) are treated as fully done, so boolean habits are unaffected.
+
+alter table public.habits add column if not exists target_amount numeric;
+alter table public.habits add column if not exists unit text;
+
+alter table public.habits
+  add constraint habits_target_amount_positive
+  check (target_amount is null or target_amount > 0);
+
+comment on column public.habits.target_amount is 'Daily target amount for quantitative habits (null = simple done/not-done habit)';
+comment on column public.habits.unit is 'Unit label for target_amount, e.g. glasses, pages, minutes';
+
+alter table public.habit_completions add column if not exists quantity numeric;
+
+comment on column public.habit_completions.quantity is 'Amount logged for the day on quantitative habits (null = fully completed)';
+
+-- Quantities accumulate by updating the existing row for the day
+create policy "Users can update their own completions"
+  on public.habit_completions for update
+  using (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- ============================================
+-- Flexible Habit Recurrence
+-- ============================================
+-- Adds an optional recurrence rule to habits for schedules the weekly model
+-- (frequency_per_week + specific_days) can't express:
+--   { "type": "interval_days", "interval": 14, "start_date": "2025-06-01" }  -- every N days
+--   { "type": "monthly_count", "times_per_month": 4 }                        -- any N days each month
+--   { "type": "day_of_month", "days": [1, 15] }                              -- on set dates each month
+--
+-- When recurrence is null the weekly model applies unchanged. Clients that
+-- set a recurrence also write an approximate frequency_per_week so older app
+-- versions still render a sensible weekly schedule.
+
+alter table public.habits add column if not exists recurrence jsonb;
+
+alter table public.habits
+  add constraint habits_recurrence_is_object
+  check (recurrence is null or jsonb_typeof(recurrence) = 'object');
+
+comment on column public.habits.recurrence is 'Optional recurrence rule (interval_days, monthly_count, day_of_month). null = weekly schedule';
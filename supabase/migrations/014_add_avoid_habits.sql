@@ -0,0 +1,42 @@
+-- ============================================
+-- Avoid Habits ("break a bad habit")
+-- ============================================
+-- habit_type 'avoid' flips a habit's meaning: success is a day without a slip
+-- (no alcohol, no doomscrolling). Slips are logged in their own table rather
+-- than as completions, so streaks, auto-completion and completion counts in
+-- older clients never mistake a slip for progress. A day can hold several slips.
+
+alter table public.habits add column if not exists habit_type text not null default 'build';
+
+alter table public.habits
+  add constraint habits_habit_type_check
+  check (habit_type in ('build', 'avoid'));
+
+comment on column public.habits.habit_type is 'build = do this (completions), avoid = don''t do this (slips)';
+
+create table public.habit_slips (
+  id uuid default uuid_generate_v4() primary key,
+  habit_id uuid references public.habits(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  slip_date date not null,
+  note text,
+  created_at timestamptz default now() not null
+);
+
+-- Enable RLS
+alter table public.habit_slips enable row level security;
+
+create policy "Users can view their own slips"
+  on public.habit_slips for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own slips"
+  on public.habit_slips for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own slips"
+  on public.habit_slips for delete
+  using (auth.uid() = user_id);
+
+create index idx_habit_slips_user_date on public.habit_slips(user_id, slip_date);
+create index idx_habit_slips_habit on public.habit_slips(habit_id, slip_date);
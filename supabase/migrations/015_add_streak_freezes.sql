@@ -0,0 +1,33 @@
+-- ============================================
+-- Streak Freezes
+-- ============================================
+-- A freeze protects one missed period (a scheduled day, or a week/month for
+-- "N times per" habits) so a habit's streak carries on across it.
+-- Freezes are earned from streak milestones, which the app derives from
+-- completion history; only their use is stored here.
+
+create table public.streak_freezes (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  habit_id uuid references public.habits(id) on delete cascade not null,
+  freeze_date date not null, -- the missed day, or the first day of the missed week/month
+  created_at timestamptz default now() not null,
+  unique(habit_id, freeze_date)
+);
+
+-- Enable RLS
+alter table public.streak_freezes enable row level security;
+
+create policy "Users can view their own streak freezes"
+  on public.streak_freezes for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own streak freezes"
+  on public.streak_freezes for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own streak freezes"
+  on public.streak_freezes for delete
+  using (auth.uid() = user_id);
+
+create index idx_streak_freezes_user on public.streak_freezes(user_id);
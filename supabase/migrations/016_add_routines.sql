@@ -0,0 +1,51 @@
+-- ============================================
+-- Routines (habit stacking)
+-- ============================================
+-- A routine is a named, ordered group of habits ("Morning routine") that can
+-- be run step by step. Each habit belongs to at most one routine; its place
+-- in the routine is routine_position. Routine completion for a day is derived
+-- from the habits' completions, so nothing extra is stored per day.
+
+create table public.routines (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  sort_order integer not null default 0,
+  is_active boolean default true not null,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+-- Enable RLS
+alter table public.routines enable row level security;
+
+create policy "Users can view their own routines"
+  on public.routines for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own routines"
+  on public.routines for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own routines"
+  on public.routines for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own routines"
+  on public.routines for delete
+  using (auth.uid() = user_id);
+
+create trigger routines_updated_at
+  before update on public.routines
+  for each row execute procedure public.update_updated_at();
+
+create index idx_routines_user on public.routines(user_id, is_active);
+
+-- ============================================
+-- Add routine membership to habits (nullable, backward-compatible)
+-- ============================================
+alter table public.habits
+  add column routine_id uuid references public.routines(id) on delete set null;
+alter table public.habits add column routine_position integer;
+
+create index idx_habits_routine on public.habits(routine_id);
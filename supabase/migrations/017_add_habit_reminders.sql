@@ -0,0 +1,19 @@
+-- ============================================
+-- Per-Habit Reminders
+-- ============================================
+-- Each habit can carry its own local reminder times ("HH:MM", 24h) and,
+-- optionally, the weekdays they fire on (0=Sun .. 6=Sat). When reminder_days
+-- is null, reminders follow the habit's own schedule.
+--
+-- The app schedules one local notification per upcoming occurrence and
+-- skips the ones for habits already completed or snoozed today.
+
+alter table public.habits add column if not exists reminder_times text[];
+alter table public.habits add column if not exists reminder_days integer[];
+
+alter table public.habits
+  add constraint habits_reminder_days_valid
+  check (reminder_days is null or reminder_days <@ array[0, 1, 2, 3, 4, 5, 6]);
+
+comment on column public.habits.reminder_times is 'Local reminder times as HH:MM. null/empty = no reminders';
+comment on column public.habits.reminder_days is 'Weekdays reminders fire on (0=Sun). null = follow the habit schedule';
@@ -0,0 +1,19 @@
+-- ============================================
+-- Goal Milestones
+-- ============================================
+-- Goals can celebrate checkpoints on the way to their target. Auto milestones
+-- sit at every 25% between start_value and target_value; users can add their
+-- own (e.g. "Sub-200 lbs" at 199.9) as { "label": text, "value": number }.
+--
+-- When a milestone was reached is derived from goal_entries / HealthKit
+-- history, so only the definitions are stored.
+
+alter table public.goals add column if not exists auto_milestones boolean not null default true;
+alter table public.goals add column if not exists milestones jsonb not null default '[]'::jsonb;
+
+alter table public.goals
+  add constraint goals_milestones_is_array
+  check (jsonb_typeof(milestones) = 'array');
+
+comment on column public.goals.auto_milestones is 'Celebrate every 25% of the way from start_value to target_value';
+comment on column public.goals.milestones is 'User-defined milestones: [{ "label": text, "value": number }]';
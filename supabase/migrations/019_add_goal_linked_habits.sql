@@ -0,0 +1,15 @@
+-- ============================================
+-- Goal ↔ Habit links
+-- ============================================
+-- A goal can name the habits expected to move it ("Lose weight" ← "Walk 10k
+-- steps", "No late snacks"). The app compares the habits' weekly adherence
+-- with the goal's weekly rate of change; nothing derived is stored.
+--
+-- Habit ids are kept as an array on the goal rather than a join table: a
+-- goal links a handful of habits and the list is always read with the goal.
+-- Deleted habits are simply ignored when the links are read.
+
+alter table public.goals
+  add column if not exists linked_habit_ids uuid[] not null default '{}';
+
+comment on column public.goals.linked_habit_ids is 'Habits expected to drive this goal, compared against its weekly rate of change';
@@ -0,0 +1,18 @@
+-- ============================================
+-- Lift sets on goal entries
+-- ============================================
+-- Strength goals (goal_type 'strength_pr') are logged as sets of weight × reps.
+-- The day's entry keeps the sets that were logged, and its value is the best
+-- estimated one-rep max among them, so charts, milestones and the weekly
+-- recap keep reading goal_entries.value as before.
+--
+-- Sets are stored as [{ "weight": number, "reps": integer }]. Other goal
+-- types leave the column null.
+
+alter table public.goal_entries add column if not exists sets jsonb;
+
+alter table public.goal_entries
+  add constraint goal_entries_sets_is_array
+  check (sets is null or jsonb_typeof(sets) = 'array');
+
+comment on column public.goal_entries.sets is 'Lift sets for strength goals: [{ "weight": number, "reps": integer }]; value is their best estimated 1RM';
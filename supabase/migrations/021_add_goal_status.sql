@@ -0,0 +1,28 @@
+-- ============================================
+-- Goal statuses
+-- ============================================
+-- Goals used to end only by being removed (is_active = false), which hid
+-- them for good. A goal now has an explicit status:
+--   active    — tracked on the Progress tab
+--   paused    — still listed, but left out of weekly recaps
+--   achieved  — reached; achieved_date and final_value record when and where
+--   abandoned — stopped early; final_value records where it ended
+-- Achieved and abandoned goals make up the archive. is_active keeps meaning
+-- "not deleted": goals removed before statuses existed stay removed, and
+-- every remaining goal starts out active.
+
+alter table public.goals
+  add column if not exists status text not null default 'active',
+  add column if not exists status_changed_at timestamptz,
+  add column if not exists achieved_date date,
+  add column if not exists final_value numeric;
+
+alter table public.goals
+  add constraint goals_status_check
+  check (status in ('active', 'paused', 'achieved', 'abandoned'));
+
+create index if not exists idx_goals_user_status on public.goals(user_id, status);
+
+comment on column public.goals.status is 'active | paused | achieved | abandoned';
+comment on column public.goals.achieved_date is 'Day the goal was marked achieved';
+comment on column public.goals.final_value is 'Value when the goal was achieved or abandoned';
@@ -0,0 +1,13 @@
+-- ============================================
+-- Goal entry notes
+-- ============================================
+-- Manual goal entries can carry a short note ("after vacation", "new scale")
+-- explaining a reading. Entries imported from a spreadsheet keep theirs.
+
+alter table public.goal_entries add column if not exists note text;
+
+alter table public.goal_entries
+  add constraint goal_entries_note_length
+  check (note is null or char_length(note) <= 280);
+
+comment on column public.goal_entries.note is 'Optional note explaining the reading, up to 280 characters';
@@ -0,0 +1,68 @@
+-- ============================================
+-- Time-based goals
+-- ============================================
+-- Running PRs used to store a time as decimal minutes under the unit 'mm:ss'
+-- (24.5 = 24:30), which couldn't hold sub-second times and had no idea which
+-- distance it was for. Time goals now use the unit 'seconds' and carry the
+-- distance they're for in goals.distance_meters.
+--
+-- A run can be logged at any distance. The entry keeps what was run
+-- (distance_meters, duration_seconds) and its value is the equivalent time at
+-- the goal's distance (Riegel's formula), so charts, milestones and the
+-- weekly recap keep reading goal_entries.value as before. An entry without a
+-- distance was run at the goal's distance.
+
+alter table public.goals add column if not exists distance_meters numeric;
+
+alter table public.goals
+  add constraint goals_distance_meters_positive
+  check (distance_meters is null or distance_meters > 0);
+
+alter table public.goal_entries
+  add column if not exists distance_meters numeric,
+  add column if not exists duration_seconds numeric;
+
+alter table public.goal_entries
+  add constraint goal_entries_distance_meters_positive
+  check (distance_meters is null or distance_meters > 0);
+
+alter table public.goal_entries
+  add constraint goal_entries_duration_seconds_positive
+  check (duration_seconds is null or duration_seconds > 0);
+
+-- Convert existing 'mm:ss' goals from minutes to seconds: entries first, while
+-- the goals can still be found by their old unit
+update public.goal_entries e
+set value = e.value * 60
+from public.goals g
+where e.goal_id = g.id and g.unit = 'mm:ss';
+
+update public.goals
+set target_value = target_value * 60,
+    start_value = start_value * 60,
+    final_value = final_value * 60,
+    milestones = (
+      select coalesce(
+        jsonb_agg(jsonb_set(m, '{value}', to_jsonb((m->>'value')::numeric * 60))),
+        '[]'::jsonb
+      )
+      from jsonb_array_elements(milestones) m
+    ),
+    unit = 'seconds'
+where unit = 'mm:ss';
+
+-- Running PR titles were "<distance> PR"
+update public.goals
+set distance_meters = case
+  when title like '1 Mile%' then 1609.344
+  when title like '3 Miles%' then 4828.032
+  when title like '5K%' then 5000
+  when title like '10K%' then 10000
+  when title like 'Half Marathon%' then 21097.5
+  when title like 'Marathon%' then 42195
+end
+where goal_type = 'running_pr' and distance_meters is null;
+
+comment on column public.goals.distance_meters is 'Time goals: the distance the target time is for';
+comment on column public.goal_entries.distance_meters is 'Time goals: distance run, if not the goal''s distance';
+comment on column public.goal_entries.duration_seconds is 'Time goals: time run over distance_meters; value is the equivalent time at the goal''s distance';
@@ -0,0 +1,42 @@
+-- ============================================
+-- Background HealthKit sync status
+-- ============================================
+-- HealthKit data only reaches Supabase when the app pushes it. The app now
+-- syncs in the background whenever HealthKit reports new samples, one row
+-- per source here:
+--   'goal:<goal_type>'    goal_entries for Apple Health goals of that type
+--   'habit:<metric_type>' habit_completions for auto-complete habits
+--
+-- synced_through is the sync cursor: the local date of the last successful
+-- sync. The next sync re-reads from that day onwards (it may have been
+-- partial), so every day before synced_through is final. Server-side
+-- features use it to tell whether a week's health data is complete.
+
+create table public.health_sync_status (
+  user_id uuid references auth.users(id) on delete cascade not null,
+  source text not null,
+  synced_through date,
+  last_synced_at timestamptz,
+  last_error text,
+  updated_at timestamptz default now() not null,
+  primary key (user_id, source)
+);
+
+-- Enable RLS
+alter table public.health_sync_status enable row level security;
+
+create policy "Users can view their own health sync status"
+  on public.health_sync_status for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own health sync status"
+  on public.health_sync_status for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own health sync status"
+  on public.health_sync_status for update
+  using (auth.uid() = user_id);
+
+create trigger health_sync_status_updated_at
+  before update on public.health_sync_status
+  for each row execute procedure public.update_updated_at();
@@ -0,0 +1,149 @@
+-- ============================================
+-- Journal prompt templates
+-- ============================================
+-- The daily journal used to ask the same three questions (win, tension,
+-- gratitude) in three fixed columns. A journal template is now a named list of
+-- prompts. Built-in templates have no user_id and are visible to everyone;
+-- users add their own. A template with prompts_per_day shows that many of its
+-- prompts each day, rotating through the list by date.
+--
+-- Which template a day uses lives in profiles.settings: journal_template_id
+-- (the default) and journal_template_schedule (weekday → template id).
+
+create table public.journal_templates (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) on delete cascade,
+  name text not null,
+  emoji text not null default '📓',
+  -- [{ "id": "win", "label": "One Win", "hint": "...", "placeholder": "...", "emoji": "🏆" }]
+  prompts jsonb not null default '[]'::jsonb check (jsonb_typeof(prompts) = 'array'),
+  prompts_per_day integer check (prompts_per_day is null or prompts_per_day > 0),
+  sort_order integer not null default 0,
+  is_active boolean default true not null,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null
+);
+
+-- Enable RLS
+alter table public.journal_templates enable row level security;
+
+create policy "Users can view built-in and their own journal templates"
+  on public.journal_templates for select
+  using (user_id is null or auth.uid() = user_id);
+
+create policy "Users can insert their own journal templates"
+  on public.journal_templates for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own journal templates"
+  on public.journal_templates for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own journal templates"
+  on public.journal_templates for delete
+  using (auth.uid() = user_id);
+
+create trigger journal_templates_updated_at
+  before update on public.journal_templates
+  for each row execute procedure public.update_updated_at();
+
+create index idx_journal_templates_user on public.journal_templates(user_id, is_active);
+
+-- Built-in templates. Ids are fixed so the app can refer to them
+-- (lib/journalTemplates.ts).
+insert into public.journal_templates (id, user_id, name, emoji, prompts, prompts_per_day, sort_order) values
+  ('00000000-0000-4000-8000-000000000001', null, 'Win · Tension · Gratitude', '🏆', '[
+    {"id": "win", "label": "One Win", "hint": "What went well today?", "placeholder": "I accomplished...", "emoji": "🏆"},
+    {"id": "tension", "label": "One Point of Tension", "hint": "What challenged you today?", "placeholder": "I struggled with...", "emoji": "🔥"},
+    {"id": "gratitude", "label": "One Gratitude", "hint": "What are you grateful for?", "placeholder": "I''m grateful for...", "emoji": "🙏"}
+  ]'::jsonb, null, 0),
+  ('00000000-0000-4000-8000-000000000002', null, 'Free Write', '✍️', '[
+    {"id": "entry", "label": "Journal", "hint": "Write whatever is on your mind.", "placeholder": "Today...", "emoji": "✍️"}
+  ]'::jsonb, null, 1),
+  ('00000000-0000-4000-8000-000000000003', null, 'CBT Thought Record', '🧠', '[
+    {"id": "situation", "label": "Situation", "hint": "What happened? Where were you, who was there?", "placeholder": "I was...", "emoji": "📍"},
+    {"id": "thought", "label": "Automatic Thought", "hint": "What went through your mind?", "placeholder": "I thought...", "emoji": "💭"},
+    {"id": "feeling", "label": "Feelings", "hint": "What did you feel, and how strongly?", "placeholder": "I felt...", "emoji": "🌊"},
+    {"id": "evidence", "label": "Evidence", "hint": "What supports the thought? What doesn''t?", "placeholder": "On the other hand...", "emoji": "⚖️"},
+    {"id": "reframe", "label": "Balanced Thought", "hint": "What''s a fairer way to see it?", "placeholder": "A more balanced view is...", "emoji": "🌱"}
+  ]'::jsonb, null, 2),
+  ('00000000-0000-4000-8000-000000000004', null, 'Work Retro', '💼', '[
+    {"id": "went_well", "label": "Went Well", "hint": "What worked today?", "placeholder": "It went well when...", "emoji": "✅"},
+    {"id": "improve", "label": "To Improve", "hint": "What would you do differently?", "placeholder": "Next time I''ll...", "emoji": "🔧"},
+    {"id": "next", "label": "Next Up", "hint": "What''s the most important thing tomorrow?", "placeholder": "Tomorrow I''ll...", "emoji": "➡️"}
+  ]'::jsonb, null, 3),
+  ('00000000-0000-4000-8000-000000000005', null, 'Sleep Log', '😴', '[
+    {"id": "bedtime", "label": "Bedtime & Wake", "hint": "When did you go to bed and get up?", "placeholder": "11pm – 7am", "emoji": "🕰️"},
+    {"id": "quality", "label": "Sleep Quality", "hint": "How did you sleep, and how rested do you feel?", "placeholder": "I slept...", "emoji": "🛌"},
+    {"id": "factors", "label": "What Affected It", "hint": "Caffeine, screens, stress, exercise?", "placeholder": "I noticed...", "emoji": "🔍"}
+  ]'::jsonb, null, 4),
+  ('00000000-0000-4000-8000-000000000006', null, 'Rotating Reflections', '🔄', '[
+    {"id": "proud", "label": "Proud Of", "hint": "What are you proud of today?", "emoji": "🌟"},
+    {"id": "energy", "label": "Energy", "hint": "What gave you energy, and what drained it?", "emoji": "⚡"},
+    {"id": "learned", "label": "Learned", "hint": "What did you learn today?", "emoji": "📚"},
+    {"id": "kindness", "label": "Kindness", "hint": "Who were you kind to, or who was kind to you?", "emoji": "💛"},
+    {"id": "avoiding", "label": "Avoiding", "hint": "What are you putting off, and why?", "emoji": "🙈"},
+    {"id": "tomorrow", "label": "Tomorrow", "hint": "What would make tomorrow great?", "emoji": "🌅"}
+  ]'::jsonb, 2, 5);
+
+-- ============================================
+-- Flexible journal answers
+-- ============================================
+-- Entries keep what was answered as [{ prompt_id, prompt, answer }]. The
+-- prompt's label is copied in so history still reads right after a template
+-- is edited or deleted.
+
+alter table public.daily_journal_entries
+  add column template_id uuid references public.journal_templates(id) on delete set null;
+alter table public.daily_journal_entries
+  add column answers jsonb not null default '[]'::jsonb check (jsonb_typeof(answers) = 'array');
+
+update public.daily_journal_entries
+set
+  template_id = '00000000-0000-4000-8000-000000000001',
+  answers = jsonb_build_array(
+    jsonb_build_object('prompt_id', 'win', 'prompt', 'One Win', 'answer', win),
+    jsonb_build_object('prompt_id', 'tension', 'prompt', 'One Point of Tension', 'answer', tension),
+    jsonb_build_object('prompt_id', 'gratitude', 'prompt', 'One Gratitude', 'answer', gratitude)
+  );
+
+-- win / tension / gratitude stay for app builds that still read and write
+-- them. This trigger keeps the two shapes in step: new answers are copied
+-- back into the legacy columns, and legacy writes are turned into answers.
+-- Only entries on the default template (or none) are converted, so an old
+-- build editing a custom-template entry can't replace its answers; those
+-- edits only land in the legacy columns.
+-- Drop the columns and the trigger once those builds are gone.
+create or replace function public.sync_journal_legacy_columns()
+returns trigger as $$
+declare
+  answers_changed boolean := tg_op = 'INSERT' and new.answers <> '[]'::jsonb
+    or tg_op = 'UPDATE' and new.answers is distinct from old.answers;
+  legacy_changed boolean := tg_op = 'INSERT'
+    or tg_op = 'UPDATE' and (new.win, new.tension, new.gratitude)
+      is distinct from (old.win, old.tension, old.gratitude);
+begin
+  if answers_changed then
+    select
+      coalesce(max(a->>'answer') filter (where a->>'prompt_id' = 'win'), ''),
+      coalesce(max(a->>'answer') filter (where a->>'prompt_id' = 'tension'), ''),
+      coalesce(max(a->>'answer') filter (where a->>'prompt_id' = 'gratitude'), '')
+    into new.win, new.tension, new.gratitude
+    from jsonb_array_elements(new.answers) a;
+  elsif legacy_changed
+    and (new.win <> '' or new.tension <> '' or new.gratitude <> '')
+    and (new.template_id is null or new.template_id = '00000000-0000-4000-8000-000000000001') then
+    new.template_id := '00000000-0000-4000-8000-000000000001';
+    new.answers := jsonb_build_array(
+      jsonb_build_object('prompt_id', 'win', 'prompt', 'One Win', 'answer', new.win),
+      jsonb_build_object('prompt_id', 'tension', 'prompt', 'One Point of Tension', 'answer', new.tension),
+      jsonb_build_object('prompt_id', 'gratitude', 'prompt', 'One Gratitude', 'answer', new.gratitude)
+    );
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger daily_journal_entries_legacy_columns
+  before insert or update on public.daily_journal_entries
+  for each row execute procedure public.sync_journal_legacy_columns();
@@ -0,0 +1,15 @@
+-- ============================================
+-- Mood, energy and stress on journal entries
+-- ============================================
+-- Each journal entry can carry 1–5 ratings for mood, energy and stress, plus
+-- optional emotion tags (lib/journalMood.ts lists the ones the app offers).
+-- All are optional: an entry is complete once its prompts are answered.
+
+alter table public.daily_journal_entries
+  add column mood smallint check (mood between 1 and 5);
+alter table public.daily_journal_entries
+  add column energy smallint check (energy between 1 and 5);
+alter table public.daily_journal_entries
+  add column stress smallint check (stress between 1 and 5);
+alter table public.daily_journal_entries
+  add column emotions text[] not null default '{}';
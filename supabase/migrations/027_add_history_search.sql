@@ -0,0 +1,94 @@
+-- ============================================
+-- Full-text search across journal, todos and recaps
+-- ============================================
+-- search_history() searches journal answers, daily todos and weekly recaps in
+-- one go for the app's search screen. Each table gets a GIN index on the same
+-- tsvector expression the function matches against, so the expressions must
+-- stay in step.
+--
+-- Matches in the returned snippets are wrapped in « and » (SEARCH_HIGHLIGHT_*
+-- in lib/search.ts).
+
+create index idx_daily_journal_entries_search on public.daily_journal_entries
+  using gin (jsonb_to_tsvector('english', jsonb_path_query_array(answers, '$[*].answer'), '["string"]'));
+
+create index idx_daily_todos_search on public.daily_todos
+  using gin (to_tsvector('english', text));
+
+create index idx_weekly_recaps_search on public.weekly_recaps
+  using gin (jsonb_to_tsvector('english', content, '["string"]'));
+
+-- Runs as the caller, so row level security applies as well as the user_id
+-- filters. Results are ordered by relevance, then newest first; result_date
+-- is the journal or todo date, or the recap's week_start.
+create or replace function public.search_history(search_query text, max_results integer default 50)
+returns table (
+  kind text,
+  id uuid,
+  result_date date,
+  snippet text,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', search_query) as query
+  )
+  select * from (
+    select
+      'journal'::text,
+      e.id,
+      e.journal_date,
+      ts_headline(
+        'english',
+        (select string_agg(a->>'answer', ' … ') from jsonb_array_elements(e.answers) a),
+        q.query,
+        'StartSel=«, StopSel=», MaxFragments=2, MinWords=6, MaxWords=20, FragmentDelimiter=" … "'
+      ),
+      ts_rank(
+        jsonb_to_tsvector('english', jsonb_path_query_array(e.answers, '$[*].answer'), '["string"]'),
+        q.query
+      )
+    from public.daily_journal_entries e, q
+    where e.user_id = auth.uid()
+      and jsonb_to_tsvector('english', jsonb_path_query_array(e.answers, '$[*].answer'), '["string"]') @@ q.query
+
+    union all
+
+    select
+      'todo'::text,
+      t.id,
+      t.todo_date,
+      ts_headline('english', t.text, q.query, 'StartSel=«, StopSel=», HighlightAll=true'),
+      ts_rank(to_tsvector('english', t.text), q.query)
+    from public.daily_todos t, q
+    where t.user_id = auth.uid()
+      and to_tsvector('english', t.text) @@ q.query
+
+    union all
+
+    select
+      'recap'::text,
+      r.id,
+      r.week_start,
+      ts_headline(
+        'english',
+        (
+          select string_agg(v #>> '{}', ' … ')
+          from jsonb_path_query(r.content, 'strict $.**') v
+          where jsonb_typeof(v) = 'string'
+        ),
+        q.query,
+        'StartSel=«, StopSel=», MaxFragments=2, MinWords=6, MaxWords=20, FragmentDelimiter=" … "'
+      ),
+      ts_rank(jsonb_to_tsvector('english', r.content, '["string"]'), q.query)
+    from public.weekly_recaps r, q
+    where r.user_id = auth.uid()
+      and jsonb_to_tsvector('english', r.content, '["string"]') @@ q.query
+  ) results (kind, id, result_date, snippet, rank)
+  order by rank desc, result_date desc
+  limit max_results;
+$$;
@@ -0,0 +1,41 @@
+-- ============================================
+-- AI journal reflections
+-- ============================================
+-- Written by the generate-journal-reflection edge function, in the same
+-- coaching voice as weekly recaps. An 'entry' reflection responds to one
+-- journal entry (start_date = end_date = its journal_date) and is replaced
+-- when the entry is saved again. A 'range' reflection looks back over any
+-- span of days, e.g. the last 30.
+
+create table public.journal_reflections (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  scope text not null check (scope in ('entry', 'range')),
+  start_date date not null,
+  end_date date not null,
+  journal_entry_id uuid references public.daily_journal_entries(id) on delete cascade,
+  entry_count integer not null default 1,
+  content jsonb not null,
+  created_at timestamptz default now() not null,
+  updated_at timestamptz default now() not null,
+  unique (user_id, scope, start_date, end_date),
+  check (end_date >= start_date),
+  check (scope = 'range' or (journal_entry_id is not null and start_date = end_date))
+);
+
+-- Enable RLS. Rows are written by the edge function with the service role.
+alter table public.journal_reflections enable row level security;
+
+create policy "Users can view their own journal reflections"
+  on public.journal_reflections for select
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own journal reflections"
+  on public.journal_reflections for delete
+  using (auth.uid() = user_id);
+
+create trigger journal_reflections_updated_at
+  before update on public.journal_reflections
+  for each row execute procedure public.update_updated_at();
+
+create index idx_journal_reflections_user on public.journal_reflections(user_id, end_date desc);
@@ -0,0 +1,12 @@
+-- ============================================
+-- Carry over unfinished daily intentions
+-- ============================================
+-- Rolling an unfinished todo over copies it into a free position on the new
+-- day. The original stays on its date (still unfinished) with carried_to_date
+-- set, so it is never carried twice and history can count how often items
+-- slipped. The copy's carry_count is one more than the original's.
+
+alter table public.daily_todos
+  add column carried_to_date date;
+alter table public.daily_todos
+  add column carry_count integer not null default 0 check (carry_count >= 0);
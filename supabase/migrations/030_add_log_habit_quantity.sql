@@ -0,0 +1,49 @@
+-- ============================================
+-- Atomic quantity logs
+-- ============================================
+-- log_habit_quantity() adds an amount to the day's completion row in a single
+-- statement, so two quick logs (or a phone and a watch logging at once) both
+-- count instead of the later read-then-write overwriting the earlier one.
+--
+-- The total never drops below zero; once it reaches zero the row is removed,
+-- the same as unchecking the habit. Rows without a quantity (auto-completions,
+-- older clients) mean the target was met, so they count as the habit's
+-- target_amount, as getLoggedQuantity does in the app. Returns the new total
+-- for the day.
+
+create or replace function public.log_habit_quantity(
+  log_habit_id uuid,
+  log_user_id uuid,
+  log_date date,
+  amount numeric
+)
+returns numeric
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  total numeric;
+begin
+  insert into public.habit_completions (habit_id, user_id, completed_date, quantity)
+  values (log_habit_id, log_user_id, log_date, greatest(0, amount))
+  on conflict (habit_id, completed_date) do update
+    set quantity = greatest(
+      0,
+      coalesce(
+        habit_completions.quantity,
+        (select h.target_amount from public.habits h where h.id = log_habit_id),
+        0
+      ) + amount
+    )
+  returning quantity into total;
+
+  if total = 0 then
+    delete from public.habit_completions
+    where habit_id = log_habit_id
+      and completed_date = log_date;
+  end if;
+
+  return total;
+end;
+$$;
@@ -0,0 +1,37 @@
+-- ============================================
+-- Atomic cumulative goal entries
+-- ============================================
+-- add_goal_entry_amount() adds to the day's entry for a cumulative goal in a
+-- single statement, so logs made close together (or by health sync and the
+-- user at once) both count instead of the later one overwriting the earlier.
+--
+-- The value never drops below zero. The note is only touched when set_note is
+-- true, matching addGoalEntry where an undefined note keeps the existing one.
+-- Returns the day's entry.
+
+create or replace function public.add_goal_entry_amount(
+  entry_goal_id uuid,
+  entry_user_id uuid,
+  entry_date date,
+  amount numeric,
+  entry_note text default null,
+  set_note boolean default false
+)
+returns public.goal_entries
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  entry public.goal_entries;
+begin
+  insert into public.goal_entries (goal_id, user_id, value, recorded_date, note)
+  values (entry_goal_id, entry_user_id, greatest(0, amount), entry_date, entry_note)
+  on conflict (goal_id, recorded_date) do update
+    set value = greatest(0, goal_entries.value + amount),
+        note = case when set_note then entry_note else goal_entries.note end
+  returning * into entry;
+
+  return entry;
+end;
+$$;
@@ -0,0 +1,33 @@
+-- ============================================
+-- Auto-complete skips
+-- ============================================
+-- Unchecking an auto-complete habit records the day here so health data
+-- (background sync and the Today screen's check) doesn't put the completion
+-- straight back the next time the metric is read. Checking the habit again by
+-- hand deletes the day's row.
+
+create table public.habit_auto_complete_skips (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  habit_id uuid references public.habits(id) on delete cascade not null,
+  skip_date date not null,
+  created_at timestamptz default now() not null,
+  unique(habit_id, skip_date)
+);
+
+-- Enable RLS
+alter table public.habit_auto_complete_skips enable row level security;
+
+create policy "Users can view their own auto-complete skips"
+  on public.habit_auto_complete_skips for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own auto-complete skips"
+  on public.habit_auto_complete_skips for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own auto-complete skips"
+  on public.habit_auto_complete_skips for delete
+  using (auth.uid() = user_id);
+
+create index idx_habit_auto_complete_skips_user on public.habit_auto_complete_skips(user_id, skip_date);
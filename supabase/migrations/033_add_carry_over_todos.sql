@@ -0,0 +1,43 @@
+-- ============================================
+-- Atomic todo carry-over
+-- ============================================
+-- carry_over_todos() marks the originals as carried and inserts their copies
+-- in one statement, so a failure part way (or a second device carrying the
+-- same day at once) can't leave copies without carried originals, or the
+-- reverse. Originals already carried, completed, or missing are skipped, which
+-- also makes retries safe. A copy landing on a taken position fails the whole
+-- statement on unique(user_id, todo_date, position) and nothing changes.
+--
+-- moves is a JSON array of { "id": <original todo id>, "position": 1-3 }.
+-- Returns how many todos were carried.
+
+create or replace function public.carry_over_todos(
+  carry_user_id uuid,
+  target_date date,
+  moves jsonb
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  carried integer;
+begin
+  with marked as (
+    update public.daily_todos t
+    set carried_to_date = target_date
+    from jsonb_to_recordset(moves) as m(id uuid, position integer)
+    where t.id = m.id
+      and t.carried_to_date is null
+      and not t.is_completed
+    returning t.text, t.carry_count, m.position
+  )
+  insert into public.daily_todos (user_id, todo_date, position, text, is_completed, carry_count)
+  select carry_user_id, target_date, marked.position, marked.text, false, marked.carry_count + 1
+  from marked;
+
+  get diagnostics carried = row_count;
+  return carried;
+end;
+$$;
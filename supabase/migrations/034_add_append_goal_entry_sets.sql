@@ -0,0 +1,45 @@
+-- ============================================
+-- Atomic strength goal entries
+-- ============================================
+-- append_goal_entry_sets() appends lift sets to the day's entry for a strength
+-- goal in a single statement, so two sets logged close together (a double tap,
+-- or an outbox replay next to a live write) both stay on the entry instead of
+-- the later read-then-write dropping the earlier set.
+--
+-- best_value is the best estimated one-rep max among the new sets; the entry
+-- keeps the higher of it and the value its existing sets already reached. An
+-- entry without sets (logged by value) takes best_value as is, the same as
+-- recomputing from the sets alone. The note is only touched when set_note is
+-- true, matching addGoalEntry. Returns the day's entry.
+
+create or replace function public.append_goal_entry_sets(
+  entry_goal_id uuid,
+  entry_user_id uuid,
+  entry_date date,
+  new_sets jsonb,
+  best_value numeric,
+  entry_note text default null,
+  set_note boolean default false
+)
+returns public.goal_entries
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  entry public.goal_entries;
+begin
+  insert into public.goal_entries (goal_id, user_id, value, sets, recorded_date, note)
+  values (entry_goal_id, entry_user_id, best_value, new_sets, entry_date, entry_note)
+  on conflict (goal_id, recorded_date) do update
+    set sets = coalesce(goal_entries.sets, '[]'::jsonb) || new_sets,
+        value = case
+          when coalesce(jsonb_array_length(goal_entries.sets), 0) = 0 then best_value
+          else greatest(goal_entries.value, best_value)
+        end,
+        note = case when set_note then entry_note else goal_entries.note end
+  returning * into entry;
+
+  return entry;
+end;
+$$;
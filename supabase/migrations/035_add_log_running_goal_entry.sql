@@ -0,0 +1,56 @@
+-- ============================================
+-- Atomic running goal entries
+-- ============================================
+-- log_running_goal_entry() records a run on the day's entry for a time goal,
+-- keeping the faster of the stored run and the new one in a single statement.
+-- Two runs logged at once can no longer overwrite each other's best time.
+--
+-- entry_value is the run's equivalent time at the goal's distance. A slower
+-- (or equal) run leaves the entry, its run and its note untouched; a faster
+-- one replaces them, with the note only set when set_note is true, matching
+-- addGoalEntry. Returns the day's entry.
+
+create or replace function public.log_running_goal_entry(
+  entry_goal_id uuid,
+  entry_user_id uuid,
+  entry_date date,
+  entry_value numeric,
+  entry_distance_meters numeric,
+  entry_duration_seconds numeric,
+  entry_note text default null,
+  set_note boolean default false
+)
+returns public.goal_entries
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  entry public.goal_entries;
+begin
+  insert into public.goal_entries (
+    goal_id, user_id, value, distance_meters, duration_seconds, recorded_date, note
+  )
+  values (
+    entry_goal_id, entry_user_id, entry_value, entry_distance_meters,
+    entry_duration_seconds, entry_date, entry_note
+  )
+  on conflict (goal_id, recorded_date) do update
+    set value = excluded.value,
+        distance_meters = excluded.distance_meters,
+        duration_seconds = excluded.duration_seconds,
+        note = case when set_note then entry_note else goal_entries.note end
+    where excluded.value < goal_entries.value
+  returning * into entry;
+
+  -- The stored run was faster, so nothing changed
+  if not found then
+    select * into entry
+    from public.goal_entries
+    where goal_id = entry_goal_id
+      and recorded_date = entry_date;
+  end if;
+
+  return entry;
+end;
+$$;